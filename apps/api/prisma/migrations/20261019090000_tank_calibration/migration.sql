@@ -0,0 +1,24 @@
+-- AlterTable
+ALTER TABLE "shift_tank_dips" ADD COLUMN     "opening_height" DECIMAL(19,4),
+ADD COLUMN     "closing_height" DECIMAL(19,4);
+
+-- AlterTable
+ALTER TABLE "delivery_compartments" ADD COLUMN     "opening_dip_height" DECIMAL(19,4),
+ADD COLUMN     "closing_dip_height" DECIMAL(19,4);
+
+-- CreateTable
+CREATE TABLE "tank_calibration_points" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "tank_id" UUID NOT NULL,
+    "height" DECIMAL(19,4) NOT NULL,
+    "volume" DECIMAL(19,4) NOT NULL,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "tank_calibration_points_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "tank_calibration_points_tank_id_height_key" ON "tank_calibration_points"("tank_id", "height");
+
+-- AddForeignKey
+ALTER TABLE "tank_calibration_points" ADD CONSTRAINT "tank_calibration_points_tank_id_fkey" FOREIGN KEY ("tank_id") REFERENCES "tanks"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "shift_tank_dips" ADD COLUMN     "opening_temperature" DECIMAL(19,4),
+ADD COLUMN     "closing_temperature" DECIMAL(19,4),
+ADD COLUMN     "density" DECIMAL(19,4),
+ADD COLUMN     "corrected_closing_level" DECIMAL(19,4);
+
+-- AlterTable
+ALTER TABLE "delivery_compartments" ADD COLUMN     "observed_temperature" DECIMAL(19,4),
+ADD COLUMN     "observed_density" DECIMAL(19,4),
+ADD COLUMN     "correction_factor" DECIMAL(10,5),
+ADD COLUMN     "corrected_received" DECIMAL(19,4);
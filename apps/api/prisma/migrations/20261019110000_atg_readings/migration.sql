@@ -0,0 +1,47 @@
+-- CreateTable
+CREATE TABLE "atg_devices" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "station_id" UUID NOT NULL,
+    "name" TEXT NOT NULL,
+    "key_hash" TEXT NOT NULL,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "last_seen_at" TIMESTAMPTZ,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ NOT NULL,
+
+    CONSTRAINT "atg_devices_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "tank_readings" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "tank_id" UUID NOT NULL,
+    "device_id" UUID,
+    "read_at" TIMESTAMPTZ NOT NULL,
+    "volume" DECIMAL(19,4) NOT NULL,
+    "height" DECIMAL(19,4),
+    "temperature" DECIMAL(19,4),
+    "water_volume" DECIMAL(19,4),
+    "water_height" DECIMAL(19,4),
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "tank_readings_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "atg_devices_key_hash_key" ON "atg_devices"("key_hash");
+
+-- CreateIndex
+CREATE INDEX "atg_devices_station_id_idx" ON "atg_devices"("station_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "tank_readings_tank_id_read_at_key" ON "tank_readings"("tank_id", "read_at");
+
+-- AddForeignKey
+ALTER TABLE "atg_devices" ADD CONSTRAINT "atg_devices_station_id_fkey" FOREIGN KEY ("station_id") REFERENCES "stations"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "tank_readings" ADD CONSTRAINT "tank_readings_tank_id_fkey" FOREIGN KEY ("tank_id") REFERENCES "tanks"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "tank_readings" ADD CONSTRAINT "tank_readings_device_id_fkey" FOREIGN KEY ("device_id") REFERENCES "atg_devices"("id") ON DELETE SET NULL ON UPDATE CASCADE;
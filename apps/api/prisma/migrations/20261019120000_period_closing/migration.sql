@@ -0,0 +1,55 @@
+-- CreateEnum
+CREATE TYPE "PeriodReopenStatus" AS ENUM ('PENDING', 'APPROVED', 'REJECTED');
+
+-- CreateTable
+CREATE TABLE "period_closes" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "station_id" UUID NOT NULL,
+    "period_start" DATE NOT NULL,
+    "period_end" DATE NOT NULL,
+    "locked_shift_count" INTEGER NOT NULL DEFAULT 0,
+    "closed_by" UUID NOT NULL,
+    "reopened_at" TIMESTAMPTZ,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "period_closes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "period_reopen_requests" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "period_close_id" UUID NOT NULL,
+    "justification" TEXT NOT NULL,
+    "status" "PeriodReopenStatus" NOT NULL DEFAULT 'PENDING',
+    "requested_by" UUID NOT NULL,
+    "reviewed_by" UUID,
+    "review_comment" TEXT,
+    "reviewed_at" TIMESTAMPTZ,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "period_reopen_requests_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "period_closes_station_id_period_start_period_end_idx" ON "period_closes"("station_id", "period_start", "period_end");
+
+-- CreateIndex
+CREATE INDEX "period_reopen_requests_period_close_id_idx" ON "period_reopen_requests"("period_close_id");
+
+-- CreateIndex
+CREATE INDEX "period_reopen_requests_status_idx" ON "period_reopen_requests"("status");
+
+-- AddForeignKey
+ALTER TABLE "period_closes" ADD CONSTRAINT "period_closes_station_id_fkey" FOREIGN KEY ("station_id") REFERENCES "stations"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "period_closes" ADD CONSTRAINT "period_closes_closed_by_fkey" FOREIGN KEY ("closed_by") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "period_reopen_requests" ADD CONSTRAINT "period_reopen_requests_period_close_id_fkey" FOREIGN KEY ("period_close_id") REFERENCES "period_closes"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "period_reopen_requests" ADD CONSTRAINT "period_reopen_requests_requested_by_fkey" FOREIGN KEY ("requested_by") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "period_reopen_requests" ADD CONSTRAINT "period_reopen_requests_reviewed_by_fkey" FOREIGN KEY ("reviewed_by") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
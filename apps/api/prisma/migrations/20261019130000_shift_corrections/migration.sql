@@ -0,0 +1,34 @@
+-- CreateEnum
+CREATE TYPE "ShiftCorrectionStatus" AS ENUM ('PENDING', 'APPROVED', 'REJECTED');
+
+-- CreateTable
+CREATE TABLE "shift_corrections" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "shift_report_id" UUID NOT NULL,
+    "status" "ShiftCorrectionStatus" NOT NULL DEFAULT 'PENDING',
+    "reason" TEXT NOT NULL,
+    "proposed" JSONB NOT NULL,
+    "diff" JSONB NOT NULL,
+    "requested_by" UUID NOT NULL,
+    "reviewed_by" UUID,
+    "review_comment" TEXT,
+    "reviewed_at" TIMESTAMPTZ,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "shift_corrections_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "shift_corrections_shift_report_id_idx" ON "shift_corrections"("shift_report_id");
+
+-- CreateIndex
+CREATE INDEX "shift_corrections_status_idx" ON "shift_corrections"("status");
+
+-- AddForeignKey
+ALTER TABLE "shift_corrections" ADD CONSTRAINT "shift_corrections_shift_report_id_fkey" FOREIGN KEY ("shift_report_id") REFERENCES "shift_reports"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "shift_corrections" ADD CONSTRAINT "shift_corrections_requested_by_fkey" FOREIGN KEY ("requested_by") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "shift_corrections" ADD CONSTRAINT "shift_corrections_reviewed_by_fkey" FOREIGN KEY ("reviewed_by") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
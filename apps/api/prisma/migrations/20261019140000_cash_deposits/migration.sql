@@ -0,0 +1,80 @@
+-- CreateEnum
+CREATE TYPE "CashHandoverType" AS ENUM ('SAFE_DROP', 'CLOSING_ENVELOPE');
+
+-- CreateTable
+CREATE TABLE "cash_handovers" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "shift_report_id" UUID NOT NULL,
+    "type" "CashHandoverType" NOT NULL,
+    "amount" DECIMAL(19,4) NOT NULL,
+    "envelope_number" TEXT,
+    "notes" TEXT,
+    "handed_by" UUID NOT NULL,
+    "received_by" UUID,
+    "received_at" TIMESTAMPTZ,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "cash_handovers_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "bank_deposits" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "station_id" UUID NOT NULL,
+    "bank_name" TEXT NOT NULL,
+    "slip_number" TEXT NOT NULL,
+    "amount" DECIMAL(19,4) NOT NULL,
+    "deposit_date" DATE NOT NULL,
+    "proof_url" TEXT NOT NULL,
+    "notes" TEXT,
+    "deposited_by" UUID NOT NULL,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "bank_deposits_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "bank_deposit_shifts" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "bank_deposit_id" UUID NOT NULL,
+    "shift_report_id" UUID NOT NULL,
+    "amount" DECIMAL(19,4) NOT NULL,
+
+    CONSTRAINT "bank_deposit_shifts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "cash_handovers_shift_report_id_idx" ON "cash_handovers"("shift_report_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "bank_deposits_bank_name_slip_number_key" ON "bank_deposits"("bank_name", "slip_number");
+
+-- CreateIndex
+CREATE INDEX "bank_deposits_station_id_deposit_date_idx" ON "bank_deposits"("station_id", "deposit_date" DESC);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "bank_deposit_shifts_bank_deposit_id_shift_report_id_key" ON "bank_deposit_shifts"("bank_deposit_id", "shift_report_id");
+
+-- CreateIndex
+CREATE INDEX "bank_deposit_shifts_shift_report_id_idx" ON "bank_deposit_shifts"("shift_report_id");
+
+-- AddForeignKey
+ALTER TABLE "cash_handovers" ADD CONSTRAINT "cash_handovers_shift_report_id_fkey" FOREIGN KEY ("shift_report_id") REFERENCES "shift_reports"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "cash_handovers" ADD CONSTRAINT "cash_handovers_handed_by_fkey" FOREIGN KEY ("handed_by") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "cash_handovers" ADD CONSTRAINT "cash_handovers_received_by_fkey" FOREIGN KEY ("received_by") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bank_deposits" ADD CONSTRAINT "bank_deposits_station_id_fkey" FOREIGN KEY ("station_id") REFERENCES "stations"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bank_deposits" ADD CONSTRAINT "bank_deposits_deposited_by_fkey" FOREIGN KEY ("deposited_by") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bank_deposit_shifts" ADD CONSTRAINT "bank_deposit_shifts_bank_deposit_id_fkey" FOREIGN KEY ("bank_deposit_id") REFERENCES "bank_deposits"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bank_deposit_shifts" ADD CONSTRAINT "bank_deposit_shifts_shift_report_id_fkey" FOREIGN KEY ("shift_report_id") REFERENCES "shift_reports"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
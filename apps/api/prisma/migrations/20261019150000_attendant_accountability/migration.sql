@@ -0,0 +1,64 @@
+-- CreateTable
+CREATE TABLE "shift_assignments" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "shift_report_id" UUID NOT NULL,
+    "nozzle_id" UUID NOT NULL,
+    "attendant_id" UUID NOT NULL,
+    "start_index" DECIMAL(19,4) NOT NULL,
+    "end_index" DECIMAL(19,4),
+    "volume_sold" DECIMAL(19,4),
+    "revenue" DECIMAL(19,4),
+    "started_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "ended_at" TIMESTAMPTZ,
+    "assigned_by" UUID NOT NULL,
+
+    CONSTRAINT "shift_assignments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "shift_attendants" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "shift_report_id" UUID NOT NULL,
+    "attendant_id" UUID NOT NULL,
+    "cash_declared" DECIMAL(19,4) NOT NULL DEFAULT 0,
+    "card_amount" DECIMAL(19,4) NOT NULL DEFAULT 0,
+    "declared_at" TIMESTAMPTZ,
+    "volume_sold" DECIMAL(19,4) NOT NULL DEFAULT 0,
+    "revenue" DECIMAL(19,4) NOT NULL DEFAULT 0,
+    "theoretical_cash" DECIMAL(19,4) NOT NULL DEFAULT 0,
+    "cash_variance" DECIMAL(19,4) NOT NULL DEFAULT 0,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ NOT NULL,
+
+    CONSTRAINT "shift_attendants_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "shift_assignments_shift_report_id_nozzle_id_idx" ON "shift_assignments"("shift_report_id", "nozzle_id");
+
+-- CreateIndex
+CREATE INDEX "shift_assignments_attendant_id_idx" ON "shift_assignments"("attendant_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "shift_attendants_shift_report_id_attendant_id_key" ON "shift_attendants"("shift_report_id", "attendant_id");
+
+-- CreateIndex
+CREATE INDEX "shift_attendants_attendant_id_idx" ON "shift_attendants"("attendant_id");
+
+-- AddForeignKey
+ALTER TABLE "shift_assignments" ADD CONSTRAINT "shift_assignments_shift_report_id_fkey" FOREIGN KEY ("shift_report_id") REFERENCES "shift_reports"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "shift_assignments" ADD CONSTRAINT "shift_assignments_nozzle_id_fkey" FOREIGN KEY ("nozzle_id") REFERENCES "nozzles"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "shift_assignments" ADD CONSTRAINT "shift_assignments_attendant_id_fkey" FOREIGN KEY ("attendant_id") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "shift_assignments" ADD CONSTRAINT "shift_assignments_assigned_by_fkey" FOREIGN KEY ("assigned_by") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "shift_attendants" ADD CONSTRAINT "shift_attendants_shift_report_id_fkey" FOREIGN KEY ("shift_report_id") REFERENCES "shift_reports"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "shift_attendants" ADD CONSTRAINT "shift_attendants_attendant_id_fkey" FOREIGN KEY ("attendant_id") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,10 @@
+-- Shift types become codes of the station's shift patterns (Station.settings.shiftPatterns)
+
+-- AlterTable
+ALTER TABLE "shift_reports" ALTER COLUMN "shift_type" TYPE TEXT USING "shift_type"::TEXT;
+
+-- AlterTable
+ALTER TABLE "checklist_submissions" ALTER COLUMN "shift_type" TYPE TEXT USING "shift_type"::TEXT;
+
+-- DropEnum
+DROP TYPE "ShiftType";
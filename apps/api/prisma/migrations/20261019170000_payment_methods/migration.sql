@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "shift_payments" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "shift_report_id" UUID NOT NULL,
+    "method" TEXT NOT NULL,
+    "amount" DECIMAL(19,4) NOT NULL,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "shift_payments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "shift_payments_shift_report_id_method_key" ON "shift_payments"("shift_report_id", "method");
+
+-- AddForeignKey
+ALTER TABLE "shift_payments" ADD CONSTRAINT "shift_payments_shift_report_id_fkey" FOREIGN KEY ("shift_report_id") REFERENCES "shift_reports"("id") ON DELETE CASCADE ON UPDATE CASCADE;
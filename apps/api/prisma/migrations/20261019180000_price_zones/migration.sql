@@ -0,0 +1,41 @@
+-- CreateTable
+CREATE TABLE "price_zones" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "code" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ NOT NULL,
+
+    CONSTRAINT "price_zones_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "stations" ADD COLUMN "price_zone_id" UUID;
+
+-- AlterTable
+ALTER TABLE "fuel_prices" ADD COLUMN "price_zone_id" UUID,
+ADD COLUMN "station_id" UUID;
+
+-- A price applies nationally, to one zone or to one station
+ALTER TABLE "fuel_prices" ADD CONSTRAINT "fuel_prices_single_scope" CHECK ("price_zone_id" IS NULL OR "station_id" IS NULL);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "price_zones_code_key" ON "price_zones"("code");
+
+-- CreateIndex
+CREATE INDEX "stations_price_zone_id_idx" ON "stations"("price_zone_id");
+
+-- CreateIndex
+CREATE INDEX "fuel_prices_price_zone_id_idx" ON "fuel_prices"("price_zone_id");
+
+-- CreateIndex
+CREATE INDEX "fuel_prices_station_id_idx" ON "fuel_prices"("station_id");
+
+-- AddForeignKey
+ALTER TABLE "stations" ADD CONSTRAINT "stations_price_zone_id_fkey" FOREIGN KEY ("price_zone_id") REFERENCES "price_zones"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "fuel_prices" ADD CONSTRAINT "fuel_prices_price_zone_id_fkey" FOREIGN KEY ("price_zone_id") REFERENCES "price_zones"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "fuel_prices" ADD CONSTRAINT "fuel_prices_station_id_fkey" FOREIGN KEY ("station_id") REFERENCES "stations"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,50 @@
+-- CreateTable
+CREATE TABLE "shift_price_changes" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "shift_report_id" UUID NOT NULL,
+    "fuel_type" "FuelType" NOT NULL,
+    "fuel_price_id" UUID,
+    "unit_price" DECIMAL(19,4) NOT NULL,
+    "effective_at" TIMESTAMPTZ NOT NULL,
+    "recorded_at" TIMESTAMPTZ,
+    "recorded_by" UUID,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "shift_price_changes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "shift_sale_segments" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "shift_sale_id" UUID NOT NULL,
+    "price_change_id" UUID,
+    "start_index" DECIMAL(19,4) NOT NULL,
+    "end_index" DECIMAL(19,4),
+    "unit_price" DECIMAL(19,4) NOT NULL,
+    "volume_sold" DECIMAL(19,4),
+    "revenue" DECIMAL(19,4),
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "shift_sale_segments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "shift_price_changes_shift_report_id_fuel_type_idx" ON "shift_price_changes"("shift_report_id", "fuel_type");
+
+-- CreateIndex
+CREATE INDEX "shift_sale_segments_shift_sale_id_idx" ON "shift_sale_segments"("shift_sale_id");
+
+-- AddForeignKey
+ALTER TABLE "shift_price_changes" ADD CONSTRAINT "shift_price_changes_shift_report_id_fkey" FOREIGN KEY ("shift_report_id") REFERENCES "shift_reports"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "shift_price_changes" ADD CONSTRAINT "shift_price_changes_fuel_price_id_fkey" FOREIGN KEY ("fuel_price_id") REFERENCES "fuel_prices"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "shift_price_changes" ADD CONSTRAINT "shift_price_changes_recorded_by_fkey" FOREIGN KEY ("recorded_by") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "shift_sale_segments" ADD CONSTRAINT "shift_sale_segments_shift_sale_id_fkey" FOREIGN KEY ("shift_sale_id") REFERENCES "shift_sales"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "shift_sale_segments" ADD CONSTRAINT "shift_sale_segments_price_change_id_fkey" FOREIGN KEY ("price_change_id") REFERENCES "shift_price_changes"("id") ON DELETE CASCADE ON UPDATE CASCADE;
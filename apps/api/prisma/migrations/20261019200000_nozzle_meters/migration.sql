@@ -0,0 +1,40 @@
+-- CreateEnum
+CREATE TYPE "MeterType" AS ENUM ('ELECTRONIC', 'MECHANICAL');
+
+-- AlterTable
+ALTER TABLE "nozzles" ADD COLUMN "meter_type" "MeterType" NOT NULL DEFAULT 'ELECTRONIC',
+ADD COLUMN "rollover_value" DECIMAL(19,4) NOT NULL DEFAULT 999999.9999;
+
+-- CreateTable
+CREATE TABLE "nozzle_meter_replacements" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "nozzle_id" UUID NOT NULL,
+    "shift_report_id" UUID,
+    "mid_shift" BOOLEAN NOT NULL DEFAULT false,
+    "old_final_index" DECIMAL(19,4) NOT NULL,
+    "old_meter_type" "MeterType" NOT NULL,
+    "old_rollover_value" DECIMAL(19,4) NOT NULL,
+    "new_start_index" DECIMAL(19,4) NOT NULL,
+    "meter_type" "MeterType" NOT NULL,
+    "rollover_value" DECIMAL(19,4) NOT NULL,
+    "reason" TEXT NOT NULL,
+    "replaced_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "recorded_by" UUID NOT NULL,
+
+    CONSTRAINT "nozzle_meter_replacements_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "nozzle_meter_replacements_nozzle_id_replaced_at_idx" ON "nozzle_meter_replacements"("nozzle_id", "replaced_at");
+
+-- CreateIndex
+CREATE INDEX "nozzle_meter_replacements_shift_report_id_idx" ON "nozzle_meter_replacements"("shift_report_id");
+
+-- AddForeignKey
+ALTER TABLE "nozzle_meter_replacements" ADD CONSTRAINT "nozzle_meter_replacements_nozzle_id_fkey" FOREIGN KEY ("nozzle_id") REFERENCES "nozzles"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "nozzle_meter_replacements" ADD CONSTRAINT "nozzle_meter_replacements_shift_report_id_fkey" FOREIGN KEY ("shift_report_id") REFERENCES "shift_reports"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "nozzle_meter_replacements" ADD CONSTRAINT "nozzle_meter_replacements_recorded_by_fkey" FOREIGN KEY ("recorded_by") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,39 @@
+-- CreateEnum
+CREATE TYPE "CalibrationTestType" AS ENUM ('INTERNAL', 'OFFICIAL');
+
+-- AlterTable
+ALTER TABLE "shift_sales" ADD COLUMN "test_volume" DECIMAL(19,4) NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "nozzle_calibration_tests" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "nozzle_id" UUID NOT NULL,
+    "shift_report_id" UUID,
+    "test_type" "CalibrationTestType" NOT NULL DEFAULT 'INTERNAL',
+    "dispensed_volume" DECIMAL(19,4) NOT NULL,
+    "measured_volume" DECIMAL(19,4) NOT NULL,
+    "error_percent" DECIMAL(9,4) NOT NULL,
+    "tolerance_percent" DECIMAL(9,4) NOT NULL,
+    "passed" BOOLEAN NOT NULL,
+    "returned_to_tank" BOOLEAN NOT NULL DEFAULT true,
+    "notes" TEXT,
+    "tested_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "tested_by" UUID NOT NULL,
+
+    CONSTRAINT "nozzle_calibration_tests_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "nozzle_calibration_tests_nozzle_id_tested_at_idx" ON "nozzle_calibration_tests"("nozzle_id", "tested_at");
+
+-- CreateIndex
+CREATE INDEX "nozzle_calibration_tests_shift_report_id_idx" ON "nozzle_calibration_tests"("shift_report_id");
+
+-- AddForeignKey
+ALTER TABLE "nozzle_calibration_tests" ADD CONSTRAINT "nozzle_calibration_tests_nozzle_id_fkey" FOREIGN KEY ("nozzle_id") REFERENCES "nozzles"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "nozzle_calibration_tests" ADD CONSTRAINT "nozzle_calibration_tests_shift_report_id_fkey" FOREIGN KEY ("shift_report_id") REFERENCES "shift_reports"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "nozzle_calibration_tests" ADD CONSTRAINT "nozzle_calibration_tests_tested_by_fkey" FOREIGN KEY ("tested_by") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,80 @@
+-- CreateEnum
+CREATE TYPE "FuelTransferStatus" AS ENUM ('PENDING_APPROVAL', 'APPROVED', 'IN_TRANSIT', 'COMPLETED', 'REJECTED');
+
+-- AlterTable
+ALTER TABLE "shift_tank_dips" ADD COLUMN "transfers" DECIMAL(19,4) NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "fuel_transfers" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "source_tank_id" UUID NOT NULL,
+    "destination_tank_id" UUID NOT NULL,
+    "source_station_id" UUID NOT NULL,
+    "destination_station_id" UUID NOT NULL,
+    "fuel_type" "FuelType" NOT NULL,
+    "requested_volume" DECIMAL(19,4) NOT NULL,
+    "reason" TEXT NOT NULL,
+    "truck_plate" TEXT,
+    "status" "FuelTransferStatus" NOT NULL DEFAULT 'PENDING_APPROVAL',
+    "source_opening_dip" DECIMAL(19,4),
+    "source_opening_dip_height" DECIMAL(19,4),
+    "source_closing_dip" DECIMAL(19,4),
+    "source_closing_dip_height" DECIMAL(19,4),
+    "volume_out" DECIMAL(19,4),
+    "destination_opening_dip" DECIMAL(19,4),
+    "destination_opening_dip_height" DECIMAL(19,4),
+    "destination_closing_dip" DECIMAL(19,4),
+    "destination_closing_dip_height" DECIMAL(19,4),
+    "volume_in" DECIMAL(19,4),
+    "transit_variance" DECIMAL(19,4),
+    "source_shift_report_id" UUID,
+    "destination_shift_report_id" UUID,
+    "requested_by" UUID NOT NULL,
+    "reviewed_by" UUID,
+    "reviewed_at" TIMESTAMPTZ,
+    "rejection_reason" TEXT,
+    "dispatched_by" UUID,
+    "dispatched_at" TIMESTAMPTZ,
+    "received_by" UUID,
+    "received_at" TIMESTAMPTZ,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ NOT NULL,
+
+    CONSTRAINT "fuel_transfers_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "fuel_transfers_source_station_id_created_at_idx" ON "fuel_transfers"("source_station_id", "created_at" DESC);
+
+-- CreateIndex
+CREATE INDEX "fuel_transfers_destination_station_id_created_at_idx" ON "fuel_transfers"("destination_station_id", "created_at" DESC);
+
+-- AddForeignKey
+ALTER TABLE "fuel_transfers" ADD CONSTRAINT "fuel_transfers_source_tank_id_fkey" FOREIGN KEY ("source_tank_id") REFERENCES "tanks"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "fuel_transfers" ADD CONSTRAINT "fuel_transfers_destination_tank_id_fkey" FOREIGN KEY ("destination_tank_id") REFERENCES "tanks"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "fuel_transfers" ADD CONSTRAINT "fuel_transfers_source_station_id_fkey" FOREIGN KEY ("source_station_id") REFERENCES "stations"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "fuel_transfers" ADD CONSTRAINT "fuel_transfers_destination_station_id_fkey" FOREIGN KEY ("destination_station_id") REFERENCES "stations"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "fuel_transfers" ADD CONSTRAINT "fuel_transfers_source_shift_report_id_fkey" FOREIGN KEY ("source_shift_report_id") REFERENCES "shift_reports"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "fuel_transfers" ADD CONSTRAINT "fuel_transfers_destination_shift_report_id_fkey" FOREIGN KEY ("destination_shift_report_id") REFERENCES "shift_reports"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "fuel_transfers" ADD CONSTRAINT "fuel_transfers_requested_by_fkey" FOREIGN KEY ("requested_by") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "fuel_transfers" ADD CONSTRAINT "fuel_transfers_reviewed_by_fkey" FOREIGN KEY ("reviewed_by") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "fuel_transfers" ADD CONSTRAINT "fuel_transfers_dispatched_by_fkey" FOREIGN KEY ("dispatched_by") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "fuel_transfers" ADD CONSTRAINT "fuel_transfers_received_by_fkey" FOREIGN KEY ("received_by") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
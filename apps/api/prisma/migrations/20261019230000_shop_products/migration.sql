@@ -0,0 +1,107 @@
+-- CreateEnum
+CREATE TYPE "ProductCategory" AS ENUM ('LUBRICANT', 'LPG_ACCESSORY', 'SHOP');
+
+-- AlterTable
+ALTER TABLE "shift_reports" ADD COLUMN "shop_revenue" DECIMAL(19,4) NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "products" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "sku" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "category" "ProductCategory" NOT NULL,
+    "unit" TEXT NOT NULL DEFAULT 'pièce',
+    "unit_price" DECIMAL(19,4) NOT NULL,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "deleted_at" TIMESTAMPTZ,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ NOT NULL,
+
+    CONSTRAINT "products_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "product_stocks" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "station_id" UUID NOT NULL,
+    "product_id" UUID NOT NULL,
+    "quantity" DECIMAL(19,4) NOT NULL DEFAULT 0,
+    "reorder_level" DECIMAL(19,4) NOT NULL DEFAULT 0,
+    "low_stock_alert_at" TIMESTAMPTZ,
+    "version" INTEGER NOT NULL DEFAULT 1,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ NOT NULL,
+
+    CONSTRAINT "product_stocks_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "product_receipts" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "station_id" UUID NOT NULL,
+    "product_id" UUID NOT NULL,
+    "supplier_id" UUID NOT NULL,
+    "quantity" DECIMAL(19,4) NOT NULL,
+    "unit_cost" DECIMAL(19,4) NOT NULL,
+    "reference" TEXT,
+    "shift_report_id" UUID,
+    "received_by" UUID NOT NULL,
+    "received_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "product_receipts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "shift_product_sales" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "shift_report_id" UUID NOT NULL,
+    "product_id" UUID NOT NULL,
+    "opening_stock" DECIMAL(19,4) NOT NULL,
+    "receipts" DECIMAL(19,4) NOT NULL DEFAULT 0,
+    "quantity_sold" DECIMAL(19,4),
+    "counted_stock" DECIMAL(19,4),
+    "unit_price" DECIMAL(19,4) NOT NULL,
+    "revenue" DECIMAL(19,4),
+    "stock_variance" DECIMAL(19,4),
+
+    CONSTRAINT "shift_product_sales_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "products_sku_key" ON "products"("sku");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "product_stocks_station_id_product_id_key" ON "product_stocks"("station_id", "product_id");
+
+-- CreateIndex
+CREATE INDEX "product_receipts_station_id_received_at_idx" ON "product_receipts"("station_id", "received_at" DESC);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "shift_product_sales_shift_report_id_product_id_key" ON "shift_product_sales"("shift_report_id", "product_id");
+
+-- AddForeignKey
+ALTER TABLE "product_stocks" ADD CONSTRAINT "product_stocks_station_id_fkey" FOREIGN KEY ("station_id") REFERENCES "stations"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "product_stocks" ADD CONSTRAINT "product_stocks_product_id_fkey" FOREIGN KEY ("product_id") REFERENCES "products"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "product_receipts" ADD CONSTRAINT "product_receipts_station_id_fkey" FOREIGN KEY ("station_id") REFERENCES "stations"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "product_receipts" ADD CONSTRAINT "product_receipts_product_id_fkey" FOREIGN KEY ("product_id") REFERENCES "products"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "product_receipts" ADD CONSTRAINT "product_receipts_supplier_id_fkey" FOREIGN KEY ("supplier_id") REFERENCES "suppliers"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "product_receipts" ADD CONSTRAINT "product_receipts_shift_report_id_fkey" FOREIGN KEY ("shift_report_id") REFERENCES "shift_reports"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "product_receipts" ADD CONSTRAINT "product_receipts_received_by_fkey" FOREIGN KEY ("received_by") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "shift_product_sales" ADD CONSTRAINT "shift_product_sales_shift_report_id_fkey" FOREIGN KEY ("shift_report_id") REFERENCES "shift_reports"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "shift_product_sales" ADD CONSTRAINT "shift_product_sales_product_id_fkey" FOREIGN KEY ("product_id") REFERENCES "products"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
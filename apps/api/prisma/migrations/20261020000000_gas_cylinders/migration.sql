@@ -0,0 +1,137 @@
+-- CreateEnum
+CREATE TYPE "CylinderTransactionType" AS ENUM ('SALE', 'EXCHANGE', 'DEPOSIT_REFUND');
+
+-- AlterTable
+ALTER TABLE "shift_reports" ADD COLUMN "cylinder_revenue" DECIMAL(19,4) NOT NULL DEFAULT 0,
+ADD COLUMN "cylinder_variance" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "cylinder_types" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "brand" TEXT NOT NULL,
+    "size_kg" DECIMAL(6,2) NOT NULL,
+    "gas_price" DECIMAL(19,4) NOT NULL,
+    "deposit_price" DECIMAL(19,4) NOT NULL,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ NOT NULL,
+
+    CONSTRAINT "cylinder_types_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "cylinder_stocks" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "station_id" UUID NOT NULL,
+    "cylinder_type_id" UUID NOT NULL,
+    "full_count" INTEGER NOT NULL DEFAULT 0,
+    "empty_count" INTEGER NOT NULL DEFAULT 0,
+    "version" INTEGER NOT NULL DEFAULT 1,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ NOT NULL,
+
+    CONSTRAINT "cylinder_stocks_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "cylinder_deliveries" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "station_id" UUID NOT NULL,
+    "cylinder_type_id" UUID NOT NULL,
+    "supplier_id" UUID NOT NULL,
+    "full_received" INTEGER NOT NULL DEFAULT 0,
+    "empty_returned" INTEGER NOT NULL DEFAULT 0,
+    "reference" TEXT,
+    "shift_report_id" UUID,
+    "received_by" UUID NOT NULL,
+    "received_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "cylinder_deliveries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "cylinder_transactions" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "shift_report_id" UUID NOT NULL,
+    "cylinder_type_id" UUID NOT NULL,
+    "type" "CylinderTransactionType" NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "gas_price" DECIMAL(19,4) NOT NULL,
+    "deposit_price" DECIMAL(19,4) NOT NULL,
+    "amount" DECIMAL(19,4) NOT NULL,
+    "recorded_by" UUID NOT NULL,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "cylinder_transactions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "shift_cylinder_counts" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "shift_report_id" UUID NOT NULL,
+    "cylinder_type_id" UUID NOT NULL,
+    "opening_full" INTEGER NOT NULL,
+    "opening_empty" INTEGER NOT NULL,
+    "full_received" INTEGER NOT NULL DEFAULT 0,
+    "empty_returned" INTEGER NOT NULL DEFAULT 0,
+    "full_out" INTEGER NOT NULL DEFAULT 0,
+    "empty_in" INTEGER NOT NULL DEFAULT 0,
+    "revenue" DECIMAL(19,4) NOT NULL DEFAULT 0,
+    "counted_full" INTEGER,
+    "counted_empty" INTEGER,
+    "full_variance" INTEGER,
+    "empty_variance" INTEGER,
+
+    CONSTRAINT "shift_cylinder_counts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "cylinder_types_brand_size_kg_key" ON "cylinder_types"("brand", "size_kg");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "cylinder_stocks_station_id_cylinder_type_id_key" ON "cylinder_stocks"("station_id", "cylinder_type_id");
+
+-- CreateIndex
+CREATE INDEX "cylinder_deliveries_station_id_received_at_idx" ON "cylinder_deliveries"("station_id", "received_at" DESC);
+
+-- CreateIndex
+CREATE INDEX "cylinder_transactions_shift_report_id_idx" ON "cylinder_transactions"("shift_report_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "shift_cylinder_counts_shift_report_id_cylinder_type_id_key" ON "shift_cylinder_counts"("shift_report_id", "cylinder_type_id");
+
+-- AddForeignKey
+ALTER TABLE "cylinder_stocks" ADD CONSTRAINT "cylinder_stocks_station_id_fkey" FOREIGN KEY ("station_id") REFERENCES "stations"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "cylinder_stocks" ADD CONSTRAINT "cylinder_stocks_cylinder_type_id_fkey" FOREIGN KEY ("cylinder_type_id") REFERENCES "cylinder_types"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "cylinder_deliveries" ADD CONSTRAINT "cylinder_deliveries_station_id_fkey" FOREIGN KEY ("station_id") REFERENCES "stations"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "cylinder_deliveries" ADD CONSTRAINT "cylinder_deliveries_cylinder_type_id_fkey" FOREIGN KEY ("cylinder_type_id") REFERENCES "cylinder_types"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "cylinder_deliveries" ADD CONSTRAINT "cylinder_deliveries_supplier_id_fkey" FOREIGN KEY ("supplier_id") REFERENCES "suppliers"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "cylinder_deliveries" ADD CONSTRAINT "cylinder_deliveries_shift_report_id_fkey" FOREIGN KEY ("shift_report_id") REFERENCES "shift_reports"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "cylinder_deliveries" ADD CONSTRAINT "cylinder_deliveries_received_by_fkey" FOREIGN KEY ("received_by") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "cylinder_transactions" ADD CONSTRAINT "cylinder_transactions_shift_report_id_fkey" FOREIGN KEY ("shift_report_id") REFERENCES "shift_reports"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "cylinder_transactions" ADD CONSTRAINT "cylinder_transactions_cylinder_type_id_fkey" FOREIGN KEY ("cylinder_type_id") REFERENCES "cylinder_types"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "cylinder_transactions" ADD CONSTRAINT "cylinder_transactions_recorded_by_fkey" FOREIGN KEY ("recorded_by") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "shift_cylinder_counts" ADD CONSTRAINT "shift_cylinder_counts_shift_report_id_fkey" FOREIGN KEY ("shift_report_id") REFERENCES "shift_reports"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "shift_cylinder_counts" ADD CONSTRAINT "shift_cylinder_counts_cylinder_type_id_fkey" FOREIGN KEY ("cylinder_type_id") REFERENCES "cylinder_types"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
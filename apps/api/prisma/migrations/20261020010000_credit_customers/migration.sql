@@ -0,0 +1,123 @@
+-- CreateEnum
+CREATE TYPE "CustomerPaymentMethod" AS ENUM ('CASH', 'BANK_TRANSFER', 'CHEQUE', 'MOBILE_MONEY');
+
+-- AlterTable
+ALTER TABLE "shift_reports" ADD COLUMN "credit_sales_amount" DECIMAL(19,4) NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "credit_customers" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "name" TEXT NOT NULL,
+    "tax_id" TEXT,
+    "contact_name" TEXT,
+    "email" TEXT,
+    "phone" TEXT,
+    "address" TEXT,
+    "credit_limit" DECIMAL(19,4) NOT NULL,
+    "balance" DECIMAL(19,4) NOT NULL DEFAULT 0,
+    "payment_terms_days" INTEGER NOT NULL DEFAULT 30,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "version" INTEGER NOT NULL DEFAULT 1,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ NOT NULL,
+
+    CONSTRAINT "credit_customers_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "credit_vehicles" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "customer_id" UUID NOT NULL,
+    "plate_number" TEXT NOT NULL,
+    "description" TEXT,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "credit_vehicles_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "credit_drivers" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "customer_id" UUID NOT NULL,
+    "full_name" TEXT NOT NULL,
+    "id_number" TEXT,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "credit_drivers_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "credit_sales" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "shift_report_id" UUID NOT NULL,
+    "customer_id" UUID NOT NULL,
+    "vehicle_id" UUID NOT NULL,
+    "driver_id" UUID,
+    "voucher_number" TEXT NOT NULL,
+    "fuel_type" "FuelType" NOT NULL,
+    "volume" DECIMAL(19,4) NOT NULL,
+    "unit_price" DECIMAL(19,4) NOT NULL,
+    "amount" DECIMAL(19,4) NOT NULL,
+    "recorded_by" UUID NOT NULL,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "credit_sales_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "customer_payments" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "customer_id" UUID NOT NULL,
+    "amount" DECIMAL(19,4) NOT NULL,
+    "method" "CustomerPaymentMethod" NOT NULL,
+    "reference" TEXT,
+    "paid_at" DATE NOT NULL,
+    "received_by" UUID NOT NULL,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "customer_payments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "credit_vehicles_customer_id_plate_number_key" ON "credit_vehicles"("customer_id", "plate_number");
+
+-- CreateIndex
+CREATE INDEX "credit_sales_shift_report_id_idx" ON "credit_sales"("shift_report_id");
+
+-- CreateIndex
+CREATE INDEX "credit_sales_customer_id_created_at_idx" ON "credit_sales"("customer_id", "created_at");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "credit_sales_customer_id_voucher_number_key" ON "credit_sales"("customer_id", "voucher_number");
+
+-- CreateIndex
+CREATE INDEX "customer_payments_customer_id_paid_at_idx" ON "customer_payments"("customer_id", "paid_at");
+
+-- AddForeignKey
+ALTER TABLE "credit_vehicles" ADD CONSTRAINT "credit_vehicles_customer_id_fkey" FOREIGN KEY ("customer_id") REFERENCES "credit_customers"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "credit_drivers" ADD CONSTRAINT "credit_drivers_customer_id_fkey" FOREIGN KEY ("customer_id") REFERENCES "credit_customers"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "credit_sales" ADD CONSTRAINT "credit_sales_shift_report_id_fkey" FOREIGN KEY ("shift_report_id") REFERENCES "shift_reports"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "credit_sales" ADD CONSTRAINT "credit_sales_customer_id_fkey" FOREIGN KEY ("customer_id") REFERENCES "credit_customers"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "credit_sales" ADD CONSTRAINT "credit_sales_vehicle_id_fkey" FOREIGN KEY ("vehicle_id") REFERENCES "credit_vehicles"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "credit_sales" ADD CONSTRAINT "credit_sales_driver_id_fkey" FOREIGN KEY ("driver_id") REFERENCES "credit_drivers"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "credit_sales" ADD CONSTRAINT "credit_sales_recorded_by_fkey" FOREIGN KEY ("recorded_by") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "customer_payments" ADD CONSTRAINT "customer_payments_customer_id_fkey" FOREIGN KEY ("customer_id") REFERENCES "credit_customers"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "customer_payments" ADD CONSTRAINT "customer_payments_received_by_fkey" FOREIGN KEY ("received_by") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
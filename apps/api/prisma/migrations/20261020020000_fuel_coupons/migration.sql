@@ -0,0 +1,68 @@
+-- CreateEnum
+CREATE TYPE "FuelCouponStatus" AS ENUM ('IN_STOCK', 'SOLD', 'REDEEMED');
+
+-- AlterTable
+ALTER TABLE "shift_reports" ADD COLUMN "coupons_amount" DECIMAL(19,4) NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "coupon_batches" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "batch_number" TEXT NOT NULL,
+    "face_value" DECIMAL(19,4) NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "first_serial" TEXT NOT NULL,
+    "last_serial" TEXT NOT NULL,
+    "expires_at" DATE NOT NULL,
+    "issued_by" UUID NOT NULL,
+    "customer_id" UUID,
+    "sold_at" TIMESTAMPTZ,
+    "sold_by" UUID,
+    "payment_method" "CustomerPaymentMethod",
+    "payment_ref" TEXT,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "coupon_batches_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "fuel_coupons" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "batch_id" UUID NOT NULL,
+    "serial_number" TEXT NOT NULL,
+    "face_value" DECIMAL(19,4) NOT NULL,
+    "status" "FuelCouponStatus" NOT NULL DEFAULT 'IN_STOCK',
+    "shift_report_id" UUID,
+    "redeemed_at" TIMESTAMPTZ,
+
+    CONSTRAINT "fuel_coupons_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "coupon_batches_batch_number_key" ON "coupon_batches"("batch_number");
+
+-- CreateIndex
+CREATE INDEX "coupon_batches_customer_id_idx" ON "coupon_batches"("customer_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "fuel_coupons_serial_number_key" ON "fuel_coupons"("serial_number");
+
+-- CreateIndex
+CREATE INDEX "fuel_coupons_batch_id_status_idx" ON "fuel_coupons"("batch_id", "status");
+
+-- CreateIndex
+CREATE INDEX "fuel_coupons_shift_report_id_idx" ON "fuel_coupons"("shift_report_id");
+
+-- AddForeignKey
+ALTER TABLE "coupon_batches" ADD CONSTRAINT "coupon_batches_issued_by_fkey" FOREIGN KEY ("issued_by") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "coupon_batches" ADD CONSTRAINT "coupon_batches_sold_by_fkey" FOREIGN KEY ("sold_by") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "coupon_batches" ADD CONSTRAINT "coupon_batches_customer_id_fkey" FOREIGN KEY ("customer_id") REFERENCES "credit_customers"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "fuel_coupons" ADD CONSTRAINT "fuel_coupons_batch_id_fkey" FOREIGN KEY ("batch_id") REFERENCES "coupon_batches"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "fuel_coupons" ADD CONSTRAINT "fuel_coupons_shift_report_id_fkey" FOREIGN KEY ("shift_report_id") REFERENCES "shift_reports"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,105 @@
+-- CreateEnum
+CREATE TYPE "PurchaseOrderStatus" AS ENUM ('ISSUED', 'RECEIVED', 'CANCELLED');
+
+-- CreateEnum
+CREATE TYPE "InvoiceMatchStatus" AS ENUM ('MATCHED', 'MISMATCH');
+
+-- AlterTable
+ALTER TABLE "invoices" ADD COLUMN "purchase_order_id" UUID,
+ADD COLUMN "match_status" "InvoiceMatchStatus";
+
+-- AlterTable
+ALTER TABLE "replenishment_requests" ADD COLUMN "purchase_order_id" UUID;
+
+-- AlterTable
+ALTER TABLE "fuel_deliveries" ADD COLUMN "purchase_order_id" UUID;
+
+-- CreateTable
+CREATE TABLE "purchase_orders" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "po_number" TEXT NOT NULL,
+    "supplier_id" UUID NOT NULL,
+    "station_id" UUID NOT NULL,
+    "status" "PurchaseOrderStatus" NOT NULL DEFAULT 'ISSUED',
+    "expected_date" DATE,
+    "notes" TEXT,
+    "total_amount" DECIMAL(19,4) NOT NULL,
+    "issued_by" UUID NOT NULL,
+    "cancelled_at" TIMESTAMPTZ,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ NOT NULL,
+
+    CONSTRAINT "purchase_orders_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "purchase_order_lines" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "purchase_order_id" UUID NOT NULL,
+    "fuel_type" "FuelType" NOT NULL,
+    "volume" DECIMAL(19,4) NOT NULL,
+    "unit_price" DECIMAL(19,4) NOT NULL,
+    "amount" DECIMAL(19,4) NOT NULL,
+
+    CONSTRAINT "purchase_order_lines_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "invoice_lines" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "invoice_id" UUID NOT NULL,
+    "fuel_type" "FuelType" NOT NULL,
+    "quantity" DECIMAL(19,4) NOT NULL,
+    "unit_price" DECIMAL(19,4) NOT NULL,
+    "amount" DECIMAL(19,4) NOT NULL,
+
+    CONSTRAINT "invoice_lines_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "invoices_purchase_order_id_idx" ON "invoices"("purchase_order_id");
+
+-- CreateIndex
+CREATE INDEX "replenishment_requests_purchase_order_id_idx" ON "replenishment_requests"("purchase_order_id");
+
+-- CreateIndex
+CREATE INDEX "fuel_deliveries_purchase_order_id_idx" ON "fuel_deliveries"("purchase_order_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "purchase_orders_po_number_key" ON "purchase_orders"("po_number");
+
+-- CreateIndex
+CREATE INDEX "purchase_orders_supplier_id_idx" ON "purchase_orders"("supplier_id");
+
+-- CreateIndex
+CREATE INDEX "purchase_orders_station_id_status_idx" ON "purchase_orders"("station_id", "status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "purchase_order_lines_purchase_order_id_fuel_type_key" ON "purchase_order_lines"("purchase_order_id", "fuel_type");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "invoice_lines_invoice_id_fuel_type_key" ON "invoice_lines"("invoice_id", "fuel_type");
+
+-- AddForeignKey
+ALTER TABLE "invoices" ADD CONSTRAINT "invoices_purchase_order_id_fkey" FOREIGN KEY ("purchase_order_id") REFERENCES "purchase_orders"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "replenishment_requests" ADD CONSTRAINT "replenishment_requests_purchase_order_id_fkey" FOREIGN KEY ("purchase_order_id") REFERENCES "purchase_orders"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "fuel_deliveries" ADD CONSTRAINT "fuel_deliveries_purchase_order_id_fkey" FOREIGN KEY ("purchase_order_id") REFERENCES "purchase_orders"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "purchase_orders" ADD CONSTRAINT "purchase_orders_supplier_id_fkey" FOREIGN KEY ("supplier_id") REFERENCES "suppliers"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "purchase_orders" ADD CONSTRAINT "purchase_orders_station_id_fkey" FOREIGN KEY ("station_id") REFERENCES "stations"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "purchase_orders" ADD CONSTRAINT "purchase_orders_issued_by_fkey" FOREIGN KEY ("issued_by") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "purchase_order_lines" ADD CONSTRAINT "purchase_order_lines_purchase_order_id_fkey" FOREIGN KEY ("purchase_order_id") REFERENCES "purchase_orders"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "invoice_lines" ADD CONSTRAINT "invoice_lines_invoice_id_fkey" FOREIGN KEY ("invoice_id") REFERENCES "invoices"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,92 @@
+-- AlterEnum
+ALTER TYPE "DeliveryStatus" ADD VALUE 'RESOLVED';
+
+-- CreateEnum
+CREATE TYPE "DeliveryDisputeStatus" AS ENUM ('OPEN', 'INVESTIGATING', 'CLAIMED', 'CREDITED', 'REJECTED', 'WRITTEN_OFF');
+
+-- CreateTable
+CREATE TABLE "delivery_disputes" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "delivery_id" UUID NOT NULL,
+    "station_id" UUID NOT NULL,
+    "supplier_id" UUID,
+    "status" "DeliveryDisputeStatus" NOT NULL DEFAULT 'OPEN',
+    "shortage_volume" DECIMAL(19,4) NOT NULL,
+    "claim_amount" DECIMAL(19,4),
+    "claimed_at" TIMESTAMPTZ,
+    "claimed_by" UUID,
+    "credit_note_number" TEXT,
+    "credited_amount" DECIMAL(19,4),
+    "resolution_note" TEXT,
+    "resolved_at" TIMESTAMPTZ,
+    "resolved_by" UUID,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ NOT NULL,
+
+    CONSTRAINT "delivery_disputes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "delivery_dispute_notes" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "dispute_id" UUID NOT NULL,
+    "content" TEXT NOT NULL,
+    "author_id" UUID NOT NULL,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "delivery_dispute_notes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "delivery_dispute_evidence" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "dispute_id" UUID NOT NULL,
+    "file_url" TEXT NOT NULL,
+    "file_name" TEXT NOT NULL,
+    "uploaded_by" UUID NOT NULL,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "delivery_dispute_evidence_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "delivery_disputes_delivery_id_key" ON "delivery_disputes"("delivery_id");
+
+-- CreateIndex
+CREATE INDEX "delivery_disputes_station_id_status_idx" ON "delivery_disputes"("station_id", "status");
+
+-- CreateIndex
+CREATE INDEX "delivery_disputes_supplier_id_idx" ON "delivery_disputes"("supplier_id");
+
+-- CreateIndex
+CREATE INDEX "delivery_dispute_notes_dispute_id_idx" ON "delivery_dispute_notes"("dispute_id");
+
+-- CreateIndex
+CREATE INDEX "delivery_dispute_evidence_dispute_id_idx" ON "delivery_dispute_evidence"("dispute_id");
+
+-- AddForeignKey
+ALTER TABLE "delivery_disputes" ADD CONSTRAINT "delivery_disputes_delivery_id_fkey" FOREIGN KEY ("delivery_id") REFERENCES "fuel_deliveries"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "delivery_disputes" ADD CONSTRAINT "delivery_disputes_station_id_fkey" FOREIGN KEY ("station_id") REFERENCES "stations"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "delivery_disputes" ADD CONSTRAINT "delivery_disputes_supplier_id_fkey" FOREIGN KEY ("supplier_id") REFERENCES "suppliers"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "delivery_disputes" ADD CONSTRAINT "delivery_disputes_claimed_by_fkey" FOREIGN KEY ("claimed_by") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "delivery_disputes" ADD CONSTRAINT "delivery_disputes_resolved_by_fkey" FOREIGN KEY ("resolved_by") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "delivery_dispute_notes" ADD CONSTRAINT "delivery_dispute_notes_dispute_id_fkey" FOREIGN KEY ("dispute_id") REFERENCES "delivery_disputes"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "delivery_dispute_notes" ADD CONSTRAINT "delivery_dispute_notes_author_id_fkey" FOREIGN KEY ("author_id") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "delivery_dispute_evidence" ADD CONSTRAINT "delivery_dispute_evidence_dispute_id_fkey" FOREIGN KEY ("dispute_id") REFERENCES "delivery_disputes"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "delivery_dispute_evidence" ADD CONSTRAINT "delivery_dispute_evidence_uploaded_by_fkey" FOREIGN KEY ("uploaded_by") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,128 @@
+-- CreateEnum
+CREATE TYPE "TripStatus" AS ENUM ('PLANNED', 'DISPATCHED', 'COMPLETED', 'CANCELLED');
+
+-- AlterTable
+ALTER TABLE "fuel_deliveries" ADD COLUMN "trip_id" UUID;
+
+-- CreateTable
+CREATE TABLE "carriers" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "name" TEXT NOT NULL,
+    "phone" TEXT,
+    "email" TEXT,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ NOT NULL,
+
+    CONSTRAINT "carriers_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "trucks" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "carrier_id" UUID NOT NULL,
+    "plate_number" TEXT NOT NULL,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ NOT NULL,
+
+    CONSTRAINT "trucks_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "truck_compartments" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "truck_id" UUID NOT NULL,
+    "position" INTEGER NOT NULL,
+    "capacity" DECIMAL(19,4) NOT NULL,
+
+    CONSTRAINT "truck_compartments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "delivery_trips" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "trip_number" TEXT NOT NULL,
+    "truck_id" UUID NOT NULL,
+    "driver_name" TEXT NOT NULL,
+    "planned_date" DATE NOT NULL,
+    "status" "TripStatus" NOT NULL DEFAULT 'PLANNED',
+    "notes" TEXT,
+    "planned_by" UUID NOT NULL,
+    "dispatched_at" TIMESTAMPTZ,
+    "completed_at" TIMESTAMPTZ,
+    "cancelled_at" TIMESTAMPTZ,
+    "cancel_reason" TEXT,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ NOT NULL,
+
+    CONSTRAINT "delivery_trips_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "trip_allocations" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "trip_id" UUID NOT NULL,
+    "truck_compartment_id" UUID NOT NULL,
+    "replenishment_request_id" UUID NOT NULL,
+    "station_id" UUID NOT NULL,
+    "fuel_type" "FuelType" NOT NULL,
+    "volume" DECIMAL(19,4) NOT NULL,
+    "drop_sequence" INTEGER NOT NULL,
+
+    CONSTRAINT "trip_allocations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "fuel_deliveries_trip_id_idx" ON "fuel_deliveries"("trip_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "trucks_plate_number_key" ON "trucks"("plate_number");
+
+-- CreateIndex
+CREATE INDEX "trucks_carrier_id_idx" ON "trucks"("carrier_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "truck_compartments_truck_id_position_key" ON "truck_compartments"("truck_id", "position");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "delivery_trips_trip_number_key" ON "delivery_trips"("trip_number");
+
+-- CreateIndex
+CREATE INDEX "delivery_trips_status_planned_date_idx" ON "delivery_trips"("status", "planned_date");
+
+-- CreateIndex
+CREATE INDEX "delivery_trips_truck_id_idx" ON "delivery_trips"("truck_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "trip_allocations_trip_id_truck_compartment_id_key" ON "trip_allocations"("trip_id", "truck_compartment_id");
+
+-- CreateIndex
+CREATE INDEX "trip_allocations_replenishment_request_id_idx" ON "trip_allocations"("replenishment_request_id");
+
+-- AddForeignKey
+ALTER TABLE "fuel_deliveries" ADD CONSTRAINT "fuel_deliveries_trip_id_fkey" FOREIGN KEY ("trip_id") REFERENCES "delivery_trips"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "trucks" ADD CONSTRAINT "trucks_carrier_id_fkey" FOREIGN KEY ("carrier_id") REFERENCES "carriers"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "truck_compartments" ADD CONSTRAINT "truck_compartments_truck_id_fkey" FOREIGN KEY ("truck_id") REFERENCES "trucks"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "delivery_trips" ADD CONSTRAINT "delivery_trips_truck_id_fkey" FOREIGN KEY ("truck_id") REFERENCES "trucks"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "delivery_trips" ADD CONSTRAINT "delivery_trips_planned_by_fkey" FOREIGN KEY ("planned_by") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "trip_allocations" ADD CONSTRAINT "trip_allocations_trip_id_fkey" FOREIGN KEY ("trip_id") REFERENCES "delivery_trips"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "trip_allocations" ADD CONSTRAINT "trip_allocations_truck_compartment_id_fkey" FOREIGN KEY ("truck_compartment_id") REFERENCES "truck_compartments"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "trip_allocations" ADD CONSTRAINT "trip_allocations_replenishment_request_id_fkey" FOREIGN KEY ("replenishment_request_id") REFERENCES "replenishment_requests"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "trip_allocations" ADD CONSTRAINT "trip_allocations_station_id_fkey" FOREIGN KEY ("station_id") REFERENCES "stations"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
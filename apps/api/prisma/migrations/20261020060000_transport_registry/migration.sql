@@ -0,0 +1,51 @@
+-- AlterTable
+ALTER TABLE "fuel_deliveries" ADD COLUMN "truck_id" UUID,
+ADD COLUMN "driver_id" UUID;
+
+-- AlterTable
+ALTER TABLE "trucks" ADD COLUMN "calibration_certificate_number" TEXT,
+ADD COLUMN "calibration_expires_at" DATE,
+ADD COLUMN "calibration_alert_at" TIMESTAMPTZ;
+
+-- AlterTable
+ALTER TABLE "delivery_trips" ADD COLUMN "driver_id" UUID;
+
+-- CreateTable
+CREATE TABLE "drivers" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "carrier_id" UUID NOT NULL,
+    "full_name" TEXT NOT NULL,
+    "phone" TEXT,
+    "licence_number" TEXT NOT NULL,
+    "licence_expires_at" DATE NOT NULL,
+    "licence_alert_at" TIMESTAMPTZ,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ NOT NULL,
+
+    CONSTRAINT "drivers_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "fuel_deliveries_truck_id_idx" ON "fuel_deliveries"("truck_id");
+
+-- CreateIndex
+CREATE INDEX "fuel_deliveries_driver_id_idx" ON "fuel_deliveries"("driver_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "drivers_licence_number_key" ON "drivers"("licence_number");
+
+-- CreateIndex
+CREATE INDEX "drivers_carrier_id_idx" ON "drivers"("carrier_id");
+
+-- AddForeignKey
+ALTER TABLE "fuel_deliveries" ADD CONSTRAINT "fuel_deliveries_truck_id_fkey" FOREIGN KEY ("truck_id") REFERENCES "trucks"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "fuel_deliveries" ADD CONSTRAINT "fuel_deliveries_driver_id_fkey" FOREIGN KEY ("driver_id") REFERENCES "drivers"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "drivers" ADD CONSTRAINT "drivers_carrier_id_fkey" FOREIGN KEY ("carrier_id") REFERENCES "carriers"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "delivery_trips" ADD CONSTRAINT "delivery_trips_driver_id_fkey" FOREIGN KEY ("driver_id") REFERENCES "drivers"("id") ON DELETE SET NULL ON UPDATE CASCADE;
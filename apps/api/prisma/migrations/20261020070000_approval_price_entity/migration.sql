@@ -0,0 +1,4 @@
+-- AlterEnum
+-- Kept apart from the approval policies migration: a new enum value cannot be used
+-- in the transaction that adds it
+ALTER TYPE "ApprovalEntityType" ADD VALUE 'PRICE';
@@ -0,0 +1,64 @@
+-- AlterTable
+ALTER TABLE "approval_steps" ADD COLUMN "price_id" UUID,
+ADD COLUMN "step_index" INTEGER;
+
+-- AlterTable
+ALTER TABLE "invoices" ADD COLUMN "approval_policy_id" UUID;
+
+-- AlterTable
+ALTER TABLE "expenses" ADD COLUMN "approval_policy_id" UUID;
+
+-- AlterTable
+ALTER TABLE "fuel_prices" ADD COLUMN "approval_policy_id" UUID;
+
+-- CreateTable
+CREATE TABLE "approval_policies" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "entity_type" "ApprovalEntityType" NOT NULL,
+    "version" INTEGER NOT NULL,
+    "rules" JSONB NOT NULL,
+    "notes" TEXT,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "published_by" UUID,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "approval_policies_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "approval_policies_entity_type_version_key" ON "approval_policies"("entity_type", "version");
+
+-- AddForeignKey
+ALTER TABLE "approval_steps" ADD CONSTRAINT "approval_steps_price_id_fkey" FOREIGN KEY ("price_id") REFERENCES "fuel_prices"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "invoices" ADD CONSTRAINT "invoices_approval_policy_id_fkey" FOREIGN KEY ("approval_policy_id") REFERENCES "approval_policies"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "expenses" ADD CONSTRAINT "expenses_approval_policy_id_fkey" FOREIGN KEY ("approval_policy_id") REFERENCES "approval_policies"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "fuel_prices" ADD CONSTRAINT "fuel_prices_approval_policy_id_fkey" FOREIGN KEY ("approval_policy_id") REFERENCES "approval_policies"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "approval_policies" ADD CONSTRAINT "approval_policies_published_by_fkey" FOREIGN KEY ("published_by") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Version 1 of each policy reproduces the thresholds previously hard-coded in the API
+INSERT INTO "approval_policies" ("entity_type", "version", "rules", "notes") VALUES
+('INVOICE', 1, '[
+  {"name": "≥ 5 000 000 XAF", "minAmount": 5000000, "mode": "SEQUENTIAL", "steps": [{"roles": ["CFO"]}, {"roles": ["CEO"]}]},
+  {"name": "Standard", "mode": "SEQUENTIAL", "steps": [{"roles": ["FINANCE_DIR"]}]}
+]', 'Initial policy'),
+('EXPENSE', 1, '[
+  {"name": "≥ 5 000 000 XAF", "minAmount": 5000000, "mode": "SEQUENTIAL", "steps": [{"roles": ["LINE_MANAGER"]}, {"roles": ["CFO"]}, {"roles": ["CEO"]}]},
+  {"name": "500 000 – 5 000 000 XAF", "minAmount": 500000, "mode": "SEQUENTIAL", "steps": [{"roles": ["LINE_MANAGER"]}, {"roles": ["FINANCE_DIR"]}]},
+  {"name": "Standard", "mode": "SEQUENTIAL", "steps": [{"roles": ["LINE_MANAGER"]}, {"roles": ["FINANCE_DIR", "CFO"]}]}
+]', 'Initial policy'),
+('PRICE', 1, '[
+  {"name": "Standard", "mode": "SEQUENTIAL", "steps": [{"roles": ["CFO", "CEO"]}]}
+]', 'Initial policy');
+
+-- Existing items were routed by these rules
+UPDATE "invoices" SET "approval_policy_id" = (SELECT "id" FROM "approval_policies" WHERE "entity_type" = 'INVOICE' AND "version" = 1);
+UPDATE "expenses" SET "approval_policy_id" = (SELECT "id" FROM "approval_policies" WHERE "entity_type" = 'EXPENSE' AND "version" = 1);
+UPDATE "fuel_prices" SET "approval_policy_id" = (SELECT "id" FROM "approval_policies" WHERE "entity_type" = 'PRICE' AND "version" = 1);
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "credit_sales" ADD COLUMN "nozzle_id" UUID;
+
+-- AddForeignKey
+ALTER TABLE "credit_sales" ADD CONSTRAINT "credit_sales_nozzle_id_fkey" FOREIGN KEY ("nozzle_id") REFERENCES "nozzles"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "shift_reports" ADD COLUMN "cash_deposited_at" TIMESTAMPTZ;
+
+-- Shifts closed before bank deposits were tracked were banked outside the app
+UPDATE "shift_reports" SET "cash_deposited_at" = "updated_at"
+WHERE "status" IN ('CLOSED', 'LOCKED')
+  AND NOT EXISTS (SELECT 1 FROM "bank_deposit_shifts" WHERE "bank_deposit_shifts"."shift_report_id" = "shift_reports"."id");
+
+-- CreateIndex
+CREATE INDEX "shift_reports_station_id_cash_deposited_at_idx" ON "shift_reports"("station_id", "cash_deposited_at");
@@ -0,0 +1,108 @@
+/**
+ * ATG simulator — pushes fake tank gauge readings to the API for local testing.
+ *
+ * Usage:
+ *   ATG_KEY=atg_xxx pnpm atg:simulate -- --tank=<tankId>:<startVolumeL> [--tank=...] [--interval=60] [--once] [--csv]
+ *
+ * Register a device first (POST /atg/devices as SUPER_ADMIN) to get a key.
+ * Each tick draws the volume down like pump sales, with a small temperature swing.
+ */
+
+const API_URL = process.env.API_URL || 'http://localhost:4000';
+const ATG_KEY = process.env.ATG_KEY;
+
+interface SimulatedTank {
+  tankId: string;
+  volume: number;
+  waterVolume: number;
+}
+
+// ────────────── helpers ──────────────
+function parseArgs(argv: string[]) {
+  const tanks: SimulatedTank[] = [];
+  let interval = 60;
+  let once = false;
+  let csv = false;
+
+  for (const arg of argv) {
+    if (arg.startsWith('--tank=')) {
+      const [tankId, volume] = arg.slice('--tank='.length).split(':');
+      if (!tankId || !volume) throw new Error(`Invalid --tank argument: ${arg}`);
+      tanks.push({ tankId, volume: Number(volume), waterVolume: 0 });
+    } else if (arg.startsWith('--interval=')) {
+      interval = Number(arg.slice('--interval='.length));
+    } else if (arg === '--once') {
+      once = true;
+    } else if (arg === '--csv') {
+      csv = true;
+    }
+  }
+
+  return { tanks, interval, once, csv };
+}
+
+function randomBetween(min: number, max: number): number {
+  return Math.round((Math.random() * (max - min) + min) * 100) / 100;
+}
+
+/** Ambient-ish product temperature: ~27 °C at night, ~33 °C mid-afternoon. */
+function productTemperature(at: Date): number {
+  const hour = at.getHours() + at.getMinutes() / 60;
+  return Math.round((30 + 3 * Math.sin(((hour - 9) / 24) * 2 * Math.PI)) * 10) / 10;
+}
+
+function tick(tanks: SimulatedTank[], at: Date) {
+  return tanks.map((tank) => {
+    tank.volume = Math.max(0, Math.round((tank.volume - randomBetween(20, 250)) * 100) / 100);
+    if (Math.random() < 0.05) tank.waterVolume = Math.round((tank.waterVolume + randomBetween(0, 2)) * 100) / 100;
+
+    return {
+      tankId: tank.tankId,
+      readAt: at.toISOString(),
+      volume: tank.volume,
+      temperature: productTemperature(at),
+      waterVolume: tank.waterVolume,
+    };
+  });
+}
+
+async function send(readings: ReturnType<typeof tick>, csv: boolean) {
+  const body = csv
+    ? ['tankId,readAt,volume,temperature,waterVolume']
+        .concat(readings.map((r) => [r.tankId, r.readAt, r.volume, r.temperature, r.waterVolume].join(',')))
+        .join('\n')
+    : JSON.stringify({ readings });
+
+  const res = await fetch(`${API_URL}/atg/readings${csv ? '/csv' : ''}`, {
+    method: 'POST',
+    headers: { 'Content-Type': csv ? 'text/csv' : 'application/json', 'X-ATG-Key': ATG_KEY! },
+    body,
+  });
+  const json = await res.json();
+
+  if (!res.ok) {
+    console.error(`✗ ${res.status}`, JSON.stringify(json.error ?? json));
+    return;
+  }
+  console.log(`✓ ${new Date().toISOString()} stored ${json.data.stored}/${json.data.received}, tanks updated: ${json.data.tanksUpdated.length}`);
+}
+
+async function main() {
+  if (!ATG_KEY) throw new Error('ATG_KEY environment variable is required');
+
+  const { tanks, interval, once, csv } = parseArgs(process.argv.slice(2));
+  if (tanks.length === 0) throw new Error('At least one --tank=<tankId>:<startVolume> is required');
+
+  console.log(`📡 Simulating ${tanks.length} tank(s) → ${API_URL} every ${interval}s`);
+  await send(tick(tanks, new Date()), csv);
+  if (once) return;
+
+  setInterval(() => {
+    send(tick(tanks, new Date()), csv).catch((e) => console.error(e));
+  }, interval * 1000);
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
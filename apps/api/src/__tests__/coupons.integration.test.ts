@@ -0,0 +1,226 @@
+/**
+ * Fuel Coupon Integration Tests
+ *
+ * Tests for:
+ * - Issuing serial-numbered coupon batches and selling them to customers
+ * - Serial validation (unknown, unsold, already redeemed, expired)
+ * - Redemption at shift close, deducted from the cash expected
+ * - Outstanding liability report
+ *
+ * Requires seeded database (npx tsx prisma/seed.ts).
+ */
+import { describe, it, expect, beforeAll } from 'vitest';
+import request from 'supertest';
+import app from '../index';
+
+// ─── helpers ──────────────────────────────────────────────────────
+
+let adminToken: string;
+let managerToken: string;
+let stationId: string;
+let shiftId: string;
+let customerId: string;
+let batch: any;
+let expiredBatch: any;
+let unsoldBatch: any;
+const prefix = `T${String(Date.now()).slice(-5)}`;
+
+/** Login helper — returns access token */
+async function login(email: string, password = 'Alcom2026!'): Promise<string> {
+  const res = await request(app)
+    .post('/auth/login')
+    .send({ email, password });
+  if (res.status !== 200 || !res.body?.data?.accessToken) {
+    throw new Error(`Login failed for ${email}: ${res.status} ${JSON.stringify(res.body)}`);
+  }
+  return res.body.data.accessToken;
+}
+
+async function issueBatch(body: Record<string, unknown>) {
+  return request(app)
+    .post('/coupons')
+    .set('Authorization', `Bearer ${adminToken}`)
+    .send({ serialPrefix: prefix, faceValue: 10000, expiresAt: '2031-12-31', ...body });
+}
+
+async function sellBatch(id: string) {
+  return request(app)
+    .post(`/coupons/${id}/sell`)
+    .set('Authorization', `Bearer ${adminToken}`)
+    .send({ customerId, paymentMethod: 'BANK_TRANSFER', paymentRef: 'VIR-COUPONS' });
+}
+
+async function closeShift(coupons: string[], justification?: string) {
+  const shift = await request(app)
+    .get(`/shifts/${shiftId}`)
+    .set('Authorization', `Bearer ${managerToken}`);
+  const s = shift.body.data;
+
+  return request(app)
+    .post(`/shifts/${shiftId}/close`)
+    .set('Authorization', `Bearer ${managerToken}`)
+    .send({
+      sales: s.sales.map((x: any) => ({ nozzleId: x.nozzleId, closingIndex: Number(x.openingIndex) })),
+      tankDips: s.tankDips.map((d: any) => ({
+        tankId: d.tankId,
+        physicalLevel: Number(d.openingLevel) + Number(d.deliveries) + Number(d.transfers),
+      })),
+      products: s.productSales.map((p: any) => ({
+        productId: p.productId,
+        quantitySold: 0,
+        countedStock: Number(p.openingStock) + Number(p.receipts),
+      })),
+      cylinders: s.cylinderCounts.map((c: any) => ({
+        cylinderTypeId: c.cylinderTypeId,
+        countedFull: c.openingFull + c.fullReceived - c.fullOut,
+        countedEmpty: c.openingEmpty - c.emptyReturned + c.emptyIn,
+      })),
+      cash: { counted: 0, card: 0, expenses: 0 },
+      coupons,
+      justification,
+    });
+}
+
+// ─── setup ────────────────────────────────────────────────────────
+
+beforeAll(async () => {
+  adminToken = await login('admin@alcom.cm');
+  managerToken = await login('manager1@alcom.cm');
+
+  const me = await request(app).get('/auth/me').set('Authorization', `Bearer ${managerToken}`);
+  stationId = me.body.data.assignedStationId;
+
+  const customer = await request(app)
+    .post('/customers')
+    .set('Authorization', `Bearer ${adminToken}`)
+    .send({ name: `Coupons Test ${Date.now()}`, creditLimit: 0 });
+  customerId = customer.body.data.id;
+
+  let current = await request(app)
+    .get('/shifts/current')
+    .query({ stationId })
+    .set('Authorization', `Bearer ${managerToken}`);
+
+  if (!current.body.data) {
+    await request(app)
+      .post('/shifts/open')
+      .set('Authorization', `Bearer ${managerToken}`)
+      .send({ stationId, shiftDate: '2030-06-03', shiftType: 'MORNING' });
+    current = await request(app)
+      .get('/shifts/current')
+      .query({ stationId })
+      .set('Authorization', `Bearer ${managerToken}`);
+  }
+  shiftId = current.body.data.id;
+}, 30_000);
+
+// ══════════════════════════════════════════════════════════════════
+//  Tests
+// ══════════════════════════════════════════════════════════════════
+
+describe('Fuel coupons', () => {
+  it('should issue a batch of serial-numbered coupons', async () => {
+    const res = await issueBatch({ batchNumber: `CARNET-${prefix}-1`, startNumber: 1, quantity: 5 });
+
+    expect(res.status).toBe(201);
+    expect(res.body.data.firstSerial).toBe(`${prefix}000001`);
+    expect(res.body.data.lastSerial).toBe(`${prefix}000005`);
+    expect(res.body.data.soldAt).toBeNull();
+    batch = res.body.data;
+  });
+
+  it('should not issue serial numbers twice', async () => {
+    const res = await issueBatch({ batchNumber: `CARNET-${prefix}-X`, startNumber: 4, quantity: 3 });
+
+    expect(res.status).toBe(409);
+    expect(res.body.error.code).toBe('BIZ_COUPON_SERIAL_TAKEN');
+    expect(res.body.error.details.serials).toEqual([`${prefix}000004`, `${prefix}000005`]);
+  });
+
+  it('should not let a station manager issue coupons', async () => {
+    const res = await request(app)
+      .post('/coupons')
+      .set('Authorization', `Bearer ${managerToken}`)
+      .send({ batchNumber: 'REFUSED', serialPrefix: 'R', startNumber: 1, quantity: 1, faceValue: 1, expiresAt: '2031-01-01' });
+
+    expect(res.status).toBe(403);
+  });
+
+  it('should sell a batch to a customer only once', async () => {
+    const res = await sellBatch(batch.id);
+    expect(res.status).toBe(200);
+    expect(res.body.data.customer.id).toBe(customerId);
+
+    const again = await sellBatch(batch.id);
+    expect(again.status).toBe(409);
+    expect(again.body.error.code).toBe('BIZ_BATCH_ALREADY_SOLD');
+
+    expiredBatch = (await issueBatch({ batchNumber: `CARNET-${prefix}-2`, startNumber: 101, quantity: 2, expiresAt: '2020-01-31' })).body.data;
+    await sellBatch(expiredBatch.id);
+    unsoldBatch = (await issueBatch({ batchNumber: `CARNET-${prefix}-3`, startNumber: 201, quantity: 1 })).body.data;
+  });
+
+  it('should sort serials into accepted and rejected coupons', async () => {
+    const res = await request(app)
+      .post('/coupons/check')
+      .set('Authorization', `Bearer ${managerToken}`)
+      .send({
+        shiftReportId: shiftId,
+        serials: [`${prefix}000001`, `${prefix.toLowerCase()}000002`, 'ZZ999999', expiredBatch.firstSerial, unsoldBatch.firstSerial],
+      });
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.valid.map((c: any) => c.serialNumber)).toEqual([`${prefix}000001`, `${prefix}000002`]);
+    expect(res.body.data.total).toBe(20000);
+    expect(res.body.data.unknown).toEqual(['ZZ999999']);
+    expect(res.body.data.expired).toEqual([expiredBatch.firstSerial]);
+    expect(res.body.data.notSold).toEqual([unsoldBatch.firstSerial]);
+  });
+
+  it('should refuse to close a shift with an invalid coupon', async () => {
+    const res = await closeShift([`${prefix}000001`, expiredBatch.firstSerial], 'Test');
+
+    expect(res.status).toBe(400);
+    expect(res.body.error.code).toBe('BIZ_COUPON_INVALID');
+    expect(res.body.error.details.expired).toEqual([expiredBatch.firstSerial]);
+  });
+
+  it('should redeem coupons at close and deduct them from the expected cash', async () => {
+    const res = await closeShift([`${prefix}000001`, `${prefix}000002`], 'Coupons uniquement');
+
+    expect(res.status).toBe(200);
+    expect(Number(res.body.data.couponsAmount)).toBe(20000);
+    expect(res.body.data.redeemedCoupons).toHaveLength(2);
+    expect(Number(res.body.data.theoreticalCash)).toBeCloseTo(
+      Number(res.body.data.totalRevenue) - Number(res.body.data.creditSalesAmount) - 20000,
+      2,
+    );
+  });
+
+  it('should reject a coupon already redeemed', async () => {
+    const res = await request(app)
+      .post('/coupons/check')
+      .set('Authorization', `Bearer ${managerToken}`)
+      .send({ shiftReportId: shiftId, serials: [`${prefix}000001`] });
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.alreadyRedeemed).toEqual([`${prefix}000001`]);
+  });
+
+  it('should report the outstanding liability per batch', async () => {
+    const res = await request(app)
+      .get('/coupons/liability')
+      .set('Authorization', `Bearer ${adminToken}`);
+
+    expect(res.status).toBe(200);
+    const line = res.body.data.batches.find((b: any) => b.batchId === batch.id);
+    expect(line.redeemedCount).toBe(2);
+    expect(line.outstandingCount).toBe(3);
+    expect(line.outstandingValue).toBe(30000);
+
+    const expired = res.body.data.batches.find((b: any) => b.batchId === expiredBatch.id);
+    expect(expired.outstandingValue).toBe(0);
+    expect(expired.expiredValue).toBe(20000);
+    expect(res.body.data.batches.some((b: any) => b.batchId === unsoldBatch.id)).toBe(false);
+  });
+});
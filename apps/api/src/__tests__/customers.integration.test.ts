@@ -0,0 +1,297 @@
+/**
+ * Credit Customer Integration Tests
+ *
+ * Tests for:
+ * - Customer accounts with authorised vehicles and drivers
+ * - Credit sales on the open shift (voucher, plate, credit limit)
+ * - Credit sales deducted from the cash expected at shift close
+ * - Payments, aging and monthly statements (JSON and CSV)
+ *
+ * Requires seeded database (npx tsx prisma/seed.ts).
+ */
+import { describe, it, expect, beforeAll } from 'vitest';
+import request from 'supertest';
+import app from '../index';
+
+// ─── helpers ──────────────────────────────────────────────────────
+
+let adminToken: string;
+let managerToken: string;
+let stationId: string;
+let shiftId: string;
+let customer: any;
+let vehicle: any;
+let otherVehicle: any;
+let driver: any;
+const month = new Date().toISOString().slice(0, 7);
+
+/** Login helper — returns access token */
+async function login(email: string, password = 'Alcom2026!'): Promise<string> {
+  const res = await request(app)
+    .post('/auth/login')
+    .send({ email, password });
+  if (res.status !== 200 || !res.body?.data?.accessToken) {
+    throw new Error(`Login failed for ${email}: ${res.status} ${JSON.stringify(res.body)}`);
+  }
+  return res.body.data.accessToken;
+}
+
+async function recordCreditSale(body: Record<string, unknown>) {
+  return request(app)
+    .post('/customers/credit-sales')
+    .set('Authorization', `Bearer ${managerToken}`)
+    .send({ stationId, customerId: customer.id, vehicleId: vehicle.id, fuelType: 'GASOIL', ...body });
+}
+
+// ─── setup ────────────────────────────────────────────────────────
+
+beforeAll(async () => {
+  adminToken = await login('admin@alcom.cm');
+  managerToken = await login('manager1@alcom.cm');
+
+  const me = await request(app).get('/auth/me').set('Authorization', `Bearer ${managerToken}`);
+  stationId = me.body.data.assignedStationId;
+
+  let current = await request(app)
+    .get('/shifts/current')
+    .query({ stationId })
+    .set('Authorization', `Bearer ${managerToken}`);
+
+  if (!current.body.data) {
+    await request(app)
+      .post('/shifts/open')
+      .set('Authorization', `Bearer ${managerToken}`)
+      .send({ stationId, shiftDate: '2030-06-02', shiftType: 'MORNING' });
+    current = await request(app)
+      .get('/shifts/current')
+      .query({ stationId })
+      .set('Authorization', `Bearer ${managerToken}`);
+  }
+  shiftId = current.body.data.id;
+}, 30_000);
+
+// ══════════════════════════════════════════════════════════════════
+//  Tests
+// ══════════════════════════════════════════════════════════════════
+
+describe('Credit customers', () => {
+  it('should open a customer account', async () => {
+    const res = await request(app)
+      .post('/customers')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ name: `Transports Test ${Date.now()}`, creditLimit: 100000, paymentTermsDays: 30 });
+
+    expect(res.status).toBe(201);
+    expect(Number(res.body.data.balance)).toBe(0);
+    customer = res.body.data;
+  });
+
+  it('should not let a station manager open accounts', async () => {
+    const res = await request(app)
+      .post('/customers')
+      .set('Authorization', `Bearer ${managerToken}`)
+      .send({ name: 'Refused', creditLimit: 1 });
+
+    expect(res.status).toBe(403);
+  });
+
+  it('should authorise vehicles and drivers', async () => {
+    const first = await request(app)
+      .post(`/customers/${customer.id}/vehicles`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ plateNumber: 'lt 123 ab' });
+    expect(first.status).toBe(201);
+    expect(first.body.data.plateNumber).toBe('LT123AB');
+    vehicle = first.body.data;
+
+    const duplicate = await request(app)
+      .post(`/customers/${customer.id}/vehicles`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ plateNumber: 'LT 123 AB' });
+    expect(duplicate.status).toBe(409);
+
+    const second = await request(app)
+      .post(`/customers/${customer.id}/vehicles`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ plateNumber: 'CE 456 XY' });
+    otherVehicle = second.body.data;
+
+    const revoked = await request(app)
+      .put(`/customers/${customer.id}/vehicles/${otherVehicle.id}`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ isActive: false });
+    expect(revoked.status).toBe(200);
+
+    const res = await request(app)
+      .post(`/customers/${customer.id}/drivers`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ fullName: 'Jean Chauffeur' });
+    expect(res.status).toBe(201);
+    driver = res.body.data;
+  });
+
+  it('should record a credit sale at the shift price', async () => {
+    const res = await recordCreditSale({ driverId: driver.id, voucherNumber: 'BON-0001', volume: 10 });
+
+    expect(res.status).toBe(201);
+    expect(res.body.data.shiftReportId).toBe(shiftId);
+    expect(Number(res.body.data.amount)).toBeCloseTo(10 * Number(res.body.data.unitPrice), 2);
+
+    const account = await request(app)
+      .get(`/customers/${customer.id}`)
+      .set('Authorization', `Bearer ${adminToken}`);
+    expect(Number(account.body.data.balance)).toBe(Number(res.body.data.amount));
+    expect(account.body.data.aging.current).toBe(Number(res.body.data.amount));
+  });
+
+  it('should record the nozzle that served a credit sale', async () => {
+    const shift = await request(app)
+      .get(`/shifts/${shiftId}`)
+      .set('Authorization', `Bearer ${managerToken}`);
+    const gasoilTanks = shift.body.data.tankDips
+      .filter((d: any) => d.tank.fuelType === 'GASOIL')
+      .map((d: any) => d.tank.id);
+    const sale = shift.body.data.sales.find((x: any) => gasoilTanks.includes(x.nozzle.pump.tankId));
+
+    const res = await recordCreditSale({ nozzleId: sale.nozzleId, voucherNumber: 'BON-0004', volume: 2 });
+
+    expect(res.status).toBe(201);
+    expect(res.body.data.nozzle.id).toBe(sale.nozzleId);
+  });
+
+  it('should reject a nozzle that is not in the shift', async () => {
+    const res = await recordCreditSale({
+      nozzleId: '00000000-0000-4000-8000-000000000000',
+      voucherNumber: 'BON-0005',
+      volume: 2,
+    });
+
+    expect(res.status).toBe(400);
+    expect(res.body.error.code).toBe('BIZ_NOZZLE_NOT_IN_SHIFT');
+  });
+
+  it('should reject a voucher number already used by the customer', async () => {
+    const res = await recordCreditSale({ voucherNumber: 'BON-0001', volume: 5 });
+
+    expect(res.status).toBe(409);
+  });
+
+  it('should reject a vehicle that is not authorised', async () => {
+    const res = await recordCreditSale({ vehicleId: otherVehicle.id, voucherNumber: 'BON-0002', volume: 5 });
+
+    expect(res.status).toBe(400);
+    expect(res.body.error.code).toBe('BIZ_VEHICLE_NOT_AUTHORISED');
+  });
+
+  it('should refuse a sale beyond the credit limit', async () => {
+    const res = await recordCreditSale({ voucherNumber: 'BON-0003', volume: 1000 });
+
+    expect(res.status).toBe(400);
+    expect(res.body.error.code).toBe('BIZ_CREDIT_LIMIT_EXCEEDED');
+    expect(res.body.error.details.creditLimit).toBe(100000);
+  });
+
+  it('should deduct credit sales from the cash expected at close', async () => {
+    const shift = await request(app)
+      .get(`/shifts/${shiftId}`)
+      .set('Authorization', `Bearer ${managerToken}`);
+    const s = shift.body.data;
+    expect(s.creditSales.length).toBeGreaterThanOrEqual(1);
+
+    const res = await request(app)
+      .post(`/shifts/${shiftId}/close`)
+      .set('Authorization', `Bearer ${managerToken}`)
+      .send({
+        sales: s.sales.map((x: any) => ({ nozzleId: x.nozzleId, closingIndex: Number(x.openingIndex) })),
+        tankDips: s.tankDips.map((d: any) => ({
+          tankId: d.tankId,
+          physicalLevel: Number(d.openingLevel) + Number(d.deliveries) + Number(d.transfers),
+        })),
+        products: s.productSales.map((p: any) => ({
+          productId: p.productId,
+          quantitySold: 0,
+          countedStock: Number(p.openingStock) + Number(p.receipts),
+        })),
+        cylinders: s.cylinderCounts.map((c: any) => ({
+          cylinderTypeId: c.cylinderTypeId,
+          countedFull: c.openingFull + c.fullReceived - c.fullOut,
+          countedEmpty: c.openingEmpty - c.emptyReturned + c.emptyIn,
+        })),
+        cash: { counted: 0, card: 0, expenses: 0 },
+        justification: 'Ventes en compte uniquement',
+      });
+
+    expect(res.status).toBe(200);
+    const creditTotal = s.creditSales.reduce((sum: number, c: any) => sum + Number(c.amount), 0);
+    expect(Number(res.body.data.creditSalesAmount)).toBeCloseTo(creditTotal, 2);
+    expect(Number(res.body.data.theoreticalCash)).toBeCloseTo(Number(res.body.data.totalRevenue) - creditTotal, 2);
+  });
+
+  it('should not cancel a credit sale of a closed shift', async () => {
+    const sales = await request(app)
+      .get('/customers/credit-sales')
+      .query({ shiftReportId: shiftId })
+      .set('Authorization', `Bearer ${managerToken}`);
+    const sale = sales.body.data.find((c: any) => c.customerId === customer.id);
+
+    const res = await request(app)
+      .delete(`/customers/credit-sales/${sale.id}`)
+      .set('Authorization', `Bearer ${managerToken}`);
+
+    expect(res.status).toBe(409);
+    expect(res.body.error.code).toBe('BIZ_SHIFT_NOT_OPEN');
+  });
+
+  it('should record a payment against the balance', async () => {
+    const before = await request(app)
+      .get(`/customers/${customer.id}`)
+      .set('Authorization', `Bearer ${adminToken}`);
+
+    const res = await request(app)
+      .post(`/customers/${customer.id}/payments`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ amount: 1000, method: 'BANK_TRANSFER', reference: 'VIR-42', paidAt: `${month}-01` });
+    expect(res.status).toBe(201);
+
+    const after = await request(app)
+      .get(`/customers/${customer.id}`)
+      .set('Authorization', `Bearer ${adminToken}`);
+    expect(Number(after.body.data.balance)).toBeCloseTo(Number(before.body.data.balance) - 1000, 2);
+    expect(after.body.data.payments[0].reference).toBe('VIR-42');
+  });
+
+  it('should list the account in the aging report', async () => {
+    const res = await request(app)
+      .get('/customers/aging')
+      .set('Authorization', `Bearer ${adminToken}`);
+
+    expect(res.status).toBe(200);
+    const row = res.body.data.customers.find((c: any) => c.id === customer.id);
+    expect(row.aging.total).toBeCloseTo(Number(row.balance), 2);
+    expect(res.body.data.totals.total).toBeGreaterThanOrEqual(row.aging.total);
+  });
+
+  it('should build the monthly statement', async () => {
+    const res = await request(app)
+      .get(`/customers/${customer.id}/statement`)
+      .query({ month })
+      .set('Authorization', `Bearer ${adminToken}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.openingBalance).toBe(0);
+    expect(res.body.data.entries.map((e: any) => e.type).sort()).toEqual(['CREDIT_SALE', 'PAYMENT']);
+    expect(res.body.data.closingBalance).toBeCloseTo(res.body.data.totalDebit - res.body.data.totalCredit, 2);
+  });
+
+  it('should export the monthly statement as CSV', async () => {
+    const res = await request(app)
+      .get(`/exports/customers/${customer.id}/statement`)
+      .query({ month })
+      .set('Authorization', `Bearer ${adminToken}`);
+
+    expect(res.status).toBe(200);
+    expect(res.headers['content-type']).toContain('text/csv');
+    expect(res.text).toContain('BON-0001');
+    expect(res.text).toContain('CLOSING_BALANCE');
+  });
+});
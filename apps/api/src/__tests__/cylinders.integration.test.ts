@@ -0,0 +1,245 @@
+/**
+ * Gas Cylinder Integration Tests
+ *
+ * Tests for:
+ * - Bottle size catalog management
+ * - Supplier deliveries (full in, empties back) counted on the open shift
+ * - Sales, exchanges and deposit refunds on the open shift
+ * - Full/empty count reconciliation at shift close, included in the shift revenue
+ *
+ * Requires seeded database (npx tsx prisma/seed.ts).
+ */
+import { describe, it, expect, beforeAll } from 'vitest';
+import request from 'supertest';
+import app from '../index';
+
+// ─── helpers ──────────────────────────────────────────────────────
+
+let adminToken: string;
+let managerToken: string;
+let stationId: string;
+let otherStationId: string;
+let supplierId: string;
+let shiftId: string;
+let cylinderType: any;
+
+/** Login helper — returns access token */
+async function login(email: string, password = 'Alcom2026!'): Promise<string> {
+  const res = await request(app)
+    .post('/auth/login')
+    .send({ email, password });
+  if (res.status !== 200 || !res.body?.data?.accessToken) {
+    throw new Error(`Login failed for ${email}: ${res.status} ${JSON.stringify(res.body)}`);
+  }
+  return res.body.data.accessToken;
+}
+
+async function getShift(id: string) {
+  const res = await request(app)
+    .get(`/shifts/${id}`)
+    .set('Authorization', `Bearer ${managerToken}`);
+  return res.body.data;
+}
+
+async function recordTransaction(type: string, quantity: number) {
+  return request(app)
+    .post('/cylinders/transactions')
+    .set('Authorization', `Bearer ${managerToken}`)
+    .send({ stationId, cylinderTypeId: cylinderType.id, type, quantity });
+}
+
+// ─── setup ────────────────────────────────────────────────────────
+
+beforeAll(async () => {
+  adminToken = await login('admin@alcom.cm');
+  managerToken = await login('manager1@alcom.cm');
+
+  const me = await request(app).get('/auth/me').set('Authorization', `Bearer ${managerToken}`);
+  stationId = me.body.data.assignedStationId;
+
+  const stations = await request(app)
+    .get('/stations')
+    .query({ limit: 100 })
+    .set('Authorization', `Bearer ${adminToken}`);
+  otherStationId = stations.body.data.find((s: any) => s.id !== stationId).id;
+
+  const suppliers = await request(app)
+    .get('/suppliers')
+    .set('Authorization', `Bearer ${managerToken}`);
+  supplierId = suppliers.body.data[0].id;
+
+  let current = await request(app)
+    .get('/shifts/current')
+    .query({ stationId })
+    .set('Authorization', `Bearer ${managerToken}`);
+
+  if (!current.body.data) {
+    await request(app)
+      .post('/shifts/open')
+      .set('Authorization', `Bearer ${managerToken}`)
+      .send({ stationId, shiftDate: '2030-05-02', shiftType: 'MORNING' });
+    current = await request(app)
+      .get('/shifts/current')
+      .query({ stationId })
+      .set('Authorization', `Bearer ${managerToken}`);
+  }
+  shiftId = current.body.data.id;
+}, 30_000);
+
+// ══════════════════════════════════════════════════════════════════
+//  Tests
+// ══════════════════════════════════════════════════════════════════
+
+describe('Gas cylinders', () => {
+  it('should add a bottle size to the catalog', async () => {
+    const res = await request(app)
+      .post('/cylinders/types')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ brand: `Test-${Date.now()}`, sizeKg: 12.5, gasPrice: 6500, depositPrice: 15000 });
+
+    expect(res.status).toBe(201);
+    expect(res.body.data.isActive).toBe(true);
+    cylinderType = res.body.data;
+  });
+
+  it('should reject a duplicate brand and size', async () => {
+    const res = await request(app)
+      .post('/cylinders/types')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ brand: cylinderType.brand, sizeKg: 12.5, gasPrice: 1, depositPrice: 1 });
+
+    expect(res.status).toBe(409);
+  });
+
+  it('should not let a station manager edit the catalog', async () => {
+    const res = await request(app)
+      .put(`/cylinders/types/${cylinderType.id}`)
+      .set('Authorization', `Bearer ${managerToken}`)
+      .send({ gasPrice: 1 });
+
+    expect(res.status).toBe(403);
+  });
+
+  it('should only let the manager receive bottles at their own station', async () => {
+    const res = await request(app)
+      .post('/cylinders/deliveries')
+      .set('Authorization', `Bearer ${managerToken}`)
+      .send({ stationId: otherStationId, cylinderTypeId: cylinderType.id, supplierId, fullReceived: 20, emptyReturned: 0 });
+
+    expect(res.status).toBe(403);
+  });
+
+  it('should not return more empties than the station holds', async () => {
+    const res = await request(app)
+      .post('/cylinders/deliveries')
+      .set('Authorization', `Bearer ${managerToken}`)
+      .send({ stationId, cylinderTypeId: cylinderType.id, supplierId, fullReceived: 20, emptyReturned: 5 });
+
+    expect(res.status).toBe(400);
+    expect(res.body.error.code).toBe('BIZ_INSUFFICIENT_STOCK');
+  });
+
+  it('should receive full bottles and count them on the open shift', async () => {
+    const res = await request(app)
+      .post('/cylinders/deliveries')
+      .set('Authorization', `Bearer ${managerToken}`)
+      .send({ stationId, cylinderTypeId: cylinderType.id, supplierId, fullReceived: 20, emptyReturned: 0, reference: 'BL-GPL-1' });
+
+    expect(res.status).toBe(201);
+    expect(res.body.data.shiftReportId).toBe(shiftId);
+
+    const shift = await getShift(shiftId);
+    const count = shift.cylinderCounts.find((c: any) => c.cylinderTypeId === cylinderType.id);
+    expect(count.openingFull).toBe(0);
+    expect(count.fullReceived).toBe(20);
+  });
+
+  it('should price sales, exchanges and deposit refunds', async () => {
+    const sale = await recordTransaction('SALE', 2);
+    expect(sale.status).toBe(201);
+    expect(Number(sale.body.data.amount)).toBe(43000);
+
+    const exchange = await recordTransaction('EXCHANGE', 3);
+    expect(exchange.status).toBe(201);
+    expect(Number(exchange.body.data.amount)).toBe(19500);
+
+    const refund = await recordTransaction('DEPOSIT_REFUND', 1);
+    expect(refund.status).toBe(201);
+    expect(Number(refund.body.data.amount)).toBe(-15000);
+
+    const stock = await request(app)
+      .get('/cylinders/stock')
+      .set('Authorization', `Bearer ${managerToken}`);
+    const line = stock.body.data.find((s: any) => s.cylinderTypeId === cylinderType.id);
+    expect(line.fullCount).toBe(15);
+    expect(line.emptyCount).toBe(4);
+  });
+
+  it('should not sell more full bottles than in stock', async () => {
+    const res = await recordTransaction('SALE', 100);
+
+    expect(res.status).toBe(400);
+    expect(res.body.error.code).toBe('BIZ_INSUFFICIENT_STOCK');
+  });
+
+  it('should require a justification for a bottle count variance at close', async () => {
+    const s = await getShift(shiftId);
+    const body = {
+      sales: s.sales.map((x: any) => ({ nozzleId: x.nozzleId, closingIndex: Number(x.openingIndex) })),
+      tankDips: s.tankDips.map((d: any) => ({
+        tankId: d.tankId,
+        physicalLevel: Number(d.openingLevel) + Number(d.deliveries) + Number(d.transfers),
+      })),
+      products: s.productSales.map((p: any) => ({
+        productId: p.productId,
+        quantitySold: 0,
+        countedStock: Number(p.openingStock) + Number(p.receipts),
+      })),
+      cylinders: s.cylinderCounts.map((c: any) =>
+        c.cylinderTypeId === cylinderType.id
+          ? { cylinderTypeId: c.cylinderTypeId, countedFull: 14, countedEmpty: 4 }
+          : {
+              cylinderTypeId: c.cylinderTypeId,
+              countedFull: c.openingFull + c.fullReceived - c.fullOut,
+              countedEmpty: c.openingEmpty - c.emptyReturned + c.emptyIn,
+            },
+      ),
+      cash: { counted: 47500, card: 0, expenses: 0 },
+    };
+
+    const rejected = await request(app)
+      .post(`/shifts/${shiftId}/close`)
+      .set('Authorization', `Bearer ${managerToken}`)
+      .send(body);
+    expect(rejected.status).toBe(400);
+    expect(rejected.body.error.code).toBe('BIZ_JUSTIFICATION_REQUIRED');
+    expect(rejected.body.error.details.totalCylinderVariance).toBeGreaterThanOrEqual(1);
+
+    const res = await request(app)
+      .post(`/shifts/${shiftId}/close`)
+      .set('Authorization', `Bearer ${managerToken}`)
+      .send({ ...body, justification: 'Bouteille manquante' });
+
+    expect(res.status).toBe(200);
+    const count = res.body.data.cylinderCounts.find((c: any) => c.cylinderTypeId === cylinderType.id);
+    expect(Number(count.revenue)).toBe(47500);
+    expect(count.fullVariance).toBe(-1);
+    expect(count.emptyVariance).toBe(0);
+    expect(Number(res.body.data.cylinderRevenue)).toBeGreaterThanOrEqual(47500);
+    expect(res.body.data.cylinderVariance).toBeGreaterThanOrEqual(1);
+    expect(Number(res.body.data.totalRevenue)).toBeGreaterThanOrEqual(Number(res.body.data.cylinderRevenue));
+
+    const stock = await request(app)
+      .get('/cylinders/stock')
+      .set('Authorization', `Bearer ${managerToken}`);
+    const line = stock.body.data.find((x: any) => x.cylinderTypeId === cylinderType.id);
+    expect(line.fullCount).toBe(14);
+  });
+
+  it('should refuse transactions once the shift is closed', async () => {
+    const res = await recordTransaction('EXCHANGE', 1);
+
+    expect(res.status).toBe(409);
+    expect(res.body.error.code).toBe('BIZ_SHIFT_NOT_OPEN');
+  });
+});
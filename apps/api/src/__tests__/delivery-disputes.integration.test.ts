@@ -0,0 +1,286 @@
+/**
+ * Delivery Dispute Integration Tests
+ *
+ * Tests for:
+ * - Investigation notes moving an open dispute to INVESTIGATING
+ * - Supplier claims priced on the disputed compartments
+ * - Outcomes (credit note, rejection, write-off) and who may record them
+ * - Supplier claims report
+ *
+ * Requires seeded database (npx tsx prisma/seed.ts).
+ */
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import request from 'supertest';
+import app from '../index';
+import { prisma } from '../lib/prisma';
+import { openDeliveryDispute } from '../services/delivery-dispute.service';
+
+// ─── helpers ──────────────────────────────────────────────────────
+
+let adminToken: string;
+let managerToken: string;
+let logisticsToken: string;
+let cfoToken: string;
+let stationId: string;
+let tankId: string;
+let supplierId: string;
+const deliveryIds: string[] = [];
+
+/** Login helper — returns access token */
+async function login(email: string, password = 'Alcom2026!'): Promise<string> {
+  const res = await request(app)
+    .post('/auth/login')
+    .send({ email, password });
+  if (res.status !== 200 || !res.body?.data?.accessToken) {
+    throw new Error(`Login failed for ${email}: ${res.status} ${JSON.stringify(res.body)}`);
+  }
+  return res.body.data.accessToken;
+}
+
+/** Record a completed GASOIL delivery short of `shortage` litres and open its dispute */
+async function createDispute(shortage: number): Promise<string> {
+  const delivery = await prisma.fuelDelivery.create({
+    data: {
+      stationId,
+      blNumber: `BL-DSP-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`,
+      blTotalVolume: 10000,
+      truckPlate: 'LT 123 AB',
+      driverName: 'Test Driver',
+      status: 'DISPUTED',
+      globalVariance: -shortage,
+      startedAt: new Date(),
+      completedAt: new Date(),
+      compartments: {
+        create: {
+          tankId,
+          fuelType: 'GASOIL',
+          blVolume: 10000,
+          physicalReceived: 10000 - shortage,
+          variance: -shortage,
+          status: 'DISPUTED',
+        },
+      },
+    },
+  });
+  deliveryIds.push(delivery.id);
+
+  const dispute = await prisma.$transaction((tx) => openDeliveryDispute(tx, delivery.id));
+  return dispute.id;
+}
+
+async function sendClaim(disputeId: string, unitPrice = 600) {
+  return request(app)
+    .put(`/delivery-disputes/${disputeId}/claim`)
+    .set('Authorization', `Bearer ${logisticsToken}`)
+    .send({ supplierId, prices: [{ fuelType: 'GASOIL', unitPrice }] });
+}
+
+// ─── setup ────────────────────────────────────────────────────────
+
+beforeAll(async () => {
+  adminToken = await login('admin@alcom.cm');
+  managerToken = await login('manager1@alcom.cm');
+  logisticsToken = await login('logistics@alcom.cm');
+  cfoToken = await login('cfo@alcom.cm');
+
+  const me = await request(app).get('/auth/me').set('Authorization', `Bearer ${managerToken}`);
+  stationId = me.body.data.assignedStationId;
+
+  const tank = await prisma.tank.findFirstOrThrow({ where: { stationId, fuelType: 'GASOIL' } });
+  tankId = tank.id;
+
+  const supplier = await request(app)
+    .post('/suppliers')
+    .set('Authorization', `Bearer ${adminToken}`)
+    .send({
+      name: `Fuel Supplier Disputes ${Date.now()}`,
+      taxId: `NIU-DSP-${Date.now()}`,
+      email: 'dispute-supplier@test.cm',
+      phone: '+237 699 999 998',
+      category: 'FUEL_SUPPLY',
+    });
+  supplierId = supplier.body.data.id;
+}, 30_000);
+
+afterAll(async () => {
+  await prisma.deliveryDispute.deleteMany({ where: { deliveryId: { in: deliveryIds } } });
+  await prisma.fuelDelivery.deleteMany({ where: { id: { in: deliveryIds } } });
+  await prisma.$disconnect();
+});
+
+// ══════════════════════════════════════════════════════════════════
+//   Investigation
+// ══════════════════════════════════════════════════════════════════
+
+describe('POST /delivery-disputes/:id/notes', () => {
+  it('moves an open dispute to INVESTIGATING', async () => {
+    const id = await createDispute(300);
+
+    const res = await request(app)
+      .post(`/delivery-disputes/${id}/notes`)
+      .set('Authorization', `Bearer ${managerToken}`)
+      .send({ content: 'Seals intact on arrival, dip ticket attached' });
+    expect(res.status).toBe(201);
+
+    const detail = await request(app)
+      .get(`/delivery-disputes/${id}`)
+      .set('Authorization', `Bearer ${managerToken}`);
+    expect(detail.body.data.status).toBe('INVESTIGATING');
+    expect(Number(detail.body.data.shortageVolume)).toBe(300);
+    expect(detail.body.data.notes).toHaveLength(1);
+  });
+});
+
+// ══════════════════════════════════════════════════════════════════
+//   Supplier claim
+// ══════════════════════════════════════════════════════════════════
+
+describe('PUT /delivery-disputes/:id/claim', () => {
+  it('requires a supplier when the delivery has no purchase order', async () => {
+    const id = await createDispute(200);
+
+    const res = await request(app)
+      .put(`/delivery-disputes/${id}/claim`)
+      .set('Authorization', `Bearer ${logisticsToken}`)
+      .send({ prices: [{ fuelType: 'GASOIL', unitPrice: 600 }] });
+
+    expect(res.status).toBe(400);
+    expect(res.body.error.code).toBe('BIZ_DISPUTE_SUPPLIER_REQUIRED');
+  });
+
+  it('requires a price for each fuel type short', async () => {
+    const id = await createDispute(200);
+
+    const res = await request(app)
+      .put(`/delivery-disputes/${id}/claim`)
+      .set('Authorization', `Bearer ${logisticsToken}`)
+      .send({ supplierId });
+
+    expect(res.status).toBe(400);
+    expect(res.body.error.code).toBe('BIZ_DISPUTE_PRICE_MISSING');
+    expect(res.body.error.details.fuelTypes).toEqual(['GASOIL']);
+  });
+
+  it('claims the shortage at the given price', async () => {
+    const id = await createDispute(250);
+
+    const res = await sendClaim(id, 600);
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.status).toBe('CLAIMED');
+    expect(Number(res.body.data.claimAmount)).toBe(250 * 600);
+    expect(res.body.data.supplier.id).toBe(supplierId);
+  });
+
+  it('forbids station managers from claiming', async () => {
+    const id = await createDispute(100);
+
+    const res = await request(app)
+      .put(`/delivery-disputes/${id}/claim`)
+      .set('Authorization', `Bearer ${managerToken}`)
+      .send({ supplierId, prices: [{ fuelType: 'GASOIL', unitPrice: 600 }] });
+
+    expect(res.status).toBe(403);
+  });
+});
+
+// ══════════════════════════════════════════════════════════════════
+//   Outcomes
+// ══════════════════════════════════════════════════════════════════
+
+describe('PUT /delivery-disputes/:id/resolve', () => {
+  it('records a credit note and resolves the delivery', async () => {
+    const id = await createDispute(200);
+    await sendClaim(id, 600);
+
+    const res = await request(app)
+      .put(`/delivery-disputes/${id}/resolve`)
+      .set('Authorization', `Bearer ${logisticsToken}`)
+      .send({
+        outcome: 'CREDITED',
+        creditNoteNumber: `AV-${Date.now()}`,
+        creditedAmount: 120000,
+        resolutionNote: 'Supplier accepted the full shortage',
+      });
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.status).toBe('CREDITED');
+
+    const delivery = await prisma.fuelDelivery.findUnique({ where: { id: deliveryIds[deliveryIds.length - 1] } });
+    expect(delivery?.status).toBe('RESOLVED');
+  });
+
+  it('rejects a credit note above the amount claimed', async () => {
+    const id = await createDispute(100);
+    await sendClaim(id, 600);
+
+    const res = await request(app)
+      .put(`/delivery-disputes/${id}/resolve`)
+      .set('Authorization', `Bearer ${logisticsToken}`)
+      .send({
+        outcome: 'CREDITED',
+        creditNoteNumber: `AV-${Date.now()}`,
+        creditedAmount: 100 * 600 + 1,
+        resolutionNote: 'Supplier credit note received',
+      });
+
+    expect(res.status).toBe(400);
+    expect(res.body.error.code).toBe('BIZ_CREDIT_EXCEEDS_CLAIM');
+  });
+
+  it('only credits or rejects a claim sent to the supplier', async () => {
+    const id = await createDispute(100);
+
+    const res = await request(app)
+      .put(`/delivery-disputes/${id}/resolve`)
+      .set('Authorization', `Bearer ${logisticsToken}`)
+      .send({ outcome: 'REJECTED', resolutionNote: 'Supplier disputes our dips' });
+
+    expect(res.status).toBe(400);
+    expect(res.body.error.code).toBe('INVALID_STATUS');
+  });
+
+  it('leaves the write-off to finance', async () => {
+    const id = await createDispute(50);
+    const body = { outcome: 'WRITTEN_OFF', resolutionNote: 'Shortage too small to pursue' };
+
+    const denied = await request(app)
+      .put(`/delivery-disputes/${id}/resolve`)
+      .set('Authorization', `Bearer ${logisticsToken}`)
+      .send(body);
+    expect(denied.status).toBe(403);
+
+    const res = await request(app)
+      .put(`/delivery-disputes/${id}/resolve`)
+      .set('Authorization', `Bearer ${cfoToken}`)
+      .send(body);
+    expect(res.status).toBe(200);
+    expect(res.body.data.status).toBe('WRITTEN_OFF');
+  });
+});
+
+// ══════════════════════════════════════════════════════════════════
+//   Supplier claims report
+// ══════════════════════════════════════════════════════════════════
+
+describe('GET /delivery-disputes/report', () => {
+  it('totals claims and credit notes per supplier', async () => {
+    const res = await request(app)
+      .get('/delivery-disputes/report')
+      .set('Authorization', `Bearer ${cfoToken}`);
+
+    expect(res.status).toBe(200);
+    const row = res.body.data.suppliers.find((s: any) => s.supplier?.id === supplierId);
+    expect(row.claimedAmount).toBe((250 + 200 + 100) * 600);
+    expect(row.creditedAmount).toBe(120000);
+    expect(row.pendingAmount).toBe((250 + 100) * 600);
+  });
+
+  it('is not available to station managers', async () => {
+    const res = await request(app)
+      .get('/delivery-disputes/report')
+      .set('Authorization', `Bearer ${managerToken}`);
+
+    expect(res.status).toBe(403);
+  });
+});
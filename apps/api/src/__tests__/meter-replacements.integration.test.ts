@@ -0,0 +1,162 @@
+/**
+ * Nozzle Meter Replacement Integration Tests
+ *
+ * Tests for:
+ * - Per-nozzle meter configuration (type, rollover value)
+ * - Meter replacement during an open shift: volume counted on both meters at close
+ * - Meter replacement between shifts: next shift opens on the new meter
+ *
+ * Requires seeded database (npx tsx prisma/seed.ts).
+ */
+import { describe, it, expect, beforeAll } from 'vitest';
+import request from 'supertest';
+import app from '../index';
+
+// ─── helpers ──────────────────────────────────────────────────────
+
+let managerToken: string;
+let stationId: string;
+let shift: any;
+let sale: any;
+
+/** Login helper — returns access token */
+async function login(email: string, password = 'Alcom2026!'): Promise<string> {
+  const res = await request(app)
+    .post('/auth/login')
+    .send({ email, password });
+  if (res.status !== 200 || !res.body?.data?.accessToken) {
+    throw new Error(`Login failed for ${email}: ${res.status} ${JSON.stringify(res.body)}`);
+  }
+  return res.body.data.accessToken;
+}
+
+async function getShift(id: string) {
+  const res = await request(app)
+    .get(`/shifts/${id}`)
+    .set('Authorization', `Bearer ${managerToken}`);
+  return res.body.data;
+}
+
+async function openShift(shiftDate: string) {
+  await request(app)
+    .post('/shifts/open')
+    .set('Authorization', `Bearer ${managerToken}`)
+    .send({ stationId, shiftDate, shiftType: 'MORNING' });
+  const current = await request(app)
+    .get('/shifts/current')
+    .query({ stationId })
+    .set('Authorization', `Bearer ${managerToken}`);
+  return getShift(current.body.data.id);
+}
+
+// ─── setup ────────────────────────────────────────────────────────
+
+beforeAll(async () => {
+  managerToken = await login('manager1@alcom.cm');
+
+  const me = await request(app).get('/auth/me').set('Authorization', `Bearer ${managerToken}`);
+  stationId = me.body.data.assignedStationId;
+
+  const current = await request(app)
+    .get('/shifts/current')
+    .query({ stationId })
+    .set('Authorization', `Bearer ${managerToken}`);
+
+  shift = current.body.data ? await getShift(current.body.data.id) : await openShift('2030-02-10');
+  sale = shift.sales[0];
+}, 30_000);
+
+// ══════════════════════════════════════════════════════════════════
+//  Tests
+// ══════════════════════════════════════════════════════════════════
+
+describe('Nozzle meter replacement', () => {
+  it('should reject a final index above the old meter rollover value', async () => {
+    const res = await request(app)
+      .post(`/nozzles/${sale.nozzleId}/meter-replacements`)
+      .set('Authorization', `Bearer ${managerToken}`)
+      .send({
+        oldFinalIndex: Number(sale.nozzle.rolloverValue) + 1,
+        newStartIndex: 0,
+        reason: 'Totalizer failure',
+      });
+
+    expect(res.status).toBe(400);
+    expect(res.body.error.code).toBe('BIZ_INVALID_METER_INDEX');
+  });
+
+  it('should record a replacement during the open shift', async () => {
+    const res = await request(app)
+      .post(`/nozzles/${sale.nozzleId}/meter-replacements`)
+      .set('Authorization', `Bearer ${managerToken}`)
+      .send({
+        oldFinalIndex: Number(sale.openingIndex) + 30,
+        newStartIndex: 0,
+        meterType: 'MECHANICAL',
+        rolloverValue: 9999999,
+        reason: 'Totalizer failure',
+      });
+
+    expect(res.status).toBe(201);
+    expect(res.body.data.shiftReportId).toBe(shift.id);
+    expect(res.body.data.midShift).toBe(true);
+
+    const nozzle = await request(app)
+      .get(`/nozzles/${sale.nozzleId}`)
+      .set('Authorization', `Bearer ${managerToken}`);
+    expect(nozzle.body.data.meterType).toBe('MECHANICAL');
+    expect(Number(nozzle.body.data.rolloverValue)).toBe(9999999);
+    expect(Number(nozzle.body.data.meterIndex)).toBe(0);
+  });
+
+  it('should count the volume of both meters at close', async () => {
+    const s = await getShift(shift.id);
+    expect(s.meterReplacements).toHaveLength(1);
+
+    const res = await request(app)
+      .post(`/shifts/${shift.id}/close`)
+      .set('Authorization', `Bearer ${managerToken}`)
+      .send({
+        sales: s.sales.map((x: any) => ({
+          nozzleId: x.nozzleId,
+          closingIndex: x.nozzleId === sale.nozzleId ? 70 : Number(x.openingIndex) + 100,
+        })),
+        tankDips: s.tankDips.map((d: any) => ({ tankId: d.tankId, physicalLevel: Number(d.openingLevel) })),
+        cash: { counted: 0, card: 0, expenses: 0 },
+        justification: 'Test meter replacement',
+      });
+
+    expect(res.status).toBe(200);
+
+    const closed = await getShift(shift.id);
+    const replaced = closed.sales.find((x: any) => x.nozzleId === sale.nozzleId);
+    expect(Number(replaced.volumeSold)).toBe(100);
+    expect(Number(replaced.revenue)).toBe(100 * Number(replaced.unitPrice));
+  });
+
+  it('should open the next shift on a meter replaced between shifts', async () => {
+    const res = await request(app)
+      .post(`/nozzles/${sale.nozzleId}/meter-replacements`)
+      .set('Authorization', `Bearer ${managerToken}`)
+      .send({ oldFinalIndex: 70, newStartIndex: 500, reason: 'Meter upgrade' });
+
+    expect(res.status).toBe(201);
+    expect(res.body.data.shiftReportId).toBeNull();
+    expect(res.body.data.midShift).toBe(false);
+
+    const next = await openShift(`2030-02-${10 + Math.floor(Math.random() * 18)}`);
+    const nextSale = next.sales.find((x: any) => x.nozzleId === sale.nozzleId);
+    expect(Number(nextSale.openingIndex)).toBe(500);
+    expect(next.meterReplacements.map((r: any) => r.id)).toContain(res.body.data.id);
+  });
+
+  it('should list the replacements of a nozzle', async () => {
+    const res = await request(app)
+      .get(`/nozzles/${sale.nozzleId}/meter-replacements`)
+      .set('Authorization', `Bearer ${managerToken}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.length).toBeGreaterThanOrEqual(2);
+    expect(res.body.data[0].reason).toBe('Meter upgrade');
+  });
+});
@@ -0,0 +1,197 @@
+/**
+ * Payment Methods Integration Tests
+ *
+ * Tests for:
+ * - Station payment methods in settings (defaults and custom list)
+ * - Non-cash tenders at shift close and theoretical cash
+ * - Per-method columns in the shift export
+ *
+ * Requires seeded database (npx tsx prisma/seed.ts).
+ */
+import { describe, it, expect, beforeAll } from 'vitest';
+import request from 'supertest';
+import app from '../index';
+
+// ─── helpers ──────────────────────────────────────────────────────
+
+let managerToken: string;
+let stationId: string;
+let shift: any;
+
+/** Login helper — returns access token */
+async function login(email: string, password = 'Alcom2026!'): Promise<string> {
+  const res = await request(app)
+    .post('/auth/login')
+    .send({ email, password });
+  if (res.status !== 200 || !res.body?.data?.accessToken) {
+    throw new Error(`Login failed for ${email}: ${res.status} ${JSON.stringify(res.body)}`);
+  }
+  return res.body.data.accessToken;
+}
+
+function closingReadings() {
+  return {
+    sales: shift.sales.map((s: any) => ({
+      nozzleId: s.nozzleId,
+      closingIndex: Number(s.openingIndex) + 100,
+    })),
+    tankDips: shift.tankDips.map((d: any) => ({
+      tankId: d.tankId,
+      physicalLevel: Number(d.openingLevel),
+    })),
+  };
+}
+
+// ─── setup ────────────────────────────────────────────────────────
+
+beforeAll(async () => {
+  managerToken = await login('manager1@alcom.cm');
+
+  const me = await request(app).get('/auth/me').set('Authorization', `Bearer ${managerToken}`);
+  stationId = me.body.data.assignedStationId;
+
+  let current = await request(app)
+    .get('/shifts/current')
+    .query({ stationId })
+    .set('Authorization', `Bearer ${managerToken}`);
+
+  if (!current.body.data) {
+    await request(app)
+      .post('/shifts/open')
+      .set('Authorization', `Bearer ${managerToken}`)
+      .send({ stationId, shiftDate: '2030-01-16', shiftType: 'MORNING' });
+    current = await request(app)
+      .get('/shifts/current')
+      .query({ stationId })
+      .set('Authorization', `Bearer ${managerToken}`);
+  }
+  shift = current.body.data;
+}, 30_000);
+
+// ══════════════════════════════════════════════════════════════════
+//  Tests
+// ══════════════════════════════════════════════════════════════════
+
+describe('Payment methods', () => {
+  it('should list the default payment methods for a station', async () => {
+    const res = await request(app)
+      .get(`/stations/${stationId}/settings`)
+      .set('Authorization', `Bearer ${managerToken}`);
+
+    expect(res.status).toBe(200);
+    const codes = res.body.data.settings.paymentMethods.map((m: any) => m.code);
+    expect(codes).toContain('MTN_MOMO');
+    expect(codes).toContain('ORANGE_MONEY');
+  });
+
+  it('should reject redefining a built-in payment method', async () => {
+    const res = await request(app)
+      .put(`/stations/${stationId}/settings`)
+      .set('Authorization', `Bearer ${managerToken}`)
+      .send({ paymentMethods: [{ code: 'CARD', name: 'Carte' }] });
+
+    expect(res.status).toBe(400);
+  });
+
+  it('should reject payment methods that overlap credit sales and coupons', async () => {
+    for (const code of ['VOUCHER', 'FLEET_CARD']) {
+      const res = await request(app)
+        .put(`/stations/${stationId}/settings`)
+        .set('Authorization', `Bearer ${managerToken}`)
+        .send({ paymentMethods: [{ code, name: code }] });
+
+      expect(res.status).toBe(400);
+    }
+  });
+
+  it('should save the station payment methods', async () => {
+    const res = await request(app)
+      .put(`/stations/${stationId}/settings`)
+      .set('Authorization', `Bearer ${managerToken}`)
+      .send({
+        paymentMethods: [
+          { code: 'MTN_MOMO', name: 'MTN MoMo' },
+          { code: 'EU_MOBILE', name: 'Express Union Mobile' },
+        ],
+      });
+
+    expect(res.status).toBe(200);
+  });
+
+  it('should reject a tender with a method the station does not accept', async () => {
+    const res = await request(app)
+      .post(`/shifts/${shift.id}/close`)
+      .set('Authorization', `Bearer ${managerToken}`)
+      .send({
+        ...closingReadings(),
+        cash: { counted: 0, tenders: [{ method: 'ORANGE_MONEY', amount: 1000 }] },
+        justification: 'Payment methods test',
+      });
+
+    expect(res.status).toBe(400);
+    expect(res.body.error.code).toBe('BIZ_INVALID_PAYMENT_METHOD');
+    expect(res.body.error.details.allowed).toEqual(['MTN_MOMO', 'EU_MOBILE']);
+  });
+
+  it('should reject a voucher tender at close', async () => {
+    const res = await request(app)
+      .post(`/shifts/${shift.id}/close`)
+      .set('Authorization', `Bearer ${managerToken}`)
+      .send({
+        ...closingReadings(),
+        cash: { counted: 0, tenders: [{ method: 'VOUCHER', amount: 1000 }] },
+        justification: 'Payment methods test',
+      });
+
+    expect(res.status).toBe(400);
+  });
+
+  it('should subtract every non-cash tender from theoretical cash at close', async () => {
+    const res = await request(app)
+      .post(`/shifts/${shift.id}/close`)
+      .set('Authorization', `Bearer ${managerToken}`)
+      .send({
+        ...closingReadings(),
+        cash: {
+          counted: 0,
+          card: 10000,
+          expenses: 5000,
+          tenders: [
+            { method: 'MTN_MOMO', amount: 25000 },
+            { method: 'EU_MOBILE', amount: 15000 },
+          ],
+        },
+        justification: 'Payment methods test',
+      });
+
+    expect(res.status).toBe(200);
+    const closed = res.body.data;
+    expect(Number(closed.theoreticalCash)).toBe(Number(closed.totalRevenue) - 10000 - 25000 - 15000 - 5000);
+    expect(closed.payments.map((p: any) => [p.method, Number(p.amount)])).toEqual([
+      ['EU_MOBILE', 15000],
+      ['MTN_MOMO', 25000],
+    ]);
+  });
+
+  it('should export one column per payment method', async () => {
+    const res = await request(app)
+      .get('/exports/shifts')
+      .query({ stationId })
+      .set('Authorization', `Bearer ${managerToken}`);
+
+    expect(res.status).toBe(200);
+    const header = res.text.replace('\uFEFF', '').split('\n')[0];
+    expect(header).toContain('Payment_MTN_MOMO');
+    expect(header).toContain('Payment_EU_MOBILE');
+  });
+
+  it('should report collections per payment method on the dashboard', async () => {
+    const res = await request(app)
+      .get('/stats/dashboard')
+      .set('Authorization', `Bearer ${managerToken}`);
+
+    expect(res.status).toBe(200);
+    const methods = res.body.data.paymentBreakdown.map((p: any) => p.method);
+    expect(methods.slice(0, 2)).toEqual(['CASH', 'CARD']);
+  });
+});
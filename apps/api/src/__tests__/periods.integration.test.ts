@@ -0,0 +1,262 @@
+/**
+ * Period Closing API Integration Tests
+ *
+ * Tests for:
+ * - Closing a day: CLOSED shifts become LOCKED
+ * - Mutations blocked inside a locked period
+ * - Reopen request → CFO approval, recorded in AuditLog
+ * - RBAC (only CFO approves, nobody reviews their own request)
+ * - Shift opened after a closed period, and locked shifts in reporting
+ *
+ * Requires seeded database (npx tsx prisma/seed.ts).
+ */
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import request from 'supertest';
+import app from '../index';
+import { prisma } from '../lib/prisma';
+
+// ─── helpers ──────────────────────────────────────────────────────
+
+let financeToken: string;
+let cfoToken: string;
+let managerToken: string;
+let stationId: string;
+let shiftId: string;
+let shiftDate: string;
+let periodId: string;
+let requestId: string;
+let managerStationId: string;
+let lockedShift: any;
+let lockedPeriodId: string;
+
+/** Login helper — returns access token */
+async function login(email: string, password = 'Alcom2026!'): Promise<string> {
+  const res = await request(app)
+    .post('/auth/login')
+    .send({ email, password });
+  if (res.status !== 200 || !res.body?.data?.accessToken) {
+    throw new Error(`Login failed for ${email}: ${res.status} ${JSON.stringify(res.body)}`);
+  }
+  return res.body.data.accessToken;
+}
+
+async function getShift(id: string) {
+  const res = await request(app)
+    .get(`/shifts/${id}`)
+    .set('Authorization', `Bearer ${managerToken}`);
+  return res.body.data;
+}
+
+/** Close a shift: every nozzle sells 100 L, tank levels unchanged */
+async function closeShift(shift: any) {
+  return request(app)
+    .post(`/shifts/${shift.id}/close`)
+    .set('Authorization', `Bearer ${managerToken}`)
+    .send({
+      sales: shift.sales.map((x: any) => ({ nozzleId: x.nozzleId, closingIndex: Number(x.openingIndex) + 100 })),
+      tankDips: shift.tankDips.map((d: any) => ({ tankId: d.tankId, physicalLevel: Number(d.openingLevel) })),
+      cash: { counted: 0, card: 0, expenses: 0 },
+      justification: 'Test period closing',
+    });
+}
+
+/** Open a shift on the day after the last shift of the manager's station */
+async function openNextShift() {
+  const last = await prisma.shiftReport.findFirst({
+    where: { stationId: managerStationId },
+    orderBy: { shiftDate: 'desc' },
+  });
+  const shiftDate = new Date(last!.shiftDate.getTime() + 86_400_000).toISOString().slice(0, 10);
+  const res = await request(app)
+    .post('/shifts/open')
+    .set('Authorization', `Bearer ${managerToken}`)
+    .send({ stationId: managerStationId, shiftDate, shiftType: 'MORNING' });
+  if (res.status !== 201) {
+    throw new Error(`Failed to open shift: ${res.status} ${JSON.stringify(res.body)}`);
+  }
+  return getShift(res.body.data.id);
+}
+
+// ─── setup ────────────────────────────────────────────────────────
+
+beforeAll(async () => {
+  financeToken = await login('finance@alcom.cm');
+  cfoToken = await login('cfo@alcom.cm');
+  managerToken = await login('manager1@alcom.cm');
+
+  const shift = await prisma.shiftReport.findFirst({
+    where: { status: 'CLOSED' },
+    orderBy: { shiftDate: 'asc' },
+  });
+  if (!shift) throw new Error('No closed shift found in seed');
+  stationId = shift.stationId;
+  shiftId = shift.id;
+  shiftDate = shift.shiftDate.toISOString().slice(0, 10);
+
+  const me = await request(app).get('/auth/me').set('Authorization', `Bearer ${managerToken}`);
+  managerStationId = me.body.data.assignedStationId;
+}, 30_000);
+
+afterAll(async () => {
+  if (periodId) {
+    await prisma.auditLog.deleteMany({ where: { entityType: 'PeriodClose', entityId: periodId } });
+    await prisma.periodClose.delete({ where: { id: periodId } });
+  }
+  if (lockedPeriodId) {
+    await prisma.auditLog.deleteMany({ where: { entityType: 'PeriodClose', entityId: lockedPeriodId } });
+    await prisma.periodClose.delete({ where: { id: lockedPeriodId } });
+  }
+  await prisma.shiftReport.update({ where: { id: shiftId }, data: { status: 'CLOSED' } });
+  await prisma.$disconnect();
+});
+
+// ══════════════════════════════════════════════════════════════════
+//  Tests
+// ══════════════════════════════════════════════════════════════════
+
+describe('Period closing', () => {
+  it('should forbid station manager from closing a period', async () => {
+    const res = await request(app)
+      .post('/periods/close')
+      .set('Authorization', `Bearer ${managerToken}`)
+      .send({ stationId, periodType: 'DAY', date: shiftDate });
+
+    expect(res.status).toBe(403);
+  });
+
+  it('should lock the closed shifts of the day', async () => {
+    const res = await request(app)
+      .post('/periods/close')
+      .set('Authorization', `Bearer ${financeToken}`)
+      .send({ stationId, periodType: 'DAY', date: shiftDate });
+
+    expect(res.status).toBe(201);
+    expect(res.body.data.lockedShiftCount).toBeGreaterThanOrEqual(1);
+    periodId = res.body.data.id;
+
+    const shift = await prisma.shiftReport.findUnique({ where: { id: shiftId } });
+    expect(shift!.status).toBe('LOCKED');
+  });
+
+  it('should reject closing the same period twice', async () => {
+    const res = await request(app)
+      .post('/periods/close')
+      .set('Authorization', `Bearer ${financeToken}`)
+      .send({ stationId, periodType: 'DAY', date: shiftDate });
+
+    expect(res.status).toBe(409);
+  });
+
+  it('should block closing a locked shift', async () => {
+    const res = await request(app)
+      .post(`/shifts/${shiftId}/close`)
+      .set('Authorization', `Bearer ${cfoToken}`)
+      .send({
+        sales: [{ nozzleId: '00000000-0000-0000-0000-000000000000', closingIndex: 1 }],
+        tankDips: [{ tankId: '00000000-0000-0000-0000-000000000000', physicalLevel: 1 }],
+        cash: { counted: 0, card: 0, expenses: 0 },
+      });
+
+    expect(res.status).toBe(409);
+    expect(res.body.error.code).toBe('BIZ_SHIFT_LOCKED');
+  });
+});
+
+describe('Period reopening', () => {
+  it('should require a justification', async () => {
+    const res = await request(app)
+      .post(`/periods/${periodId}/reopen-requests`)
+      .set('Authorization', `Bearer ${financeToken}`)
+      .send({ justification: 'short' });
+
+    expect(res.status).toBe(400);
+  });
+
+  it('should create a reopen request', async () => {
+    const res = await request(app)
+      .post(`/periods/${periodId}/reopen-requests`)
+      .set('Authorization', `Bearer ${financeToken}`)
+      .send({ justification: 'Cash count was entered on the wrong shift' });
+
+    expect(res.status).toBe(201);
+    expect(res.body.data.status).toBe('PENDING');
+    requestId = res.body.data.id;
+  });
+
+  it('should only let the CFO approve', async () => {
+    const res = await request(app)
+      .put(`/periods/reopen-requests/${requestId}/approve`)
+      .set('Authorization', `Bearer ${financeToken}`)
+      .send({});
+
+    expect(res.status).toBe(403);
+  });
+
+  it('should reopen the period on CFO approval', async () => {
+    const res = await request(app)
+      .put(`/periods/reopen-requests/${requestId}/approve`)
+      .set('Authorization', `Bearer ${cfoToken}`)
+      .send({ comment: 'OK' });
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.status).toBe('APPROVED');
+
+    const shift = await prisma.shiftReport.findUnique({ where: { id: shiftId } });
+    expect(shift!.status).toBe('CLOSED');
+
+    const audit = await prisma.auditLog.findFirst({
+      where: { entityType: 'PeriodClose', entityId: periodId, action: 'PERIOD_REOPENED' },
+    });
+    expect(audit).not.toBeNull();
+  });
+});
+
+describe('Shift after a closed period', () => {
+  it('should open the next shift on the closing indices of the locked shift', async () => {
+    // Close any shift left open at the station, then one of our own on the latest date
+    const current = await request(app)
+      .get('/shifts/current')
+      .query({ stationId: managerStationId })
+      .set('Authorization', `Bearer ${managerToken}`);
+    if (current.body.data) await closeShift(await getShift(current.body.data.id));
+
+    const shift = await openNextShift();
+    expect((await closeShift(shift)).status).toBe(200);
+    lockedShift = await getShift(shift.id);
+
+    const period = await request(app)
+      .post('/periods/close')
+      .set('Authorization', `Bearer ${financeToken}`)
+      .send({ stationId: managerStationId, periodType: 'DAY', date: lockedShift.shiftDate.slice(0, 10) });
+    expect(period.status).toBe(201);
+    lockedPeriodId = period.body.data.id;
+
+    const next = await openNextShift();
+    for (const sale of lockedShift.sales) {
+      const nextSale = next.sales.find((x: any) => x.nozzleId === sale.nozzleId);
+      expect(Number(nextSale.openingIndex)).toBe(Number(sale.closingIndex));
+    }
+  });
+
+  it('should keep the locked shift in the variance report', async () => {
+    const date = lockedShift.shiftDate.slice(0, 10);
+    const res = await request(app)
+      .get('/stats/variance-report')
+      .query({ stationId: managerStationId, startDate: date, endDate: date })
+      .set('Authorization', `Bearer ${cfoToken}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.map((s: any) => s.shiftId)).toContain(lockedShift.id);
+  });
+
+  it('should keep the locked shift in the shift export', async () => {
+    const date = lockedShift.shiftDate.slice(0, 10);
+    const res = await request(app)
+      .get('/exports/shifts')
+      .query({ stationId: managerStationId, startDate: date, endDate: `${date}T23:59:59Z` })
+      .set('Authorization', `Bearer ${cfoToken}`);
+
+    expect(res.status).toBe(200);
+    expect(res.text).toContain('LOCKED');
+  });
+});
@@ -0,0 +1,207 @@
+/**
+ * Price Zones Integration Tests
+ *
+ * Tests for:
+ * - Price zone CRUD and station assignment
+ * - Zone- and station-scoped prices (creation, validation, duplicate checks)
+ * - Filtering the price list and history by zone
+ * - National price fallback for stations without their own active price
+ *
+ * Requires seeded database (npx tsx prisma/seed.ts).
+ */
+import { describe, it, expect, beforeAll } from 'vitest';
+import request from 'supertest';
+import app from '../index';
+
+// ─── helpers ──────────────────────────────────────────────────────
+
+let adminToken: string;
+let managerToken: string;
+let stationId: string;
+let zoneId: string;
+
+/** Login helper — returns access token */
+async function login(email: string, password = 'Alcom2026!'): Promise<string> {
+  const res = await request(app)
+    .post('/auth/login')
+    .send({ email, password });
+  if (res.status !== 200 || !res.body?.data?.accessToken) {
+    throw new Error(`Login failed for ${email}: ${res.status} ${JSON.stringify(res.body)}`);
+  }
+  return res.body.data.accessToken;
+}
+
+/** Create a future date string */
+function getFutureDate(daysFromNow: number): string {
+  const d = new Date();
+  d.setDate(d.getDate() + daysFromNow);
+  d.setHours(6, 0, 0, 0);
+  return d.toISOString();
+}
+
+const randomPrice = () => 600 + Math.floor(Math.random() * 100);
+
+// ─── setup ────────────────────────────────────────────────────────
+
+beforeAll(async () => {
+  adminToken = await login('admin@alcom.cm');
+  managerToken = await login('manager1@alcom.cm');
+
+  const me = await request(app).get('/auth/me').set('Authorization', `Bearer ${managerToken}`);
+  stationId = me.body.data.assignedStationId;
+}, 30_000);
+
+// ══════════════════════════════════════════════════════════════════
+//  Tests
+// ══════════════════════════════════════════════════════════════════
+
+describe('Price zones', () => {
+  it('should create a price zone', async () => {
+    const code = `Z${Date.now().toString().slice(-8)}`;
+    const res = await request(app)
+      .post('/price-zones')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ code, name: 'Zone Littoral' });
+
+    expect(res.status).toBe(201);
+    expect(res.body.data.code).toBe(code);
+    zoneId = res.body.data.id;
+
+    const dup = await request(app)
+      .post('/price-zones')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ code, name: 'Duplicate' });
+    expect(dup.status).toBe(409);
+  });
+
+  it('should not let station managers create zones', async () => {
+    const res = await request(app)
+      .post('/price-zones')
+      .set('Authorization', `Bearer ${managerToken}`)
+      .send({ code: 'NOPE', name: 'Nope' });
+
+    expect(res.status).toBe(403);
+  });
+
+  it('should assign a station to a zone', async () => {
+    const res = await request(app)
+      .put(`/stations/${stationId}`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ priceZoneId: zoneId });
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.priceZoneId).toBe(zoneId);
+
+    const zones = await request(app)
+      .get('/price-zones')
+      .set('Authorization', `Bearer ${adminToken}`);
+    const zone = zones.body.data.find((z: any) => z.id === zoneId);
+    expect(zone.stationCount).toBe(1);
+    expect(zone.stations[0].id).toBe(stationId);
+  });
+
+  it('should reject an unknown zone on a station', async () => {
+    const res = await request(app)
+      .put(`/stations/${stationId}`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ priceZoneId: '00000000-0000-4000-8000-000000000000' });
+
+    expect(res.status).toBe(400);
+    expect(res.body.error.code).toBe('BIZ_INVALID_PRICE_ZONE');
+  });
+});
+
+describe('Scoped prices', () => {
+  it('should create a zone price', async () => {
+    const res = await request(app)
+      .post('/prices')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ fuelType: 'GASOIL', price: randomPrice(), effectiveDate: getFutureDate(40), priceZoneId: zoneId });
+
+    expect(res.status).toBe(201);
+    expect(res.body.data.priceZoneId).toBe(zoneId);
+    expect(res.body.data.stationId).toBeNull();
+  });
+
+  it('should allow a national and a station price on the same date', async () => {
+    const effectiveDate = getFutureDate(41);
+    const national = await request(app)
+      .post('/prices')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ fuelType: 'ESSENCE', price: randomPrice(), effectiveDate });
+    const station = await request(app)
+      .post('/prices')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ fuelType: 'ESSENCE', price: randomPrice(), effectiveDate, stationId });
+
+    expect(national.status).toBe(201);
+    expect(station.status).toBe(201);
+    expect(station.body.data.stationId).toBe(stationId);
+
+    const dup = await request(app)
+      .post('/prices')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ fuelType: 'ESSENCE', price: randomPrice(), effectiveDate, stationId });
+    expect(dup.status).toBe(409);
+  });
+
+  it('should reject a price scoped to both a zone and a station', async () => {
+    const res = await request(app)
+      .post('/prices')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ fuelType: 'GASOIL', price: randomPrice(), effectiveDate: getFutureDate(42), priceZoneId: zoneId, stationId });
+
+    expect(res.status).toBe(400);
+  });
+
+  it('should reject an unknown zone', async () => {
+    const res = await request(app)
+      .post('/prices')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({
+        fuelType: 'GASOIL',
+        price: randomPrice(),
+        effectiveDate: getFutureDate(43),
+        priceZoneId: '00000000-0000-4000-8000-000000000000',
+      });
+
+    expect(res.status).toBe(400);
+    expect(res.body.error.code).toBe('BIZ_INVALID_PRICE_SCOPE');
+  });
+
+  it('should filter the price list by zone, including its stations', async () => {
+    const res = await request(app)
+      .get('/prices')
+      .query({ priceZoneId: zoneId })
+      .set('Authorization', `Bearer ${adminToken}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.length).toBeGreaterThanOrEqual(2);
+    for (const p of res.body.data) {
+      expect(p.priceZoneId === zoneId || p.station?.id === stationId).toBe(true);
+    }
+  });
+
+  it('should only return the zone prices in its history', async () => {
+    const res = await request(app)
+      .get('/prices/history')
+      .query({ priceZoneId: zoneId, months: 24 })
+      .set('Authorization', `Bearer ${adminToken}`);
+
+    expect(res.status).toBe(200);
+    // Pending zone prices are not part of the approved history
+    expect(res.body.data).toEqual([]);
+  });
+
+  it('should fall back to national prices for a station without its own', async () => {
+    const [station, national] = await Promise.all([
+      request(app).get('/prices/active').query({ stationId }).set('Authorization', `Bearer ${adminToken}`),
+      request(app).get('/prices/active').set('Authorization', `Bearer ${adminToken}`),
+    ]);
+
+    expect(station.status).toBe(200);
+    // Zone and station prices above are still pending
+    expect(station.body.data.GASOIL?.id).toBe(national.body.data.GASOIL?.id);
+    expect(station.body.data.ESSENCE?.id).toBe(national.body.data.ESSENCE?.id);
+  });
+});
@@ -0,0 +1,210 @@
+/**
+ * Shop Product Integration Tests
+ *
+ * Tests for:
+ * - Product catalog management
+ * - Supplier receipts into a station's stock
+ * - Counted stock and sales at shift close, included in the shift revenue
+ * - Low-stock alert once the stock falls to the reorder level
+ *
+ * Requires seeded database (npx tsx prisma/seed.ts).
+ */
+import { describe, it, expect, beforeAll } from 'vitest';
+import request from 'supertest';
+import app from '../index';
+import { processMonitorProductStock } from '../jobs/product-stock-monitor.job';
+
+// ─── helpers ──────────────────────────────────────────────────────
+
+let adminToken: string;
+let managerToken: string;
+let stationId: string;
+let otherStationId: string;
+let supplierId: string;
+let shiftId: string;
+let product: any;
+let stockLine: any;
+
+/** Login helper — returns access token */
+async function login(email: string, password = 'Alcom2026!'): Promise<string> {
+  const res = await request(app)
+    .post('/auth/login')
+    .send({ email, password });
+  if (res.status !== 200 || !res.body?.data?.accessToken) {
+    throw new Error(`Login failed for ${email}: ${res.status} ${JSON.stringify(res.body)}`);
+  }
+  return res.body.data.accessToken;
+}
+
+async function getShift(id: string) {
+  const res = await request(app)
+    .get(`/shifts/${id}`)
+    .set('Authorization', `Bearer ${managerToken}`);
+  return res.body.data;
+}
+
+// ─── setup ────────────────────────────────────────────────────────
+
+beforeAll(async () => {
+  adminToken = await login('admin@alcom.cm');
+  managerToken = await login('manager1@alcom.cm');
+
+  const me = await request(app).get('/auth/me').set('Authorization', `Bearer ${managerToken}`);
+  stationId = me.body.data.assignedStationId;
+
+  const stations = await request(app)
+    .get('/stations')
+    .query({ limit: 100 })
+    .set('Authorization', `Bearer ${adminToken}`);
+  otherStationId = stations.body.data.find((s: any) => s.id !== stationId).id;
+
+  const suppliers = await request(app)
+    .get('/suppliers')
+    .set('Authorization', `Bearer ${managerToken}`);
+  supplierId = suppliers.body.data[0].id;
+
+  let current = await request(app)
+    .get('/shifts/current')
+    .query({ stationId })
+    .set('Authorization', `Bearer ${managerToken}`);
+
+  if (!current.body.data) {
+    await request(app)
+      .post('/shifts/open')
+      .set('Authorization', `Bearer ${managerToken}`)
+      .send({ stationId, shiftDate: '2030-04-02', shiftType: 'MORNING' });
+    current = await request(app)
+      .get('/shifts/current')
+      .query({ stationId })
+      .set('Authorization', `Bearer ${managerToken}`);
+  }
+  shiftId = current.body.data.id;
+}, 30_000);
+
+// ══════════════════════════════════════════════════════════════════
+//  Tests
+// ══════════════════════════════════════════════════════════════════
+
+describe('Shop products', () => {
+  it('should add a product to the catalog', async () => {
+    const res = await request(app)
+      .post('/products')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ sku: `LUB-${Date.now()}`, name: 'Huile moteur 15W40 1L', category: 'LUBRICANT', unit: 'bidon', unitPrice: 4500 });
+
+    expect(res.status).toBe(201);
+    expect(res.body.data.isActive).toBe(true);
+    product = res.body.data;
+  });
+
+  it('should reject a duplicate SKU', async () => {
+    const res = await request(app)
+      .post('/products')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ sku: product.sku, name: 'Doublon', category: 'SHOP', unitPrice: 100 });
+
+    expect(res.status).toBe(409);
+  });
+
+  it('should not let a station manager edit the catalog', async () => {
+    const res = await request(app)
+      .put(`/products/${product.id}`)
+      .set('Authorization', `Bearer ${managerToken}`)
+      .send({ unitPrice: 1 });
+
+    expect(res.status).toBe(403);
+  });
+
+  it('should only let the manager receive stock at their own station', async () => {
+    const res = await request(app)
+      .post('/products/receipts')
+      .set('Authorization', `Bearer ${managerToken}`)
+      .send({ stationId: otherStationId, productId: product.id, supplierId, quantity: 10, unitCost: 3200 });
+
+    expect(res.status).toBe(403);
+  });
+
+  it('should receive stock and count it on the open shift', async () => {
+    const res = await request(app)
+      .post('/products/receipts')
+      .set('Authorization', `Bearer ${managerToken}`)
+      .send({ stationId, productId: product.id, supplierId, quantity: 10, unitCost: 3200, reference: 'BL-778' });
+
+    expect(res.status).toBe(201);
+    expect(res.body.data.shiftReportId).toBe(shiftId);
+    expect(res.body.data.supplier.id).toBe(supplierId);
+
+    const stock = await request(app)
+      .get('/products/stock')
+      .set('Authorization', `Bearer ${managerToken}`);
+    stockLine = stock.body.data.find((s: any) => s.productId === product.id);
+    expect(Number(stockLine.quantity)).toBe(10);
+    expect(stockLine.isLowStock).toBe(false);
+
+    const shift = await getShift(shiftId);
+    const line = shift.productSales.find((p: any) => p.productId === product.id);
+    expect(Number(line.openingStock)).toBe(0);
+    expect(Number(line.receipts)).toBe(10);
+    expect(Number(line.unitPrice)).toBe(4500);
+  });
+
+  it('should set the reorder level of the stock line', async () => {
+    const res = await request(app)
+      .put(`/products/stock/${stockLine.id}`)
+      .set('Authorization', `Bearer ${managerToken}`)
+      .send({ reorderLevel: 8 });
+
+    expect(res.status).toBe(200);
+    expect(Number(res.body.data.reorderLevel)).toBe(8);
+  });
+
+  it('should add shop sales to the shift revenue at close', async () => {
+    const s = await getShift(shiftId);
+
+    const res = await request(app)
+      .post(`/shifts/${shiftId}/close`)
+      .set('Authorization', `Bearer ${managerToken}`)
+      .send({
+        sales: s.sales.map((x: any) => ({ nozzleId: x.nozzleId, closingIndex: Number(x.openingIndex) })),
+        tankDips: s.tankDips.map((d: any) => ({
+          tankId: d.tankId,
+          physicalLevel: Number(d.openingLevel) + Number(d.deliveries) + Number(d.transfers),
+        })),
+        products: s.productSales.map((p: any) =>
+          p.productId === product.id
+            ? { productId: p.productId, quantitySold: 3, countedStock: 6 }
+            : { productId: p.productId, quantitySold: 0, countedStock: Number(p.openingStock) + Number(p.receipts) },
+        ),
+        cash: { counted: 13500, card: 0, expenses: 0 },
+        justification: 'Test shop sales',
+      });
+
+    expect(res.status).toBe(200);
+    const line = res.body.data.productSales.find((p: any) => p.productId === product.id);
+    expect(Number(line.revenue)).toBe(13500);
+    expect(Number(line.stockVariance)).toBe(-1);
+    expect(Number(res.body.data.shopRevenue)).toBeGreaterThanOrEqual(13500);
+    expect(Number(res.body.data.totalRevenue)).toBeGreaterThanOrEqual(Number(res.body.data.shopRevenue));
+
+    const stock = await request(app)
+      .get('/products/stock')
+      .query({ lowStock: 'true' })
+      .set('Authorization', `Bearer ${managerToken}`);
+    const low = stock.body.data.find((x: any) => x.productId === product.id);
+    expect(Number(low.quantity)).toBe(6);
+  });
+
+  it('should alert once when the stock is at or below the reorder level', async () => {
+    const first = await processMonitorProductStock();
+    expect(first.alertsRaised).toBeGreaterThanOrEqual(1);
+    expect(first.notificationsSent).toBeGreaterThanOrEqual(1);
+
+    const notifications = await request(app)
+      .get('/notifications')
+      .set('Authorization', `Bearer ${managerToken}`);
+    expect(notifications.body.data.some((n: any) => n.type === 'LOW_PRODUCT_STOCK_ALERT')).toBe(true);
+
+    const second = await processMonitorProductStock();
+    expect(second.alertsRaised).toBe(0);
+  });
+});
@@ -0,0 +1,283 @@
+/**
+ * Purchase Order Integration Tests
+ *
+ * Tests for:
+ * - Purchase orders issued from validated replenishment requests
+ * - Single-request ordering from the replenishment workflow
+ * - Cancellation returning the requests to VALIDATED
+ * - Three-way match (order / receipt / invoice) blocking invoice approval
+ *
+ * Requires seeded database (npx tsx prisma/seed.ts).
+ */
+import { describe, it, expect, beforeAll } from 'vitest';
+import request from 'supertest';
+import app from '../index';
+
+// ─── helpers ──────────────────────────────────────────────────────
+
+let adminToken: string;
+let managerToken: string;
+let financeDirToken: string;
+let stationId: string;
+let supplierId: string;
+
+/** Login helper — returns access token */
+async function login(email: string, password = 'Alcom2026!'): Promise<string> {
+  const res = await request(app)
+    .post('/auth/login')
+    .send({ email, password });
+  if (res.status !== 200 || !res.body?.data?.accessToken) {
+    throw new Error(`Login failed for ${email}: ${res.status} ${JSON.stringify(res.body)}`);
+  }
+  return res.body.data.accessToken;
+}
+
+/** Create a replenishment request and take it through submit and validate */
+async function createValidatedRequest(fuelType: string, requestedVolume: number): Promise<string> {
+  const created = await request(app)
+    .post('/deliveries/requests')
+    .set('Authorization', `Bearer ${managerToken}`)
+    .send({ stationId, fuelType, requestedVolume });
+  if (created.status !== 201) {
+    throw new Error(`Failed to create request: ${created.status} ${JSON.stringify(created.body)}`);
+  }
+  const id = created.body.data.id;
+
+  await request(app)
+    .put(`/deliveries/requests/${id}/submit`)
+    .set('Authorization', `Bearer ${managerToken}`);
+  await request(app)
+    .put(`/deliveries/requests/${id}/validate`)
+    .set('Authorization', `Bearer ${adminToken}`)
+    .send({});
+  return id;
+}
+
+async function createInvoice(purchaseOrderId: string, lines: { fuelType: string; quantity: number; unitPrice: number }[]) {
+  const dueDate = new Date();
+  dueDate.setDate(dueDate.getDate() + 30);
+
+  return request(app)
+    .post('/invoices')
+    .set('Authorization', `Bearer ${adminToken}`)
+    .send({
+      supplierId,
+      invoiceNumber: `INV-PO-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`,
+      amount: lines.reduce((sum, l) => sum + l.quantity * l.unitPrice, 0),
+      dueDate: dueDate.toISOString().split('T')[0],
+      fileUrl: '/test/invoice.pdf',
+      purchaseOrderId,
+      lines,
+    });
+}
+
+// ─── setup ────────────────────────────────────────────────────────
+
+beforeAll(async () => {
+  adminToken = await login('admin@alcom.cm');
+  managerToken = await login('manager1@alcom.cm');
+  financeDirToken = await login('financedir@alcom.cm');
+
+  const me = await request(app).get('/auth/me').set('Authorization', `Bearer ${managerToken}`);
+  stationId = me.body.data.assignedStationId;
+
+  const supplier = await request(app)
+    .post('/suppliers')
+    .set('Authorization', `Bearer ${adminToken}`)
+    .send({
+      name: `Fuel Supplier PO ${Date.now()}`,
+      taxId: `NIU-PO-${Date.now()}`,
+      email: 'po-supplier@test.cm',
+      phone: '+237 699 999 999',
+      category: 'FUEL_SUPPLY',
+    });
+  supplierId = supplier.body.data.id;
+}, 30_000);
+
+// ══════════════════════════════════════════════════════════════════
+//   Issuing purchase orders
+// ══════════════════════════════════════════════════════════════════
+
+describe('POST /purchase-orders', () => {
+  it('groups validated requests per fuel type and moves them to ORDERED', async () => {
+    const first = await createValidatedRequest('GASOIL', 1000);
+    const second = await createValidatedRequest('GASOIL', 500);
+    const third = await createValidatedRequest('ESSENCE', 800);
+
+    const res = await request(app)
+      .post('/purchase-orders')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({
+        supplierId,
+        replenishmentRequestIds: [first, second, third],
+        prices: [
+          { fuelType: 'GASOIL', unitPrice: 600 },
+          { fuelType: 'ESSENCE', unitPrice: 650 },
+        ],
+      });
+
+    expect(res.status).toBe(201);
+    expect(res.body.data.poNumber).toMatch(/^BC-/);
+    expect(res.body.data.status).toBe('ISSUED');
+    expect(Number(res.body.data.totalAmount)).toBe(1500 * 600 + 800 * 650);
+
+    const gasoil = res.body.data.lines.find((l: any) => l.fuelType === 'GASOIL');
+    expect(Number(gasoil.volume)).toBe(1500);
+
+    const req = await request(app)
+      .get(`/deliveries/requests/${first}`)
+      .set('Authorization', `Bearer ${adminToken}`);
+    expect(req.body.data.status).toBe('ORDERED');
+    expect(req.body.data.purchaseOrder.id).toBe(res.body.data.id);
+  });
+
+  it('rejects a fuel type without a unit price', async () => {
+    const id = await createValidatedRequest('PETROLE', 400);
+
+    const res = await request(app)
+      .post('/purchase-orders')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ supplierId, replenishmentRequestIds: [id], prices: [{ fuelType: 'GASOIL', unitPrice: 600 }] });
+
+    expect(res.status).toBe(400);
+    expect(res.body.error.code).toBe('BIZ_PO_PRICE_MISSING');
+  });
+
+  it('rejects a request that is already ordered', async () => {
+    const id = await createValidatedRequest('GASOIL', 300);
+    const body = { supplierId, replenishmentRequestIds: [id], prices: [{ fuelType: 'GASOIL', unitPrice: 600 }] };
+
+    await request(app).post('/purchase-orders').set('Authorization', `Bearer ${adminToken}`).send(body);
+    const res = await request(app).post('/purchase-orders').set('Authorization', `Bearer ${adminToken}`).send(body);
+
+    expect(res.status).toBe(409);
+    expect(res.body.error.code).toBe('BIZ_REQUEST_NOT_ORDERABLE');
+  });
+
+  it('forbids station managers from issuing orders', async () => {
+    const res = await request(app)
+      .post('/purchase-orders')
+      .set('Authorization', `Bearer ${managerToken}`)
+      .send({ supplierId, replenishmentRequestIds: [stationId], prices: [{ fuelType: 'GASOIL', unitPrice: 600 }] });
+
+    expect(res.status).toBe(403);
+  });
+});
+
+describe('PUT /deliveries/requests/:id/order', () => {
+  it('issues a single-request purchase order', async () => {
+    const id = await createValidatedRequest('GASOIL', 700);
+
+    const res = await request(app)
+      .put(`/deliveries/requests/${id}/order`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ supplierId, unitPrice: 610 });
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.status).toBe('ORDERED');
+    expect(Number(res.body.data.purchaseOrder.totalAmount)).toBe(700 * 610);
+  });
+
+  it('requires a supplier and a unit price', async () => {
+    const id = await createValidatedRequest('GASOIL', 700);
+
+    const res = await request(app)
+      .put(`/deliveries/requests/${id}/order`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({});
+
+    expect(res.status).toBe(400);
+  });
+});
+
+describe('PUT /purchase-orders/:id/cancel', () => {
+  it('returns the requests to VALIDATED', async () => {
+    const id = await createValidatedRequest('GASOIL', 600);
+    const order = await request(app)
+      .post('/purchase-orders')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ supplierId, replenishmentRequestIds: [id], prices: [{ fuelType: 'GASOIL', unitPrice: 600 }] });
+
+    const res = await request(app)
+      .put(`/purchase-orders/${order.body.data.id}/cancel`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ reason: 'Supplier out of stock this week' });
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.status).toBe('CANCELLED');
+
+    const req = await request(app)
+      .get(`/deliveries/requests/${id}`)
+      .set('Authorization', `Bearer ${adminToken}`);
+    expect(req.body.data.status).toBe('VALIDATED');
+    expect(req.body.data.purchaseOrder).toBeNull();
+  });
+});
+
+// ══════════════════════════════════════════════════════════════════
+//   Three-way match on invoice approval
+// ══════════════════════════════════════════════════════════════════
+
+describe('Three-way match', () => {
+  let purchaseOrderId: string;
+
+  beforeAll(async () => {
+    const id = await createValidatedRequest('GASOIL', 1000);
+    const order = await request(app)
+      .post('/purchase-orders')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ supplierId, replenishmentRequestIds: [id], prices: [{ fuelType: 'GASOIL', unitPrice: 600 }] });
+    purchaseOrderId = order.body.data.id;
+  });
+
+  it('requires invoice lines when billing against a purchase order', async () => {
+    const res = await createInvoice(purchaseOrderId, []);
+
+    expect(res.status).toBe(400);
+  });
+
+  it('flags an invoice billing fuel that was not received', async () => {
+    const res = await createInvoice(purchaseOrderId, [{ fuelType: 'GASOIL', quantity: 1000, unitPrice: 600 }]);
+
+    expect(res.status).toBe(201);
+    expect(res.body.data.matchStatus).toBe('MISMATCH');
+    expect(res.body.data.threeWayMatch.lines[0].quantityMatched).toBe(false);
+    expect(res.body.data.threeWayMatch.lines[0].priceMatched).toBe(true);
+  });
+
+  it('blocks approval of a mismatched invoice', async () => {
+    const invoice = await createInvoice(purchaseOrderId, [{ fuelType: 'GASOIL', quantity: 1000, unitPrice: 650 }]);
+
+    const res = await request(app)
+      .put(`/invoices/${invoice.body.data.id}/approve`)
+      .set('Authorization', `Bearer ${financeDirToken}`)
+      .send({});
+
+    expect(res.status).toBe(409);
+    expect(res.body.error.code).toBe('BIZ_THREE_WAY_MISMATCH');
+    expect(res.body.error.details.threeWayMatch.matched).toBe(false);
+  });
+
+  it('only lets the CFO or CEO override a mismatch', async () => {
+    const invoice = await createInvoice(purchaseOrderId, [{ fuelType: 'GASOIL', quantity: 1000, unitPrice: 600 }]);
+    const overrideReason = 'Delivery confirmed by phone, dips to be recorded';
+
+    const denied = await request(app)
+      .put(`/invoices/${invoice.body.data.id}/approve`)
+      .set('Authorization', `Bearer ${financeDirToken}`)
+      .send({ overrideReason });
+    expect(denied.status).toBe(403);
+
+    const res = await request(app)
+      .put(`/invoices/${invoice.body.data.id}/approve`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ overrideReason });
+    expect(res.status).toBe(200);
+
+    const detail = await request(app)
+      .get(`/invoices/${invoice.body.data.id}`)
+      .set('Authorization', `Bearer ${adminToken}`);
+    expect(detail.body.data.matchStatus).toBe('MISMATCH');
+    expect(detail.body.data.approvals[0].comment).toContain('Three-way match override');
+  });
+});
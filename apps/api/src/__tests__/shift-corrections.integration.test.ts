@@ -0,0 +1,180 @@
+/**
+ * Shift Correction API Integration Tests
+ *
+ * Tests for:
+ * - Proposing corrected readings for a CLOSED shift, with recomputed diff
+ * - Segregation of duties (proposer cannot approve)
+ * - Approval cascading the corrected closing index into the next shift
+ *
+ * Requires seeded database (npx tsx prisma/seed.ts).
+ */
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import request from 'supertest';
+import app from '../index';
+import { prisma } from '../lib/prisma';
+
+// ─── helpers ──────────────────────────────────────────────────────
+
+let managerToken: string;
+let cfoToken: string;
+let shiftId: string;
+let nextShiftId: string | null = null;
+let nozzleId: string;
+let closingIndex: number;
+let correctionId: string;
+const createdCorrections: string[] = [];
+
+/** Login helper — returns access token */
+async function login(email: string, password = 'Alcom2026!'): Promise<string> {
+  const res = await request(app)
+    .post('/auth/login')
+    .send({ email, password });
+  if (res.status !== 200 || !res.body?.data?.accessToken) {
+    throw new Error(`Login failed for ${email}: ${res.status} ${JSON.stringify(res.body)}`);
+  }
+  return res.body.data.accessToken;
+}
+
+/** Propose then approve a closing index, returning the approval response */
+async function correctClosingIndex(value: number) {
+  const proposed = await request(app)
+    .post(`/shifts/${shiftId}/corrections`)
+    .set('Authorization', `Bearer ${managerToken}`)
+    .send({
+      sales: [{ nozzleId, closingIndex: value }],
+      justification: 'Index corrected after meter check',
+      reason: 'Closing index was mistyped at close',
+    });
+  createdCorrections.push(proposed.body.data.id);
+
+  return request(app)
+    .put(`/shifts/corrections/${proposed.body.data.id}/approve`)
+    .set('Authorization', `Bearer ${cfoToken}`)
+    .send({});
+}
+
+// ─── setup ────────────────────────────────────────────────────────
+
+beforeAll(async () => {
+  managerToken = await login('manager1@alcom.cm');
+  cfoToken = await login('cfo@alcom.cm');
+
+  const manager = await prisma.user.findUnique({ where: { email: 'manager1@alcom.cm' } });
+  const shift = await prisma.shiftReport.findFirst({
+    where: { stationId: manager!.assignedStationId!, status: 'CLOSED' },
+    include: { sales: true },
+    orderBy: { createdAt: 'desc' },
+  });
+  if (!shift || shift.sales.length === 0) throw new Error('No closed shift found in seed');
+
+  shiftId = shift.id;
+  nozzleId = shift.sales[0]!.nozzleId;
+  closingIndex = Number(shift.sales[0]!.closingIndex);
+
+  const next = await prisma.shiftReport.findFirst({
+    where: { stationId: shift.stationId, createdAt: { gt: shift.createdAt } },
+    orderBy: { createdAt: 'asc' },
+  });
+  nextShiftId = next?.id ?? null;
+}, 30_000);
+
+afterAll(async () => {
+  await prisma.auditLog.deleteMany({
+    where: { entityType: 'ShiftReport', entityId: shiftId, action: { startsWith: 'SHIFT_CORRECTION' } },
+  });
+  await prisma.shiftCorrection.deleteMany({ where: { id: { in: createdCorrections } } });
+  await prisma.$disconnect();
+});
+
+// ══════════════════════════════════════════════════════════════════
+//  Tests
+// ══════════════════════════════════════════════════════════════════
+
+describe('Shift corrections', () => {
+  it('should require a reason', async () => {
+    const res = await request(app)
+      .post(`/shifts/${shiftId}/corrections`)
+      .set('Authorization', `Bearer ${managerToken}`)
+      .send({ cash: { counted: 1000 }, reason: 'typo' });
+
+    expect(res.status).toBe(400);
+  });
+
+  it('should propose a correction with a recomputed diff', async () => {
+    const res = await request(app)
+      .post(`/shifts/${shiftId}/corrections`)
+      .set('Authorization', `Bearer ${managerToken}`)
+      .send({
+        sales: [{ nozzleId, closingIndex: closingIndex + 10 }],
+        justification: 'Index corrected after meter check',
+        reason: 'Closing index was mistyped at close',
+      });
+
+    expect(res.status).toBe(201);
+    expect(res.body.data.status).toBe('PENDING');
+    expect(res.body.data.diff.sales).toHaveLength(1);
+    expect(res.body.data.diff.sales[0].closingIndex).toEqual({ before: closingIndex, after: closingIndex + 10 });
+    expect(res.body.data.diff.totals.totalRevenue.after).toBeGreaterThan(res.body.data.diff.totals.totalRevenue.before);
+    correctionId = res.body.data.id;
+    createdCorrections.push(correctionId);
+  });
+
+  it('should reject a second pending correction', async () => {
+    const res = await request(app)
+      .post(`/shifts/${shiftId}/corrections`)
+      .set('Authorization', `Bearer ${managerToken}`)
+      .send({ cash: { counted: 1000 }, reason: 'Cash count was wrong' });
+
+    expect(res.status).toBe(409);
+  });
+
+  it('should forbid the proposer from approving', async () => {
+    const res = await request(app)
+      .put(`/shifts/corrections/${correctionId}/approve`)
+      .set('Authorization', `Bearer ${managerToken}`)
+      .send({});
+
+    expect(res.status).toBe(403);
+  });
+
+  it('should reject a correction', async () => {
+    const res = await request(app)
+      .put(`/shifts/corrections/${correctionId}/reject`)
+      .set('Authorization', `Bearer ${cfoToken}`)
+      .send({ reason: 'Meter photo does not match' });
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.status).toBe('REJECTED');
+
+    const sale = await prisma.shiftSale.findFirst({ where: { shiftReportId: shiftId, nozzleId } });
+    expect(Number(sale!.closingIndex)).toBe(closingIndex);
+  });
+
+  it('should apply an approved correction and cascade it to the next shift', async () => {
+    const res = await correctClosingIndex(closingIndex + 10);
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.status).toBe('APPROVED');
+
+    const sale = await prisma.shiftSale.findFirst({ where: { shiftReportId: shiftId, nozzleId } });
+    expect(Number(sale!.closingIndex)).toBe(closingIndex + 10);
+
+    if (nextShiftId) {
+      const nextSale = await prisma.shiftSale.findFirst({ where: { shiftReportId: nextShiftId, nozzleId } });
+      expect(Number(nextSale!.openingIndex)).toBe(closingIndex + 10);
+    }
+
+    const audit = await prisma.auditLog.findFirst({
+      where: { entityType: 'ShiftReport', entityId: shiftId, action: 'SHIFT_CORRECTION_APPROVED' },
+    });
+    expect(audit).not.toBeNull();
+  });
+
+  it('should restore the original closing index', async () => {
+    const res = await correctClosingIndex(closingIndex);
+
+    expect(res.status).toBe(200);
+    const sale = await prisma.shiftSale.findFirst({ where: { shiftReportId: shiftId, nozzleId } });
+    expect(Number(sale!.closingIndex)).toBe(closingIndex);
+  });
+});
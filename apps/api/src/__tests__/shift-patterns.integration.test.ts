@@ -0,0 +1,129 @@
+/**
+ * Shift Pattern Integration Tests
+ *
+ * Tests for:
+ * - Station shift pattern settings (defaults, validation)
+ * - Opening shifts and submitting checklists against the station's patterns
+ *
+ * Requires seeded database (npx tsx prisma/seed.ts).
+ */
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import request from 'supertest';
+import app from '../index';
+import { prisma } from '../lib/prisma';
+
+// ─── helpers ──────────────────────────────────────────────────────
+
+let adminToken: string;
+let stationId: string;
+let originalSettings: unknown;
+
+/** Login helper — returns access token */
+async function login(email: string, password = 'Alcom2026!'): Promise<string> {
+  const res = await request(app)
+    .post('/auth/login')
+    .send({ email, password });
+  if (res.status !== 200 || !res.body?.data?.accessToken) {
+    throw new Error(`Login failed for ${email}: ${res.status} ${JSON.stringify(res.body)}`);
+  }
+  return res.body.data.accessToken;
+}
+
+const threeShifts = [
+  { code: 'MORNING', name: 'Matin', startTime: '06:00', endTime: '14:00', crossesMidnight: false },
+  { code: 'AFTERNOON', name: 'Après-midi', startTime: '14:00', endTime: '22:00', crossesMidnight: false },
+  { code: 'NIGHT', name: 'Nuit', startTime: '22:00', endTime: '06:00', crossesMidnight: true },
+];
+
+// ─── setup ────────────────────────────────────────────────────────
+
+beforeAll(async () => {
+  adminToken = await login('admin@alcom.cm');
+
+  const manager = await prisma.user.findUnique({ where: { email: 'manager1@alcom.cm' } });
+  stationId = manager!.assignedStationId!;
+  const station = await prisma.station.findUnique({ where: { id: stationId } });
+  originalSettings = station!.settings;
+}, 30_000);
+
+afterAll(async () => {
+  await prisma.station.update({
+    where: { id: stationId },
+    data: { settings: originalSettings as object },
+  });
+  await prisma.$disconnect();
+});
+
+// ══════════════════════════════════════════════════════════════════
+//  Tests
+// ══════════════════════════════════════════════════════════════════
+
+describe('Shift patterns', () => {
+  it('should default to morning and evening shifts', async () => {
+    const res = await request(app)
+      .get(`/stations/${stationId}/settings`)
+      .set('Authorization', `Bearer ${adminToken}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.settings.shiftPatterns.map((p: { code: string }) => p.code)).toEqual([
+      'MORNING',
+      'EVENING',
+    ]);
+  });
+
+  it('should reject a pattern whose midnight crossing does not match its hours', async () => {
+    const res = await request(app)
+      .put(`/stations/${stationId}/settings`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ shiftPatterns: [{ ...threeShifts[2], crossesMidnight: false }] });
+
+    expect(res.status).toBe(400);
+  });
+
+  it('should reject duplicate shift codes', async () => {
+    const res = await request(app)
+      .put(`/stations/${stationId}/settings`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ shiftPatterns: [threeShifts[0], threeShifts[0]] });
+
+    expect(res.status).toBe(400);
+  });
+
+  it('should save three 8-hour shifts', async () => {
+    const res = await request(app)
+      .put(`/stations/${stationId}/settings`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ shiftPatterns: threeShifts });
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.settings.shiftPatterns).toHaveLength(3);
+  });
+
+  it('should reject opening a shift type the station does not run', async () => {
+    const res = await request(app)
+      .post('/shifts/open')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ stationId, shiftDate: '2030-02-01', shiftType: 'EVENING' });
+
+    expect(res.status).toBe(400);
+    expect(res.body.error.code).toBe('BIZ_INVALID_SHIFT_TYPE');
+    expect(res.body.error.details.allowed).toEqual(['MORNING', 'AFTERNOON', 'NIGHT']);
+  });
+
+  it('should reject a checklist for a shift type the station does not run', async () => {
+    const template = await prisma.checklistTemplate.findFirst({ where: { isActive: true } });
+    const res = await request(app)
+      .post('/checklists')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({
+        stationId,
+        templateId: template!.id,
+        shiftDate: '2030-02-01',
+        shiftType: 'EVENING',
+        items: [{ itemId: 'x', status: 'CONFORME' }],
+      });
+
+    expect(res.status).toBe(400);
+    expect(res.body.error.code).toBe('BIZ_INVALID_SHIFT_TYPE');
+  });
+});
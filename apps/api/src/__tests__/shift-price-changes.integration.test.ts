@@ -0,0 +1,181 @@
+/**
+ * Mid-shift Price Change Integration Tests
+ *
+ * Tests for:
+ * - Meter-reading checkpoint requested on open shifts when a price becomes effective
+ * - Shift close blocked until the readings are recorded
+ * - Sales split into price segments and billed per segment at close
+ *
+ * Requires seeded database (npx tsx prisma/seed.ts).
+ */
+import { describe, it, expect, beforeAll } from 'vitest';
+import request from 'supertest';
+import app from '../index';
+
+// ─── helpers ──────────────────────────────────────────────────────
+
+let adminToken: string;
+let cfoToken: string;
+let managerToken: string;
+let stationId: string;
+let shift: any;
+let changeId: string;
+const newPrice = 800 + Math.floor(Math.random() * 100);
+
+/** Login helper — returns access token */
+async function login(email: string, password = 'Alcom2026!'): Promise<string> {
+  const res = await request(app)
+    .post('/auth/login')
+    .send({ email, password });
+  if (res.status !== 200 || !res.body?.data?.accessToken) {
+    throw new Error(`Login failed for ${email}: ${res.status} ${JSON.stringify(res.body)}`);
+  }
+  return res.body.data.accessToken;
+}
+
+async function getShift() {
+  const res = await request(app)
+    .get(`/shifts/${shift.id}`)
+    .set('Authorization', `Bearer ${managerToken}`);
+  return res.body.data;
+}
+
+function essenceSales(s: any) {
+  const essenceTanks = s.tankDips.filter((d: any) => d.tank.fuelType === 'ESSENCE').map((d: any) => d.tank.id);
+  return s.sales.filter((sale: any) => essenceTanks.includes(sale.nozzle.pump.tankId));
+}
+
+function closingPayload(s: any) {
+  return {
+    sales: s.sales.map((sale: any) => ({
+      nozzleId: sale.nozzleId,
+      closingIndex: Number(sale.openingIndex) + 100,
+    })),
+    tankDips: s.tankDips.map((d: any) => ({
+      tankId: d.tankId,
+      physicalLevel: Number(d.openingLevel),
+    })),
+    cash: { counted: 0, card: 0, expenses: 0 },
+    justification: 'Test mid-shift price change',
+  };
+}
+
+// ─── setup ────────────────────────────────────────────────────────
+
+beforeAll(async () => {
+  adminToken = await login('admin@alcom.cm');
+  cfoToken = await login('cfo@alcom.cm');
+  managerToken = await login('manager1@alcom.cm');
+
+  const me = await request(app).get('/auth/me').set('Authorization', `Bearer ${managerToken}`);
+  stationId = me.body.data.assignedStationId;
+
+  let current = await request(app)
+    .get('/shifts/current')
+    .query({ stationId })
+    .set('Authorization', `Bearer ${managerToken}`);
+
+  if (!current.body.data) {
+    await request(app)
+      .post('/shifts/open')
+      .set('Authorization', `Bearer ${managerToken}`)
+      .send({ stationId, shiftDate: '2030-01-17', shiftType: 'MORNING' });
+    current = await request(app)
+      .get('/shifts/current')
+      .query({ stationId })
+      .set('Authorization', `Bearer ${managerToken}`);
+  }
+  shift = current.body.data;
+  shift = await getShift();
+
+  // Station price effective in a moment, approved once effective
+  const created = await request(app)
+    .post('/prices')
+    .set('Authorization', `Bearer ${adminToken}`)
+    .send({
+      fuelType: 'ESSENCE',
+      price: newPrice,
+      effectiveDate: new Date(Date.now() + 2000).toISOString(),
+      stationId,
+    });
+  await new Promise((resolve) => setTimeout(resolve, 2500));
+  await request(app)
+    .put(`/prices/${created.body.data.id}/approve`)
+    .set('Authorization', `Bearer ${cfoToken}`)
+    .send({});
+}, 30_000);
+
+// ══════════════════════════════════════════════════════════════════
+//  Tests
+// ══════════════════════════════════════════════════════════════════
+
+describe('Mid-shift price change', () => {
+  it('should request a meter-reading checkpoint on the open shift', async () => {
+    const s = await getShift();
+    const pending = s.priceChanges.filter((c: any) => !c.recordedAt);
+
+    expect(pending).toHaveLength(1);
+    expect(pending[0].fuelType).toBe('ESSENCE');
+    expect(Number(pending[0].unitPrice)).toBe(newPrice);
+    changeId = pending[0].id;
+  });
+
+  it('should block the close until the readings are recorded', async () => {
+    const res = await request(app)
+      .post(`/shifts/${shift.id}/close`)
+      .set('Authorization', `Bearer ${managerToken}`)
+      .send(closingPayload(shift));
+
+    expect(res.status).toBe(409);
+    expect(res.body.error.code).toBe('BIZ_PRICE_CHANGE_PENDING');
+  });
+
+  it('should only accept readings of the fuel type whose price changed', async () => {
+    const other = shift.sales.find((sale: any) => !essenceSales(shift).includes(sale));
+    const res = await request(app)
+      .put(`/shifts/${shift.id}/price-changes/${changeId}`)
+      .set('Authorization', `Bearer ${managerToken}`)
+      .send({ readings: [{ nozzleId: other.nozzleId, meterIndex: Number(other.openingIndex) }] });
+
+    expect(res.status).toBe(400);
+    expect(res.body.error.code).toBe('BIZ_NOZZLE_NOT_IN_SHIFT');
+  });
+
+  it('should split the sales at the recorded readings', async () => {
+    const readings = essenceSales(shift).map((sale: any) => ({
+      nozzleId: sale.nozzleId,
+      meterIndex: Number(sale.openingIndex) + 40,
+    }));
+    const res = await request(app)
+      .put(`/shifts/${shift.id}/price-changes/${changeId}`)
+      .set('Authorization', `Bearer ${managerToken}`)
+      .send({ readings });
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.recordedAt).toBeTruthy();
+
+    const s = await getShift();
+    for (const sale of essenceSales(s)) {
+      expect(sale.segments).toHaveLength(2);
+      expect(Number(sale.segments[1].startIndex)).toBe(Number(sale.openingIndex) + 40);
+      expect(Number(sale.segments[1].unitPrice)).toBe(newPrice);
+    }
+  });
+
+  it('should bill each price segment at its own price at close', async () => {
+    const res = await request(app)
+      .post(`/shifts/${shift.id}/close`)
+      .set('Authorization', `Bearer ${managerToken}`)
+      .send(closingPayload(shift));
+
+    expect(res.status).toBe(200);
+
+    for (const sale of essenceSales(await getShift())) {
+      const [before, after] = sale.segments;
+      expect(Number(before.volumeSold)).toBe(40);
+      expect(Number(after.volumeSold)).toBe(60);
+      expect(Number(after.revenue)).toBe(60 * newPrice);
+      expect(Number(sale.revenue)).toBe(Number(before.revenue) + Number(after.revenue));
+    }
+  });
+});
@@ -3,6 +3,7 @@
  *
  * Tests for:
  * - Replenishment request creation with ullage check
+ * - Demand forecast per tank (days of cover, recommended order)
  * - Status transitions (submit, validate, order, complete)
  * - Delivery creation with BL validation
  * - Two-phase delivery (start/complete)
@@ -167,6 +168,35 @@ describe('Replenishment Request API', () => {
   });
 });
 
+describe('GET /deliveries/forecast — Demand Forecast', () => {
+  it('should plan the replenishment of each tank of the station', async () => {
+    const res = await request(app)
+      .get('/deliveries/forecast')
+      .query({ stationId: testStationId })
+      .set('Authorization', `Bearer ${adminToken}`);
+
+    expect(res.status).toBe(200);
+    const forecast = res.body.data.find((f: any) => f.tankId === testTankId);
+    expect(forecast).toBeDefined();
+    expect(['FORECAST', 'LOW_LEVEL']).toContain(forecast.basis);
+    expect(forecast.daily).toHaveLength(30);
+    // The recommended order fits the ullage in whole truck compartments
+    expect(forecast.recommendedVolume).toBeLessThanOrEqual(forecast.capacity);
+    if (forecast.basis === 'FORECAST') {
+      expect(forecast.recommendedVolume % forecast.settings.truckCompartmentVolume).toBe(0);
+    }
+  });
+
+  it('should restrict station managers to their own station', async () => {
+    const res = await request(app)
+      .get('/deliveries/forecast')
+      .set('Authorization', `Bearer ${managerToken}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.every((f: any) => f.stationId === testStationId)).toBe(true);
+  });
+});
+
 // ══════════════════════════════════════════════════════════════════
 //   FUEL DELIVERY TESTS
 // ══════════════════════════════════════════════════════════════════
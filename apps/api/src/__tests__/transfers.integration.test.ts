@@ -0,0 +1,188 @@
+/**
+ * Fuel Transfer Integration Tests
+ *
+ * Tests for:
+ * - Transfer request between tanks of the same fuel type
+ * - Approval by logistics (4-eyes principle)
+ * - Dispatch and reception dips adjusting both tank levels
+ * - Transfer volume recorded on the open shift's tank dip
+ *
+ * Requires seeded database (npx tsx prisma/seed.ts).
+ */
+import { describe, it, expect, beforeAll } from 'vitest';
+import request from 'supertest';
+import app from '../index';
+
+// ─── helpers ──────────────────────────────────────────────────────
+
+let managerToken: string;
+let logisticsToken: string;
+let dcoToken: string;
+let stationId: string;
+let sourceTank: any;
+let destinationTank: any;
+let transferId: string;
+
+/** Login helper — returns access token */
+async function login(email: string, password = 'Alcom2026!'): Promise<string> {
+  const res = await request(app)
+    .post('/auth/login')
+    .send({ email, password });
+  if (res.status !== 200 || !res.body?.data?.accessToken) {
+    throw new Error(`Login failed for ${email}: ${res.status} ${JSON.stringify(res.body)}`);
+  }
+  return res.body.data.accessToken;
+}
+
+async function getTank(id: string) {
+  const res = await request(app)
+    .get(`/tanks/${id}`)
+    .set('Authorization', `Bearer ${managerToken}`);
+  return res.body.data;
+}
+
+// ─── setup ────────────────────────────────────────────────────────
+
+beforeAll(async () => {
+  managerToken = await login('manager1@alcom.cm');
+  logisticsToken = await login('logistics@alcom.cm');
+  dcoToken = await login('dco@alcom.cm');
+
+  const me = await request(app).get('/auth/me').set('Authorization', `Bearer ${managerToken}`);
+  stationId = me.body.data.assignedStationId;
+
+  const tanks = await request(app)
+    .get('/tanks')
+    .set('Authorization', `Bearer ${managerToken}`);
+  sourceTank = tanks.body.data.find((t: any) => t.stationId === stationId && Number(t.currentLevel) >= 500);
+  destinationTank = tanks.body.data.find(
+    (t: any) =>
+      t.stationId !== stationId &&
+      t.fuelType === sourceTank.fuelType &&
+      Number(t.capacity) - Number(t.currentLevel) >= 500,
+  );
+}, 30_000);
+
+// ══════════════════════════════════════════════════════════════════
+//  Tests
+// ══════════════════════════════════════════════════════════════════
+
+describe('Fuel transfers', () => {
+  it('should reject a transfer into a tank of another fuel type', async () => {
+    const tanks = await request(app)
+      .get('/tanks')
+      .set('Authorization', `Bearer ${managerToken}`);
+    const other = tanks.body.data.find((t: any) => t.fuelType !== sourceTank.fuelType);
+
+    const res = await request(app)
+      .post('/transfers')
+      .set('Authorization', `Bearer ${managerToken}`)
+      .send({ sourceTankId: sourceTank.id, destinationTankId: other.id, requestedVolume: 100, reason: 'Tank maintenance' });
+
+    expect(res.status).toBe(400);
+    expect(res.body.error.code).toBe('BIZ_FUEL_TYPE_MISMATCH');
+  });
+
+  it('should request a transfer to another station', async () => {
+    const res = await request(app)
+      .post('/transfers')
+      .set('Authorization', `Bearer ${managerToken}`)
+      .send({
+        sourceTankId: sourceTank.id,
+        destinationTankId: destinationTank.id,
+        requestedVolume: 100,
+        reason: 'Stock rebalancing',
+        truckPlate: 'LT 123 AB',
+      });
+
+    expect(res.status).toBe(201);
+    expect(res.body.data.status).toBe('PENDING_APPROVAL');
+    expect(res.body.data.destinationStation.id).toBe(destinationTank.stationId);
+    transferId = res.body.data.id;
+  });
+
+  it('should not let the requester dispatch before approval', async () => {
+    const res = await request(app)
+      .put(`/transfers/${transferId}/dispatch`)
+      .set('Authorization', `Bearer ${managerToken}`)
+      .send({ openingDip: 1000, closingDip: 900 });
+
+    expect(res.status).toBe(400);
+    expect(res.body.error.code).toBe('BIZ_INVALID_STATUS');
+  });
+
+  it('should be approved by logistics', async () => {
+    const res = await request(app)
+      .put(`/transfers/${transferId}/approve`)
+      .set('Authorization', `Bearer ${logisticsToken}`)
+      .send({});
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.status).toBe('APPROVED');
+    expect(res.body.data.reviewedBy.fullName).toBeTruthy();
+  });
+
+  it('should take the volume out of the source tank at dispatch', async () => {
+    const before = await getTank(sourceTank.id);
+    const level = Number(before.currentLevel);
+
+    const res = await request(app)
+      .put(`/transfers/${transferId}/dispatch`)
+      .set('Authorization', `Bearer ${managerToken}`)
+      .send({ openingDip: level, closingDip: level - 100 });
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.status).toBe('IN_TRANSIT');
+    expect(Number(res.body.data.volumeOut)).toBe(100);
+
+    const after = await getTank(sourceTank.id);
+    expect(Number(after.currentLevel)).toBeCloseTo(level - 100, 4);
+    expect(after.version).toBe(before.version + 1);
+
+    // Open shift at the source station carries the movement
+    if (res.body.data.sourceShiftReportId) {
+      const shift = await request(app)
+        .get(`/shifts/${res.body.data.sourceShiftReportId}`)
+        .set('Authorization', `Bearer ${managerToken}`);
+      const dip = shift.body.data.tankDips.find((d: any) => d.tankId === sourceTank.id);
+      expect(Number(dip.transfers)).toBeLessThanOrEqual(-100);
+    }
+  });
+
+  it('should only let the destination station receive', async () => {
+    const res = await request(app)
+      .put(`/transfers/${transferId}/receive`)
+      .set('Authorization', `Bearer ${managerToken}`)
+      .send({ openingDip: 1000, closingDip: 1099.5 });
+
+    expect(res.status).toBe(403);
+  });
+
+  it('should put the received volume into the destination tank', async () => {
+    const before = await getTank(destinationTank.id);
+    const level = Number(before.currentLevel);
+
+    const res = await request(app)
+      .put(`/transfers/${transferId}/receive`)
+      .set('Authorization', `Bearer ${dcoToken}`)
+      .send({ openingDip: level, closingDip: level + 99.5 });
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.status).toBe('COMPLETED');
+    expect(Number(res.body.data.volumeIn)).toBe(99.5);
+    expect(Number(res.body.data.transitVariance)).toBe(-0.5);
+
+    const after = await getTank(destinationTank.id);
+    expect(Number(after.currentLevel)).toBeCloseTo(level + 99.5, 4);
+  });
+
+  it('should list the transfer for the source station', async () => {
+    const res = await request(app)
+      .get('/transfers')
+      .query({ status: 'COMPLETED' })
+      .set('Authorization', `Bearer ${managerToken}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.map((t: any) => t.id)).toContain(transferId);
+  });
+});
@@ -0,0 +1,214 @@
+/**
+ * Transport Registry Integration Tests
+ *
+ * Tests for:
+ * - Drivers of the transporters with their licence
+ * - Truck and driver checks when recording a delivery
+ * - Calibration certificate and licence expiry alerts
+ * - Transporter scorecard
+ *
+ * Requires seeded database (npx tsx prisma/seed.ts).
+ */
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import request from 'supertest';
+import app from '../index';
+import { prisma } from '../lib/prisma';
+import { processMonitorDocumentExpiry } from '../jobs/document-expiry-monitor.job';
+
+// ─── helpers ──────────────────────────────────────────────────────
+
+let logisticsToken: string;
+let adminToken: string;
+let managerToken: string;
+let stationId: string;
+let carrierId: string;
+let truckId: string;
+let driverId: string;
+let expiredDriverId: string;
+const deliveryIds: string[] = [];
+const suffix = Date.now().toString().slice(-6);
+
+/** Login helper — returns access token */
+async function login(email: string, password = 'Alcom2026!'): Promise<string> {
+  const res = await request(app)
+    .post('/auth/login')
+    .send({ email, password });
+  if (res.status !== 200 || !res.body?.data?.accessToken) {
+    throw new Error(`Login failed for ${email}: ${res.status} ${JSON.stringify(res.body)}`);
+  }
+  return res.body.data.accessToken;
+}
+
+async function createDelivery(transport: Record<string, string>) {
+  const res = await request(app)
+    .post('/deliveries')
+    .set('Authorization', `Bearer ${adminToken}`)
+    .send({ stationId, blNumber: `BL-TR-${suffix}-${deliveryIds.length}`, ...transport });
+  if (res.status === 201) deliveryIds.push(res.body.data.id);
+  return res;
+}
+
+// ─── setup ────────────────────────────────────────────────────────
+
+beforeAll(async () => {
+  logisticsToken = await login('logistics@alcom.cm');
+  adminToken = await login('admin@alcom.cm');
+  managerToken = await login('manager1@alcom.cm');
+
+  const station = await prisma.station.findFirst({ where: { isActive: true } });
+  stationId = station!.id;
+
+  const carrier = await prisma.carrier.create({ data: { name: `Transports Registre ${suffix}` } });
+  carrierId = carrier.id;
+}, 30_000);
+
+afterAll(async () => {
+  await prisma.fuelDelivery.deleteMany({ where: { id: { in: deliveryIds } } });
+  await prisma.driver.deleteMany({ where: { carrierId } });
+  await prisma.truck.deleteMany({ where: { carrierId } });
+  await prisma.carrier.delete({ where: { id: carrierId } });
+  await prisma.$disconnect();
+});
+
+// ══════════════════════════════════════════════════════════════════
+//   Registry
+// ══════════════════════════════════════════════════════════════════
+
+describe('Trucks & drivers', () => {
+  it('registers a truck with an expired calibration certificate', async () => {
+    const res = await request(app)
+      .post('/trucks')
+      .set('Authorization', `Bearer ${logisticsToken}`)
+      .send({
+        carrierId,
+        plateNumber: `LT ${suffix} RG`,
+        calibrationCertificateNumber: `JG-${suffix}`,
+        calibrationExpiresAt: '2026-01-31',
+        compartments: [{ capacity: 10000 }],
+      });
+
+    expect(res.status).toBe(201);
+    truckId = res.body.data.id;
+  });
+
+  it('registers drivers of the transporter', async () => {
+    const valid = await request(app)
+      .post('/drivers')
+      .set('Authorization', `Bearer ${logisticsToken}`)
+      .send({ carrierId, fullName: 'Paul Mbarga', licenceNumber: `PC-${suffix}-1`, licenceExpiresAt: '2030-12-31' });
+    expect(valid.status).toBe(201);
+    driverId = valid.body.data.id;
+
+    const expired = await request(app)
+      .post('/drivers')
+      .set('Authorization', `Bearer ${logisticsToken}`)
+      .send({ carrierId, fullName: 'Jean Ekotto', licenceNumber: `PC-${suffix}-2`, licenceExpiresAt: '2026-01-31' });
+    expect(expired.status).toBe(201);
+    expiredDriverId = expired.body.data.id;
+  });
+
+  it('rejects a duplicate licence number', async () => {
+    const res = await request(app)
+      .post('/drivers')
+      .set('Authorization', `Bearer ${logisticsToken}`)
+      .send({ carrierId, fullName: 'Autre Chauffeur', licenceNumber: `PC-${suffix}-1`, licenceExpiresAt: '2030-12-31' });
+
+    expect(res.status).toBe(409);
+  });
+
+  it('forbids station managers from registering drivers', async () => {
+    const res = await request(app)
+      .post('/drivers')
+      .set('Authorization', `Bearer ${managerToken}`)
+      .send({ carrierId, fullName: 'Test', licenceNumber: `PC-${suffix}-3`, licenceExpiresAt: '2030-12-31' });
+
+    expect(res.status).toBe(403);
+  });
+});
+
+// ══════════════════════════════════════════════════════════════════
+//   Delivery creation
+// ══════════════════════════════════════════════════════════════════
+
+describe('POST /deliveries with a registered truck', () => {
+  it('rejects a truck whose calibration certificate has expired', async () => {
+    const res = await createDelivery({ truckId, driverId });
+
+    expect(res.status).toBe(400);
+    expect(res.body.error.code).toBe('BIZ_TRUCK_CALIBRATION_EXPIRED');
+  });
+
+  it('rejects a driver whose licence has expired', async () => {
+    await request(app)
+      .patch(`/trucks/${truckId}`)
+      .set('Authorization', `Bearer ${logisticsToken}`)
+      .send({ calibrationExpiresAt: '2030-12-31' });
+
+    const res = await createDelivery({ truckId, driverId: expiredDriverId });
+
+    expect(res.status).toBe(400);
+    expect(res.body.error.code).toBe('BIZ_DRIVER_LICENCE_EXPIRED');
+  });
+
+  it('copies the plate and the driver name of the registered truck and driver', async () => {
+    const res = await createDelivery({ truckId, driverId });
+
+    expect(res.status).toBe(201);
+    expect(res.body.data.truckId).toBe(truckId);
+    expect(res.body.data.truckPlate).toBe(`LT ${suffix} RG`);
+    expect(res.body.data.driverName).toBe('Paul Mbarga');
+  });
+
+  it('still accepts an unregistered haulier', async () => {
+    const res = await createDelivery({ truckPlate: 'LT 0000 EXT', driverName: 'Chauffeur Externe' });
+
+    expect(res.status).toBe(201);
+    expect(res.body.data.truckId).toBeNull();
+  });
+
+  it('requires a truck or a plate number', async () => {
+    const res = await createDelivery({ driverId });
+
+    expect(res.status).toBe(400);
+  });
+});
+
+// ══════════════════════════════════════════════════════════════════
+//   Expiry alerts & scorecard
+// ══════════════════════════════════════════════════════════════════
+
+describe('Document expiry', () => {
+  it('lists the expired licence among the documents to renew', async () => {
+    const res = await request(app)
+      .get('/carriers/expiring-documents')
+      .set('Authorization', `Bearer ${logisticsToken}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.drivers.some((d: any) => d.id === expiredDriverId)).toBe(true);
+    expect(res.body.data.drivers.some((d: any) => d.id === driverId)).toBe(false);
+  });
+
+  it('alerts logistics once per expiring document', async () => {
+    const first = await processMonitorDocumentExpiry();
+    expect(first.alertsRaised).toBeGreaterThanOrEqual(1);
+
+    const driver = await prisma.driver.findUnique({ where: { id: expiredDriverId } });
+    expect(driver!.licenceAlertAt).not.toBeNull();
+
+    const second = await processMonitorDocumentExpiry();
+    expect(second.alertsRaised).toBe(0);
+  });
+});
+
+describe('GET /carriers/scorecard', () => {
+  it('reports the transporter without counting deliveries in progress', async () => {
+    const res = await request(app)
+      .get('/carriers/scorecard')
+      .set('Authorization', `Bearer ${logisticsToken}`);
+
+    expect(res.status).toBe(200);
+    const row = res.body.data.find((r: any) => r.carrier.id === carrierId);
+    expect(row.deliveries).toBe(0);
+    expect(row.averageVariancePercent).toBeNull();
+  });
+});
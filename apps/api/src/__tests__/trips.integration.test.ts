@@ -0,0 +1,287 @@
+/**
+ * Truck Trip Integration Tests
+ *
+ * Tests for:
+ * - Carrier and truck registry
+ * - Suggested load plans and trip planning across stations
+ * - Dispatch creating one delivery per station drop
+ * - Trip completion with the last drop
+ *
+ * Requires seeded database (npx tsx prisma/seed.ts).
+ */
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import request from 'supertest';
+import app from '../index';
+import { prisma } from '../lib/prisma';
+
+// ─── helpers ──────────────────────────────────────────────────────
+
+let logisticsToken: string;
+let managerToken: string;
+let userId: string;
+let carrierId: string;
+let truckId: string;
+let compartmentIds: string[] = [];
+const stationIds: string[] = [];
+const requestIds: string[] = [];
+const tripIds: string[] = [];
+const plateNumber = `LT ${Date.now().toString().slice(-6)} TR`;
+
+/** Login helper — returns access token */
+async function login(email: string, password = 'Alcom2026!'): Promise<string> {
+  const res = await request(app)
+    .post('/auth/login')
+    .send({ email, password });
+  if (res.status !== 200 || !res.body?.data?.accessToken) {
+    throw new Error(`Login failed for ${email}: ${res.status} ${JSON.stringify(res.body)}`);
+  }
+  return res.body.data.accessToken;
+}
+
+/** Create a GASOIL replenishment request of a station in the given status */
+async function createRequest(stationId: string, volume: number, status: 'VALIDATED' | 'ORDERED'): Promise<string> {
+  const req = await prisma.replenishmentRequest.create({
+    data: { stationId, fuelType: 'GASOIL', requestedVolume: volume, status, requestedById: userId },
+  });
+  requestIds.push(req.id);
+  return req.id;
+}
+
+async function planTrip(allocations: { truckCompartmentId: string; replenishmentRequestId: string; volume: number }[]) {
+  const res = await request(app)
+    .post('/trips')
+    .set('Authorization', `Bearer ${logisticsToken}`)
+    .send({ truckId, driverName: 'Test Driver', plannedDate: '2026-11-02', allocations });
+  if (res.status === 201) tripIds.push(res.body.data.id);
+  return res;
+}
+
+// ─── setup ────────────────────────────────────────────────────────
+
+beforeAll(async () => {
+  logisticsToken = await login('logistics@alcom.cm');
+  managerToken = await login('manager1@alcom.cm');
+
+  const me = await request(app).get('/auth/me').set('Authorization', `Bearer ${logisticsToken}`);
+  userId = me.body.data.id;
+
+  const tanks = await prisma.tank.findMany({
+    where: { fuelType: 'GASOIL', deletedAt: null, station: { isActive: true } },
+    distinct: ['stationId'],
+    take: 2,
+  });
+  stationIds.push(...tanks.map((t) => t.stationId));
+}, 30_000);
+
+afterAll(async () => {
+  await prisma.fuelDelivery.deleteMany({ where: { tripId: { in: tripIds } } });
+  await prisma.deliveryTrip.deleteMany({ where: { id: { in: tripIds } } });
+  await prisma.replenishmentRequest.deleteMany({ where: { id: { in: requestIds } } });
+  if (carrierId) {
+    await prisma.truck.deleteMany({ where: { carrierId } });
+    await prisma.carrier.delete({ where: { id: carrierId } });
+  }
+  await prisma.$disconnect();
+});
+
+// ══════════════════════════════════════════════════════════════════
+//   Registry
+// ══════════════════════════════════════════════════════════════════
+
+describe('Carriers & trucks', () => {
+  it('registers a carrier and a compartmented truck', async () => {
+    const carrier = await request(app)
+      .post('/carriers')
+      .set('Authorization', `Bearer ${logisticsToken}`)
+      .send({ name: `Transports Test ${Date.now()}`, phone: '+237 699 000 111' });
+    expect(carrier.status).toBe(201);
+    carrierId = carrier.body.data.id;
+
+    const truck = await request(app)
+      .post('/trucks')
+      .set('Authorization', `Bearer ${logisticsToken}`)
+      .send({ carrierId, plateNumber, compartments: [{ capacity: 10000 }, { capacity: 5000 }, { capacity: 5000 }] });
+    expect(truck.status).toBe(201);
+    expect(truck.body.data.compartments.map((c: any) => c.position)).toEqual([1, 2, 3]);
+    truckId = truck.body.data.id;
+    compartmentIds = truck.body.data.compartments.map((c: any) => c.id);
+  });
+
+  it('rejects a duplicate plate number', async () => {
+    const res = await request(app)
+      .post('/trucks')
+      .set('Authorization', `Bearer ${logisticsToken}`)
+      .send({ carrierId, plateNumber, compartments: [{ capacity: 5000 }] });
+
+    expect(res.status).toBe(409);
+  });
+
+  it('forbids station managers from registering trucks', async () => {
+    const res = await request(app)
+      .post('/trucks')
+      .set('Authorization', `Bearer ${managerToken}`)
+      .send({ carrierId, plateNumber: 'LT 000 XX', compartments: [{ capacity: 5000 }] });
+
+    expect(res.status).toBe(403);
+  });
+});
+
+// ══════════════════════════════════════════════════════════════════
+//   Planning
+// ══════════════════════════════════════════════════════════════════
+
+describe('POST /trips', () => {
+  it('suggests a load plan across the compartments', async () => {
+    const a = await createRequest(stationIds[0]!, 10000, 'VALIDATED');
+    const b = await createRequest(stationIds[1]!, 11000, 'VALIDATED');
+
+    const res = await request(app)
+      .post('/trips/suggest')
+      .set('Authorization', `Bearer ${logisticsToken}`)
+      .send({ truckId, replenishmentRequestIds: [a, b] });
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.allocations).toHaveLength(3);
+    expect(res.body.data.unallocated).toEqual([{ replenishmentRequestId: b, volume: 1000 }]);
+  });
+
+  it('rejects a compartment loaded beyond its capacity', async () => {
+    const id = await createRequest(stationIds[0]!, 8000, 'ORDERED');
+
+    const res = await planTrip([{ truckCompartmentId: compartmentIds[1]!, replenishmentRequestId: id, volume: 8000 }]);
+
+    expect(res.status).toBe(400);
+    expect(res.body.error.code).toBe('BIZ_TRIP_COMPARTMENT_OVERFLOW');
+  });
+
+  it('plans a trip dropping at two stations in order', async () => {
+    const first = await createRequest(stationIds[1]!, 10000, 'ORDERED');
+    const second = await createRequest(stationIds[0]!, 5000, 'ORDERED');
+
+    const res = await planTrip([
+      { truckCompartmentId: compartmentIds[0]!, replenishmentRequestId: first, volume: 10000 },
+      { truckCompartmentId: compartmentIds[1]!, replenishmentRequestId: second, volume: 5000 },
+    ]);
+
+    expect(res.status).toBe(201);
+    expect(res.body.data.tripNumber).toMatch(/^VOY-20261102-\d{2}$/);
+    expect(res.body.data.status).toBe('PLANNED');
+    const drops = res.body.data.allocations.map((a: any) => [a.stationId, a.dropSequence]);
+    expect(drops).toEqual([[stationIds[1], 1], [stationIds[0], 2]]);
+  });
+
+  it('does not book the same truck twice on a day', async () => {
+    const id = await createRequest(stationIds[0]!, 3000, 'ORDERED');
+
+    const res = await planTrip([{ truckCompartmentId: compartmentIds[2]!, replenishmentRequestId: id, volume: 3000 }]);
+
+    expect(res.status).toBe(409);
+    expect(res.body.error.code).toBe('BIZ_TRUCK_BOOKED');
+  });
+});
+
+// ══════════════════════════════════════════════════════════════════
+//   Dispatch & completion
+// ══════════════════════════════════════════════════════════════════
+
+describe('PUT /trips/:id/dispatch', () => {
+  it('requires a BL for each station drop', async () => {
+    const tripId = tripIds[tripIds.length - 1]!;
+
+    const res = await request(app)
+      .put(`/trips/${tripId}/dispatch`)
+      .set('Authorization', `Bearer ${logisticsToken}`)
+      .send({ drops: [{ stationId: stationIds[0], blNumber: `BL-TRP-${Date.now()}` }] });
+
+    expect(res.status).toBe(400);
+    expect(res.body.error.code).toBe('BIZ_TRIP_DROPS_MISMATCH');
+  });
+
+  it('creates one delivery per station drop', async () => {
+    const tripId = tripIds[tripIds.length - 1]!;
+
+    const res = await request(app)
+      .put(`/trips/${tripId}/dispatch`)
+      .set('Authorization', `Bearer ${logisticsToken}`)
+      .send({
+        drops: stationIds.map((stationId, i) => ({ stationId, blNumber: `BL-TRP-${Date.now()}-${i}` })),
+      });
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.status).toBe('DISPATCHED');
+    expect(res.body.data.deliveries).toHaveLength(2);
+
+    const delivery = await prisma.fuelDelivery.findFirstOrThrow({
+      where: { tripId, stationId: stationIds[1] },
+      include: { compartments: true },
+    });
+    expect(delivery.status).toBe('IN_PROGRESS');
+    expect(delivery.truckPlate).toBe(plateNumber);
+    expect(Number(delivery.blTotalVolume)).toBe(10000);
+    expect(delivery.compartments).toHaveLength(1);
+  });
+
+  it('completes the trip with its last drop', async () => {
+    const tripId = tripIds[tripIds.length - 1]!;
+    const deliveries = await prisma.fuelDelivery.findMany({ where: { tripId } });
+
+    for (const [i, delivery] of deliveries.entries()) {
+      const compartments = await prisma.deliveryCompartment.findMany({ where: { deliveryId: delivery.id } });
+      const res = await request(app)
+        .post(`/deliveries/${delivery.id}/record-dips`)
+        .set('Authorization', `Bearer ${logisticsToken}`)
+        .send({
+          compartments: compartments.map((c) => ({
+            compartmentId: c.id,
+            openingDip: 1000,
+            closingDip: 1000 + Number(c.blVolume),
+          })),
+        });
+      expect(res.status).toBe(200);
+
+      const trip = await prisma.deliveryTrip.findUniqueOrThrow({ where: { id: tripId } });
+      expect(trip.status).toBe(i === deliveries.length - 1 ? 'COMPLETED' : 'DISPATCHED');
+    }
+
+    const requests = await prisma.replenishmentRequest.findMany({
+      where: { tripAllocations: { some: { tripId } } },
+    });
+    expect(requests.every((r) => r.status === 'COMPLETED')).toBe(true);
+  });
+});
+
+describe('PUT /trips/:id/cancel', () => {
+  it('frees the requests of a cancelled trip', async () => {
+    const id = await createRequest(stationIds[0]!, 5000, 'VALIDATED');
+    const res = await request(app)
+      .post('/trips')
+      .set('Authorization', `Bearer ${logisticsToken}`)
+      .send({
+        truckId,
+        driverName: 'Test Driver',
+        plannedDate: '2026-11-03',
+        allocations: [{ truckCompartmentId: compartmentIds[1]!, replenishmentRequestId: id, volume: 5000 }],
+      });
+    expect(res.status).toBe(201);
+    tripIds.push(res.body.data.id);
+
+    const cancelled = await request(app)
+      .put(`/trips/${res.body.data.id}/cancel`)
+      .set('Authorization', `Bearer ${logisticsToken}`)
+      .send({ reason: 'Depot closed for maintenance' });
+    expect(cancelled.status).toBe(200);
+    expect(cancelled.body.data.status).toBe('CANCELLED');
+
+    const replanned = await request(app)
+      .post('/trips')
+      .set('Authorization', `Bearer ${logisticsToken}`)
+      .send({
+        truckId,
+        driverName: 'Test Driver',
+        plannedDate: '2026-11-03',
+        allocations: [{ truckCompartmentId: compartmentIds[1]!, replenishmentRequestId: id, volume: 5000 }],
+      });
+    expect(replanned.status).toBe(201);
+    tripIds.push(replanned.body.data.id);
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * Wet-Stock Reconciliation Integration Tests
+ *
+ * Tests for:
+ * - Per-tank reconciliation ledger over a period (opening, deliveries, sales, closing)
+ * - Cumulative dip variance as % of throughput and leak flagging
+ * - Station scoping of the report
+ * - Leak monitor job notifications
+ *
+ * Requires seeded database (npx tsx prisma/seed.ts).
+ */
+import { describe, it, expect, beforeAll } from 'vitest';
+import request from 'supertest';
+import app from '../index';
+import { processMonitorWetStock } from '../jobs/wet-stock-monitor.job';
+
+// ─── helpers ──────────────────────────────────────────────────────
+
+let managerToken: string;
+let adminToken: string;
+let stationId: string;
+let shiftId: string;
+
+/** Login helper — returns access token */
+async function login(email: string, password = 'Alcom2026!'): Promise<string> {
+  const res = await request(app)
+    .post('/auth/login')
+    .send({ email, password });
+  if (res.status !== 200 || !res.body?.data?.accessToken) {
+    throw new Error(`Login failed for ${email}: ${res.status} ${JSON.stringify(res.body)}`);
+  }
+  return res.body.data.accessToken;
+}
+
+async function getShift(id: string) {
+  const res = await request(app)
+    .get(`/shifts/${id}`)
+    .set('Authorization', `Bearer ${managerToken}`);
+  return res.body.data;
+}
+
+// ─── setup ────────────────────────────────────────────────────────
+
+beforeAll(async () => {
+  managerToken = await login('manager1@alcom.cm');
+  adminToken = await login('admin@alcom.cm');
+
+  const me = await request(app).get('/auth/me').set('Authorization', `Bearer ${managerToken}`);
+  stationId = me.body.data.assignedStationId;
+
+  let current = await request(app)
+    .get('/shifts/current')
+    .query({ stationId })
+    .set('Authorization', `Bearer ${managerToken}`);
+
+  if (!current.body.data) {
+    await request(app)
+      .post('/shifts/open')
+      .set('Authorization', `Bearer ${managerToken}`)
+      .send({ stationId, shiftDate: new Date().toISOString().slice(0, 10), shiftType: 'MORNING' });
+    current = await request(app)
+      .get('/shifts/current')
+      .query({ stationId })
+      .set('Authorization', `Bearer ${managerToken}`);
+  }
+
+  // Close with every tank 30 L short of its theoretical stock
+  const shift = await getShift(current.body.data.id);
+  shiftId = shift.id;
+  await request(app)
+    .post(`/shifts/${shift.id}/close`)
+    .set('Authorization', `Bearer ${managerToken}`)
+    .send({
+      sales: shift.sales.map((x: any) => ({ nozzleId: x.nozzleId, closingIndex: Number(x.openingIndex) })),
+      tankDips: shift.tankDips.map((d: any) => ({
+        tankId: d.tankId,
+        physicalLevel: Number(d.openingLevel) + Number(d.deliveries) + Number(d.transfers) - 30,
+      })),
+      cash: { counted: 0, card: 0, expenses: 0 },
+      justification: 'Test wet-stock reconciliation',
+    });
+}, 30_000);
+
+// ══════════════════════════════════════════════════════════════════
+//  Tests
+// ══════════════════════════════════════════════════════════════════
+
+describe('Wet-stock reconciliation', () => {
+  it('should return a ledger per tank of the station', async () => {
+    const res = await request(app)
+      .get('/stats/wet-stock')
+      .query({ startDate: '2020-01-01', endDate: '2035-12-31' })
+      .set('Authorization', `Bearer ${managerToken}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.tanks.length).toBeGreaterThan(0);
+    for (const tank of res.body.data.tanks) {
+      expect(tank.stationId).toBe(stationId);
+      expect(tank.shiftCount).toBe(tank.entries.length);
+      expect(tank.cumulativeVariance).toBeCloseTo(tank.entries[tank.entries.length - 1].cumulativeVariance, 4);
+      expect(typeof tank.leakSuspected).toBe('boolean');
+    }
+  });
+
+  it('should record the shortage of the closed shift in the ledger', async () => {
+    const res = await request(app)
+      .get('/stats/wet-stock')
+      .query({ startDate: '2020-01-01', endDate: '2035-12-31' })
+      .set('Authorization', `Bearer ${managerToken}`);
+
+    const entries = res.body.data.tanks.flatMap((t: any) => t.entries.filter((e: any) => e.shiftReportId === shiftId));
+    expect(entries.length).toBeGreaterThan(0);
+    for (const entry of entries) {
+      expect(entry.sales).toBeCloseTo(0, 4);
+      expect(entry.variance).toBeCloseTo(-30, 4);
+    }
+  });
+
+  it('should express the cumulative variance in % of the volume sold', async () => {
+    const res = await request(app)
+      .get('/stats/wet-stock')
+      .query({ stationId, startDate: '2020-01-01', endDate: '2035-12-31' })
+      .set('Authorization', `Bearer ${adminToken}`);
+
+    expect(res.status).toBe(200);
+    for (const tank of res.body.data.tanks.filter((t: any) => t.sales > 0)) {
+      expect(tank.variancePercent).toBeCloseTo((tank.cumulativeVariance / tank.sales) * 100, 2);
+    }
+  });
+
+  it('should run the leak monitor over all tanks', async () => {
+    const result = await processMonitorWetStock();
+
+    expect(result.tanksChecked).toBeGreaterThan(0);
+    expect(result.notificationsSent).toBeGreaterThanOrEqual(result.leakSuspects);
+  });
+});
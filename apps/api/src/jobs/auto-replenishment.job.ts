@@ -2,18 +2,19 @@
  * Auto-Replenishment Job
  *
  * This job runs daily at 06:00 to:
- * 1. Check all tanks with currentLevel < capacity × 0.20 (below 20%)
- * 2. Create draft replenishment requests for low tanks
+ * 1. Forecast the demand of each tank from its sales history (see demand-forecast.service)
+ * 2. Create draft replenishment requests for tanks whose order date has come, with the
+ *    recommended volume; tanks without enough history fall back to the 20% low-level rule
  * 3. Notify DCO and Station Managers
  */
 
 import prisma from '../lib/prisma';
 import logger from '../lib/logger';
-import { TANK_LOW_LEVEL_PERCENT } from '@alcom/shared';
+import { getTankForecasts } from '../services/demand-forecast.service';
 
 export interface AutoReplenishmentResult {
   tanksChecked: number;
-  lowTanks: number;
+  lowTanks: number; // tanks due for an order (forecast or low level)
   requestsCreated: number;
   notificationsSent: number;
 }
@@ -22,47 +23,33 @@ export async function processAutoReplenishment(): Promise<AutoReplenishmentResul
   const now = new Date();
   logger.info(`Starting auto-replenishment job at ${now.toISOString()}`);
 
-  // Find all active tanks with their station info
-  const tanks = await prisma.tank.findMany({
-    where: { deletedAt: null },
-    include: {
-      station: {
-        select: { id: true, name: true, code: true, isActive: true },
-      },
-    },
-  });
+  // Forecast every tank of the active stations
+  const forecasts = await getTankForecasts(prisma, {}, now);
 
   const result: AutoReplenishmentResult = {
-    tanksChecked: tanks.length,
+    tanksChecked: forecasts.length,
     lowTanks: 0,
     requestsCreated: 0,
     notificationsSent: 0,
   };
 
-  if (tanks.length === 0) {
+  if (forecasts.length === 0) {
     logger.info('No tanks found to check');
     return result;
   }
 
-  logger.info(`Checking ${tanks.length} tanks for low levels`);
+  logger.info(`Checking ${forecasts.length} tanks for replenishment`);
 
-  // Filter tanks below 20% capacity
-  const lowTanks = tanks.filter((tank) => {
-    if (!tank.station.isActive) return false;
-    const capacity = Number(tank.capacity);
-    const currentLevel = Number(tank.currentLevel);
-    const threshold = capacity * TANK_LOW_LEVEL_PERCENT;
-    return currentLevel < threshold;
-  });
+  const dueTanks = forecasts.filter((tank) => tank.isOrderDue);
 
-  result.lowTanks = lowTanks.length;
+  result.lowTanks = dueTanks.length;
 
-  if (lowTanks.length === 0) {
-    logger.info('No tanks below 20% capacity');
+  if (dueTanks.length === 0) {
+    logger.info('No tanks due for replenishment');
     return result;
   }
 
-  logger.info(`Found ${lowTanks.length} tanks below 20% capacity`);
+  logger.info(`Found ${dueTanks.length} tanks due for replenishment`);
 
   // Get system user for creating requests (or first DCO user)
   const systemUser = await prisma.user.findFirst({
@@ -79,15 +66,16 @@ export async function processAutoReplenishment(): Promise<AutoReplenishmentResul
   }
 
   // Create draft replenishment requests
-  for (const tank of lowTanks) {
-    const capacity = Number(tank.capacity);
-    const currentLevel = Number(tank.currentLevel);
+  for (const tank of dueTanks) {
+    const { capacity, currentLevel } = tank;
     const percentFull = (currentLevel / capacity) * 100;
-    const ullage = capacity - currentLevel;
-    
-    // Calculate suggested volume: fill to 85% capacity
-    const targetLevel = capacity * 0.85;
-    const suggestedVolume = Math.round(targetLevel - currentLevel);
+    const suggestedVolume = tank.recommendedVolume;
+
+    // The ullage no longer takes a full truck compartment
+    if (suggestedVolume <= 0) {
+      logger.info(`Skipping ${tank.stationCode} - ${tank.fuelType}: no room for a delivery`);
+      continue;
+    }
 
     // Check if there's already a pending request for this station/fuel type
     const existingRequest = await prisma.replenishmentRequest.findFirst({
@@ -100,7 +88,7 @@ export async function processAutoReplenishment(): Promise<AutoReplenishmentResul
 
     if (existingRequest) {
       logger.info(
-        `Skipping ${tank.station.code} - ${tank.fuelType}: existing request in ${existingRequest.status} status`
+        `Skipping ${tank.stationCode} - ${tank.fuelType}: existing request in ${existingRequest.status} status`
       );
       continue;
     }
@@ -110,7 +98,7 @@ export async function processAutoReplenishment(): Promise<AutoReplenishmentResul
       data: {
         stationId: tank.stationId,
         fuelType: tank.fuelType,
-        requestedVolume: suggestedVolume > 0 ? suggestedVolume : ullage,
+        requestedVolume: suggestedVolume,
         status: 'DRAFT',
         requestedById: systemUser.id,
       },
@@ -119,9 +107,9 @@ export async function processAutoReplenishment(): Promise<AutoReplenishmentResul
     result.requestsCreated++;
 
     logger.info(
-      `Created replenishment request for ${tank.station.code} - ${tank.fuelType}: ` +
+      `Created replenishment request for ${tank.stationCode} - ${tank.fuelType}: ` +
       `${currentLevel.toFixed(0)}L / ${capacity.toFixed(0)}L (${percentFull.toFixed(1)}%) - ` +
-      `Suggested: ${suggestedVolume}L`
+      `Days of cover: ${tank.daysOfCover ?? 'n/a'} (${tank.basis}) - Suggested: ${suggestedVolume}L`
     );
 
     // Create notifications for relevant users
@@ -141,7 +129,9 @@ export async function processAutoReplenishment(): Promise<AutoReplenishmentResul
           userId: user.id,
           type: 'LOW_TANK_ALERT',
           title: 'Low Tank Level Alert',
-          message: `${tank.station.name} - ${tank.fuelType}: ${percentFull.toFixed(1)}% remaining (${currentLevel.toFixed(0)}L / ${capacity.toFixed(0)}L). Auto-replenishment request created.`,
+          message: tank.basis === 'FORECAST'
+            ? `${tank.stationName} - ${tank.fuelType}: ${tank.daysOfCover} days of cover left at forecast sales (${currentLevel.toFixed(0)}L / ${capacity.toFixed(0)}L). Auto-replenishment request created for ${suggestedVolume}L.`
+            : `${tank.stationName} - ${tank.fuelType}: ${percentFull.toFixed(1)}% remaining (${currentLevel.toFixed(0)}L / ${capacity.toFixed(0)}L). Auto-replenishment request created.`,
           link: `/supply/replenishment/${request.id}`,
         },
       });
@@ -157,11 +147,14 @@ export async function processAutoReplenishment(): Promise<AutoReplenishmentResul
         entityId: request.id,
         changes: {
           stationId: tank.stationId,
-          stationCode: tank.station.code,
+          stationCode: tank.stationCode,
           fuelType: tank.fuelType,
           currentLevel,
           capacity,
           percentFull,
+          basis: tank.basis,
+          averageDailyVolume: tank.averageDailyVolume,
+          daysOfCover: tank.daysOfCover,
           suggestedVolume,
           triggeredByJob: true,
         },
@@ -0,0 +1,80 @@
+/**
+ * Undeposited Cash Monitor Job
+ *
+ * Runs daily at 07:00 to:
+ * 1. Compute undeposited cash per station (closed shifts not matched to bank deposits)
+ * 2. Flag stations whose oldest undeposited shift exceeds `cashDeposit.maxUndepositedDays`
+ * 3. Notify the Station Manager and Finance
+ */
+
+import prisma from '../lib/prisma';
+import logger from '../lib/logger';
+import { getUndepositedBalances } from '../services/cash-deposit.service';
+
+export interface CashDepositMonitorResult {
+  stationsChecked: number;
+  overdueStations: number;
+  notificationsSent: number;
+}
+
+export async function processMonitorCashDeposits(): Promise<CashDepositMonitorResult> {
+  logger.info(`Starting undeposited cash monitor job at ${new Date().toISOString()}`);
+
+  const balances = await getUndepositedBalances(prisma);
+  const overdue = balances.filter((b) => b.overdue);
+
+  const result: CashDepositMonitorResult = {
+    stationsChecked: balances.length,
+    overdueStations: overdue.length,
+    notificationsSent: 0,
+  };
+
+  if (overdue.length === 0) {
+    logger.info('No station with overdue undeposited cash');
+    return result;
+  }
+
+  const financeUsers = await prisma.user.findMany({
+    where: { isActive: true, role: { in: ['FINANCE_DIR', 'CFO'] } },
+    select: { id: true },
+  });
+
+  const notifications: Array<{
+    userId: string;
+    type: string;
+    title: string;
+    message: string;
+    link: string;
+  }> = [];
+
+  for (const balance of overdue) {
+    const managers = await prisma.user.findMany({
+      where: { isActive: true, role: 'STATION_MANAGER', assignedStationId: balance.stationId },
+      select: { id: true },
+    });
+
+    const recipients = new Set<string>([...managers, ...financeUsers].map((u) => u.id));
+    recipients.forEach((userId) => {
+      notifications.push({
+        userId,
+        type: 'CASH_UNDEPOSITED',
+        title: 'Undeposited cash',
+        message:
+          `${balance.stationName}: ${balance.amount.toFixed(0)} FCFA undeposited for ${balance.daysOutstanding} days ` +
+          `(limit ${balance.maxUndepositedDays}).`,
+        link: '/admin/finance/deposits',
+      });
+    });
+  }
+
+  if (notifications.length > 0) {
+    await prisma.notification.createMany({ data: notifications });
+  }
+  result.notificationsSent = notifications.length;
+
+  logger.info(
+    `Undeposited cash monitor completed: overdue=${overdue.length}, notifications=${notifications.length}`,
+  );
+
+  return result;
+}
@@ -0,0 +1,93 @@
+/**
+ * Transport Document Expiry Job
+ *
+ * Runs daily at 06:45 to:
+ * 1. Find truck calibration certificates and driver licences expiring within
+ *    DOCUMENT_EXPIRY_ALERT_DAYS days (or already expired)
+ * 2. Notify Logistics once per document
+ *    (the alert is re-armed when the certificate or licence is renewed)
+ */
+
+import { DOCUMENT_EXPIRY_ALERT_DAYS } from '@alcom/shared';
+import prisma from '../lib/prisma';
+import logger from '../lib/logger';
+import { findExpiringDocuments } from '../services/carrier.service';
+
+export interface DocumentExpiryMonitorResult {
+  expiringDocuments: number;
+  alertsRaised: number;
+  notificationsSent: number;
+}
+
+function formatDate(date: Date): string {
+  return date.toLocaleDateString('fr-FR', { timeZone: 'UTC' });
+}
+
+export async function processMonitorDocumentExpiry(now: Date = new Date()): Promise<DocumentExpiryMonitorResult> {
+  logger.info(`Starting transport document expiry job at ${now.toISOString()}`);
+
+  const { trucks, drivers } = await findExpiringDocuments(prisma, now);
+  const trucksToAlert = trucks.filter((t) => !t.calibrationAlertAt);
+  const driversToAlert = drivers.filter((d) => !d.licenceAlertAt);
+
+  const result: DocumentExpiryMonitorResult = {
+    expiringDocuments: trucks.length + drivers.length,
+    alertsRaised: trucksToAlert.length + driversToAlert.length,
+    notificationsSent: 0,
+  };
+
+  if (result.alertsRaised === 0) {
+    logger.info(`No new transport document expiring within ${DOCUMENT_EXPIRY_ALERT_DAYS} days`);
+    return result;
+  }
+
+  const logisticsUsers = await prisma.user.findMany({
+    where: { isActive: true, deletedAt: null, role: { in: ['LOGISTICS', 'SUPER_ADMIN'] } },
+    select: { id: true },
+  });
+
+  const alerts = [
+    ...trucksToAlert.map((truck) => ({
+      title: 'Certificat de jaugeage à renouveler',
+      message:
+        `Camion ${truck.plateNumber} (${truck.carrier.name}) : certificat de jaugeage` +
+        `${truck.calibrationCertificateNumber ? ` n° ${truck.calibrationCertificateNumber}` : ''}` +
+        ` ${truck.calibrationExpiresAt! < now ? 'expiré depuis le' : 'expire le'} ${formatDate(truck.calibrationExpiresAt!)}.`,
+    })),
+    ...driversToAlert.map((driver) => ({
+      title: 'Permis de conduire à renouveler',
+      message:
+        `${driver.fullName} (${driver.carrier.name}) : permis n° ${driver.licenceNumber}` +
+        ` ${driver.licenceExpiresAt < now ? 'expiré depuis le' : 'expire le'} ${formatDate(driver.licenceExpiresAt)}.`,
+    })),
+  ];
+
+  const notifications = alerts.flatMap((alert) =>
+    logisticsUsers.map((u) => ({
+      userId: u.id,
+      type: 'DOCUMENT_EXPIRY_ALERT',
+      title: alert.title,
+      message: alert.message,
+      link: '/admin/supply/trucks',
+    })),
+  );
+
+  await prisma.$transaction([
+    prisma.notification.createMany({ data: notifications }),
+    prisma.truck.updateMany({
+      where: { id: { in: trucksToAlert.map((t) => t.id) } },
+      data: { calibrationAlertAt: now },
+    }),
+    prisma.driver.updateMany({
+      where: { id: { in: driversToAlert.map((d) => d.id) } },
+      data: { licenceAlertAt: now },
+    }),
+  ]);
+  result.notificationsSent = notifications.length;
+
+  logger.info(
+    `Transport document expiry job completed: expiring=${result.expiringDocuments}, alerts=${result.alertsRaised}, notifications=${notifications.length}`,
+  );
+
+  return result;
+}
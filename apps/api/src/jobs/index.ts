@@ -9,6 +9,10 @@ import { processAutoReplenishment } from './auto-replenishment.job';
 import { processDailyDigest, processSendEmailJob } from './email';
 import prisma from '../lib/prisma';
 import { processMonitorSla } from './sla-monitor.job';
+import { processMonitorCashDeposits } from './cash-deposit-monitor.job';
+import { processMonitorWetStock } from './wet-stock-monitor.job';
+import { processMonitorProductStock } from './product-stock-monitor.job';
+import { processMonitorDocumentExpiry } from './document-expiry-monitor.job';
 
 let intervals: NodeJS.Timeout[] = [];
 
@@ -31,6 +35,14 @@ export async function initializeJobs(): Promise<void> {
     }
   }, 60000)); // check every minute
 
+  // Wet-stock leak monitor - runs every day at 05:00:00
+  intervals.push(setInterval(() => {
+    const now = new Date();
+    if (now.getHours() === 5 && now.getMinutes() === 0) {
+      processMonitorWetStock().catch(e => logger.error(`Wet-stock monitor error: ${e.message}`));
+    }
+  }, 60000));
+
   // Auto-Replenishment - runs every day at 06:00:00
   intervals.push(setInterval(() => {
     const now = new Date();
@@ -39,6 +51,30 @@ export async function initializeJobs(): Promise<void> {
     }
   }, 60000));
 
+  // Shop product low-stock - runs every day at 06:30:00
+  intervals.push(setInterval(() => {
+    const now = new Date();
+    if (now.getHours() === 6 && now.getMinutes() === 30) {
+      processMonitorProductStock().catch(e => logger.error(`Product low-stock error: ${e.message}`));
+    }
+  }, 60000));
+
+  // Truck certificate & driver licence expiry - runs every day at 06:45:00
+  intervals.push(setInterval(() => {
+    const now = new Date();
+    if (now.getHours() === 6 && now.getMinutes() === 45) {
+      processMonitorDocumentExpiry().catch(e => logger.error(`Document expiry monitor error: ${e.message}`));
+    }
+  }, 60000));
+
+  // Undeposited cash monitor - runs every day at 07:00:00
+  intervals.push(setInterval(() => {
+    const now = new Date();
+    if (now.getHours() === 7 && now.getMinutes() === 0) {
+      processMonitorCashDeposits().catch(e => logger.error(`Cash deposit monitor error: ${e.message}`));
+    }
+  }, 60000));
+
   // Daily Digest - runs every day at 08:00:00
   intervals.push(setInterval(() => {
     const now = new Date();
@@ -98,7 +134,8 @@ export interface EnqueueEmailOptions {
     | 'shift-variance-alert'
     | 'incident-alert'
     | 'sla-overdue'
-    | 'daily-digest';
+    | 'daily-digest'
+    | 'supplier-claim';
   templateData?: Record<string, unknown>;
   scheduledAt?: Date;
 }
@@ -144,3 +181,42 @@ export async function triggerSlaMonitor(): Promise<string> {
   return 'sync-job';
 }
 
+/**
+ * Manually trigger undeposited cash monitor (for testing/admin purposes)
+ */
+export async function triggerCashDepositMonitor(): Promise<string> {
+  setTimeout(() => {
+    processMonitorCashDeposits().catch(e => logger.error(`Triggered cash deposit monitor error: ${e.message}`));
+  }, 0);
+  return 'sync-job';
+}
+
+/**
+ * Manually trigger wet-stock leak monitor (for testing/admin purposes)
+ */
+export async function triggerWetStockMonitor(): Promise<string> {
+  setTimeout(() => {
+    processMonitorWetStock().catch(e => logger.error(`Triggered wet-stock monitor error: ${e.message}`));
+  }, 0);
+  return 'sync-job';
+}
+
+/**
+ * Manually trigger shop product low-stock check (for testing/admin purposes)
+ */
+export async function triggerProductStockMonitor(): Promise<string> {
+  setTimeout(() => {
+    processMonitorProductStock().catch(e => logger.error(`Triggered product low-stock error: ${e.message}`));
+  }, 0);
+  return 'sync-job';
+}
+
+/**
+ * Manually trigger transport document expiry check (for testing/admin purposes)
+ */
+export async function triggerDocumentExpiryMonitor(): Promise<string> {
+  setTimeout(() => {
+    processMonitorDocumentExpiry().catch(e => logger.error(`Triggered document expiry monitor error: ${e.message}`));
+  }, 0);
+  return 'sync-job';
+}
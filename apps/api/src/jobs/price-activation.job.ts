@@ -3,13 +3,16 @@
  *
  * This job runs daily at midnight to:
  * 1. Check for approved prices with effectiveDate <= NOW() that are not yet active
- * 2. Activate them
- * 3. Send notifications to station managers
+ * 2. Activate them, per fuel type and scope (national, zone or station)
+ * 3. Request meter readings on open shifts, whose sales are split at the price change
+ * 4. Send notifications to the managers of the stations each price applies to
  */
 
 import prisma from '../lib/prisma';
 import { Prisma } from '@prisma/client';
 import logger from '../lib/logger';
+import { findPriceRecipients, sameScopeWhere } from '../services/fuel-price.service';
+import { requestShiftPriceChanges } from '../services/shift-price-change.service';
 
 export async function processActivatePrices(): Promise<{
   activated: number;
@@ -35,13 +38,14 @@ export async function processActivatePrices(): Promise<{
 
   logger.info(`Found ${pricesToActivate.length} prices to activate`);
 
-  // Group by fuel type - we only want to activate the latest for each type
+  // Group by fuel type and scope - we only want to activate the latest for each
   const latestByFuelType = new Map<string, typeof pricesToActivate[0]>();
 
   for (const price of pricesToActivate) {
-    const existing = latestByFuelType.get(price.fuelType);
+    const key = `${price.fuelType}:${price.priceZoneId ?? ''}:${price.stationId ?? ''}`;
+    const existing = latestByFuelType.get(key);
     if (!existing || price.effectiveDate > existing.effectiveDate) {
-      latestByFuelType.set(price.fuelType, price);
+      latestByFuelType.set(key, price);
     }
   }
 
@@ -50,13 +54,16 @@ export async function processActivatePrices(): Promise<{
   const fuelTypesActivated: string[] = [];
 
   await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
-    for (const [fuelType, price] of latestByFuelType) {
-      // Deactivate any currently active price of this fuel type
+    for (const price of latestByFuelType.values()) {
+      const fuelType = price.fuelType;
+
+      // Deactivate any currently active price of this fuel type in the same scope
       await tx.fuelPrice.updateMany({
         where: {
-          fuelType: fuelType as 'ESSENCE' | 'GASOIL',
+          fuelType,
           isActive: true,
           id: { not: price.id },
+          ...sameScopeWhere(price),
         },
         data: { isActive: false },
       });
@@ -80,6 +87,8 @@ export async function processActivatePrices(): Promise<{
           changes: {
             fuelType,
             price: Number(price.price),
+            priceZoneId: price.priceZoneId,
+            stationId: price.stationId,
             effectiveDate: price.effectiveDate.toISOString(),
             activatedAt: now.toISOString(),
           },
@@ -90,43 +99,38 @@ export async function processActivatePrices(): Promise<{
     }
   });
 
-  // Send notifications to station managers
-  let notifiedCount = 0;
-
-  if (fuelTypesActivated.length > 0) {
-    const managers = await prisma.user.findMany({
-      where: {
-        role: { in: ['STATION_MANAGER', 'CHEF_PISTE'] },
-        isActive: true,
-      },
-      select: { id: true },
-    });
-
-    if (managers.length > 0) {
-      // Get the activated prices for notification content
-      const activatedPrices = await prisma.fuelPrice.findMany({
-        where: { id: { in: activatedIds } },
-      });
+  // Open shifts now selling at a new price need a meter-reading checkpoint
+  const shiftIds = await requestShiftPriceChanges(prisma, [...latestByFuelType.values()]);
+  if (shiftIds.length > 0) {
+    logger.info(`Requested price change readings on ${shiftIds.length} open shifts`);
+  }
 
-      const priceDetails = activatedPrices
-        .map((p: typeof activatedPrices[0]) => `${p.fuelType}: ${Number(p.price).toLocaleString('fr-FR')} XAF`)
-        .join(', ');
-
-      await prisma.notification.createMany({
-        data: managers.map((m: { id: string }) => ({
-          userId: m.id,
-          type: 'PRICE_CHANGE',
-          title: 'Nouveau prix en vigueur',
-          message: `Nouveaux tarifs carburant effectifs: ${priceDetails}`,
-          isRead: false,
-        })),
-      });
+  // Send notifications to the managers of the stations each price applies to
+  const detailsByManager = new Map<string, string[]>();
 
-      notifiedCount = managers.length;
-      logger.info(`Sent notifications to ${notifiedCount} managers`);
+  for (const price of latestByFuelType.values()) {
+    const managers = await findPriceRecipients(prisma, price);
+    for (const m of managers) {
+      const details = detailsByManager.get(m.id) ?? [];
+      details.push(`${price.fuelType}: ${Number(price.price).toLocaleString('fr-FR')} XAF`);
+      detailsByManager.set(m.id, details);
     }
   }
 
+  if (detailsByManager.size > 0) {
+    await prisma.notification.createMany({
+      data: [...detailsByManager].map(([userId, details]) => ({
+        userId,
+        type: 'PRICE_CHANGE',
+        title: 'Nouveau prix en vigueur',
+        message: `Nouveaux tarifs carburant effectifs: ${details.join(', ')}`,
+        isRead: false,
+      })),
+    });
+    logger.info(`Sent notifications to ${detailsByManager.size} managers`);
+  }
+  const notifiedCount = detailsByManager.size;
+
   logger.info(`Price activation job completed: activated=${activatedIds.length}, notified=${notifiedCount}, fuelTypes=${fuelTypesActivated.join(',')}`);
 
   return {
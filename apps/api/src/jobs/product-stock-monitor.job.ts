@@ -0,0 +1,84 @@
+/**
+ * Shop Product Low-Stock Job
+ *
+ * Runs daily at 06:30 to:
+ * 1. Check every station product stock at or below its reorder level
+ * 2. Notify the Station Manager and Logistics once per shortage
+ *    (the alert is re-armed when a receipt brings the stock back above the reorder level)
+ */
+
+import prisma from '../lib/prisma';
+import logger from '../lib/logger';
+import { findLowProductStocks } from '../services/product-stock.service';
+
+export interface ProductStockMonitorResult {
+  lowStocks: number;
+  alertsRaised: number;
+  notificationsSent: number;
+}
+
+export async function processMonitorProductStock(now: Date = new Date()): Promise<ProductStockMonitorResult> {
+  logger.info(`Starting product low-stock job at ${now.toISOString()}`);
+
+  const lowStocks = await findLowProductStocks(prisma);
+  const toAlert = lowStocks.filter((s) => !s.lowStockAlertAt);
+
+  const result: ProductStockMonitorResult = {
+    lowStocks: lowStocks.length,
+    alertsRaised: toAlert.length,
+    notificationsSent: 0,
+  };
+
+  if (toAlert.length === 0) {
+    logger.info('No new product below its reorder level');
+    return result;
+  }
+
+  const logisticsUsers = await prisma.user.findMany({
+    where: { isActive: true, deletedAt: null, role: { in: ['LOGISTICS', 'SUPER_ADMIN'] } },
+    select: { id: true },
+  });
+
+  const notifications: Array<{
+    userId: string;
+    type: string;
+    title: string;
+    message: string;
+    link: string;
+  }> = [];
+
+  for (const stock of toAlert) {
+    const managers = await prisma.user.findMany({
+      where: { isActive: true, deletedAt: null, role: 'STATION_MANAGER', assignedStationId: stock.stationId },
+      select: { id: true },
+    });
+
+    const recipients = new Set<string>([...managers, ...logisticsUsers].map((u) => u.id));
+    recipients.forEach((userId) => {
+      notifications.push({
+        userId,
+        type: 'LOW_PRODUCT_STOCK_ALERT',
+        title: 'Stock boutique bas',
+        message:
+          `${stock.station.code} — ${stock.product.name} (${stock.product.sku}) : ` +
+          `${Number(stock.quantity)} ${stock.product.unit} en stock, seuil de réapprovisionnement ${Number(stock.reorderLevel)}.`,
+        link: '/admin/supply/products',
+      });
+    });
+  }
+
+  await prisma.$transaction([
+    prisma.notification.createMany({ data: notifications }),
+    prisma.productStock.updateMany({
+      where: { id: { in: toAlert.map((s) => s.id) } },
+      data: { lowStockAlertAt: now },
+    }),
+  ]);
+  result.notificationsSent = notifications.length;
+
+  logger.info(
+    `Product low-stock job completed: low=${lowStocks.length}, alerts=${toAlert.length}, notifications=${notifications.length}`,
+  );
+
+  return result;
+}
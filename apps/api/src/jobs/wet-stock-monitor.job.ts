@@ -0,0 +1,86 @@
+/**
+ * Wet-Stock Leak Monitor Job
+ *
+ * Runs daily at 05:00 to:
+ * 1. Reconcile every tank over the closed shifts of the last `WET_STOCK_ANALYSIS_DAYS` days
+ * 2. Flag tanks whose cumulative loss trends down beyond `wetStock.lossThresholdPercent`
+ * 3. Notify the Station Manager and Operations (CEO, DCO)
+ */
+
+import { WET_STOCK_ANALYSIS_DAYS } from '@alcom/shared';
+import prisma from '../lib/prisma';
+import logger from '../lib/logger';
+import { getTankReconciliation } from '../services/wet-stock.service';
+
+export interface WetStockMonitorResult {
+  tanksChecked: number;
+  leakSuspects: number;
+  notificationsSent: number;
+}
+
+export async function processMonitorWetStock(now: Date = new Date()): Promise<WetStockMonitorResult> {
+  logger.info(`Starting wet-stock leak monitor job at ${now.toISOString()}`);
+
+  const from = new Date(now);
+  from.setDate(from.getDate() - WET_STOCK_ANALYSIS_DAYS);
+  from.setHours(0, 0, 0, 0);
+
+  const tanks = await getTankReconciliation(prisma, { from, to: now });
+  const suspects = tanks.filter((t) => t.leakSuspected);
+
+  const result: WetStockMonitorResult = {
+    tanksChecked: tanks.length,
+    leakSuspects: suspects.length,
+    notificationsSent: 0,
+  };
+
+  if (suspects.length === 0) {
+    logger.info('No tank with a suspected leak');
+    return result;
+  }
+
+  const operationsUsers = await prisma.user.findMany({
+    where: { isActive: true, deletedAt: null, role: { in: ['CEO', 'DCO'] } },
+    select: { id: true },
+  });
+
+  const notifications: Array<{
+    userId: string;
+    type: string;
+    title: string;
+    message: string;
+    link: string;
+  }> = [];
+
+  for (const tank of suspects) {
+    const managers = await prisma.user.findMany({
+      where: { isActive: true, deletedAt: null, role: 'STATION_MANAGER', assignedStationId: tank.stationId },
+      select: { id: true },
+    });
+
+    const recipients = new Set<string>([...managers, ...operationsUsers].map((u) => u.id));
+    recipients.forEach((userId) => {
+      notifications.push({
+        userId,
+        type: 'WET_STOCK_ALERT',
+        title: 'Fuite de cuve suspectée',
+        message:
+          `${tank.stationCode} — Cuve ${tank.fuelType} : perte cumulée de ${Math.abs(tank.cumulativeVariance).toFixed(0)} L ` +
+          `sur ${tank.shiftCount} postes (${tank.variancePercent.toFixed(2)} % du volume vendu, ` +
+          `seuil ${(tank.lossThresholdPercent * 100).toFixed(2)} %).`,
+        link: `/admin/stations/${tank.stationId}`,
+      });
+    });
+  }
+
+  if (notifications.length > 0) {
+    await prisma.notification.createMany({ data: notifications });
+  }
+  result.notificationsSent = notifications.length;
+
+  logger.info(
+    `Wet-stock leak monitor completed: tanks=${tanks.length}, suspects=${suspects.length}, notifications=${notifications.length}`,
+  );
+
+  return result;
+}
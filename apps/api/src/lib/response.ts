@@ -1,5 +1,6 @@
 import { Request, Response } from 'express';
 import { v4 as uuidv4 } from 'uuid';
+import logger from './logger';
 
 /**
  * Safely extract a header value as a string.
@@ -64,6 +65,37 @@ export function sendError(res: Response, options: ErrorResponseOptions): void {
   });
 }
 
+/**
+ * Business error thrown by services and transactions ({ code, message, details?, statusCode }).
+ */
+export interface BusinessError {
+  code: string;
+  message: string;
+  details?: Record<string, unknown>;
+  statusCode: number;
+}
+
+export function isBusinessError(error: unknown): error is BusinessError {
+  return (
+    typeof error === 'object' &&
+    error !== null &&
+    typeof (error as BusinessError).code === 'string' &&
+    typeof (error as BusinessError).statusCode === 'number'
+  );
+}
+
+/**
+ * Send a business error as is; log anything else and answer 500 with the fallback message.
+ */
+export function sendBusinessError(res: Response, error: unknown, fallback: string): void {
+  if (isBusinessError(error)) {
+    sendError(res, { code: error.code, message: error.message, details: error.details, statusCode: error.statusCode });
+    return;
+  }
+  logger.error({ error }, fallback);
+  sendError(res, { code: 'INTERNAL_ERROR', message: fallback, statusCode: 500 });
+}
+
 export function sendPaginated<T>(
   res: Response,
   data: T[],
@@ -1,7 +1,9 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
+import crypto from 'crypto';
 import prisma from '../lib/prisma';
 import { sendError } from '../lib/response';
+import logger from '../lib/logger';
 
 export interface JwtPayload {
   userId: string;
@@ -15,6 +17,7 @@ declare global {
   namespace Express {
     interface Request {
       user?: JwtPayload;
+      atgDevice?: { id: string; stationId: string; name: string };
       requestId?: string;
     }
   }
@@ -97,3 +100,53 @@ export function generateRefreshToken(userId: string): string {
 export function verifyRefreshToken(token: string): { userId: string } {
   return jwt.verify(token, JWT_SECRET) as { userId: string };
 }
+
+// ─── ATG device authentication ───
+
+export function hashAtgKey(key: string): string {
+  return crypto.createHash('sha256').update(key).digest('hex');
+}
+
+export function generateAtgKey(): string {
+  return `atg_${crypto.randomBytes(24).toString('hex')}`;
+}
+
+/**
+ * Authenticate an automatic tank gauge by its API key (X-ATG-Key header).
+ * Only the SHA-256 of the key is stored; inactive devices are rejected.
+ * The device's lastSeenAt is written in the background, not awaited by the request.
+ */
+export async function requireAtgDevice(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const key = req.headers['x-atg-key'];
+
+    if (typeof key !== 'string' || !key) {
+      sendError(res, {
+        code: 'AUTH_MISSING_TOKEN',
+        message: 'ATG device key required',
+        statusCode: 401,
+      });
+      return;
+    }
+
+    const device = await prisma.atgDevice.findUnique({ where: { keyHash: hashAtgKey(key) } });
+    if (!device || !device.isActive) {
+      sendError(res, {
+        code: 'AUTH_INVALID_TOKEN',
+        message: 'Invalid or revoked ATG device key',
+        statusCode: 401,
+      });
+      return;
+    }
+
+    prisma.atgDevice
+      .update({ where: { id: device.id }, data: { lastSeenAt: new Date() } })
+      .catch((error) => logger.warn({ error, deviceId: device.id }, 'Failed to record ATG device last seen'));
+
+    req.atgDevice = { id: device.id, stationId: device.stationId, name: device.name };
+    next();
+  } catch (error) {
+    logger.error({ error }, 'Error authenticating ATG device');
+    sendError(res, { code: 'INTERNAL_ERROR', message: 'Failed to authenticate ATG device', statusCode: 500 });
+  }
+}
@@ -0,0 +1,126 @@
+import { Router, Request, Response } from 'express';
+import { ApprovalEntityType, Prisma } from '@prisma/client';
+import prisma from '../lib/prisma';
+import { sendSuccess, sendError, getParam } from '../lib/response';
+import { validate } from '../middleware/validate';
+import { requireAuth } from '../middleware/auth';
+import { requireRole } from '../middleware/rbac';
+import {
+  UserRole,
+  ApprovalEntityType as ApprovalEntityTypes,
+  publishApprovalPolicySchema,
+  approvalEntityTypeParamSchema,
+} from '@alcom/shared';
+import logger from '../lib/logger';
+import { publishApprovalPolicy } from '../services/approval.service';
+
+const router: Router = Router();
+
+router.use(requireAuth);
+
+const VIEW_ROLES = [UserRole.SUPER_ADMIN, UserRole.CEO, UserRole.CFO, UserRole.FINANCE_DIR];
+
+const policyInclude = {
+  publishedBy: { select: { id: true, fullName: true } },
+};
+
+// ═══════════════════════════════════════════════════════════════════
+// GET /approval-policies — Policy in force for each entity type
+// ═══════════════════════════════════════════════════════════════════
+router.get('/', requireRole(...VIEW_ROLES), async (_req: Request, res: Response) => {
+  try {
+    const policies = await prisma.approvalPolicy.findMany({
+      where: { isActive: true },
+      include: policyInclude,
+    });
+
+    sendSuccess(res, {
+      data: Object.values(ApprovalEntityTypes).map((entityType) => ({
+        entityType,
+        policy: policies.find((p) => p.entityType === entityType) ?? null,
+      })),
+    });
+  } catch (error) {
+    logger.error(`Error listing approval policies: ${error}`);
+    sendError(res, { code: 'INTERNAL_ERROR', message: 'Failed to fetch approval policies', statusCode: 500 });
+  }
+});
+
+// ═══════════════════════════════════════════════════════════════════
+// GET /approval-policies/:entityType — Published versions, latest first
+// ═══════════════════════════════════════════════════════════════════
+router.get(
+  '/:entityType',
+  requireRole(...VIEW_ROLES),
+  validate(approvalEntityTypeParamSchema, 'params'),
+  async (req: Request, res: Response) => {
+    try {
+      const entityType = getParam(req, 'entityType') as ApprovalEntityType;
+
+      const versions = await prisma.approvalPolicy.findMany({
+        where: { entityType },
+        include: {
+          ...policyInclude,
+          _count: { select: { invoices: true, expenses: true, prices: true } },
+        },
+        orderBy: { version: 'desc' },
+      });
+
+      sendSuccess(res, { data: versions });
+    } catch (error) {
+      logger.error(`Error listing approval policy versions: ${error}`);
+      sendError(res, { code: 'INTERNAL_ERROR', message: 'Failed to fetch approval policy versions', statusCode: 500 });
+    }
+  },
+);
+
+// ═══════════════════════════════════════════════════════════════════
+// POST /approval-policies/:entityType — Publish a new version
+// (items already submitted stay on the version they were routed by)
+// ═══════════════════════════════════════════════════════════════════
+router.post(
+  '/:entityType',
+  requireRole(UserRole.SUPER_ADMIN),
+  validate(approvalEntityTypeParamSchema, 'params'),
+  validate(publishApprovalPolicySchema),
+  async (req: Request, res: Response) => {
+    try {
+      const entityType = getParam(req, 'entityType') as ApprovalEntityType;
+      const { rules } = req.body;
+
+      const stationIds = [...new Set<string>(rules.flatMap((r: { stationIds?: string[] }) => r.stationIds ?? []))];
+      if (stationIds.length > 0) {
+        const found = await prisma.station.count({ where: { id: { in: stationIds }, deletedAt: null } });
+        if (found !== stationIds.length) {
+          sendError(res, { code: 'BIZ_INVALID_STATION', message: 'A rule references an unknown station', statusCode: 400 });
+          return;
+        }
+      }
+
+      const policy = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+        const created = await publishApprovalPolicy(tx, entityType, req.body, req.user!.userId);
+
+        await tx.auditLog.create({
+          data: {
+            userId: req.user!.userId,
+            action: 'APPROVAL_POLICY_PUBLISHED',
+            entityType: 'ApprovalPolicy',
+            entityId: created.id,
+            changes: { entityType, version: created.version, rules, notes: req.body.notes },
+          },
+        });
+
+        return created;
+      });
+
+      logger.info(`Approval policy published: ${entityType} v${policy.version} by ${req.user!.userId}`);
+
+      sendSuccess(res, { data: policy, statusCode: 201 });
+    } catch (error) {
+      logger.error(`Error publishing approval policy: ${error}`);
+      sendError(res, { code: 'INTERNAL_ERROR', message: 'Failed to publish approval policy', statusCode: 500 });
+    }
+  },
+);
+
+export default router;
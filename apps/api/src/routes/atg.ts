@@ -0,0 +1,192 @@
+import express, { Router, Request, Response, NextFunction } from 'express';
+import prisma from '../lib/prisma';
+import { sendSuccess, sendError } from '../lib/response';
+import { validate, validateQuery } from '../middleware/validate';
+import { requireAuth, requireAtgDevice, generateAtgKey, hashAtgKey } from '../middleware/auth';
+import { requireRole } from '../middleware/rbac';
+import {
+  UserRole,
+  atgReadingBatchSchema,
+  createAtgDeviceSchema,
+  tankReadingFiltersSchema,
+} from '@alcom/shared';
+import logger from '../lib/logger';
+import { ingestTankReadings, parseAtgCsv } from '../services/atg.service';
+
+const router = Router();
+
+/** Turn a text/csv body into { readings } so it goes through the same validation as JSON. */
+function csvToReadings(req: Request, res: Response, next: NextFunction): void {
+  try {
+    req.body = { readings: parseAtgCsv(typeof req.body === 'string' ? req.body : '') };
+    next();
+  } catch (error: any) {
+    sendError(res, { code: error.code, message: error.message, statusCode: error.statusCode });
+  }
+}
+
+async function handleIngest(req: Request, res: Response) {
+  try {
+    const result = await ingestTankReadings(req.atgDevice!, req.body.readings);
+    return sendSuccess(res, { data: result, statusCode: 201 });
+  } catch (error: any) {
+    // Business errors thrown from transaction
+    if (error.code && error.statusCode) {
+      return sendError(res, {
+        code: error.code,
+        message: error.message,
+        details: error.details,
+        statusCode: error.statusCode,
+      });
+    }
+
+    logger.error({ error, deviceId: req.atgDevice?.id }, 'Error ingesting ATG readings');
+    return sendError(res, { code: 'INTERNAL_ERROR', message: 'Failed to store readings', statusCode: 500 });
+  }
+}
+
+// ─── Ingestion (device key auth) ───
+
+// POST /atg/readings — JSON batch from a gauge
+router.post('/readings', requireAtgDevice, validate(atgReadingBatchSchema), handleIngest);
+
+// POST /atg/readings/csv — CSV upload (header: tankId,readAt,volume,height,temperature,waterVolume,waterHeight)
+router.post(
+  '/readings/csv',
+  requireAtgDevice,
+  express.text({ type: ['text/csv', 'text/plain'], limit: '5mb' }),
+  csvToReadings,
+  validate(atgReadingBatchSchema),
+  handleIngest,
+);
+
+// ─── Device management ───
+
+// GET /atg/devices — List registered gauges
+router.get('/devices', requireAuth, requireRole(UserRole.SUPER_ADMIN, UserRole.DCO), async (req: Request, res: Response) => {
+  try {
+    const { stationId } = req.query;
+    const devices = await prisma.atgDevice.findMany({
+      where: stationId ? { stationId: stationId as string } : {},
+      select: {
+        id: true,
+        name: true,
+        isActive: true,
+        lastSeenAt: true,
+        createdAt: true,
+        station: { select: { id: true, code: true, name: true } },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+    return sendSuccess(res, { data: devices });
+  } catch (error) {
+    return sendError(res, { code: 'INTERNAL_ERROR', message: 'Failed to fetch ATG devices', statusCode: 500 });
+  }
+});
+
+// POST /atg/devices — Register a gauge; the API key is only returned once
+router.post('/devices', requireAuth, requireRole(UserRole.SUPER_ADMIN), validate(createAtgDeviceSchema), async (req: Request, res: Response) => {
+  try {
+    const { stationId, name } = req.body;
+
+    const station = await prisma.station.findFirst({ where: { id: stationId, deletedAt: null } });
+    if (!station) {
+      return sendError(res, { code: 'NOT_FOUND', message: 'Station not found', statusCode: 404 });
+    }
+
+    const apiKey = generateAtgKey();
+    const device = await prisma.$transaction(async (tx) => {
+      const created = await tx.atgDevice.create({
+        data: { stationId, name, keyHash: hashAtgKey(apiKey) },
+        select: { id: true, stationId: true, name: true, isActive: true, createdAt: true },
+      });
+      await tx.auditLog.create({
+        data: {
+          userId: req.user!.userId,
+          action: 'ATG_DEVICE_CREATED',
+          entityType: 'AtgDevice',
+          entityId: created.id,
+          changes: { stationId, name },
+        },
+      });
+      return created;
+    });
+
+    return sendSuccess(res, { data: { ...device, apiKey }, statusCode: 201 });
+  } catch (error) {
+    return sendError(res, { code: 'INTERNAL_ERROR', message: 'Failed to register ATG device', statusCode: 500 });
+  }
+});
+
+// DELETE /atg/devices/:id — Revoke a gauge's key (readings are kept)
+router.delete('/devices/:id', requireAuth, requireRole(UserRole.SUPER_ADMIN), async (req: Request, res: Response) => {
+  try {
+    const id = req.params.id as string;
+
+    const device = await prisma.atgDevice.findUnique({ where: { id } });
+    if (!device) {
+      return sendError(res, { code: 'NOT_FOUND', message: 'ATG device not found', statusCode: 404 });
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await tx.atgDevice.update({ where: { id }, data: { isActive: false } });
+      await tx.auditLog.create({
+        data: {
+          userId: req.user!.userId,
+          action: 'ATG_DEVICE_REVOKED',
+          entityType: 'AtgDevice',
+          entityId: id,
+        },
+      });
+    });
+
+    return sendSuccess(res, { data: { message: 'ATG device revoked successfully' } });
+  } catch (error) {
+    return sendError(res, { code: 'INTERNAL_ERROR', message: 'Failed to revoke ATG device', statusCode: 500 });
+  }
+});
+
+// ─── Reading history ───
+
+// GET /atg/tanks/:tankId/readings — Time series for a tank, newest first
+router.get('/tanks/:tankId/readings', requireAuth, validateQuery(tankReadingFiltersSchema), async (req: Request, res: Response) => {
+  try {
+    const tankId = req.params.tankId as string;
+    const { from, to, limit } = req.query as unknown as { from?: string; to?: string; limit: number };
+
+    const tank = await prisma.tank.findFirst({ where: { id: tankId, deletedAt: null } });
+    if (!tank) {
+      return sendError(res, { code: 'NOT_FOUND', message: 'Tank not found', statusCode: 404 });
+    }
+
+    const globalRoles: string[] = [
+      UserRole.SUPER_ADMIN,
+      UserRole.CEO,
+      UserRole.CFO,
+      UserRole.FINANCE_DIR,
+      UserRole.LOGISTICS,
+      UserRole.DCO,
+    ];
+    if (!globalRoles.includes(req.user!.role) && req.user!.stationId !== tank.stationId) {
+      return sendError(res, { code: 'FORBIDDEN_STATION', message: 'Access denied to this station', statusCode: 403 });
+    }
+
+    const readings = await prisma.tankReading.findMany({
+      where: {
+        tankId,
+        readAt: {
+          ...(from && { gte: new Date(from) }),
+          ...(to && { lte: new Date(to) }),
+        },
+      },
+      orderBy: { readAt: 'desc' },
+      take: limit,
+    });
+
+    return sendSuccess(res, { data: readings });
+  } catch (error) {
+    return sendError(res, { code: 'INTERNAL_ERROR', message: 'Failed to fetch tank readings', statusCode: 500 });
+  }
+});
+
+export default router;
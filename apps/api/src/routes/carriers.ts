@@ -0,0 +1,151 @@
+import { Router, Request, Response } from 'express';
+import prisma from '../lib/prisma';
+import { sendSuccess, sendError, getParam } from '../lib/response';
+import { validate, validateQuery } from '../middleware/validate';
+import { requireAuth } from '../middleware/auth';
+import { requireRole } from '../middleware/rbac';
+import { UserRole, createCarrierSchema, updateCarrierSchema, carrierScorecardFiltersSchema } from '@alcom/shared';
+import logger from '../lib/logger';
+import { findExpiringDocuments, getCarrierScorecards } from '../services/carrier.service';
+
+const router: Router = Router();
+
+router.use(requireAuth);
+
+// Logistics keeps the register of the carriers hauling fuel from the depot
+const MANAGE_ROLES = [UserRole.LOGISTICS, UserRole.SUPER_ADMIN];
+
+const VIEW_ROLES = [...MANAGE_ROLES, UserRole.DCO, UserRole.CEO, UserRole.CFO];
+
+// ═══════════════════════════════════════════════════════════════════
+// GET /carriers — Carriers with their trucks and drivers
+// ═══════════════════════════════════════════════════════════════════
+router.get('/', requireRole(...VIEW_ROLES), async (_req: Request, res: Response) => {
+  try {
+    const carriers = await prisma.carrier.findMany({
+      include: {
+        trucks: {
+          select: { id: true, plateNumber: true, isActive: true },
+          orderBy: { plateNumber: 'asc' },
+        },
+        drivers: {
+          select: { id: true, fullName: true, isActive: true },
+          orderBy: { fullName: 'asc' },
+        },
+      },
+      orderBy: { name: 'asc' },
+    });
+
+    sendSuccess(res, { data: carriers });
+  } catch (error) {
+    logger.error(`Error listing carriers: ${error}`);
+    sendError(res, { code: 'INTERNAL_ERROR', message: 'Failed to fetch carriers', statusCode: 500 });
+  }
+});
+
+// ═══════════════════════════════════════════════════════════════════
+// GET /carriers/scorecard — Delivery performance per transporter over a period
+// ═══════════════════════════════════════════════════════════════════
+router.get(
+  '/scorecard',
+  requireRole(...VIEW_ROLES),
+  validateQuery(carrierScorecardFiltersSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const { from, to } = req.query as Record<string, any>;
+      const toDate = to ? new Date(`${to}T00:00:00.000Z`) : undefined;
+      if (toDate) toDate.setUTCDate(toDate.getUTCDate() + 1);
+
+      const scorecards = await getCarrierScorecards(prisma, {
+        from: from ? new Date(`${from}T00:00:00.000Z`) : undefined,
+        to: toDate,
+      });
+
+      sendSuccess(res, { data: scorecards });
+    } catch (error) {
+      logger.error(`Error computing carrier scorecard: ${error}`);
+      sendError(res, { code: 'INTERNAL_ERROR', message: 'Failed to compute carrier scorecard', statusCode: 500 });
+    }
+  },
+);
+
+// ═══════════════════════════════════════════════════════════════════
+// GET /carriers/expiring-documents — Calibration certificates and licences to renew
+// ═══════════════════════════════════════════════════════════════════
+router.get('/expiring-documents', requireRole(...VIEW_ROLES), async (_req: Request, res: Response) => {
+  try {
+    const documents = await findExpiringDocuments(prisma);
+    sendSuccess(res, { data: documents });
+  } catch (error) {
+    logger.error(`Error listing expiring documents: ${error}`);
+    sendError(res, { code: 'INTERNAL_ERROR', message: 'Failed to fetch expiring documents', statusCode: 500 });
+  }
+});
+
+// ═══════════════════════════════════════════════════════════════════
+// POST /carriers — Register a carrier
+// ═══════════════════════════════════════════════════════════════════
+router.post(
+  '/',
+  requireRole(...MANAGE_ROLES),
+  validate(createCarrierSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const carrier = await prisma.carrier.create({ data: req.body });
+
+      await prisma.auditLog.create({
+        data: {
+          userId: req.user!.userId,
+          action: 'CARRIER_CREATED',
+          entityType: 'Carrier',
+          entityId: carrier.id,
+          changes: req.body,
+        },
+      });
+
+      sendSuccess(res, { data: carrier, statusCode: 201 });
+    } catch (error) {
+      logger.error(`Error creating carrier: ${error}`);
+      sendError(res, { code: 'INTERNAL_ERROR', message: 'Failed to create carrier', statusCode: 500 });
+    }
+  },
+);
+
+// ═══════════════════════════════════════════════════════════════════
+// PATCH /carriers/:id — Update contact details or deactivate a carrier
+// ═══════════════════════════════════════════════════════════════════
+router.patch(
+  '/:id',
+  requireRole(...MANAGE_ROLES),
+  validate(updateCarrierSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const id = getParam(req, 'id');
+
+      const carrier = await prisma.carrier.findUnique({ where: { id } });
+      if (!carrier) {
+        sendError(res, { code: 'NOT_FOUND', message: 'Carrier not found', statusCode: 404 });
+        return;
+      }
+
+      const updated = await prisma.carrier.update({ where: { id }, data: req.body });
+
+      await prisma.auditLog.create({
+        data: {
+          userId: req.user!.userId,
+          action: 'CARRIER_UPDATED',
+          entityType: 'Carrier',
+          entityId: id,
+          changes: req.body,
+        },
+      });
+
+      sendSuccess(res, { data: updated });
+    } catch (error) {
+      logger.error(`Error updating carrier: ${error}`);
+      sendError(res, { code: 'INTERNAL_ERROR', message: 'Failed to update carrier', statusCode: 500 });
+    }
+  },
+);
+
+export default router;
@@ -0,0 +1,419 @@
+import { Router, Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
+import Decimal from 'decimal.js';
+import prisma from '../lib/prisma';
+import { sendSuccess, sendError, sendPaginated, getParam } from '../lib/response';
+import { validate, validateQuery } from '../middleware/validate';
+import { requireAuth } from '../middleware/auth';
+import { requireRole } from '../middleware/rbac';
+import {
+  UserRole,
+  createCashHandoverSchema,
+  createBankDepositSchema,
+  bankDepositFiltersSchema,
+} from '@alcom/shared';
+import logger from '../lib/logger';
+import {
+  findUndepositedShifts,
+  getUndepositedBalances,
+  refreshShiftCashDeposits,
+} from '../services/cash-deposit.service';
+
+const router: Router = Router();
+
+router.use(requireAuth);
+
+const STATION_ROLES: string[] = [UserRole.STATION_MANAGER, UserRole.CHEF_PISTE];
+
+const DEPOSIT_ROLES = [UserRole.STATION_MANAGER, UserRole.FINANCE_DIR, UserRole.CFO, UserRole.SUPER_ADMIN];
+
+const handoverInclude = {
+  handedBy: { select: { id: true, fullName: true } },
+  receivedBy: { select: { id: true, fullName: true } },
+};
+
+const depositInclude = {
+  station: { select: { id: true, code: true, name: true } },
+  depositedBy: { select: { id: true, fullName: true } },
+  shifts: {
+    include: { shiftReport: { select: { id: true, shiftDate: true, shiftType: true, cashCounted: true } } },
+  },
+};
+
+/**
+ * Station-scoped users only ever see their own station.
+ */
+function isStationScoped(req: Request): boolean {
+  return STATION_ROLES.includes(req.user!.role);
+}
+
+function canAccessStation(req: Request, stationId: string): boolean {
+  return !isStationScoped(req) || req.user!.stationId === stationId;
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// GET /cash/undeposited — Undeposited cash per station, with the outstanding shifts
+// ═══════════════════════════════════════════════════════════════════
+router.get(
+  '/undeposited',
+  requireRole(...DEPOSIT_ROLES, UserRole.CEO, UserRole.CHEF_PISTE),
+  async (req: Request, res: Response) => {
+    try {
+      let stationIds: string[] | undefined;
+      if (isStationScoped(req)) {
+        stationIds = req.user!.stationId ? [req.user!.stationId] : [];
+      } else if (req.query.stationId) {
+        stationIds = [req.query.stationId as string];
+      }
+
+      const [balances, shifts] = await Promise.all([
+        getUndepositedBalances(prisma, stationIds),
+        findUndepositedShifts(prisma, { stationIds }),
+      ]);
+
+      sendSuccess(res, { data: { balances, shifts } });
+    } catch (error) {
+      logger.error(`Error fetching undeposited cash: ${error}`);
+      sendError(res, { code: 'INTERNAL_ERROR', message: 'Failed to fetch undeposited cash', statusCode: 500 });
+    }
+  },
+);
+
+// ═══════════════════════════════════════════════════════════════════
+// GET /cash/shifts/:shiftId/handovers — Safe drops and closing envelope of a shift
+// ═══════════════════════════════════════════════════════════════════
+router.get('/shifts/:shiftId/handovers', async (req: Request, res: Response) => {
+  try {
+    const shiftId = getParam(req, 'shiftId');
+
+    const shift = await prisma.shiftReport.findUnique({ where: { id: shiftId }, select: { stationId: true } });
+    if (!shift) {
+      sendError(res, { code: 'NOT_FOUND', message: 'Shift not found', statusCode: 404 });
+      return;
+    }
+    if (!canAccessStation(req, shift.stationId)) {
+      sendError(res, { code: 'FORBIDDEN_STATION', message: 'Access denied to this station', statusCode: 403 });
+      return;
+    }
+
+    const handovers = await prisma.cashHandover.findMany({
+      where: { shiftReportId: shiftId },
+      include: handoverInclude,
+      orderBy: { createdAt: 'asc' },
+    });
+
+    sendSuccess(res, { data: handovers });
+  } catch (error) {
+    logger.error(`Error listing cash handovers: ${error}`);
+    sendError(res, { code: 'INTERNAL_ERROR', message: 'Failed to fetch cash handovers', statusCode: 500 });
+  }
+});
+
+// ═══════════════════════════════════════════════════════════════════
+// POST /cash/shifts/:shiftId/handovers — Record a safe drop (open shift)
+// or the closing envelope (closed shift)
+// ═══════════════════════════════════════════════════════════════════
+router.post(
+  '/shifts/:shiftId/handovers',
+  requireRole(UserRole.CHEF_PISTE, UserRole.STATION_MANAGER, UserRole.SUPER_ADMIN),
+  validate(createCashHandoverSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const shiftId = getParam(req, 'shiftId');
+      const { type, amount, envelopeNumber, notes } = req.body;
+
+      const shift = await prisma.shiftReport.findUnique({
+        where: { id: shiftId },
+        include: { cashHandovers: { where: { type: 'CLOSING_ENVELOPE' } } },
+      });
+      if (!shift) {
+        sendError(res, { code: 'NOT_FOUND', message: 'Shift not found', statusCode: 404 });
+        return;
+      }
+      if (!canAccessStation(req, shift.stationId)) {
+        sendError(res, { code: 'FORBIDDEN_STATION', message: 'Access denied to this station', statusCode: 403 });
+        return;
+      }
+
+      if (type === 'SAFE_DROP' && shift.status !== 'OPEN') {
+        sendError(res, { code: 'BIZ_SHIFT_NOT_OPEN', message: 'Safe drops are recorded during an open shift', statusCode: 409 });
+        return;
+      }
+      if (type === 'CLOSING_ENVELOPE') {
+        if (shift.status === 'OPEN') {
+          sendError(res, { code: 'BIZ_SHIFT_NOT_CLOSED', message: 'Close the shift before handing over its envelope', statusCode: 409 });
+          return;
+        }
+        if (shift.cashHandovers.length > 0) {
+          sendError(res, { code: 'CONFLICT', message: 'The closing envelope of this shift was already handed over', statusCode: 409 });
+          return;
+        }
+      }
+
+      const handover = await prisma.$transaction(async (tx) => {
+        const created = await tx.cashHandover.create({
+          data: {
+            shiftReportId: shiftId,
+            type,
+            amount: new Prisma.Decimal(amount),
+            envelopeNumber,
+            notes,
+            handedById: req.user!.userId,
+          },
+          include: handoverInclude,
+        });
+
+        await tx.auditLog.create({
+          data: {
+            userId: req.user!.userId,
+            action: 'CASH_HANDOVER_CREATED',
+            entityType: 'ShiftReport',
+            entityId: shiftId,
+            changes: { handoverId: created.id, type, amount, envelopeNumber },
+          },
+        });
+
+        return created;
+      });
+
+      sendSuccess(res, { data: handover, statusCode: 201 });
+    } catch (error) {
+      logger.error(`Error recording cash handover: ${error}`);
+      sendError(res, { code: 'INTERNAL_ERROR', message: 'Failed to record cash handover', statusCode: 500 });
+    }
+  },
+);
+
+// ═══════════════════════════════════════════════════════════════════
+// PUT /cash/handovers/:id/receive — Manager confirms receipt of the cash
+// ═══════════════════════════════════════════════════════════════════
+router.put(
+  '/handovers/:id/receive',
+  requireRole(UserRole.STATION_MANAGER, UserRole.SUPER_ADMIN),
+  async (req: Request, res: Response) => {
+    try {
+      const id = getParam(req, 'id');
+
+      const handover = await prisma.cashHandover.findUnique({
+        where: { id },
+        include: { shiftReport: { select: { stationId: true } } },
+      });
+      if (!handover) {
+        sendError(res, { code: 'NOT_FOUND', message: 'Cash handover not found', statusCode: 404 });
+        return;
+      }
+      if (!canAccessStation(req, handover.shiftReport.stationId)) {
+        sendError(res, { code: 'FORBIDDEN_STATION', message: 'Access denied to this station', statusCode: 403 });
+        return;
+      }
+      if (handover.receivedAt) {
+        sendError(res, { code: 'INVALID_STATUS', message: 'Cash handover was already received', statusCode: 400 });
+        return;
+      }
+      if (handover.handedById === req.user!.userId) {
+        sendError(res, { code: 'FORBIDDEN', message: 'You cannot receive your own handover', statusCode: 403 });
+        return;
+      }
+
+      const updated = await prisma.$transaction(async (tx) => {
+        const received = await tx.cashHandover.update({
+          where: { id },
+          data: { receivedById: req.user!.userId, receivedAt: new Date() },
+          include: handoverInclude,
+        });
+
+        await tx.auditLog.create({
+          data: {
+            userId: req.user!.userId,
+            action: 'CASH_HANDOVER_RECEIVED',
+            entityType: 'ShiftReport',
+            entityId: handover.shiftReportId,
+            changes: { handoverId: id, amount: Number(handover.amount) },
+          },
+        });
+
+        return received;
+      });
+
+      sendSuccess(res, { data: updated });
+    } catch (error) {
+      logger.error(`Error receiving cash handover: ${error}`);
+      sendError(res, { code: 'INTERNAL_ERROR', message: 'Failed to receive cash handover', statusCode: 500 });
+    }
+  },
+);
+
+// ═══════════════════════════════════════════════════════════════════
+// GET /cash/deposits — List bank deposits (paginated)
+// ═══════════════════════════════════════════════════════════════════
+router.get(
+  '/deposits',
+  requireRole(...DEPOSIT_ROLES, UserRole.CEO),
+  validateQuery(bankDepositFiltersSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const query = req.query as Record<string, any>;
+      const page = Number(query.page) || 1;
+      const limit = Number(query.limit) || 20;
+
+      const where: Prisma.BankDepositWhereInput = {};
+      if (isStationScoped(req)) {
+        where.stationId = req.user!.stationId ?? undefined;
+      } else if (query.stationId) {
+        where.stationId = query.stationId;
+      }
+      if (query.dateFrom || query.dateTo) {
+        where.depositDate = {
+          ...(query.dateFrom && { gte: new Date(query.dateFrom) }),
+          ...(query.dateTo && { lte: new Date(query.dateTo) }),
+        };
+      }
+
+      const [deposits, total] = await Promise.all([
+        prisma.bankDeposit.findMany({
+          where,
+          include: depositInclude,
+          orderBy: [{ depositDate: 'desc' }, { createdAt: 'desc' }],
+          skip: (page - 1) * limit,
+          take: limit,
+        }),
+        prisma.bankDeposit.count({ where }),
+      ]);
+
+      sendPaginated(res, deposits, total, page, limit);
+    } catch (error) {
+      logger.error(`Error listing bank deposits: ${error}`);
+      sendError(res, { code: 'INTERNAL_ERROR', message: 'Failed to fetch bank deposits', statusCode: 500 });
+    }
+  },
+);
+
+// ═══════════════════════════════════════════════════════════════════
+// GET /cash/deposits/:id — Bank deposit detail
+// ═══════════════════════════════════════════════════════════════════
+router.get(
+  '/deposits/:id',
+  requireRole(...DEPOSIT_ROLES, UserRole.CEO),
+  async (req: Request, res: Response) => {
+    try {
+      const deposit = await prisma.bankDeposit.findUnique({
+        where: { id: getParam(req, 'id') },
+        include: depositInclude,
+      });
+
+      if (!deposit) {
+        sendError(res, { code: 'NOT_FOUND', message: 'Bank deposit not found', statusCode: 404 });
+        return;
+      }
+      if (!canAccessStation(req, deposit.stationId)) {
+        sendError(res, { code: 'FORBIDDEN_STATION', message: 'Access denied to this station', statusCode: 403 });
+        return;
+      }
+
+      sendSuccess(res, { data: deposit });
+    } catch (error) {
+      logger.error(`Error fetching bank deposit: ${error}`);
+      sendError(res, { code: 'INTERNAL_ERROR', message: 'Failed to fetch bank deposit', statusCode: 500 });
+    }
+  },
+);
+
+// ═══════════════════════════════════════════════════════════════════
+// POST /cash/deposits — Record a bank deposit slip matched against shifts
+// ═══════════════════════════════════════════════════════════════════
+router.post(
+  '/deposits',
+  requireRole(...DEPOSIT_ROLES),
+  validate(createBankDepositSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const { stationId, bankName, slipNumber, amount, depositDate, proofUrl, notes, shifts } = req.body;
+
+      if (!canAccessStation(req, stationId)) {
+        sendError(res, { code: 'FORBIDDEN_STATION', message: 'Access denied to this station', statusCode: 403 });
+        return;
+      }
+
+      const existing = await prisma.bankDeposit.findUnique({
+        where: { bankName_slipNumber: { bankName, slipNumber } },
+      });
+      if (existing) {
+        sendError(res, { code: 'CONFLICT', message: 'This deposit slip was already recorded', statusCode: 409 });
+        return;
+      }
+
+      const deposit = await prisma.$transaction(
+        async (tx) => {
+          // Only closed shifts of this station with cash still to deposit can be matched
+          const allocations = shifts as { shiftReportId: string; amount: number }[];
+          const shiftReportIds = allocations.map((s) => s.shiftReportId);
+          const outstanding = await findUndepositedShifts(tx, { stationIds: [stationId], shiftReportIds });
+
+          for (const allocation of allocations) {
+            const shift = outstanding.find((s) => s.shiftReportId === allocation.shiftReportId);
+            if (!shift) {
+              throw {
+                code: 'BIZ_SHIFT_NOT_DEPOSITABLE',
+                message: `Shift ${allocation.shiftReportId} has no undeposited cash at this station`,
+                statusCode: 400,
+              };
+            }
+            if (new Decimal(allocation.amount).gt(shift.outstanding)) {
+              throw {
+                code: 'BIZ_DEPOSIT_EXCEEDS_CASH',
+                message: `Matched amount exceeds the undeposited cash of shift ${allocation.shiftReportId}`,
+                details: { shiftReportId: shift.shiftReportId, outstanding: shift.outstanding },
+                statusCode: 400,
+              };
+            }
+          }
+
+          const created = await tx.bankDeposit.create({
+            data: {
+              stationId,
+              bankName,
+              slipNumber,
+              amount: new Prisma.Decimal(amount),
+              depositDate: new Date(depositDate),
+              proofUrl,
+              notes,
+              depositedById: req.user!.userId,
+              shifts: {
+                create: shifts.map((s: { shiftReportId: string; amount: number }) => ({
+                  shiftReportId: s.shiftReportId,
+                  amount: new Prisma.Decimal(s.amount),
+                })),
+              },
+            },
+            include: depositInclude,
+          });
+          await refreshShiftCashDeposits(tx, shiftReportIds);
+
+          await tx.auditLog.create({
+            data: {
+              userId: req.user!.userId,
+              action: 'BANK_DEPOSIT_RECORDED',
+              entityType: 'BankDeposit',
+              entityId: created.id,
+              changes: { stationId, bankName, slipNumber, amount, shifts },
+            },
+          });
+
+          return created;
+        },
+        { isolationLevel: Prisma.TransactionIsolationLevel.Serializable },
+      );
+
+      sendSuccess(res, { data: deposit, statusCode: 201 });
+    } catch (error: any) {
+      if (error.code && error.statusCode) {
+        sendError(res, { code: error.code, message: error.message, details: error.details, statusCode: error.statusCode });
+        return;
+      }
+      logger.error(`Error recording bank deposit: ${error}`);
+      sendError(res, { code: 'INTERNAL_ERROR', message: 'Failed to record bank deposit', statusCode: 500 });
+    }
+  },
+);
+
+export default router;
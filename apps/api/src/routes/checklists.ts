@@ -13,6 +13,7 @@ import {
   checklistListFiltersSchema,
 } from '@alcom/shared';
 import logger from '../lib/logger';
+import { findShiftPattern, getShiftPatterns } from '../services/shift-pattern.service';
 import { z } from 'zod';
 
 const router: Router = Router();
@@ -188,6 +189,16 @@ router.post(
       return;
     }
 
+    if (!findShiftPattern(station.settings, shiftType)) {
+      sendError(res, {
+        code: 'BIZ_INVALID_SHIFT_TYPE',
+        message: `Shift type ${shiftType} is not defined for this station`,
+        details: { allowed: getShiftPatterns(station.settings).map((p) => p.code) },
+        statusCode: 400,
+      });
+      return;
+    }
+
     // Verify template exists and is active
     const template = await prisma.checklistTemplate.findUnique({
       where: { id: templateId },
@@ -0,0 +1,229 @@
+import { Router, Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
+import prisma from '../lib/prisma';
+import { sendSuccess, sendError, sendPaginated, getParam, sendBusinessError } from '../lib/response';
+import { validate, validateQuery } from '../middleware/validate';
+import { requireAuth } from '../middleware/auth';
+import { requireRole } from '../middleware/rbac';
+import {
+  UserRole,
+  createCouponBatchSchema,
+  sellCouponBatchSchema,
+  checkCouponsSchema,
+  couponBatchFiltersSchema,
+} from '@alcom/shared';
+import logger from '../lib/logger';
+import {
+  couponBatchRelations,
+  issueCouponBatch,
+  sellCouponBatch,
+  checkCouponSerials,
+  getCouponLiability,
+} from '../services/coupon.service';
+
+const router: Router = Router();
+
+router.use(requireAuth);
+
+// Coupon batches are printed and sold by finance
+const ACCOUNT_ROLES = [UserRole.SUPER_ADMIN, UserRole.CEO, UserRole.CFO, UserRole.FINANCE_DIR];
+
+const REPORT_ROLES = [...ACCOUNT_ROLES, UserRole.DCO];
+
+// Roles that close shifts check the coupons of the cash envelope
+const CHECK_ROLES = [UserRole.SUPER_ADMIN, UserRole.CEO, UserRole.CFO, UserRole.STATION_MANAGER, UserRole.CHEF_PISTE];
+
+const STATION_ROLES: string[] = [UserRole.STATION_MANAGER, UserRole.CHEF_PISTE];
+
+// ═══════════════════════════════════════════════════════════════════
+// GET /coupons — Coupon batches with their redemption progress (paginated)
+// ═══════════════════════════════════════════════════════════════════
+router.get(
+  '/',
+  requireRole(...REPORT_ROLES),
+  validateQuery(couponBatchFiltersSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const { sold, customerId, page = 1, limit = 20 } = req.query as Record<string, any>;
+
+      const where: Prisma.CouponBatchWhereInput = {};
+      if (sold !== undefined) {
+        where.soldAt = sold === 'true' || sold === true ? { not: null } : null;
+      }
+      if (customerId) where.customerId = customerId;
+
+      const [batches, total] = await Promise.all([
+        prisma.couponBatch.findMany({
+          where,
+          include: couponBatchRelations,
+          orderBy: { createdAt: 'desc' },
+          skip: (Number(page) - 1) * Number(limit),
+          take: Number(limit),
+        }),
+        prisma.couponBatch.count({ where }),
+      ]);
+
+      const redeemed = await prisma.fuelCoupon.groupBy({
+        by: ['batchId'],
+        where: { batchId: { in: batches.map((b) => b.id) }, status: 'REDEEMED' },
+        _count: { _all: true },
+      });
+
+      sendPaginated(
+        res,
+        batches.map((b) => ({
+          ...b,
+          redeemedCount: redeemed.find((r) => r.batchId === b.id)?._count._all ?? 0,
+        })),
+        total,
+        Number(page),
+        Number(limit),
+      );
+    } catch (error) {
+      logger.error(`Error listing coupon batches: ${error}`);
+      sendError(res, { code: 'INTERNAL_ERROR', message: 'Failed to fetch coupon batches', statusCode: 500 });
+    }
+  },
+);
+
+// ═══════════════════════════════════════════════════════════════════
+// POST /coupons — Issue a batch of serial-numbered coupons
+// ═══════════════════════════════════════════════════════════════════
+router.post(
+  '/',
+  requireRole(...ACCOUNT_ROLES),
+  validate(createCouponBatchSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const batch = await prisma.$transaction(async (tx) => {
+        const created = await issueCouponBatch(tx, req.body, req.user!.userId);
+        await tx.auditLog.create({
+          data: {
+            userId: req.user!.userId,
+            action: 'COUPON_BATCH_ISSUED',
+            entityType: 'CouponBatch',
+            entityId: created.id,
+            changes: req.body,
+          },
+        });
+        return created;
+      });
+
+      sendSuccess(res, { data: batch, statusCode: 201 });
+    } catch (error: any) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        sendError(res, { code: 'CONFLICT', message: 'This batch number already exists', statusCode: 409 });
+        return;
+      }
+      sendBusinessError(res, error, 'Failed to issue coupon batch');
+    }
+  },
+);
+
+// ═══════════════════════════════════════════════════════════════════
+// GET /coupons/liability — Coupons sold and not yet redeemed
+// ═══════════════════════════════════════════════════════════════════
+router.get('/liability', requireRole(...REPORT_ROLES), async (_req: Request, res: Response) => {
+  try {
+    const liability = await getCouponLiability(prisma);
+    sendSuccess(res, { data: liability });
+  } catch (error) {
+    logger.error(`Error computing coupon liability: ${error}`);
+    sendError(res, { code: 'INTERNAL_ERROR', message: 'Failed to compute coupon liability', statusCode: 500 });
+  }
+});
+
+// ═══════════════════════════════════════════════════════════════════
+// POST /coupons/check — Validate the serials of a cash envelope before close
+// ═══════════════════════════════════════════════════════════════════
+router.post(
+  '/check',
+  requireRole(...CHECK_ROLES),
+  validate(checkCouponsSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const shift = await prisma.shiftReport.findUnique({
+        where: { id: req.body.shiftReportId },
+        select: { stationId: true, shiftDate: true },
+      });
+      if (!shift) {
+        sendError(res, { code: 'NOT_FOUND', message: 'Shift not found', statusCode: 404 });
+        return;
+      }
+      if (STATION_ROLES.includes(req.user!.role) && req.user!.stationId !== shift.stationId) {
+        sendError(res, { code: 'FORBIDDEN_STATION', message: 'Access denied to this station', statusCode: 403 });
+        return;
+      }
+
+      const check = await checkCouponSerials(prisma, req.body.serials, shift.shiftDate);
+      sendSuccess(res, { data: check });
+    } catch (error) {
+      logger.error(`Error checking coupons: ${error}`);
+      sendError(res, { code: 'INTERNAL_ERROR', message: 'Failed to check coupons', statusCode: 500 });
+    }
+  },
+);
+
+// ═══════════════════════════════════════════════════════════════════
+// GET /coupons/:id — Batch with the status of each coupon
+// ═══════════════════════════════════════════════════════════════════
+router.get('/:id', requireRole(...REPORT_ROLES), async (req: Request, res: Response) => {
+  try {
+    const batch = await prisma.couponBatch.findUnique({
+      where: { id: getParam(req, 'id') },
+      include: {
+        ...couponBatchRelations,
+        coupons: {
+          include: {
+            shiftReport: {
+              select: { id: true, shiftDate: true, shiftType: true, station: { select: { code: true } } },
+            },
+          },
+          orderBy: { serialNumber: 'asc' },
+        },
+      },
+    });
+    if (!batch) {
+      sendError(res, { code: 'NOT_FOUND', message: 'Coupon batch not found', statusCode: 404 });
+      return;
+    }
+
+    sendSuccess(res, { data: batch });
+  } catch (error) {
+    logger.error(`Error fetching coupon batch: ${error}`);
+    sendError(res, { code: 'INTERNAL_ERROR', message: 'Failed to fetch coupon batch', statusCode: 500 });
+  }
+});
+
+// ═══════════════════════════════════════════════════════════════════
+// POST /coupons/:id/sell — Sell the batch to a customer
+// ═══════════════════════════════════════════════════════════════════
+router.post(
+  '/:id/sell',
+  requireRole(...ACCOUNT_ROLES),
+  validate(sellCouponBatchSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const id = getParam(req, 'id');
+      const batch = await prisma.$transaction(async (tx) => {
+        const sold = await sellCouponBatch(tx, id, req.body, req.user!.userId);
+        await tx.auditLog.create({
+          data: {
+            userId: req.user!.userId,
+            action: 'COUPON_BATCH_SOLD',
+            entityType: 'CouponBatch',
+            entityId: id,
+            changes: { ...req.body, amount: Number(sold.faceValue) * sold.quantity },
+          },
+        });
+        return sold;
+      });
+
+      sendSuccess(res, { data: batch });
+    } catch (error) {
+      sendBusinessError(res, error, 'Failed to sell coupon batch');
+    }
+  },
+);
+
+export default router;
@@ -0,0 +1,509 @@
+import { Router, Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
+import prisma from '../lib/prisma';
+import { sendSuccess, sendError, sendPaginated, getParam, sendBusinessError } from '../lib/response';
+import { validate, validateQuery } from '../middleware/validate';
+import { requireAuth } from '../middleware/auth';
+import { requireRole } from '../middleware/rbac';
+import {
+  UserRole,
+  createCreditCustomerSchema,
+  updateCreditCustomerSchema,
+  createCreditVehicleSchema,
+  createCreditDriverSchema,
+  updateCreditAuthorisationSchema,
+  createCreditSaleSchema,
+  createCustomerPaymentSchema,
+  creditCustomerFiltersSchema,
+  creditSaleFiltersSchema,
+  customerStatementQuerySchema,
+} from '@alcom/shared';
+import logger from '../lib/logger';
+import {
+  creditSaleRelations,
+  recordCreditSale,
+  cancelCreditSale,
+  recordCustomerPayment,
+  getCustomerAging,
+  buildCustomerStatement,
+} from '../services/credit-account.service';
+
+const router: Router = Router();
+
+router.use(requireAuth);
+
+// Customer accounts, limits and payments are managed by finance
+const ACCOUNT_ROLES = [UserRole.SUPER_ADMIN, UserRole.CEO, UserRole.CFO, UserRole.FINANCE_DIR];
+
+const REPORT_ROLES = [...ACCOUNT_ROLES, UserRole.DCO];
+
+// Station staff look customers up to serve them on account
+const VIEW_ROLES = [...REPORT_ROLES, UserRole.STATION_MANAGER, UserRole.CHEF_PISTE];
+
+const SALE_ROLES = [UserRole.SUPER_ADMIN, UserRole.STATION_MANAGER, UserRole.CHEF_PISTE];
+
+const STATION_ROLES: string[] = [UserRole.STATION_MANAGER, UserRole.CHEF_PISTE];
+
+/**
+ * Station staff only record and see credit sales of their own station.
+ */
+function canAccessStation(req: Request, stationId: string): boolean {
+  return !STATION_ROLES.includes(req.user!.role) || req.user!.stationId === stationId;
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// GET /customers — Credit customers with their balance (paginated)
+// ═══════════════════════════════════════════════════════════════════
+router.get(
+  '/',
+  requireRole(...VIEW_ROLES),
+  validateQuery(creditCustomerFiltersSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const { search, isActive, page = 1, limit = 20 } = req.query as Record<string, any>;
+
+      const where: Prisma.CreditCustomerWhereInput = {};
+      if (search) {
+        where.OR = [
+          { name: { contains: search, mode: 'insensitive' } },
+          { taxId: { contains: search, mode: 'insensitive' } },
+          { vehicles: { some: { plateNumber: { contains: String(search).replace(/\s+/g, ''), mode: 'insensitive' } } } },
+        ];
+      }
+      if (isActive !== undefined) {
+        where.isActive = isActive === 'true' || isActive === true;
+      }
+
+      const [customers, total] = await Promise.all([
+        prisma.creditCustomer.findMany({
+          where,
+          include: { _count: { select: { vehicles: true, drivers: true } } },
+          orderBy: { name: 'asc' },
+          skip: (Number(page) - 1) * Number(limit),
+          take: Number(limit),
+        }),
+        prisma.creditCustomer.count({ where }),
+      ]);
+
+      sendPaginated(res, customers, total, Number(page), Number(limit));
+    } catch (error) {
+      logger.error(`Error listing credit customers: ${error}`);
+      sendError(res, { code: 'INTERNAL_ERROR', message: 'Failed to fetch customers', statusCode: 500 });
+    }
+  },
+);
+
+// ═══════════════════════════════════════════════════════════════════
+// POST /customers — Open a credit account
+// ═══════════════════════════════════════════════════════════════════
+router.post(
+  '/',
+  requireRole(...ACCOUNT_ROLES),
+  validate(createCreditCustomerSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const customer = await prisma.$transaction(async (tx) => {
+        const created = await tx.creditCustomer.create({ data: req.body });
+        await tx.auditLog.create({
+          data: {
+            userId: req.user!.userId,
+            action: 'CREDIT_CUSTOMER_CREATED',
+            entityType: 'CreditCustomer',
+            entityId: created.id,
+            changes: req.body,
+          },
+        });
+        return created;
+      });
+
+      sendSuccess(res, { data: customer, statusCode: 201 });
+    } catch (error) {
+      logger.error(`Error creating credit customer: ${error}`);
+      sendError(res, { code: 'INTERNAL_ERROR', message: 'Failed to create customer', statusCode: 500 });
+    }
+  },
+);
+
+// ═══════════════════════════════════════════════════════════════════
+// GET /customers/aging — Outstanding balances by age
+// ═══════════════════════════════════════════════════════════════════
+router.get('/aging', requireRole(...REPORT_ROLES), async (_req: Request, res: Response) => {
+  try {
+    const customers = await prisma.creditCustomer.findMany({
+      where: { balance: { gt: 0 } },
+      select: { id: true, name: true, creditLimit: true, balance: true, paymentTermsDays: true },
+      orderBy: { balance: 'desc' },
+    });
+    const aging = await getCustomerAging(prisma, customers.map((c) => c.id));
+
+    const rows = customers.map((c) => ({ ...c, aging: aging.get(c.id)! }));
+    const totals = rows.reduce(
+      (sum, r) => ({
+        current: sum.current + r.aging.current,
+        days31to60: sum.days31to60 + r.aging.days31to60,
+        days61to90: sum.days61to90 + r.aging.days61to90,
+        over90: sum.over90 + r.aging.over90,
+        total: sum.total + r.aging.total,
+      }),
+      { current: 0, days31to60: 0, days61to90: 0, over90: 0, total: 0 },
+    );
+
+    sendSuccess(res, { data: { customers: rows, totals } });
+  } catch (error) {
+    logger.error(`Error computing customer aging: ${error}`);
+    sendError(res, { code: 'INTERNAL_ERROR', message: 'Failed to compute customer aging', statusCode: 500 });
+  }
+});
+
+// ═══════════════════════════════════════════════════════════════════
+// GET /customers/credit-sales — Credit sales recorded on a shift
+// ═══════════════════════════════════════════════════════════════════
+router.get(
+  '/credit-sales',
+  requireRole(...VIEW_ROLES),
+  validateQuery(creditSaleFiltersSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const shiftReportId = req.query.shiftReportId as string;
+      const shift = await prisma.shiftReport.findUnique({ where: { id: shiftReportId }, select: { stationId: true } });
+      if (!shift || !canAccessStation(req, shift.stationId)) {
+        sendError(res, { code: 'NOT_FOUND', message: 'Shift not found', statusCode: 404 });
+        return;
+      }
+
+      const sales = await prisma.creditSale.findMany({
+        where: { shiftReportId },
+        include: creditSaleRelations,
+        orderBy: { createdAt: 'asc' },
+      });
+
+      sendSuccess(res, { data: sales });
+    } catch (error) {
+      logger.error(`Error listing credit sales: ${error}`);
+      sendError(res, { code: 'INTERNAL_ERROR', message: 'Failed to fetch credit sales', statusCode: 500 });
+    }
+  },
+);
+
+// ═══════════════════════════════════════════════════════════════════
+// POST /customers/credit-sales — Fuel served on account on the open shift
+// ═══════════════════════════════════════════════════════════════════
+router.post(
+  '/credit-sales',
+  requireRole(...SALE_ROLES),
+  validate(createCreditSaleSchema),
+  async (req: Request, res: Response) => {
+    try {
+      if (!canAccessStation(req, req.body.stationId)) {
+        sendError(res, { code: 'FORBIDDEN_STATION', message: 'Access denied to this station', statusCode: 403 });
+        return;
+      }
+
+      const sale = await prisma.$transaction(async (tx) => {
+        const created = await recordCreditSale(tx, req.body, req.user!.userId);
+        await tx.auditLog.create({
+          data: {
+            userId: req.user!.userId,
+            action: 'CREDIT_SALE_RECORDED',
+            entityType: 'CreditSale',
+            entityId: created.id,
+            changes: { ...req.body, amount: Number(created.amount) },
+          },
+        });
+        return created;
+      });
+
+      sendSuccess(res, { data: sale, statusCode: 201 });
+    } catch (error: any) {
+      if (error.code === 'P2002') {
+        sendError(res, {
+          code: 'CONFLICT',
+          message: `Voucher ${req.body.voucherNumber} has already been used`,
+          statusCode: 409,
+        });
+        return;
+      }
+      sendBusinessError(res, error, 'Failed to record credit sale');
+    }
+  },
+);
+
+// ═══════════════════════════════════════════════════════════════════
+// DELETE /customers/credit-sales/:id — Cancel a voucher entered by mistake
+// ═══════════════════════════════════════════════════════════════════
+router.delete('/credit-sales/:id', requireRole(...SALE_ROLES), async (req: Request, res: Response) => {
+  try {
+    const id = getParam(req, 'id');
+    const existing = await prisma.creditSale.findUnique({
+      where: { id },
+      select: { shiftReport: { select: { stationId: true } } },
+    });
+    if (!existing || !canAccessStation(req, existing.shiftReport.stationId)) {
+      sendError(res, { code: 'NOT_FOUND', message: 'Credit sale not found', statusCode: 404 });
+      return;
+    }
+
+    await prisma.$transaction(async (tx) => {
+      const sale = await cancelCreditSale(tx, id);
+      await tx.auditLog.create({
+        data: {
+          userId: req.user!.userId,
+          action: 'CREDIT_SALE_CANCELLED',
+          entityType: 'CreditSale',
+          entityId: id,
+          changes: {
+            customerId: sale.customerId,
+            voucherNumber: sale.voucherNumber,
+            amount: Number(sale.amount),
+          },
+        },
+      });
+    });
+
+    sendSuccess(res, { data: { id } });
+  } catch (error) {
+    sendBusinessError(res, error, 'Failed to cancel credit sale');
+  }
+});
+
+// ═══════════════════════════════════════════════════════════════════
+// GET /customers/:id — Account with authorised vehicles, drivers and aging
+// ═══════════════════════════════════════════════════════════════════
+router.get('/:id', requireRole(...VIEW_ROLES), async (req: Request, res: Response) => {
+  try {
+    const id = getParam(req, 'id');
+    const customer = await prisma.creditCustomer.findUnique({
+      where: { id },
+      include: {
+        vehicles: { orderBy: { plateNumber: 'asc' } },
+        drivers: { orderBy: { fullName: 'asc' } },
+        payments: {
+          include: { receivedBy: { select: { id: true, fullName: true } } },
+          orderBy: { paidAt: 'desc' },
+          take: 10,
+        },
+      },
+    });
+    if (!customer) {
+      sendError(res, { code: 'NOT_FOUND', message: 'Customer not found', statusCode: 404 });
+      return;
+    }
+
+    const aging = await getCustomerAging(prisma, [id]);
+    sendSuccess(res, { data: { ...customer, aging: aging.get(id) } });
+  } catch (error) {
+    logger.error(`Error fetching credit customer: ${error}`);
+    sendError(res, { code: 'INTERNAL_ERROR', message: 'Failed to fetch customer', statusCode: 500 });
+  }
+});
+
+// ═══════════════════════════════════════════════════════════════════
+// PUT /customers/:id — Update the account, credit limit or terms
+// ═══════════════════════════════════════════════════════════════════
+router.put(
+  '/:id',
+  requireRole(...ACCOUNT_ROLES),
+  validate(updateCreditCustomerSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const id = getParam(req, 'id');
+      const customer = await prisma.creditCustomer.findUnique({ where: { id } });
+      if (!customer) {
+        sendError(res, { code: 'NOT_FOUND', message: 'Customer not found', statusCode: 404 });
+        return;
+      }
+
+      const updated = await prisma.$transaction(async (tx) => {
+        const saved = await tx.creditCustomer.update({ where: { id }, data: req.body });
+        await tx.auditLog.create({
+          data: {
+            userId: req.user!.userId,
+            action: 'CREDIT_CUSTOMER_UPDATED',
+            entityType: 'CreditCustomer',
+            entityId: id,
+            changes: {
+              before: {
+                creditLimit: Number(customer.creditLimit),
+                paymentTermsDays: customer.paymentTermsDays,
+                isActive: customer.isActive,
+              },
+              after: req.body,
+            },
+          },
+        });
+        return saved;
+      });
+
+      sendSuccess(res, { data: updated });
+    } catch (error) {
+      logger.error(`Error updating credit customer: ${error}`);
+      sendError(res, { code: 'INTERNAL_ERROR', message: 'Failed to update customer', statusCode: 500 });
+    }
+  },
+);
+
+// ═══════════════════════════════════════════════════════════════════
+// POST /customers/:id/vehicles — Authorise a vehicle on the account
+// ═══════════════════════════════════════════════════════════════════
+router.post(
+  '/:id/vehicles',
+  requireRole(...ACCOUNT_ROLES),
+  validate(createCreditVehicleSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const customerId = getParam(req, 'id');
+      const customer = await prisma.creditCustomer.findUnique({ where: { id: customerId }, select: { id: true } });
+      if (!customer) {
+        sendError(res, { code: 'NOT_FOUND', message: 'Customer not found', statusCode: 404 });
+        return;
+      }
+
+      const vehicle = await prisma.creditVehicle.create({ data: { ...req.body, customerId } });
+      sendSuccess(res, { data: vehicle, statusCode: 201 });
+    } catch (error: any) {
+      if (error.code === 'P2002') {
+        sendError(res, {
+          code: 'CONFLICT',
+          message: `Vehicle ${req.body.plateNumber} is already on this account`,
+          statusCode: 409,
+        });
+        return;
+      }
+      logger.error(`Error adding credit vehicle: ${error}`);
+      sendError(res, { code: 'INTERNAL_ERROR', message: 'Failed to add vehicle', statusCode: 500 });
+    }
+  },
+);
+
+// ═══════════════════════════════════════════════════════════════════
+// PUT /customers/:id/vehicles/:vehicleId — Withdraw or restore a vehicle's authorisation
+// ═══════════════════════════════════════════════════════════════════
+router.put(
+  '/:id/vehicles/:vehicleId',
+  requireRole(...ACCOUNT_ROLES),
+  validate(updateCreditAuthorisationSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const result = await prisma.creditVehicle.updateMany({
+        where: { id: getParam(req, 'vehicleId'), customerId: getParam(req, 'id') },
+        data: { isActive: req.body.isActive },
+      });
+      if (result.count === 0) {
+        sendError(res, { code: 'NOT_FOUND', message: 'Vehicle not found', statusCode: 404 });
+        return;
+      }
+
+      sendSuccess(res, { data: { id: getParam(req, 'vehicleId'), isActive: req.body.isActive } });
+    } catch (error) {
+      logger.error(`Error updating credit vehicle: ${error}`);
+      sendError(res, { code: 'INTERNAL_ERROR', message: 'Failed to update vehicle', statusCode: 500 });
+    }
+  },
+);
+
+// ═══════════════════════════════════════════════════════════════════
+// POST /customers/:id/drivers — Authorise a driver on the account
+// ═══════════════════════════════════════════════════════════════════
+router.post(
+  '/:id/drivers',
+  requireRole(...ACCOUNT_ROLES),
+  validate(createCreditDriverSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const customerId = getParam(req, 'id');
+      const customer = await prisma.creditCustomer.findUnique({ where: { id: customerId }, select: { id: true } });
+      if (!customer) {
+        sendError(res, { code: 'NOT_FOUND', message: 'Customer not found', statusCode: 404 });
+        return;
+      }
+
+      const driver = await prisma.creditDriver.create({ data: { ...req.body, customerId } });
+      sendSuccess(res, { data: driver, statusCode: 201 });
+    } catch (error) {
+      logger.error(`Error adding credit driver: ${error}`);
+      sendError(res, { code: 'INTERNAL_ERROR', message: 'Failed to add driver', statusCode: 500 });
+    }
+  },
+);
+
+// ═══════════════════════════════════════════════════════════════════
+// PUT /customers/:id/drivers/:driverId — Withdraw or restore a driver's authorisation
+// ═══════════════════════════════════════════════════════════════════
+router.put(
+  '/:id/drivers/:driverId',
+  requireRole(...ACCOUNT_ROLES),
+  validate(updateCreditAuthorisationSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const result = await prisma.creditDriver.updateMany({
+        where: { id: getParam(req, 'driverId'), customerId: getParam(req, 'id') },
+        data: { isActive: req.body.isActive },
+      });
+      if (result.count === 0) {
+        sendError(res, { code: 'NOT_FOUND', message: 'Driver not found', statusCode: 404 });
+        return;
+      }
+
+      sendSuccess(res, { data: { id: getParam(req, 'driverId'), isActive: req.body.isActive } });
+    } catch (error) {
+      logger.error(`Error updating credit driver: ${error}`);
+      sendError(res, { code: 'INTERNAL_ERROR', message: 'Failed to update driver', statusCode: 500 });
+    }
+  },
+);
+
+// ═══════════════════════════════════════════════════════════════════
+// POST /customers/:id/payments — Payment received on the account
+// ═══════════════════════════════════════════════════════════════════
+router.post(
+  '/:id/payments',
+  requireRole(...ACCOUNT_ROLES),
+  validate(createCustomerPaymentSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const customerId = getParam(req, 'id');
+      const payment = await prisma.$transaction(async (tx) => {
+        const created = await recordCustomerPayment(tx, customerId, req.body, req.user!.userId);
+        await tx.auditLog.create({
+          data: {
+            userId: req.user!.userId,
+            action: 'CUSTOMER_PAYMENT_RECEIVED',
+            entityType: 'CustomerPayment',
+            entityId: created.id,
+            changes: { customerId, ...req.body },
+          },
+        });
+        return created;
+      });
+
+      sendSuccess(res, { data: payment, statusCode: 201 });
+    } catch (error) {
+      sendBusinessError(res, error, 'Failed to record customer payment');
+    }
+  },
+);
+
+// ═══════════════════════════════════════════════════════════════════
+// GET /customers/:id/statement?month=YYYY-MM — Monthly statement of account
+// ═══════════════════════════════════════════════════════════════════
+router.get(
+  '/:id/statement',
+  requireRole(...REPORT_ROLES),
+  validateQuery(customerStatementQuerySchema),
+  async (req: Request, res: Response) => {
+    try {
+      const statement = await buildCustomerStatement(prisma, getParam(req, 'id'), req.query.month as string);
+      if (!statement) {
+        sendError(res, { code: 'NOT_FOUND', message: 'Customer not found', statusCode: 404 });
+        return;
+      }
+
+      sendSuccess(res, { data: statement });
+    } catch (error) {
+      logger.error(`Error building customer statement: ${error}`);
+      sendError(res, { code: 'INTERNAL_ERROR', message: 'Failed to build statement', statusCode: 500 });
+    }
+  },
+);
+
+export default router;
@@ -0,0 +1,323 @@
+import { Router, Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
+import prisma from '../lib/prisma';
+import { sendSuccess, sendError, sendPaginated, getParam, sendBusinessError } from '../lib/response';
+import { validate, validateQuery } from '../middleware/validate';
+import { requireAuth } from '../middleware/auth';
+import { requireRole } from '../middleware/rbac';
+import {
+  UserRole,
+  createCylinderTypeSchema,
+  updateCylinderTypeSchema,
+  createCylinderDeliverySchema,
+  createCylinderTransactionSchema,
+  cylinderStockFiltersSchema,
+  cylinderTransactionFiltersSchema,
+  supplyListFiltersSchema,
+} from '@alcom/shared';
+import logger from '../lib/logger';
+import { recordCylinderDelivery, recordCylinderTransaction } from '../services/cylinder-stock.service';
+
+const router: Router = Router();
+
+router.use(requireAuth);
+
+// Bottle sizes and prices are managed centrally
+const CATALOG_ROLES = [UserRole.SUPER_ADMIN, UserRole.CEO, UserRole.LOGISTICS, UserRole.DCO];
+
+const STOCK_ROLES = [...CATALOG_ROLES, UserRole.CFO, UserRole.FINANCE_DIR, UserRole.STATION_MANAGER, UserRole.CHEF_PISTE];
+
+const DELIVERY_ROLES = [UserRole.SUPER_ADMIN, UserRole.LOGISTICS, UserRole.DCO, UserRole.STATION_MANAGER, UserRole.CHEF_PISTE];
+
+// Customer transactions are entered at the station during the shift
+const TRANSACTION_ROLES = [UserRole.SUPER_ADMIN, UserRole.STATION_MANAGER, UserRole.CHEF_PISTE];
+
+const STATION_ROLES: string[] = [UserRole.STATION_MANAGER, UserRole.CHEF_PISTE];
+
+const cylinderTypeSelect = { id: true, brand: true, sizeKg: true };
+
+/**
+ * Station staff only see and stock their own station.
+ */
+function scopedStationId(req: Request, requested?: string): string | undefined {
+  return STATION_ROLES.includes(req.user!.role) ? req.user!.stationId || 'none' : requested;
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// GET /cylinders/types — Bottle sizes and brands sold
+// ═══════════════════════════════════════════════════════════════════
+router.get('/types', async (_req: Request, res: Response) => {
+  try {
+    const types = await prisma.cylinderType.findMany({ orderBy: [{ brand: 'asc' }, { sizeKg: 'asc' }] });
+    sendSuccess(res, { data: types });
+  } catch (error) {
+    logger.error(`Error listing cylinder types: ${error}`);
+    sendError(res, { code: 'INTERNAL_ERROR', message: 'Failed to fetch cylinder types', statusCode: 500 });
+  }
+});
+
+// ═══════════════════════════════════════════════════════════════════
+// POST /cylinders/types — Add a bottle size / brand
+// ═══════════════════════════════════════════════════════════════════
+router.post(
+  '/types',
+  requireRole(...CATALOG_ROLES),
+  validate(createCylinderTypeSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const existing = await prisma.cylinderType.findUnique({
+        where: { brand_sizeKg: { brand: req.body.brand, sizeKg: req.body.sizeKg } },
+      });
+      if (existing) {
+        sendError(res, {
+          code: 'CONFLICT',
+          message: `${req.body.brand} ${req.body.sizeKg} kg bottles already exist`,
+          statusCode: 409,
+        });
+        return;
+      }
+
+      const cylinderType = await prisma.$transaction(async (tx) => {
+        const created = await tx.cylinderType.create({ data: req.body });
+        await tx.auditLog.create({
+          data: {
+            userId: req.user!.userId,
+            action: 'CYLINDER_TYPE_CREATED',
+            entityType: 'CylinderType',
+            entityId: created.id,
+            changes: req.body,
+          },
+        });
+        return created;
+      });
+
+      sendSuccess(res, { data: cylinderType, statusCode: 201 });
+    } catch (error) {
+      logger.error(`Error creating cylinder type: ${error}`);
+      sendError(res, { code: 'INTERNAL_ERROR', message: 'Failed to create cylinder type', statusCode: 500 });
+    }
+  },
+);
+
+// ═══════════════════════════════════════════════════════════════════
+// PUT /cylinders/types/:id — Update prices or deactivate a bottle size
+// ═══════════════════════════════════════════════════════════════════
+router.put(
+  '/types/:id',
+  requireRole(...CATALOG_ROLES),
+  validate(updateCylinderTypeSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const id = getParam(req, 'id');
+      const cylinderType = await prisma.cylinderType.findUnique({ where: { id } });
+      if (!cylinderType) {
+        sendError(res, { code: 'NOT_FOUND', message: 'Cylinder type not found', statusCode: 404 });
+        return;
+      }
+
+      // Transactions keep the prices applied when they were recorded
+      const updated = await prisma.$transaction(async (tx) => {
+        const saved = await tx.cylinderType.update({ where: { id }, data: req.body });
+        await tx.auditLog.create({
+          data: {
+            userId: req.user!.userId,
+            action: 'CYLINDER_TYPE_UPDATED',
+            entityType: 'CylinderType',
+            entityId: id,
+            changes: {
+              before: {
+                gasPrice: Number(cylinderType.gasPrice),
+                depositPrice: Number(cylinderType.depositPrice),
+                isActive: cylinderType.isActive,
+              },
+              after: req.body,
+            },
+          },
+        });
+        return saved;
+      });
+
+      sendSuccess(res, { data: updated });
+    } catch (error: any) {
+      if (error.code === 'P2002') {
+        sendError(res, { code: 'CONFLICT', message: 'These bottles already exist', statusCode: 409 });
+        return;
+      }
+      logger.error(`Error updating cylinder type: ${error}`);
+      sendError(res, { code: 'INTERNAL_ERROR', message: 'Failed to update cylinder type', statusCode: 500 });
+    }
+  },
+);
+
+// ═══════════════════════════════════════════════════════════════════
+// GET /cylinders/stock — Full and empty bottles per station
+// ═══════════════════════════════════════════════════════════════════
+router.get(
+  '/stock',
+  requireRole(...STOCK_ROLES),
+  validateQuery(cylinderStockFiltersSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const query = req.query as Record<string, any>;
+      const stationId = scopedStationId(req, query.stationId);
+
+      const stocks = await prisma.cylinderStock.findMany({
+        where: { ...(stationId && { stationId }) },
+        include: {
+          cylinderType: true,
+          station: { select: { id: true, code: true, name: true } },
+        },
+        orderBy: [{ station: { code: 'asc' } }, { cylinderType: { brand: 'asc' } }, { cylinderType: { sizeKg: 'asc' } }],
+      });
+
+      sendSuccess(res, { data: stocks });
+    } catch (error) {
+      logger.error(`Error listing cylinder stock: ${error}`);
+      sendError(res, { code: 'INTERNAL_ERROR', message: 'Failed to fetch cylinder stock', statusCode: 500 });
+    }
+  },
+);
+
+// ═══════════════════════════════════════════════════════════════════
+// GET /cylinders/deliveries — Exchanges with the gas supplier (paginated)
+// ═══════════════════════════════════════════════════════════════════
+router.get(
+  '/deliveries',
+  requireRole(...STOCK_ROLES),
+  validateQuery(supplyListFiltersSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const query = req.query as Record<string, any>;
+      const page = Number(query.page) || 1;
+      const limit = Number(query.limit) || 20;
+      const stationId = scopedStationId(req, query.stationId);
+      const where: Prisma.CylinderDeliveryWhereInput = { ...(stationId && { stationId }) };
+
+      const [deliveries, total] = await Promise.all([
+        prisma.cylinderDelivery.findMany({
+          where,
+          include: {
+            cylinderType: { select: cylinderTypeSelect },
+            supplier: { select: { id: true, name: true } },
+            station: { select: { id: true, code: true, name: true } },
+            receivedBy: { select: { id: true, fullName: true } },
+          },
+          orderBy: { receivedAt: 'desc' },
+          skip: (page - 1) * limit,
+          take: limit,
+        }),
+        prisma.cylinderDelivery.count({ where }),
+      ]);
+
+      sendPaginated(res, deliveries, total, page, limit);
+    } catch (error) {
+      logger.error(`Error listing cylinder deliveries: ${error}`);
+      sendError(res, { code: 'INTERNAL_ERROR', message: 'Failed to fetch cylinder deliveries', statusCode: 500 });
+    }
+  },
+);
+
+// ═══════════════════════════════════════════════════════════════════
+// POST /cylinders/deliveries — Receive full bottles and hand back empties
+// ═══════════════════════════════════════════════════════════════════
+router.post(
+  '/deliveries',
+  requireRole(...DELIVERY_ROLES),
+  validate(createCylinderDeliverySchema),
+  async (req: Request, res: Response) => {
+    try {
+      if (scopedStationId(req, req.body.stationId) !== req.body.stationId) {
+        sendError(res, { code: 'FORBIDDEN_STATION', message: 'Access denied to this station', statusCode: 403 });
+        return;
+      }
+
+      const delivery = await prisma.$transaction(async (tx) => {
+        const created = await recordCylinderDelivery(tx, req.body, req.user!.userId);
+        await tx.auditLog.create({
+          data: {
+            userId: req.user!.userId,
+            action: 'CYLINDER_DELIVERY_RECEIVED',
+            entityType: 'CylinderDelivery',
+            entityId: created.id,
+            changes: req.body,
+          },
+        });
+        return created;
+      });
+
+      sendSuccess(res, { data: delivery, statusCode: 201 });
+    } catch (error) {
+      sendBusinessError(res, error, 'Failed to record cylinder delivery');
+    }
+  },
+);
+
+// ═══════════════════════════════════════════════════════════════════
+// GET /cylinders/transactions — Transactions recorded on a shift
+// ═══════════════════════════════════════════════════════════════════
+router.get(
+  '/transactions',
+  requireRole(...STOCK_ROLES),
+  validateQuery(cylinderTransactionFiltersSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const shiftReportId = req.query.shiftReportId as string;
+      const shift = await prisma.shiftReport.findUnique({ where: { id: shiftReportId }, select: { stationId: true } });
+      if (!shift || scopedStationId(req, shift.stationId) !== shift.stationId) {
+        sendError(res, { code: 'NOT_FOUND', message: 'Shift not found', statusCode: 404 });
+        return;
+      }
+
+      const transactions = await prisma.cylinderTransaction.findMany({
+        where: { shiftReportId },
+        include: {
+          cylinderType: { select: cylinderTypeSelect },
+          recordedBy: { select: { id: true, fullName: true } },
+        },
+        orderBy: { createdAt: 'desc' },
+      });
+
+      sendSuccess(res, { data: transactions });
+    } catch (error) {
+      logger.error(`Error listing cylinder transactions: ${error}`);
+      sendError(res, { code: 'INTERNAL_ERROR', message: 'Failed to fetch cylinder transactions', statusCode: 500 });
+    }
+  },
+);
+
+// ═══════════════════════════════════════════════════════════════════
+// POST /cylinders/transactions — Sale, exchange or deposit refund on the open shift
+// ═══════════════════════════════════════════════════════════════════
+router.post(
+  '/transactions',
+  requireRole(...TRANSACTION_ROLES),
+  validate(createCylinderTransactionSchema),
+  async (req: Request, res: Response) => {
+    try {
+      if (scopedStationId(req, req.body.stationId) !== req.body.stationId) {
+        sendError(res, { code: 'FORBIDDEN_STATION', message: 'Access denied to this station', statusCode: 403 });
+        return;
+      }
+
+      const transaction = await prisma.$transaction(async (tx) => {
+        const created = await recordCylinderTransaction(tx, req.body, req.user!.userId);
+        await tx.auditLog.create({
+          data: {
+            userId: req.user!.userId,
+            action: 'CYLINDER_TRANSACTION_RECORDED',
+            entityType: 'CylinderTransaction',
+            entityId: created.id,
+            changes: { ...req.body, amount: Number(created.amount) },
+          },
+        });
+        return created;
+      });
+
+      sendSuccess(res, { data: transaction, statusCode: 201 });
+    } catch (error) {
+      sendBusinessError(res, error, 'Failed to record cylinder transaction');
+    }
+  },
+);
+
+export default router;
@@ -1,7 +1,7 @@
 import { Router, Request, Response } from 'express';
 import prisma from '../lib/prisma';
 import { sendSuccess, sendError } from '../lib/response';
-import { validate } from '../middleware/validate';
+import { validate, validateQuery } from '../middleware/validate';
 import { requireAuth } from '../middleware/auth';
 import { requireRole } from '../middleware/rbac';
 import { 
@@ -10,30 +10,106 @@ import {
   createDeliverySchema,
   addCompartmentSchema,
   recordDipsSchema,
+  startDeliverySchema,
   validateReplenishmentSchema,
+  orderReplenishmentSchema,
+  replenishmentForecastFiltersSchema,
   DELIVERY_TOLERANCE_PERCENT,
+  calculateDeliveryVariance,
+  calculateVolumeCorrectionFactor,
 } from '@alcom/shared';
+import { loadCalibrationCharts, resolveDipVolume, type CalibrationCharts } from '../services/calibration.service';
+import { findPeriodLock, periodLockedError } from '../services/period.service';
+import { createPurchaseOrder, markPurchaseOrderReceived } from '../services/purchase-order.service';
+import { openDeliveryDispute } from '../services/delivery-dispute.service';
+import { getTankForecasts } from '../services/demand-forecast.service';
+import { completeTripDrop } from '../services/trip.service';
+import { resolveTransport } from '../services/carrier.service';
 
 // Types for compartment operations
 interface CompartmentWithTank {
   id: string;
   blVolume: unknown;
   physicalReceived: unknown;
+  correctedReceived?: unknown;
   variance: unknown;
-  openingDip: number | null;
-  closingDip: number | null;
+  openingDip: unknown;
+  closingDip: unknown;
   tankId: string;
   tank?: {
     id: string;
     fuelType: string;
-    capacity?: number;
-    currentLevel?: number;
+    capacity?: unknown;
+    currentLevel?: unknown;
   };
 }
 
 // Transaction client type
 type PrismaTransaction = Parameters<Parameters<typeof prisma.$transaction>[0]>[0];
 
+/**
+ * Deliveries dated inside a closed period are read-only.
+ * Sends BIZ_PERIOD_LOCKED and returns true when the period is locked.
+ */
+async function rejectIfPeriodLocked(res: Response, stationId: string, date: Date): Promise<boolean> {
+  const lock = await findPeriodLock(prisma, stationId, date);
+  if (!lock) return false;
+  sendError(res, periodLockedError(lock));
+  return true;
+}
+
+/**
+ * Resolve a dip reading given either in litres or as a height (cm).
+ * Heights are converted with the tank's calibration chart; returns null if neither is given.
+ */
+function resolveDip(
+  charts: CalibrationCharts,
+  tankId: string,
+  litres?: number,
+  height?: number,
+): { volume: number; height: number | null } | null {
+  if (height !== undefined) {
+    return { volume: resolveDipVolume(charts, tankId, height).toNumber(), height };
+  }
+  if (litres !== undefined) {
+    return { volume: litres, height: null };
+  }
+  return null;
+}
+
+/**
+ * Compare received volume against the BL volume. When a temperature was observed,
+ * the received volume is corrected to 15 °C first (BL volumes are standard volumes).
+ */
+function computeCompartmentVariance(
+  fuelType: string,
+  physicalReceived: number,
+  blVolume: number,
+  temperature?: number,
+  density?: number,
+) {
+  const correctionFactor = temperature !== undefined
+    ? calculateVolumeCorrectionFactor(fuelType, temperature, density)
+    : null;
+  const correctedReceived = correctionFactor
+    ? correctionFactor.times(physicalReceived).toDecimalPlaces(4).toNumber()
+    : null;
+
+  const { variance, isWithinTolerance } = calculateDeliveryVariance(
+    correctedReceived ?? physicalReceived,
+    blVolume,
+    DELIVERY_TOLERANCE_PERCENT,
+  );
+
+  return {
+    correctionFactor: correctionFactor ? correctionFactor.toNumber() : null,
+    correctedReceived,
+    variance: variance.toNumber(),
+    variancePercent: blVolume > 0 ? variance.toNumber() / blVolume : 0,
+    status: isWithinTolerance ? 'VALIDATED' as const : 'DISPUTED' as const,
+  };
+}
+
 const router: Router = Router();
 
 // Apply authentication middleware
@@ -97,6 +173,9 @@ router.get('/requests/:id', requireRole(UserRole.STATION_MANAGER, UserRole.LOGIS
     include: {
       station: { select: { name: true, code: true } },
       requestedBy: { select: { fullName: true } },
+      purchaseOrder: {
+        include: { supplier: { select: { id: true, name: true } }, lines: true },
+      },
       deliveries: {
         include: {
           compartments: true,
@@ -301,9 +380,10 @@ router.put('/requests/:id/validate', requireRole(UserRole.DCO, UserRole.SUPER_AD
   sendSuccess(res, { data: updated });
 });
 
-// ─── ORDER REPLENISHMENT (VALIDATED → ORDERED) ── Logistics - locks editing ───
-router.put('/requests/:id/order', requireRole(UserRole.LOGISTICS, UserRole.SUPER_ADMIN), async (req: Request, res: Response) => {
-  const { id } = req.params;
+// ─── ORDER REPLENISHMENT (VALIDATED → ORDERED) ── Logistics - issues a single-request purchase order ───
+router.put('/requests/:id/order', requireRole(UserRole.LOGISTICS, UserRole.SUPER_ADMIN), validate(orderReplenishmentSchema), async (req: Request, res: Response) => {
+  const id = req.params.id as string;
+  const { supplierId, unitPrice, expectedDate } = req.body;
 
   const request = await prisma.replenishmentRequest.findUnique({
     where: { id },
@@ -327,26 +407,42 @@ router.put('/requests/:id/order', requireRole(UserRole.LOGISTICS, UserRole.SUPER
     return;
   }
 
-  const updated = await prisma.replenishmentRequest.update({
-    where: { id },
-    data: { status: 'ORDERED' },
-    include: {
-      station: { select: { name: true, code: true } },
-    },
-  });
+  try {
+    const order = await prisma.$transaction(async (tx: PrismaTransaction) => {
+      const created = await createPurchaseOrder(tx, {
+        supplierId,
+        replenishmentRequestIds: [id],
+        prices: [{ fuelType: request.fuelType, unitPrice }],
+        expectedDate,
+      }, req.user!.userId);
 
-  // Create audit log
-  await prisma.auditLog.create({
-    data: {
-      userId: req.user!.userId,
-      action: 'REPLENISHMENT_ORDERED',
-      entityType: 'ReplenishmentRequest',
-      entityId: id,
-      changes: { orderedAt: new Date().toISOString() },
-    },
-  });
+      await tx.auditLog.create({
+        data: {
+          userId: req.user!.userId,
+          action: 'REPLENISHMENT_ORDERED',
+          entityType: 'ReplenishmentRequest',
+          entityId: id,
+          changes: { orderedAt: new Date().toISOString(), purchaseOrderId: created.id, poNumber: created.poNumber },
+        },
+      });
+      return created;
+    });
 
-  sendSuccess(res, { data: updated });
+    const updated = await prisma.replenishmentRequest.findUnique({
+      where: { id },
+      include: {
+        station: { select: { name: true, code: true } },
+      },
+    });
+
+    sendSuccess(res, { data: { ...updated, purchaseOrder: order } });
+  } catch (err: any) {
+    if (err.code && err.statusCode) {
+      sendError(res, { code: err.code, message: err.message, details: err.details, statusCode: err.statusCode });
+      return;
+    }
+    sendError(res, { code: 'INTERNAL_ERROR', message: 'Failed to order replenishment request', statusCode: 500 });
+  }
 });
 
 // ─── COMPLETE REPLENISHMENT (ORDERED → COMPLETED) ───
@@ -538,6 +634,25 @@ router.get('/ullage', requireRole(UserRole.STATION_MANAGER, UserRole.LOGISTICS,
   });
 });
 
+// ─── DEMAND FORECAST PER TANK ───
+// Days of cover, recommended order date and volume from the sales history of each tank
+router.get('/forecast', requireRole(UserRole.STATION_MANAGER, UserRole.LOGISTICS, UserRole.DCO, UserRole.SUPER_ADMIN), validateQuery(replenishmentForecastFiltersSchema), async (req: Request, res: Response) => {
+  const { stationId, fuelType } = req.query as { stationId?: string; fuelType?: 'ESSENCE' | 'GASOIL' | 'PETROLE' };
+
+  // Station managers only see their own station's tanks
+  const scopedStationId = req.user!.stationId || stationId;
+
+  try {
+    const forecasts = await getTankForecasts(prisma, {
+      ...(scopedStationId && { stationIds: [scopedStationId] }),
+      fuelType,
+    });
+    sendSuccess(res, { data: forecasts });
+  } catch {
+    sendError(res, { code: 'INTERNAL_ERROR', message: 'Failed to compute demand forecast', statusCode: 500 });
+  }
+});
+
 // ═══════════════════════════════════════════════════════════════════════════
 // FUEL DELIVERIES
 // ═══════════════════════════════════════════════════════════════════════════
@@ -605,13 +720,20 @@ router.get('/', requireRole(UserRole.STATION_MANAGER, UserRole.LOGISTICS, UserRo
 
 // ─── GET DELIVERY ───
 router.get('/:id', requireRole(UserRole.STATION_MANAGER, UserRole.LOGISTICS, UserRole.DCO, UserRole.SUPER_ADMIN), async (req: Request, res: Response) => {
-  const { id } = req.params;
+  const id = req.params.id as string;
 
   const delivery = await prisma.fuelDelivery.findUnique({
     where: { id },
     include: {
       station: { select: { id: true, name: true, code: true } },
       replenishmentRequest: true,
+      purchaseOrder: {
+        include: { supplier: { select: { id: true, name: true } }, lines: true },
+      },
+      dispute: { select: { id: true, status: true, claimAmount: true } },
+      trip: { select: { id: true, tripNumber: true } },
+      truck: { select: { id: true, carrier: { select: { id: true, name: true } } } },
+      driver: { select: { id: true, phone: true } },
       compartments: {
         include: {
           tank: { select: { id: true, fuelType: true, capacity: true, currentLevel: true } },
@@ -642,6 +764,8 @@ router.get('/:id', requireRole(UserRole.STATION_MANAGER, UserRole.LOGISTICS, Use
   // Calculate totals
   const totalBlVolume = delivery.compartments.reduce((sum: number, c: CompartmentWithTank) => sum + Number(c.blVolume), 0);
   const totalPhysicalReceived = delivery.compartments.reduce((sum: number, c: CompartmentWithTank) => sum + (Number(c.physicalReceived) || 0), 0);
+  // Received at 15 °C, falling back to ambient for compartments without a temperature reading
+  const totalCorrectedReceived = delivery.compartments.reduce((sum: number, c: CompartmentWithTank) => sum + (Number(c.correctedReceived ?? c.physicalReceived) || 0), 0);
   const totalVariance = delivery.compartments.reduce((sum: number, c: CompartmentWithTank) => sum + (Number(c.variance) || 0), 0);
 
   sendSuccess(res, { 
@@ -649,6 +773,7 @@ router.get('/:id', requireRole(UserRole.STATION_MANAGER, UserRole.LOGISTICS, Use
       ...delivery,
       totalBlVolume,
       totalPhysicalReceived,
+      totalCorrectedReceived,
       totalVariance,
     } 
   });
@@ -656,7 +781,8 @@ router.get('/:id', requireRole(UserRole.STATION_MANAGER, UserRole.LOGISTICS, Use
 
 // ─── CREATE DELIVERY ───
 router.post('/', requireRole(UserRole.STATION_MANAGER, UserRole.LOGISTICS, UserRole.DCO, UserRole.SUPER_ADMIN), validate(createDeliverySchema), async (req: Request, res: Response) => {
-  const { stationId, replenishmentRequestId, blNumber, truckPlate, driverName, blTotalVolume } = req.body;
+  const { stationId, replenishmentRequestId, blNumber, blTotalVolume } = req.body;
+  let purchaseOrderId: string | undefined = req.body.purchaseOrderId;
 
   // Station managers can only create for their own station
   if (req.user!.stationId && req.user!.stationId !== stationId) {
@@ -682,6 +808,17 @@ router.post('/', requireRole(UserRole.STATION_MANAGER, UserRole.LOGISTICS, UserR
     return;
   }
 
+  if (await rejectIfPeriodLocked(res, stationId, new Date())) return;
+
+  // Registered truck and driver, with valid documents
+  let transport: Awaited<ReturnType<typeof resolveTransport>>;
+  try {
+    transport = await resolveTransport(prisma, req.body, new Date());
+  } catch (err: any) {
+    sendError(res, { code: err.code, message: err.message, details: err.details, statusCode: err.statusCode });
+    return;
+  }
+
   // If replenishment request provided, validate it
   if (replenishmentRequestId) {
     const request = await prisma.replenishmentRequest.findUnique({
@@ -714,15 +851,59 @@ router.post('/', requireRole(UserRole.STATION_MANAGER, UserRole.LOGISTICS, UserR
       });
       return;
     }
+
+    // The truck delivers the purchase order the request was ordered on
+    if (purchaseOrderId && request.purchaseOrderId && purchaseOrderId !== request.purchaseOrderId) {
+      sendError(res, {
+        code: 'VALIDATION_ERROR',
+        message: 'Replenishment request was ordered on another purchase order',
+        statusCode: 400,
+      });
+      return;
+    }
+    purchaseOrderId = purchaseOrderId ?? request.purchaseOrderId ?? undefined;
+  }
+
+  if (purchaseOrderId) {
+    const order = await prisma.purchaseOrder.findUnique({
+      where: { id: purchaseOrderId },
+    });
+
+    if (!order) {
+      sendError(res, {
+        code: 'NOT_FOUND',
+        message: 'Purchase order not found',
+        statusCode: 404,
+      });
+      return;
+    }
+
+    if (order.stationId !== stationId) {
+      sendError(res, {
+        code: 'VALIDATION_ERROR',
+        message: 'Purchase order does not match station',
+        statusCode: 400,
+      });
+      return;
+    }
+
+    if (order.status === 'CANCELLED') {
+      sendError(res, {
+        code: 'VALIDATION_ERROR',
+        message: 'Purchase order was cancelled',
+        statusCode: 400,
+      });
+      return;
+    }
   }
 
   const delivery = await prisma.fuelDelivery.create({
     data: {
       stationId,
       replenishmentRequestId,
+      purchaseOrderId,
       blNumber,
-      truckPlate,
-      driverName,
+      ...transport,
       blTotalVolume: blTotalVolume || null,
       status: 'IN_PROGRESS',
     },
@@ -756,6 +937,8 @@ router.post('/:id/compartments', requireRole(UserRole.STATION_MANAGER, UserRole.
     return;
   }
 
+  if (await rejectIfPeriodLocked(res, delivery.stationId, delivery.createdAt)) return;
+
   // Validate status
   if (delivery.status !== 'IN_PROGRESS') {
     sendError(res, {
@@ -838,6 +1021,8 @@ router.delete('/:id/compartments/:compartmentId', requireRole(UserRole.STATION_M
     return;
   }
 
+  if (await rejectIfPeriodLocked(res, delivery.stationId, delivery.createdAt)) return;
+
   if (delivery.status !== 'IN_PROGRESS') {
     sendError(res, {
       code: 'INVALID_OPERATION',
@@ -935,19 +1120,10 @@ router.post('/:id/finalize-compartments', requireRole(UserRole.STATION_MANAGER,
 });
 
 // ─── START DELIVERY (record opening dips) ───
-router.put('/:id/start', requireRole(UserRole.STATION_MANAGER, UserRole.LOGISTICS, UserRole.DCO, UserRole.SUPER_ADMIN), async (req: Request, res: Response) => {
-  const { id } = req.params;
+router.put('/:id/start', requireRole(UserRole.STATION_MANAGER, UserRole.LOGISTICS, UserRole.DCO, UserRole.SUPER_ADMIN), validate(startDeliverySchema), async (req: Request, res: Response) => {
+  const id = req.params.id as string;
   const { compartments } = req.body;
 
-  if (!compartments || !Array.isArray(compartments) || compartments.length === 0) {
-    sendError(res, {
-      code: 'VALIDATION_ERROR',
-      message: 'Opening dips for all compartments are required',
-      statusCode: 400,
-    });
-    return;
-  }
-
   const delivery = await prisma.fuelDelivery.findUnique({
     where: { id },
     include: { compartments: true },
@@ -962,6 +1138,8 @@ router.put('/:id/start', requireRole(UserRole.STATION_MANAGER, UserRole.LOGISTIC
     return;
   }
 
+  if (await rejectIfPeriodLocked(res, delivery.stationId, delivery.createdAt)) return;
+
   if (delivery.status !== 'IN_PROGRESS') {
     sendError(res, {
       code: 'INVALID_OPERATION',
@@ -1018,8 +1196,11 @@ router.put('/:id/start', requireRole(UserRole.STATION_MANAGER, UserRole.LOGISTIC
     }
   }
 
-  // Record opening dips
-  for (const compData of compartments as { compartmentId: string; openingDip: number }[]) {
+  // Resolve opening dips (litres, or height converted via calibration chart)
+  const charts = await loadCalibrationCharts(prisma, delivery.compartments.map((c: CompartmentWithTank) => c.tankId));
+  const openingDips: { compartmentId: string; volume: number; height: number | null }[] = [];
+
+  for (const compData of compartments as { compartmentId: string; openingDip?: number; openingDipHeight?: number }[]) {
     const comp = delivery.compartments.find((c: CompartmentWithTank) => c.id === compData.compartmentId);
     if (!comp) {
       sendError(res, {
@@ -1030,18 +1211,20 @@ router.put('/:id/start', requireRole(UserRole.STATION_MANAGER, UserRole.LOGISTIC
       return;
     }
 
-    if (compData.openingDip < 0) {
-      sendError(res, {
-        code: 'VALIDATION_ERROR',
-        message: 'Opening dip cannot be negative',
-        statusCode: 400,
-      });
+    try {
+      const dip = resolveDip(charts, comp.tankId, compData.openingDip, compData.openingDipHeight)!;
+      openingDips.push({ compartmentId: comp.id, ...dip });
+    } catch (err: any) {
+      sendError(res, { code: err.code, message: err.message, details: err.details, statusCode: err.statusCode });
       return;
     }
+  }
 
+  // Record opening dips
+  for (const dip of openingDips) {
     await prisma.deliveryCompartment.update({
-      where: { id: compData.compartmentId },
-      data: { openingDip: compData.openingDip },
+      where: { id: dip.compartmentId },
+      data: { openingDip: dip.volume, openingDipHeight: dip.height },
     });
   }
 
@@ -1064,7 +1247,7 @@ router.put('/:id/start', requireRole(UserRole.STATION_MANAGER, UserRole.LOGISTIC
 
 // ─── COMPLETE DELIVERY (record closing dips) ───
 router.put('/:id/complete', requireRole(UserRole.STATION_MANAGER, UserRole.LOGISTICS, UserRole.DCO, UserRole.SUPER_ADMIN), validate(recordDipsSchema), async (req: Request, res: Response) => {
-  const { id } = req.params;
+  const id = req.params.id as string;
   const { compartments } = req.body;
 
   const delivery = await prisma.fuelDelivery.findUnique({
@@ -1087,6 +1270,8 @@ router.put('/:id/complete', requireRole(UserRole.STATION_MANAGER, UserRole.LOGIS
     return;
   }
 
+  if (await rejectIfPeriodLocked(res, delivery.stationId, delivery.createdAt)) return;
+
   if (delivery.status !== 'IN_PROGRESS') {
     sendError(res, {
       code: 'INVALID_OPERATION',
@@ -1107,6 +1292,20 @@ router.put('/:id/complete', requireRole(UserRole.STATION_MANAGER, UserRole.LOGIS
     return;
   }
 
+  // Resolve closing dips (litres, or height converted via calibration chart)
+  const charts = await loadCalibrationCharts(prisma, delivery.compartments.map((c: CompartmentWithTank) => c.tankId));
+  const closingDips = new Map<string, { volume: number; height: number | null }>();
+  for (const compData of compartments) {
+    const comp = delivery.compartments.find((c: CompartmentWithTank) => c.id === compData.compartmentId);
+    if (!comp) continue;
+    try {
+      closingDips.set(comp.id, resolveDip(charts, comp.tankId, compData.closingDip, compData.closingDipHeight)!);
+    } catch (err: any) {
+      sendError(res, { code: err.code, message: err.message, details: err.details, statusCode: err.statusCode });
+      return;
+    }
+  }
+
   // Update each compartment with closing dip readings
   let totalVariance = 0;
   let hasDispute = false;
@@ -1117,6 +1316,9 @@ router.put('/:id/complete', requireRole(UserRole.STATION_MANAGER, UserRole.LOGIS
     openingDip: number;
     closingDip: number;
     physicalReceived: number;
+    temperature: number | null;
+    correctionFactor: number | null;
+    correctedReceived: number | null;
     variance: number;
     variancePercent: number;
     status: string;
@@ -1132,7 +1334,7 @@ router.put('/:id/complete', requireRole(UserRole.STATION_MANAGER, UserRole.LOGIS
       }
 
       const openingDip = Number(comp.openingDip);
-      const closingDip = compData.closingDip;
+      const { volume: closingDip, height: closingDipHeight } = closingDips.get(comp.id)!;
 
       if (closingDip < openingDip) {
         throw new Error(`Closing dip (${closingDip}) cannot be less than opening dip (${openingDip}) for compartment ${compData.compartmentId}`);
@@ -1140,11 +1342,11 @@ router.put('/:id/complete', requireRole(UserRole.STATION_MANAGER, UserRole.LOGIS
 
       const physicalReceived = closingDip - openingDip;
       const blVolume = Number(comp.blVolume);
-      const variance = physicalReceived - blVolume;
-      const variancePercent = blVolume > 0 ? variance / blVolume : 0;
 
-      // Check if variance exceeds tolerance (0.5%)
-      const status = Math.abs(variancePercent) > DELIVERY_TOLERANCE_PERCENT ? 'DISPUTED' : 'VALIDATED';
+      // Check if variance exceeds tolerance (0.5%), at 15 °C when temperature is known
+      const { correctionFactor, correctedReceived, variance, variancePercent, status } = computeCompartmentVariance(
+        comp.fuelType, physicalReceived, blVolume, compData.temperature, compData.density,
+      );
       if (status === 'DISPUTED') hasDispute = true;
 
       totalVariance += variance;
@@ -1153,7 +1355,12 @@ router.put('/:id/complete', requireRole(UserRole.STATION_MANAGER, UserRole.LOGIS
         where: { id: compData.compartmentId },
         data: {
           closingDip,
+          closingDipHeight,
           physicalReceived,
+          observedTemperature: compData.temperature ?? null,
+          observedDensity: compData.density ?? null,
+          correctionFactor,
+          correctedReceived,
           variance,
           status,
         },
@@ -1183,6 +1390,9 @@ router.put('/:id/complete', requireRole(UserRole.STATION_MANAGER, UserRole.LOGIS
         openingDip,
         closingDip,
         physicalReceived,
+        temperature: compData.temperature ?? null,
+        correctionFactor,
+        correctedReceived,
         variance,
         variancePercent: Math.round(variancePercent * 10000) / 100, // Convert to percentage
         status,
@@ -1208,6 +1418,16 @@ router.put('/:id/complete', requireRole(UserRole.STATION_MANAGER, UserRole.LOGIS
       });
     }
 
+    if (delivery.purchaseOrderId) {
+      await markPurchaseOrderReceived(tx, delivery.purchaseOrderId);
+    }
+
+    if (delivery.tripId) {
+      await completeTripDrop(tx, delivery.tripId, delivery.stationId);
+    }
+
+    const dispute = hasDispute ? await openDeliveryDispute(tx, id) : null;
+
     // Create audit log
     await tx.auditLog.create({
       data: {
@@ -1222,11 +1442,11 @@ router.put('/:id/complete', requireRole(UserRole.STATION_MANAGER, UserRole.LOGIS
       },
     });
 
-    // If disputed, create notification for Tech Director
-    if (hasDispute) {
+    // If disputed, notify the Tech Director and logistics, who claim the shortage
+    if (dispute) {
       const techDirectors = await tx.user.findMany({
         where: {
-          role: { in: ['SUPER_ADMIN', 'DCO'] },
+          role: { in: ['SUPER_ADMIN', 'DCO', 'LOGISTICS'] },
           isActive: true,
         },
       });
@@ -1238,7 +1458,7 @@ router.put('/:id/complete', requireRole(UserRole.STATION_MANAGER, UserRole.LOGIS
             type: 'DELIVERY_DISPUTED',
             title: 'Delivery Variance Alert',
             message: `Delivery ${delivery.blNumber} has variance exceeding tolerance (${(totalVariance).toFixed(2)}L)`,
-            link: `/supply/deliveries/${id}`,
+            link: `/admin/supply/disputes/${dispute.id}`,
           },
         });
       }
@@ -1271,7 +1491,7 @@ router.put('/:id/complete', requireRole(UserRole.STATION_MANAGER, UserRole.LOGIS
 // Legacy endpoint for backwards compatibility
 router.post('/:id/record-dips', requireRole(UserRole.STATION_MANAGER, UserRole.LOGISTICS, UserRole.DCO, UserRole.SUPER_ADMIN), validate(recordDipsSchema), async (req: Request, res: Response) => {
   // Redirect to complete endpoint
-  const { id } = req.params;
+  const id = req.params.id as string;
   const { compartments } = req.body;
 
   const delivery = await prisma.fuelDelivery.findUnique({
@@ -1288,15 +1508,46 @@ router.post('/:id/record-dips', requireRole(UserRole.STATION_MANAGER, UserRole.L
     return;
   }
 
+  if (await rejectIfPeriodLocked(res, delivery.stationId, delivery.createdAt)) return;
+
+  // Resolve dips given as heights (cm) via the tanks' calibration charts
+  const charts = await loadCalibrationCharts(prisma, delivery.compartments.map((c: CompartmentWithTank) => c.tankId));
+  const dips = new Map<string, {
+    opening: { volume: number; height: number | null } | null;
+    closing: { volume: number; height: number | null };
+  }>();
+  for (const compData of compartments) {
+    const comp = delivery.compartments.find((c: CompartmentWithTank) => c.id === compData.compartmentId);
+    if (!comp) continue;
+    try {
+      dips.set(comp.id, {
+        opening: resolveDip(charts, comp.tankId, compData.openingDip, compData.openingDipHeight),
+        closing: resolveDip(charts, comp.tankId, compData.closingDip, compData.closingDipHeight)!,
+      });
+    } catch (err: any) {
+      sendError(res, { code: err.code, message: err.message, details: err.details, statusCode: err.statusCode });
+      return;
+    }
+  }
+
   // If no opening dips, record them first
   const hasAllOpeningDips = delivery.compartments.every((c: CompartmentWithTank) => c.openingDip !== null);
   
   if (!hasAllOpeningDips) {
     // Record opening dips from the provided data
     for (const compData of compartments) {
+      const opening = dips.get(compData.compartmentId)?.opening;
+      if (!opening) {
+        sendError(res, {
+          code: 'VALIDATION_ERROR',
+          message: `Missing opening dip for compartment ${compData.compartmentId}`,
+          statusCode: 400,
+        });
+        return;
+      }
       await prisma.deliveryCompartment.update({
         where: { id: compData.compartmentId },
-        data: { openingDip: compData.openingDip },
+        data: { openingDip: opening.volume, openingDipHeight: opening.height },
       });
     }
     
@@ -1334,14 +1585,17 @@ router.post('/:id/record-dips', requireRole(UserRole.STATION_MANAGER, UserRole.L
       const comp = updatedDelivery.compartments.find((c: CompartmentWithTank) => c.id === compData.compartmentId);
       if (!comp) continue;
 
-      const openingDip = compData.openingDip;
-      const closingDip = compData.closingDip;
+      const dip = dips.get(comp.id)!;
+      const openingDip = dip.opening ? dip.opening.volume : Number(comp.openingDip);
+      const openingDipHeight = dip.opening ? dip.opening.height : comp.openingDipHeight;
+      const closingDip = dip.closing.volume;
+      const closingDipHeight = dip.closing.height;
       const physicalReceived = closingDip - openingDip;
       const blVolume = Number(comp.blVolume);
-      const variance = physicalReceived - blVolume;
-      const variancePercent = blVolume > 0 ? variance / blVolume : 0;
 
-      const status = Math.abs(variancePercent) > DELIVERY_TOLERANCE_PERCENT ? 'DISPUTED' : 'VALIDATED';
+      const { correctionFactor, correctedReceived, variance, status } = computeCompartmentVariance(
+        comp.fuelType, physicalReceived, blVolume, compData.temperature, compData.density,
+      );
       if (status === 'DISPUTED') hasDispute = true;
       totalVariance += variance;
 
@@ -1349,8 +1603,14 @@ router.post('/:id/record-dips', requireRole(UserRole.STATION_MANAGER, UserRole.L
         where: { id: compData.compartmentId },
         data: {
           openingDip,
+          openingDipHeight,
           closingDip,
+          closingDipHeight,
           physicalReceived,
+          observedTemperature: compData.temperature ?? null,
+          observedDensity: compData.density ?? null,
+          correctionFactor,
+          correctedReceived,
           variance,
           status,
         },
@@ -1380,6 +1640,18 @@ router.post('/:id/record-dips', requireRole(UserRole.STATION_MANAGER, UserRole.L
         data: { status: 'COMPLETED' },
       });
     }
+
+    if (updatedDelivery.purchaseOrderId) {
+      await markPurchaseOrderReceived(tx, updatedDelivery.purchaseOrderId);
+    }
+
+    if (updatedDelivery.tripId) {
+      await completeTripDrop(tx, updatedDelivery.tripId, updatedDelivery.stationId);
+    }
+
+    if (hasDispute) {
+      await openDeliveryDispute(tx, id);
+    }
   });
 
   const final = await prisma.fuelDelivery.findUnique({
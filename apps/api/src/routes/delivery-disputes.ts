@@ -0,0 +1,346 @@
+import { Router, Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
+import prisma from '../lib/prisma';
+import { sendSuccess, sendError, sendPaginated, getParam, sendBusinessError } from '../lib/response';
+import { validate, validateQuery } from '../middleware/validate';
+import { requireAuth } from '../middleware/auth';
+import { requireRole } from '../middleware/rbac';
+import {
+  UserRole,
+  addDisputeNoteSchema,
+  addDisputeEvidenceSchema,
+  sendDisputeClaimSchema,
+  resolveDisputeSchema,
+  disputeFiltersSchema,
+  disputeClaimsReportSchema,
+} from '@alcom/shared';
+import logger from '../lib/logger';
+import { enqueueEmail } from '../jobs';
+import {
+  deliveryDisputeRelations,
+  getDisputeClaim,
+  startInvestigation,
+  sendDisputeClaim,
+  resolveDispute,
+  getSupplierClaimsReport,
+} from '../services/delivery-dispute.service';
+
+const router: Router = Router();
+
+router.use(requireAuth);
+
+// Station managers document the case (notes, photos, dip tickets) for their station
+const INVESTIGATE_ROLES = [UserRole.LOGISTICS, UserRole.DCO, UserRole.SUPER_ADMIN, UserRole.STATION_MANAGER];
+
+// Logistics claims the shortage from the supplier and records the answer
+const CLAIM_ROLES: string[] = [UserRole.LOGISTICS, UserRole.SUPER_ADMIN];
+
+// Absorbing the loss is a finance decision
+const WRITE_OFF_ROLES: string[] = [UserRole.CFO, UserRole.FINANCE_DIR, UserRole.SUPER_ADMIN];
+
+const RESOLVE_ROLES = [UserRole.LOGISTICS, UserRole.CFO, UserRole.FINANCE_DIR, UserRole.SUPER_ADMIN];
+
+const VIEW_ROLES = [...INVESTIGATE_ROLES, UserRole.CFO, UserRole.CEO, UserRole.FINANCE_DIR];
+const REPORT_ROLES = [UserRole.LOGISTICS, UserRole.DCO, UserRole.SUPER_ADMIN, UserRole.CFO, UserRole.CEO, UserRole.FINANCE_DIR];
+
+/** Station users only reach the disputes of their station */
+async function checkStationAccess(req: Request, res: Response, id: string): Promise<boolean> {
+  if (!req.user!.stationId) return true;
+  const dispute = await prisma.deliveryDispute.findUnique({ where: { id }, select: { stationId: true } });
+  if (dispute && dispute.stationId !== req.user!.stationId) {
+    sendError(res, { code: 'FORBIDDEN_STATION', message: 'Access denied to this station', statusCode: 403 });
+    return false;
+  }
+  return true;
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// GET /delivery-disputes — Dispute cases with filters (paginated)
+// ═══════════════════════════════════════════════════════════════════
+router.get(
+  '/',
+  requireRole(...VIEW_ROLES),
+  validateQuery(disputeFiltersSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const { status, supplierId, stationId, page = 1, limit = 20 } = req.query as Record<string, any>;
+
+      const where: Prisma.DeliveryDisputeWhereInput = {};
+      if (status) where.status = status;
+      if (supplierId) where.supplierId = supplierId;
+      if (req.user!.stationId) {
+        where.stationId = req.user!.stationId;
+      } else if (stationId) {
+        where.stationId = stationId;
+      }
+
+      const [disputes, total] = await Promise.all([
+        prisma.deliveryDispute.findMany({
+          where,
+          include: deliveryDisputeRelations,
+          orderBy: { createdAt: 'desc' },
+          skip: (Number(page) - 1) * Number(limit),
+          take: Number(limit),
+        }),
+        prisma.deliveryDispute.count({ where }),
+      ]);
+
+      sendPaginated(res, disputes, total, Number(page), Number(limit));
+    } catch (error) {
+      logger.error(`Error listing delivery disputes: ${error}`);
+      sendError(res, { code: 'INTERNAL_ERROR', message: 'Failed to fetch delivery disputes', statusCode: 500 });
+    }
+  },
+);
+
+// ═══════════════════════════════════════════════════════════════════
+// GET /delivery-disputes/report — Supplier claims over a period
+// ═══════════════════════════════════════════════════════════════════
+router.get(
+  '/report',
+  requireRole(...REPORT_ROLES),
+  validateQuery(disputeClaimsReportSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const report = await getSupplierClaimsReport(prisma, req.query as Record<string, string>);
+      sendSuccess(res, { data: report });
+    } catch (error) {
+      logger.error(`Error computing supplier claims report: ${error}`);
+      sendError(res, { code: 'INTERNAL_ERROR', message: 'Failed to compute supplier claims report', statusCode: 500 });
+    }
+  },
+);
+
+// ═══════════════════════════════════════════════════════════════════
+// GET /delivery-disputes/:id — Case with its compartments, notes, evidence and claim
+// ═══════════════════════════════════════════════════════════════════
+router.get('/:id', requireRole(...VIEW_ROLES), async (req: Request, res: Response) => {
+  try {
+    const id = getParam(req, 'id');
+    const dispute = await prisma.deliveryDispute.findUnique({
+      where: { id },
+      include: {
+        ...deliveryDisputeRelations,
+        notes: { include: { author: { select: { id: true, fullName: true } } }, orderBy: { createdAt: 'asc' } },
+        evidence: { include: { uploadedBy: { select: { id: true, fullName: true } } }, orderBy: { createdAt: 'asc' } },
+      },
+    });
+    if (!dispute) {
+      sendError(res, { code: 'NOT_FOUND', message: 'Delivery dispute not found', statusCode: 404 });
+      return;
+    }
+    if (req.user!.stationId && req.user!.stationId !== dispute.stationId) {
+      sendError(res, { code: 'FORBIDDEN_STATION', message: 'Access denied to this station', statusCode: 403 });
+      return;
+    }
+
+    const [compartments, { claim, missingPrices }] = await Promise.all([
+      prisma.deliveryCompartment.findMany({
+        where: { deliveryId: dispute.deliveryId },
+        select: {
+          id: true,
+          fuelType: true,
+          blVolume: true,
+          physicalReceived: true,
+          correctedReceived: true,
+          variance: true,
+          status: true,
+          tank: { select: { id: true, fuelType: true } },
+        },
+      }),
+      getDisputeClaim(prisma, dispute.deliveryId),
+    ]);
+
+    sendSuccess(res, {
+      data: {
+        ...dispute,
+        compartments,
+        claimLines: claim.lines.map((l) => ({
+          fuelType: l.fuelType,
+          shortageVolume: l.shortageVolume.toNumber(),
+          unitPrice: missingPrices.includes(l.fuelType) ? null : l.unitPrice.toNumber(),
+          amount: missingPrices.includes(l.fuelType) ? null : l.amount.toNumber(),
+        })),
+      },
+    });
+  } catch (error) {
+    logger.error(`Error fetching delivery dispute: ${error}`);
+    sendError(res, { code: 'INTERNAL_ERROR', message: 'Failed to fetch delivery dispute', statusCode: 500 });
+  }
+});
+
+// ═══════════════════════════════════════════════════════════════════
+// POST /delivery-disputes/:id/notes — Investigation note
+// ═══════════════════════════════════════════════════════════════════
+router.post(
+  '/:id/notes',
+  requireRole(...INVESTIGATE_ROLES),
+  validate(addDisputeNoteSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const id = getParam(req, 'id');
+      if (!(await checkStationAccess(req, res, id))) return;
+
+      const note = await prisma.$transaction(async (tx) => {
+        await startInvestigation(tx, id);
+        return tx.deliveryDisputeNote.create({
+          data: { disputeId: id, content: req.body.content, authorId: req.user!.userId },
+          include: { author: { select: { id: true, fullName: true } } },
+        });
+      });
+
+      sendSuccess(res, { data: note, statusCode: 201 });
+    } catch (error) {
+      sendBusinessError(res, error, 'Failed to add dispute note');
+    }
+  },
+);
+
+// ═══════════════════════════════════════════════════════════════════
+// POST /delivery-disputes/:id/evidence — Attach an uploaded file to the case
+// ═══════════════════════════════════════════════════════════════════
+router.post(
+  '/:id/evidence',
+  requireRole(...INVESTIGATE_ROLES),
+  validate(addDisputeEvidenceSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const id = getParam(req, 'id');
+      if (!(await checkStationAccess(req, res, id))) return;
+
+      const evidence = await prisma.$transaction(async (tx) => {
+        await startInvestigation(tx, id);
+        const created = await tx.deliveryDisputeEvidence.create({
+          data: {
+            disputeId: id,
+            fileUrl: req.body.fileUrl,
+            fileName: req.body.fileName,
+            uploadedById: req.user!.userId,
+          },
+          include: { uploadedBy: { select: { id: true, fullName: true } } },
+        });
+        await tx.auditLog.create({
+          data: {
+            userId: req.user!.userId,
+            action: 'DISPUTE_EVIDENCE_ADDED',
+            entityType: 'DeliveryDispute',
+            entityId: id,
+            changes: { fileUrl: req.body.fileUrl, fileName: req.body.fileName },
+          },
+        });
+        return created;
+      });
+
+      sendSuccess(res, { data: evidence, statusCode: 201 });
+    } catch (error) {
+      sendBusinessError(res, error, 'Failed to add dispute evidence');
+    }
+  },
+);
+
+// ═══════════════════════════════════════════════════════════════════
+// PUT /delivery-disputes/:id/claim — Claim the shortage from the supplier
+// ═══════════════════════════════════════════════════════════════════
+router.put(
+  '/:id/claim',
+  requireRole(...CLAIM_ROLES),
+  validate(sendDisputeClaimSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const id = getParam(req, 'id');
+      const { dispute, claim } = await prisma.$transaction(async (tx) => {
+        const result = await sendDisputeClaim(tx, id, req.body, req.user!.userId);
+        await tx.auditLog.create({
+          data: {
+            userId: req.user!.userId,
+            action: 'DISPUTE_CLAIM_SENT',
+            entityType: 'DeliveryDispute',
+            entityId: id,
+            changes: {
+              supplierId: result.dispute.supplierId,
+              claimAmount: result.claim.claimAmount.toNumber(),
+              lines: result.claim.lines.map((l) => ({
+                fuelType: l.fuelType,
+                shortageVolume: l.shortageVolume.toNumber(),
+                unitPrice: l.unitPrice.toNumber(),
+              })),
+            },
+          },
+        });
+        return result;
+      });
+
+      if (dispute.supplier?.email) {
+        await enqueueEmail({
+          to: dispute.supplier.email,
+          subject: `Réclamation livraison BL ${dispute.delivery.blNumber}`,
+          template: 'supplier-claim',
+          templateData: {
+            supplierName: dispute.supplier.name,
+            blNumber: dispute.delivery.blNumber,
+            truckPlate: dispute.delivery.truckPlate,
+            stationName: dispute.station.name,
+            poNumber: dispute.delivery.purchaseOrder?.poNumber,
+            lines: claim.lines.map((l) => ({
+              fuelType: l.fuelType,
+              shortageVolume: l.shortageVolume.toNumber(),
+              unitPrice: l.unitPrice.toNumber(),
+              amount: l.amount.toNumber(),
+            })),
+            claimAmount: claim.claimAmount.toNumber(),
+          },
+        });
+      }
+
+      sendSuccess(res, { data: dispute });
+    } catch (error) {
+      sendBusinessError(res, error, 'Failed to send dispute claim');
+    }
+  },
+);
+
+// ═══════════════════════════════════════════════════════════════════
+// PUT /delivery-disputes/:id/resolve — Credit note, rejection or write-off
+// ═══════════════════════════════════════════════════════════════════
+router.put(
+  '/:id/resolve',
+  requireRole(...RESOLVE_ROLES),
+  validate(resolveDisputeSchema),
+  async (req: Request, res: Response) => {
+    const { outcome } = req.body;
+    const allowed = outcome === 'WRITTEN_OFF' ? WRITE_OFF_ROLES : CLAIM_ROLES;
+    if (!allowed.includes(req.user!.role)) {
+      sendError(res, {
+        code: 'FORBIDDEN',
+        message: outcome === 'WRITTEN_OFF'
+          ? 'Only finance can write a dispute off'
+          : 'Only logistics can record the supplier answer to a claim',
+        statusCode: 403,
+      });
+      return;
+    }
+
+    try {
+      const id = getParam(req, 'id');
+      const dispute = await prisma.$transaction(async (tx) => {
+        const resolved = await resolveDispute(tx, id, req.body, req.user!.userId);
+        await tx.auditLog.create({
+          data: {
+            userId: req.user!.userId,
+            action: 'DISPUTE_RESOLVED',
+            entityType: 'DeliveryDispute',
+            entityId: id,
+            changes: req.body,
+          },
+        });
+        return resolved;
+      });
+
+      sendSuccess(res, { data: dispute });
+    } catch (error) {
+      sendBusinessError(res, error, 'Failed to resolve delivery dispute');
+    }
+  },
+);
+
+export default router;
@@ -0,0 +1,143 @@
+import { Router, Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
+import prisma from '../lib/prisma';
+import { sendSuccess, sendError, getParam } from '../lib/response';
+import { validate, validateQuery } from '../middleware/validate';
+import { requireAuth } from '../middleware/auth';
+import { requireRole } from '../middleware/rbac';
+import { UserRole, createDriverSchema, updateDriverSchema, driverFiltersSchema } from '@alcom/shared';
+import logger from '../lib/logger';
+
+const router: Router = Router();
+
+router.use(requireAuth);
+
+const MANAGE_ROLES = [UserRole.LOGISTICS, UserRole.SUPER_ADMIN];
+
+// Station managers pick the driver when recording a delivery
+const VIEW_ROLES = [...MANAGE_ROLES, UserRole.DCO, UserRole.CEO, UserRole.CFO, UserRole.STATION_MANAGER];
+
+// ═══════════════════════════════════════════════════════════════════
+// GET /drivers — Drivers of the transporters
+// ═══════════════════════════════════════════════════════════════════
+router.get(
+  '/',
+  requireRole(...VIEW_ROLES),
+  validateQuery(driverFiltersSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const { carrierId, isActive } = req.query as Record<string, any>;
+
+      const where: Prisma.DriverWhereInput = {};
+      if (carrierId) where.carrierId = carrierId;
+      if (isActive) where.isActive = isActive === 'true';
+
+      const drivers = await prisma.driver.findMany({
+        where,
+        include: { carrier: { select: { id: true, name: true } } },
+        orderBy: { fullName: 'asc' },
+      });
+
+      sendSuccess(res, { data: drivers });
+    } catch (error) {
+      logger.error(`Error listing drivers: ${error}`);
+      sendError(res, { code: 'INTERNAL_ERROR', message: 'Failed to fetch drivers', statusCode: 500 });
+    }
+  },
+);
+
+// ═══════════════════════════════════════════════════════════════════
+// POST /drivers — Register a driver of a transporter
+// ═══════════════════════════════════════════════════════════════════
+router.post(
+  '/',
+  requireRole(...MANAGE_ROLES),
+  validate(createDriverSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const { carrierId, licenceExpiresAt, ...rest } = req.body;
+
+      const carrier = await prisma.carrier.findUnique({ where: { id: carrierId } });
+      if (!carrier) {
+        sendError(res, { code: 'NOT_FOUND', message: 'Carrier not found', statusCode: 404 });
+        return;
+      }
+
+      const driver = await prisma.driver.create({
+        data: { ...rest, carrierId, licenceExpiresAt: new Date(licenceExpiresAt) },
+        include: { carrier: { select: { id: true, name: true } } },
+      });
+
+      await prisma.auditLog.create({
+        data: {
+          userId: req.user!.userId,
+          action: 'DRIVER_CREATED',
+          entityType: 'Driver',
+          entityId: driver.id,
+          changes: req.body,
+        },
+      });
+
+      sendSuccess(res, { data: driver, statusCode: 201 });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        sendError(res, { code: 'DUPLICATE_LICENCE_NUMBER', message: 'A driver with this licence number already exists', statusCode: 409 });
+        return;
+      }
+      logger.error(`Error creating driver: ${error}`);
+      sendError(res, { code: 'INTERNAL_ERROR', message: 'Failed to create driver', statusCode: 500 });
+    }
+  },
+);
+
+// ═══════════════════════════════════════════════════════════════════
+// PATCH /drivers/:id — Update a driver or renew the licence
+// ═══════════════════════════════════════════════════════════════════
+router.patch(
+  '/:id',
+  requireRole(...MANAGE_ROLES),
+  validate(updateDriverSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const id = getParam(req, 'id');
+      const { licenceExpiresAt, ...rest } = req.body;
+
+      const driver = await prisma.driver.findUnique({ where: { id } });
+      if (!driver) {
+        sendError(res, { code: 'NOT_FOUND', message: 'Driver not found', statusCode: 404 });
+        return;
+      }
+
+      const updated = await prisma.driver.update({
+        where: { id },
+        data: {
+          ...rest,
+          // A renewed licence re-arms the expiry alert
+          ...(licenceExpiresAt && { licenceExpiresAt: new Date(licenceExpiresAt), licenceAlertAt: null }),
+        },
+        include: { carrier: { select: { id: true, name: true } } },
+      });
+
+      await prisma.auditLog.create({
+        data: {
+          userId: req.user!.userId,
+          action: 'DRIVER_UPDATED',
+          entityType: 'Driver',
+          entityId: id,
+          changes: req.body,
+        },
+      });
+
+      sendSuccess(res, { data: updated });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        sendError(res, { code: 'DUPLICATE_LICENCE_NUMBER', message: 'A driver with this licence number already exists', statusCode: 409 });
+        return;
+      }
+      logger.error(`Error updating driver: ${error}`);
+      sendError(res, { code: 'INTERNAL_ERROR', message: 'Failed to update driver', statusCode: 500 });
+    }
+  },
+);
+
+export default router;
@@ -11,10 +11,16 @@ import {
   rejectExpenseSchema,
   disburseExpenseSchema,
   expenseListFiltersSchema,
-  EXPENSE_THRESHOLD_FINANCE,
-  EXPENSE_THRESHOLD_CFO,
 } from '@alcom/shared';
 import logger from '../lib/logger';
+import { findPeriodLock, periodLockedError } from '../services/period.service';
+import {
+  LINE_MANAGER_ROLE,
+  ApprovalState,
+  getActivePolicy,
+  getApprovalState,
+  findActionableStep,
+} from '../services/approval.service';
 
 const router: Router = Router();
 
@@ -23,124 +29,6 @@ router.use(requireAuth);
 
 // ─── HELPER FUNCTIONS ───
 
-/**
- * Determine the next approver based on expense amount and current approval state
- * Flow: Line Manager → then based on amount:
- *   <500k: goes to Finance for final check
- *   500k-5M: goes to Finance Director
- *   >5M: goes to CFO, then CEO
- */
-function getNextApproverRoles(amount: number, currentStatus: string, approvedRoles: string[]): string[] {
-  // If just submitted, needs line manager first
-  if (currentStatus === 'SUBMITTED') {
-    return ['LINE_MANAGER'];
-  }
-
-  // After line manager, route based on amount
-  if (currentStatus === 'PENDING_MANAGER') {
-    if (amount >= EXPENSE_THRESHOLD_CFO) {
-      // >5M: needs CFO then CEO
-      if (!approvedRoles.includes(UserRole.CFO)) {
-        return [UserRole.CFO];
-      }
-      return [UserRole.CEO];
-    } else if (amount >= EXPENSE_THRESHOLD_FINANCE) {
-      // 500k-5M: needs Finance Director
-      return [UserRole.FINANCE_DIR];
-    } else {
-      // <500k: needs Finance check (any finance person)
-      return [UserRole.FINANCE_DIR, UserRole.CFO];
-    }
-  }
-
-  // If pending finance (for high amounts)
-  if (currentStatus === 'PENDING_FINANCE') {
-    if (amount >= EXPENSE_THRESHOLD_CFO) {
-      if (!approvedRoles.includes(UserRole.CFO)) {
-        return [UserRole.CFO];
-      }
-      if (!approvedRoles.includes(UserRole.CEO)) {
-        return [UserRole.CEO];
-      }
-    }
-  }
-
-  return [];
-}
-
-/**
- * Check if user can approve the expense (either line manager or appropriate finance role)
- */
-function canUserApproveExpense(
-  user: { userId: string; role: string },
-  expense: any,
-  approvedRoles: string[],
-  isLineManager: boolean,
-): boolean {
-  const amount = Number(expense.amount);
-  const status = expense.status;
-
-  // SUPER_ADMIN can always approve
-  if (user.role === UserRole.SUPER_ADMIN) {
-    return true;
-  }
-
-  // If expense is SUBMITTED, only line manager can approve
-  if (status === 'SUBMITTED') {
-    return isLineManager;
-  }
-
-  // If PENDING_MANAGER (line manager approved), route to finance based on amount
-  if (status === 'PENDING_MANAGER') {
-    const requiredRoles = getNextApproverRoles(amount, status, approvedRoles);
-
-    // For high amounts requiring CFO+CEO
-    if (amount >= EXPENSE_THRESHOLD_CFO) {
-      if (!approvedRoles.includes(UserRole.CFO) && user.role === UserRole.CFO) {
-        return true;
-      }
-      if (approvedRoles.includes(UserRole.CFO) && user.role === UserRole.CEO) {
-        return true;
-      }
-      return false;
-    }
-
-    return requiredRoles.includes(user.role);
-  }
-
-  // If PENDING_FINANCE, check remaining approvals needed
-  if (status === 'PENDING_FINANCE') {
-    if (amount >= EXPENSE_THRESHOLD_CFO) {
-      if (!approvedRoles.includes(UserRole.CFO) && user.role === UserRole.CFO) {
-        return true;
-      }
-      if (approvedRoles.includes(UserRole.CFO) && !approvedRoles.includes(UserRole.CEO) && user.role === UserRole.CEO) {
-        return true;
-      }
-    }
-    return [UserRole.FINANCE_DIR, UserRole.CFO].includes(user.role as any);
-  }
-
-  return false;
-}
-
-/**
- * Check if all required approvals are complete based on amount
- */
-function isFullyApproved(amount: number, hasLineManagerApproval: boolean, financeApprovedRoles: string[]): boolean {
-  if (!hasLineManagerApproval) return false;
-
-  if (amount >= EXPENSE_THRESHOLD_CFO) {
-    // High amounts need CFO + CEO (or SUPER_ADMIN can substitute)
-    const hasCFO = financeApprovedRoles.includes(UserRole.CFO) || financeApprovedRoles.includes(UserRole.SUPER_ADMIN);
-    const hasCEO = financeApprovedRoles.includes(UserRole.CEO) || financeApprovedRoles.includes(UserRole.SUPER_ADMIN);
-    return hasCFO && hasCEO;
-  }
-
-  // Any finance approval is sufficient for amounts < 5M (SUPER_ADMIN counts as finance)
-  return financeApprovedRoles.some((r) => [UserRole.FINANCE_DIR, UserRole.CFO, UserRole.CEO, UserRole.SUPER_ADMIN].includes(r as any));
-}
-
 /**
  * Get the effective approver considering delegation
  */
@@ -172,6 +60,62 @@ async function getEffectiveApproverId(primaryUserId: string): Promise<string> {
   return primaryUserId;
 }
 
+/**
+ * Approval state of an expense under its policy version, and the step the user may
+ * approve or reject (LINE_MANAGER steps go to the requester's effective line manager)
+ */
+async function loadExpenseApproval(
+  exp: {
+    approvalPolicyId: string | null;
+    amount: unknown;
+    stationId: string | null;
+    category: string;
+    requester: { lineManagerId: string | null };
+    approvals: { role: string; userId: string; action: string; stepIndex: number | null }[];
+  },
+  user: { userId: string; role: string },
+  cache?: Map<string, any>,
+) {
+  let isLineManager = false;
+  if (exp.requester.lineManagerId) {
+    const effectiveManagerId = await getEffectiveApproverId(exp.requester.lineManagerId);
+    isLineManager = effectiveManagerId === user.userId;
+  }
+
+  const approved = exp.approvals.filter((a) => a.action === 'APPROVE');
+  const state = await getApprovalState(
+    prisma,
+    'EXPENSE',
+    {
+      approvalPolicyId: exp.approvalPolicyId,
+      amount: Number(exp.amount),
+      stationId: exp.stationId,
+      category: exp.category,
+      approvals: approved,
+    },
+    { hasLineManager: !!exp.requester.lineManagerId, cache },
+  );
+  const actionable = findActionableStep(state, user, {
+    isLineManager,
+    alreadyApproved: approved.some((a) => a.userId === user.userId),
+  });
+  return { state, actionable };
+}
+
+/**
+ * Expense status for an approval state: SUBMITTED while the line manager has to
+ * approve, PENDING_MANAGER once the finance steps are reached, PENDING_FINANCE after
+ * the first finance approval
+ */
+function expenseStatusFor(state: ApprovalState): 'SUBMITTED' | 'PENDING_MANAGER' | 'PENDING_FINANCE' | 'APPROVED' {
+  if (state.complete) return 'APPROVED';
+  if (state.openSteps.some((i) => state.steps[i]!.roles.includes(LINE_MANAGER_ROLE))) return 'SUBMITTED';
+  const financeApproved = state.steps.some(
+    (s) => s.status === 'APPROVED' && s.approvedRole !== LINE_MANAGER_ROLE,
+  );
+  return financeApproved ? 'PENDING_FINANCE' : 'PENDING_MANAGER';
+}
+
 // ═══════════════════════════════════════════════════════════════════
 // GET /expenses — List all expenses with filters
 // ═══════════════════════════════════════════════════════════════════
@@ -245,8 +189,6 @@ router.get(
 // ═══════════════════════════════════════════════════════════════════
 router.get('/pending', async (req: Request, res: Response) => {
   try {
-    const userId = req.user!.userId;
-
     // Fetch expenses that might need this user's approval
     const pendingExpenses = await prisma.expense.findMany({
       where: {
@@ -257,31 +199,18 @@ router.get('/pending', async (req: Request, res: Response) => {
           select: { id: true, fullName: true, lineManagerId: true },
         },
         station: { select: { id: true, name: true, code: true } },
-        approvals: { select: { role: true, action: true, userId: true } },
+        approvals: { select: { role: true, action: true, userId: true, stepIndex: true } },
       },
       orderBy: { createdAt: 'asc' },
     });
 
     const canApproveList: any[] = [];
+    const cache = new Map();
 
     for (const exp of pendingExpenses) {
-      const approvedRoles = (exp.approvals || [])
-        .filter((a: any) => a.action === 'APPROVE')
-        .map((a: any) => a.role);
-
-      // Check if user is line manager (considering delegation)
-      let isLineManager = false;
-      if (exp.requester.lineManagerId) {
-        const effectiveManagerId = await getEffectiveApproverId(exp.requester.lineManagerId);
-        isLineManager = effectiveManagerId === userId;
-      }
+      const { actionable } = await loadExpenseApproval(exp, req.user!, cache);
 
-      // Check if user already approved
-      const userAlreadyApproved = (exp.approvals || []).some(
-        (a: any) => a.userId === userId && a.action === 'APPROVE',
-      );
-
-      if (!userAlreadyApproved && canUserApproveExpense(req.user as any, exp, approvedRoles, isLineManager)) {
+      if (actionable) {
         canApproveList.push({
           id: exp.id,
           title: exp.title,
@@ -412,38 +341,23 @@ router.get('/:id', async (req: Request, res: Response) => {
     const exp = expense as any;
     const amount = Number(exp.amount);
     const approvedRoles = (exp.approvals || []).filter((a: any) => a.action === 'APPROVE').map((a: any) => a.role);
-    const hasLineManagerApproval = approvedRoles.includes('LINE_MANAGER');
+    const hasLineManagerApproval = approvedRoles.includes(LINE_MANAGER_ROLE);
 
-    // Check if current user can approve
-    let isLineManager = false;
-    if (exp.requester.lineManagerId) {
-      const effectiveManagerId = await getEffectiveApproverId(exp.requester.lineManagerId);
-      isLineManager = effectiveManagerId === req.user!.userId;
-    }
-
-    const userAlreadyApproved = (exp.approvals || []).some(
-      (a: any) => a.userId === req.user!.userId && a.action === 'APPROVE',
-    );
-
-    const canApprove =
-      !userAlreadyApproved &&
-      ['SUBMITTED', 'PENDING_MANAGER', 'PENDING_FINANCE'].includes(exp.status) &&
-      canUserApproveExpense(req.user as any, exp, approvedRoles, isLineManager);
+    const { state, actionable } = await loadExpenseApproval(expense, req.user!);
+    const canApprove = !!actionable && ['SUBMITTED', 'PENDING_MANAGER', 'PENDING_FINANCE'].includes(exp.status);
 
     const canDisburse =
       exp.status === 'APPROVED' &&
       [UserRole.CFO, UserRole.FINANCE_DIR, UserRole.SUPER_ADMIN].includes(req.user!.role as any);
 
-    // Determine next approver info
-    const nextApproverRoles = getNextApproverRoles(amount, exp.status, approvedRoles);
-
     sendSuccess(res, {
       data: {
         ...exp,
         amount,
         hasLineManagerApproval,
         approvedRoles,
-        nextApproverRoles,
+        approval: state,
+        nextApproverRoles: state.nextApproverRoles,
         canApprove,
         canReject: canApprove,
         canDisburse,
@@ -465,6 +379,12 @@ router.post('/', validate(createExpenseSchema), async (req: Request, res: Respon
     // Auto-attach station from user if not provided
     const effectiveStationId = stationId || req.user!.stationId || null;
 
+    const periodLock = await findPeriodLock(prisma, effectiveStationId, new Date());
+    if (periodLock) {
+      sendError(res, periodLockedError(periodLock));
+      return;
+    }
+
     // Get requester's line manager
     const requester = await prisma.user.findUnique({
       where: { id: req.user!.userId },
@@ -476,12 +396,15 @@ router.post('/', validate(createExpenseSchema), async (req: Request, res: Respon
       return;
     }
 
-    // Determine initial status: if no line manager, go directly to finance
-    let initialStatus: 'SUBMITTED' | 'PENDING_MANAGER' = 'SUBMITTED';
-    if (!requester.lineManagerId) {
-      // No line manager assigned, skip to finance approval
-      initialStatus = 'PENDING_MANAGER';
-    }
+    // The expense stays on the policy version in force today; without a line manager
+    // its LINE_MANAGER steps are skipped
+    const policy = await getActivePolicy(prisma, 'EXPENSE');
+    const state = await getApprovalState(
+      prisma,
+      'EXPENSE',
+      { approvalPolicyId: policy.id, amount, stationId: effectiveStationId, category, approvals: [] },
+      { hasLineManager: !!requester.lineManagerId },
+    );
 
     const expense = await prisma.expense.create({
       data: {
@@ -490,7 +413,8 @@ router.post('/', validate(createExpenseSchema), async (req: Request, res: Respon
         category,
         stationId: effectiveStationId,
         requesterId: req.user!.userId,
-        status: initialStatus,
+        status: expenseStatusFor(state),
+        approvalPolicyId: policy.id,
       },
       include: {
         requester: { select: { id: true, fullName: true } },
@@ -510,7 +434,11 @@ router.post('/', validate(createExpenseSchema), async (req: Request, res: Respon
     });
 
     sendSuccess(res, { data: { ...expense, amount: Number(expense.amount) }, statusCode: 201 });
-  } catch (error) {
+  } catch (error: any) {
+    if (error.code === 'BIZ_NO_APPROVAL_POLICY') {
+      sendError(res, { code: error.code, message: error.message, statusCode: error.statusCode });
+      return;
+    }
     logger.error(`Error creating expense: ${error}`);
     sendError(res, { code: 'INTERNAL_ERROR', message: 'Failed to create expense', statusCode: 500 });
   }
@@ -541,7 +469,7 @@ router.put('/:id/approve', validate(approveExpenseSchema), async (req: Request,
       where: { id },
       include: {
         requester: { select: { id: true, fullName: true, lineManagerId: true } },
-        approvals: { where: { action: 'APPROVE' }, select: { role: true, userId: true } },
+        approvals: { where: { action: 'APPROVE' }, select: { role: true, userId: true, action: true, stepIndex: true } },
       },
     });
 
@@ -550,6 +478,13 @@ router.put('/:id/approve', validate(approveExpenseSchema), async (req: Request,
       return;
     }
 
+    // Expenses of a closed period are read-only
+    const periodLock = await findPeriodLock(prisma, expense.stationId, expense.createdAt);
+    if (periodLock) {
+      sendError(res, periodLockedError(periodLock));
+      return;
+    }
+
     if (!['SUBMITTED', 'PENDING_MANAGER', 'PENDING_FINANCE'].includes(expense.status)) {
       sendError(res, {
         code: 'INVALID_STATUS',
@@ -559,62 +494,41 @@ router.put('/:id/approve', validate(approveExpenseSchema), async (req: Request,
       return;
     }
 
-    const exp = expense as any;
-    const amount = Number(exp.amount);
-    const approvedRoles = (exp.approvals || []).map((a: any) => a.role);
+    const amount = Number(expense.amount);
 
     // Check if user already approved
-    const userAlreadyApproved = (exp.approvals || []).some((a: any) => a.userId === req.user!.userId);
+    const userAlreadyApproved = expense.approvals.some((a) => a.userId === req.user!.userId);
     if (userAlreadyApproved) {
       sendError(res, { code: 'ALREADY_APPROVED', message: 'You have already approved this expense', statusCode: 400 });
       return;
     }
 
-    // Check if user is line manager (considering delegation)
-    let isLineManager = false;
-    if (exp.requester.lineManagerId) {
-      const effectiveManagerId = await getEffectiveApproverId(exp.requester.lineManagerId);
-      isLineManager = effectiveManagerId === req.user!.userId;
-    }
-
-    if (!canUserApproveExpense(req.user as any, exp, approvedRoles, isLineManager)) {
+    const { actionable } = await loadExpenseApproval(expense, req.user!);
+    if (!actionable) {
       sendError(res, { code: 'FORBIDDEN', message: 'You cannot approve this expense', statusCode: 403 });
       return;
     }
-
-    // Determine the role to record for this approval
-    let approvalRole: string;
-    if (expense.status === 'SUBMITTED' && isLineManager) {
-      approvalRole = 'LINE_MANAGER';
-    } else {
-      approvalRole = req.user!.role;
-    }
-
-    // Determine new status and if fully approved
-    const newApprovedRoles = [...approvedRoles, approvalRole];
-    const hasLineManagerApproval = newApprovedRoles.includes('LINE_MANAGER') || expense.status !== 'SUBMITTED';
-    const financeApprovedRoles = newApprovedRoles.filter((r) =>
-      [UserRole.FINANCE_DIR, UserRole.CFO, UserRole.CEO, UserRole.SUPER_ADMIN].includes(r as any),
+    const approvalRole = actionable.role;
+
+    // Status once this approval is recorded
+    const { state: nextState } = await loadExpenseApproval(
+      {
+        ...expense,
+        approvals: [
+          ...expense.approvals,
+          { role: approvalRole, userId: req.user!.userId, action: 'APPROVE', stepIndex: actionable.stepIndex },
+        ],
+      },
+      req.user!,
     );
-
-    let newStatus: string;
-    if (isFullyApproved(amount, hasLineManagerApproval, financeApprovedRoles)) {
-      newStatus = 'APPROVED';
-    } else if (expense.status === 'SUBMITTED') {
-      // Line manager just approved, move to finance
-      newStatus = 'PENDING_MANAGER';
-    } else if (amount >= EXPENSE_THRESHOLD_CFO && !financeApprovedRoles.includes(UserRole.CEO)) {
-      // High amount, still waiting for CEO after CFO
-      newStatus = 'PENDING_FINANCE';
-    } else {
-      newStatus = 'PENDING_FINANCE';
-    }
+    const newStatus = expenseStatusFor(nextState);
 
     const result = await prisma.$transaction(async (tx: typeof prisma) => {
       await tx.approvalStep.create({
         data: {
           entityType: 'EXPENSE',
           expenseId: id,
+          stepIndex: actionable.stepIndex,
           role: approvalRole,
           userId: req.user!.userId,
           action: 'APPROVE',
@@ -685,7 +599,7 @@ router.put('/:id/reject', validate(rejectExpenseSchema), async (req: Request, re
       where: { id },
       include: {
         requester: { select: { id: true, fullName: true, lineManagerId: true } },
-        approvals: { where: { action: 'APPROVE' }, select: { role: true } },
+        approvals: { where: { action: 'APPROVE' }, select: { role: true, userId: true, action: true, stepIndex: true } },
       },
     });
 
@@ -694,6 +608,13 @@ router.put('/:id/reject', validate(rejectExpenseSchema), async (req: Request, re
       return;
     }
 
+    // Expenses of a closed period are read-only
+    const periodLock = await findPeriodLock(prisma, expense.stationId, expense.createdAt);
+    if (periodLock) {
+      sendError(res, periodLockedError(periodLock));
+      return;
+    }
+
     if (!['SUBMITTED', 'PENDING_MANAGER', 'PENDING_FINANCE'].includes(expense.status)) {
       sendError(res, {
         code: 'INVALID_STATUS',
@@ -703,34 +624,20 @@ router.put('/:id/reject', validate(rejectExpenseSchema), async (req: Request, re
       return;
     }
 
-    const exp = expense as any;
-    const approvedRoles = (exp.approvals || []).map((a: any) => a.role);
-
     // Check if user can reject (same logic as approve)
-    let isLineManager = false;
-    if (exp.requester.lineManagerId) {
-      const effectiveManagerId = await getEffectiveApproverId(exp.requester.lineManagerId);
-      isLineManager = effectiveManagerId === req.user!.userId;
-    }
-
-    if (!canUserApproveExpense(req.user as any, exp, approvedRoles, isLineManager)) {
+    const { actionable } = await loadExpenseApproval(expense, req.user!);
+    if (!actionable) {
       sendError(res, { code: 'FORBIDDEN', message: 'You cannot reject this expense', statusCode: 403 });
       return;
     }
-
-    // Determine the role to record
-    let rejectionRole: string;
-    if (expense.status === 'SUBMITTED' && isLineManager) {
-      rejectionRole = 'LINE_MANAGER';
-    } else {
-      rejectionRole = req.user!.role;
-    }
+    const rejectionRole = actionable.role;
 
     const result = await prisma.$transaction(async (tx: typeof prisma) => {
       await tx.approvalStep.create({
         data: {
           entityType: 'EXPENSE',
           expenseId: id,
+          stepIndex: actionable.stepIndex,
           role: rejectionRole,
           userId: req.user!.userId,
           action: 'REJECT',
@@ -805,6 +712,13 @@ router.put(
         return;
       }
 
+      // Expenses of a closed period are read-only
+      const periodLock = await findPeriodLock(prisma, expense.stationId, expense.createdAt);
+      if (periodLock) {
+        sendError(res, periodLockedError(periodLock));
+        return;
+      }
+
       if (expense.status !== 'APPROVED') {
         sendError(res, {
           code: 'INVALID_STATUS',
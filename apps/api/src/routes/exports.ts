@@ -1,11 +1,14 @@
 import { Router, Request, Response } from 'express';
 import { Prisma } from '@prisma/client';
 import prisma from '../lib/prisma';
-import { sendError } from '../lib/response';
+import { sendError, getParam } from '../lib/response';
 import { requireAuth } from '../middleware/auth';
 import { requireRole } from '../middleware/rbac';
 import { UserRole } from '@alcom/shared';
 import logger from '../lib/logger';
+import { shiftPatternName } from '../services/shift-pattern.service';
+import { buildCustomerStatement } from '../services/credit-account.service';
+import { CLOSED_SHIFT_STATUSES } from '../services/period.service';
 
 const router = Router();
 
@@ -19,6 +22,14 @@ const EXPORT_ROLES = [
   UserRole.LOGISTICS,
 ];
 
+const STATEMENT_ROLES = [
+  UserRole.SUPER_ADMIN,
+  UserRole.CEO,
+  UserRole.CFO,
+  UserRole.FINANCE_DIR,
+  UserRole.DCO,
+];
+
 const EXECUTIVE_ROLES = [
   UserRole.SUPER_ADMIN,
   UserRole.CEO,
@@ -70,7 +81,7 @@ router.get(
         ? new Date(req.query.endDate as string)
         : undefined;
 
-      const where: Prisma.ShiftReportWhereInput = { status: 'CLOSED' };
+      const where: Prisma.ShiftReportWhereInput = { status: { in: CLOSED_SHIFT_STATUSES } };
       if (stationId) {
         where.stationId = stationId;
       } else if (!EXECUTIVE_ROLES.includes(req.user!.role as any)) {
@@ -85,17 +96,23 @@ router.get(
       const shifts = await prisma.shiftReport.findMany({
         where,
         include: {
-          station: { select: { name: true, code: true } },
+          station: { select: { name: true, code: true, settings: true } },
           openedBy: { select: { fullName: true } },
           closedBy: { select: { fullName: true } },
+          payments: { select: { method: true, amount: true } },
         },
         orderBy: { shiftDate: 'desc' },
         take: 5000,
       });
 
+      // One column per non-cash payment method found in the exported shifts
+      const paymentMethods = [...new Set(shifts.flatMap((s) => s.payments.map((p) => p.method)))].sort();
+      const paymentHeader = (method: string) => `Payment_${method}`;
+
       const headers = [
         'Date',
         'ShiftType',
+        'ShiftName',
         'Station',
         'StationCode',
         'Status',
@@ -104,6 +121,7 @@ router.get(
         'StockVariance',
         'CashCounted',
         'CardAmount',
+        ...paymentMethods.map(paymentHeader),
         'ExpensesAmount',
         'TheoreticalCash',
         'OpenedBy',
@@ -114,6 +132,7 @@ router.get(
       const rows = shifts.map((s) => ({
         Date: new Date(s.shiftDate).toISOString().split('T')[0],
         ShiftType: s.shiftType,
+        ShiftName: shiftPatternName(s.station.settings, s.shiftType),
         Station: s.station.name,
         StationCode: s.station.code,
         Status: s.status,
@@ -122,6 +141,12 @@ router.get(
         StockVariance: Number(s.stockVariance),
         CashCounted: Number(s.cashCounted),
         CardAmount: Number(s.cardAmount),
+        ...Object.fromEntries(
+          paymentMethods.map((method) => [
+            paymentHeader(method),
+            Number(s.payments.find((p) => p.method === method)?.amount ?? 0),
+          ]),
+        ),
         ExpensesAmount: Number(s.expensesAmount),
         TheoreticalCash: Number(s.theoreticalCash),
         OpenedBy: s.openedBy.fullName,
@@ -279,4 +304,65 @@ router.get(
   },
 );
 
+// ══════════════════════════════════════════════════════════════════
+//  GET /exports/customers/:id/statement?month=YYYY-MM — statement of account CSV
+// ══════════════════════════════════════════════════════════════════
+router.get(
+  '/customers/:id/statement',
+  requireAuth,
+  requireRole(...STATEMENT_ROLES),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const month = req.query.month as string | undefined;
+      if (!month || !/^\d{4}-(0[1-9]|1[0-2])$/.test(month)) {
+        sendError(res, { code: 'VALIDATION_ERROR', message: 'Month must be YYYY-MM', statusCode: 400 });
+        return;
+      }
+
+      const statement = await buildCustomerStatement(prisma, getParam(req, 'id'), month);
+      if (!statement) {
+        sendError(res, { code: 'NOT_FOUND', message: 'Customer not found', statusCode: 404 });
+        return;
+      }
+
+      const headers = ['Date', 'Type', 'Reference', 'Description', 'Debit', 'Credit', 'Balance'];
+
+      const rows = [
+        {
+          Date: statement.periodStart,
+          Type: 'OPENING_BALANCE',
+          Balance: statement.openingBalance,
+        },
+        ...statement.entries.map((e) => ({
+          Date: e.date.toISOString().split('T')[0],
+          Type: e.type,
+          Reference: e.reference,
+          Description: e.description,
+          Debit: e.debit || '',
+          Credit: e.credit || '',
+          Balance: e.balance,
+        })),
+        {
+          Date: statement.periodEnd,
+          Type: 'CLOSING_BALANCE',
+          Debit: statement.totalDebit,
+          Credit: statement.totalCredit,
+          Balance: statement.closingBalance,
+        },
+      ];
+
+      const csv = toCsv(headers, rows);
+      const name = statement.customer.name.replace(/[^A-Za-z0-9]+/g, '_');
+      sendCsv(res, `statement_${name}_${month}.csv`, csv);
+    } catch (error) {
+      logger.error(`Customer statement export error: ${error}`);
+      sendError(res, {
+        code: 'EXPORT_ERROR',
+        message: 'Failed to export customer statement',
+        statusCode: 500,
+      });
+    }
+  },
+);
+
 export default router;
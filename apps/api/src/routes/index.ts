@@ -5,6 +5,7 @@ import userRoutes from './users';
 import stationRoutes from './stations';
 import shiftRoutes from './shifts';
 import priceRoutes from './prices';
+import priceZoneRoutes from './price-zones';
 import tankRoutes from './tanks';
 import pumpRoutes from './pumps';
 import nozzleRoutes from './nozzles';
@@ -20,6 +21,21 @@ import notificationRoutes from './notifications';
 import mailRoutes from './mails';
 import statsRoutes from './stats';
 import exportRoutes from './exports';
+import atgRoutes from './atg';
+import periodRoutes from './periods';
+import cashRoutes from './cash';
+import transferRoutes from './transfers';
+import productRoutes from './products';
+import cylinderRoutes from './cylinders';
+import customerRoutes from './customers';
+import couponRoutes from './coupons';
+import purchaseOrderRoutes from './purchase-orders';
+import deliveryDisputeRoutes from './delivery-disputes';
+import carrierRoutes from './carriers';
+import truckRoutes from './trucks';
+import driverRoutes from './drivers';
+import tripRoutes from './trips';
+import approvalPolicyRoutes from './approval-policies';
 
 const router: Router = Router();
 
@@ -32,6 +48,7 @@ router.use('/users', userRoutes);
 router.use('/stations', stationRoutes);
 router.use('/shifts', shiftRoutes);
 router.use('/prices', priceRoutes);
+router.use('/price-zones', priceZoneRoutes);
 router.use('/tanks', tankRoutes);
 router.use('/pumps', pumpRoutes);
 router.use('/nozzles', nozzleRoutes);
@@ -47,6 +64,21 @@ router.use('/notifications', notificationRoutes);
 router.use('/mails', mailRoutes);
 router.use('/stats', statsRoutes);
 router.use('/exports', exportRoutes);
+router.use('/atg', atgRoutes);
+router.use('/periods', periodRoutes);
+router.use('/cash', cashRoutes);
+router.use('/transfers', transferRoutes);
+router.use('/products', productRoutes);
+router.use('/cylinders', cylinderRoutes);
+router.use('/customers', customerRoutes);
+router.use('/coupons', couponRoutes);
+router.use('/purchase-orders', purchaseOrderRoutes);
+router.use('/delivery-disputes', deliveryDisputeRoutes);
+router.use('/carriers', carrierRoutes);
+router.use('/trucks', truckRoutes);
+router.use('/drivers', driverRoutes);
+router.use('/trips', tripRoutes);
+router.use('/approval-policies', approvalPolicyRoutes);
 
 // Future route modules will be mounted here:
 // router.use('/api/v1/stations', stationsRoutes);
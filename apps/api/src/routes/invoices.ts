@@ -1,4 +1,5 @@
 import { Router, Request, Response } from 'express';
+import Decimal from 'decimal.js';
 import prisma from '../lib/prisma';
 import { sendSuccess, sendError, sendPaginated, getHeader, getParam } from '../lib/response';
 import { validate, validateQuery } from '../middleware/validate';
@@ -11,49 +12,62 @@ import {
   rejectInvoiceSchema,
   payInvoiceSchema,
   invoiceListFiltersSchema,
-  INVOICE_THRESHOLD_CFO,
 } from '@alcom/shared';
 import logger from '../lib/logger';
 import { enqueueEmail } from '../jobs';
+import { matchInvoice } from '../services/purchase-order.service';
+import { getActivePolicy, getApprovalState, findActionableStep } from '../services/approval.service';
 
 const router: Router = Router();
 
 // Apply authentication middleware
 router.use(requireAuth);
 
-// Helper: Determine required approvers based on amount
-function getRequiredApprovers(amount: number): string[] {
-  if (amount >= INVOICE_THRESHOLD_CFO) {
-    return [UserRole.CFO, UserRole.CEO];
-  }
-  return [UserRole.FINANCE_DIR];
-}
-
-// Helper: Check if user can approve invoice based on amount
-function canUserApprove(userRole: string, amount: number, existingApprovals: string[]): boolean {
-  const requiredApprovers = getRequiredApprovers(amount);
-
-  if (userRole !== UserRole.SUPER_ADMIN && !requiredApprovers.includes(userRole)) {
-    return false;
-  }
-
-  if (amount >= INVOICE_THRESHOLD_CFO) {
-    if (userRole === UserRole.CEO && !existingApprovals.includes(UserRole.CFO)) {
-      return false;
-    }
-  }
-
-  if (existingApprovals.includes(userRole)) {
-    return false;
-  }
-
-  return true;
+// Helper: Approval state of an invoice under its policy version, and the step the user may act on
+async function loadInvoiceApproval(
+  inv: {
+    approvalPolicyId: string | null;
+    amount: unknown;
+    supplier: { category: string };
+    purchaseOrder: { stationId: string } | null;
+    approvals: { role: string; userId: string; action: string; stepIndex: number | null }[];
+  },
+  user: { userId: string; role: string },
+  cache?: Map<string, any>,
+) {
+  const approved = inv.approvals.filter((a) => a.action === 'APPROVE');
+  const state = await getApprovalState(
+    prisma,
+    'INVOICE',
+    {
+      approvalPolicyId: inv.approvalPolicyId,
+      amount: Number(inv.amount),
+      stationId: inv.purchaseOrder?.stationId ?? null,
+      category: inv.supplier.category,
+      approvals: approved,
+    },
+    { cache },
+  );
+  const actionable = findActionableStep(state, user, { alreadyApproved: approved.some((a) => a.userId === user.userId) });
+  return { state, actionable };
 }
 
-// Helper: Check if all required approvals are complete
-function isFullyApproved(amount: number, approvals: string[]): boolean {
-  const required = getRequiredApprovers(amount);
-  return required.every((r) => approvals.includes(r));
+const approvalInclude = {
+  supplier: { select: { id: true, name: true, category: true } },
+  purchaseOrder: { select: { stationId: true } },
+  approvals: { select: { role: true, userId: true, action: true, stepIndex: true } },
+};
+
+// Roles that may approve an invoice failing the three-way match, with a reason
+const MATCH_OVERRIDE_ROLES: string[] = [UserRole.CFO, UserRole.CEO, UserRole.SUPER_ADMIN];
+
+// Helper: Invoice lines as matched against the purchase order
+function toMatchLines(lines: { fuelType: string; quantity: unknown; unitPrice: unknown }[]) {
+  return lines.map((l) => ({
+    fuelType: l.fuelType as 'ESSENCE' | 'GASOIL' | 'PETROLE',
+    quantity: Number(l.quantity),
+    unitPrice: Number(l.unitPrice),
+  }));
 }
 
 // ═══════════════════════════════════════════════════════════════════
@@ -110,26 +124,21 @@ router.get(
 // ═══════════════════════════════════════════════════════════════════
 router.get(
   '/pending',
-  requireRole(UserRole.FINANCE_DIR, UserRole.CFO, UserRole.CEO, UserRole.SUPER_ADMIN),
   async (req: Request, res: Response) => {
     try {
-      const userRole = req.user!.role;
-
       const pendingInvoices = await prisma.invoice.findMany({
         where: { status: 'PENDING_APPROVAL' },
-        include: {
-          supplier: { select: { id: true, name: true } },
-          approvals: { select: { role: true, action: true } },
-        },
+        include: approvalInclude,
         orderBy: { createdAt: 'asc' },
       });
 
-      const canApproveList = pendingInvoices.filter((inv: any) => {
-        const approved = (inv.approvals || [])
-          .filter((a: any) => a.action === 'APPROVE')
-          .map((a: any) => a.role);
-        return canUserApprove(userRole, Number(inv.amount), approved);
-      });
+      // Approvers are set by the approval policy, not by a fixed list of roles
+      const cache = new Map();
+      const canApproveList = [];
+      for (const inv of pendingInvoices) {
+        const { actionable } = await loadInvoiceApproval(inv, req.user!, cache);
+        if (actionable) canApproveList.push(inv);
+      }
 
       const formatted = canApproveList.map((inv: any) => ({
         id: inv.id,
@@ -137,7 +146,7 @@ router.get(
         amount: Number(inv.amount),
         status: inv.status,
         dueDate: inv.dueDate,
-        supplier: inv.supplier,
+        supplier: { id: inv.supplier.id, name: inv.supplier.name },
         createdAt: inv.createdAt,
       }));
 
@@ -169,6 +178,9 @@ router.get(
             include: { user: { select: { id: true, fullName: true } } },
             orderBy: { actedAt: 'asc' },
           },
+          purchaseOrder: { select: { id: true, poNumber: true, status: true, stationId: true } },
+          approvalPolicy: { select: { id: true, version: true } },
+          lines: { orderBy: { fuelType: 'asc' } },
         },
       });
 
@@ -179,17 +191,23 @@ router.get(
 
       const inv = invoice as any;
       const amount = Number(inv.amount);
-      const requiredApprovers = getRequiredApprovers(amount);
+      const { state, actionable } = await loadInvoiceApproval(invoice, req.user!);
       const existingApprovals = (inv.approvals || [])
         .filter((a: any) => a.action === 'APPROVE')
         .map((a: any) => a.role);
-      const canApprove = canUserApprove(req.user!.role, amount, existingApprovals);
+      const canApprove = !!actionable;
+      const threeWayMatch = inv.purchaseOrderId
+        ? await matchInvoice(prisma, inv.purchaseOrderId, toMatchLines(inv.lines))
+        : null;
 
       sendSuccess(res, {
         data: {
           ...inv,
           amount,
-          requiredApprovers,
+          threeWayMatch,
+          canOverrideMatch: MATCH_OVERRIDE_ROLES.includes(req.user!.role),
+          approval: state,
+          requiredApprovers: state.steps.filter((s) => s.status !== 'SKIPPED').map((s) => s.roles.join(' / ')),
           existingApprovals,
           canApprove: canApprove && inv.status === 'PENDING_APPROVAL',
           canReject: canApprove && inv.status === 'PENDING_APPROVAL',
@@ -214,7 +232,7 @@ router.post(
   validate(createInvoiceSchema),
   async (req: Request, res: Response) => {
     try {
-      const { supplierId, invoiceNumber, amount, dueDate, fileUrl } = req.body;
+      const { supplierId, invoiceNumber, amount, dueDate, fileUrl, purchaseOrderId, lines } = req.body;
       const idempotencyKey = getHeader(req, 'idempotency-key');
 
       if (idempotencyKey) {
@@ -234,10 +252,35 @@ router.post(
         return;
       }
 
+      let threeWayMatch = null;
+      if (purchaseOrderId) {
+        const order = await prisma.purchaseOrder.findUnique({ where: { id: purchaseOrderId } });
+
+        if (!order) {
+          sendError(res, { code: 'NOT_FOUND', message: 'Purchase order not found', statusCode: 404 });
+          return;
+        }
+
+        if (order.supplierId !== supplierId) {
+          sendError(res, { code: 'BIZ_PO_SUPPLIER_MISMATCH', message: 'The purchase order was issued to another supplier', statusCode: 400 });
+          return;
+        }
+
+        if (order.status === 'CANCELLED') {
+          sendError(res, { code: 'INVALID_STATUS', message: 'Cannot invoice a cancelled purchase order', statusCode: 400 });
+          return;
+        }
+
+        threeWayMatch = await matchInvoice(prisma, purchaseOrderId, lines);
+      }
+
       const duplicate = await prisma.invoice.findFirst({
         where: { supplierId, invoiceNumber },
       });
 
+      // The invoice stays on the policy version in force today, even if the policy changes
+      const policy = await getActivePolicy(prisma, 'INVOICE');
+
       const invoice = await prisma.invoice.create({
         data: {
           supplierId,
@@ -248,17 +291,34 @@ router.post(
           status: 'PENDING_APPROVAL',
           submittedById: req.user!.userId,
           idempotencyKey: idempotencyKey || null,
+          purchaseOrderId: purchaseOrderId || null,
+          approvalPolicyId: policy.id,
+          matchStatus: threeWayMatch ? (threeWayMatch.matched ? 'MATCHED' : 'MISMATCH') : null,
+          lines: lines
+            ? {
+                create: lines.map((l: { fuelType: 'ESSENCE' | 'GASOIL' | 'PETROLE'; quantity: number; unitPrice: number }) => ({
+                  fuelType: l.fuelType,
+                  quantity: l.quantity,
+                  unitPrice: l.unitPrice,
+                  amount: new Decimal(l.quantity).times(l.unitPrice).toDecimalPlaces(4).toNumber(),
+                })),
+              }
+            : undefined,
         },
-        include: { supplier: { select: { id: true, name: true } } },
+        include: { supplier: { select: { id: true, name: true } }, lines: true },
       });
 
-      const response: Record<string, unknown> = { ...invoice, amount: Number(invoice.amount) };
+      const response: Record<string, unknown> = { ...invoice, amount: Number(invoice.amount), threeWayMatch };
       if (duplicate) {
         response.warning = `Duplicate invoice number detected: Invoice #${invoiceNumber} already exists for this supplier`;
       }
 
       sendSuccess(res, { data: response, statusCode: 201 });
-    } catch (error) {
+    } catch (error: any) {
+      if (error.code === 'BIZ_NO_APPROVAL_POLICY') {
+        sendError(res, { code: error.code, message: error.message, statusCode: error.statusCode });
+        return;
+      }
       logger.error(`Error creating invoice: ${error}`);
       sendError(res, { code: 'INTERNAL_ERROR', message: 'Failed to create invoice', statusCode: 500 });
     }
@@ -270,12 +330,11 @@ router.post(
 // ═══════════════════════════════════════════════════════════════════
 router.put(
   '/:id/approve',
-  requireRole(UserRole.FINANCE_DIR, UserRole.CFO, UserRole.CEO, UserRole.SUPER_ADMIN),
   validate(approveInvoiceSchema),
   async (req: Request, res: Response) => {
     try {
       const id = getParam(req, 'id');
-      const { comment } = req.body;
+      const { comment, overrideReason } = req.body;
       const idempotencyKey = getHeader(req, 'idempotency-key');
 
       if (idempotencyKey) {
@@ -291,7 +350,7 @@ router.put(
 
       const invoice = await prisma.invoice.findUnique({
         where: { id },
-        include: { approvals: { where: { action: 'APPROVE' }, select: { role: true } } },
+        include: { ...approvalInclude, lines: true },
       });
 
       if (!invoice) {
@@ -304,30 +363,71 @@ router.put(
         return;
       }
 
-      const inv = invoice as any;
-      const amount = Number(inv.amount);
-      const existingApprovals = (inv.approvals || []).map((a: any) => a.role);
+      const amount = Number(invoice.amount);
+      const { state, actionable } = await loadInvoiceApproval(invoice, req.user!);
 
-      if (!canUserApprove(req.user!.role, amount, existingApprovals)) {
+      if (!actionable) {
         sendError(res, { code: 'FORBIDDEN', message: 'You cannot approve this invoice', statusCode: 403 });
         return;
       }
 
-      const newApprovals = [...existingApprovals, req.user!.role];
-      const fullyApproved = isFullyApproved(amount, newApprovals);
+      // Three-way match is recomputed on approval: deliveries may have been completed since submission
+      let matchOverridden = false;
+      if (invoice.purchaseOrderId) {
+        const threeWayMatch = await matchInvoice(prisma, invoice.purchaseOrderId, toMatchLines(invoice.lines));
+        const matchStatus = threeWayMatch.matched ? 'MATCHED' : 'MISMATCH';
+        if (invoice.matchStatus !== matchStatus) {
+          await prisma.invoice.update({ where: { id }, data: { matchStatus } });
+        }
+
+        if (!threeWayMatch.matched) {
+          if (!overrideReason) {
+            sendError(res, {
+              code: 'BIZ_THREE_WAY_MISMATCH',
+              message: 'Invoiced quantity or price does not match the purchase order and the volume received',
+              details: { threeWayMatch },
+              statusCode: 409,
+            });
+            return;
+          }
+          if (!MATCH_OVERRIDE_ROLES.includes(req.user!.role)) {
+            sendError(res, { code: 'FORBIDDEN', message: 'Only the CFO or CEO can approve an invoice failing the three-way match', statusCode: 403 });
+            return;
+          }
+          matchOverridden = true;
+        }
+      }
+
+      // Fully approved once this approval completes the last pending step
+      const fullyApproved = state.steps.filter((s) => s.status === 'PENDING').length === 1;
 
       const result = await prisma.$transaction(async (tx) => {
         await tx.approvalStep.create({
           data: {
             entityType: 'INVOICE',
             invoiceId: id,
-            role: req.user!.role,
+            stepIndex: actionable.stepIndex,
+            role: actionable.role,
             userId: req.user!.userId,
             action: 'APPROVE',
-            comment: comment || null,
+            comment: matchOverridden
+              ? [`Three-way match override: ${overrideReason}`, comment].filter(Boolean).join(' — ')
+              : comment || null,
           },
         });
 
+        if (matchOverridden) {
+          await tx.auditLog.create({
+            data: {
+              userId: req.user!.userId,
+              action: 'INVOICE_MATCH_OVERRIDDEN',
+              entityType: 'Invoice',
+              entityId: id,
+              changes: { purchaseOrderId: invoice.purchaseOrderId, overrideReason },
+            },
+          });
+        }
+
         if (fullyApproved) {
           return tx.invoice.update({
             where: { id },
@@ -394,7 +494,6 @@ router.put(
 // ═══════════════════════════════════════════════════════════════════
 router.put(
   '/:id/reject',
-  requireRole(UserRole.FINANCE_DIR, UserRole.CFO, UserRole.CEO, UserRole.SUPER_ADMIN),
   validate(rejectInvoiceSchema),
   async (req: Request, res: Response) => {
     try {
@@ -415,7 +514,7 @@ router.put(
 
       const invoice = await prisma.invoice.findUnique({
         where: { id },
-        include: { approvals: { where: { action: 'APPROVE' }, select: { role: true } } },
+        include: approvalInclude,
       });
 
       if (!invoice) {
@@ -428,11 +527,10 @@ router.put(
         return;
       }
 
-      const inv = invoice as any;
-      const amount = Number(inv.amount);
-      const existingApprovals = (inv.approvals || []).map((a: any) => a.role);
+      const amount = Number(invoice.amount);
+      const { actionable } = await loadInvoiceApproval(invoice, req.user!);
 
-      if (!canUserApprove(req.user!.role, amount, existingApprovals)) {
+      if (!actionable) {
         sendError(res, { code: 'FORBIDDEN', message: 'You cannot reject this invoice', statusCode: 403 });
         return;
       }
@@ -442,7 +540,8 @@ router.put(
           data: {
             entityType: 'INVOICE',
             invoiceId: id,
-            role: req.user!.role,
+            stepIndex: actionable.stepIndex,
+            role: actionable.role,
             userId: req.user!.userId,
             action: 'REJECT',
             comment: reason,
@@ -1,9 +1,13 @@
 import { Router, Request, Response } from 'express';
 import prisma from '../lib/prisma';
-import { sendSuccess, sendError } from '../lib/response';
+import { sendSuccess, sendError, getParam } from '../lib/response';
+import logger from '../lib/logger';
 import { requireAuth } from '../middleware/auth';
 import { requireRole } from '../middleware/rbac';
 import { validate } from '../middleware/validate';
+import { recordMeterReplacementSchema, recordCalibrationTestSchema } from '@alcom/shared';
+import { recordMeterReplacement } from '../services/meter-replacement.service';
+import { recordCalibrationTest } from '../services/pump-calibration.service';
 import { z } from 'zod';
 
 const router = Router();
@@ -13,10 +17,14 @@ const createNozzleSchema = z.object({
   pumpId: z.string().uuid(),
   side: z.enum(['A', 'B']),
   meterIndex: z.number().nonnegative().default(0),
+  meterType: z.enum(['ELECTRONIC', 'MECHANICAL']).optional(),
+  rolloverValue: z.number().positive().optional(),
 });
 
 const updateNozzleSchema = z.object({
   meterIndex: z.number().nonnegative().optional(),
+  meterType: z.enum(['ELECTRONIC', 'MECHANICAL']).optional(),
+  rolloverValue: z.number().positive().optional(),
 });
 
 // GET /nozzles - List nozzles (optionally by pump)
@@ -70,7 +78,7 @@ router.get('/:id', requireAuth, async (req: Request, res: Response) => {
 // POST /nozzles - Create nozzle
 router.post('/', requireAuth, requireRole('SUPER_ADMIN', 'CEO'), validate(createNozzleSchema), async (req: Request, res: Response) => {
   try {
-    const { pumpId, side, meterIndex } = req.body;
+    const { pumpId, side, meterIndex, meterType, rolloverValue } = req.body;
 
     // Verify pump exists
     const pump = await prisma.pump.findFirst({ where: { id: pumpId, deletedAt: null } });
@@ -101,7 +109,7 @@ router.post('/', requireAuth, requireRole('SUPER_ADMIN', 'CEO'), validate(create
     }
 
     const nozzle = await prisma.nozzle.create({
-      data: { pumpId, side, meterIndex: meterIndex || 0 },
+      data: { pumpId, side, meterIndex: meterIndex || 0, meterType, rolloverValue },
       include: {
         pump: { select: { id: true, code: true, stationId: true } },
       },
@@ -114,11 +122,11 @@ router.post('/', requireAuth, requireRole('SUPER_ADMIN', 'CEO'), validate(create
   }
 });
 
-// PATCH /nozzles/:id - Update nozzle meter index
+// PATCH /nozzles/:id - Update nozzle meter index and meter configuration
 router.patch('/:id', requireAuth, requireRole('SUPER_ADMIN', 'CEO', 'STATION_MANAGER', 'CHEF_PISTE'), validate(updateNozzleSchema), async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
-    const { meterIndex } = req.body;
+    const { meterIndex, meterType, rolloverValue } = req.body;
 
     const nozzle = await prisma.nozzle.findUnique({ where: { id } });
     if (!nozzle) {
@@ -127,7 +135,11 @@ router.patch('/:id', requireAuth, requireRole('SUPER_ADMIN', 'CEO', 'STATION_MAN
 
     const updated = await prisma.nozzle.update({
       where: { id },
-      data: { ...(meterIndex !== undefined && { meterIndex }) },
+      data: {
+        ...(meterIndex !== undefined && { meterIndex }),
+        ...(meterType !== undefined && { meterType }),
+        ...(rolloverValue !== undefined && { rolloverValue }),
+      },
     });
 
     return sendSuccess(res, { data: updated });
@@ -136,6 +148,81 @@ router.patch('/:id', requireAuth, requireRole('SUPER_ADMIN', 'CEO', 'STATION_MAN
   }
 });
 
+// GET /nozzles/:id/meter-replacements - Meter replacement history of a nozzle
+router.get('/:id/meter-replacements', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const id = getParam(req, 'id');
+    const replacements = await prisma.nozzleMeterReplacement.findMany({
+      where: { nozzleId: id },
+      include: {
+        recordedBy: { select: { id: true, fullName: true } },
+        shiftReport: { select: { id: true, shiftDate: true, shiftType: true } },
+      },
+      orderBy: { replacedAt: 'desc' },
+    });
+
+    return sendSuccess(res, { data: replacements });
+  } catch (error) {
+    return sendError(res, { code: 'INTERNAL_ERROR', message: 'Failed to fetch meter replacements', statusCode: 500 });
+  }
+});
+
+// POST /nozzles/:id/meter-replacements - Record a meter replacement
+router.post('/:id/meter-replacements', requireAuth, requireRole('SUPER_ADMIN', 'CEO', 'STATION_MANAGER', 'CHEF_PISTE'), validate(recordMeterReplacementSchema), async (req: Request, res: Response) => {
+  try {
+    const id = getParam(req, 'id');
+
+    const nozzle = await prisma.nozzle.findUnique({ where: { id }, include: { pump: { select: { stationId: true } } } });
+    if (!nozzle) {
+      return sendError(res, { code: 'NOT_FOUND', message: 'Nozzle not found', statusCode: 404 });
+    }
+    const stationScoped = ['STATION_MANAGER', 'CHEF_PISTE'].includes(req.user!.role);
+    if (stationScoped && req.user!.stationId !== nozzle.pump.stationId) {
+      return sendError(res, { code: 'FORBIDDEN', message: 'No access to this station', statusCode: 403 });
+    }
+
+    const replacement = await prisma.$transaction((tx) =>
+      recordMeterReplacement(tx, id, req.body, req.user!.userId),
+    );
+
+    return sendSuccess(res, { data: replacement, statusCode: 201 });
+  } catch (error: any) {
+    if (error.code && error.statusCode) {
+      return sendError(res, { code: error.code, message: error.message, details: error.details, statusCode: error.statusCode });
+    }
+    logger.error({ error }, 'Error recording meter replacement');
+    return sendError(res, { code: 'INTERNAL_ERROR', message: 'Failed to record meter replacement', statusCode: 500 });
+  }
+});
+
+// POST /nozzles/:id/calibration-tests - Record a calibration test with a test measure
+router.post('/:id/calibration-tests', requireAuth, requireRole('SUPER_ADMIN', 'CEO', 'STATION_MANAGER', 'CHEF_PISTE'), validate(recordCalibrationTestSchema), async (req: Request, res: Response) => {
+  try {
+    const id = getParam(req, 'id');
+
+    const nozzle = await prisma.nozzle.findUnique({ where: { id }, include: { pump: { select: { stationId: true } } } });
+    if (!nozzle) {
+      return sendError(res, { code: 'NOT_FOUND', message: 'Nozzle not found', statusCode: 404 });
+    }
+    const stationScoped = ['STATION_MANAGER', 'CHEF_PISTE'].includes(req.user!.role);
+    if (stationScoped && req.user!.stationId !== nozzle.pump.stationId) {
+      return sendError(res, { code: 'FORBIDDEN', message: 'No access to this station', statusCode: 403 });
+    }
+
+    const test = await prisma.$transaction((tx) =>
+      recordCalibrationTest(tx, id, req.body, req.user!.userId),
+    );
+
+    return sendSuccess(res, { data: test, statusCode: 201 });
+  } catch (error: any) {
+    if (error.code && error.statusCode) {
+      return sendError(res, { code: error.code, message: error.message, details: error.details, statusCode: error.statusCode });
+    }
+    logger.error({ error }, 'Error recording calibration test');
+    return sendError(res, { code: 'INTERNAL_ERROR', message: 'Failed to record calibration test', statusCode: 500 });
+  }
+});
+
 // DELETE /nozzles/:id - Hard delete nozzle
 router.delete('/:id', requireAuth, requireRole('SUPER_ADMIN'), async (req: Request, res: Response) => {
   try {
@@ -0,0 +1,361 @@
+import { Router, Request, Response } from 'express';
+import { PeriodReopenStatus, Prisma } from '@prisma/client';
+import prisma from '../lib/prisma';
+import { sendSuccess, sendError, getParam } from '../lib/response';
+import { validate, validateQuery } from '../middleware/validate';
+import { requireAuth } from '../middleware/auth';
+import { requireRole } from '../middleware/rbac';
+import {
+  UserRole,
+  closePeriodSchema,
+  requestPeriodReopenSchema,
+  approvePeriodReopenSchema,
+  rejectPeriodReopenSchema,
+  periodCloseFiltersSchema,
+} from '@alcom/shared';
+import logger from '../lib/logger';
+import { resolvePeriodRange } from '../services/period.service';
+
+const router: Router = Router();
+
+router.use(requireAuth);
+
+const periodInclude = {
+  station: { select: { id: true, code: true, name: true } },
+  closedBy: { select: { id: true, fullName: true } },
+  reopenRequests: {
+    include: {
+      requestedBy: { select: { id: true, fullName: true } },
+      reviewedBy: { select: { id: true, fullName: true } },
+    },
+    orderBy: { createdAt: 'desc' as const },
+  },
+};
+
+// ═══════════════════════════════════════════════════════════════════
+// GET /periods — List period closes (with their reopen requests)
+// ═══════════════════════════════════════════════════════════════════
+router.get(
+  '/',
+  requireRole(UserRole.FINANCE_DIR, UserRole.CFO, UserRole.CEO, UserRole.SUPER_ADMIN, UserRole.STATION_MANAGER),
+  validateQuery(periodCloseFiltersSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const { stationId, reopenStatus } = req.query as Record<string, string | undefined>;
+
+      const where: Prisma.PeriodCloseWhereInput = {};
+      if (req.user!.role === UserRole.STATION_MANAGER) {
+        where.stationId = req.user!.stationId ?? { in: [] };
+      } else if (stationId) {
+        where.stationId = stationId;
+      }
+      if (reopenStatus) where.reopenRequests = { some: { status: reopenStatus as PeriodReopenStatus } };
+
+      const periods = await prisma.periodClose.findMany({
+        where,
+        include: periodInclude,
+        orderBy: [{ periodStart: 'desc' }, { createdAt: 'desc' }],
+        take: 100,
+      });
+
+      sendSuccess(res, { data: periods });
+    } catch (error) {
+      logger.error({ error }, 'Error listing period closes');
+      sendError(res, { code: 'INTERNAL_ERROR', message: 'Failed to fetch period closes', statusCode: 500 });
+    }
+  },
+);
+
+// ═══════════════════════════════════════════════════════════════════
+// POST /periods/close — Lock all CLOSED shifts of a station for a day / month
+// ═══════════════════════════════════════════════════════════════════
+router.post(
+  '/close',
+  requireRole(UserRole.FINANCE_DIR, UserRole.CFO, UserRole.SUPER_ADMIN),
+  validate(closePeriodSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const { stationId, periodType, date } = req.body;
+      const { start, end } = resolvePeriodRange(periodType, date);
+
+      const station = await prisma.station.findFirst({ where: { id: stationId, deletedAt: null } });
+      if (!station) {
+        sendError(res, { code: 'NOT_FOUND', message: 'Station not found', statusCode: 404 });
+        return;
+      }
+
+      const openShifts = await prisma.shiftReport.count({
+        where: { stationId, status: 'OPEN', shiftDate: { gte: start, lte: end } },
+      });
+      if (openShifts > 0) {
+        sendError(res, {
+          code: 'BIZ_OPEN_SHIFTS',
+          message: `${openShifts} shift(s) are still open in this period. Close them first.`,
+          statusCode: 409,
+        });
+        return;
+      }
+
+      const existing = await prisma.periodClose.findFirst({
+        where: { stationId, periodStart: start, periodEnd: end, reopenedAt: null },
+      });
+      if (existing) {
+        sendError(res, { code: 'CONFLICT', message: 'This period is already closed', statusCode: 409 });
+        return;
+      }
+
+      const period = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+        const locked = await tx.shiftReport.updateMany({
+          where: { stationId, status: 'CLOSED', shiftDate: { gte: start, lte: end } },
+          data: { status: 'LOCKED' },
+        });
+
+        const created = await tx.periodClose.create({
+          data: {
+            stationId,
+            periodStart: start,
+            periodEnd: end,
+            lockedShiftCount: locked.count,
+            closedById: req.user!.userId,
+          },
+          include: periodInclude,
+        });
+
+        await tx.auditLog.create({
+          data: {
+            userId: req.user!.userId,
+            action: 'PERIOD_CLOSED',
+            entityType: 'PeriodClose',
+            entityId: created.id,
+            changes: { stationId, periodType, date, lockedShifts: locked.count },
+          },
+        });
+
+        return created;
+      });
+
+      sendSuccess(res, { data: period, statusCode: 201 });
+    } catch (error) {
+      logger.error({ error }, 'Error closing period');
+      sendError(res, { code: 'INTERNAL_ERROR', message: 'Failed to close period', statusCode: 500 });
+    }
+  },
+);
+
+// ═══════════════════════════════════════════════════════════════════
+// POST /periods/:id/reopen-requests — Ask for a locked period to be reopened
+// ═══════════════════════════════════════════════════════════════════
+router.post(
+  '/:id/reopen-requests',
+  requireRole(UserRole.STATION_MANAGER, UserRole.FINANCE_DIR, UserRole.CFO, UserRole.CEO, UserRole.SUPER_ADMIN),
+  validate(requestPeriodReopenSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const id = getParam(req, 'id');
+      const { justification } = req.body;
+
+      const period = await prisma.periodClose.findUnique({
+        where: { id },
+        include: { reopenRequests: { where: { status: 'PENDING' } } },
+      });
+
+      if (!period) {
+        sendError(res, { code: 'NOT_FOUND', message: 'Period close not found', statusCode: 404 });
+        return;
+      }
+
+      if (req.user!.role === UserRole.STATION_MANAGER && req.user!.stationId !== period.stationId) {
+        sendError(res, { code: 'FORBIDDEN_STATION', message: 'Access denied to this station', statusCode: 403 });
+        return;
+      }
+
+      if (period.reopenedAt) {
+        sendError(res, { code: 'INVALID_STATUS', message: 'Period has already been reopened', statusCode: 400 });
+        return;
+      }
+
+      if (period.reopenRequests.length > 0) {
+        sendError(res, { code: 'CONFLICT', message: 'A reopen request is already pending for this period', statusCode: 409 });
+        return;
+      }
+
+      const request = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+        const created = await tx.periodReopenRequest.create({
+          data: { periodCloseId: id, justification, requestedById: req.user!.userId },
+        });
+
+        await tx.auditLog.create({
+          data: {
+            userId: req.user!.userId,
+            action: 'PERIOD_REOPEN_REQUESTED',
+            entityType: 'PeriodClose',
+            entityId: id,
+            changes: { requestId: created.id, justification },
+          },
+        });
+
+        return created;
+      });
+
+      sendSuccess(res, { data: request, statusCode: 201 });
+    } catch (error) {
+      logger.error({ error }, 'Error requesting period reopen');
+      sendError(res, { code: 'INTERNAL_ERROR', message: 'Failed to request reopening', statusCode: 500 });
+    }
+  },
+);
+
+/**
+ * Load a PENDING reopen request that the current user may review.
+ * Sends the error response and returns null otherwise.
+ */
+async function loadReviewableRequest(req: Request, res: Response) {
+  const request = await prisma.periodReopenRequest.findUnique({
+    where: { id: getParam(req, 'requestId') },
+    include: { periodClose: true },
+  });
+
+  if (!request) {
+    sendError(res, { code: 'NOT_FOUND', message: 'Reopen request not found', statusCode: 404 });
+    return null;
+  }
+
+  if (request.status !== 'PENDING') {
+    sendError(res, {
+      code: 'INVALID_STATUS',
+      message: `Cannot review a request with status ${request.status}`,
+      statusCode: 400,
+    });
+    return null;
+  }
+
+  // Segregation of duties: nobody approves their own reopening
+  if (request.requestedById === req.user!.userId) {
+    sendError(res, { code: 'FORBIDDEN', message: 'You cannot review your own reopen request', statusCode: 403 });
+    return null;
+  }
+
+  return request;
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// PUT /periods/reopen-requests/:requestId/approve — CFO reopens the period
+// ═══════════════════════════════════════════════════════════════════
+router.put(
+  '/reopen-requests/:requestId/approve',
+  requireRole(UserRole.CFO),
+  validate(approvePeriodReopenSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const { comment } = req.body;
+      const request = await loadReviewableRequest(req, res);
+      if (!request) return;
+
+      const period = request.periodClose;
+
+      const updated = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+        // Shifts also covered by another active close stay locked
+        const otherLocks = await tx.periodClose.findMany({
+          where: {
+            id: { not: period.id },
+            stationId: period.stationId,
+            reopenedAt: null,
+            periodStart: { lte: period.periodEnd },
+            periodEnd: { gte: period.periodStart },
+          },
+        });
+
+        const unlocked = await tx.shiftReport.updateMany({
+          where: {
+            stationId: period.stationId,
+            status: 'LOCKED',
+            shiftDate: { gte: period.periodStart, lte: period.periodEnd },
+            NOT: otherLocks.map((l) => ({ shiftDate: { gte: l.periodStart, lte: l.periodEnd } })),
+          },
+          data: { status: 'CLOSED' },
+        });
+
+        await tx.periodClose.update({ where: { id: period.id }, data: { reopenedAt: new Date() } });
+
+        const reviewed = await tx.periodReopenRequest.update({
+          where: { id: request.id },
+          data: {
+            status: 'APPROVED',
+            reviewedById: req.user!.userId,
+            reviewComment: comment,
+            reviewedAt: new Date(),
+          },
+        });
+
+        await tx.auditLog.create({
+          data: {
+            userId: req.user!.userId,
+            action: 'PERIOD_REOPENED',
+            entityType: 'PeriodClose',
+            entityId: period.id,
+            changes: {
+              requestId: request.id,
+              justification: request.justification,
+              comment,
+              unlockedShifts: unlocked.count,
+            },
+          },
+        });
+
+        return reviewed;
+      });
+
+      sendSuccess(res, { data: updated });
+    } catch (error) {
+      logger.error({ error }, 'Error approving period reopen');
+      sendError(res, { code: 'INTERNAL_ERROR', message: 'Failed to approve reopening', statusCode: 500 });
+    }
+  },
+);
+
+// ═══════════════════════════════════════════════════════════════════
+// PUT /periods/reopen-requests/:requestId/reject — CFO keeps the period locked
+// ═══════════════════════════════════════════════════════════════════
+router.put(
+  '/reopen-requests/:requestId/reject',
+  requireRole(UserRole.CFO),
+  validate(rejectPeriodReopenSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const { reason } = req.body;
+      const request = await loadReviewableRequest(req, res);
+      if (!request) return;
+
+      const updated = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+        const reviewed = await tx.periodReopenRequest.update({
+          where: { id: request.id },
+          data: {
+            status: 'REJECTED',
+            reviewedById: req.user!.userId,
+            reviewComment: reason,
+            reviewedAt: new Date(),
+          },
+        });
+
+        await tx.auditLog.create({
+          data: {
+            userId: req.user!.userId,
+            action: 'PERIOD_REOPEN_REJECTED',
+            entityType: 'PeriodClose',
+            entityId: request.periodCloseId,
+            changes: { requestId: request.id, reason },
+          },
+        });
+
+        return reviewed;
+      });
+
+      sendSuccess(res, { data: updated });
+    } catch (error) {
+      logger.error({ error }, 'Error rejecting period reopen');
+      sendError(res, { code: 'INTERNAL_ERROR', message: 'Failed to reject reopening', statusCode: 500 });
+    }
+  },
+);
+
+export default router;
@@ -0,0 +1,112 @@
+import { Router, Request, Response } from 'express';
+import prisma from '../lib/prisma';
+import { sendSuccess, sendError, getParam } from '../lib/response';
+import { validate } from '../middleware/validate';
+import { requireAuth } from '../middleware/auth';
+import { requireRole } from '../middleware/rbac';
+import { UserRole, createPriceZoneSchema, updatePriceZoneSchema } from '@alcom/shared';
+import logger from '../lib/logger';
+
+const router: Router = Router();
+
+// Apply auth middleware
+router.use(requireAuth);
+
+// ═══════════════════════════════════════════════════════════════════
+// GET /price-zones — List price zones with their stations
+// ═══════════════════════════════════════════════════════════════════
+router.get(
+  '/',
+  requireRole(
+    UserRole.SUPER_ADMIN,
+    UserRole.CEO,
+    UserRole.CFO,
+    UserRole.FINANCE_DIR,
+    UserRole.STATION_MANAGER,
+  ),
+  async (_req: Request, res: Response) => {
+    try {
+      const zones = await prisma.priceZone.findMany({
+        include: {
+          stations: {
+            where: { deletedAt: null },
+            select: { id: true, code: true, name: true },
+            orderBy: { code: 'asc' },
+          },
+        },
+        orderBy: { code: 'asc' },
+      });
+
+      sendSuccess(res, {
+        data: zones.map((z) => ({ ...z, stationCount: z.stations.length })),
+      });
+    } catch (error) {
+      logger.error(`Error listing price zones: ${error}`);
+      sendError(res, { code: 'INTERNAL_ERROR', message: 'Failed to fetch price zones', statusCode: 500 });
+    }
+  },
+);
+
+// ═══════════════════════════════════════════════════════════════════
+// POST /price-zones — Create a price zone
+// ═══════════════════════════════════════════════════════════════════
+router.post(
+  '/',
+  requireRole(UserRole.SUPER_ADMIN, UserRole.CEO, UserRole.CFO, UserRole.FINANCE_DIR),
+  validate(createPriceZoneSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const { code, name } = req.body;
+
+      const existing = await prisma.priceZone.findUnique({ where: { code } });
+      if (existing) {
+        sendError(res, {
+          code: 'DUPLICATE_ZONE_CODE',
+          message: `A price zone with code ${code} already exists`,
+          statusCode: 409,
+        });
+        return;
+      }
+
+      const zone = await prisma.priceZone.create({ data: { code, name } });
+
+      logger.info(`Price zone created: ${zone.code} by user ${req.user!.userId}`);
+      sendSuccess(res, { data: zone, statusCode: 201 });
+    } catch (error) {
+      logger.error(`Error creating price zone: ${error}`);
+      sendError(res, { code: 'INTERNAL_ERROR', message: 'Failed to create price zone', statusCode: 500 });
+    }
+  },
+);
+
+// ═══════════════════════════════════════════════════════════════════
+// PATCH /price-zones/:id — Rename a price zone
+// ═══════════════════════════════════════════════════════════════════
+router.patch(
+  '/:id',
+  requireRole(UserRole.SUPER_ADMIN, UserRole.CEO, UserRole.CFO, UserRole.FINANCE_DIR),
+  validate(updatePriceZoneSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const id = getParam(req, 'id');
+
+      const zone = await prisma.priceZone.findUnique({ where: { id } });
+      if (!zone) {
+        sendError(res, { code: 'NOT_FOUND', message: 'Price zone not found', statusCode: 404 });
+        return;
+      }
+
+      const updated = await prisma.priceZone.update({
+        where: { id },
+        data: { name: req.body.name },
+      });
+
+      sendSuccess(res, { data: updated });
+    } catch (error) {
+      logger.error(`Error updating price zone: ${error}`);
+      sendError(res, { code: 'INTERNAL_ERROR', message: 'Failed to update price zone', statusCode: 500 });
+    }
+  },
+);
+
+export default router;
@@ -13,6 +13,13 @@ import {
   listPricesQuerySchema,
 } from '@alcom/shared/src/schemas/price.schema';
 import logger from '../lib/logger';
+import {
+  findPriceRecipients,
+  getActivePricesForStation,
+  sameScopeWhere,
+} from '../services/fuel-price.service';
+import { requestShiftPriceChanges } from '../services/shift-price-change.service';
+import { getActivePolicy, getApprovalState, findActionableStep } from '../services/approval.service';
 
 const router: Router = Router();
 
@@ -34,6 +41,46 @@ async function auditLog(
   });
 }
 
+// ─── Price Scope Helpers ───
+const scopeInclude = {
+  priceZone: { select: { id: true, code: true, name: true } },
+  station: { select: { id: true, code: true, name: true } },
+};
+
+// ─── Approval Helper ───
+/**
+ * Approval state of a price under its policy version (the fuel type is the category),
+ * and the step the user may approve or reject.
+ */
+async function loadPriceApproval(
+  db: Prisma.TransactionClient | typeof prisma,
+  price: { id: string; approvalPolicyId: string | null; price: unknown; stationId: string | null; fuelType: string },
+  user: { userId: string; role: string },
+) {
+  const approved = await db.approvalStep.findMany({
+    where: { priceId: price.id, action: 'APPROVE' },
+    select: { role: true, userId: true, stepIndex: true },
+  });
+  const state = await getApprovalState(db, 'PRICE', {
+    approvalPolicyId: price.approvalPolicyId,
+    amount: Number(price.price),
+    stationId: price.stationId,
+    category: price.fuelType,
+    approvals: approved,
+  });
+  const actionable = findActionableStep(state, user, { alreadyApproved: approved.some((a) => a.userId === user.userId) });
+  return { state, actionable };
+}
+
+/**
+ * Filter on the prices of one station, or of a zone and its stations.
+ */
+function scopeFilter(priceZoneId?: string, stationId?: string): Prisma.FuelPriceWhereInput {
+  if (stationId) return { stationId };
+  if (priceZoneId) return { OR: [{ priceZoneId }, { station: { priceZoneId } }] };
+  return {};
+}
+
 // ═══════════════════════════════════════════════════════════════════
 // GET /prices — List all prices with filters
 // ═══════════════════════════════════════════════════════════════════
@@ -49,9 +96,9 @@ router.get(
   validateQuery(listPricesQuerySchema),
   async (req: Request, res: Response) => {
     try {
-      const { page, limit, fuelType, status, isActive, startDate, endDate } = req.query as any;
+      const { page, limit, fuelType, status, isActive, startDate, endDate, priceZoneId, stationId } = req.query as any;
 
-      const where: Prisma.FuelPriceWhereInput = {};
+      const where: Prisma.FuelPriceWhereInput = scopeFilter(priceZoneId, stationId);
 
       if (fuelType) where.fuelType = fuelType;
       if (status) where.status = status;
@@ -68,6 +115,7 @@ router.get(
           include: {
             createdBy: { select: { id: true, fullName: true } },
             approvedBy: { select: { id: true, fullName: true } },
+            ...scopeInclude,
           },
           orderBy: { effectiveDate: 'desc' },
           skip: (page - 1) * limit,
@@ -96,48 +144,32 @@ router.get(
 
 // ═══════════════════════════════════════════════════════════════════
 // GET /prices/active — Get current active prices per fuel type
+// (for ?stationId=, or the user's station: station, then zone, then national price)
 // ═══════════════════════════════════════════════════════════════════
 router.get('/active', async (req: Request, res: Response) => {
   try {
     const date = req.query.date ? new Date(req.query.date as string) : new Date();
-
-    // Fetch the latest price where effectiveDate <= NOW() AND isActive = true
-    // ORDER BY effectiveDate DESC LIMIT 1 for each fuel type
-    const [essencePrice, gasoilPrice] = await Promise.all([
-      prisma.fuelPrice.findFirst({
-        where: {
-          fuelType: 'ESSENCE',
-          isActive: true,
-          effectiveDate: { lte: date },
-        },
-        orderBy: { effectiveDate: 'desc' },
-        include: {
-          createdBy: { select: { fullName: true } },
-          approvedBy: { select: { fullName: true } },
-        },
-      }),
-      prisma.fuelPrice.findFirst({
-        where: {
-          fuelType: 'GASOIL',
-          isActive: true,
-          effectiveDate: { lte: date },
-        },
-        orderBy: { effectiveDate: 'desc' },
-        include: {
-          createdBy: { select: { fullName: true } },
-          approvedBy: { select: { fullName: true } },
-        },
-      }),
-    ]);
+    const stationId = (req.query.stationId as string | undefined) || req.user?.stationId || null;
+
+    const active = await getActivePricesForStation(prisma, stationId, date);
+    const prices = await prisma.fuelPrice.findMany({
+      where: { id: { in: Object.values(active).map((p) => p.id) } },
+      include: {
+        createdBy: { select: { fullName: true } },
+        approvedBy: { select: { fullName: true } },
+        ...scopeInclude,
+      },
+    });
+    const format = (fuelType: string) => {
+      const p = prices.find((x) => x.fuelType === fuelType);
+      return p ? { ...p, price: Number(p.price) } : null;
+    };
 
     sendSuccess(res, {
       data: {
-        ESSENCE: essencePrice
-          ? { ...essencePrice, price: Number(essencePrice.price) }
-          : null,
-        GASOIL: gasoilPrice
-          ? { ...gasoilPrice, price: Number(gasoilPrice.price) }
-          : null,
+        ESSENCE: format('ESSENCE'),
+        GASOIL: format('GASOIL'),
+        PETROLE: format('PETROLE'),
       },
     });
   } catch (error) {
@@ -155,25 +187,11 @@ router.get('/active', async (req: Request, res: Response) => {
 // ═══════════════════════════════════════════════════════════════════
 router.get('/current', async (req, res) => {
   const date = req.query.date ? new Date(req.query.date as string) : new Date();
+  const stationId = (req.query.stationId as string | undefined) || req.user?.stationId || null;
 
-  const [essencePrice, gasoilPrice] = await Promise.all([
-    prisma.fuelPrice.findFirst({
-      where: {
-        fuelType: 'ESSENCE',
-        isActive: true,
-        effectiveDate: { lte: date },
-      },
-      orderBy: { effectiveDate: 'desc' },
-    }),
-    prisma.fuelPrice.findFirst({
-      where: {
-        fuelType: 'GASOIL',
-        isActive: true,
-        effectiveDate: { lte: date },
-      },
-      orderBy: { effectiveDate: 'desc' },
-    }),
-  ]);
+  const active = await getActivePricesForStation(prisma, stationId, date);
+  const essencePrice = active.ESSENCE;
+  const gasoilPrice = active.GASOIL;
 
   res.json({
     success: true,
@@ -192,6 +210,7 @@ router.get('/current', async (req, res) => {
 
 // ═══════════════════════════════════════════════════════════════════
 // GET /prices/history — Price history for charts
+// (national prices, or those of ?priceZoneId= / ?stationId=)
 // ═══════════════════════════════════════════════════════════════════
 router.get(
   '/history',
@@ -206,6 +225,8 @@ router.get(
     try {
       const fuelType = req.query.fuelType as string | undefined;
       const months = parseInt(req.query.months as string) || 12;
+      const priceZoneId = (req.query.priceZoneId as string | undefined) || null;
+      const stationId = (req.query.stationId as string | undefined) || null;
 
       const startDate = new Date();
       startDate.setMonth(startDate.getMonth() - months);
@@ -213,6 +234,7 @@ router.get(
       const where: Prisma.FuelPriceWhereInput = {
         effectiveDate: { gte: startDate },
         status: 'APPROVED',
+        ...sameScopeWhere({ priceZoneId: stationId ? null : priceZoneId, stationId }),
       };
       if (fuelType) where.fuelType = fuelType as any;
 
@@ -267,6 +289,7 @@ router.get(
         include: {
           createdBy: { select: { id: true, fullName: true, email: true } },
           approvedBy: { select: { id: true, fullName: true, email: true } },
+          ...scopeInclude,
         },
       });
 
@@ -278,8 +301,15 @@ router.get(
         });
       }
 
+      const approval = price.status === 'PENDING' ? await loadPriceApproval(prisma, price, req.user!) : null;
+
       sendSuccess(res, {
-        data: { ...price, price: Number(price.price) },
+        data: {
+          ...price,
+          price: Number(price.price),
+          approval: approval?.state ?? null,
+          canApprove: !!approval?.actionable && price.createdById !== req.user!.userId,
+        },
       });
     } catch (error) {
       logger.error(`Error fetching price: ${error}`);
@@ -301,8 +331,9 @@ router.post(
   validate(createPriceSchema),
   async (req: Request, res: Response) => {
     try {
-      const { fuelType, price, effectiveDate } = req.body;
+      const { fuelType, price, effectiveDate, priceZoneId, stationId } = req.body;
       const userId = req.user!.userId;
+      const scope = { priceZoneId: priceZoneId ?? null, stationId: stationId ?? null };
 
       const parsedDate = new Date(effectiveDate);
       const now = new Date();
@@ -316,35 +347,56 @@ router.post(
         });
       }
 
-      // Check for existing pending price for same fuel type and date
+      // Business rule: the zone / station the price applies to must exist
+      const scopeExists = scope.stationId
+        ? await prisma.station.count({ where: { id: scope.stationId, deletedAt: null } })
+        : scope.priceZoneId
+          ? await prisma.priceZone.count({ where: { id: scope.priceZoneId } })
+          : 1;
+      if (!scopeExists) {
+        return sendError(res, {
+          code: 'BIZ_INVALID_PRICE_SCOPE',
+          message: scope.stationId ? 'Station not found' : 'Price zone not found',
+          statusCode: 400,
+        });
+      }
+
+      // Check for existing pending price for same fuel type, scope and date
       const existingPending = await prisma.fuelPrice.findFirst({
         where: {
           fuelType,
           effectiveDate: parsedDate,
           status: 'PENDING',
+          ...sameScopeWhere(scope),
         },
       });
 
       if (existingPending) {
         return sendError(res, {
           code: 'BIZ_DUPLICATE_PENDING',
-          message: 'A pending price already exists for this fuel type and date',
+          message: 'A pending price already exists for this fuel type, scope and date',
           statusCode: 409,
         });
       }
 
+      // The price stays on the approval policy version in force today
+      const policy = await getActivePolicy(prisma, 'PRICE');
+
       const newPrice = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
         const created = await tx.fuelPrice.create({
           data: {
             fuelType,
+            ...scope,
             price,
             effectiveDate: parsedDate,
             status: 'PENDING',
             isActive: false,
             createdById: userId,
+            approvalPolicyId: policy.id,
           },
           include: {
             createdBy: { select: { id: true, fullName: true } },
+            ...scopeInclude,
           },
         });
 
@@ -355,7 +407,7 @@ router.post(
           'CREATE_PRICE',
           'FuelPrice',
           created.id,
-          { fuelType, price, effectiveDate: parsedDate.toISOString() },
+          { fuelType, price, effectiveDate: parsedDate.toISOString(), ...scope },
           req.ip,
         );
 
@@ -368,7 +420,10 @@ router.post(
         data: { ...newPrice, price: Number(newPrice.price) },
         statusCode: 201,
       });
-    } catch (error) {
+    } catch (error: any) {
+      if (error.code === 'BIZ_NO_APPROVAL_POLICY') {
+        return sendError(res, { code: error.code, message: error.message, statusCode: error.statusCode });
+      }
       logger.error(`Error creating price: ${error}`);
       sendError(res, {
         code: 'INTERNAL_ERROR',
@@ -380,11 +435,10 @@ router.post(
 );
 
 // ═══════════════════════════════════════════════════════════════════
-// PUT /prices/:id/approve — Approve a pending price (CFO/CEO only)
+// PUT /prices/:id/approve — Approve a step of a pending price (approval policy)
 // ═══════════════════════════════════════════════════════════════════
 router.put(
   '/:id/approve',
-  requireRole(UserRole.SUPER_ADMIN, UserRole.CEO, UserRole.CFO),
   validate(approvePriceSchema),
   async (req: Request, res: Response) => {
     try {
@@ -397,7 +451,7 @@ router.put(
         const existingApproval = await prisma.auditLog.findFirst({
           where: {
             entityId: id,
-            action: 'APPROVE_PRICE',
+            action: { in: ['APPROVE_PRICE', 'APPROVE_PRICE_STEP'] },
             changes: { path: ['idempotencyKey'], equals: idempotencyKey },
           },
         });
@@ -444,11 +498,52 @@ router.put(
         });
       }
 
+      const { state, actionable } = await loadPriceApproval(prisma, price, req.user!);
+      if (!actionable) {
+        return sendError(res, {
+          code: 'FORBIDDEN',
+          message: 'You cannot approve this price',
+          statusCode: 403,
+        });
+      }
+
       const now = new Date();
       const effectiveNow = price.effectiveDate <= now;
+      // The price is approved with the last pending step of its policy rule
+      const fullyApproved = state.steps.filter((s) => s.status === 'PENDING').length === 1;
 
       const priceId = id as string;
       const updatedPrice = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+        await tx.approvalStep.create({
+          data: {
+            entityType: 'PRICE',
+            priceId,
+            stepIndex: actionable.stepIndex,
+            role: actionable.role,
+            userId,
+            action: 'APPROVE',
+          },
+        });
+
+        if (!fullyApproved) {
+          await auditLog(tx, userId, 'APPROVE_PRICE_STEP', 'FuelPrice', priceId, { stepIndex: actionable.stepIndex, idempotencyKey }, req.ip);
+          return tx.fuelPrice.findUniqueOrThrow({
+            where: { id: priceId },
+            include: {
+              createdBy: { select: { id: true, fullName: true } },
+              approvedBy: { select: { id: true, fullName: true } },
+            },
+          });
+        }
+
+        // Effective immediately: it replaces the active price of the same fuel type and scope
+        if (effectiveNow) {
+          await tx.fuelPrice.updateMany({
+            where: { fuelType: price.fuelType, isActive: true, id: { not: priceId }, ...sameScopeWhere(price) },
+            data: { isActive: false },
+          });
+        }
+
         const updated = await tx.fuelPrice.update({
           where: { id: priceId },
           data: {
@@ -479,15 +574,9 @@ router.put(
           req.ip,
         );
 
-        // Create notification for station managers if price is now active
+        // Create notification for the stations' managers if price is now active
         if (effectiveNow) {
-          const managers = await tx.user.findMany({
-            where: {
-              role: { in: ['STATION_MANAGER', 'CHEF_PISTE'] },
-              isActive: true,
-            },
-            select: { id: true },
-          });
+          const managers = await findPriceRecipients(tx, price);
 
           if (managers.length > 0) {
             await tx.notification.createMany({
@@ -500,15 +589,22 @@ router.put(
               })),
             });
           }
+
+          // Open shifts now selling at this price need a meter-reading checkpoint
+          await requestShiftPriceChanges(tx, [updated]);
         }
 
         return updated;
       });
 
-      logger.info(`Price approved: ${priceId} by ${userId}, active=${effectiveNow}`);
+      logger.info(`Price ${fullyApproved ? 'approved' : 'approval step recorded'}: ${priceId} by ${userId}, active=${fullyApproved && effectiveNow}`);
 
       sendSuccess(res, {
-        data: { ...updatedPrice, price: Number(updatedPrice.price) },
+        data: {
+          ...updatedPrice,
+          price: Number(updatedPrice.price),
+          message: fullyApproved ? 'Price approved' : 'Approval recorded. Waiting for additional approvals.',
+        },
       });
     } catch (error) {
       logger.error(`Error approving price: ${error}`);
@@ -526,7 +622,6 @@ router.put(
 // ═══════════════════════════════════════════════════════════════════
 router.put(
   '/:id/reject',
-  requireRole(UserRole.SUPER_ADMIN, UserRole.CEO, UserRole.CFO),
   validate(rejectPriceSchema),
   async (req: Request, res: Response) => {
     try {
@@ -554,8 +649,29 @@ router.put(
         });
       }
 
+      const { actionable } = await loadPriceApproval(prisma, price, req.user!);
+      if (!actionable) {
+        return sendError(res, {
+          code: 'FORBIDDEN',
+          message: 'You cannot reject this price',
+          statusCode: 403,
+        });
+      }
+
       const priceId = id as string;
       const updatedPrice = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+        await tx.approvalStep.create({
+          data: {
+            entityType: 'PRICE',
+            priceId,
+            stepIndex: actionable.stepIndex,
+            role: actionable.role,
+            userId,
+            action: 'REJECT',
+            comment: reason,
+          },
+        });
+
         const updated = await tx.fuelPrice.update({
           where: { id: priceId },
           data: {
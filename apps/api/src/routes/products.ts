@@ -0,0 +1,301 @@
+import { Router, Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
+import Decimal from 'decimal.js';
+import prisma from '../lib/prisma';
+import { sendSuccess, sendError, sendPaginated, getParam, sendBusinessError } from '../lib/response';
+import { validate, validateQuery } from '../middleware/validate';
+import { requireAuth } from '../middleware/auth';
+import { requireRole } from '../middleware/rbac';
+import {
+  UserRole,
+  createProductSchema,
+  updateProductSchema,
+  productListFiltersSchema,
+  updateProductStockSchema,
+  createProductReceiptSchema,
+  productStockFiltersSchema,
+  supplyListFiltersSchema,
+} from '@alcom/shared';
+import logger from '../lib/logger';
+import { recordProductReceipt } from '../services/product-stock.service';
+
+const router: Router = Router();
+
+router.use(requireAuth);
+
+// Catalog and prices are managed centrally
+const CATALOG_ROLES = [UserRole.SUPER_ADMIN, UserRole.CEO, UserRole.LOGISTICS, UserRole.DCO];
+
+const STOCK_ROLES = [...CATALOG_ROLES, UserRole.CFO, UserRole.FINANCE_DIR, UserRole.STATION_MANAGER, UserRole.CHEF_PISTE];
+
+const RECEIPT_ROLES = [UserRole.SUPER_ADMIN, UserRole.LOGISTICS, UserRole.DCO, UserRole.STATION_MANAGER, UserRole.CHEF_PISTE];
+
+const STATION_ROLES: string[] = [UserRole.STATION_MANAGER, UserRole.CHEF_PISTE];
+
+/**
+ * Station staff only see and stock their own station.
+ */
+function scopedStationId(req: Request, requested?: string): string | undefined {
+  return STATION_ROLES.includes(req.user!.role) ? req.user!.stationId || 'none' : requested;
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// GET /products — Product catalog (paginated)
+// ═══════════════════════════════════════════════════════════════════
+router.get('/', validateQuery(productListFiltersSchema), async (req: Request, res: Response) => {
+  try {
+    const query = req.query as Record<string, any>;
+    const page = Number(query.page) || 1;
+    const limit = Number(query.limit) || 50;
+
+    const where: Prisma.ProductWhereInput = {
+      deletedAt: null,
+      ...(query.search && {
+        OR: [
+          { name: { contains: query.search, mode: 'insensitive' } },
+          { sku: { contains: query.search, mode: 'insensitive' } },
+        ],
+      }),
+      ...(query.category && { category: query.category }),
+      ...(query.isActive !== undefined && { isActive: query.isActive === 'true' }),
+    };
+
+    const [products, total] = await Promise.all([
+      prisma.product.findMany({
+        where,
+        orderBy: { name: 'asc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.product.count({ where }),
+    ]);
+
+    sendPaginated(res, products, total, page, limit);
+  } catch (error) {
+    logger.error(`Error listing products: ${error}`);
+    sendError(res, { code: 'INTERNAL_ERROR', message: 'Failed to fetch products', statusCode: 500 });
+  }
+});
+
+// ═══════════════════════════════════════════════════════════════════
+// POST /products — Add a product to the catalog
+// ═══════════════════════════════════════════════════════════════════
+router.post('/', requireRole(...CATALOG_ROLES), validate(createProductSchema), async (req: Request, res: Response) => {
+  try {
+    const existing = await prisma.product.findUnique({ where: { sku: req.body.sku } });
+    if (existing) {
+      sendError(res, { code: 'CONFLICT', message: `A product with SKU ${req.body.sku} already exists`, statusCode: 409 });
+      return;
+    }
+
+    const product = await prisma.$transaction(async (tx) => {
+      const created = await tx.product.create({ data: req.body });
+      await tx.auditLog.create({
+        data: {
+          userId: req.user!.userId,
+          action: 'PRODUCT_CREATED',
+          entityType: 'Product',
+          entityId: created.id,
+          changes: req.body,
+        },
+      });
+      return created;
+    });
+
+    sendSuccess(res, { data: product, statusCode: 201 });
+  } catch (error) {
+    logger.error(`Error creating product: ${error}`);
+    sendError(res, { code: 'INTERNAL_ERROR', message: 'Failed to create product', statusCode: 500 });
+  }
+});
+
+// ═══════════════════════════════════════════════════════════════════
+// GET /products/stock — Stock per station and product
+// ═══════════════════════════════════════════════════════════════════
+router.get(
+  '/stock',
+  requireRole(...STOCK_ROLES),
+  validateQuery(productStockFiltersSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const query = req.query as Record<string, any>;
+      const stationId = scopedStationId(req, query.stationId);
+
+      const stocks = await prisma.productStock.findMany({
+        where: {
+          ...(stationId && { stationId }),
+          product: { deletedAt: null },
+        },
+        include: {
+          product: true,
+          station: { select: { id: true, code: true, name: true } },
+        },
+        orderBy: [{ station: { code: 'asc' } }, { product: { name: 'asc' } }],
+      });
+
+      const data = stocks
+        .map((s) => ({
+          ...s,
+          isLowStock:
+            new Decimal(s.reorderLevel.toString()).gt(0) &&
+            new Decimal(s.quantity.toString()).lte(s.reorderLevel.toString()),
+        }))
+        .filter((s) => query.lowStock !== 'true' || s.isLowStock);
+
+      sendSuccess(res, { data });
+    } catch (error) {
+      logger.error(`Error listing product stock: ${error}`);
+      sendError(res, { code: 'INTERNAL_ERROR', message: 'Failed to fetch product stock', statusCode: 500 });
+    }
+  },
+);
+
+// ═══════════════════════════════════════════════════════════════════
+// PUT /products/stock/:id — Set the reorder level of a stock line
+// ═══════════════════════════════════════════════════════════════════
+router.put(
+  '/stock/:id',
+  requireRole(...RECEIPT_ROLES),
+  validate(updateProductStockSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const stock = await prisma.productStock.findUnique({ where: { id: getParam(req, 'id') } });
+      if (!stock || scopedStationId(req, stock.stationId) !== stock.stationId) {
+        sendError(res, { code: 'NOT_FOUND', message: 'Stock line not found', statusCode: 404 });
+        return;
+      }
+
+      const updated = await prisma.productStock.update({
+        where: { id: stock.id },
+        data: { reorderLevel: req.body.reorderLevel },
+        include: { product: true, station: { select: { id: true, code: true, name: true } } },
+      });
+
+      sendSuccess(res, { data: updated });
+    } catch (error) {
+      logger.error(`Error updating product stock: ${error}`);
+      sendError(res, { code: 'INTERNAL_ERROR', message: 'Failed to update product stock', statusCode: 500 });
+    }
+  },
+);
+
+// ═══════════════════════════════════════════════════════════════════
+// GET /products/receipts — Goods received from suppliers (paginated)
+// ═══════════════════════════════════════════════════════════════════
+router.get(
+  '/receipts',
+  requireRole(...STOCK_ROLES),
+  validateQuery(supplyListFiltersSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const query = req.query as Record<string, any>;
+      const page = Number(query.page) || 1;
+      const limit = Number(query.limit) || 20;
+      const stationId = scopedStationId(req, query.stationId);
+      const where: Prisma.ProductReceiptWhereInput = { ...(stationId && { stationId }) };
+
+      const [receipts, total] = await Promise.all([
+        prisma.productReceipt.findMany({
+          where,
+          include: {
+            product: { select: { id: true, sku: true, name: true, unit: true } },
+            supplier: { select: { id: true, name: true } },
+            station: { select: { id: true, code: true, name: true } },
+            receivedBy: { select: { id: true, fullName: true } },
+          },
+          orderBy: { receivedAt: 'desc' },
+          skip: (page - 1) * limit,
+          take: limit,
+        }),
+        prisma.productReceipt.count({ where }),
+      ]);
+
+      sendPaginated(res, receipts, total, page, limit);
+    } catch (error) {
+      logger.error(`Error listing product receipts: ${error}`);
+      sendError(res, { code: 'INTERNAL_ERROR', message: 'Failed to fetch product receipts', statusCode: 500 });
+    }
+  },
+);
+
+// ═══════════════════════════════════════════════════════════════════
+// POST /products/receipts — Receive products from a supplier into a station's stock
+// ═══════════════════════════════════════════════════════════════════
+router.post(
+  '/receipts',
+  requireRole(...RECEIPT_ROLES),
+  validate(createProductReceiptSchema),
+  async (req: Request, res: Response) => {
+    try {
+      if (scopedStationId(req, req.body.stationId) !== req.body.stationId) {
+        sendError(res, { code: 'FORBIDDEN_STATION', message: 'Access denied to this station', statusCode: 403 });
+        return;
+      }
+
+      const receipt = await prisma.$transaction(async (tx) => {
+        const created = await recordProductReceipt(tx, req.body, req.user!.userId);
+        await tx.auditLog.create({
+          data: {
+            userId: req.user!.userId,
+            action: 'PRODUCT_RECEIVED',
+            entityType: 'ProductReceipt',
+            entityId: created.id,
+            changes: req.body,
+          },
+        });
+        return created;
+      });
+
+      sendSuccess(res, { data: receipt, statusCode: 201 });
+    } catch (error) {
+      sendBusinessError(res, error, 'Failed to record product receipt');
+    }
+  },
+);
+
+// ═══════════════════════════════════════════════════════════════════
+// PUT /products/:id — Update a catalog product
+// ═══════════════════════════════════════════════════════════════════
+router.put('/:id', requireRole(...CATALOG_ROLES), validate(updateProductSchema), async (req: Request, res: Response) => {
+  try {
+    const id = getParam(req, 'id');
+    const product = await prisma.product.findFirst({ where: { id, deletedAt: null } });
+    if (!product) {
+      sendError(res, { code: 'NOT_FOUND', message: 'Product not found', statusCode: 404 });
+      return;
+    }
+
+    if (req.body.sku && req.body.sku !== product.sku) {
+      const duplicate = await prisma.product.findUnique({ where: { sku: req.body.sku } });
+      if (duplicate) {
+        sendError(res, { code: 'CONFLICT', message: `A product with SKU ${req.body.sku} already exists`, statusCode: 409 });
+        return;
+      }
+    }
+
+    // Open shifts keep the price snapshot taken when they opened
+    const updated = await prisma.$transaction(async (tx) => {
+      const saved = await tx.product.update({ where: { id }, data: req.body });
+      await tx.auditLog.create({
+        data: {
+          userId: req.user!.userId,
+          action: 'PRODUCT_UPDATED',
+          entityType: 'Product',
+          entityId: id,
+          changes: {
+            before: { sku: product.sku, unitPrice: Number(product.unitPrice), isActive: product.isActive },
+            after: req.body,
+          },
+        },
+      });
+      return saved;
+    });
+
+    sendSuccess(res, { data: updated });
+  } catch (error) {
+    logger.error(`Error updating product: ${error}`);
+    sendError(res, { code: 'INTERNAL_ERROR', message: 'Failed to update product', statusCode: 500 });
+  }
+});
+
+export default router;
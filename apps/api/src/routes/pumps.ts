@@ -1,6 +1,6 @@
 import { Router, Request, Response } from 'express';
 import prisma from '../lib/prisma';
-import { sendSuccess, sendError } from '../lib/response';
+import { sendSuccess, sendError, getParam } from '../lib/response';
 import { requireAuth } from '../middleware/auth';
 import { requireRole } from '../middleware/rbac';
 import { validate } from '../middleware/validate';
@@ -65,6 +65,25 @@ router.get('/:id', requireAuth, async (req: Request, res: Response) => {
   }
 });
 
+// GET /pumps/:id/calibration-tests - Calibration test history of a pump's nozzles
+router.get('/:id/calibration-tests', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const id = getParam(req, 'id');
+    const tests = await prisma.nozzleCalibrationTest.findMany({
+      where: { nozzle: { pumpId: id } },
+      include: {
+        nozzle: { select: { id: true, side: true } },
+        testedBy: { select: { id: true, fullName: true } },
+      },
+      orderBy: { testedAt: 'desc' },
+    });
+
+    return sendSuccess(res, { data: tests });
+  } catch (error) {
+    return sendError(res, { code: 'INTERNAL_ERROR', message: 'Failed to fetch calibration tests', statusCode: 500 });
+  }
+});
+
 // POST /pumps - Create pump
 router.post('/', requireAuth, requireRole('SUPER_ADMIN', 'CEO'), validate(createPumpSchema), async (req: Request, res: Response) => {
   try {
@@ -0,0 +1,185 @@
+import { Router, Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
+import prisma from '../lib/prisma';
+import { sendSuccess, sendError, sendPaginated, getParam, sendBusinessError } from '../lib/response';
+import { validate, validateQuery } from '../middleware/validate';
+import { requireAuth } from '../middleware/auth';
+import { requireRole } from '../middleware/rbac';
+import {
+  UserRole,
+  createPurchaseOrderSchema,
+  cancelPurchaseOrderSchema,
+  purchaseOrderFiltersSchema,
+} from '@alcom/shared';
+import logger from '../lib/logger';
+import {
+  purchaseOrderRelations,
+  createPurchaseOrder,
+  cancelPurchaseOrder,
+  getReceivedVolumes,
+} from '../services/purchase-order.service';
+
+const router: Router = Router();
+
+router.use(requireAuth);
+
+// Logistics orders fuel; supply and finance follow the orders up to the invoice
+const ISSUE_ROLES = [UserRole.LOGISTICS, UserRole.SUPER_ADMIN];
+
+// Station managers see the orders of their station, to record the delivery against them
+const VIEW_ROLES = [...ISSUE_ROLES, UserRole.DCO, UserRole.CFO, UserRole.CEO, UserRole.FINANCE_DIR, UserRole.STATION_MANAGER];
+
+// ═══════════════════════════════════════════════════════════════════
+// GET /purchase-orders — Purchase orders with filters (paginated)
+// ═══════════════════════════════════════════════════════════════════
+router.get(
+  '/',
+  requireRole(...VIEW_ROLES),
+  validateQuery(purchaseOrderFiltersSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const { status, supplierId, stationId, page = 1, limit = 20 } = req.query as Record<string, any>;
+
+      const where: Prisma.PurchaseOrderWhereInput = {};
+      if (status) where.status = status;
+      if (supplierId) where.supplierId = supplierId;
+      if (req.user!.stationId) {
+        where.stationId = req.user!.stationId;
+      } else if (stationId) {
+        where.stationId = stationId;
+      }
+
+      const [orders, total] = await Promise.all([
+        prisma.purchaseOrder.findMany({
+          where,
+          include: {
+            ...purchaseOrderRelations,
+            _count: { select: { requests: true, deliveries: true, invoices: true } },
+          },
+          orderBy: { createdAt: 'desc' },
+          skip: (Number(page) - 1) * Number(limit),
+          take: Number(limit),
+        }),
+        prisma.purchaseOrder.count({ where }),
+      ]);
+
+      sendPaginated(res, orders, total, Number(page), Number(limit));
+    } catch (error) {
+      logger.error(`Error listing purchase orders: ${error}`);
+      sendError(res, { code: 'INTERNAL_ERROR', message: 'Failed to fetch purchase orders', statusCode: 500 });
+    }
+  },
+);
+
+// ═══════════════════════════════════════════════════════════════════
+// POST /purchase-orders — Order validated replenishment requests from a supplier
+// ═══════════════════════════════════════════════════════════════════
+router.post(
+  '/',
+  requireRole(...ISSUE_ROLES),
+  validate(createPurchaseOrderSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const order = await prisma.$transaction(async (tx) => {
+        const created = await createPurchaseOrder(tx, req.body, req.user!.userId);
+        await tx.auditLog.create({
+          data: {
+            userId: req.user!.userId,
+            action: 'PURCHASE_ORDER_ISSUED',
+            entityType: 'PurchaseOrder',
+            entityId: created.id,
+            changes: { ...req.body, poNumber: created.poNumber, totalAmount: Number(created.totalAmount) },
+          },
+        });
+        return created;
+      });
+
+      sendSuccess(res, { data: order, statusCode: 201 });
+    } catch (error: any) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        sendError(res, { code: 'CONFLICT', message: 'A purchase order was issued concurrently. Please retry.', statusCode: 409 });
+        return;
+      }
+      sendBusinessError(res, error, 'Failed to issue purchase order');
+    }
+  },
+);
+
+// ═══════════════════════════════════════════════════════════════════
+// GET /purchase-orders/:id — Order with its requests, deliveries and invoices
+// ═══════════════════════════════════════════════════════════════════
+router.get('/:id', requireRole(...VIEW_ROLES), async (req: Request, res: Response) => {
+  try {
+    const id = getParam(req, 'id');
+    const order = await prisma.purchaseOrder.findUnique({
+      where: { id },
+      include: {
+        ...purchaseOrderRelations,
+        requests: {
+          include: { requestedBy: { select: { fullName: true } } },
+          orderBy: { createdAt: 'asc' },
+        },
+        deliveries: {
+          include: { compartments: { select: { fuelType: true, blVolume: true, physicalReceived: true } } },
+          orderBy: { createdAt: 'asc' },
+        },
+        invoices: {
+          select: { id: true, invoiceNumber: true, amount: true, status: true, matchStatus: true, createdAt: true },
+          orderBy: { createdAt: 'asc' },
+        },
+      },
+    });
+    if (!order) {
+      sendError(res, { code: 'NOT_FOUND', message: 'Purchase order not found', statusCode: 404 });
+      return;
+    }
+    if (req.user!.stationId && req.user!.stationId !== order.stationId) {
+      sendError(res, { code: 'FORBIDDEN_STATION', message: 'Access denied to this station', statusCode: 403 });
+      return;
+    }
+
+    const received = await getReceivedVolumes(prisma, id);
+    sendSuccess(res, {
+      data: {
+        ...order,
+        lines: order.lines.map((l) => ({ ...l, receivedVolume: received.get(l.fuelType)?.toNumber() ?? 0 })),
+      },
+    });
+  } catch (error) {
+    logger.error(`Error fetching purchase order: ${error}`);
+    sendError(res, { code: 'INTERNAL_ERROR', message: 'Failed to fetch purchase order', statusCode: 500 });
+  }
+});
+
+// ═══════════════════════════════════════════════════════════════════
+// PUT /purchase-orders/:id/cancel — Cancel an order nothing was delivered against
+// ═══════════════════════════════════════════════════════════════════
+router.put(
+  '/:id/cancel',
+  requireRole(...ISSUE_ROLES),
+  validate(cancelPurchaseOrderSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const id = getParam(req, 'id');
+      const order = await prisma.$transaction(async (tx) => {
+        const { order: cancelled, requestIds } = await cancelPurchaseOrder(tx, id);
+        await tx.auditLog.create({
+          data: {
+            userId: req.user!.userId,
+            action: 'PURCHASE_ORDER_CANCELLED',
+            entityType: 'PurchaseOrder',
+            entityId: id,
+            changes: { reason: req.body.reason, requestIds },
+          },
+        });
+        return cancelled;
+      });
+
+      sendSuccess(res, { data: order });
+    } catch (error) {
+      sendBusinessError(res, error, 'Failed to cancel purchase order');
+    }
+  },
+);
+
+export default router;
@@ -2,7 +2,7 @@ import { Router, Request, Response } from 'express';
 import { Prisma } from '@prisma/client';
 import Decimal from 'decimal.js';
 import prisma from '../lib/prisma';
-import { sendSuccess, sendError, sendPaginated } from '../lib/response';
+import { sendSuccess, sendError, sendPaginated, sendBusinessError } from '../lib/response';
 import { validate } from '../middleware/validate';
 import { requireAuth } from '../middleware/auth';
 import { requireRole } from '../middleware/rbac';
@@ -11,39 +11,51 @@ import {
   openShiftSchema,
   closeShiftSchema,
   shiftListFiltersSchema,
+  proposeShiftCorrectionSchema,
+  approveShiftCorrectionSchema,
+  rejectShiftCorrectionSchema,
+  assignAttendantSchema,
+  attendantHandoverSchema,
+  declareAttendantCashSchema,
+  recordPriceChangeSchema,
 } from '@alcom/shared/src/schemas/shift.schema';
-import {
-  calculateVolumeSold,
-  calculateRevenue,
-  calculateTheoreticalCash,
-  calculateCashVariance,
-  calculateTheoreticalStock,
-  calculateStockVariance,
-} from '@alcom/shared/src/calculations';
 import logger from '../lib/logger';
+import {
+  applyAttendantSettlement,
+  applyShiftPayments,
+  computeShiftSettlement,
+} from '../services/shift-settlement.service';
+import { findUnknownTender, getPaymentMethods } from '../services/payment-method.service';
+import {
+  buildCorrectionProposal,
+  buildCorrectionDiff,
+  applyShiftCorrection,
+  type CorrectionProposal,
+} from '../services/shift-correction.service';
+import { findNearestReadings } from '../services/atg.service';
+import { findPeriodLock, periodLockedError, CLOSED_SHIFT_STATUSES } from '../services/period.service';
+import { getActivePricesForStation } from '../services/fuel-price.service';
+import { recordShiftPriceChange } from '../services/shift-price-change.service';
+import { findPendingMeterReplacements } from '../services/meter-replacement.service';
+import { findPendingTransfers } from '../services/fuel-transfer.service';
+import { findShiftPattern, getShiftPatterns, shiftPatternName } from '../services/shift-pattern.service';
+import { creditSaleRelations } from '../services/credit-account.service';
+import { redeemShiftCoupons } from '../services/coupon.service';
 
 const router = Router();
 
 // ─── Helpers ───
 
 /**
- * Fetch the latest active fuel prices effective on or before `date`.
+ * Fetch the active fuel prices applying to a station on `date` (station, zone or national).
  * Returns a Record<FuelType, Decimal price>.
  */
-async function getActivePricesForDate(date: Date): Promise<Record<string, Decimal>> {
-  const prices = await prisma.fuelPrice.findMany({
-    where: {
-      effectiveDate: { lte: date },
-      isActive: true,
-    },
-    orderBy: { effectiveDate: 'desc' },
-  });
+async function getActivePricesForDate(stationId: string, date: Date): Promise<Record<string, Decimal>> {
+  const prices = await getActivePricesForStation(prisma, stationId, date);
 
   const priceMap: Record<string, Decimal> = {};
-  for (const p of prices) {
-    if (!priceMap[p.fuelType]) {
-      priceMap[p.fuelType] = new Decimal(p.price.toString());
-    }
+  for (const [fuelType, p] of Object.entries(prices)) {
+    priceMap[fuelType] = new Decimal(p.price.toString());
   }
   return priceMap;
 }
@@ -82,6 +94,87 @@ function canAccessStation(user: Request['user'], stationId: string): boolean {
   return user.stationId === stationId;
 }
 
+const attendantInclude = {
+  assignments: {
+    include: {
+      attendant: { select: { id: true, fullName: true } },
+      nozzle: { select: { id: true, side: true, pump: { select: { code: true } } } },
+    },
+    orderBy: { startedAt: 'asc' as const },
+  },
+  attendants: {
+    include: { attendant: { select: { id: true, fullName: true } } },
+  },
+};
+
+// Prices that became effective while the shift was open
+const priceChangeInclude = {
+  priceChanges: {
+    include: { recordedBy: { select: { id: true, fullName: true } } },
+    orderBy: { createdAt: 'asc' as const },
+  },
+};
+
+// Nozzle meters replaced during the shift or taken over when it opened
+const meterReplacementInclude = {
+  meterReplacements: {
+    include: { recordedBy: { select: { id: true, fullName: true } } },
+    orderBy: { replacedAt: 'asc' as const },
+  },
+};
+
+// Calibration tests run during the shift or taken over when it opened (not sold)
+const calibrationTestInclude = {
+  calibrationTests: {
+    include: { testedBy: { select: { id: true, fullName: true } } },
+    orderBy: { testedAt: 'asc' as const },
+  },
+};
+
+// Shop products stocked at the station when the shift opened
+const productSaleInclude = {
+  productSales: {
+    include: { product: { select: { id: true, sku: true, name: true, category: true, unit: true } } },
+    orderBy: { product: { name: 'asc' as const } },
+  },
+};
+
+// Gas bottle counts and the transactions recorded during the shift
+const cylinderInclude = {
+  cylinderCounts: {
+    include: { cylinderType: { select: { id: true, brand: true, sizeKg: true } } },
+    orderBy: [{ cylinderType: { brand: 'asc' as const } }, { cylinderType: { sizeKg: 'asc' as const } }],
+  },
+  cylinderTransactions: {
+    include: {
+      cylinderType: { select: { id: true, brand: true, sizeKg: true } },
+      recordedBy: { select: { id: true, fullName: true } },
+    },
+    orderBy: { createdAt: 'asc' as const },
+  },
+};
+
+// Fuel served on account to credit customers during the shift
+const creditSaleInclude = {
+  creditSales: {
+    include: creditSaleRelations,
+    orderBy: { createdAt: 'asc' as const },
+  },
+};
+
+// Prepaid fuel coupons handed in with the closing cash
+const couponInclude = {
+  redeemedCoupons: {
+    select: {
+      id: true,
+      serialNumber: true,
+      faceValue: true,
+      batch: { select: { batchNumber: true, customer: { select: { id: true, name: true } } } },
+    },
+    orderBy: { serialNumber: 'asc' as const },
+  },
+};
+
 // ═══════════════════════════════════════════════════════════════════
 // POST /shifts/open — Open a new shift
 // ═══════════════════════════════════════════════════════════════════
@@ -133,6 +226,15 @@ router.post(
         });
       }
 
+      if (!findShiftPattern(station.settings, shiftType)) {
+        return sendError(res, {
+          code: 'BIZ_INVALID_SHIFT_TYPE',
+          message: `Shift type ${shiftType} is not defined for this station`,
+          details: { allowed: getShiftPatterns(station.settings).map((p) => p.code) },
+          statusCode: 400,
+        });
+      }
+
       const parsedDate = new Date(shiftDate);
 
       // 2. Check unique constraint — no duplicate shift
@@ -155,6 +257,12 @@ router.post(
         });
       }
 
+      // No new shifts inside a closed (locked) period
+      const periodLock = await findPeriodLock(prisma, stationId, parsedDate);
+      if (periodLock) {
+        return sendError(res, periodLockedError(periodLock));
+      }
+
       // 3. Check if previous shift is still open
       const openShift = await prisma.shiftReport.findFirst({
         where: { stationId, status: 'OPEN' },
@@ -170,7 +278,7 @@ router.post(
       }
 
       // 4. Fetch active fuel prices
-      const priceMap = await getActivePricesForDate(parsedDate);
+      const priceMap = await getActivePricesForDate(stationId, parsedDate);
       if (Object.keys(priceMap).length === 0) {
         return sendError(res, {
           code: 'BIZ_NO_ACTIVE_PRICES',
@@ -187,7 +295,7 @@ router.post(
 
       // 5. Get opening meter indices from previous shift's closing indices
       const lastClosedShift = await prisma.shiftReport.findFirst({
-        where: { stationId, status: 'CLOSED' },
+        where: { stationId, status: { in: CLOSED_SHIFT_STATUSES } },
         orderBy: [{ shiftDate: 'desc' }, { createdAt: 'desc' }],
         include: { sales: true, tankDips: true },
       });
@@ -195,10 +303,20 @@ router.post(
       // 6. Build nozzle opening indices
       const allNozzles = station.pumps.flatMap((p) => p.nozzles);
 
+      // Meters replaced since the last shift: those nozzles open on their new meter
+      const pendingReplacements = await findPendingMeterReplacements(
+        prisma,
+        allNozzles.map((n) => n.id),
+      );
+
+      // Fuel transfers moved since the last shift: part of this shift's tank movements
+      const pendingTransfers = await findPendingTransfers(prisma, stationId);
+
       const salesStubs = allNozzles.map((nozzle) => {
         // Find previous closing index for this nozzle
         const prevSale = lastClosedShift?.sales.find((s) => s.nozzleId === nozzle.id);
-        const openingIndex = prevSale?.closingIndex
+        const replaced = pendingReplacements.some((r) => r.nozzleId === nozzle.id);
+        const openingIndex = prevSale?.closingIndex && !replaced
           ? new Decimal(prevSale.closingIndex.toString())
           : new Decimal(nozzle.meterIndex.toString());
 
@@ -221,12 +339,45 @@ router.post(
           ? new Decimal(prevDip.closingLevel.toString())
           : new Decimal(tank.currentLevel.toString());
 
+        // Carry the dipstick height over only if it produced the opening level
+        const openingHeight = prevDip?.closingLevel ? prevDip.closingHeight : null;
+
+        // Without a previous dip, the tank level opened on already includes the transfers
+        const transfers = prevDip?.closingLevel
+          ? pendingTransfers.netByTank.get(tank.id) ?? new Decimal(0)
+          : new Decimal(0);
+
         return {
           tankId: tank.id,
           openingLevel: new Prisma.Decimal(openingLevel.toFixed(4)),
+          openingHeight,
+          openingTemperature: prevDip?.closingLevel ? prevDip.closingTemperature : null,
+          density: prevDip?.density ?? null,
+          transfers: new Prisma.Decimal(transfers.toFixed(4)),
         };
       });
 
+      // 7b. Shop product stubs: opening stock and price as of now
+      const productStocks = await prisma.productStock.findMany({
+        where: { stationId, product: { isActive: true, deletedAt: null } },
+        include: { product: true },
+      });
+      const productSaleStubs = productStocks.map((stock) => ({
+        productId: stock.productId,
+        openingStock: stock.quantity,
+        unitPrice: stock.product.unitPrice,
+      }));
+
+      // 7c. Gas cylinder stubs: full and empty bottles held at opening
+      const cylinderStocks = await prisma.cylinderStock.findMany({
+        where: { stationId, cylinderType: { isActive: true } },
+      });
+      const cylinderCountStubs = cylinderStocks.map((stock) => ({
+        cylinderTypeId: stock.cylinderTypeId,
+        openingFull: stock.fullCount,
+        openingEmpty: stock.emptyCount,
+      }));
+
       // 8. Create ShiftReport + stubs in transaction
       const shift = await prisma.$transaction(async (tx) => {
         const created = await tx.shiftReport.create({
@@ -239,6 +390,8 @@ router.post(
             openedById: userId,
             sales: { create: salesStubs },
             tankDips: { create: tankDipStubs },
+            productSales: { create: productSaleStubs },
+            cylinderCounts: { create: cylinderCountStubs },
           },
           include: {
             station: { select: { id: true, code: true, name: true } },
@@ -252,12 +405,41 @@ router.post(
           },
         });
 
+        if (pendingReplacements.length > 0) {
+          await tx.nozzleMeterReplacement.updateMany({
+            where: { id: { in: pendingReplacements.map((r) => r.id) } },
+            data: { shiftReportId: created.id },
+          });
+        }
+
+        if (pendingTransfers.outgoing.length > 0) {
+          await tx.fuelTransfer.updateMany({
+            where: { id: { in: pendingTransfers.outgoing.map((t) => t.id) } },
+            data: { sourceShiftReportId: created.id },
+          });
+        }
+        if (pendingTransfers.incoming.length > 0) {
+          await tx.fuelTransfer.updateMany({
+            where: { id: { in: pendingTransfers.incoming.map((t) => t.id) } },
+            data: { destinationShiftReportId: created.id },
+          });
+        }
+
+        // Calibration tests run since the last shift: their volume is in this shift's meters
+        await tx.nozzleCalibrationTest.updateMany({
+          where: { nozzleId: { in: allNozzles.map((n) => n.id) }, shiftReportId: null },
+          data: { shiftReportId: created.id },
+        });
+
         // Audit log
         await auditLog(tx, userId, 'SHIFT_OPENED', 'ShiftReport', created.id, {
           stationId,
           shiftDate,
           shiftType,
           priceSnapshot,
+          ...(pendingReplacements.length > 0 && {
+            meterReplacements: pendingReplacements.map((r) => r.id),
+          }),
         });
 
         return created;
@@ -293,9 +475,9 @@ router.post(
   validate(closeShiftSchema),
   async (req: Request, res: Response) => {
     try {
-      const { id } = req.params;
+      const id = req.params.id as string;
       const userId = req.user!.userId;
-      const { sales, tankDips, cash, justification } = req.body;
+      const { sales, tankDips, cash, products, cylinders, coupons, justification } = req.body;
 
       // Idempotency-Key header
       const idempotencyKey = req.headers['idempotency-key'] as string | undefined;
@@ -333,6 +515,13 @@ router.post(
           const shiftRow = locked[0];
 
           // 2. Verify status == OPEN
+          if (shiftRow.status === 'LOCKED') {
+            throw {
+              code: 'BIZ_SHIFT_LOCKED',
+              message: 'Shift belongs to a closed period and cannot be modified.',
+              statusCode: 409,
+            };
+          }
           if (shiftRow.status !== 'OPEN') {
             throw {
               code: 'BIZ_SHIFT_NOT_OPEN',
@@ -346,109 +535,79 @@ router.post(
             throw { code: 'FORBIDDEN_STATION', message: 'Access denied', statusCode: 403 };
           }
 
-          // Load existing sale stubs and tank dip stubs
-          const existingSales = await tx.shiftSale.findMany({
-            where: { shiftReportId: id },
-            include: {
-              nozzle: { include: { pump: { include: { tank: true } } } },
-            },
-          });
+          const periodLock = await findPeriodLock(tx, shiftRow.station_id, shiftRow.shift_date);
+          if (periodLock) {
+            throw periodLockedError(periodLock);
+          }
 
-          const existingDips = await tx.shiftTankDip.findMany({
-            where: { shiftReportId: id },
+          // A price that changed during the shift needs its meter readings before the sales can be billed
+          const pendingPriceChanges = await tx.shiftPriceChange.findMany({
+            where: { shiftReportId: id, recordedAt: null },
+            select: { id: true, fuelType: true },
           });
-
-          // Parse price snapshot
-          const priceSnapshot: Record<string, number> = shiftRow.applied_price_snapshot || {};
-
-          // 3. Process sales
-          let totalRevenue = new Decimal(0);
-          const saleUpdates: { saleId: string; data: any }[] = [];
-          // Track volume sold per tank for stock calculation
-          const volumeByTank: Record<string, Decimal> = {};
-
-          for (const saleInput of sales) {
-            const existingSale = existingSales.find((s) => s.nozzleId === saleInput.nozzleId);
-            if (!existingSale) {
-              throw {
-                code: 'BIZ_NOZZLE_NOT_IN_SHIFT',
-                message: `Nozzle ${saleInput.nozzleId} not found in this shift`,
-                statusCode: 400,
-              };
-            }
-
-            const openingIndex = new Decimal(existingSale.openingIndex.toString());
-            const closingIndex = new Decimal(saleInput.closingIndex);
-
-            // Calculate volume (handles rollover)
-            const volumeSold = calculateVolumeSold(openingIndex, closingIndex);
-
-            // Get unit price from snapshot
-            const fuelType = existingSale.nozzle.pump.tank.fuelType;
-            const unitPrice = new Decimal(priceSnapshot[fuelType] || existingSale.unitPrice.toString());
-
-            // Calculate revenue
-            const revenue = calculateRevenue(volumeSold, unitPrice);
-            totalRevenue = totalRevenue.plus(revenue);
-
-            saleUpdates.push({
-              saleId: existingSale.id,
-              data: {
-                closingIndex: new Prisma.Decimal(closingIndex.toFixed(4)),
-                volumeSold: new Prisma.Decimal(volumeSold.toFixed(4)),
-                revenue: new Prisma.Decimal(revenue.toFixed(4)),
-              },
-            });
-
-            // Accumulate volume by tank
-            const tankId = existingSale.nozzle.pump.tankId;
-            volumeByTank[tankId] = (volumeByTank[tankId] || new Decimal(0)).plus(volumeSold);
+          if (pendingPriceChanges.length > 0) {
+            throw {
+              code: 'BIZ_PRICE_CHANGE_PENDING',
+              message: 'A price changed during this shift: record the meter readings at the change before closing.',
+              details: { priceChanges: pendingPriceChanges },
+              statusCode: 409,
+            };
           }
 
-          // 4. Cash reconciliation
-          const cashCounted = new Decimal(cash.counted);
-          const cardAmount = new Decimal(cash.card);
-          const expensesAmount = new Decimal(cash.expenses);
-
-          const theoreticalCash = calculateTheoreticalCash(totalRevenue, cardAmount, expensesAmount);
-          const cashVar = calculateCashVariance(cashCounted, theoreticalCash);
-
-          // 5. Process tank dips & stock variance
-          let totalStockVariance = new Decimal(0);
-          const dipUpdates: { dipId: string; data: any }[] = [];
-
-          for (const dipInput of tankDips) {
-            const existingDip = existingDips.find((d) => d.tankId === dipInput.tankId);
-            if (!existingDip) {
-              throw {
-                code: 'BIZ_TANK_NOT_IN_SHIFT',
-                message: `Tank ${dipInput.tankId} not found in this shift`,
-                statusCode: 400,
-              };
-            }
-
-            const openingLevel = new Decimal(existingDip.openingLevel.toString());
-            const deliveries = new Decimal(existingDip.deliveries.toString());
-            const salesFromTank = volumeByTank[dipInput.tankId] || new Decimal(0);
-            const physicalLevel = new Decimal(dipInput.physicalLevel);
+          // Every non-cash tender must be one of the station's payment methods
+          const station = await tx.station.findUniqueOrThrow({
+            where: { id: shiftRow.station_id },
+            select: { settings: true },
+          });
+          const unknownTender = findUnknownTender(station.settings, cash.tenders);
+          if (unknownTender) {
+            throw {
+              code: 'BIZ_INVALID_PAYMENT_METHOD',
+              message: `Payment method ${unknownTender.method} is not accepted by this station`,
+              details: { allowed: getPaymentMethods(station.settings).map((m) => m.code) },
+              statusCode: 400,
+            };
+          }
 
-            const theoreticalStock = calculateTheoreticalStock(openingLevel, deliveries, salesFromTank);
-            const stockVar = calculateStockVariance(physicalLevel, theoreticalStock);
+          // Coupons in the cash envelope are validated and redeemed before the cash is reconciled
+          if (coupons?.length) {
+            await redeemShiftCoupons(tx, id, coupons, shiftRow.shift_date);
+          }
 
-            totalStockVariance = totalStockVariance.plus(stockVar.abs());
+          // Parse price snapshot
+          const priceSnapshot: Record<string, number> = shiftRow.applied_price_snapshot || {};
 
-            dipUpdates.push({
-              dipId: existingDip.id,
-              data: {
-                closingLevel: new Prisma.Decimal(physicalLevel.toFixed(4)),
-                theoreticalStock: new Prisma.Decimal(theoreticalStock.toFixed(4)),
-                stockVariance: new Prisma.Decimal(stockVar.toFixed(4)),
-              },
-            });
-          }
+          // 3–5. Sales, cash reconciliation, tank dips & stock variance
+          const settlement = await computeShiftSettlement(tx, id, priceSnapshot, {
+            sales,
+            tankDips,
+            cash,
+            products,
+            cylinders,
+          });
+          const {
+            totalRevenue,
+            shopRevenue,
+            cylinderRevenue,
+            creditSalesAmount,
+            couponsAmount,
+            cashCounted,
+            cardAmount,
+            expensesAmount,
+            theoreticalCash,
+            cashVariance: cashVar,
+            totalStockVariance,
+            saleUpdates,
+            segmentUpdates,
+            dipUpdates,
+            productUpdates,
+            cylinderUpdates,
+            totalCylinderVariance,
+            physicalByTank,
+          } = settlement;
 
           // 6. Justification required check
-          const hasVariance = !cashVar.isZero() || !totalStockVariance.isZero();
+          const hasVariance = !cashVar.isZero() || !totalStockVariance.isZero() || totalCylinderVariance !== 0;
           if (hasVariance && !justification) {
             throw {
               code: 'BIZ_JUSTIFICATION_REQUIRED',
@@ -456,6 +615,7 @@ router.post(
               details: {
                 cashVariance: cashVar.toNumber(),
                 totalStockVariance: totalStockVariance.toNumber(),
+                totalCylinderVariance,
               },
               statusCode: 400,
             };
@@ -466,10 +626,25 @@ router.post(
             await tx.shiftSale.update({ where: { id: su.saleId }, data: su.data });
           }
 
+          for (const gu of segmentUpdates) {
+            await tx.shiftSaleSegment.update({ where: { id: gu.segmentId }, data: gu.data });
+          }
+
           for (const du of dipUpdates) {
             await tx.shiftTankDip.update({ where: { id: du.dipId }, data: du.data });
           }
 
+          for (const pu of productUpdates) {
+            await tx.shiftProductSale.update({ where: { id: pu.productSaleId }, data: pu.data });
+          }
+
+          for (const cu of cylinderUpdates) {
+            await tx.shiftCylinderCount.update({ where: { id: cu.countId }, data: cu.data });
+          }
+
+          await applyAttendantSettlement(tx, id, settlement);
+          await applyShiftPayments(tx, id, settlement);
+
           // 8. Update Tank.currentLevel with optimistic locking
           for (const dipInput of tankDips) {
             const tank = await tx.tank.findUnique({ where: { id: dipInput.tankId } });
@@ -478,7 +653,7 @@ router.post(
             const updated = await tx.tank.updateMany({
               where: { id: dipInput.tankId, version: tank.version },
               data: {
-                currentLevel: new Prisma.Decimal(new Decimal(dipInput.physicalLevel).toFixed(4)),
+                currentLevel: new Prisma.Decimal(physicalByTank[dipInput.tankId]!.toFixed(4)),
                 version: { increment: 1 },
               },
             });
@@ -492,12 +667,64 @@ router.post(
             }
           }
 
+          // 8b. The counted shop stock becomes the station's stock
+          for (const pu of productUpdates) {
+            const stock = await tx.productStock.findUnique({
+              where: { stationId_productId: { stationId: shiftRow.station_id, productId: pu.productId } },
+            });
+            if (!stock) continue;
+
+            const updated = await tx.productStock.updateMany({
+              where: { id: stock.id, version: stock.version },
+              data: {
+                quantity: new Prisma.Decimal(pu.countedStock.toFixed(4)),
+                version: { increment: 1 },
+              },
+            });
+
+            if (updated.count === 0) {
+              throw {
+                code: 'BIZ_CONCURRENCY_FAIL',
+                message: `Concurrent modification detected on product stock ${pu.productId}. Please retry.`,
+                statusCode: 409,
+              };
+            }
+          }
+
+          // 8c. The counted bottles become the station's cylinder stock
+          for (const cu of cylinderUpdates) {
+            const stock = await tx.cylinderStock.findUnique({
+              where: {
+                stationId_cylinderTypeId: { stationId: shiftRow.station_id, cylinderTypeId: cu.cylinderTypeId },
+              },
+            });
+            if (!stock) continue;
+
+            const updated = await tx.cylinderStock.updateMany({
+              where: { id: stock.id, version: stock.version },
+              data: { fullCount: cu.countedFull, emptyCount: cu.countedEmpty, version: { increment: 1 } },
+            });
+
+            if (updated.count === 0) {
+              throw {
+                code: 'BIZ_CONCURRENCY_FAIL',
+                message: `Concurrent modification detected on cylinder stock ${cu.cylinderTypeId}. Please retry.`,
+                statusCode: 409,
+              };
+            }
+          }
+
           // 9. Update ShiftReport
           const updatedShift = await tx.shiftReport.update({
             where: { id },
             data: {
               status: 'CLOSED',
               totalRevenue: new Prisma.Decimal(totalRevenue.toFixed(4)),
+              shopRevenue: new Prisma.Decimal(shopRevenue.toFixed(4)),
+              cylinderRevenue: new Prisma.Decimal(cylinderRevenue.toFixed(4)),
+              cylinderVariance: totalCylinderVariance,
+              creditSalesAmount: new Prisma.Decimal(creditSalesAmount.toFixed(4)),
+              couponsAmount: new Prisma.Decimal(couponsAmount.toFixed(4)),
               cashCounted: new Prisma.Decimal(cashCounted.toFixed(4)),
               cardAmount: new Prisma.Decimal(cardAmount.toFixed(4)),
               expensesAmount: new Prisma.Decimal(expensesAmount.toFixed(4)),
@@ -511,23 +738,37 @@ router.post(
             include: {
               station: { select: { id: true, code: true, name: true, settings: true } },
               sales: {
-                include: { nozzle: { include: { pump: { select: { id: true, code: true } } } } },
+                include: {
+                  nozzle: { include: { pump: { select: { id: true, code: true } } } },
+                  segments: { orderBy: { createdAt: 'asc' } },
+                },
               },
               tankDips: {
                 include: { tank: { select: { id: true, fuelType: true, capacity: true } } },
               },
               openedBy: { select: { id: true, fullName: true } },
               closedBy: { select: { id: true, fullName: true } },
+              payments: { orderBy: { method: 'asc' } },
+              ...priceChangeInclude,
+              ...meterReplacementInclude,
+              ...calibrationTestInclude,
+              ...productSaleInclude,
+              ...cylinderInclude,
+              ...creditSaleInclude,
+              ...couponInclude,
             },
           });
 
           // 10. Check tolerance & create notifications if exceeded
           const settings = (updatedShift.station.settings as any) || {};
           const tolerance = settings.tolerance || { cashVariance: 5000, stockVariance: 50 };
+          // Any missing gas bottle is reported unless the station tolerates some
+          const cylinderTolerance = tolerance.cylinderVariance ?? 0;
 
           if (
             cashVar.abs().greaterThan(tolerance.cashVariance) ||
-            totalStockVariance.greaterThan(tolerance.stockVariance)
+            totalStockVariance.greaterThan(tolerance.stockVariance) ||
+            totalCylinderVariance > cylinderTolerance
           ) {
             const managers = await tx.user.findMany({
               where: {
@@ -545,7 +786,8 @@ router.post(
               userId: u.id,
               type: 'SHIFT_VARIANCE_ALERT',
               title: 'Alerte écart de quart',
-              message: `Quart ${updatedShift.shiftDate} ${updatedShift.shiftType} — Écart caisse: ${cashVar.toNumber()} FCFA, Écart stock: ${totalStockVariance.toNumber()} L`,
+              message: `Quart ${updatedShift.shiftDate} ${shiftPatternName(settings, updatedShift.shiftType)} — Écart caisse: ${cashVar.toNumber()} FCFA, Écart stock: ${totalStockVariance.toNumber()} L` +
+                (totalCylinderVariance > 0 ? `, Écart bouteilles: ${totalCylinderVariance}` : ''),
               link: `/admin/shifts/${updatedShift.id}`,
             }));
 
@@ -557,8 +799,13 @@ router.post(
           // 11. Audit log
           await auditLog(tx, userId, 'SHIFT_CLOSED', 'ShiftReport', id, {
             totalRevenue: totalRevenue.toNumber(),
+            shopRevenue: shopRevenue.toNumber(),
+            cylinderRevenue: cylinderRevenue.toNumber(),
+            creditSalesAmount: creditSalesAmount.toNumber(),
+            couponsAmount: couponsAmount.toNumber(),
             cashVariance: cashVar.toNumber(),
             stockVariance: totalStockVariance.toNumber(),
+            cylinderVariance: totalCylinderVariance,
             hasJustification: !!justification,
           });
 
@@ -702,6 +949,13 @@ router.get('/current', requireAuth, async (req: Request, res: Response) => {
         },
         tankDips: { include: { tank: { select: { id: true, fuelType: true, capacity: true } } } },
         openedBy: { select: { id: true, fullName: true } },
+        ...priceChangeInclude,
+        ...meterReplacementInclude,
+        ...calibrationTestInclude,
+        ...productSaleInclude,
+        ...cylinderInclude,
+        ...creditSaleInclude,
+        ...couponInclude,
       },
     });
 
@@ -738,15 +992,35 @@ router.get('/:id', requireAuth, async (req: Request, res: Response) => {
                 pump: { select: { id: true, code: true, tankId: true } },
               },
             },
+            segments: { orderBy: { createdAt: 'asc' } },
           },
         },
         tankDips: {
           include: {
-            tank: { select: { id: true, fuelType: true, capacity: true } },
+            tank: {
+              select: {
+                id: true,
+                fuelType: true,
+                capacity: true,
+                calibrationPoints: {
+                  select: { height: true, volume: true },
+                  orderBy: { height: 'asc' },
+                },
+              },
+            },
           },
         },
         openedBy: { select: { id: true, fullName: true } },
         closedBy: { select: { id: true, fullName: true } },
+        payments: { orderBy: { method: 'asc' } },
+        ...attendantInclude,
+        ...priceChangeInclude,
+        ...meterReplacementInclude,
+        ...calibrationTestInclude,
+        ...productSaleInclude,
+        ...cylinderInclude,
+        ...creditSaleInclude,
+        ...couponInclude,
       },
     });
 
@@ -778,4 +1052,609 @@ router.get('/:id', requireAuth, async (req: Request, res: Response) => {
   }
 });
 
+// ═══════════════════════════════════════════════════════════════════
+// GET /shifts/:id/atg-readings — Nearest ATG reading per tank, to pre-fill closing dips
+// ═══════════════════════════════════════════════════════════════════
+router.get('/:id/atg-readings', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const id = req.params.id as string;
+    const at = req.query.at ? new Date(req.query.at as string) : new Date();
+
+    if (Number.isNaN(at.getTime())) {
+      return sendError(res, {
+        code: 'VALIDATION_ERROR',
+        message: 'at must be an ISO date',
+        statusCode: 400,
+      });
+    }
+
+    const shift = await prisma.shiftReport.findUnique({
+      where: { id },
+      include: { tankDips: { select: { tankId: true } } },
+    });
+
+    if (!shift) {
+      return sendError(res, {
+        code: 'NOT_FOUND',
+        message: 'Shift not found',
+        statusCode: 404,
+      });
+    }
+
+    if (!canAccessStation(req.user, shift.stationId)) {
+      return sendError(res, {
+        code: 'FORBIDDEN_STATION',
+        message: 'Access denied to this station',
+        statusCode: 403,
+      });
+    }
+
+    const readings = await findNearestReadings(
+      shift.tankDips.map((d) => d.tankId),
+      at,
+    );
+
+    return sendSuccess(res, { data: readings });
+  } catch (error) {
+    logger.error({ error }, 'Error getting ATG readings for shift');
+    return sendError(res, {
+      code: 'INTERNAL_ERROR',
+      message: 'Failed to get ATG readings',
+      statusCode: 500,
+    });
+  }
+});
+
+// ─── Corrections ───
+
+const correctionInclude = {
+  requestedBy: { select: { id: true, fullName: true } },
+  reviewedBy: { select: { id: true, fullName: true } },
+};
+
+/**
+ * Ensure a shift can still be corrected: CLOSED, outside any closed period.
+ */
+async function assertCorrectable(
+  tx: Prisma.TransactionClient,
+  shift: { status: string; stationId: string; shiftDate: Date },
+) {
+  if (shift.status === 'LOCKED') {
+    throw {
+      code: 'BIZ_SHIFT_LOCKED',
+      message: 'Shift belongs to a closed period and cannot be modified.',
+      statusCode: 409,
+    };
+  }
+  if (shift.status !== 'CLOSED') {
+    throw {
+      code: 'BIZ_SHIFT_NOT_CLOSED',
+      message: 'Only closed shifts can be corrected.',
+      statusCode: 409,
+    };
+  }
+
+  const periodLock = await findPeriodLock(tx, shift.stationId, shift.shiftDate);
+  if (periodLock) {
+    throw periodLockedError(periodLock);
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// POST /shifts/:id/corrections — Propose corrected readings for a closed shift
+// ═══════════════════════════════════════════════════════════════════
+router.post(
+  '/:id/corrections',
+  requireAuth,
+  requireRole(UserRole.SUPER_ADMIN, UserRole.CEO, UserRole.CFO, UserRole.STATION_MANAGER),
+  validate(proposeShiftCorrectionSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const id = req.params.id as string;
+      const userId = req.user!.userId;
+      const { reason, ...input } = req.body;
+
+      const correction = await prisma.$transaction(async (tx) => {
+        const shift = await tx.shiftReport.findUnique({
+          where: { id },
+          include: { corrections: { where: { status: 'PENDING' } } },
+        });
+
+        if (!shift) {
+          throw { code: 'BIZ_SHIFT_NOT_FOUND', message: 'Shift not found', statusCode: 404 };
+        }
+        if (!canAccessStation(req.user, shift.stationId)) {
+          throw { code: 'FORBIDDEN_STATION', message: 'Access denied', statusCode: 403 };
+        }
+
+        await assertCorrectable(tx, shift);
+
+        if (shift.corrections.length > 0) {
+          throw {
+            code: 'CONFLICT',
+            message: 'A correction is already pending for this shift',
+            statusCode: 409,
+          };
+        }
+
+        // Recompute now so the reviewer sees the effect of the correction
+        const proposal = await buildCorrectionProposal(tx, id, input);
+        const settlement = await computeShiftSettlement(
+          tx,
+          id,
+          (shift.appliedPriceSnapshot as Record<string, number> | null) || {},
+          proposal,
+        );
+        const diff = await buildCorrectionDiff(tx, id, settlement);
+
+        const created = await tx.shiftCorrection.create({
+          data: {
+            shiftReportId: id,
+            reason,
+            proposed: proposal as unknown as Prisma.InputJsonValue,
+            diff: diff as unknown as Prisma.InputJsonValue,
+            requestedById: userId,
+          },
+          include: correctionInclude,
+        });
+
+        await auditLog(tx, userId, 'SHIFT_CORRECTION_PROPOSED', 'ShiftReport', id, {
+          correctionId: created.id,
+          reason,
+          totals: diff.totals,
+        });
+
+        return created;
+      });
+
+      return sendSuccess(res, { data: correction, statusCode: 201 });
+    } catch (error: any) {
+      return sendBusinessError(res, error, 'Failed to propose correction');
+    }
+  },
+);
+
+// ═══════════════════════════════════════════════════════════════════
+// GET /shifts/:id/corrections — Correction history of a shift
+// ═══════════════════════════════════════════════════════════════════
+router.get('/:id/corrections', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const id = req.params.id as string;
+
+    const shift = await prisma.shiftReport.findUnique({ where: { id }, select: { stationId: true } });
+    if (!shift) {
+      return sendError(res, {
+        code: 'NOT_FOUND',
+        message: 'Shift not found',
+        statusCode: 404,
+      });
+    }
+
+    if (!canAccessStation(req.user, shift.stationId)) {
+      return sendError(res, {
+        code: 'FORBIDDEN_STATION',
+        message: 'Access denied to this station',
+        statusCode: 403,
+      });
+    }
+
+    const corrections = await prisma.shiftCorrection.findMany({
+      where: { shiftReportId: id },
+      include: correctionInclude,
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return sendSuccess(res, { data: corrections });
+  } catch (error) {
+    logger.error({ error }, 'Error listing shift corrections');
+    return sendError(res, {
+      code: 'INTERNAL_ERROR',
+      message: 'Failed to get corrections',
+      statusCode: 500,
+    });
+  }
+});
+
+/**
+ * Load a PENDING correction the current user may review (not their own).
+ */
+async function loadReviewableCorrection(tx: Prisma.TransactionClient, req: Request) {
+  const correction = await tx.shiftCorrection.findUnique({
+    where: { id: req.params.correctionId as string },
+    include: { shiftReport: true },
+  });
+
+  if (!correction) {
+    throw { code: 'NOT_FOUND', message: 'Correction not found', statusCode: 404 };
+  }
+  if (correction.status !== 'PENDING') {
+    throw {
+      code: 'INVALID_STATUS',
+      message: `Cannot review a correction with status ${correction.status}`,
+      statusCode: 400,
+    };
+  }
+  if (!canAccessStation(req.user, correction.shiftReport.stationId)) {
+    throw { code: 'FORBIDDEN_STATION', message: 'Access denied', statusCode: 403 };
+  }
+  // Segregation of duties: the proposer cannot approve their own figures
+  if (correction.requestedById === req.user!.userId) {
+    throw { code: 'FORBIDDEN', message: 'You cannot review your own correction', statusCode: 403 };
+  }
+
+  return correction;
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// PUT /shifts/corrections/:correctionId/approve — Apply a correction
+// ═══════════════════════════════════════════════════════════════════
+router.put(
+  '/corrections/:correctionId/approve',
+  requireAuth,
+  requireRole(UserRole.SUPER_ADMIN, UserRole.CEO, UserRole.CFO, UserRole.STATION_MANAGER),
+  validate(approveShiftCorrectionSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.userId;
+      const { comment } = req.body;
+
+      const result = await prisma.$transaction(
+        async (tx) => {
+          const correction = await loadReviewableCorrection(tx, req);
+          const shiftId = correction.shiftReportId;
+
+          await tx.$queryRaw`SELECT id FROM shift_reports WHERE id = ${shiftId}::uuid FOR UPDATE`;
+          await assertCorrectable(tx, correction.shiftReport);
+
+          const { settlement, nextShiftId } = await applyShiftCorrection(
+            tx,
+            shiftId,
+            correction.proposed as unknown as CorrectionProposal,
+          );
+
+          const reviewed = await tx.shiftCorrection.update({
+            where: { id: correction.id },
+            data: {
+              status: 'APPROVED',
+              reviewedById: userId,
+              reviewComment: comment,
+              reviewedAt: new Date(),
+            },
+            include: correctionInclude,
+          });
+
+          await auditLog(tx, userId, 'SHIFT_CORRECTION_APPROVED', 'ShiftReport', shiftId, {
+            correctionId: correction.id,
+            comment,
+            cashVariance: settlement.cashVariance.toNumber(),
+            stockVariance: settlement.totalStockVariance.toNumber(),
+            cascadedTo: nextShiftId,
+          });
+
+          return reviewed;
+        },
+        {
+          maxWait: 10000,
+          timeout: 30000,
+          isolationLevel: Prisma.TransactionIsolationLevel.Serializable,
+        },
+      );
+
+      logger.info({ correctionId: result.id, shiftId: result.shiftReportId }, 'Shift correction applied');
+      return sendSuccess(res, { data: result });
+    } catch (error: any) {
+      return sendBusinessError(res, error, 'Failed to approve correction');
+    }
+  },
+);
+
+// ═══════════════════════════════════════════════════════════════════
+// PUT /shifts/corrections/:correctionId/reject — Discard a correction
+// ═══════════════════════════════════════════════════════════════════
+router.put(
+  '/corrections/:correctionId/reject',
+  requireAuth,
+  requireRole(UserRole.SUPER_ADMIN, UserRole.CEO, UserRole.CFO, UserRole.STATION_MANAGER),
+  validate(rejectShiftCorrectionSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.userId;
+      const { reason } = req.body;
+
+      const result = await prisma.$transaction(async (tx) => {
+        const correction = await loadReviewableCorrection(tx, req);
+
+        const reviewed = await tx.shiftCorrection.update({
+          where: { id: correction.id },
+          data: {
+            status: 'REJECTED',
+            reviewedById: userId,
+            reviewComment: reason,
+            reviewedAt: new Date(),
+          },
+          include: correctionInclude,
+        });
+
+        await auditLog(tx, userId, 'SHIFT_CORRECTION_REJECTED', 'ShiftReport', correction.shiftReportId, {
+          correctionId: correction.id,
+          reason,
+        });
+
+        return reviewed;
+      });
+
+      return sendSuccess(res, { data: result });
+    } catch (error: any) {
+      return sendBusinessError(res, error, 'Failed to reject correction');
+    }
+  },
+);
+
+// ─── Attendants ───
+
+const ATTENDANT_MANAGER_ROLES = [UserRole.SUPER_ADMIN, UserRole.STATION_MANAGER, UserRole.CHEF_PISTE];
+
+/**
+ * Load an OPEN shift the current user may staff.
+ */
+async function loadStaffableShift(tx: Prisma.TransactionClient, req: Request) {
+  const shift = await tx.shiftReport.findUnique({
+    where: { id: req.params.id as string },
+    include: { sales: { select: { nozzleId: true, openingIndex: true } } },
+  });
+
+  if (!shift) {
+    throw { code: 'BIZ_SHIFT_NOT_FOUND', message: 'Shift not found', statusCode: 404 };
+  }
+  if (!canAccessStation(req.user, shift.stationId)) {
+    throw { code: 'FORBIDDEN_STATION', message: 'Access denied', statusCode: 403 };
+  }
+  if (shift.status !== 'OPEN') {
+    throw { code: 'BIZ_SHIFT_NOT_OPEN', message: 'Attendants can only be managed on an open shift', statusCode: 409 };
+  }
+
+  return shift;
+}
+
+/**
+ * Ensure a user is an active attendant (pompiste) of the station.
+ */
+async function assertStationAttendant(tx: Prisma.TransactionClient, stationId: string, attendantId: string) {
+  const attendant = await tx.user.findFirst({
+    where: { id: attendantId, role: 'POMPISTE', assignedStationId: stationId, isActive: true, deletedAt: null },
+    select: { id: true },
+  });
+  if (!attendant) {
+    throw {
+      code: 'BIZ_INVALID_ATTENDANT',
+      message: 'Attendant not found or not assigned to this station',
+      details: { attendantId },
+      statusCode: 400,
+    };
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// POST /shifts/:id/assignments — Put an attendant on nozzles from the shift opening
+// ═══════════════════════════════════════════════════════════════════
+router.post(
+  '/:id/assignments',
+  requireAuth,
+  requireRole(...ATTENDANT_MANAGER_ROLES),
+  validate(assignAttendantSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const id = req.params.id as string;
+      const userId = req.user!.userId;
+      const { attendantId, nozzleIds } = req.body;
+
+      const assignments = await prisma.$transaction(async (tx) => {
+        const shift = await loadStaffableShift(tx, req);
+        await assertStationAttendant(tx, shift.stationId, attendantId);
+
+        const created = [];
+        for (const nozzleId of nozzleIds as string[]) {
+          const sale = shift.sales.find((s) => s.nozzleId === nozzleId);
+          if (!sale) {
+            throw { code: 'BIZ_NOZZLE_NOT_IN_SHIFT', message: `Nozzle ${nozzleId} not found in this shift`, statusCode: 400 };
+          }
+
+          const existing = await tx.shiftAssignment.count({ where: { shiftReportId: id, nozzleId } });
+          if (existing > 0) {
+            throw {
+              code: 'BIZ_NOZZLE_ASSIGNED',
+              message: 'Nozzle already has an attendant; record a handover instead',
+              details: { nozzleId },
+              statusCode: 409,
+            };
+          }
+
+          created.push(
+            await tx.shiftAssignment.create({
+              data: { shiftReportId: id, nozzleId, attendantId, startIndex: sale.openingIndex, assignedById: userId },
+            }),
+          );
+        }
+
+        await auditLog(tx, userId, 'SHIFT_ATTENDANT_ASSIGNED', 'ShiftReport', id, { attendantId, nozzleIds });
+
+        return created;
+      });
+
+      return sendSuccess(res, { data: assignments, statusCode: 201 });
+    } catch (error: any) {
+      return sendBusinessError(res, error, 'Failed to assign attendant');
+    }
+  },
+);
+
+// ═══════════════════════════════════════════════════════════════════
+// POST /shifts/:id/assignments/handover — Hand a nozzle over to another attendant mid-shift
+// ═══════════════════════════════════════════════════════════════════
+router.post(
+  '/:id/assignments/handover',
+  requireAuth,
+  requireRole(...ATTENDANT_MANAGER_ROLES),
+  validate(attendantHandoverSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const id = req.params.id as string;
+      const userId = req.user!.userId;
+      const { nozzleId, toAttendantId, meterIndex } = req.body;
+
+      const assignment = await prisma.$transaction(async (tx) => {
+        const shift = await loadStaffableShift(tx, req);
+        await assertStationAttendant(tx, shift.stationId, toAttendantId);
+
+        const current = await tx.shiftAssignment.findFirst({
+          where: { shiftReportId: id, nozzleId, endIndex: null },
+        });
+        if (!current) {
+          throw { code: 'BIZ_NOZZLE_NOT_ASSIGNED', message: 'Nozzle has no attendant to hand over from', statusCode: 400 };
+        }
+        if (current.attendantId === toAttendantId) {
+          throw { code: 'VALIDATION_ERROR', message: 'Attendant is already on this nozzle', statusCode: 400 };
+        }
+
+        // The reading is taken on the meter running since the outgoing attendant started:
+        // a meter replaced in between restarts from its new starting index
+        const replaced = await tx.nozzleMeterReplacement.findFirst({
+          where: { nozzleId, shiftReportId: id, replacedAt: { gt: current.startedAt } },
+          orderBy: { replacedAt: 'desc' },
+        });
+        const startIndex = replaced ? replaced.newStartIndex : current.startIndex;
+        if (new Decimal(meterIndex).lt(startIndex.toString())) {
+          throw {
+            code: 'BIZ_INVALID_METER_INDEX',
+            message: `Meter index is below the index the outgoing attendant started at (${startIndex.toString()})`,
+            statusCode: 400,
+          };
+        }
+
+        const index = new Prisma.Decimal(new Decimal(meterIndex).toFixed(4));
+        const now = new Date();
+
+        await tx.shiftAssignment.update({
+          where: { id: current.id },
+          data: { endIndex: index, endedAt: now },
+        });
+        const created = await tx.shiftAssignment.create({
+          data: {
+            shiftReportId: id,
+            nozzleId,
+            attendantId: toAttendantId,
+            startIndex: index,
+            startedAt: now,
+            assignedById: userId,
+          },
+        });
+
+        await auditLog(tx, userId, 'SHIFT_ATTENDANT_HANDOVER', 'ShiftReport', id, {
+          nozzleId,
+          fromAttendantId: current.attendantId,
+          toAttendantId,
+          meterIndex,
+        });
+
+        return created;
+      });
+
+      return sendSuccess(res, { data: assignment, statusCode: 201 });
+    } catch (error: any) {
+      return sendBusinessError(res, error, 'Failed to record handover');
+    }
+  },
+);
+
+// ═══════════════════════════════════════════════════════════════════
+// PUT /shifts/:id/attendants/cash — Record the cash an attendant hands in
+// ═══════════════════════════════════════════════════════════════════
+router.put(
+  '/:id/attendants/cash',
+  requireAuth,
+  requireRole(...ATTENDANT_MANAGER_ROLES),
+  validate(declareAttendantCashSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const id = req.params.id as string;
+      const userId = req.user!.userId;
+      const { attendantId, counted, card } = req.body;
+
+      const declaration = await prisma.$transaction(async (tx) => {
+        await loadStaffableShift(tx, req);
+
+        const assigned = await tx.shiftAssignment.count({ where: { shiftReportId: id, attendantId } });
+        if (assigned === 0) {
+          throw { code: 'BIZ_ATTENDANT_NOT_IN_SHIFT', message: 'Attendant has no nozzle in this shift', statusCode: 400 };
+        }
+
+        const figures = {
+          cashDeclared: new Prisma.Decimal(new Decimal(counted).toFixed(4)),
+          cardAmount: new Prisma.Decimal(new Decimal(card).toFixed(4)),
+          declaredAt: new Date(),
+        };
+        const saved = await tx.shiftAttendant.upsert({
+          where: { shiftReportId_attendantId: { shiftReportId: id, attendantId } },
+          create: { shiftReportId: id, attendantId, ...figures },
+          update: figures,
+        });
+
+        await auditLog(tx, userId, 'SHIFT_ATTENDANT_CASH_DECLARED', 'ShiftReport', id, { attendantId, counted, card });
+
+        return saved;
+      });
+
+      return sendSuccess(res, { data: declaration });
+    } catch (error: any) {
+      return sendBusinessError(res, error, 'Failed to record attendant cash');
+    }
+  },
+);
+
+// ═══════════════════════════════════════════════════════════════════
+// PUT /shifts/:id/price-changes/:changeId — Record the meter readings at a mid-shift price change
+// ═══════════════════════════════════════════════════════════════════
+router.put(
+  '/:id/price-changes/:changeId',
+  requireAuth,
+  requireRole(...ATTENDANT_MANAGER_ROLES),
+  validate(recordPriceChangeSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const id = req.params.id as string;
+      const changeId = req.params.changeId as string;
+      const userId = req.user!.userId;
+      const { readings } = req.body;
+
+      const change = await prisma.$transaction(async (tx) => {
+        const shift = await tx.shiftReport.findUnique({ where: { id } });
+        if (!shift) {
+          throw { code: 'BIZ_SHIFT_NOT_FOUND', message: 'Shift not found', statusCode: 404 };
+        }
+        if (!canAccessStation(req.user, shift.stationId)) {
+          throw { code: 'FORBIDDEN_STATION', message: 'Access denied', statusCode: 403 };
+        }
+        if (shift.status !== 'OPEN') {
+          throw { code: 'BIZ_SHIFT_NOT_OPEN', message: 'Price changes can only be recorded on an open shift', statusCode: 409 };
+        }
+
+        const recorded = await recordShiftPriceChange(tx, id, changeId, readings, userId);
+
+        await auditLog(tx, userId, 'SHIFT_PRICE_CHANGE_RECORDED', 'ShiftReport', id, {
+          priceChangeId: changeId,
+          fuelType: recorded.fuelType,
+          unitPrice: Number(recorded.unitPrice),
+          readings,
+        });
+
+        return recorded;
+      });
+
+      return sendSuccess(res, { data: change });
+    } catch (error: any) {
+      return sendBusinessError(res, error, 'Failed to record price change readings');
+    }
+  },
+);
+
 export default router;
@@ -4,7 +4,7 @@ import { sendError, sendSuccess, sendPaginated } from '../lib/response';
 import { validate } from '../middleware/validate';
 import { requireAuth } from '../middleware/auth';
 import { requireRole } from '../middleware/rbac';
-import { UserRole } from '@alcom/shared';
+import { UserRole, CASH_DEPOSIT_MAX_DAYS, WET_STOCK_LOSS_THRESHOLD_PERCENT } from '@alcom/shared';
 import {
   createStationSchema,
   updateStationSchema,
@@ -12,8 +12,12 @@ import {
   createTankSchema,
   updateTankSchema,
   createPumpSchema,
+  tankCalibrationSchema,
 } from '@alcom/shared/src/schemas/station.schema';
+import { paymentMethodsSchema, shiftPatternsSchema } from '@alcom/shared/src/schemas/shift.schema';
 import { z } from 'zod';
+import { getShiftPatterns } from '../services/shift-pattern.service';
+import { getPaymentMethods } from '../services/payment-method.service';
 
 const router = Router();
 
@@ -63,6 +67,7 @@ router.get('/', validate(stationListFiltersSchema, 'query'), async (req, res) =>
               users: true,
             },
           },
+          priceZone: { select: { id: true, code: true, name: true } },
         },
       }),
       prisma.station.count({ where }),
@@ -82,7 +87,11 @@ router.get('/:id', async (req, res) => {
     const station = await prisma.station.findUnique({
       where: { id },
       include: {
-        tanks: { where: { deletedAt: null }, orderBy: { fuelType: 'asc' } },
+        tanks: {
+          where: { deletedAt: null },
+          orderBy: { fuelType: 'asc' },
+          include: { _count: { select: { calibrationPoints: true } } },
+        },
         pumps: {
           where: { deletedAt: null },
           include: {
@@ -95,6 +104,7 @@ router.get('/:id', async (req, res) => {
           where: { deletedAt: null, isActive: true },
           select: { id: true, fullName: true, email: true, role: true },
         },
+        priceZone: { select: { id: true, code: true, name: true } },
       },
     });
 
@@ -117,17 +127,21 @@ router.get('/:id', async (req, res) => {
 // ─── CREATE STATION ───
 router.post('/', requireRole(UserRole.SUPER_ADMIN), validate(createStationSchema), async (req, res) => {
   try {
-    const { code, name, settings, tanks, pumps } = req.body;
+    const { code, name, settings, tanks, pumps, priceZoneId } = req.body;
 
     const existing = await prisma.station.findUnique({ where: { code } });
     if (existing) {
       return sendError(res, { code: 'CONFLICT', message: 'Station code already exists', statusCode: 409 });
     }
 
+    if (priceZoneId && !(await prisma.priceZone.findUnique({ where: { id: priceZoneId } }))) {
+      return sendError(res, { code: 'BIZ_INVALID_PRICE_ZONE', message: 'Price zone not found', statusCode: 400 });
+    }
+
     if (tanks?.length || pumps?.length) {
       const station = await prisma.$transaction(async (tx) => {
         const newStation = await tx.station.create({
-          data: { code, name, settings: settings || {} },
+          data: { code, name, settings: settings || {}, priceZoneId },
         });
 
         const createdTanks: Record<string, string> = {};
@@ -171,7 +185,7 @@ router.post('/', requireRole(UserRole.SUPER_ADMIN), validate(createStationSchema
     }
 
     const station = await prisma.station.create({
-      data: { code, name, settings: settings || {} },
+      data: { code, name, settings: settings || {}, priceZoneId },
     });
     sendSuccess(res, { data: station, statusCode: 201 });
   } catch (error: any) {
@@ -193,6 +207,10 @@ router.put('/:id', requireRole(UserRole.SUPER_ADMIN), validate(updateStationSche
       return sendError(res, { code: 'NOT_FOUND', message: 'Station not found', statusCode: 404 });
     }
 
+    if (data.priceZoneId && !(await prisma.priceZone.findUnique({ where: { id: data.priceZoneId } }))) {
+      return sendError(res, { code: 'BIZ_INVALID_PRICE_ZONE', message: 'Price zone not found', statusCode: 400 });
+    }
+
     const updateData: any = { ...data };
     if (data.settings) {
       const current = (station.settings as any) || {};
@@ -201,6 +219,8 @@ router.put('/:id', requireRole(UserRole.SUPER_ADMIN), validate(updateStationSche
         ...data.settings,
         tolerance: { ...(current.tolerance || {}), ...(data.settings.tolerance || {}) },
         openingHours: { ...(current.openingHours || {}), ...(data.settings.openingHours || {}) },
+        cashDeposit: { ...(current.cashDeposit || {}), ...(data.settings.cashDeposit || {}) },
+        wetStock: { ...(current.wetStock || {}), ...(data.settings.wetStock || {}) },
       };
     }
 
@@ -327,6 +347,99 @@ router.delete('/:stationId/tanks/:tankId', requireRole(UserRole.SUPER_ADMIN), as
   }
 });
 
+// ─── TANK CALIBRATION (strapping chart: height cm → volume L) ───
+
+router.get('/:stationId/tanks/:tankId/calibration', async (req, res) => {
+  try {
+    const stationId = req.params.stationId as string;
+    const tankId = req.params.tankId as string;
+
+    const tank = await prisma.tank.findFirst({ where: { id: tankId, stationId, deletedAt: null } });
+    if (!tank) {
+      return sendError(res, { code: 'NOT_FOUND', message: 'Tank not found', statusCode: 404 });
+    }
+
+    const points = await prisma.tankCalibrationPoint.findMany({
+      where: { tankId },
+      orderBy: { height: 'asc' },
+    });
+    sendSuccess(res, { data: points });
+  } catch (error) {
+    sendError(res, { code: 'INTERNAL_ERROR', message: 'Failed to get calibration chart', statusCode: 500 });
+  }
+});
+
+router.put('/:stationId/tanks/:tankId/calibration', requireRole(UserRole.SUPER_ADMIN, UserRole.DCO), validate(tankCalibrationSchema), async (req, res) => {
+  try {
+    const stationId = req.params.stationId as string;
+    const tankId = req.params.tankId as string;
+    const { points } = req.body as { points: { height: number; volume: number }[] };
+
+    const tank = await prisma.tank.findFirst({ where: { id: tankId, stationId, deletedAt: null } });
+    if (!tank) {
+      return sendError(res, { code: 'NOT_FOUND', message: 'Tank not found', statusCode: 404 });
+    }
+
+    const maxVolume = Math.max(...points.map((p) => p.volume));
+    if (maxVolume > Number(tank.capacity)) {
+      return sendError(res, {
+        code: 'VALIDATION_ERROR',
+        message: `Calibration volume (${maxVolume}L) exceeds tank capacity (${Number(tank.capacity)}L)`,
+        statusCode: 400,
+      });
+    }
+
+    // Replace the whole chart
+    const saved = await prisma.$transaction(async (tx) => {
+      await tx.tankCalibrationPoint.deleteMany({ where: { tankId } });
+      await tx.tankCalibrationPoint.createMany({
+        data: points.map((p) => ({ tankId, height: p.height, volume: p.volume })),
+      });
+      await tx.auditLog.create({
+        data: {
+          userId: req.user!.userId,
+          action: 'TANK_CALIBRATION_UPDATED',
+          entityType: 'Tank',
+          entityId: tankId,
+          changes: { pointCount: points.length },
+        },
+      });
+      return tx.tankCalibrationPoint.findMany({ where: { tankId }, orderBy: { height: 'asc' } });
+    });
+
+    sendSuccess(res, { data: saved });
+  } catch (error) {
+    sendError(res, { code: 'INTERNAL_ERROR', message: 'Failed to save calibration chart', statusCode: 500 });
+  }
+});
+
+router.delete('/:stationId/tanks/:tankId/calibration', requireRole(UserRole.SUPER_ADMIN, UserRole.DCO), async (req, res) => {
+  try {
+    const stationId = req.params.stationId as string;
+    const tankId = req.params.tankId as string;
+
+    const tank = await prisma.tank.findFirst({ where: { id: tankId, stationId, deletedAt: null } });
+    if (!tank) {
+      return sendError(res, { code: 'NOT_FOUND', message: 'Tank not found', statusCode: 404 });
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await tx.tankCalibrationPoint.deleteMany({ where: { tankId } });
+      await tx.auditLog.create({
+        data: {
+          userId: req.user!.userId,
+          action: 'TANK_CALIBRATION_DELETED',
+          entityType: 'Tank',
+          entityId: tankId,
+        },
+      });
+    });
+    sendSuccess(res, { data: { message: 'Calibration chart deleted successfully' } });
+  } catch (error) {
+    sendError(res, { code: 'INTERNAL_ERROR', message: 'Failed to delete calibration chart', statusCode: 500 });
+  }
+});
+
 // ═══════════════════════════════════════════════════════════
 // ─── PUMP CRUD ───
 // ═══════════════════════════════════════════════════════════
@@ -548,6 +661,14 @@ const updateSettingsSchema = z.object({
     morning: z.string().regex(/^\d{2}:\d{2}$/, 'Format HH:MM required').optional(),
     evening: z.string().regex(/^\d{2}:\d{2}$/, 'Format HH:MM required').optional(),
   }).optional(),
+  cashDeposit: z.object({
+    maxUndepositedDays: z.number().int().positive().optional(),
+  }).optional(),
+  wetStock: z.object({
+    lossThresholdPercent: z.number().positive().max(1).optional(),
+  }).optional(),
+  shiftPatterns: shiftPatternsSchema.optional(),
+  paymentMethods: paymentMethodsSchema.optional(),
 });
 
 router.get('/:stationId/settings', async (req, res) => {
@@ -566,6 +687,10 @@ router.get('/:stationId/settings', async (req, res) => {
     const settings = {
       tolerance: { cashVariance: 5000, stockVariance: 50, ...(current.tolerance || {}) },
       openingHours: { morning: '06:00', evening: '18:00', ...(current.openingHours || {}) },
+      cashDeposit: { maxUndepositedDays: CASH_DEPOSIT_MAX_DAYS, ...(current.cashDeposit || {}) },
+      wetStock: { lossThresholdPercent: WET_STOCK_LOSS_THRESHOLD_PERCENT, ...(current.wetStock || {}) },
+      shiftPatterns: getShiftPatterns(current),
+      paymentMethods: getPaymentMethods(current),
     };
 
     sendSuccess(res, { data: { id: station.id, code: station.code, name: station.name, settings } });
@@ -595,6 +720,10 @@ router.put('/:stationId/settings', requireRole(UserRole.SUPER_ADMIN, UserRole.ST
       ...current,
       tolerance: { ...(current.tolerance || {}), ...(newSettings.tolerance || {}) },
       openingHours: { ...(current.openingHours || {}), ...(newSettings.openingHours || {}) },
+      cashDeposit: { ...(current.cashDeposit || {}), ...(newSettings.cashDeposit || {}) },
+      wetStock: { ...(current.wetStock || {}), ...(newSettings.wetStock || {}) },
+      shiftPatterns: newSettings.shiftPatterns ?? current.shiftPatterns,
+      paymentMethods: newSettings.paymentMethods ?? current.paymentMethods,
     };
 
     const updated = await prisma.station.update({
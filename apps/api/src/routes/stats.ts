@@ -7,6 +7,12 @@ import { requireAuth } from '../middleware/auth';
 import { requireRole } from '../middleware/rbac';
 import { UserRole } from '@alcom/shared';
 import logger from '../lib/logger';
+import { getUndepositedBalances } from '../services/cash-deposit.service';
+import { getTankReconciliation } from '../services/wet-stock.service';
+import { findLowProductStocks } from '../services/product-stock.service';
+import { getShiftPatterns } from '../services/shift-pattern.service';
+import { paymentMethodName } from '../services/payment-method.service';
+import { CLOSED_SHIFT_STATUSES } from '../services/period.service';
 
 const router = Router();
 
@@ -54,6 +60,35 @@ function daysAgo(n: number): Date {
   return d;
 }
 
+/**
+ * Amounts collected per tender (cash, card, then each other payment method)
+ * over the closed shifts matching `where`.
+ */
+async function getPaymentBreakdown(where: Prisma.ShiftReportWhereInput, settings?: unknown) {
+  const [totals, payments] = await Promise.all([
+    prisma.shiftReport.aggregate({
+      where: { ...where, status: { in: CLOSED_SHIFT_STATUSES } },
+      _sum: { cashCounted: true, cardAmount: true },
+    }),
+    prisma.shiftPayment.groupBy({
+      by: ['method'],
+      where: { shiftReport: { ...where, status: { in: CLOSED_SHIFT_STATUSES } } },
+      _sum: { amount: true },
+      orderBy: { method: 'asc' },
+    }),
+  ]);
+
+  return [
+    { method: 'CASH', name: 'Espèces', amount: Number(totals._sum.cashCounted || 0) },
+    { method: 'CARD', name: 'Carte bancaire', amount: Number(totals._sum.cardAmount || 0) },
+    ...payments.map((p) => ({
+      method: p.method,
+      name: paymentMethodName(settings, p.method),
+      amount: Number(p._sum.amount || 0),
+    })),
+  ];
+}
+
 // ══════════════════════════════════════════════════════════════════
 //  GET /stats/dashboard — role-aware main dashboard endpoint
 // ══════════════════════════════════════════════════════════════════
@@ -112,15 +147,19 @@ async function getManagerDashboard(stationId: string) {
     tankLevels,
     pendingExpensesCount,
     openIncidentsCount,
+    undepositedBalances,
+    station,
+    todayShifts,
+    lowProductStocks,
   ] = await Promise.all([
-    // Today's revenue
+    // Today's revenue (of which shop sales)
     prisma.shiftReport.aggregate({
       where: {
         stationId,
         shiftDate: { gte: today },
-        status: 'CLOSED',
+        status: { in: CLOSED_SHIFT_STATUSES },
       },
-      _sum: { totalRevenue: true },
+      _sum: { totalRevenue: true, shopRevenue: true },
     }),
 
     // Yesterday's revenue
@@ -128,7 +167,7 @@ async function getManagerDashboard(stationId: string) {
       where: {
         stationId,
         shiftDate: { gte: yesterday, lt: today },
-        status: 'CLOSED',
+        status: { in: CLOSED_SHIFT_STATUSES },
       },
       _sum: { totalRevenue: true },
     }),
@@ -151,7 +190,7 @@ async function getManagerDashboard(stationId: string) {
       where: {
         stationId,
         shiftDate: { gte: sevenDaysAgo },
-        status: 'CLOSED',
+        status: { in: CLOSED_SHIFT_STATUSES },
       },
       select: {
         shiftDate: true,
@@ -188,8 +227,26 @@ async function getManagerDashboard(stationId: string) {
         status: { in: ['OPEN', 'IN_PROGRESS'] },
       },
     }),
+
+    // Cash not yet deposited at the bank
+    getUndepositedBalances(prisma, [stationId]),
+
+    // Shift patterns and today's shifts
+    prisma.station.findUnique({ where: { id: stationId }, select: { settings: true } }),
+    prisma.shiftReport.findMany({
+      where: { stationId, shiftDate: { gte: today, lte: endOfDay(now) } },
+      select: { id: true, shiftType: true, status: true },
+    }),
+
+    // Shop products at or below their reorder level
+    findLowProductStocks(prisma, [stationId]),
   ]);
 
+  const paymentBreakdown = await getPaymentBreakdown(
+    { stationId, shiftDate: { gte: today } },
+    station?.settings,
+  );
+
   const todayRevenue = new Decimal(todayRevenueResult._sum.totalRevenue?.toString() || '0');
   const yesterdayRevenue = new Decimal(yesterdayRevenueResult._sum.totalRevenue?.toString() || '0');
 
@@ -207,6 +264,7 @@ async function getManagerDashboard(stationId: string) {
   return {
     type: 'manager' as const,
     todayRevenue: todayRevenue.toNumber(),
+    todayShopRevenue: Number(todayRevenueResult._sum.shopRevenue || 0),
     yesterdayRevenue: yesterdayRevenue.toNumber(),
     revenueChangePercent: revenueChange,
     openShifts: openShiftsCount,
@@ -228,6 +286,13 @@ async function getManagerDashboard(stationId: string) {
     })),
     pendingExpenses: pendingExpensesCount,
     openIncidents: openIncidentsCount,
+    undepositedCash: undepositedBalances[0] ?? null,
+    lowStockProducts: lowProductStocks.length,
+    todayShifts: getShiftPatterns(station?.settings).map((p) => {
+      const shift = todayShifts.find((s) => s.shiftType === p.code);
+      return { ...p, shiftId: shift?.id ?? null, status: shift?.status ?? null };
+    }),
+    paymentBreakdown,
   };
 }
 
@@ -245,21 +310,23 @@ async function getExecutiveDashboard() {
     pendingExpensesResult,
     overdueMailsCount,
     revenueTrendRaw,
+    undepositedBalances,
+    paymentBreakdown,
   ] = await Promise.all([
-    // Total monthly revenue
+    // Total monthly revenue (of which shop sales)
     prisma.shiftReport.aggregate({
       where: {
         shiftDate: { gte: monthStart },
-        status: 'CLOSED',
+        status: { in: CLOSED_SHIFT_STATUSES },
       },
-      _sum: { totalRevenue: true },
+      _sum: { totalRevenue: true, shopRevenue: true },
     }),
 
     // Total monthly variance (cash)
     prisma.shiftReport.aggregate({
       where: {
         shiftDate: { gte: monthStart },
-        status: 'CLOSED',
+        status: { in: CLOSED_SHIFT_STATUSES },
       },
       _sum: { cashVariance: true },
       _count: { _all: true },
@@ -270,7 +337,7 @@ async function getExecutiveDashboard() {
       by: ['stationId'],
       where: {
         shiftDate: { gte: monthStart },
-        status: 'CLOSED',
+        status: { in: CLOSED_SHIFT_STATUSES },
       },
       _sum: { totalRevenue: true, cashVariance: true },
     }),
@@ -299,11 +366,17 @@ async function getExecutiveDashboard() {
       by: ['shiftDate'],
       where: {
         shiftDate: { gte: thirtyDaysAgo },
-        status: 'CLOSED',
+        status: { in: CLOSED_SHIFT_STATUSES },
       },
       _sum: { totalRevenue: true },
       orderBy: { shiftDate: 'asc' },
     }),
+
+    // Cash not yet deposited at the bank, per station
+    getUndepositedBalances(prisma),
+
+    // Revenue collected per tender (current month)
+    getPaymentBreakdown({ shiftDate: { gte: monthStart } }),
   ]);
 
   // Fetch station names for the ranking
@@ -341,6 +414,7 @@ async function getExecutiveDashboard() {
   return {
     type: 'executive' as const,
     totalRevenue: totalRevenue.toNumber(),
+    shopRevenue: Number(monthRevenueResult._sum.shopRevenue || 0),
     revenueTarget: 0, // Target can be configured later
     revenueVsTargetPercent: 0,
     totalVariance: totalVariance.toNumber(),
@@ -360,6 +434,9 @@ async function getExecutiveDashboard() {
       date: r.shiftDate,
       revenue: Number(r._sum.totalRevenue || 0),
     })),
+    undepositedCash: undepositedBalances.reduce((sum, b) => sum + b.amount, 0),
+    undepositedByStation: undepositedBalances.filter((b) => b.amount > 0),
+    paymentBreakdown,
   };
 }
 
@@ -378,7 +455,7 @@ router.get(
 
       const where: Prisma.ShiftReportWhereInput = {
         shiftDate: { gte: since },
-        status: 'CLOSED',
+        status: { in: CLOSED_SHIFT_STATUSES },
       };
 
       // Apply station scoping
@@ -479,7 +556,7 @@ router.get(
 
       const where: Prisma.ShiftReportWhereInput = {
         shiftDate: { gte: startDate, lte: endDate },
-        status: 'CLOSED',
+        status: { in: CLOSED_SHIFT_STATUSES },
       };
 
       if (stationId) {
@@ -522,6 +599,166 @@ router.get(
   },
 );
 
+// ══════════════════════════════════════════════════════════════════
+//  GET /stats/attendant-variance — cash variance per attendant over closed shifts
+// ══════════════════════════════════════════════════════════════════
+router.get(
+  '/attendant-variance',
+  requireAuth,
+  requireRole(...ALL_DASHBOARD_ROLES),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const stationId = req.query.stationId as string | undefined;
+      const startDate = req.query.startDate
+        ? new Date(req.query.startDate as string)
+        : daysAgo(30);
+      const endDate = req.query.endDate
+        ? endOfDay(new Date(req.query.endDate as string))
+        : endOfDay(new Date());
+
+      const shiftWhere: Prisma.ShiftReportWhereInput = {
+        shiftDate: { gte: startDate, lte: endDate },
+        status: { in: CLOSED_SHIFT_STATUSES },
+      };
+
+      if (!EXECUTIVE_ROLES.includes(req.user!.role as any)) {
+        shiftWhere.stationId = req.user!.stationId || 'none';
+      } else if (stationId) {
+        shiftWhere.stationId = stationId;
+      }
+
+      const rows = await prisma.shiftAttendant.findMany({
+        where: { shiftReport: shiftWhere },
+        select: {
+          volumeSold: true,
+          revenue: true,
+          cashDeclared: true,
+          theoreticalCash: true,
+          cashVariance: true,
+          attendant: { select: { id: true, fullName: true } },
+          shiftReport: { select: { station: { select: { code: true, name: true } } } },
+        },
+      });
+
+      const byAttendant = new Map<
+        string,
+        {
+          attendantId: string;
+          fullName: string;
+          stations: Set<string>;
+          shiftCount: number;
+          shortageCount: number;
+          volumeSold: Decimal;
+          revenue: Decimal;
+          cashDeclared: Decimal;
+          theoreticalCash: Decimal;
+          cashVariance: Decimal;
+        }
+      >();
+
+      for (const row of rows) {
+        const entry = byAttendant.get(row.attendant.id) ?? {
+          attendantId: row.attendant.id,
+          fullName: row.attendant.fullName,
+          stations: new Set<string>(),
+          shiftCount: 0,
+          shortageCount: 0,
+          volumeSold: new Decimal(0),
+          revenue: new Decimal(0),
+          cashDeclared: new Decimal(0),
+          theoreticalCash: new Decimal(0),
+          cashVariance: new Decimal(0),
+        };
+        entry.stations.add(row.shiftReport.station.name);
+        entry.shiftCount += 1;
+        if (Number(row.cashVariance) < 0) entry.shortageCount += 1;
+        entry.volumeSold = entry.volumeSold.plus(row.volumeSold.toString());
+        entry.revenue = entry.revenue.plus(row.revenue.toString());
+        entry.cashDeclared = entry.cashDeclared.plus(row.cashDeclared.toString());
+        entry.theoreticalCash = entry.theoreticalCash.plus(row.theoreticalCash.toString());
+        entry.cashVariance = entry.cashVariance.plus(row.cashVariance.toString());
+        byAttendant.set(row.attendant.id, entry);
+      }
+
+      // Largest shortages first
+      const data = [...byAttendant.values()]
+        .sort((a, b) => a.cashVariance.comparedTo(b.cashVariance))
+        .map((e) => ({
+          attendantId: e.attendantId,
+          fullName: e.fullName,
+          stations: [...e.stations],
+          shiftCount: e.shiftCount,
+          shortageCount: e.shortageCount,
+          volumeSold: e.volumeSold.toNumber(),
+          revenue: e.revenue.toNumber(),
+          cashDeclared: e.cashDeclared.toNumber(),
+          theoreticalCash: e.theoreticalCash.toNumber(),
+          cashVariance: e.cashVariance.toNumber(),
+        }));
+
+      sendSuccess(res, { data });
+    } catch (error) {
+      logger.error(`Attendant variance report error: ${error}`);
+      sendError(res, {
+        code: 'STATS_ERROR',
+        message: 'Failed to load attendant variance report',
+        statusCode: 500,
+      });
+    }
+  },
+);
+
+// ══════════════════════════════════════════════════════════════════
+//  GET /stats/wet-stock — cumulative reconciliation and leak check per tank
+// ══════════════════════════════════════════════════════════════════
+router.get(
+  '/wet-stock',
+  requireAuth,
+  requireRole(...ALL_DASHBOARD_ROLES),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const stationId = req.query.stationId as string | undefined;
+      const tankId = req.query.tankId as string | undefined;
+      const startDate = req.query.startDate
+        ? new Date(req.query.startDate as string)
+        : daysAgo(30);
+      const endDate = req.query.endDate
+        ? endOfDay(new Date(req.query.endDate as string))
+        : endOfDay(new Date());
+
+      let stationIds: string[] | undefined;
+      if (!EXECUTIVE_ROLES.includes(req.user!.role as any)) {
+        stationIds = [req.user!.stationId || 'none'];
+      } else if (stationId) {
+        stationIds = [stationId];
+      }
+
+      const tanks = await getTankReconciliation(prisma, {
+        stationIds,
+        tankId,
+        from: startDate,
+        to: endDate,
+      });
+
+      sendSuccess(res, {
+        data: {
+          from: startDate,
+          to: endDate,
+          leakSuspects: tanks.filter((t) => t.leakSuspected).length,
+          tanks,
+        },
+      });
+    } catch (error) {
+      logger.error(`Wet-stock report error: ${error}`);
+      sendError(res, {
+        code: 'STATS_ERROR',
+        message: 'Failed to load wet-stock reconciliation',
+        statusCode: 500,
+      });
+    }
+  },
+);
+
 // ══════════════════════════════════════════════════════════════════
 //  GET /stats/checklist-scores — daily checklist scores line chart
 // ══════════════════════════════════════════════════════════════════
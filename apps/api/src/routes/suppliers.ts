@@ -22,7 +22,17 @@ router.use(requireAuth);
 // ═══════════════════════════════════════════════════════════════════
 router.get(
   '/',
-  requireRole(UserRole.FINANCE_DIR, UserRole.CFO, UserRole.CEO, UserRole.SUPER_ADMIN, UserRole.LOGISTICS, UserRole.DCO),
+  // Station staff pick the supplier when receiving shop products
+  requireRole(
+    UserRole.FINANCE_DIR,
+    UserRole.CFO,
+    UserRole.CEO,
+    UserRole.SUPER_ADMIN,
+    UserRole.LOGISTICS,
+    UserRole.DCO,
+    UserRole.STATION_MANAGER,
+    UserRole.CHEF_PISTE,
+  ),
   validateQuery(supplierListFiltersSchema),
   async (req: Request, res: Response) => {
     try {
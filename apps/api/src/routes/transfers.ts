@@ -0,0 +1,424 @@
+import { Router, Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
+import Decimal from 'decimal.js';
+import prisma from '../lib/prisma';
+import { sendSuccess, sendError, sendPaginated, getParam, sendBusinessError } from '../lib/response';
+import { validate, validateQuery } from '../middleware/validate';
+import { requireAuth } from '../middleware/auth';
+import { requireRole } from '../middleware/rbac';
+import {
+  UserRole,
+  createFuelTransferSchema,
+  rejectFuelTransferSchema,
+  recordTransferDipsSchema,
+  fuelTransferFiltersSchema,
+} from '@alcom/shared';
+import logger from '../lib/logger';
+import { dispatchTransfer, receiveTransfer } from '../services/fuel-transfer.service';
+
+const router: Router = Router();
+
+router.use(requireAuth);
+
+const TRANSFER_ROLES = [UserRole.STATION_MANAGER, UserRole.LOGISTICS, UserRole.DCO, UserRole.SUPER_ADMIN];
+
+const REVIEW_ROLES = [UserRole.LOGISTICS, UserRole.DCO, UserRole.SUPER_ADMIN];
+
+const tankSelect = { select: { id: true, fuelType: true, capacity: true, currentLevel: true } };
+const stationSelect = { select: { id: true, code: true, name: true } };
+const userSelect = { select: { id: true, fullName: true } };
+
+const transferInclude = {
+  sourceTank: tankSelect,
+  destinationTank: tankSelect,
+  sourceStation: stationSelect,
+  destinationStation: stationSelect,
+  requestedBy: userSelect,
+  reviewedBy: userSelect,
+  dispatchedBy: userSelect,
+  receivedBy: userSelect,
+};
+
+/**
+ * Station managers only act on transfers leaving or entering their own station.
+ */
+function canAccessStation(req: Request, stationId: string): boolean {
+  return req.user!.role !== UserRole.STATION_MANAGER || req.user!.stationId === stationId;
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// GET /transfers — List fuel transfers (paginated)
+// ═══════════════════════════════════════════════════════════════════
+router.get(
+  '/',
+  requireRole(...TRANSFER_ROLES),
+  validateQuery(fuelTransferFiltersSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const query = req.query as Record<string, any>;
+      const page = Number(query.page) || 1;
+      const limit = Number(query.limit) || 20;
+
+      const stationId = req.user!.role === UserRole.STATION_MANAGER ? req.user!.stationId || 'none' : query.stationId;
+      const where: Prisma.FuelTransferWhereInput = {
+        ...(stationId && { OR: [{ sourceStationId: stationId }, { destinationStationId: stationId }] }),
+        ...(query.status && { status: query.status }),
+      };
+
+      const [transfers, total] = await Promise.all([
+        prisma.fuelTransfer.findMany({
+          where,
+          include: transferInclude,
+          orderBy: { createdAt: 'desc' },
+          skip: (page - 1) * limit,
+          take: limit,
+        }),
+        prisma.fuelTransfer.count({ where }),
+      ]);
+
+      sendPaginated(res, transfers, total, page, limit);
+    } catch (error) {
+      logger.error(`Error listing fuel transfers: ${error}`);
+      sendError(res, { code: 'INTERNAL_ERROR', message: 'Failed to fetch fuel transfers', statusCode: 500 });
+    }
+  },
+);
+
+// ═══════════════════════════════════════════════════════════════════
+// GET /transfers/:id — Fuel transfer detail
+// ═══════════════════════════════════════════════════════════════════
+router.get('/:id', requireRole(...TRANSFER_ROLES), async (req: Request, res: Response) => {
+  try {
+    const transfer = await prisma.fuelTransfer.findUnique({
+      where: { id: getParam(req, 'id') },
+      include: transferInclude,
+    });
+    if (
+      !transfer ||
+      (!canAccessStation(req, transfer.sourceStationId) && !canAccessStation(req, transfer.destinationStationId))
+    ) {
+      sendError(res, { code: 'NOT_FOUND', message: 'Fuel transfer not found', statusCode: 404 });
+      return;
+    }
+
+    sendSuccess(res, { data: transfer });
+  } catch (error) {
+    logger.error(`Error fetching fuel transfer: ${error}`);
+    sendError(res, { code: 'INTERNAL_ERROR', message: 'Failed to fetch fuel transfer', statusCode: 500 });
+  }
+});
+
+// ═══════════════════════════════════════════════════════════════════
+// POST /transfers — Request a transfer between two tanks of the same fuel type
+// ═══════════════════════════════════════════════════════════════════
+router.post(
+  '/',
+  requireRole(...TRANSFER_ROLES),
+  validate(createFuelTransferSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const { sourceTankId, destinationTankId, requestedVolume, reason, truckPlate } = req.body;
+
+      const [source, destination] = await Promise.all([
+        prisma.tank.findFirst({ where: { id: sourceTankId, deletedAt: null } }),
+        prisma.tank.findFirst({ where: { id: destinationTankId, deletedAt: null } }),
+      ]);
+      if (!source || !destination) {
+        sendError(res, { code: 'NOT_FOUND', message: 'Tank not found', statusCode: 404 });
+        return;
+      }
+
+      if (!canAccessStation(req, source.stationId) && !canAccessStation(req, destination.stationId)) {
+        sendError(res, { code: 'FORBIDDEN', message: 'Access denied to these tanks', statusCode: 403 });
+        return;
+      }
+
+      if (source.fuelType !== destination.fuelType) {
+        sendError(res, {
+          code: 'BIZ_FUEL_TYPE_MISMATCH',
+          message: `Cannot transfer ${source.fuelType} into a ${destination.fuelType} tank`,
+          statusCode: 400,
+        });
+        return;
+      }
+
+      if (new Decimal(requestedVolume).gt(source.currentLevel.toString())) {
+        sendError(res, {
+          code: 'BIZ_INSUFFICIENT_STOCK',
+          message: `Source tank holds only ${Number(source.currentLevel).toFixed(2)}L`,
+          statusCode: 400,
+        });
+        return;
+      }
+
+      const ullage = new Decimal(destination.capacity.toString()).minus(destination.currentLevel.toString());
+      if (new Decimal(requestedVolume).gt(ullage)) {
+        sendError(res, {
+          code: 'BIZ_ULLAGE_EXCEEDED',
+          message: `Requested ${requestedVolume}L but destination ullage is only ${ullage.toFixed(2)}L`,
+          statusCode: 400,
+        });
+        return;
+      }
+
+      const transfer = await prisma.$transaction(async (tx) => {
+        const created = await tx.fuelTransfer.create({
+          data: {
+            sourceTankId,
+            destinationTankId,
+            sourceStationId: source.stationId,
+            destinationStationId: destination.stationId,
+            fuelType: source.fuelType,
+            requestedVolume,
+            reason,
+            truckPlate,
+            requestedById: req.user!.userId,
+          },
+          include: transferInclude,
+        });
+
+        await tx.auditLog.create({
+          data: {
+            userId: req.user!.userId,
+            action: 'FUEL_TRANSFER_REQUESTED',
+            entityType: 'FuelTransfer',
+            entityId: created.id,
+            changes: { sourceTankId, destinationTankId, requestedVolume, reason },
+          },
+        });
+
+        return created;
+      });
+
+      sendSuccess(res, { data: transfer, statusCode: 201 });
+    } catch (error) {
+      logger.error(`Error requesting fuel transfer: ${error}`);
+      sendError(res, { code: 'INTERNAL_ERROR', message: 'Failed to request fuel transfer', statusCode: 500 });
+    }
+  },
+);
+
+// ═══════════════════════════════════════════════════════════════════
+// PUT /transfers/:id/approve — Approve a requested transfer (DCO / Logistics)
+// ═══════════════════════════════════════════════════════════════════
+router.put('/:id/approve', requireRole(...REVIEW_ROLES), async (req: Request, res: Response) => {
+  try {
+    const id = getParam(req, 'id');
+    const transfer = await prisma.fuelTransfer.findUnique({ where: { id } });
+    if (!transfer) {
+      sendError(res, { code: 'NOT_FOUND', message: 'Fuel transfer not found', statusCode: 404 });
+      return;
+    }
+    if (transfer.status !== 'PENDING_APPROVAL') {
+      sendError(res, {
+        code: 'BIZ_INVALID_STATUS',
+        message: `Transfer is already ${transfer.status.toLowerCase()}`,
+        statusCode: 400,
+      });
+      return;
+    }
+
+    // 4-eyes principle: requester != approver
+    if (transfer.requestedById === req.user!.userId) {
+      sendError(res, {
+        code: 'BIZ_SELF_APPROVAL',
+        message: 'Cannot approve your own transfer request (4-eyes principle)',
+        statusCode: 403,
+      });
+      return;
+    }
+
+    const updated = await prisma.$transaction(async (tx) => {
+      const approved = await tx.fuelTransfer.update({
+        where: { id },
+        data: { status: 'APPROVED', reviewedById: req.user!.userId, reviewedAt: new Date() },
+        include: transferInclude,
+      });
+
+      await tx.auditLog.create({
+        data: {
+          userId: req.user!.userId,
+          action: 'FUEL_TRANSFER_APPROVED',
+          entityType: 'FuelTransfer',
+          entityId: id,
+          changes: { status: { from: transfer.status, to: 'APPROVED' } },
+        },
+      });
+
+      return approved;
+    });
+
+    sendSuccess(res, { data: updated });
+  } catch (error) {
+    logger.error(`Error approving fuel transfer: ${error}`);
+    sendError(res, { code: 'INTERNAL_ERROR', message: 'Failed to approve fuel transfer', statusCode: 500 });
+  }
+});
+
+// ═══════════════════════════════════════════════════════════════════
+// PUT /transfers/:id/reject — Reject a requested transfer (DCO / Logistics)
+// ═══════════════════════════════════════════════════════════════════
+router.put(
+  '/:id/reject',
+  requireRole(...REVIEW_ROLES),
+  validate(rejectFuelTransferSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const id = getParam(req, 'id');
+      const transfer = await prisma.fuelTransfer.findUnique({ where: { id } });
+      if (!transfer) {
+        sendError(res, { code: 'NOT_FOUND', message: 'Fuel transfer not found', statusCode: 404 });
+        return;
+      }
+      if (transfer.status !== 'PENDING_APPROVAL') {
+        sendError(res, {
+          code: 'BIZ_INVALID_STATUS',
+          message: `Transfer is already ${transfer.status.toLowerCase()}`,
+          statusCode: 400,
+        });
+        return;
+      }
+
+      const updated = await prisma.$transaction(async (tx) => {
+        const rejected = await tx.fuelTransfer.update({
+          where: { id },
+          data: {
+            status: 'REJECTED',
+            reviewedById: req.user!.userId,
+            reviewedAt: new Date(),
+            rejectionReason: req.body.reason,
+          },
+          include: transferInclude,
+        });
+
+        await tx.auditLog.create({
+          data: {
+            userId: req.user!.userId,
+            action: 'FUEL_TRANSFER_REJECTED',
+            entityType: 'FuelTransfer',
+            entityId: id,
+            changes: { status: { from: transfer.status, to: 'REJECTED' }, reason: req.body.reason },
+          },
+        });
+
+        return rejected;
+      });
+
+      sendSuccess(res, { data: updated });
+    } catch (error) {
+      logger.error(`Error rejecting fuel transfer: ${error}`);
+      sendError(res, { code: 'INTERNAL_ERROR', message: 'Failed to reject fuel transfer', statusCode: 500 });
+    }
+  },
+);
+
+// ═══════════════════════════════════════════════════════════════════
+// PUT /transfers/:id/dispatch — Record source dips, take the volume out of the source tank
+// ═══════════════════════════════════════════════════════════════════
+router.put(
+  '/:id/dispatch',
+  requireRole(...TRANSFER_ROLES),
+  validate(recordTransferDipsSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const id = getParam(req, 'id');
+      const transfer = await prisma.fuelTransfer.findUnique({ where: { id } });
+      if (!transfer) {
+        sendError(res, { code: 'NOT_FOUND', message: 'Fuel transfer not found', statusCode: 404 });
+        return;
+      }
+      if (!canAccessStation(req, transfer.sourceStationId)) {
+        sendError(res, { code: 'FORBIDDEN', message: 'Only the source station can dispatch', statusCode: 403 });
+        return;
+      }
+      if (transfer.status !== 'APPROVED') {
+        sendError(res, {
+          code: 'BIZ_INVALID_STATUS',
+          message: 'Only approved transfers can be dispatched',
+          statusCode: 400,
+        });
+        return;
+      }
+
+      const updated = await prisma.$transaction(async (tx) => {
+        const dispatched = await dispatchTransfer(tx, transfer, req.body, req.user!.userId);
+
+        await tx.auditLog.create({
+          data: {
+            userId: req.user!.userId,
+            action: 'FUEL_TRANSFER_DISPATCHED',
+            entityType: 'FuelTransfer',
+            entityId: id,
+            changes: {
+              volumeOut: Number(dispatched.volumeOut),
+              sourceShiftReportId: dispatched.sourceShiftReportId,
+            },
+          },
+        });
+
+        return tx.fuelTransfer.findUniqueOrThrow({ where: { id }, include: transferInclude });
+      });
+
+      sendSuccess(res, { data: updated });
+    } catch (error: any) {
+      sendBusinessError(res, error, 'Failed to dispatch fuel transfer');
+    }
+  },
+);
+
+// ═══════════════════════════════════════════════════════════════════
+// PUT /transfers/:id/receive — Record destination dips, put the volume into the destination tank
+// ═══════════════════════════════════════════════════════════════════
+router.put(
+  '/:id/receive',
+  requireRole(...TRANSFER_ROLES),
+  validate(recordTransferDipsSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const id = getParam(req, 'id');
+      const transfer = await prisma.fuelTransfer.findUnique({ where: { id } });
+      if (!transfer) {
+        sendError(res, { code: 'NOT_FOUND', message: 'Fuel transfer not found', statusCode: 404 });
+        return;
+      }
+      if (!canAccessStation(req, transfer.destinationStationId)) {
+        sendError(res, { code: 'FORBIDDEN', message: 'Only the destination station can receive', statusCode: 403 });
+        return;
+      }
+      if (transfer.status !== 'IN_TRANSIT') {
+        sendError(res, {
+          code: 'BIZ_INVALID_STATUS',
+          message: 'Only dispatched transfers can be received',
+          statusCode: 400,
+        });
+        return;
+      }
+
+      const updated = await prisma.$transaction(async (tx) => {
+        const received = await receiveTransfer(tx, transfer, req.body, req.user!.userId);
+
+        await tx.auditLog.create({
+          data: {
+            userId: req.user!.userId,
+            action: 'FUEL_TRANSFER_RECEIVED',
+            entityType: 'FuelTransfer',
+            entityId: id,
+            changes: {
+              volumeIn: Number(received.volumeIn),
+              transitVariance: Number(received.transitVariance),
+              destinationShiftReportId: received.destinationShiftReportId,
+            },
+          },
+        });
+
+        return tx.fuelTransfer.findUniqueOrThrow({ where: { id }, include: transferInclude });
+      });
+
+      sendSuccess(res, { data: updated });
+    } catch (error: any) {
+      sendBusinessError(res, error, 'Failed to receive fuel transfer');
+    }
+  },
+);
+
+export default router;
@@ -0,0 +1,278 @@
+import { Router, Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
+import prisma from '../lib/prisma';
+import { sendSuccess, sendError, sendPaginated, getParam, sendBusinessError } from '../lib/response';
+import { validate, validateQuery } from '../middleware/validate';
+import { requireAuth } from '../middleware/auth';
+import { requireRole } from '../middleware/rbac';
+import {
+  UserRole,
+  planTripSchema,
+  suggestTripAllocationSchema,
+  dispatchTripSchema,
+  cancelTripSchema,
+  tripFiltersSchema,
+} from '@alcom/shared';
+import logger from '../lib/logger';
+import {
+  tripRelations,
+  planTrip,
+  replanTrip,
+  suggestTripAllocation,
+  dispatchTrip,
+  cancelTrip,
+} from '../services/trip.service';
+
+const router: Router = Router();
+
+router.use(requireAuth);
+
+// Logistics plans the trucks; supply and management follow them on the board
+const PLAN_ROLES = [UserRole.LOGISTICS, UserRole.SUPER_ADMIN];
+
+const VIEW_ROLES = [...PLAN_ROLES, UserRole.DCO, UserRole.CEO, UserRole.CFO];
+
+// Finished trips shown on the board, per column
+const BOARD_CLOSED_LIMIT = 20;
+
+// ═══════════════════════════════════════════════════════════════════
+// GET /trips — Trips with filters (paginated)
+// ═══════════════════════════════════════════════════════════════════
+router.get(
+  '/',
+  requireRole(...VIEW_ROLES),
+  validateQuery(tripFiltersSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const { status, from, to, page = 1, limit = 20 } = req.query as Record<string, any>;
+
+      const where: Prisma.DeliveryTripWhereInput = {};
+      if (status) where.status = status;
+      if (from || to) {
+        where.plannedDate = {
+          ...(from && { gte: new Date(`${from}T00:00:00.000Z`) }),
+          ...(to && { lte: new Date(`${to}T00:00:00.000Z`) }),
+        };
+      }
+
+      const [trips, total] = await Promise.all([
+        prisma.deliveryTrip.findMany({
+          where,
+          include: tripRelations,
+          orderBy: [{ plannedDate: 'desc' }, { tripNumber: 'desc' }],
+          skip: (Number(page) - 1) * Number(limit),
+          take: Number(limit),
+        }),
+        prisma.deliveryTrip.count({ where }),
+      ]);
+
+      sendPaginated(res, trips, total, Number(page), Number(limit));
+    } catch (error) {
+      logger.error(`Error listing trips: ${error}`);
+      sendError(res, { code: 'INTERNAL_ERROR', message: 'Failed to fetch trips', statusCode: 500 });
+    }
+  },
+);
+
+// ═══════════════════════════════════════════════════════════════════
+// GET /trips/board — Trips by status: all open trips, the latest finished ones
+// ═══════════════════════════════════════════════════════════════════
+router.get('/board', requireRole(...VIEW_ROLES), async (_req: Request, res: Response) => {
+  try {
+    const [planned, dispatched, completed, cancelled] = await Promise.all([
+      prisma.deliveryTrip.findMany({
+        where: { status: 'PLANNED' },
+        include: tripRelations,
+        orderBy: [{ plannedDate: 'asc' }, { tripNumber: 'asc' }],
+      }),
+      prisma.deliveryTrip.findMany({
+        where: { status: 'DISPATCHED' },
+        include: tripRelations,
+        orderBy: { dispatchedAt: 'asc' },
+      }),
+      prisma.deliveryTrip.findMany({
+        where: { status: 'COMPLETED' },
+        include: tripRelations,
+        orderBy: { completedAt: 'desc' },
+        take: BOARD_CLOSED_LIMIT,
+      }),
+      prisma.deliveryTrip.findMany({
+        where: { status: 'CANCELLED' },
+        include: tripRelations,
+        orderBy: { cancelledAt: 'desc' },
+        take: BOARD_CLOSED_LIMIT,
+      }),
+    ]);
+
+    sendSuccess(res, { data: { PLANNED: planned, DISPATCHED: dispatched, COMPLETED: completed, CANCELLED: cancelled } });
+  } catch (error) {
+    logger.error(`Error fetching trip board: ${error}`);
+    sendError(res, { code: 'INTERNAL_ERROR', message: 'Failed to fetch trip board', statusCode: 500 });
+  }
+});
+
+// ═══════════════════════════════════════════════════════════════════
+// POST /trips/suggest — Suggested load plan for a truck and requests
+// ═══════════════════════════════════════════════════════════════════
+router.post(
+  '/suggest',
+  requireRole(...PLAN_ROLES),
+  validate(suggestTripAllocationSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const plan = await suggestTripAllocation(prisma, req.body);
+      sendSuccess(res, { data: plan });
+    } catch (error: any) {
+      sendBusinessError(res, error, 'Failed to suggest a load plan');
+    }
+  },
+);
+
+// ═══════════════════════════════════════════════════════════════════
+// POST /trips — Plan a truck trip
+// ═══════════════════════════════════════════════════════════════════
+router.post(
+  '/',
+  requireRole(...PLAN_ROLES),
+  validate(planTripSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const trip = await prisma.$transaction(async (tx) => {
+        const created = await planTrip(tx, req.body, req.user!.userId);
+        await tx.auditLog.create({
+          data: {
+            userId: req.user!.userId,
+            action: 'TRIP_PLANNED',
+            entityType: 'DeliveryTrip',
+            entityId: created.id,
+            changes: { ...req.body, tripNumber: created.tripNumber },
+          },
+        });
+        return created;
+      });
+
+      sendSuccess(res, { data: trip, statusCode: 201 });
+    } catch (error: any) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        sendError(res, { code: 'CONFLICT', message: 'A trip was planned concurrently. Please retry.', statusCode: 409 });
+        return;
+      }
+      sendBusinessError(res, error, 'Failed to plan trip');
+    }
+  },
+);
+
+// ═══════════════════════════════════════════════════════════════════
+// GET /trips/:id — Trip with its load plan and station deliveries
+// ═══════════════════════════════════════════════════════════════════
+router.get('/:id', requireRole(...VIEW_ROLES), async (req: Request, res: Response) => {
+  try {
+    const id = getParam(req, 'id');
+    const trip = await prisma.deliveryTrip.findUnique({ where: { id }, include: tripRelations });
+
+    if (!trip) {
+      sendError(res, { code: 'NOT_FOUND', message: 'Trip not found', statusCode: 404 });
+      return;
+    }
+
+    sendSuccess(res, { data: trip });
+  } catch (error) {
+    logger.error(`Error fetching trip: ${error}`);
+    sendError(res, { code: 'INTERNAL_ERROR', message: 'Failed to fetch trip', statusCode: 500 });
+  }
+});
+
+// ═══════════════════════════════════════════════════════════════════
+// PUT /trips/:id — Replan a trip that has not left
+// ═══════════════════════════════════════════════════════════════════
+router.put(
+  '/:id',
+  requireRole(...PLAN_ROLES),
+  validate(planTripSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const id = getParam(req, 'id');
+      const trip = await prisma.$transaction(async (tx) => {
+        const updated = await replanTrip(tx, id, req.body);
+        await tx.auditLog.create({
+          data: {
+            userId: req.user!.userId,
+            action: 'TRIP_REPLANNED',
+            entityType: 'DeliveryTrip',
+            entityId: id,
+            changes: req.body,
+          },
+        });
+        return updated;
+      });
+
+      sendSuccess(res, { data: trip });
+    } catch (error: any) {
+      sendBusinessError(res, error, 'Failed to replan trip');
+    }
+  },
+);
+
+// ═══════════════════════════════════════════════════════════════════
+// PUT /trips/:id/dispatch — Truck loaded: one delivery per station drop
+// ═══════════════════════════════════════════════════════════════════
+router.put(
+  '/:id/dispatch',
+  requireRole(...PLAN_ROLES),
+  validate(dispatchTripSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const id = getParam(req, 'id');
+      const trip = await prisma.$transaction(async (tx) => {
+        const dispatched = await dispatchTrip(tx, id, req.body);
+        await tx.auditLog.create({
+          data: {
+            userId: req.user!.userId,
+            action: 'TRIP_DISPATCHED',
+            entityType: 'DeliveryTrip',
+            entityId: id,
+            changes: { drops: req.body.drops, deliveryIds: dispatched.deliveries.map((d) => d.id) },
+          },
+        });
+        return dispatched;
+      });
+
+      sendSuccess(res, { data: trip });
+    } catch (error: any) {
+      sendBusinessError(res, error, 'Failed to dispatch trip');
+    }
+  },
+);
+
+// ═══════════════════════════════════════════════════════════════════
+// PUT /trips/:id/cancel — Cancel a trip that has not left
+// ═══════════════════════════════════════════════════════════════════
+router.put(
+  '/:id/cancel',
+  requireRole(...PLAN_ROLES),
+  validate(cancelTripSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const id = getParam(req, 'id');
+      const trip = await prisma.$transaction(async (tx) => {
+        const cancelled = await cancelTrip(tx, id, req.body.reason);
+        await tx.auditLog.create({
+          data: {
+            userId: req.user!.userId,
+            action: 'TRIP_CANCELLED',
+            entityType: 'DeliveryTrip',
+            entityId: id,
+            changes: { reason: req.body.reason },
+          },
+        });
+        return cancelled;
+      });
+
+      sendSuccess(res, { data: trip });
+    } catch (error: any) {
+      sendBusinessError(res, error, 'Failed to cancel trip');
+    }
+  },
+);
+
+export default router;
@@ -0,0 +1,207 @@
+import { Router, Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
+import prisma from '../lib/prisma';
+import { sendSuccess, sendError, getParam, sendBusinessError } from '../lib/response';
+import { validate, validateQuery } from '../middleware/validate';
+import { requireAuth } from '../middleware/auth';
+import { requireRole } from '../middleware/rbac';
+import { UserRole, createTruckSchema, updateTruckSchema, truckFiltersSchema } from '@alcom/shared';
+import logger from '../lib/logger';
+
+const router: Router = Router();
+
+router.use(requireAuth);
+
+const MANAGE_ROLES = [UserRole.LOGISTICS, UserRole.SUPER_ADMIN];
+
+// Station managers pick the truck when recording a delivery
+const VIEW_ROLES = [...MANAGE_ROLES, UserRole.DCO, UserRole.CEO, UserRole.CFO, UserRole.STATION_MANAGER];
+
+const truckRelations = {
+  carrier: { select: { id: true, name: true } },
+  compartments: { orderBy: { position: 'asc' as const } },
+};
+
+// ═══════════════════════════════════════════════════════════════════
+// GET /trucks — Trucks with their compartments
+// ═══════════════════════════════════════════════════════════════════
+router.get(
+  '/',
+  requireRole(...VIEW_ROLES),
+  validateQuery(truckFiltersSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const { carrierId, isActive } = req.query as Record<string, any>;
+
+      const where: Prisma.TruckWhereInput = {};
+      if (carrierId) where.carrierId = carrierId;
+      if (isActive) where.isActive = isActive === 'true';
+
+      const trucks = await prisma.truck.findMany({
+        where,
+        include: truckRelations,
+        orderBy: { plateNumber: 'asc' },
+      });
+
+      sendSuccess(res, { data: trucks });
+    } catch (error) {
+      logger.error(`Error listing trucks: ${error}`);
+      sendError(res, { code: 'INTERNAL_ERROR', message: 'Failed to fetch trucks', statusCode: 500 });
+    }
+  },
+);
+
+// ═══════════════════════════════════════════════════════════════════
+// GET /trucks/:id — Truck with its compartments and recent trips
+// ═══════════════════════════════════════════════════════════════════
+router.get('/:id', requireRole(...VIEW_ROLES), async (req: Request, res: Response) => {
+  try {
+    const id = getParam(req, 'id');
+    const truck = await prisma.truck.findUnique({
+      where: { id },
+      include: {
+        ...truckRelations,
+        trips: {
+          select: { id: true, tripNumber: true, plannedDate: true, status: true, driverName: true },
+          orderBy: { plannedDate: 'desc' },
+          take: 20,
+        },
+      },
+    });
+
+    if (!truck) {
+      sendError(res, { code: 'NOT_FOUND', message: 'Truck not found', statusCode: 404 });
+      return;
+    }
+
+    sendSuccess(res, { data: truck });
+  } catch (error) {
+    logger.error(`Error fetching truck: ${error}`);
+    sendError(res, { code: 'INTERNAL_ERROR', message: 'Failed to fetch truck', statusCode: 500 });
+  }
+});
+
+// ═══════════════════════════════════════════════════════════════════
+// POST /trucks — Register a truck with its compartments
+// ═══════════════════════════════════════════════════════════════════
+router.post(
+  '/',
+  requireRole(...MANAGE_ROLES),
+  validate(createTruckSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const { carrierId, plateNumber, calibrationCertificateNumber, calibrationExpiresAt, compartments } = req.body;
+
+      const carrier = await prisma.carrier.findUnique({ where: { id: carrierId } });
+      if (!carrier) {
+        sendError(res, { code: 'NOT_FOUND', message: 'Carrier not found', statusCode: 404 });
+        return;
+      }
+
+      const truck = await prisma.truck.create({
+        data: {
+          carrierId,
+          plateNumber,
+          calibrationCertificateNumber,
+          calibrationExpiresAt: calibrationExpiresAt ? new Date(calibrationExpiresAt) : undefined,
+          compartments: {
+            create: compartments.map((c: { capacity: number }, i: number) => ({ position: i + 1, capacity: c.capacity })),
+          },
+        },
+        include: truckRelations,
+      });
+
+      await prisma.auditLog.create({
+        data: {
+          userId: req.user!.userId,
+          action: 'TRUCK_CREATED',
+          entityType: 'Truck',
+          entityId: truck.id,
+          changes: req.body,
+        },
+      });
+
+      sendSuccess(res, { data: truck, statusCode: 201 });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        sendError(res, { code: 'DUPLICATE_PLATE_NUMBER', message: 'A truck with this plate number already exists', statusCode: 409 });
+        return;
+      }
+      logger.error(`Error creating truck: ${error}`);
+      sendError(res, { code: 'INTERNAL_ERROR', message: 'Failed to create truck', statusCode: 500 });
+    }
+  },
+);
+
+// ═══════════════════════════════════════════════════════════════════
+// PATCH /trucks/:id — Update a truck; compartments only before its first trip
+// ═══════════════════════════════════════════════════════════════════
+router.patch(
+  '/:id',
+  requireRole(...MANAGE_ROLES),
+  validate(updateTruckSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const id = getParam(req, 'id');
+      const { plateNumber, isActive, calibrationCertificateNumber, calibrationExpiresAt, compartments } = req.body;
+
+      const truck = await prisma.$transaction(async (tx) => {
+        const existing = await tx.truck.findUnique({ where: { id }, include: { _count: { select: { trips: true } } } });
+        if (!existing) {
+          throw { code: 'NOT_FOUND', message: 'Truck not found', statusCode: 404 };
+        }
+
+        if (compartments) {
+          // Trip allocations point at the compartments of the truck
+          if (existing._count.trips > 0) {
+            throw {
+              code: 'BIZ_TRUCK_HAS_TRIPS',
+              message: 'Compartments cannot be changed on a truck that has trips',
+              statusCode: 409,
+            };
+          }
+          await tx.truckCompartment.deleteMany({ where: { truckId: id } });
+        }
+
+        const updated = await tx.truck.update({
+          where: { id },
+          data: {
+            plateNumber,
+            isActive,
+            calibrationCertificateNumber,
+            // A renewed certificate re-arms the expiry alert
+            ...(calibrationExpiresAt && { calibrationExpiresAt: new Date(calibrationExpiresAt), calibrationAlertAt: null }),
+            ...(compartments && {
+              compartments: {
+                create: compartments.map((c: { capacity: number }, i: number) => ({ position: i + 1, capacity: c.capacity })),
+              },
+            }),
+          },
+          include: truckRelations,
+        });
+
+        await tx.auditLog.create({
+          data: {
+            userId: req.user!.userId,
+            action: 'TRUCK_UPDATED',
+            entityType: 'Truck',
+            entityId: id,
+            changes: req.body,
+          },
+        });
+
+        return updated;
+      });
+
+      sendSuccess(res, { data: truck });
+    } catch (error: any) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        sendError(res, { code: 'DUPLICATE_PLATE_NUMBER', message: 'A truck with this plate number already exists', statusCode: 409 });
+        return;
+      }
+      sendBusinessError(res, error, 'Failed to update truck');
+    }
+  },
+);
+
+export default router;
@@ -0,0 +1,127 @@
+import { ApprovalEntityType, ApprovalPolicy, Prisma } from '@prisma/client';
+import { UserRole, ApprovalPolicyRule, PublishApprovalPolicyInput } from '@alcom/shared';
+import { selectApprovalRule, evaluateApprovalProgress } from '@alcom/shared/src/calculations';
+import prisma from '../lib/prisma';
+
+type Db = Prisma.TransactionClient;
+type DbClient = Prisma.TransactionClient | typeof prisma;
+
+// Approver role resolved to the requester's line manager (or their delegate)
+export const LINE_MANAGER_ROLE = 'LINE_MANAGER';
+
+export interface ApprovalSubject {
+  approvalPolicyId: string | null;
+  amount: number;
+  stationId?: string | null;
+  category?: string | null;
+  // APPROVE actions recorded so far
+  approvals: { role: string; stepIndex: number | null }[];
+}
+
+/**
+ * Latest published policy version of an entity type; new items are routed by it.
+ * Throws a business error when none was ever published.
+ */
+export async function getActivePolicy(db: DbClient, entityType: ApprovalEntityType): Promise<ApprovalPolicy> {
+  const policy = await db.approvalPolicy.findFirst({
+    where: { entityType, isActive: true },
+    orderBy: { version: 'desc' },
+  });
+  if (!policy) {
+    throw {
+      code: 'BIZ_NO_APPROVAL_POLICY',
+      message: `No approval policy is published for ${entityType.toLowerCase()}s`,
+      statusCode: 409,
+    };
+  }
+  return policy;
+}
+
+/**
+ * Publish a new version of the approval policy of an entity type. Items already
+ * submitted keep the version they reference.
+ */
+export async function publishApprovalPolicy(
+  tx: Db,
+  entityType: ApprovalEntityType,
+  input: PublishApprovalPolicyInput,
+  userId: string,
+): Promise<ApprovalPolicy> {
+  const latest = await tx.approvalPolicy.findFirst({ where: { entityType }, orderBy: { version: 'desc' } });
+
+  await tx.approvalPolicy.updateMany({ where: { entityType, isActive: true }, data: { isActive: false } });
+
+  return tx.approvalPolicy.create({
+    data: {
+      entityType,
+      version: (latest?.version ?? 0) + 1,
+      rules: input.rules as unknown as Prisma.InputJsonValue,
+      notes: input.notes,
+      publishedById: userId,
+    },
+  });
+}
+
+/**
+ * Where an item stands under the policy version it was submitted with (the active one
+ * for items submitted before policies existed): the rule routing it and its steps.
+ * `hasLineManager: false` skips the LINE_MANAGER steps. Pass `cache` when evaluating
+ * many items so each policy version is read once.
+ */
+export async function getApprovalState(
+  db: DbClient,
+  entityType: ApprovalEntityType,
+  subject: ApprovalSubject,
+  options: { hasLineManager?: boolean; cache?: Map<string, ApprovalPolicy> } = {},
+) {
+  let policy = subject.approvalPolicyId ? options.cache?.get(subject.approvalPolicyId) : undefined;
+  if (!policy) {
+    policy =
+      (subject.approvalPolicyId
+        ? await db.approvalPolicy.findUnique({ where: { id: subject.approvalPolicyId } })
+        : null) ?? (await getActivePolicy(db, entityType));
+    options.cache?.set(policy.id, policy);
+  }
+
+  const rules = policy.rules as unknown as ApprovalPolicyRule[];
+  // Published policies end with a catch-all rule
+  const rule = selectApprovalRule(rules, subject) ?? rules[rules.length - 1]!;
+  const progress = evaluateApprovalProgress(
+    rule,
+    subject.approvals,
+    options.hasLineManager === false ? [LINE_MANAGER_ROLE] : [],
+  );
+
+  return {
+    policy: { id: policy.id, version: policy.version },
+    rule: { name: rule.name, mode: rule.mode },
+    ...progress,
+    nextApproverRoles: [...new Set(progress.openSteps.flatMap((i) => progress.steps[i]!.roles))],
+  };
+}
+
+export type ApprovalState = Awaited<ReturnType<typeof getApprovalState>>;
+
+/**
+ * Open step the user may approve or reject, with the role the action is recorded
+ * under; null when there is none. A user acts once per item. SUPER_ADMIN may stand
+ * in for the first open step.
+ */
+export function findActionableStep(
+  state: ApprovalState,
+  user: { role: string },
+  options: { isLineManager?: boolean; alreadyApproved?: boolean } = {},
+): { stepIndex: number; role: string } | null {
+  if (state.complete || options.alreadyApproved) return null;
+
+  for (const index of state.openSteps) {
+    const roles = state.steps[index]!.roles;
+    if (options.isLineManager && roles.includes(LINE_MANAGER_ROLE)) return { stepIndex: index, role: LINE_MANAGER_ROLE };
+    if (roles.includes(user.role)) return { stepIndex: index, role: user.role };
+  }
+
+  if (user.role === UserRole.SUPER_ADMIN && state.openSteps.length > 0) {
+    return { stepIndex: state.openSteps[0]!, role: user.role };
+  }
+  return null;
+}
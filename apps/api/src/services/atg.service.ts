@@ -0,0 +1,143 @@
+import { Prisma, type TankReading } from '@prisma/client';
+import prisma from '../lib/prisma';
+import type { AtgReadingInput } from '@alcom/shared';
+
+const CSV_COLUMNS = ['tankId', 'readAt', 'volume', 'height', 'temperature', 'waterVolume', 'waterHeight'] as const;
+const NUMERIC_COLUMNS = new Set(['volume', 'height', 'temperature', 'waterVolume', 'waterHeight']);
+
+/**
+ * Parse a CSV export into raw reading objects (validated afterwards with the batch schema).
+ * The header row must name the columns; unknown columns are ignored and empty cells omitted.
+ */
+export function parseAtgCsv(text: string): Record<string, string | number>[] {
+  const lines = text.split(/\r?\n/).map((l) => l.trim()).filter((l) => l.length > 0);
+  if (lines.length === 0) return [];
+
+  const header = lines[0]!.split(',').map((h) => h.trim());
+  const missing = ['tankId', 'readAt', 'volume'].filter((c) => !header.includes(c));
+  if (missing.length > 0) {
+    throw {
+      code: 'VALIDATION_ERROR',
+      message: `CSV header is missing required columns: ${missing.join(', ')}`,
+      statusCode: 400,
+    };
+  }
+
+  return lines.slice(1).map((line) => {
+    const cells = line.split(',').map((c) => c.trim());
+    const row: Record<string, string | number> = {};
+    header.forEach((column, i) => {
+      const cell = cells[i];
+      if (!(CSV_COLUMNS as readonly string[]).includes(column) || cell === undefined || cell === '') return;
+      row[column] = NUMERIC_COLUMNS.has(column) ? Number(cell) : cell;
+    });
+    return row;
+  });
+}
+
+/**
+ * Store a batch of ATG readings for a device's station.
+ * Duplicate (tankId, readAt) pairs are skipped, so devices can safely resend.
+ * A tank's currentLevel follows its newest reading, unless the tank was updated
+ * more recently (shift close, delivery) — stale readings never overwrite it.
+ */
+export async function ingestTankReadings(
+  device: { id: string; stationId: string },
+  readings: AtgReadingInput[],
+): Promise<{ received: number; stored: number; tanksUpdated: string[] }> {
+  const tankIds = [...new Set(readings.map((r) => r.tankId))];
+
+  return prisma.$transaction(async (tx) => {
+    const tanks = await tx.tank.findMany({
+      where: { id: { in: tankIds }, stationId: device.stationId, deletedAt: null },
+    });
+
+    const unknown = tankIds.filter((id) => !tanks.some((t) => t.id === id));
+    if (unknown.length > 0) {
+      throw {
+        code: 'BIZ_TANK_NOT_ON_STATION',
+        message: 'Readings reference tanks that do not belong to this device\'s station',
+        details: { tankIds: unknown },
+        statusCode: 400,
+      };
+    }
+
+    const overCapacity = readings.filter((r) => {
+      const tank = tanks.find((t) => t.id === r.tankId)!;
+      return new Prisma.Decimal(r.volume).greaterThan(tank.capacity);
+    });
+    if (overCapacity.length > 0) {
+      throw {
+        code: 'VALIDATION_ERROR',
+        message: 'Reading volume exceeds tank capacity',
+        details: overCapacity.map((r) => ({ tankId: r.tankId, readAt: r.readAt, volume: r.volume })),
+        statusCode: 400,
+      };
+    }
+
+    const { count } = await tx.tankReading.createMany({
+      data: readings.map((r) => ({
+        tankId: r.tankId,
+        deviceId: device.id,
+        readAt: new Date(r.readAt),
+        volume: r.volume,
+        height: r.height,
+        temperature: r.temperature,
+        waterVolume: r.waterVolume,
+        waterHeight: r.waterHeight,
+      })),
+      skipDuplicates: true,
+    });
+
+    const tanksUpdated: string[] = [];
+    for (const tank of tanks) {
+      const latest = await tx.tankReading.findFirst({
+        where: { tankId: tank.id },
+        orderBy: { readAt: 'desc' },
+      });
+      if (!latest || latest.readAt <= tank.updatedAt || latest.volume.equals(tank.currentLevel)) continue;
+
+      const updated = await tx.tank.updateMany({
+        where: { id: tank.id, version: tank.version },
+        data: { currentLevel: latest.volume, version: { increment: 1 } },
+      });
+
+      if (updated.count === 0) {
+        throw {
+          code: 'BIZ_CONCURRENCY_FAIL',
+          message: `Concurrent modification detected on tank ${tank.id}. Please retry.`,
+          statusCode: 409,
+        };
+      }
+      tanksUpdated.push(tank.id);
+    }
+
+    return { received: readings.length, stored: count, tanksUpdated };
+  });
+}
+
+/**
+ * For each tank, the reading closest in time to `at` (either side), or null.
+ */
+export async function findNearestReadings(
+  tankIds: string[],
+  at: Date,
+): Promise<Record<string, TankReading | null>> {
+  const result: Record<string, TankReading | null> = {};
+
+  for (const tankId of tankIds) {
+    const [before, after] = await Promise.all([
+      prisma.tankReading.findFirst({ where: { tankId, readAt: { lte: at } }, orderBy: { readAt: 'desc' } }),
+      prisma.tankReading.findFirst({ where: { tankId, readAt: { gt: at } }, orderBy: { readAt: 'asc' } }),
+    ]);
+
+    if (before && after) {
+      const useBefore = at.getTime() - before.readAt.getTime() <= after.readAt.getTime() - at.getTime();
+      result[tankId] = useBefore ? before : after;
+    } else {
+      result[tankId] = before ?? after;
+    }
+  }
+
+  return result;
+}
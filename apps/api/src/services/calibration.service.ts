@@ -0,0 +1,64 @@
+import { Prisma } from '@prisma/client';
+import Decimal from 'decimal.js';
+import prisma from '../lib/prisma';
+import {
+  convertDipHeightToVolume,
+  type CalibrationPoint,
+} from '@alcom/shared/src/calculations';
+
+type DbClient = Prisma.TransactionClient | typeof prisma;
+
+export type CalibrationCharts = Map<string, CalibrationPoint[]>;
+
+/**
+ * Load calibration (strapping) charts for a set of tanks.
+ * Tanks without a chart are absent from the returned map.
+ */
+export async function loadCalibrationCharts(
+  db: DbClient,
+  tankIds: string[],
+): Promise<CalibrationCharts> {
+  const points = await db.tankCalibrationPoint.findMany({
+    where: { tankId: { in: tankIds } },
+    orderBy: { height: 'asc' },
+  });
+
+  const charts: CalibrationCharts = new Map();
+  for (const p of points) {
+    const chart = charts.get(p.tankId) || [];
+    chart.push({ height: new Decimal(p.height.toString()), volume: new Decimal(p.volume.toString()) });
+    charts.set(p.tankId, chart);
+  }
+  return charts;
+}
+
+/**
+ * Convert a dip height (cm) to a volume (L) for a tank.
+ * Throws a business error object ({ code, message, statusCode }) when the tank
+ * has no chart or the height falls outside of it.
+ */
+export function resolveDipVolume(
+  charts: CalibrationCharts,
+  tankId: string,
+  height: Decimal | number,
+): Decimal {
+  const chart = charts.get(tankId);
+  if (!chart || chart.length < 2) {
+    throw {
+      code: 'BIZ_NO_CALIBRATION',
+      message: `Tank ${tankId} has no calibration chart. Enter the dip in litres.`,
+      statusCode: 400,
+    };
+  }
+
+  try {
+    return convertDipHeightToVolume(chart, height);
+  } catch (err) {
+    throw {
+      code: 'BIZ_DIP_OUT_OF_RANGE',
+      message: err instanceof Error ? err.message : 'Dip height outside calibration range',
+      details: { tankId, height: new Decimal(height).toNumber() },
+      statusCode: 400,
+    };
+  }
+}
@@ -0,0 +1,160 @@
+import { Prisma } from '@prisma/client';
+import { DOCUMENT_EXPIRY_ALERT_DAYS } from '@alcom/shared';
+import { calculateCarrierScorecard } from '@alcom/shared/src/calculations';
+import prisma from '../lib/prisma';
+
+type DbClient = Prisma.TransactionClient | typeof prisma;
+
+export interface TransportInput {
+  truckId?: string;
+  driverId?: string;
+  truckPlate?: string;
+  driverName?: string;
+}
+
+function toDateString(date: Date): string {
+  return date.toISOString().split('T')[0]!;
+}
+
+/**
+ * Truck and driver hauling a delivery on a given day. Registered ones must be active,
+ * belong to the same transporter and hold valid documents (calibration certificate,
+ * driving licence); their plate and name are copied onto the delivery. Unregistered
+ * hauliers are kept as free text.
+ * Throws business errors ({ code, message, details?, statusCode }).
+ */
+export async function resolveTransport(db: DbClient, input: TransportInput, on: Date) {
+  const day = toDateString(on);
+
+  const truck = input.truckId ? await db.truck.findUnique({ where: { id: input.truckId } }) : null;
+  if (input.truckId && !truck) {
+    throw { code: 'NOT_FOUND', message: 'Truck not found', statusCode: 404 };
+  }
+  if (truck && !truck.isActive) {
+    throw { code: 'BIZ_TRUCK_INACTIVE', message: `Truck ${truck.plateNumber} is inactive`, statusCode: 400 };
+  }
+  if (truck?.calibrationExpiresAt && toDateString(truck.calibrationExpiresAt) < day) {
+    throw {
+      code: 'BIZ_TRUCK_CALIBRATION_EXPIRED',
+      message: `The calibration certificate of truck ${truck.plateNumber} expired on ${toDateString(truck.calibrationExpiresAt)}`,
+      details: { truckId: truck.id },
+      statusCode: 400,
+    };
+  }
+
+  const driver = input.driverId ? await db.driver.findUnique({ where: { id: input.driverId } }) : null;
+  if (input.driverId && !driver) {
+    throw { code: 'NOT_FOUND', message: 'Driver not found', statusCode: 404 };
+  }
+  if (driver && !driver.isActive) {
+    throw { code: 'BIZ_DRIVER_INACTIVE', message: `Driver ${driver.fullName} is inactive`, statusCode: 400 };
+  }
+  if (driver && toDateString(driver.licenceExpiresAt) < day) {
+    throw {
+      code: 'BIZ_DRIVER_LICENCE_EXPIRED',
+      message: `The licence of ${driver.fullName} expired on ${toDateString(driver.licenceExpiresAt)}`,
+      details: { driverId: driver.id },
+      statusCode: 400,
+    };
+  }
+  if (truck && driver && truck.carrierId !== driver.carrierId) {
+    throw {
+      code: 'BIZ_DRIVER_CARRIER_MISMATCH',
+      message: `${driver.fullName} does not drive for the transporter of truck ${truck.plateNumber}`,
+      statusCode: 400,
+    };
+  }
+
+  return {
+    truckId: truck?.id ?? null,
+    driverId: driver?.id ?? null,
+    truckPlate: truck?.plateNumber ?? input.truckPlate!,
+    driverName: driver?.fullName ?? input.driverName!,
+  };
+}
+
+/**
+ * Active trucks whose calibration certificate and active drivers whose licence expire
+ * within DOCUMENT_EXPIRY_ALERT_DAYS days, or have already expired.
+ */
+export async function findExpiringDocuments(db: DbClient, now: Date = new Date()) {
+  const limit = new Date(`${toDateString(now)}T00:00:00.000Z`);
+  limit.setUTCDate(limit.getUTCDate() + DOCUMENT_EXPIRY_ALERT_DAYS);
+
+  const [trucks, drivers] = await Promise.all([
+    db.truck.findMany({
+      where: { isActive: true, calibrationExpiresAt: { lte: limit } },
+      include: { carrier: { select: { name: true } } },
+      orderBy: { calibrationExpiresAt: 'asc' },
+    }),
+    db.driver.findMany({
+      where: { isActive: true, licenceExpiresAt: { lte: limit } },
+      include: { carrier: { select: { name: true } } },
+      orderBy: { licenceExpiresAt: 'asc' },
+    }),
+  ]);
+  return { trucks, drivers };
+}
+
+/**
+ * Delivery performance per transporter over the deliveries received in a period with
+ * one of its trucks (see calculateCarrierScorecard). A delivery is expected on the
+ * planned date of its trip, else on the expected date of its purchase order.
+ */
+export async function getCarrierScorecards(db: DbClient, period: { from?: Date; to?: Date } = {}) {
+  const [carriers, deliveries] = await Promise.all([
+    db.carrier.findMany({ select: { id: true, name: true, isActive: true }, orderBy: { name: 'asc' } }),
+    db.fuelDelivery.findMany({
+      where: {
+        truckId: { not: null },
+        status: { in: ['VALIDATED', 'DISPUTED', 'RESOLVED'] },
+        completedAt: { ...(period.from && { gte: period.from }), ...(period.to && { lt: period.to }) },
+      },
+      select: {
+        blTotalVolume: true,
+        globalVariance: true,
+        status: true,
+        completedAt: true,
+        truck: { select: { carrierId: true } },
+        trip: { select: { plannedDate: true } },
+        purchaseOrder: { select: { expectedDate: true } },
+        dispute: { select: { id: true } },
+        compartments: { select: { blVolume: true } },
+      },
+    }),
+  ]);
+
+  return carriers.map((carrier) => {
+    const records = deliveries
+      .filter((d) => d.truck!.carrierId === carrier.id)
+      .map((d) => {
+        const expected = d.trip?.plannedDate ?? d.purchaseOrder?.expectedDate ?? null;
+        return {
+          blVolume:
+            d.blTotalVolume !== null
+              ? Number(d.blTotalVolume)
+              : d.compartments.reduce((sum, c) => sum + Number(c.blVolume), 0),
+          variance: Number(d.globalVariance ?? 0),
+          disputed: d.dispute !== null || d.status === 'DISPUTED',
+          expectedDate: expected ? toDateString(expected) : null,
+          receivedDate: toDateString(d.completedAt!),
+        };
+      });
+    const scorecard = calculateCarrierScorecard(records);
+    const round = (value: { toNumber(): number } | null, decimals: number) =>
+      value === null ? null : Math.round(value.toNumber() * 10 ** decimals) / 10 ** decimals;
+
+    return {
+      carrier,
+      deliveries: scorecard.deliveries,
+      blVolume: scorecard.blVolume.toNumber(),
+      averageVariancePercent: round(scorecard.averageVariancePercent, 3),
+      shortageVolume: scorecard.shortageVolume.toNumber(),
+      disputes: scorecard.disputes,
+      disputeRate: round(scorecard.disputeRate, 1),
+      scheduledDeliveries: scorecard.scheduledDeliveries,
+      onTimeDeliveries: scorecard.onTimeDeliveries,
+      onTimeRate: round(scorecard.onTimeRate, 1),
+    };
+  });
+}
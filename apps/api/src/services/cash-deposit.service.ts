@@ -0,0 +1,161 @@
+import { Prisma } from '@prisma/client';
+import Decimal from 'decimal.js';
+import { CASH_DEPOSIT_MAX_DAYS } from '@alcom/shared';
+import prisma from '../lib/prisma';
+import { toPeriodDay, CLOSED_SHIFT_STATUSES } from './period.service';
+
+type DbClient = Prisma.TransactionClient | typeof prisma;
+
+export interface UndepositedShift {
+  shiftReportId: string;
+  stationId: string;
+  shiftDate: Date;
+  shiftType: string;
+  cashCounted: number;
+  deposited: number;
+  outstanding: number;
+}
+
+export interface UndepositedBalance {
+  stationId: string;
+  stationCode: string;
+  stationName: string;
+  amount: number;
+  shiftCount: number;
+  oldestShiftDate: Date | null;
+  daysOutstanding: number;
+  maxUndepositedDays: number;
+  overdue: boolean;
+}
+
+/**
+ * Days cash may stay undeposited before alerting (station setting `cashDeposit.maxUndepositedDays`).
+ */
+export function getMaxUndepositedDays(settings: unknown): number {
+  const days = (settings as { cashDeposit?: { maxUndepositedDays?: number } } | null)?.cashDeposit
+    ?.maxUndepositedDays;
+  return days && days > 0 ? days : CASH_DEPOSIT_MAX_DAYS;
+}
+
+/**
+ * Closed shifts whose counted cash is not (fully) matched to bank deposits yet, oldest first,
+ * optionally limited to some stations or shifts. Shifts marked deposited are skipped.
+ */
+export async function findUndepositedShifts(
+  db: DbClient,
+  filter: { stationIds?: string[]; shiftReportIds?: string[] } = {},
+): Promise<UndepositedShift[]> {
+  const shifts = await db.shiftReport.findMany({
+    where: {
+      status: { in: CLOSED_SHIFT_STATUSES },
+      cashCounted: { gt: 0 },
+      cashDepositedAt: null,
+      ...(filter.stationIds && { stationId: { in: filter.stationIds } }),
+      ...(filter.shiftReportIds && { id: { in: filter.shiftReportIds } }),
+    },
+    select: {
+      id: true,
+      stationId: true,
+      shiftDate: true,
+      shiftType: true,
+      cashCounted: true,
+      depositAllocations: { select: { amount: true } },
+    },
+    orderBy: [{ shiftDate: 'asc' }, { createdAt: 'asc' }],
+  });
+
+  const result: UndepositedShift[] = [];
+  for (const shift of shifts) {
+    const cashCounted = new Decimal(shift.cashCounted.toString());
+    const deposited = shift.depositAllocations.reduce(
+      (sum, a) => sum.plus(a.amount.toString()),
+      new Decimal(0),
+    );
+    const outstanding = cashCounted.minus(deposited);
+    if (outstanding.lte(0)) continue;
+
+    result.push({
+      shiftReportId: shift.id,
+      stationId: shift.stationId,
+      shiftDate: shift.shiftDate,
+      shiftType: shift.shiftType,
+      cashCounted: cashCounted.toNumber(),
+      deposited: deposited.toNumber(),
+      outstanding: outstanding.toNumber(),
+    });
+  }
+  return result;
+}
+
+/**
+ * Mark shifts deposited once their deposit allocations cover the counted cash, or
+ * undeposited again when a correction raised it above them. Shifts without any
+ * allocation keep their mark: they were banked before deposits were tracked.
+ */
+export async function refreshShiftCashDeposits(tx: Prisma.TransactionClient, shiftReportIds: string[]) {
+  const shifts = await tx.shiftReport.findMany({
+    where: { id: { in: shiftReportIds } },
+    select: {
+      id: true,
+      cashCounted: true,
+      cashDepositedAt: true,
+      depositAllocations: { select: { amount: true } },
+    },
+  });
+
+  for (const shift of shifts) {
+    if (shift.depositAllocations.length === 0) continue;
+    const deposited = shift.depositAllocations
+      .reduce((sum, a) => sum.plus(a.amount.toString()), new Decimal(0))
+      .gte(shift.cashCounted.toString());
+    if (deposited === !!shift.cashDepositedAt) continue;
+
+    await tx.shiftReport.update({
+      where: { id: shift.id },
+      data: { cashDepositedAt: deposited ? new Date() : null },
+    });
+  }
+}
+
+/**
+ * Undeposited cash per station, with the age of the oldest undeposited shift.
+ * Stations without undeposited cash are included with a zero balance.
+ */
+export async function getUndepositedBalances(
+  db: DbClient,
+  stationIds?: string[],
+  now: Date = new Date(),
+): Promise<UndepositedBalance[]> {
+  const [stations, shifts] = await Promise.all([
+    db.station.findMany({
+      where: { deletedAt: null, isActive: true, ...(stationIds && { id: { in: stationIds } }) },
+      select: { id: true, code: true, name: true, settings: true },
+      orderBy: { code: 'asc' },
+    }),
+    findUndepositedShifts(db, { stationIds }),
+  ]);
+
+  const today = toPeriodDay(now);
+
+  return stations.map((station) => {
+    const own = shifts.filter((s) => s.stationId === station.id);
+    const amount = own.reduce((sum, s) => sum.plus(s.outstanding), new Decimal(0));
+    const oldestShiftDate = own[0]?.shiftDate ?? null;
+    const daysOutstanding = oldestShiftDate
+      ? Math.floor((today.getTime() - oldestShiftDate.getTime()) / 86400000)
+      : 0;
+    const maxUndepositedDays = getMaxUndepositedDays(station.settings);
+
+    return {
+      stationId: station.id,
+      stationCode: station.code,
+      stationName: station.name,
+      amount: amount.toNumber(),
+      shiftCount: own.length,
+      oldestShiftDate,
+      daysOutstanding,
+      maxUndepositedDays,
+      overdue: daysOutstanding > maxUndepositedDays,
+    };
+  });
+}
@@ -0,0 +1,234 @@
+import { Prisma } from '@prisma/client';
+import Decimal from 'decimal.js';
+import prisma from '../lib/prisma';
+import type { CreateCouponBatchInput, SellCouponBatchInput } from '@alcom/shared';
+
+type Db = Prisma.TransactionClient;
+type DbClient = Prisma.TransactionClient | typeof prisma;
+
+export const couponBatchRelations = {
+  customer: { select: { id: true, name: true } },
+  issuedBy: { select: { id: true, fullName: true } },
+  soldBy: { select: { id: true, fullName: true } },
+};
+
+function couponSerial(prefix: string, n: number): string {
+  return `${prefix}${String(n).padStart(6, '0')}`;
+}
+
+/**
+ * Print run of coupons: one serial per coupon, all at the batch face value, kept in stock
+ * until the batch is sold. Throws business errors ({ code, message, details?, statusCode }).
+ */
+export async function issueCouponBatch(tx: Db, input: CreateCouponBatchInput, userId: string) {
+  const serials = Array.from({ length: input.quantity }, (_, i) => couponSerial(input.serialPrefix, input.startNumber + i));
+
+  const taken = await tx.fuelCoupon.findMany({
+    where: { serialNumber: { in: serials } },
+    select: { serialNumber: true },
+    orderBy: { serialNumber: 'asc' },
+    take: 10,
+  });
+  if (taken.length > 0) {
+    throw {
+      code: 'BIZ_COUPON_SERIAL_TAKEN',
+      message: 'Some serial numbers of this batch were already issued',
+      details: { serials: taken.map((c) => c.serialNumber) },
+      statusCode: 409,
+    };
+  }
+
+  const faceValue = new Prisma.Decimal(new Decimal(input.faceValue).toFixed(4));
+  const batch = await tx.couponBatch.create({
+    data: {
+      batchNumber: input.batchNumber,
+      faceValue,
+      quantity: input.quantity,
+      firstSerial: serials[0]!,
+      lastSerial: serials[serials.length - 1]!,
+      expiresAt: new Date(input.expiresAt),
+      issuedById: userId,
+    },
+    include: couponBatchRelations,
+  });
+
+  await tx.fuelCoupon.createMany({
+    data: serials.map((serialNumber) => ({ batchId: batch.id, serialNumber, faceValue })),
+  });
+
+  return batch;
+}
+
+/**
+ * Sell a whole batch to a customer. The coupons are paid up front, so they become
+ * redeemable and count as a liability until they come back in a shift's cash envelope.
+ */
+export async function sellCouponBatch(tx: Db, batchId: string, input: SellCouponBatchInput, userId: string) {
+  const customer = await tx.creditCustomer.findFirst({ where: { id: input.customerId, isActive: true } });
+  if (!customer) {
+    throw { code: 'NOT_FOUND', message: 'Customer not found or inactive', statusCode: 404 };
+  }
+
+  const sold = await tx.couponBatch.updateMany({
+    where: { id: batchId, soldAt: null },
+    data: {
+      customerId: customer.id,
+      soldAt: new Date(),
+      soldById: userId,
+      paymentMethod: input.paymentMethod,
+      paymentRef: input.paymentRef,
+    },
+  });
+  if (sold.count === 0) {
+    const exists = await tx.couponBatch.findUnique({ where: { id: batchId }, select: { id: true } });
+    if (!exists) {
+      throw { code: 'NOT_FOUND', message: 'Coupon batch not found', statusCode: 404 };
+    }
+    throw { code: 'BIZ_BATCH_ALREADY_SOLD', message: 'This coupon batch has already been sold', statusCode: 409 };
+  }
+
+  await tx.fuelCoupon.updateMany({ where: { batchId, status: 'IN_STOCK' }, data: { status: 'SOLD' } });
+
+  return tx.couponBatch.findUniqueOrThrow({ where: { id: batchId }, include: couponBatchRelations });
+}
+
+export interface CouponCheck {
+  valid: { id: string; serialNumber: string; faceValue: number; batchNumber: string }[];
+  unknown: string[];
+  notSold: string[];
+  alreadyRedeemed: string[];
+  expired: string[];
+  total: number;
+}
+
+/**
+ * Sort the serials handed in on a shift of `shiftDate` into redeemable coupons and
+ * rejections. A coupon is still valid on its expiry date.
+ */
+export async function checkCouponSerials(db: DbClient, serials: string[], shiftDate: Date): Promise<CouponCheck> {
+  const coupons = await db.fuelCoupon.findMany({
+    where: { serialNumber: { in: serials } },
+    include: { batch: { select: { batchNumber: true, expiresAt: true } } },
+  });
+  const bySerial = new Map(coupons.map((c) => [c.serialNumber, c]));
+  const day = shiftDate.toISOString().slice(0, 10);
+
+  const result: CouponCheck = { valid: [], unknown: [], notSold: [], alreadyRedeemed: [], expired: [], total: 0 };
+  let total = new Decimal(0);
+  for (const serial of serials) {
+    const coupon = bySerial.get(serial);
+    if (!coupon) {
+      result.unknown.push(serial);
+    } else if (coupon.status === 'REDEEMED') {
+      result.alreadyRedeemed.push(serial);
+    } else if (coupon.status === 'IN_STOCK') {
+      result.notSold.push(serial);
+    } else if (coupon.batch.expiresAt.toISOString().slice(0, 10) < day) {
+      result.expired.push(serial);
+    } else {
+      result.valid.push({
+        id: coupon.id,
+        serialNumber: coupon.serialNumber,
+        faceValue: Number(coupon.faceValue),
+        batchNumber: coupon.batch.batchNumber,
+      });
+      total = total.plus(coupon.faceValue.toString());
+    }
+  }
+  result.total = total.toNumber();
+  return result;
+}
+
+/**
+ * Redeem the coupons found in the cash envelope at shift close. Any unknown, unsold,
+ * already redeemed or expired serial rejects the whole close.
+ */
+export async function redeemShiftCoupons(tx: Db, shiftId: string, serials: string[], shiftDate: Date) {
+  const check = await checkCouponSerials(tx, serials, shiftDate);
+  const rejected = check.unknown.length + check.notSold.length + check.alreadyRedeemed.length + check.expired.length;
+  if (rejected > 0) {
+    throw {
+      code: 'BIZ_COUPON_INVALID',
+      message: `${rejected} coupon(s) cannot be redeemed`,
+      details: {
+        unknown: check.unknown,
+        notSold: check.notSold,
+        alreadyRedeemed: check.alreadyRedeemed,
+        expired: check.expired,
+      },
+      statusCode: 400,
+    };
+  }
+
+  const redeemed = await tx.fuelCoupon.updateMany({
+    where: { id: { in: check.valid.map((c) => c.id) }, status: 'SOLD' },
+    data: { status: 'REDEEMED', shiftReportId: shiftId, redeemedAt: new Date() },
+  });
+  if (redeemed.count !== check.valid.length) {
+    throw {
+      code: 'BIZ_CONCURRENCY_FAIL',
+      message: 'Some coupons were redeemed concurrently. Please retry.',
+      statusCode: 409,
+    };
+  }
+
+  return check;
+}
+
+/**
+ * Value of the coupons sold and not yet redeemed, per batch: what the company still owes
+ * in fuel. Coupons past their expiry date are reported apart.
+ */
+export async function getCouponLiability(db: DbClient, asOf = new Date()) {
+  const [batches, counts] = await Promise.all([
+    db.couponBatch.findMany({
+      where: { soldAt: { not: null } },
+      include: { customer: { select: { id: true, name: true } } },
+      orderBy: { soldAt: 'asc' },
+    }),
+    db.fuelCoupon.groupBy({
+      by: ['batchId', 'status'],
+      where: { batch: { soldAt: { not: null } } },
+      _count: { _all: true },
+      _sum: { faceValue: true },
+    }),
+  ]);
+  const day = asOf.toISOString().slice(0, 10);
+
+  const rows = batches.map((batch) => {
+    const line = (status: 'SOLD' | 'REDEEMED') => counts.find((c) => c.batchId === batch.id && c.status === status);
+    const unredeemed = line('SOLD');
+    const redeemed = line('REDEEMED');
+    const unredeemedCount = unredeemed?._count._all ?? 0;
+    const unredeemedValue = Number(unredeemed?._sum.faceValue ?? 0);
+    const isExpired = batch.expiresAt.toISOString().slice(0, 10) < day;
+
+    return {
+      batchId: batch.id,
+      batchNumber: batch.batchNumber,
+      customer: batch.customer,
+      faceValue: Number(batch.faceValue),
+      quantity: batch.quantity,
+      soldAt: batch.soldAt,
+      expiresAt: batch.expiresAt,
+      redeemedCount: redeemed?._count._all ?? 0,
+      redeemedValue: Number(redeemed?._sum.faceValue ?? 0),
+      outstandingCount: isExpired ? 0 : unredeemedCount,
+      outstandingValue: isExpired ? 0 : unredeemedValue,
+      expiredCount: isExpired ? unredeemedCount : 0,
+      expiredValue: isExpired ? unredeemedValue : 0,
+    };
+  });
+
+  const totals = rows.reduce(
+    (sum, r) => ({
+      soldValue: sum.soldValue + r.faceValue * r.quantity,
+      redeemedValue: sum.redeemedValue + r.redeemedValue,
+      outstandingValue: sum.outstandingValue + r.outstandingValue,
+      expiredValue: sum.expiredValue + r.expiredValue,
+    }),
+    { soldValue: 0, redeemedValue: 0, outstandingValue: 0, expiredValue: 0 },
+  );
+
+  return { batches: rows, totals };
+}
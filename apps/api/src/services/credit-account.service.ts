@@ -0,0 +1,338 @@
+import { Prisma } from '@prisma/client';
+import Decimal from 'decimal.js';
+import prisma from '../lib/prisma';
+import type { CreateCreditSaleInput, CreateCustomerPaymentInput } from '@alcom/shared';
+import { calculateRevenue, calculateReceivableAging } from '@alcom/shared/src/calculations';
+import { resolvePeriodRange } from './period.service';
+
+type Db = Prisma.TransactionClient;
+type DbClient = Prisma.TransactionClient | typeof prisma;
+
+export const creditSaleRelations = {
+  customer: { select: { id: true, name: true } },
+  vehicle: { select: { id: true, plateNumber: true } },
+  driver: { select: { id: true, fullName: true } },
+  nozzle: { select: { id: true, side: true, pump: { select: { code: true } } } },
+  recordedBy: { select: { id: true, fullName: true } },
+};
+
+/**
+ * Add `delta` to the amount a customer owes, with the optimistic `version` lock.
+ */
+async function moveCustomerBalance(tx: Db, customer: { id: string; version: number }, delta: Decimal) {
+  const result = await tx.creditCustomer.updateMany({
+    where: { id: customer.id, version: customer.version },
+    data: {
+      balance: { increment: new Prisma.Decimal(delta.toFixed(4)) },
+      version: { increment: 1 },
+    },
+  });
+  if (result.count === 0) {
+    throw {
+      code: 'BIZ_CONCURRENCY_FAIL',
+      message: 'Concurrent modification detected on the customer account. Please retry.',
+      statusCode: 409,
+    };
+  }
+}
+
+/**
+ * Record fuel served on account during the shift open at the station.
+ * The voucher is billed at the shift price and must fit within the customer's credit limit.
+ * Throws business errors ({ code, message, details?, statusCode }).
+ */
+export async function recordCreditSale(tx: Db, input: CreateCreditSaleInput, userId: string) {
+  const openShift = await tx.shiftReport.findFirst({
+    where: { stationId: input.stationId, status: 'OPEN' },
+    select: { id: true, appliedPriceSnapshot: true },
+  });
+  if (!openShift) {
+    throw {
+      code: 'BIZ_SHIFT_NOT_OPEN',
+      message: 'Credit sales are recorded during an open shift',
+      statusCode: 409,
+    };
+  }
+
+  const customer = await tx.creditCustomer.findFirst({ where: { id: input.customerId, isActive: true } });
+  if (!customer) {
+    throw { code: 'NOT_FOUND', message: 'Customer not found or inactive', statusCode: 404 };
+  }
+
+  const vehicle = await tx.creditVehicle.findFirst({
+    where: { id: input.vehicleId, customerId: customer.id, isActive: true },
+  });
+  if (!vehicle) {
+    throw {
+      code: 'BIZ_VEHICLE_NOT_AUTHORISED',
+      message: 'This vehicle is not authorised on the customer account',
+      statusCode: 400,
+    };
+  }
+  if (input.driverId) {
+    const driver = await tx.creditDriver.findFirst({
+      where: { id: input.driverId, customerId: customer.id, isActive: true },
+    });
+    if (!driver) {
+      throw {
+        code: 'BIZ_DRIVER_NOT_AUTHORISED',
+        message: 'This driver is not authorised on the customer account',
+        statusCode: 400,
+      };
+    }
+  }
+
+  if (input.nozzleId) {
+    const sale = await tx.shiftSale.findFirst({
+      where: { shiftReportId: openShift.id, nozzleId: input.nozzleId },
+      select: { nozzle: { select: { pump: { select: { tank: { select: { fuelType: true } } } } } } },
+    });
+    if (!sale || sale.nozzle.pump.tank.fuelType !== input.fuelType) {
+      throw {
+        code: 'BIZ_NOZZLE_NOT_IN_SHIFT',
+        message: `Nozzle ${input.nozzleId} does not sell ${input.fuelType} in this shift`,
+        details: { nozzleId: input.nozzleId },
+        statusCode: 400,
+      };
+    }
+  }
+
+  const priceSnapshot = (openShift.appliedPriceSnapshot as Record<string, number> | null) || {};
+  const price = priceSnapshot[input.fuelType];
+  if (price === undefined) {
+    throw {
+      code: 'BIZ_NO_ACTIVE_PRICE',
+      message: `No ${input.fuelType} price applies to this shift`,
+      statusCode: 400,
+    };
+  }
+
+  const unitPrice = new Decimal(price);
+  const amount = calculateRevenue(new Decimal(input.volume), unitPrice);
+  const balance = new Decimal(customer.balance.toString());
+  const creditLimit = new Decimal(customer.creditLimit.toString());
+  if (balance.plus(amount).greaterThan(creditLimit)) {
+    throw {
+      code: 'BIZ_CREDIT_LIMIT_EXCEEDED',
+      message: `Credit limit of ${customer.name} exceeded`,
+      details: {
+        creditLimit: creditLimit.toNumber(),
+        balance: balance.toNumber(),
+        available: Decimal.max(creditLimit.minus(balance), 0).toNumber(),
+        amount: amount.toNumber(),
+      },
+      statusCode: 400,
+    };
+  }
+
+  await moveCustomerBalance(tx, customer, amount);
+
+  return tx.creditSale.create({
+    data: {
+      shiftReportId: openShift.id,
+      customerId: customer.id,
+      vehicleId: vehicle.id,
+      driverId: input.driverId ?? null,
+      voucherNumber: input.voucherNumber,
+      fuelType: input.fuelType,
+      nozzleId: input.nozzleId ?? null,
+      volume: new Prisma.Decimal(new Decimal(input.volume).toFixed(4)),
+      unitPrice: new Prisma.Decimal(unitPrice.toFixed(4)),
+      amount: new Prisma.Decimal(amount.toFixed(4)),
+      recordedById: userId,
+    },
+    include: creditSaleRelations,
+  });
+}
+
+/**
+ * Cancel a credit sale entered by mistake while its shift is still open.
+ * Throws business errors ({ code, message, statusCode }).
+ */
+export async function cancelCreditSale(tx: Db, creditSaleId: string) {
+  const sale = await tx.creditSale.findUnique({
+    where: { id: creditSaleId },
+    include: { shiftReport: { select: { status: true } }, customer: true },
+  });
+  if (!sale) {
+    throw { code: 'NOT_FOUND', message: 'Credit sale not found', statusCode: 404 };
+  }
+  if (sale.shiftReport.status !== 'OPEN') {
+    throw {
+      code: 'BIZ_SHIFT_NOT_OPEN',
+      message: 'Credit sales of a closed shift cannot be cancelled',
+      statusCode: 409,
+    };
+  }
+
+  await moveCustomerBalance(tx, sale.customer, new Decimal(sale.amount.toString()).negated());
+  await tx.creditSale.delete({ where: { id: sale.id } });
+  return sale;
+}
+
+/**
+ * Record a payment received from a customer; it reduces the amount owed.
+ * Throws business errors ({ code, message, statusCode }).
+ */
+export async function recordCustomerPayment(
+  tx: Db,
+  customerId: string,
+  input: CreateCustomerPaymentInput,
+  userId: string,
+) {
+  const customer = await tx.creditCustomer.findUnique({ where: { id: customerId } });
+  if (!customer) {
+    throw { code: 'NOT_FOUND', message: 'Customer not found', statusCode: 404 };
+  }
+
+  const amount = new Decimal(input.amount);
+  await moveCustomerBalance(tx, customer, amount.negated());
+
+  return tx.customerPayment.create({
+    data: {
+      customerId,
+      amount: new Prisma.Decimal(amount.toFixed(4)),
+      method: input.method,
+      reference: input.reference,
+      paidAt: new Date(input.paidAt),
+      receivedById: userId,
+    },
+    include: { receivedBy: { select: { id: true, fullName: true } } },
+  });
+}
+
+/**
+ * Outstanding balance of customers by age (0–30, 31–60, 61–90, over 90 days).
+ */
+export async function getCustomerAging(db: DbClient, customerIds: string[], asOf = new Date()) {
+  const [sales, payments] = await Promise.all([
+    db.creditSale.findMany({
+      where: { customerId: { in: customerIds } },
+      select: { customerId: true, amount: true, createdAt: true },
+    }),
+    db.customerPayment.groupBy({
+      by: ['customerId'],
+      where: { customerId: { in: customerIds } },
+      _sum: { amount: true },
+    }),
+  ]);
+
+  return new Map(
+    customerIds.map((customerId) => {
+      const paid = payments.find((p) => p.customerId === customerId)?._sum.amount ?? 0;
+      const aging = calculateReceivableAging(
+        sales
+          .filter((s) => s.customerId === customerId)
+          .map((s) => ({ date: s.createdAt, amount: new Decimal(s.amount.toString()) })),
+        new Decimal(paid.toString()),
+        asOf,
+      );
+      return [
+        customerId,
+        {
+          current: aging.current.toNumber(),
+          days31to60: aging.days31to60.toNumber(),
+          days61to90: aging.days61to90.toNumber(),
+          over90: aging.over90.toNumber(),
+          total: aging.total.toNumber(),
+        },
+      ];
+    }),
+  );
+}
+
+export interface StatementEntry {
+  date: Date;
+  type: 'CREDIT_SALE' | 'PAYMENT';
+  reference: string;
+  description: string;
+  debit: number;
+  credit: number;
+  balance: number;
+}
+
+/**
+ * Monthly statement of a customer account: balance brought forward, the vouchers and
+ * payments of the month with the running balance, and the balance carried forward.
+ * `month` is YYYY-MM. Returns null when the customer does not exist.
+ */
+export async function buildCustomerStatement(db: DbClient, customerId: string, month: string) {
+  const customer = await db.creditCustomer.findUnique({ where: { id: customerId } });
+  if (!customer) return null;
+
+  const { start, end } = resolvePeriodRange('MONTH', `${month}-01`);
+  const nextMonth = new Date(end.getTime() + 86_400_000);
+
+  const [salesBefore, paymentsBefore, sales, payments] = await Promise.all([
+    db.creditSale.aggregate({ where: { customerId, createdAt: { lt: start } }, _sum: { amount: true } }),
+    db.customerPayment.aggregate({ where: { customerId, paidAt: { lt: start } }, _sum: { amount: true } }),
+    db.creditSale.findMany({
+      where: { customerId, createdAt: { gte: start, lt: nextMonth } },
+      include: {
+        vehicle: { select: { plateNumber: true } },
+        shiftReport: { select: { station: { select: { code: true } } } },
+      },
+      orderBy: { createdAt: 'asc' },
+    }),
+    db.customerPayment.findMany({
+      where: { customerId, paidAt: { gte: start, lte: end } },
+      orderBy: { paidAt: 'asc' },
+    }),
+  ]);
+
+  const openingBalance = new Decimal((salesBefore._sum.amount ?? 0).toString()).minus(
+    (paymentsBefore._sum.amount ?? 0).toString(),
+  );
+
+  const movements = [
+    ...sales.map((s) => ({
+      date: s.createdAt,
+      type: 'CREDIT_SALE' as const,
+      reference: s.voucherNumber,
+      description: `${s.shiftReport.station.code} — ${s.vehicle.plateNumber} — ${Number(s.volume)} L ${s.fuelType}`,
+      debit: new Decimal(s.amount.toString()),
+      credit: new Decimal(0),
+    })),
+    ...payments.map((p) => ({
+      date: p.paidAt,
+      type: 'PAYMENT' as const,
+      reference: p.reference || '',
+      description: p.method,
+      debit: new Decimal(0),
+      credit: new Decimal(p.amount.toString()),
+    })),
+  ].sort((a, b) => a.date.getTime() - b.date.getTime());
+
+  let running = openingBalance;
+  const entries: StatementEntry[] = movements.map((m) => {
+    running = running.plus(m.debit).minus(m.credit);
+    return {
+      date: m.date,
+      type: m.type,
+      reference: m.reference,
+      description: m.description,
+      debit: m.debit.toNumber(),
+      credit: m.credit.toNumber(),
+      balance: running.toNumber(),
+    };
+  });
+
+  return {
+    customer: {
+      id: customer.id,
+      name: customer.name,
+      taxId: customer.taxId,
+      address: customer.address,
+      creditLimit: Number(customer.creditLimit),
+      paymentTermsDays: customer.paymentTermsDays,
+    },
+    month,
+    periodStart: start.toISOString().slice(0, 10),
+    periodEnd: end.toISOString().slice(0, 10),
+    openingBalance: openingBalance.toNumber(),
+    totalDebit: movements.reduce((sum, m) => sum.plus(m.debit), new Decimal(0)).toNumber(),
+    totalCredit: movements.reduce((sum, m) => sum.plus(m.credit), new Decimal(0)).toNumber(),
+    closingBalance: running.toNumber(),
+    entries,
+  };
+}
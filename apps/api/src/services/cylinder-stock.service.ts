@@ -0,0 +1,201 @@
+import { Prisma } from '@prisma/client';
+import Decimal from 'decimal.js';
+import type { CreateCylinderDeliveryInput, CreateCylinderTransactionInput } from '@alcom/shared';
+
+type Db = Prisma.TransactionClient;
+
+interface CylinderMovement {
+  full: number;
+  empty: number;
+}
+
+/**
+ * Move full and empty bottles in or out of a station's stock with the optimistic `version` lock.
+ * Returns the counts as they were before the movement.
+ */
+async function moveCylinderStock(tx: Db, stationId: string, cylinderTypeId: string, movement: CylinderMovement) {
+  const stock = await tx.cylinderStock.upsert({
+    where: { stationId_cylinderTypeId: { stationId, cylinderTypeId } },
+    create: { stationId, cylinderTypeId },
+    update: {},
+  });
+
+  if (stock.fullCount + movement.full < 0) {
+    throw {
+      code: 'BIZ_INSUFFICIENT_STOCK',
+      message: `Only ${stock.fullCount} full bottle(s) in stock`,
+      statusCode: 400,
+    };
+  }
+  if (stock.emptyCount + movement.empty < 0) {
+    throw {
+      code: 'BIZ_INSUFFICIENT_STOCK',
+      message: `Only ${stock.emptyCount} empty bottle(s) in stock`,
+      statusCode: 400,
+    };
+  }
+
+  const result = await tx.cylinderStock.updateMany({
+    where: { id: stock.id, version: stock.version },
+    data: {
+      fullCount: { increment: movement.full },
+      emptyCount: { increment: movement.empty },
+      version: { increment: 1 },
+    },
+  });
+  if (result.count === 0) {
+    throw {
+      code: 'BIZ_CONCURRENCY_FAIL',
+      message: `Concurrent modification detected on cylinder stock ${cylinderTypeId}. Please retry.`,
+      statusCode: 409,
+    };
+  }
+
+  return stock;
+}
+
+async function findActiveCylinderType(tx: Db, cylinderTypeId: string) {
+  const cylinderType = await tx.cylinderType.findFirst({ where: { id: cylinderTypeId, isActive: true } });
+  if (!cylinderType) {
+    throw { code: 'NOT_FOUND', message: 'Cylinder type not found or inactive', statusCode: 404 };
+  }
+  return cylinderType;
+}
+
+/**
+ * Record a gas supplier delivery: full bottles come in, empties go back on the truck.
+ * The movement is counted in the shift open at the station, if any.
+ * Throws business errors ({ code, message, statusCode }).
+ */
+export async function recordCylinderDelivery(tx: Db, input: CreateCylinderDeliveryInput, userId: string) {
+  await findActiveCylinderType(tx, input.cylinderTypeId);
+  const supplier = await tx.supplier.findFirst({ where: { id: input.supplierId, deletedAt: null } });
+  if (!supplier) {
+    throw { code: 'NOT_FOUND', message: 'Supplier not found', statusCode: 404 };
+  }
+
+  const before = await moveCylinderStock(tx, input.stationId, input.cylinderTypeId, {
+    full: input.fullReceived,
+    empty: -input.emptyReturned,
+  });
+
+  // A bottle size first stocked during the shift opens at the counts held before the truck
+  const openShift = await tx.shiftReport.findFirst({
+    where: { stationId: input.stationId, status: 'OPEN' },
+    select: { id: true },
+  });
+  if (openShift) {
+    await tx.shiftCylinderCount.upsert({
+      where: { shiftReportId_cylinderTypeId: { shiftReportId: openShift.id, cylinderTypeId: input.cylinderTypeId } },
+      create: {
+        shiftReportId: openShift.id,
+        cylinderTypeId: input.cylinderTypeId,
+        openingFull: before.fullCount,
+        openingEmpty: before.emptyCount,
+        fullReceived: input.fullReceived,
+        emptyReturned: input.emptyReturned,
+      },
+      update: {
+        fullReceived: { increment: input.fullReceived },
+        emptyReturned: { increment: input.emptyReturned },
+      },
+    });
+  }
+
+  return tx.cylinderDelivery.create({
+    data: {
+      stationId: input.stationId,
+      cylinderTypeId: input.cylinderTypeId,
+      supplierId: input.supplierId,
+      fullReceived: input.fullReceived,
+      emptyReturned: input.emptyReturned,
+      reference: input.reference,
+      shiftReportId: openShift?.id ?? null,
+      receivedById: userId,
+    },
+    include: {
+      cylinderType: { select: { id: true, brand: true, sizeKg: true } },
+      supplier: { select: { id: true, name: true } },
+      receivedBy: { select: { id: true, fullName: true } },
+    },
+  });
+}
+
+/**
+ * Record a bottle sale, exchange or deposit refund on the shift open at the station.
+ * The cash taken (refunded for a deposit refund) is added to the shift's cylinder revenue.
+ * Throws business errors ({ code, message, statusCode }).
+ */
+export async function recordCylinderTransaction(tx: Db, input: CreateCylinderTransactionInput, userId: string) {
+  const openShift = await tx.shiftReport.findFirst({
+    where: { stationId: input.stationId, status: 'OPEN' },
+    select: { id: true },
+  });
+  if (!openShift) {
+    throw {
+      code: 'BIZ_SHIFT_NOT_OPEN',
+      message: 'Cylinder transactions are recorded during an open shift',
+      statusCode: 409,
+    };
+  }
+
+  const cylinderType = await findActiveCylinderType(tx, input.cylinderTypeId);
+  const quantity = input.quantity;
+  const gasPrice = new Decimal(cylinderType.gasPrice.toString());
+  const depositPrice = new Decimal(cylinderType.depositPrice.toString());
+
+  let movement: CylinderMovement;
+  let amount: Decimal;
+  switch (input.type) {
+    case 'SALE':
+      movement = { full: -quantity, empty: 0 };
+      amount = gasPrice.plus(depositPrice).times(quantity);
+      break;
+    case 'EXCHANGE':
+      movement = { full: -quantity, empty: quantity };
+      amount = gasPrice.times(quantity);
+      break;
+    case 'DEPOSIT_REFUND':
+      movement = { full: 0, empty: quantity };
+      amount = depositPrice.times(quantity).negated();
+      break;
+  }
+
+  const before = await moveCylinderStock(tx, input.stationId, input.cylinderTypeId, movement);
+  const revenue = new Prisma.Decimal(amount.toFixed(4));
+
+  await tx.shiftCylinderCount.upsert({
+    where: { shiftReportId_cylinderTypeId: { shiftReportId: openShift.id, cylinderTypeId: input.cylinderTypeId } },
+    create: {
+      shiftReportId: openShift.id,
+      cylinderTypeId: input.cylinderTypeId,
+      openingFull: before.fullCount,
+      openingEmpty: before.emptyCount,
+      fullOut: -movement.full,
+      emptyIn: movement.empty,
+      revenue,
+    },
+    update: {
+      fullOut: { increment: -movement.full },
+      emptyIn: { increment: movement.empty },
+      revenue: { increment: revenue },
+    },
+  });
+
+  return tx.cylinderTransaction.create({
+    data: {
+      shiftReportId: openShift.id,
+      cylinderTypeId: input.cylinderTypeId,
+      type: input.type,
+      quantity,
+      gasPrice: cylinderType.gasPrice,
+      depositPrice: cylinderType.depositPrice,
+      amount: revenue,
+      recordedById: userId,
+    },
+    include: {
+      cylinderType: { select: { id: true, brand: true, sizeKg: true } },
+      recordedBy: { select: { id: true, fullName: true } },
+    },
+  });
+}
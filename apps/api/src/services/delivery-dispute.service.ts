@@ -0,0 +1,276 @@
+import { Prisma } from '@prisma/client';
+import Decimal from 'decimal.js';
+import prisma from '../lib/prisma';
+import {
+  calculateDisputeClaim,
+  type SendDisputeClaimInput,
+  type ResolveDisputeInput,
+  type DisputeClaimsReportFilters,
+} from '@alcom/shared';
+
+type Db = Prisma.TransactionClient;
+type DbClient = Prisma.TransactionClient | typeof prisma;
+
+// A credit note, a rejection or a write-off closes the case
+export const CLOSED_DISPUTE_STATUSES = ['CREDITED', 'REJECTED', 'WRITTEN_OFF'] as const;
+
+export const deliveryDisputeRelations = {
+  delivery: {
+    select: {
+      id: true,
+      blNumber: true,
+      truckPlate: true,
+      driverName: true,
+      completedAt: true,
+      purchaseOrder: { select: { id: true, poNumber: true } },
+    },
+  },
+  station: { select: { id: true, code: true, name: true } },
+  supplier: { select: { id: true, name: true, email: true } },
+  claimedBy: { select: { id: true, fullName: true } },
+  resolvedBy: { select: { id: true, fullName: true } },
+};
+
+function toDecimal(value: Decimal): Prisma.Decimal {
+  return new Prisma.Decimal(value.toFixed(4));
+}
+
+function isClosed(status: string): boolean {
+  return (CLOSED_DISPUTE_STATUSES as readonly string[]).includes(status);
+}
+
+async function findDispute(db: DbClient, id: string) {
+  const dispute = await db.deliveryDispute.findUnique({ where: { id } });
+  if (!dispute) {
+    throw { code: 'NOT_FOUND', message: 'Delivery dispute not found', statusCode: 404 };
+  }
+  return dispute;
+}
+
+/**
+ * Shortage lines of a disputed delivery, priced with the purchase order of the delivery
+ * unless other prices are given. Only compartments out of tolerance are claimed.
+ */
+export async function getDisputeClaim(
+  db: DbClient,
+  deliveryId: string,
+  prices: { fuelType: string; unitPrice: number }[] = [],
+) {
+  const delivery = await db.fuelDelivery.findUniqueOrThrow({
+    where: { id: deliveryId },
+    include: {
+      compartments: { where: { status: 'DISPUTED' }, select: { fuelType: true, variance: true } },
+      purchaseOrder: { include: { lines: true } },
+    },
+  });
+
+  const priceOf: Record<string, number> = {};
+  for (const line of delivery.purchaseOrder?.lines ?? []) priceOf[line.fuelType] = Number(line.unitPrice);
+  for (const p of prices) priceOf[p.fuelType] = p.unitPrice;
+
+  const claim = calculateDisputeClaim(
+    delivery.compartments.map((c) => ({ fuelType: c.fuelType, variance: Number(c.variance ?? 0) })),
+    priceOf,
+  );
+  return {
+    claim,
+    missingPrices: claim.lines.filter((l) => priceOf[l.fuelType] === undefined).map((l) => l.fuelType),
+  };
+}
+
+/**
+ * Open the case of a delivery just completed as DISPUTED. The supplier is the one of
+ * the purchase order, when the delivery was received against one.
+ */
+export async function openDeliveryDispute(tx: Db, deliveryId: string) {
+  const delivery = await tx.fuelDelivery.findUniqueOrThrow({
+    where: { id: deliveryId },
+    select: { stationId: true, purchaseOrder: { select: { supplierId: true } } },
+  });
+  const { claim } = await getDisputeClaim(tx, deliveryId);
+
+  return tx.deliveryDispute.create({
+    data: {
+      deliveryId,
+      stationId: delivery.stationId,
+      supplierId: delivery.purchaseOrder?.supplierId ?? null,
+      shortageVolume: toDecimal(claim.shortageVolume),
+    },
+  });
+}
+
+/**
+ * Investigation activity (a note or a piece of evidence) on an open case: the case
+ * moves to INVESTIGATING on the first one.
+ */
+export async function startInvestigation(tx: Db, id: string) {
+  const dispute = await findDispute(tx, id);
+  if (isClosed(dispute.status)) {
+    throw { code: 'INVALID_STATUS', message: `Dispute is closed (${dispute.status})`, statusCode: 400 };
+  }
+  if (dispute.status === 'OPEN') {
+    await tx.deliveryDispute.update({ where: { id }, data: { status: 'INVESTIGATING' } });
+  }
+  return dispute;
+}
+
+/**
+ * Claim the shortage from the supplier. Throws business errors
+ * ({ code, message, details?, statusCode }).
+ */
+export async function sendDisputeClaim(tx: Db, id: string, input: SendDisputeClaimInput, userId: string) {
+  const dispute = await findDispute(tx, id);
+  if (dispute.status !== 'OPEN' && dispute.status !== 'INVESTIGATING') {
+    throw { code: 'INVALID_STATUS', message: `Cannot claim a dispute with status ${dispute.status}`, statusCode: 400 };
+  }
+
+  const supplierId = input.supplierId ?? dispute.supplierId;
+  if (!supplierId) {
+    throw {
+      code: 'BIZ_DISPUTE_SUPPLIER_REQUIRED',
+      message: 'The delivery has no purchase order: select the supplier to claim from',
+      statusCode: 400,
+    };
+  }
+  const supplier = await tx.supplier.findFirst({ where: { id: supplierId, deletedAt: null } });
+  if (!supplier) {
+    throw { code: 'SUPPLIER_NOT_FOUND', message: 'Supplier not found', statusCode: 404 };
+  }
+
+  const { claim, missingPrices } = await getDisputeClaim(tx, dispute.deliveryId, input.prices);
+  if (claim.lines.length === 0) {
+    throw {
+      code: 'BIZ_DISPUTE_NO_SHORTAGE',
+      message: 'The delivery has no shortage to claim; write the dispute off instead',
+      statusCode: 400,
+    };
+  }
+  if (missingPrices.length > 0) {
+    throw {
+      code: 'BIZ_DISPUTE_PRICE_MISSING',
+      message: 'A unit price is required for each fuel type short',
+      details: { fuelTypes: missingPrices },
+      statusCode: 400,
+    };
+  }
+
+  const updated = await tx.deliveryDispute.update({
+    where: { id },
+    data: {
+      status: 'CLAIMED',
+      supplierId,
+      claimAmount: toDecimal(claim.claimAmount),
+      claimedAt: new Date(),
+      claimedById: userId,
+    },
+    include: deliveryDisputeRelations,
+  });
+  return { dispute: updated, claim };
+}
+
+/**
+ * Close the case. A credit note or a rejection answers a claim; a write-off absorbs the
+ * loss at any stage. The delivery leaves DISPUTED for RESOLVED.
+ */
+export async function resolveDispute(tx: Db, id: string, input: ResolveDisputeInput, userId: string) {
+  const dispute = await findDispute(tx, id);
+  if (isClosed(dispute.status)) {
+    throw { code: 'INVALID_STATUS', message: `Dispute is already closed (${dispute.status})`, statusCode: 400 };
+  }
+  if (input.outcome !== 'WRITTEN_OFF' && dispute.status !== 'CLAIMED') {
+    throw {
+      code: 'INVALID_STATUS',
+      message: 'Only a claim sent to the supplier can be credited or rejected',
+      statusCode: 400,
+    };
+  }
+  if (input.outcome === 'CREDITED' && dispute.claimAmount && input.creditedAmount! > Number(dispute.claimAmount)) {
+    throw {
+      code: 'BIZ_CREDIT_EXCEEDS_CLAIM',
+      message: 'The credited amount cannot exceed the amount claimed',
+      details: { claimAmount: Number(dispute.claimAmount) },
+      statusCode: 400,
+    };
+  }
+
+  const updated = await tx.deliveryDispute.update({
+    where: { id },
+    data: {
+      status: input.outcome,
+      creditNoteNumber: input.outcome === 'CREDITED' ? input.creditNoteNumber : null,
+      creditedAmount: input.outcome === 'CREDITED' ? new Prisma.Decimal(input.creditedAmount!) : null,
+      resolutionNote: input.resolutionNote,
+      resolvedAt: new Date(),
+      resolvedById: userId,
+    },
+    include: deliveryDisputeRelations,
+  });
+  await tx.fuelDelivery.updateMany({
+    where: { id: dispute.deliveryId, status: 'DISPUTED' },
+    data: { status: 'RESOLVED' },
+  });
+  return updated;
+}
+
+/**
+ * Supplier claims report: disputes opened over the period per supplier, with what was
+ * claimed, recovered by credit note, rejected, written off and still pending.
+ */
+export async function getSupplierClaimsReport(db: DbClient, filters: DisputeClaimsReportFilters) {
+  const createdAt: Prisma.DateTimeFilter = {};
+  if (filters.from) createdAt.gte = new Date(`${filters.from}T00:00:00.000Z`);
+  if (filters.to) createdAt.lte = new Date(`${filters.to}T23:59:59.999Z`);
+
+  const disputes = await db.deliveryDispute.findMany({
+    where: filters.from || filters.to ? { createdAt } : {},
+    include: { supplier: { select: { id: true, name: true } } },
+  });
+
+  const empty = {
+    disputes: 0,
+    shortageVolume: 0,
+    claimedAmount: 0,
+    creditedAmount: 0,
+    rejectedAmount: 0,
+    writtenOffVolume: 0,
+    pendingAmount: 0,
+    openCount: 0,
+  };
+  const bySupplier = new Map<string, { supplier: { id: string; name: string } | null } & typeof empty>();
+
+  for (const d of disputes) {
+    const key = d.supplierId ?? 'none';
+    const row = bySupplier.get(key) ?? { supplier: d.supplier, ...empty };
+    const claimAmount = Number(d.claimAmount ?? 0);
+
+    row.disputes += 1;
+    row.shortageVolume += Number(d.shortageVolume);
+    row.claimedAmount += claimAmount;
+    if (d.status === 'CREDITED') row.creditedAmount += Number(d.creditedAmount ?? 0);
+    if (d.status === 'REJECTED') row.rejectedAmount += claimAmount;
+    if (d.status === 'WRITTEN_OFF') row.writtenOffVolume += Number(d.shortageVolume);
+    if (d.status === 'CLAIMED') row.pendingAmount += claimAmount;
+    if (!isClosed(d.status)) row.openCount += 1;
+    bySupplier.set(key, row);
+  }
+
+  const suppliers = [...bySupplier.values()]
+    .map((r) => ({ ...r, recoveryRate: r.claimedAmount > 0 ? r.creditedAmount / r.claimedAmount : null }))
+    .sort((a, b) => b.claimedAmount - a.claimedAmount);
+
+  const totals = suppliers.reduce(
+    (sum, r) => ({
+      disputes: sum.disputes + r.disputes,
+      shortageVolume: sum.shortageVolume + r.shortageVolume,
+      claimedAmount: sum.claimedAmount + r.claimedAmount,
+      creditedAmount: sum.creditedAmount + r.creditedAmount,
+      rejectedAmount: sum.rejectedAmount + r.rejectedAmount,
+      writtenOffVolume: sum.writtenOffVolume + r.writtenOffVolume,
+      pendingAmount: sum.pendingAmount + r.pendingAmount,
+      openCount: sum.openCount + r.openCount,
+    }),
+    empty,
+  );
+
+  return { from: filters.from ?? null, to: filters.to ?? null, suppliers, totals };
+}
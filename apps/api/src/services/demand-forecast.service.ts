@@ -0,0 +1,182 @@
+import { FuelType, Prisma } from '@prisma/client';
+import {
+  FORECAST_HISTORY_DAYS,
+  FORECAST_MIN_HISTORY_DAYS,
+  FORECAST_HORIZON_DAYS,
+  REPLENISHMENT_LEAD_TIME_DAYS,
+  REPLENISHMENT_SAFETY_STOCK_DAYS,
+  TRUCK_COMPARTMENT_VOLUME,
+  TRUCK_CAPACITY,
+  TANK_LOW_LEVEL_PERCENT,
+} from '@alcom/shared';
+import { forecastDailyDemand, calculateReplenishmentPlan } from '@alcom/shared/src/calculations';
+import prisma from '../lib/prisma';
+import { CLOSED_SHIFT_STATUSES } from './period.service';
+
+type DbClient = Prisma.TransactionClient | typeof prisma;
+
+export interface ReplenishmentSettings {
+  leadTimeDays: number;
+  safetyStockDays: number;
+  truckCompartmentVolume: number;
+  truckCapacity: number;
+}
+
+export interface TankForecast {
+  tankId: string;
+  stationId: string;
+  stationCode: string;
+  stationName: string;
+  fuelType: FuelType;
+  capacity: number;
+  currentLevel: number;
+  ullage: number;
+  // FORECAST when the tank has enough sales history, LOW_LEVEL (20% rule) otherwise
+  basis: 'FORECAST' | 'LOW_LEVEL';
+  historyDays: number;
+  averageDailyVolume: number;
+  trendPerDay: number;
+  daysOfCover: number | null;
+  orderDate: string | null;
+  isOrderDue: boolean;
+  recommendedVolume: number;
+  settings: ReplenishmentSettings;
+  daily: { date: string; volume: number }[];
+}
+
+export interface TankForecastFilter {
+  stationIds?: string[];
+  fuelType?: FuelType;
+}
+
+/**
+ * Delivery lead time, safety stock and truck compartments of a station (station setting
+ * `replenishment`), defaulting to the network values.
+ */
+export function getReplenishmentSettings(settings: unknown): ReplenishmentSettings {
+  const custom = (settings as { replenishment?: Partial<ReplenishmentSettings> } | null)?.replenishment ?? {};
+  const positive = (value: number | undefined, fallback: number) =>
+    typeof value === 'number' && value > 0 ? value : fallback;
+  return {
+    leadTimeDays: positive(custom.leadTimeDays, REPLENISHMENT_LEAD_TIME_DAYS),
+    safetyStockDays: positive(custom.safetyStockDays, REPLENISHMENT_SAFETY_STOCK_DAYS),
+    truckCompartmentVolume: positive(custom.truckCompartmentVolume, TRUCK_COMPARTMENT_VOLUME),
+    truckCapacity: positive(custom.truckCapacity, TRUCK_CAPACITY),
+  };
+}
+
+function toDateString(date: Date): string {
+  return date.toISOString().split('T')[0]!;
+}
+
+/**
+ * Volume sold per tank and day over the closed shifts of a period (ISO date → litres).
+ * Sales are attributed to the tank feeding the pump of each nozzle.
+ */
+async function getDailySales(db: DbClient, tankIds: string[], from: Date, to: Date) {
+  const sales = await db.shiftSale.findMany({
+    where: {
+      volumeSold: { not: null },
+      nozzle: { pump: { tankId: { in: tankIds } } },
+      shiftReport: { status: { in: CLOSED_SHIFT_STATUSES }, shiftDate: { gte: from, lt: to } },
+    },
+    select: {
+      volumeSold: true,
+      nozzle: { select: { pump: { select: { tankId: true } } } },
+      shiftReport: { select: { shiftDate: true } },
+    },
+  });
+
+  const byTank = new Map<string, Map<string, number>>();
+  for (const sale of sales) {
+    const tankId = sale.nozzle.pump.tankId;
+    const date = toDateString(sale.shiftReport.shiftDate);
+    const days = byTank.get(tankId) ?? new Map<string, number>();
+    days.set(date, (days.get(date) ?? 0) + Number(sale.volumeSold));
+    byTank.set(tankId, days);
+  }
+  return byTank;
+}
+
+/**
+ * Demand forecast and replenishment plan of the tanks of active stations. The forecast
+ * uses the daily sales of the last FORECAST_HISTORY_DAYS days; a tank with less than
+ * FORECAST_MIN_HISTORY_DAYS days of sales falls back to the low-level rule.
+ */
+export async function getTankForecasts(
+  db: DbClient,
+  filter: TankForecastFilter = {},
+  today: Date = new Date(),
+): Promise<TankForecast[]> {
+  const tanks = await db.tank.findMany({
+    where: {
+      deletedAt: null,
+      ...(filter.fuelType && { fuelType: filter.fuelType }),
+      station: { isActive: true, ...(filter.stationIds && { id: { in: filter.stationIds } }) },
+    },
+    include: { station: { select: { id: true, code: true, name: true, settings: true } } },
+    orderBy: [{ station: { code: 'asc' } }, { fuelType: 'asc' }],
+  });
+
+  const todayDate = toDateString(today);
+  const to = new Date(`${todayDate}T00:00:00.000Z`);
+  const from = new Date(to.getTime() - FORECAST_HISTORY_DAYS * 86_400_000);
+  const salesByTank = await getDailySales(db, tanks.map((t) => t.id), from, to);
+
+  return tanks.map((tank) => {
+    const capacity = Number(tank.capacity);
+    const currentLevel = Number(tank.currentLevel);
+    const settings = getReplenishmentSettings(tank.station.settings);
+    const history = [...(salesByTank.get(tank.id) ?? new Map<string, number>()).entries()].map(
+      ([date, volume]) => ({ date, volume }),
+    );
+
+    const forecast = forecastDailyDemand(history, todayDate, FORECAST_HORIZON_DAYS);
+    const plan = calculateReplenishmentPlan({
+      currentLevel,
+      capacity,
+      dailyDemand: forecast.daily.map((d) => d.volume),
+      leadTimeDays: settings.leadTimeDays,
+      safetyStockDays: settings.safetyStockDays,
+      compartmentVolume: settings.truckCompartmentVolume,
+      truckCapacity: settings.truckCapacity,
+    });
+
+    const base = {
+      tankId: tank.id,
+      stationId: tank.stationId,
+      stationCode: tank.station.code,
+      stationName: tank.station.name,
+      fuelType: tank.fuelType,
+      capacity,
+      currentLevel,
+      ullage: capacity - currentLevel,
+      historyDays: history.length,
+      averageDailyVolume: Math.round(forecast.averageDailyVolume.toNumber()),
+      trendPerDay: Math.round(forecast.trendPerDay.toNumber() * 100) / 100,
+      settings,
+      daily: forecast.daily.map((d) => ({ date: d.date, volume: Math.round(d.volume.toNumber()) })),
+    };
+
+    if (history.length < FORECAST_MIN_HISTORY_DAYS) {
+      // Not enough history: order below 20% of capacity, filling the tank to 85%
+      return {
+        ...base,
+        basis: 'LOW_LEVEL' as const,
+        daysOfCover: null,
+        orderDate: null,
+        isOrderDue: currentLevel < capacity * TANK_LOW_LEVEL_PERCENT,
+        recommendedVolume: Math.max(0, Math.round(capacity * 0.85 - currentLevel)),
+      };
+    }
+
+    return {
+      ...base,
+      basis: 'FORECAST' as const,
+      daysOfCover: plan.daysOfCover === null ? null : Math.round(plan.daysOfCover.toNumber() * 10) / 10,
+      orderDate: plan.orderInDays === null ? null : forecast.daily[plan.orderInDays]!.date,
+      isOrderDue: plan.orderInDays === 0,
+      recommendedVolume: plan.recommendedVolume.toNumber(),
+    };
+  });
+}
@@ -11,7 +11,8 @@ export type EmailTemplateName =
   | 'shift-variance-alert'
   | 'incident-alert'
   | 'sla-overdue'
-  | 'daily-digest';
+  | 'daily-digest'
+  | 'supplier-claim';
 
 interface RateLimitEntry {
   timestamps: number[];
@@ -0,0 +1,79 @@
+import { Prisma, type FuelPrice } from '@prisma/client';
+
+type Db = Prisma.TransactionClient;
+
+export interface PriceScope {
+  priceZoneId: string | null;
+  stationId: string | null;
+}
+
+// Most specific scope wins: station > zone > national
+const scopeRank = (p: PriceScope) => (p.stationId ? 2 : p.priceZoneId ? 1 : 0);
+
+/**
+ * Prices sharing a scope with `scope` (same zone / station, or both null for national).
+ */
+export function sameScopeWhere(scope: PriceScope): Prisma.FuelPriceWhereInput {
+  return { priceZoneId: scope.priceZoneId ?? null, stationId: scope.stationId ?? null };
+}
+
+/**
+ * Active price per fuel type applying to a station on `date`: its own price, else its
+ * zone's, else the national price. Without a station only national prices apply.
+ */
+export async function getActivePricesForStation(
+  db: Db,
+  stationId: string | null,
+  date: Date,
+): Promise<Record<string, FuelPrice>> {
+  const station = stationId
+    ? await db.station.findUnique({ where: { id: stationId }, select: { priceZoneId: true } })
+    : null;
+
+  const scopes: Prisma.FuelPriceWhereInput[] = [{ priceZoneId: null, stationId: null }];
+  if (station?.priceZoneId) scopes.push({ priceZoneId: station.priceZoneId, stationId: null });
+  if (station) scopes.push({ stationId });
+
+  const prices = await db.fuelPrice.findMany({
+    where: { isActive: true, effectiveDate: { lte: date }, OR: scopes },
+    orderBy: { effectiveDate: 'desc' },
+  });
+
+  const byFuelType: Record<string, FuelPrice> = {};
+  for (const p of prices) {
+    const current = byFuelType[p.fuelType];
+    if (!current || scopeRank(p) > scopeRank(current)) {
+      byFuelType[p.fuelType] = p;
+    }
+  }
+  return byFuelType;
+}
+
+/**
+ * Stations a price applies to; `undefined` for a national price (all stations).
+ */
+export async function stationIdsInScope(db: Db, scope: PriceScope): Promise<string[] | undefined> {
+  if (scope.stationId) return [scope.stationId];
+  if (!scope.priceZoneId) return undefined;
+
+  const stations = await db.station.findMany({
+    where: { priceZoneId: scope.priceZoneId, deletedAt: null },
+    select: { id: true },
+  });
+  return stations.map((s) => s.id);
+}
+
+/**
+ * Active station managers and pump chiefs concerned by a price of the given scope.
+ */
+export async function findPriceRecipients(db: Db, scope: PriceScope): Promise<{ id: string }[]> {
+  const stationIds = await stationIdsInScope(db, scope);
+  return db.user.findMany({
+    where: {
+      role: { in: ['STATION_MANAGER', 'CHEF_PISTE'] },
+      isActive: true,
+      ...(stationIds && { assignedStationId: { in: stationIds } }),
+    },
+    select: { id: true },
+  });
+}
@@ -0,0 +1,203 @@
+import { Prisma } from '@prisma/client';
+import Decimal from 'decimal.js';
+import { DELIVERY_TOLERANCE_PERCENT, type RecordTransferDipsInput } from '@alcom/shared';
+import prisma from '../lib/prisma';
+import { loadCalibrationCharts, resolveDipVolume } from './calibration.service';
+
+type Db = Prisma.TransactionClient;
+type DbClient = Prisma.TransactionClient | typeof prisma;
+
+type FuelTransfer = Prisma.FuelTransferGetPayload<object>;
+
+/**
+ * Resolve the opening and closing dips of a transfer side (litres, or heights converted
+ * with the tank's calibration chart).
+ */
+async function resolveTransferDips(db: Db, tankId: string, dips: RecordTransferDipsInput) {
+  const charts = await loadCalibrationCharts(db, [tankId]);
+  const resolve = (litres?: number, height?: number) =>
+    height !== undefined ? resolveDipVolume(charts, tankId, height) : new Decimal(litres!);
+
+  return {
+    opening: resolve(dips.openingDip, dips.openingDipHeight),
+    openingHeight: dips.openingDipHeight ?? null,
+    closing: resolve(dips.closingDip, dips.closingDipHeight),
+    closingHeight: dips.closingDipHeight ?? null,
+  };
+}
+
+/**
+ * Move stock in or out of a tank with the optimistic `version` lock, and record the
+ * movement on the dip of the shift open at the tank's station, if any.
+ * Returns the id of that shift, or null when the next shift to open takes the movement over.
+ */
+async function moveTankStock(tx: Db, tankId: string, delta: Decimal): Promise<string | null> {
+  const tank = await tx.tank.findUniqueOrThrow({ where: { id: tankId } });
+  const result = await tx.tank.updateMany({
+    where: { id: tankId, version: tank.version },
+    data: {
+      currentLevel: { increment: new Prisma.Decimal(delta.toFixed(4)) },
+      version: { increment: 1 },
+    },
+  });
+  if (result.count === 0) {
+    throw {
+      code: 'BIZ_TANK_CONFLICT',
+      message: `Tank ${tankId} was modified by another process. Please retry.`,
+      statusCode: 409,
+    };
+  }
+
+  const openDip = await tx.shiftTankDip.findFirst({
+    where: { tankId, shiftReport: { status: 'OPEN' } },
+  });
+  if (!openDip) return null;
+
+  await tx.shiftTankDip.update({
+    where: { id: openDip.id },
+    data: { transfers: { increment: new Prisma.Decimal(delta.toFixed(4)) } },
+  });
+  return openDip.shiftReportId;
+}
+
+/**
+ * Record the source dips of an approved transfer and take the volume out of the source tank.
+ * Throws business errors ({ code, message, statusCode }).
+ */
+export async function dispatchTransfer(
+  tx: Db,
+  transfer: FuelTransfer,
+  dips: RecordTransferDipsInput,
+  userId: string,
+) {
+  const { opening, openingHeight, closing, closingHeight } = await resolveTransferDips(tx, transfer.sourceTankId, dips);
+  const volumeOut = opening.minus(closing);
+  if (volumeOut.lte(0)) {
+    throw {
+      code: 'BIZ_INVALID_DIP',
+      message: `Closing dip (${closing.toString()}) must be below opening dip (${opening.toString()}) on the source tank`,
+      statusCode: 400,
+    };
+  }
+
+  const shiftReportId = await moveTankStock(tx, transfer.sourceTankId, volumeOut.negated());
+
+  return tx.fuelTransfer.update({
+    where: { id: transfer.id },
+    data: {
+      status: 'IN_TRANSIT',
+      sourceOpeningDip: new Prisma.Decimal(opening.toFixed(4)),
+      sourceOpeningDipHeight: openingHeight,
+      sourceClosingDip: new Prisma.Decimal(closing.toFixed(4)),
+      sourceClosingDipHeight: closingHeight,
+      volumeOut: new Prisma.Decimal(volumeOut.toFixed(4)),
+      sourceShiftReportId: shiftReportId,
+      dispatchedById: userId,
+      dispatchedAt: new Date(),
+    },
+  });
+}
+
+/**
+ * Record the destination dips of a dispatched transfer and put the volume received into
+ * the destination tank. A transit loss beyond the delivery tolerance alerts operations.
+ * Throws business errors ({ code, message, statusCode }).
+ */
+export async function receiveTransfer(
+  tx: Db,
+  transfer: FuelTransfer,
+  dips: RecordTransferDipsInput,
+  userId: string,
+) {
+  const { opening, openingHeight, closing, closingHeight } = await resolveTransferDips(
+    tx,
+    transfer.destinationTankId,
+    dips,
+  );
+  const volumeIn = closing.minus(opening);
+  if (volumeIn.lte(0)) {
+    throw {
+      code: 'BIZ_INVALID_DIP',
+      message: `Closing dip (${closing.toString()}) must be above opening dip (${opening.toString()}) on the destination tank`,
+      statusCode: 400,
+    };
+  }
+
+  const tank = await tx.tank.findUniqueOrThrow({ where: { id: transfer.destinationTankId } });
+  const ullage = new Decimal(tank.capacity.toString()).minus(tank.currentLevel.toString());
+  if (volumeIn.gt(ullage)) {
+    throw {
+      code: 'BIZ_ULLAGE_EXCEEDED',
+      message: `Received volume ${volumeIn.toString()}L exceeds the destination tank ullage (${ullage.toFixed(2)}L)`,
+      statusCode: 400,
+    };
+  }
+
+  const shiftReportId = await moveTankStock(tx, transfer.destinationTankId, volumeIn);
+  const volumeOut = new Decimal(transfer.volumeOut!.toString());
+  const transitVariance = volumeIn.minus(volumeOut);
+
+  const updated = await tx.fuelTransfer.update({
+    where: { id: transfer.id },
+    data: {
+      status: 'COMPLETED',
+      destinationOpeningDip: new Prisma.Decimal(opening.toFixed(4)),
+      destinationOpeningDipHeight: openingHeight,
+      destinationClosingDip: new Prisma.Decimal(closing.toFixed(4)),
+      destinationClosingDipHeight: closingHeight,
+      volumeIn: new Prisma.Decimal(volumeIn.toFixed(4)),
+      transitVariance: new Prisma.Decimal(transitVariance.toFixed(4)),
+      destinationShiftReportId: shiftReportId,
+      receivedById: userId,
+      receivedAt: new Date(),
+    },
+  });
+
+  if (transitVariance.abs().gt(volumeOut.times(DELIVERY_TOLERANCE_PERCENT))) {
+    const recipients = await tx.user.findMany({
+      where: { role: { in: ['DCO', 'LOGISTICS'] }, isActive: true, deletedAt: null },
+      select: { id: true },
+    });
+    if (recipients.length > 0) {
+      await tx.notification.createMany({
+        data: recipients.map((u) => ({
+          userId: u.id,
+          type: 'TRANSFER_VARIANCE',
+          title: 'Écart de transfert de carburant',
+          message: `Transfert ${transfer.fuelType} : ${volumeOut.toFixed(0)} L sortis, ${volumeIn.toFixed(0)} L reçus (écart ${transitVariance.toFixed(2)} L)`,
+          link: '/admin/supply/transfers',
+        })),
+      });
+    }
+  }
+
+  return updated;
+}
+
+/**
+ * Transfers moved while no shift was open at the station: the next shift takes them over.
+ * Returns the transfers per side, with the net movement per tank.
+ */
+export async function findPendingTransfers(db: DbClient, stationId: string) {
+  const [outgoing, incoming] = await Promise.all([
+    db.fuelTransfer.findMany({
+      where: { sourceStationId: stationId, sourceShiftReportId: null, volumeOut: { not: null } },
+    }),
+    db.fuelTransfer.findMany({
+      where: { destinationStationId: stationId, destinationShiftReportId: null, volumeIn: { not: null } },
+    }),
+  ]);
+
+  const netByTank = new Map<string, Decimal>();
+  for (const t of outgoing) {
+    netByTank.set(t.sourceTankId, (netByTank.get(t.sourceTankId) ?? new Decimal(0)).minus(t.volumeOut!.toString()));
+  }
+  for (const t of incoming) {
+    netByTank.set(
+      t.destinationTankId,
+      (netByTank.get(t.destinationTankId) ?? new Decimal(0)).plus(t.volumeIn!.toString()),
+    );
+  }
+
+  return { outgoing, incoming, netByTank };
+}
@@ -0,0 +1,108 @@
+import { Prisma } from '@prisma/client';
+import Decimal from 'decimal.js';
+import type { RecordMeterReplacementInput } from '@alcom/shared';
+import { calculateVolumeSold } from '@alcom/shared/src/calculations';
+
+type Db = Prisma.TransactionClient;
+
+/**
+ * Record the replacement of a nozzle's meter and move the nozzle over to the new one.
+ * Made while a shift selling from the nozzle is open, the replacement splits that shift's
+ * volume; otherwise the next shift opens at the new starting index.
+ * Throws business errors ({ code, message, statusCode }).
+ */
+export async function recordMeterReplacement(
+  tx: Db,
+  nozzleId: string,
+  input: RecordMeterReplacementInput,
+  userId: string,
+) {
+  const nozzle = await tx.nozzle.findUnique({ where: { id: nozzleId } });
+  if (!nozzle) {
+    throw { code: 'NOT_FOUND', message: 'Nozzle not found', statusCode: 404 };
+  }
+
+  const oldRollover = new Decimal(nozzle.rolloverValue.toString());
+  const rolloverValue = input.rolloverValue !== undefined ? new Decimal(input.rolloverValue) : oldRollover;
+  if (new Decimal(input.oldFinalIndex).gt(oldRollover)) {
+    throw {
+      code: 'BIZ_INVALID_METER_INDEX',
+      message: `Final index exceeds the rollover value of the old meter (${oldRollover.toString()})`,
+      statusCode: 400,
+    };
+  }
+  if (new Decimal(input.newStartIndex).gt(rolloverValue)) {
+    throw {
+      code: 'BIZ_INVALID_METER_INDEX',
+      message: `Starting index exceeds the rollover value of the new meter (${rolloverValue.toString()})`,
+      statusCode: 400,
+    };
+  }
+
+  const openSale = await tx.shiftSale.findFirst({
+    where: { nozzleId, shiftReport: { status: 'OPEN' } },
+  });
+
+  const replacement = await tx.nozzleMeterReplacement.create({
+    data: {
+      nozzleId,
+      shiftReportId: openSale?.shiftReportId ?? null,
+      midShift: !!openSale,
+      oldFinalIndex: new Prisma.Decimal(new Decimal(input.oldFinalIndex).toFixed(4)),
+      oldMeterType: nozzle.meterType,
+      oldRolloverValue: nozzle.rolloverValue,
+      newStartIndex: new Prisma.Decimal(new Decimal(input.newStartIndex).toFixed(4)),
+      meterType: input.meterType ?? nozzle.meterType,
+      rolloverValue: new Prisma.Decimal(rolloverValue.toFixed(4)),
+      reason: input.reason,
+      recordedById: userId,
+    },
+  });
+
+  await tx.nozzle.update({
+    where: { id: nozzleId },
+    data: {
+      meterIndex: replacement.newStartIndex,
+      meterType: replacement.meterType,
+      rolloverValue: replacement.rolloverValue,
+    },
+  });
+
+  // Between shifts the old meter should still show the last closing index:
+  // anything it counted since was dispensed outside any shift
+  const unrecordedVolume = openSale
+    ? null
+    : calculateVolumeSold(new Decimal(nozzle.meterIndex.toString()), new Decimal(input.oldFinalIndex), oldRollover);
+
+  await tx.auditLog.create({
+    data: {
+      userId,
+      action: 'NOZZLE_METER_REPLACED',
+      entityType: 'Nozzle',
+      entityId: nozzleId,
+      changes: {
+        replacementId: replacement.id,
+        shiftReportId: replacement.shiftReportId,
+        previousMeterIndex: nozzle.meterIndex.toString(),
+        oldFinalIndex: input.oldFinalIndex,
+        newStartIndex: input.newStartIndex,
+        meterType: { from: nozzle.meterType, to: replacement.meterType },
+        rolloverValue: { from: oldRollover.toNumber(), to: rolloverValue.toNumber() },
+        ...(unrecordedVolume && { unrecordedVolume: unrecordedVolume.toNumber() }),
+      },
+    },
+  });
+
+  return replacement;
+}
+
+/**
+ * Replacements made between shifts that no shift has taken over yet: the next shift
+ * of each nozzle opens at the starting index of its new meter.
+ */
+export async function findPendingMeterReplacements(db: Db, nozzleIds: string[]) {
+  return db.nozzleMeterReplacement.findMany({
+    where: { nozzleId: { in: nozzleIds }, shiftReportId: null, midShift: false },
+    orderBy: { replacedAt: 'asc' },
+  });
+}
@@ -0,0 +1,27 @@
+import { DEFAULT_PAYMENT_METHODS, RESERVED_PAYMENT_METHOD_CODES, type PaymentMethod } from '@alcom/shared';
+
+/**
+ * Non-cash payment methods a station accepts besides bank cards (`settings.paymentMethods`).
+ * Stations that never configured them get the network defaults. Reserved codes saved before
+ * they were reserved (vouchers, fleet cards...) are left out.
+ */
+export function getPaymentMethods(settings: unknown): PaymentMethod[] {
+  const current = (settings as { paymentMethods?: PaymentMethod[] } | null) || {};
+  const methods = current.paymentMethods ?? DEFAULT_PAYMENT_METHODS.map((m) => ({ ...m }));
+  return methods.filter((m) => !RESERVED_PAYMENT_METHOD_CODES.includes(m.code));
+}
+
+/**
+ * First tender whose method the station does not accept, if any.
+ */
+export function findUnknownTender<T extends { method: string }>(settings: unknown, tenders: T[]): T | undefined {
+  const codes = new Set(getPaymentMethods(settings).map((m) => m.code));
+  return tenders.find((t) => !codes.has(t.method));
+}
+
+/**
+ * Display name of a payment method, falling back to the code for methods since removed.
+ */
+export function paymentMethodName(settings: unknown, method: string): string {
+  return getPaymentMethods(settings).find((m) => m.code === method)?.name ?? method;
+}
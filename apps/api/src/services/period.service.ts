@@ -0,0 +1,66 @@
+import { Prisma, type PeriodClose, type ShiftStatus } from '@prisma/client';
+import prisma from '../lib/prisma';
+
+type DbClient = Prisma.TransactionClient | typeof prisma;
+
+// A shift stays closed once its period is closed: it is then LOCKED
+export const CLOSED_SHIFT_STATUSES: ShiftStatus[] = ['CLOSED', 'LOCKED'];
+
+/**
+ * Calendar day of a timestamp, at UTC midnight — the same representation as
+ * the @db.Date columns (shiftDate, periodStart, periodEnd).
+ */
+export function toPeriodDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+/**
+ * First and last day of the period to close. MONTH covers the calendar month of `date`.
+ */
+export function resolvePeriodRange(periodType: 'DAY' | 'MONTH', date: string): { start: Date; end: Date } {
+  const [year, month, day] = date.split('-').map(Number) as [number, number, number];
+  if (periodType === 'DAY') {
+    const d = new Date(Date.UTC(year, month - 1, day));
+    return { start: d, end: d };
+  }
+  return {
+    start: new Date(Date.UTC(year, month - 1, 1)),
+    end: new Date(Date.UTC(year, month, 0)),
+  };
+}
+
+/**
+ * Active (not reopened) period close covering `date` for a station, if any.
+ * Entities without a station are never locked.
+ */
+export async function findPeriodLock(
+  db: DbClient,
+  stationId: string | null | undefined,
+  date: Date,
+): Promise<PeriodClose | null> {
+  if (!stationId) return null;
+  const day = toPeriodDay(date);
+  return db.periodClose.findFirst({
+    where: {
+      stationId,
+      reopenedAt: null,
+      periodStart: { lte: day },
+      periodEnd: { gte: day },
+    },
+  });
+}
+
+/**
+ * Business error ({ code, message, details, statusCode }) for a mutation
+ * attempted inside a locked period.
+ */
+export function periodLockedError(lock: PeriodClose) {
+  const start = lock.periodStart.toISOString().slice(0, 10);
+  const end = lock.periodEnd.toISOString().slice(0, 10);
+  return {
+    code: 'BIZ_PERIOD_LOCKED',
+    message: `Period ${start} – ${end} is closed for this station. Request a reopening to make changes.`,
+    details: { periodCloseId: lock.id, periodStart: start, periodEnd: end },
+    statusCode: 409,
+  };
+}
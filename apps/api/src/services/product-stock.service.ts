@@ -0,0 +1,106 @@
+import { Prisma } from '@prisma/client';
+import Decimal from 'decimal.js';
+import type { CreateProductReceiptInput } from '@alcom/shared';
+import prisma from '../lib/prisma';
+
+type Db = Prisma.TransactionClient;
+type DbClient = Prisma.TransactionClient | typeof prisma;
+
+/**
+ * Record goods received from a supplier: the station stock is increased with the optimistic
+ * `version` lock, and the receipt counted in the shift open at the station, if any.
+ * Throws business errors ({ code, message, statusCode }).
+ */
+export async function recordProductReceipt(tx: Db, input: CreateProductReceiptInput, userId: string) {
+  const product = await tx.product.findFirst({ where: { id: input.productId, deletedAt: null, isActive: true } });
+  if (!product) {
+    throw { code: 'NOT_FOUND', message: 'Product not found or inactive', statusCode: 404 };
+  }
+  const supplier = await tx.supplier.findFirst({ where: { id: input.supplierId, deletedAt: null } });
+  if (!supplier) {
+    throw { code: 'NOT_FOUND', message: 'Supplier not found', statusCode: 404 };
+  }
+
+  const quantity = new Prisma.Decimal(new Decimal(input.quantity).toFixed(4));
+  const stock = await tx.productStock.upsert({
+    where: { stationId_productId: { stationId: input.stationId, productId: input.productId } },
+    create: { stationId: input.stationId, productId: input.productId },
+    update: {},
+  });
+
+  const restocked = new Decimal(stock.quantity.toString()).plus(quantity.toString());
+  const result = await tx.productStock.updateMany({
+    where: { id: stock.id, version: stock.version },
+    data: {
+      quantity: { increment: quantity },
+      version: { increment: 1 },
+      // Back above the reorder level: the next shortage alerts again
+      ...(restocked.gt(stock.reorderLevel.toString()) && { lowStockAlertAt: null }),
+    },
+  });
+  if (result.count === 0) {
+    throw {
+      code: 'BIZ_CONCURRENCY_FAIL',
+      message: `Concurrent modification detected on product stock ${input.productId}. Please retry.`,
+      statusCode: 409,
+    };
+  }
+
+  // A product first stocked during the shift opens at zero
+  const openShift = await tx.shiftReport.findFirst({
+    where: { stationId: input.stationId, status: 'OPEN' },
+    select: { id: true },
+  });
+  if (openShift) {
+    await tx.shiftProductSale.upsert({
+      where: { shiftReportId_productId: { shiftReportId: openShift.id, productId: input.productId } },
+      create: {
+        shiftReportId: openShift.id,
+        productId: input.productId,
+        openingStock: 0,
+        receipts: quantity,
+        unitPrice: product.unitPrice,
+      },
+      update: { receipts: { increment: quantity } },
+    });
+  }
+
+  return tx.productReceipt.create({
+    data: {
+      stationId: input.stationId,
+      productId: input.productId,
+      supplierId: input.supplierId,
+      quantity,
+      unitCost: new Prisma.Decimal(new Decimal(input.unitCost).toFixed(4)),
+      reference: input.reference,
+      shiftReportId: openShift?.id ?? null,
+      receivedById: userId,
+    },
+    include: {
+      product: { select: { id: true, sku: true, name: true, unit: true } },
+      supplier: { select: { id: true, name: true } },
+      receivedBy: { select: { id: true, fullName: true } },
+    },
+  });
+}
+
+/**
+ * Stock lines of active products at or below their reorder level (a reorder level of 0
+ * disables the alert). Optionally restricted to the stations given.
+ */
+export async function findLowProductStocks(db: DbClient, stationIds?: string[]) {
+  const stocks = await db.productStock.findMany({
+    where: {
+      ...(stationIds && { stationId: { in: stationIds } }),
+      reorderLevel: { gt: 0 },
+      product: { isActive: true, deletedAt: null },
+      station: { isActive: true },
+    },
+    include: {
+      product: { select: { id: true, sku: true, name: true, unit: true } },
+      station: { select: { id: true, code: true, name: true } },
+    },
+  });
+
+  return stocks.filter((s) => new Decimal(s.quantity.toString()).lte(s.reorderLevel.toString()));
+}
@@ -0,0 +1,81 @@
+import { Prisma } from '@prisma/client';
+import Decimal from 'decimal.js';
+import { CALIBRATION_TOLERANCE_PERCENT, type RecordCalibrationTestInput } from '@alcom/shared';
+import { calculateCalibrationError } from '@alcom/shared/src/calculations';
+
+type Db = Prisma.TransactionClient;
+
+/**
+ * Record a calibration test of a nozzle against the legal tolerance. The test belongs to
+ * the shift selling from the nozzle, or waits for the next one to open, so that its volume
+ * is not counted as sold. A nozzle outside tolerance alerts the station and operations.
+ * Throws business errors ({ code, message, statusCode }).
+ */
+export async function recordCalibrationTest(
+  tx: Db,
+  nozzleId: string,
+  input: RecordCalibrationTestInput,
+  userId: string,
+) {
+  const nozzle = await tx.nozzle.findUnique({
+    where: { id: nozzleId },
+    include: { pump: { include: { station: { select: { id: true, code: true } } } } },
+  });
+  if (!nozzle) {
+    throw { code: 'NOT_FOUND', message: 'Nozzle not found', statusCode: 404 };
+  }
+
+  const { errorPercent, isWithinTolerance } = calculateCalibrationError(
+    input.dispensedVolume,
+    input.measuredVolume,
+    CALIBRATION_TOLERANCE_PERCENT,
+  );
+
+  const openSale = await tx.shiftSale.findFirst({
+    where: { nozzleId, shiftReport: { status: 'OPEN' } },
+  });
+
+  const test = await tx.nozzleCalibrationTest.create({
+    data: {
+      nozzleId,
+      shiftReportId: openSale?.shiftReportId ?? null,
+      testType: input.testType,
+      dispensedVolume: new Prisma.Decimal(new Decimal(input.dispensedVolume).toFixed(4)),
+      measuredVolume: new Prisma.Decimal(new Decimal(input.measuredVolume).toFixed(4)),
+      errorPercent: new Prisma.Decimal(errorPercent.toFixed(4)),
+      tolerancePercent: new Prisma.Decimal(new Decimal(CALIBRATION_TOLERANCE_PERCENT).times(100).toFixed(4)),
+      passed: isWithinTolerance,
+      returnedToTank: input.returnedToTank,
+      notes: input.notes,
+      testedById: userId,
+    },
+  });
+
+  if (!isWithinTolerance) {
+    const recipients = await tx.user.findMany({
+      where: {
+        OR: [
+          { assignedStationId: nozzle.pump.stationId, role: 'STATION_MANAGER' },
+          { role: { in: ['CEO', 'DCO'] } },
+        ],
+        isActive: true,
+        deletedAt: null,
+      },
+      select: { id: true },
+    });
+
+    if (recipients.length > 0) {
+      await tx.notification.createMany({
+        data: recipients.map((u) => ({
+          userId: u.id,
+          type: 'CALIBRATION_ALERT',
+          title: 'Pistolet hors tolérance',
+          message: `${nozzle.pump.station.code} — Pompe ${nozzle.pump.code} bec ${nozzle.side} : écart de ${errorPercent.toFixed(2)} % (tolérance ±${new Decimal(CALIBRATION_TOLERANCE_PERCENT).times(100).toString()} %)`,
+          link: `/admin/stations/${nozzle.pump.stationId}`,
+        })),
+      });
+    }
+  }
+
+  return test;
+}
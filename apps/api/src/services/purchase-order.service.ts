@@ -0,0 +1,239 @@
+import { FuelType, Prisma } from '@prisma/client';
+import Decimal from 'decimal.js';
+import prisma from '../lib/prisma';
+import {
+  DELIVERY_TOLERANCE_PERCENT,
+  calculateThreeWayMatch,
+  type CreatePurchaseOrderInput,
+  type InvoiceLineInput,
+} from '@alcom/shared';
+
+type Db = Prisma.TransactionClient;
+type DbClient = Prisma.TransactionClient | typeof prisma;
+
+export const purchaseOrderRelations = {
+  supplier: { select: { id: true, name: true } },
+  station: { select: { id: true, code: true, name: true } },
+  issuedBy: { select: { id: true, fullName: true } },
+  lines: { orderBy: { fuelType: 'asc' as const } },
+};
+
+function toDecimal(value: Decimal): Prisma.Decimal {
+  return new Prisma.Decimal(value.toFixed(4));
+}
+
+/**
+ * Order validated replenishment requests of one station from a supplier. Volumes are
+ * summed per fuel type and priced with the unit price given for that fuel type; the
+ * requests move to ORDERED and stay linked to the order.
+ * Throws business errors ({ code, message, details?, statusCode }).
+ */
+export async function createPurchaseOrder(tx: Db, input: CreatePurchaseOrderInput, userId: string) {
+  const supplier = await tx.supplier.findFirst({
+    where: { id: input.supplierId, deletedAt: null, isActive: true },
+  });
+  if (!supplier) {
+    throw { code: 'SUPPLIER_NOT_FOUND', message: 'Supplier not found or inactive', statusCode: 404 };
+  }
+
+  const requests = await tx.replenishmentRequest.findMany({
+    where: { id: { in: input.replenishmentRequestIds } },
+    include: { station: { select: { id: true, code: true } } },
+  });
+  if (requests.length !== input.replenishmentRequestIds.length) {
+    throw { code: 'NOT_FOUND', message: 'Replenishment request not found', statusCode: 404 };
+  }
+
+  const notOrderable = requests.filter((r) => r.status !== 'VALIDATED' || r.purchaseOrderId);
+  if (notOrderable.length > 0) {
+    throw {
+      code: 'BIZ_REQUEST_NOT_ORDERABLE',
+      message: 'Only validated requests that are not ordered yet can be put on a purchase order',
+      details: { requestIds: notOrderable.map((r) => r.id) },
+      statusCode: 409,
+    };
+  }
+
+  const station = requests[0]!.station;
+  if (requests.some((r) => r.stationId !== station.id)) {
+    throw {
+      code: 'BIZ_PO_MIXED_STATIONS',
+      message: 'A purchase order is delivered to a single station',
+      statusCode: 400,
+    };
+  }
+
+  const volumes = new Map<FuelType, Decimal>();
+  for (const r of requests) {
+    volumes.set(r.fuelType, (volumes.get(r.fuelType) ?? new Decimal(0)).plus(r.requestedVolume.toString()));
+  }
+  const missing = [...volumes.keys()].filter((fuelType) => !input.prices.some((p) => p.fuelType === fuelType));
+  if (missing.length > 0) {
+    throw {
+      code: 'BIZ_PO_PRICE_MISSING',
+      message: 'A unit price is required for each fuel type ordered',
+      details: { fuelTypes: missing },
+      statusCode: 400,
+    };
+  }
+
+  const lines = [...volumes.entries()].map(([fuelType, volume]) => {
+    const unitPrice = new Decimal(input.prices.find((p) => p.fuelType === fuelType)!.unitPrice);
+    return { fuelType, volume, unitPrice, amount: volume.times(unitPrice) };
+  });
+  const totalAmount = lines.reduce<Decimal>((sum, l) => sum.plus(l.amount), new Decimal(0));
+
+  const today = new Date().toISOString().slice(0, 10);
+  const issuedToday = await tx.purchaseOrder.count({
+    where: { stationId: station.id, createdAt: { gte: new Date(`${today}T00:00:00.000Z`) } },
+  });
+  const poNumber = `BC-${station.code}-${today.replace(/-/g, '')}-${String(issuedToday + 1).padStart(2, '0')}`;
+
+  const order = await tx.purchaseOrder.create({
+    data: {
+      poNumber,
+      supplierId: supplier.id,
+      stationId: station.id,
+      expectedDate: input.expectedDate ? new Date(input.expectedDate) : null,
+      notes: input.notes,
+      totalAmount: toDecimal(totalAmount),
+      issuedById: userId,
+      lines: {
+        create: lines.map((l) => ({
+          fuelType: l.fuelType,
+          volume: toDecimal(l.volume),
+          unitPrice: toDecimal(l.unitPrice),
+          amount: toDecimal(l.amount),
+        })),
+      },
+    },
+    include: purchaseOrderRelations,
+  });
+
+  const ordered = await tx.replenishmentRequest.updateMany({
+    where: { id: { in: input.replenishmentRequestIds }, status: 'VALIDATED', purchaseOrderId: null },
+    data: { status: 'ORDERED', purchaseOrderId: order.id },
+  });
+  if (ordered.count !== requests.length) {
+    throw {
+      code: 'BIZ_CONCURRENCY_FAIL',
+      message: 'Some requests were ordered concurrently. Please retry.',
+      statusCode: 409,
+    };
+  }
+
+  return order;
+}
+
+/**
+ * Cancel an order nothing was delivered against. Its requests go back to VALIDATED so
+ * they can be ordered again, from the same or another supplier.
+ */
+export async function cancelPurchaseOrder(tx: Db, id: string) {
+  const order = await tx.purchaseOrder.findUnique({
+    where: { id },
+    include: { _count: { select: { deliveries: true } } },
+  });
+  if (!order) {
+    throw { code: 'NOT_FOUND', message: 'Purchase order not found', statusCode: 404 };
+  }
+  if (order.status !== 'ISSUED') {
+    throw { code: 'INVALID_STATUS', message: `Cannot cancel a purchase order with status ${order.status}`, statusCode: 400 };
+  }
+  if (order._count.deliveries > 0) {
+    throw {
+      code: 'BIZ_PO_HAS_DELIVERIES',
+      message: 'Deliveries were recorded against this purchase order',
+      statusCode: 409,
+    };
+  }
+
+  const requests = await tx.replenishmentRequest.findMany({ where: { purchaseOrderId: id }, select: { id: true } });
+  await tx.replenishmentRequest.updateMany({
+    where: { purchaseOrderId: id },
+    data: { status: 'VALIDATED', purchaseOrderId: null },
+  });
+
+  const cancelled = await tx.purchaseOrder.update({
+    where: { id },
+    data: { status: 'CANCELLED', cancelledAt: new Date() },
+    include: purchaseOrderRelations,
+  });
+  return { order: cancelled, requestIds: requests.map((r) => r.id) };
+}
+
+/**
+ * A delivery against the order was completed: the order is received and its
+ * requests are fulfilled.
+ */
+export async function markPurchaseOrderReceived(tx: Db, id: string) {
+  await tx.purchaseOrder.updateMany({ where: { id, status: 'ISSUED' }, data: { status: 'RECEIVED' } });
+  await tx.replenishmentRequest.updateMany({
+    where: { purchaseOrderId: id, status: 'ORDERED' },
+    data: { status: 'COMPLETED' },
+  });
+}
+
+/**
+ * Volume physically received per fuel type over the completed deliveries of an order
+ * (ambient litres measured by dips, before any correction to 15 °C).
+ */
+export async function getReceivedVolumes(db: DbClient, purchaseOrderId: string): Promise<Map<string, Decimal>> {
+  const received = await db.deliveryCompartment.groupBy({
+    by: ['fuelType'],
+    where: {
+      delivery: { purchaseOrderId, status: { in: ['VALIDATED', 'DISPUTED', 'RESOLVED'] } },
+      physicalReceived: { not: null },
+    },
+    _sum: { physicalReceived: true },
+  });
+  return new Map(received.map((r) => [r.fuelType, new Decimal((r._sum.physicalReceived ?? 0).toString())]));
+}
+
+/**
+ * Three-way match of invoice lines against the purchase order (price) and the volumes
+ * physically received on its deliveries (quantity). Fuel types ordered but not billed,
+ * or billed but not ordered, are matched against zero.
+ */
+export async function matchInvoice(db: DbClient, purchaseOrderId: string, lines: InvoiceLineInput[]) {
+  const [orderLines, received] = await Promise.all([
+    db.purchaseOrderLine.findMany({ where: { purchaseOrderId } }),
+    getReceivedVolumes(db, purchaseOrderId),
+  ]);
+
+  const fuelTypes = [...new Set([...orderLines.map((l) => l.fuelType as string), ...lines.map((l) => l.fuelType)])];
+  const match = calculateThreeWayMatch(
+    fuelTypes.map((fuelType) => {
+      const ordered = orderLines.find((l) => l.fuelType === fuelType);
+      const invoiced = lines.find((l) => l.fuelType === fuelType);
+      return {
+        fuelType,
+        orderedVolume: Number(ordered?.volume ?? 0),
+        orderedPrice: Number(ordered?.unitPrice ?? 0),
+        receivedVolume: received.get(fuelType) ?? 0,
+        invoicedQuantity: invoiced?.quantity ?? 0,
+        invoicedPrice: invoiced?.unitPrice ?? 0,
+      };
+    }),
+    DELIVERY_TOLERANCE_PERCENT,
+  );
+
+  return {
+    matched: match.matched,
+    lines: match.lines.map((l) => ({
+      fuelType: l.fuelType,
+      orderedVolume: l.orderedVolume.toNumber(),
+      orderedPrice: l.orderedPrice.toNumber(),
+      receivedVolume: l.receivedVolume.toNumber(),
+      invoicedQuantity: l.invoicedQuantity.toNumber(),
+      invoicedPrice: l.invoicedPrice.toNumber(),
+      quantityVariance: l.quantityVariance.toNumber(),
+      priceVariance: l.priceVariance.toNumber(),
+      amountVariance: l.amountVariance.toNumber(),
+      quantityMatched: l.quantityMatched,
+      priceMatched: l.priceMatched,
+    })),
+  };
+}
+
+export type InvoiceMatch = Awaited<ReturnType<typeof matchInvoice>>;
@@ -0,0 +1,349 @@
+import { Prisma } from '@prisma/client';
+import Decimal from 'decimal.js';
+import type { ProposeShiftCorrectionInput } from '@alcom/shared';
+import {
+  applyAttendantSettlement,
+  applyShiftPayments,
+  computeShiftSettlement,
+  loadClosedShiftInput,
+  type SettlementInput,
+  type ShiftSettlement,
+} from './shift-settlement.service';
+import { findUnknownTender, getPaymentMethods } from './payment-method.service';
+import { refreshShiftCashDeposits } from './cash-deposit.service';
+import { compareShifts } from './shift-pattern.service';
+
+export interface CorrectionProposal extends SettlementInput {
+  justification: string | null;
+}
+
+type BeforeAfter = { before: number | null; after: number | null };
+
+export interface CorrectionDiff {
+  sales: { nozzleId: string; closingIndex: BeforeAfter; volumeSold: BeforeAfter; revenue: BeforeAfter }[];
+  tankDips: { tankId: string; closingLevel: BeforeAfter; stockVariance: BeforeAfter }[];
+  tenders: { method: string; amount: BeforeAfter }[];
+  totals: Record<
+    'totalRevenue' | 'cashCounted' | 'cardAmount' | 'expensesAmount' | 'theoreticalCash' | 'cashVariance' | 'stockVariance',
+    BeforeAfter
+  >;
+}
+
+const num = (v: unknown): number | null => (v === null || v === undefined ? null : Number(v));
+
+/**
+ * Overlay the corrected readings on the closed shift's current ones.
+ */
+export async function buildCorrectionProposal(
+  tx: Prisma.TransactionClient,
+  shiftId: string,
+  input: ProposeShiftCorrectionInput,
+): Promise<CorrectionProposal> {
+  const current = await loadClosedShiftInput(tx, shiftId);
+  const shift = await tx.shiftReport.findUniqueOrThrow({
+    where: { id: shiftId },
+    select: { justification: true, station: { select: { settings: true } } },
+  });
+
+  for (const sale of input.sales ?? []) {
+    if (!current.sales.some((s) => s.nozzleId === sale.nozzleId)) {
+      throw { code: 'BIZ_NOZZLE_NOT_IN_SHIFT', message: `Nozzle ${sale.nozzleId} not found in this shift`, statusCode: 400 };
+    }
+  }
+  for (const dip of input.tankDips ?? []) {
+    if (!current.tankDips.some((d) => d.tankId === dip.tankId)) {
+      throw { code: 'BIZ_TANK_NOT_IN_SHIFT', message: `Tank ${dip.tankId} not found in this shift`, statusCode: 400 };
+    }
+  }
+
+  const unknownTender = findUnknownTender(shift.station.settings, input.cash?.tenders ?? []);
+  if (unknownTender) {
+    throw {
+      code: 'BIZ_INVALID_PAYMENT_METHOD',
+      message: `Payment method ${unknownTender.method} is not accepted by this station`,
+      details: { allowed: getPaymentMethods(shift.station.settings).map((m) => m.code) },
+      statusCode: 400,
+    };
+  }
+
+  return {
+    sales: current.sales.map((s) => input.sales?.find((c) => c.nozzleId === s.nozzleId) ?? s),
+    tankDips: current.tankDips.map((d) => input.tankDips?.find((c) => c.tankId === d.tankId) ?? d),
+    // Tenders, when sent, replace the whole list
+    cash: { ...current.cash, ...input.cash, tenders: input.cash?.tenders ?? current.cash.tenders },
+    // Shop sales and cylinder counts are not corrected: carried over as closed
+    products: current.products,
+    cylinders: current.cylinders,
+    justification: input.justification ?? shift.justification,
+  };
+}
+
+/**
+ * Before / after figures of a correction. Only changed sales and dips are listed;
+ * shift totals are always included.
+ */
+export async function buildCorrectionDiff(
+  tx: Prisma.TransactionClient,
+  shiftId: string,
+  settlement: ShiftSettlement,
+): Promise<CorrectionDiff> {
+  const shift = await tx.shiftReport.findUniqueOrThrow({
+    where: { id: shiftId },
+    include: { sales: true, tankDips: true, payments: true },
+  });
+
+  const sales = settlement.saleUpdates
+    .map((u) => {
+      const sale = shift.sales.find((s) => s.id === u.saleId)!;
+      return {
+        nozzleId: u.nozzleId,
+        closingIndex: { before: num(sale.closingIndex), after: num(u.data.closingIndex) },
+        volumeSold: { before: num(sale.volumeSold), after: num(u.data.volumeSold) },
+        revenue: { before: num(sale.revenue), after: num(u.data.revenue) },
+      };
+    })
+    .filter((d) => d.closingIndex.before !== d.closingIndex.after);
+
+  const tankDips = settlement.dipUpdates
+    .map((u) => {
+      const dip = shift.tankDips.find((d) => d.id === u.dipId)!;
+      return {
+        tankId: u.tankId,
+        closingLevel: { before: num(dip.closingLevel), after: num(u.data.closingLevel) },
+        stockVariance: { before: num(dip.stockVariance), after: num(u.data.stockVariance) },
+      };
+    })
+    .filter((d) => d.closingLevel.before !== d.closingLevel.after || d.stockVariance.before !== d.stockVariance.after);
+
+  const tenderMethods = new Set([...shift.payments.map((p) => p.method), ...settlement.tenders.map((t) => t.method)]);
+  const tenders = [...tenderMethods]
+    .map((method) => ({
+      method,
+      amount: {
+        before: num(shift.payments.find((p) => p.method === method)?.amount) ?? 0,
+        after: settlement.tenders.find((t) => t.method === method)?.amount.toDecimalPlaces(4).toNumber() ?? 0,
+      },
+    }))
+    .filter((d) => d.amount.before !== d.amount.after);
+
+  const pair = (before: unknown, after: Decimal): BeforeAfter => ({
+    before: num(before),
+    after: after.toDecimalPlaces(4).toNumber(),
+  });
+
+  return {
+    sales,
+    tankDips,
+    tenders,
+    totals: {
+      totalRevenue: pair(shift.totalRevenue, settlement.totalRevenue),
+      cashCounted: pair(shift.cashCounted, settlement.cashCounted),
+      cardAmount: pair(shift.cardAmount, settlement.cardAmount),
+      expensesAmount: pair(shift.expensesAmount, settlement.expensesAmount),
+      theoreticalCash: pair(shift.theoreticalCash, settlement.theoreticalCash),
+      cashVariance: pair(shift.cashVariance, settlement.cashVariance),
+      stockVariance: pair(shift.stockVariance, settlement.totalStockVariance),
+    },
+  };
+}
+
+/**
+ * Write a settlement's sale, price segment, dip, attendant, tender and total figures onto a shift.
+ */
+export async function applySettlement(
+  tx: Prisma.TransactionClient,
+  shiftId: string,
+  settlement: ShiftSettlement,
+  data: Prisma.ShiftReportUncheckedUpdateInput = {},
+) {
+  for (const su of settlement.saleUpdates) {
+    await tx.shiftSale.update({ where: { id: su.saleId }, data: su.data });
+  }
+  for (const gu of settlement.segmentUpdates) {
+    await tx.shiftSaleSegment.update({ where: { id: gu.segmentId }, data: gu.data });
+  }
+  for (const du of settlement.dipUpdates) {
+    await tx.shiftTankDip.update({ where: { id: du.dipId }, data: du.data });
+  }
+  await applyAttendantSettlement(tx, shiftId, settlement);
+  await applyShiftPayments(tx, shiftId, settlement);
+
+  const updated = await tx.shiftReport.update({
+    where: { id: shiftId },
+    data: {
+      totalRevenue: new Prisma.Decimal(settlement.totalRevenue.toFixed(4)),
+      shopRevenue: new Prisma.Decimal(settlement.shopRevenue.toFixed(4)),
+      cylinderRevenue: new Prisma.Decimal(settlement.cylinderRevenue.toFixed(4)),
+      creditSalesAmount: new Prisma.Decimal(settlement.creditSalesAmount.toFixed(4)),
+      couponsAmount: new Prisma.Decimal(settlement.couponsAmount.toFixed(4)),
+      cylinderVariance: settlement.totalCylinderVariance,
+      cashCounted: new Prisma.Decimal(settlement.cashCounted.toFixed(4)),
+      cardAmount: new Prisma.Decimal(settlement.cardAmount.toFixed(4)),
+      expensesAmount: new Prisma.Decimal(settlement.expensesAmount.toFixed(4)),
+      theoreticalCash: new Prisma.Decimal(settlement.theoreticalCash.toFixed(4)),
+      cashVariance: new Prisma.Decimal(settlement.cashVariance.toFixed(4)),
+      stockVariance: new Prisma.Decimal(settlement.totalStockVariance.toFixed(4)),
+      ...data,
+    },
+  });
+  // A corrected cash count may no longer match the deposits made for the shift
+  await refreshShiftCashDeposits(tx, [shiftId]);
+  return updated;
+}
+
+/**
+ * Shift opened after this one at its station, in shift date and pattern order (a shift
+ * entered late is not the next one just because it was created last).
+ */
+async function findNextShift(
+  tx: Prisma.TransactionClient,
+  shift: { id: string; stationId: string; shiftDate: Date; shiftType: string; createdAt: Date },
+  compare: ReturnType<typeof compareShifts>,
+) {
+  const sameDay = await tx.shiftReport.findMany({
+    where: { stationId: shift.stationId, shiftDate: shift.shiftDate, id: { not: shift.id } },
+  });
+  const later = sameDay.filter((s) => compare(s, shift) > 0).sort(compare);
+  if (later.length > 0) return later[0]!;
+
+  const nextDay = await tx.shiftReport.findFirst({
+    where: { stationId: shift.stationId, shiftDate: { gt: shift.shiftDate } },
+    orderBy: { shiftDate: 'asc' },
+    select: { shiftDate: true },
+  });
+  if (!nextDay) return null;
+
+  const nextDayShifts = await tx.shiftReport.findMany({
+    where: { stationId: shift.stationId, shiftDate: nextDay.shiftDate },
+  });
+  return nextDayShifts.sort(compare)[0] ?? null;
+}
+
+/**
+ * Apply an approved correction to a CLOSED shift and cascade it:
+ * - the following shift's opening indices / opening dips take the corrected closing values,
+ *   and a CLOSED following shift is re-settled from its own (unchanged) closing readings;
+ * - with no following shift (or an OPEN one), nozzle meters and tank levels are adjusted
+ *   since they still derive from this shift's closing.
+ */
+export async function applyShiftCorrection(
+  tx: Prisma.TransactionClient,
+  shiftId: string,
+  proposal: CorrectionProposal,
+): Promise<{ settlement: ShiftSettlement; nextShiftId: string | null }> {
+  const shift = await tx.shiftReport.findUniqueOrThrow({
+    where: { id: shiftId },
+    include: { tankDips: true, station: { select: { settings: true } } },
+  });
+  const priceSnapshot = (shift.appliedPriceSnapshot as Record<string, number> | null) || {};
+
+  const settlement = await computeShiftSettlement(tx, shiftId, priceSnapshot, proposal);
+
+  const hasVariance =
+    !settlement.cashVariance.isZero() ||
+    !settlement.totalStockVariance.isZero() ||
+    settlement.totalCylinderVariance !== 0;
+  if (hasVariance && !proposal.justification) {
+    throw {
+      code: 'BIZ_JUSTIFICATION_REQUIRED',
+      message: 'Variance detected. A justification is required for the corrected shift.',
+      details: {
+        cashVariance: settlement.cashVariance.toNumber(),
+        totalStockVariance: settlement.totalStockVariance.toNumber(),
+        totalCylinderVariance: settlement.totalCylinderVariance,
+      },
+      statusCode: 400,
+    };
+  }
+
+  const previousClosing = new Map(shift.tankDips.map((d) => [d.tankId, new Decimal((d.closingLevel ?? d.openingLevel).toString())]));
+
+  await applySettlement(tx, shiftId, settlement, { justification: proposal.justification });
+
+  const nextShift = await findNextShift(tx, shift, compareShifts(shift.station.settings));
+
+  if (nextShift?.status === 'LOCKED') {
+    throw {
+      code: 'BIZ_SHIFT_LOCKED',
+      message: 'The following shift belongs to a closed period; the correction cannot be cascaded.',
+      details: { nextShiftId: nextShift.id },
+      statusCode: 409,
+    };
+  }
+
+  // Nozzles whose meter was replaced after this shift no longer read its closing index
+  const replacedNozzleIds = new Set(
+    (
+      await tx.nozzleMeterReplacement.findMany({
+        where: nextShift ? { shiftReportId: nextShift.id, midShift: false } : { shiftReportId: null, midShift: false },
+        select: { nozzleId: true },
+      })
+    ).map((r) => r.nozzleId),
+  );
+
+  if (nextShift) {
+    for (const su of settlement.saleUpdates) {
+      if (replacedNozzleIds.has(su.nozzleId)) continue;
+      await tx.shiftSale.updateMany({
+        where: { shiftReportId: nextShift.id, nozzleId: su.nozzleId },
+        data: { openingIndex: su.data.closingIndex as Prisma.Decimal },
+      });
+    }
+    for (const du of settlement.dipUpdates) {
+      await tx.shiftTankDip.updateMany({
+        where: { shiftReportId: nextShift.id, tankId: du.tankId },
+        data: {
+          openingLevel: du.data.closingLevel as Prisma.Decimal,
+          openingHeight: du.data.closingHeight as Prisma.Decimal | null,
+          openingTemperature: du.data.closingTemperature as number | null,
+        },
+      });
+    }
+
+    if (nextShift.status === 'CLOSED') {
+      const nextSettlement = await computeShiftSettlement(
+        tx,
+        nextShift.id,
+        (nextShift.appliedPriceSnapshot as Record<string, number> | null) || {},
+        await loadClosedShiftInput(tx, nextShift.id),
+      );
+      await applySettlement(tx, nextShift.id, nextSettlement);
+      return { settlement, nextShiftId: nextShift.id };
+    }
+  } else {
+    for (const su of settlement.saleUpdates) {
+      if (replacedNozzleIds.has(su.nozzleId)) continue;
+      await tx.nozzle.update({
+        where: { id: su.nozzleId },
+        data: { meterIndex: su.data.closingIndex as Prisma.Decimal },
+      });
+    }
+  }
+
+  // Tank levels still follow this shift's closing dip: shift them by the correction
+  for (const [tankId, corrected] of Object.entries(settlement.physicalByTank)) {
+    const delta = corrected.minus(previousClosing.get(tankId) ?? corrected);
+    if (delta.isZero()) continue;
+
+    const tank = await tx.tank.findUnique({ where: { id: tankId } });
+    if (!tank) continue;
+
+    const updated = await tx.tank.updateMany({
+      where: { id: tankId, version: tank.version },
+      data: {
+        currentLevel: new Prisma.Decimal(Decimal.max(0, new Decimal(tank.currentLevel.toString()).plus(delta)).toFixed(4)),
+        version: { increment: 1 },
+      },
+    });
+
+    if (updated.count === 0) {
+      throw {
+        code: 'BIZ_CONCURRENCY_FAIL',
+        message: `Concurrent modification detected on tank ${tankId}. Please retry.`,
+        statusCode: 409,
+      };
+    }
+  }
+
+  return { settlement, nextShiftId: nextShift?.id ?? null };
+}
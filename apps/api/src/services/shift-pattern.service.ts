@@ -0,0 +1,51 @@
+import { DEFAULT_SHIFT_PATTERNS, type ShiftPattern } from '@alcom/shared';
+
+/**
+ * Shift patterns of a station (`settings.shiftPatterns`). Stations configured before
+ * patterns existed keep their MORNING / EVENING shifts, starting at their `openingHours`.
+ */
+export function getShiftPatterns(settings: unknown): ShiftPattern[] {
+  const current = (settings as { shiftPatterns?: ShiftPattern[]; openingHours?: Record<string, string> } | null) || {};
+  if (current.shiftPatterns && current.shiftPatterns.length > 0) {
+    return current.shiftPatterns;
+  }
+
+  const [morning, evening] = DEFAULT_SHIFT_PATTERNS.map((p) => ({ ...p }));
+  const morningStart = current.openingHours?.morning ?? morning!.startTime;
+  const eveningStart = current.openingHours?.evening ?? evening!.startTime;
+  return [
+    { ...morning!, startTime: morningStart, endTime: eveningStart, crossesMidnight: eveningStart <= morningStart },
+    { ...evening!, startTime: eveningStart, endTime: morningStart, crossesMidnight: morningStart <= eveningStart },
+  ];
+}
+
+/**
+ * The station's shift pattern for a shift type code, if defined.
+ */
+export function findShiftPattern(settings: unknown, shiftType: string): ShiftPattern | undefined {
+  return getShiftPatterns(settings).find((p) => p.code === shiftType);
+}
+
+/**
+ * Display name of a shift type, falling back to the code for patterns since removed.
+ */
+export function shiftPatternName(settings: unknown, shiftType: string): string {
+  return findShiftPattern(settings, shiftType)?.name ?? shiftType;
+}
+
+/**
+ * Chronological order of a station's shifts: by date, then by the start time of their
+ * pattern within the day, then by creation for types without a pattern.
+ */
+export function compareShifts(settings: unknown) {
+  const patterns = getShiftPatterns(settings);
+  const startOf = (shiftType: string) => patterns.find((p) => p.code === shiftType)?.startTime ?? '99:99';
+
+  return (
+    a: { shiftDate: Date; shiftType: string; createdAt: Date },
+    b: { shiftDate: Date; shiftType: string; createdAt: Date },
+  ): number =>
+    a.shiftDate.getTime() - b.shiftDate.getTime() ||
+    startOf(a.shiftType).localeCompare(startOf(b.shiftType)) ||
+    a.createdAt.getTime() - b.createdAt.getTime();
+}
@@ -0,0 +1,139 @@
+import { Prisma, type FuelPrice } from '@prisma/client';
+import Decimal from 'decimal.js';
+import { getActivePricesForStation, stationIdsInScope, findPriceRecipients } from './fuel-price.service';
+
+type Db = Prisma.TransactionClient;
+
+/**
+ * Ask for a meter-reading checkpoint on every open shift a newly active price applies to,
+ * so the litres sold from then on are billed at the new price. A checkpoint not yet
+ * recorded for the same fuel type is moved to the new price rather than duplicated.
+ * Returns the ids of the shifts concerned.
+ */
+export async function requestShiftPriceChanges(db: Db, prices: FuelPrice[]): Promise<string[]> {
+  const shiftIds = new Set<string>();
+  const now = new Date();
+
+  for (const price of prices) {
+    const stationIds = await stationIdsInScope(db, price);
+    const shifts = await db.shiftReport.findMany({
+      where: { status: 'OPEN', ...(stationIds && { stationId: { in: stationIds } }) },
+      include: {
+        priceChanges: { where: { fuelType: price.fuelType }, orderBy: { createdAt: 'asc' } },
+      },
+    });
+
+    for (const shift of shifts) {
+      // A more specific price (station over zone over national) may still apply
+      const active = await getActivePricesForStation(db, shift.stationId, now);
+      if (active[price.fuelType]?.id !== price.id) continue;
+
+      const pending = shift.priceChanges.find((c) => !c.recordedAt);
+      if (pending) {
+        await db.shiftPriceChange.update({
+          where: { id: pending.id },
+          data: { fuelPriceId: price.id, unitPrice: price.price, effectiveAt: price.effectiveDate },
+        });
+        shiftIds.add(shift.id);
+        continue;
+      }
+
+      const snapshot = (shift.appliedPriceSnapshot as Record<string, number> | null) || {};
+      const lastRecorded = shift.priceChanges[shift.priceChanges.length - 1];
+      const currentPrice = lastRecorded ? lastRecorded.unitPrice.toString() : snapshot[price.fuelType];
+      if (currentPrice !== undefined && new Decimal(currentPrice).equals(price.price.toString())) continue;
+
+      await db.shiftPriceChange.create({
+        data: {
+          shiftReportId: shift.id,
+          fuelType: price.fuelType,
+          fuelPriceId: price.id,
+          unitPrice: price.price,
+          effectiveAt: price.effectiveDate,
+        },
+      });
+      shiftIds.add(shift.id);
+
+      const recipients = await findPriceRecipients(db, { priceZoneId: null, stationId: shift.stationId });
+      if (recipients.length > 0) {
+        await db.notification.createMany({
+          data: recipients.map((u) => ({
+            userId: u.id,
+            type: 'SHIFT_PRICE_CHANGE',
+            title: 'Relevé des index requis',
+            message: `Nouveau prix ${price.fuelType} (${Number(price.price).toLocaleString('fr-FR')} XAF) en vigueur pendant le quart en cours : relevez les index des pistolets concernés.`,
+            link: `/admin/shifts/${shift.id}`,
+          })),
+        });
+      }
+    }
+  }
+
+  return [...shiftIds];
+}
+
+/**
+ * Split the sales of a price change's fuel type at the meter readings taken when it
+ * became effective: the current segment of each nozzle ends at its reading and a new
+ * one starts there at the new price. Throws business errors ({ code, message, statusCode }).
+ */
+export async function recordShiftPriceChange(
+  tx: Db,
+  shiftId: string,
+  priceChangeId: string,
+  readings: { nozzleId: string; meterIndex: number }[],
+  userId: string,
+) {
+  const change = await tx.shiftPriceChange.findFirst({ where: { id: priceChangeId, shiftReportId: shiftId } });
+  if (!change) {
+    throw { code: 'NOT_FOUND', message: 'Price change not found', statusCode: 404 };
+  }
+  if (change.recordedAt) {
+    throw { code: 'BIZ_PRICE_CHANGE_RECORDED', message: 'Meter readings already recorded for this price change', statusCode: 409 };
+  }
+
+  const sales = await tx.shiftSale.findMany({
+    where: { shiftReportId: shiftId, nozzle: { pump: { tank: { fuelType: change.fuelType } } } },
+    include: { segments: { orderBy: { createdAt: 'asc' } } },
+  });
+
+  const unknown = readings.filter((r) => !sales.some((s) => s.nozzleId === r.nozzleId));
+  if (unknown.length > 0) {
+    throw {
+      code: 'BIZ_NOZZLE_NOT_IN_SHIFT',
+      message: `Nozzles not selling ${change.fuelType} in this shift`,
+      details: { nozzleIds: unknown.map((r) => r.nozzleId) },
+      statusCode: 400,
+    };
+  }
+  const missing = sales.filter((s) => !readings.some((r) => r.nozzleId === s.nozzleId));
+  if (missing.length > 0) {
+    throw {
+      code: 'BIZ_METER_READING_REQUIRED',
+      message: `Every ${change.fuelType} nozzle must be read`,
+      details: { nozzleIds: missing.map((s) => s.nozzleId) },
+      statusCode: 400,
+    };
+  }
+
+  for (const sale of sales) {
+    const index = new Prisma.Decimal(new Decimal(readings.find((r) => r.nozzleId === sale.nozzleId)!.meterIndex).toFixed(4));
+    const current = sale.segments[sale.segments.length - 1];
+
+    if (current) {
+      await tx.shiftSaleSegment.update({ where: { id: current.id }, data: { endIndex: index } });
+    } else {
+      await tx.shiftSaleSegment.create({
+        data: { shiftSaleId: sale.id, startIndex: sale.openingIndex, endIndex: index, unitPrice: sale.unitPrice },
+      });
+    }
+    await tx.shiftSaleSegment.create({
+      data: { shiftSaleId: sale.id, priceChangeId: change.id, startIndex: index, unitPrice: change.unitPrice },
+    });
+  }
+
+  return tx.shiftPriceChange.update({
+    where: { id: change.id },
+    data: { recordedAt: new Date(), recordedById: userId },
+  });
+}
@@ -0,0 +1,713 @@
+import { Prisma } from '@prisma/client';
+import Decimal from 'decimal.js';
+import {
+  calculateVolumeAcrossReplacements,
+  calculateRevenue,
+  calculateSegmentedRevenue,
+  calculateTheoreticalCash,
+  calculateCashVariance,
+  allocateProRata,
+  calculateTheoreticalStock,
+  calculateStockVariance,
+  calculateVolumeCorrectionFactor,
+} from '@alcom/shared/src/calculations';
+import { loadCalibrationCharts, resolveDipVolume } from './calibration.service';
+
+export interface SettlementInput {
+  sales: { nozzleId: string; closingIndex: number }[];
+  tankDips: {
+    tankId: string;
+    physicalLevel?: number;
+    dipHeight?: number;
+    temperature?: number;
+    density?: number;
+  }[];
+  cash: {
+    counted: number;
+    card: number;
+    expenses: number;
+    // Non-cash tenders besides cards (mobile money...)
+    tenders?: { method: string; amount: number }[];
+  };
+  // Shop products sold and counted at closing
+  products?: { productId: string; quantitySold: number; countedStock: number }[];
+  // Full and empty gas bottles counted at closing
+  cylinders?: { cylinderTypeId: string; countedFull: number; countedEmpty: number }[];
+}
+
+export interface AttendantSettlement {
+  attendantId: string;
+  volumeSold: Decimal;
+  revenue: Decimal;
+  cashDeclared: Decimal;
+  cardAmount: Decimal;
+  // Credit sales served at the nozzles the attendant held
+  creditSalesAmount: Decimal;
+  // Share of the shift's other non-cash tenders (mobile money...), of its coupons and of the
+  // credit sales entered without a nozzle, in proportion to revenue
+  tendersAmount: Decimal;
+  theoreticalCash: Decimal;
+  cashVariance: Decimal;
+}
+
+export interface ShiftSettlement {
+  // Fuel, shop and gas cylinder revenue
+  totalRevenue: Decimal;
+  shopRevenue: Decimal;
+  cylinderRevenue: Decimal;
+  // Fuel sold on account: part of the revenue that is not in the till
+  creditSalesAmount: Decimal;
+  // Face value of the prepaid coupons redeemed: paid before the shift, not in the till
+  couponsAmount: Decimal;
+  cashCounted: Decimal;
+  cardAmount: Decimal;
+  tenders: { method: string; amount: Decimal }[];
+  expensesAmount: Decimal;
+  theoreticalCash: Decimal;
+  cashVariance: Decimal;
+  totalStockVariance: Decimal;
+  saleUpdates: { saleId: string; nozzleId: string; data: Prisma.ShiftSaleUncheckedUpdateInput }[];
+  // Sales split by a mid-shift price change: volume and revenue per price segment
+  segmentUpdates: { segmentId: string; data: Prisma.ShiftSaleSegmentUncheckedUpdateInput }[];
+  dipUpdates: { dipId: string; tankId: string; data: Prisma.ShiftTankDipUncheckedUpdateInput }[];
+  productUpdates: {
+    productSaleId: string;
+    productId: string;
+    countedStock: Decimal;
+    data: Prisma.ShiftProductSaleUncheckedUpdateInput;
+  }[];
+  cylinderUpdates: {
+    countId: string;
+    cylinderTypeId: string;
+    countedFull: number;
+    countedEmpty: number;
+    data: Prisma.ShiftCylinderCountUncheckedUpdateInput;
+  }[];
+  // Bottles missing or in excess, full and empty alike
+  totalCylinderVariance: number;
+  // Physical level per tank (litres), after height → volume conversion
+  physicalByTank: Record<string, Decimal>;
+  assignmentUpdates: { assignmentId: string; data: Prisma.ShiftAssignmentUncheckedUpdateInput }[];
+  attendants: AttendantSettlement[];
+}
+
+type SettlementSale = Prisma.ShiftSaleGetPayload<{
+  include: { nozzle: { include: { pump: { include: { tank: true } } } }; segments: true };
+}>;
+type MeterReplacement = Prisma.NozzleMeterReplacementGetPayload<object>;
+type CalibrationTest = Prisma.NozzleCalibrationTestGetPayload<object>;
+
+interface PriceSegment {
+  startIndex: Decimal;
+  // Litres dispensed from the opening index up to the start of the segment
+  startOffset: Decimal;
+  unitPrice: Decimal;
+  // When the segment's first reading was taken (null for the opening)
+  readAt: Date | null;
+}
+
+/**
+ * Litres a nozzle dispensed from its opening index up to a reading taken at `readAt`
+ * (the closing reading when omitted), across the meters replaced in between.
+ */
+function meterOffset(
+  sale: SettlementSale,
+  replacements: MeterReplacement[],
+  index: Decimal,
+  readAt?: Date,
+): Decimal {
+  const nozzleReplacements = replacements.filter((r) => r.nozzleId === sale.nozzleId);
+  const openingRollover = nozzleReplacements[0]?.oldRolloverValue ?? sale.nozzle.rolloverValue;
+
+  return calculateVolumeAcrossReplacements(
+    new Decimal(sale.openingIndex.toString()),
+    index,
+    nozzleReplacements
+      .filter((r) => !readAt || r.replacedAt <= readAt)
+      .map((r) => ({
+        oldFinalIndex: new Decimal(r.oldFinalIndex.toString()),
+        newStartIndex: new Decimal(r.newStartIndex.toString()),
+        rolloverValue: new Decimal(r.rolloverValue.toString()),
+      })),
+    new Decimal(openingRollover.toString()),
+  );
+}
+
+/**
+ * Price segments of a sale. The first runs from the opening index (which a correction of
+ * the previous shift may have moved) at the snapshot price; a sale never split has only it.
+ */
+function saleSegments(
+  sale: SettlementSale,
+  priceSnapshot: Record<string, number>,
+  replacements: MeterReplacement[],
+): PriceSegment[] {
+  const openingPrice = new Decimal(priceSnapshot[sale.nozzle.pump.tank.fuelType] || sale.unitPrice.toString());
+  const opening = {
+    startIndex: new Decimal(sale.openingIndex.toString()),
+    startOffset: new Decimal(0),
+    unitPrice: openingPrice,
+    readAt: null,
+  };
+
+  return [
+    opening,
+    ...sale.segments.slice(1).map((s) => {
+      const startIndex = new Decimal(s.startIndex.toString());
+      return {
+        startIndex,
+        startOffset: meterOffset(sale, replacements, startIndex, s.createdAt),
+        unitPrice: new Decimal(s.unitPrice.toString()),
+        readAt: s.createdAt,
+      };
+    }),
+  ];
+}
+
+/**
+ * Index of the price segment in effect when a calibration test was run.
+ */
+function segmentAt(segments: PriceSegment[], testedAt: Date): number {
+  return segments.reduce((current, s, i) => (s.readAt && s.readAt <= testedAt ? i : current), 0);
+}
+
+/**
+ * Revenue of the litres dispensed between two offsets from the opening index.
+ */
+function segmentedRevenue(from: Decimal, to: Decimal, segments: PriceSegment[]): Decimal {
+  // Offsets run from 0 at the opening index, so there is no rollover left to handle
+  return calculateSegmentedRevenue(
+    0,
+    from,
+    to,
+    segments.map((s) => ({ startIndex: s.startOffset, unitPrice: s.unitPrice })),
+  );
+}
+
+/**
+ * Compute sales, cash reconciliation and stock variances for a shift from its
+ * closing readings. Pure computation: nothing is written, callers apply the
+ * returned updates. Throws business errors ({ code, message, statusCode }).
+ */
+export async function computeShiftSettlement(
+  tx: Prisma.TransactionClient,
+  shiftId: string,
+  priceSnapshot: Record<string, number>,
+  input: SettlementInput,
+): Promise<ShiftSettlement> {
+  const { sales, tankDips, cash } = input;
+
+  // Load existing sale stubs and tank dip stubs
+  const existingSales = await tx.shiftSale.findMany({
+    where: { shiftReportId: shiftId },
+    include: {
+      nozzle: { include: { pump: { include: { tank: true } } } },
+      segments: { orderBy: { createdAt: 'asc' } },
+    },
+  });
+
+  const existingDips = await tx.shiftTankDip.findMany({
+    where: { shiftReportId: shiftId },
+    include: { tank: { select: { fuelType: true } } },
+  });
+
+  // Meters replaced during the shift: volume is counted on each meter in turn
+  const meterReplacements = await tx.nozzleMeterReplacement.findMany({
+    where: { shiftReportId: shiftId, midShift: true },
+    orderBy: { replacedAt: 'asc' },
+  });
+
+  // Calibration tests: dispensed but not sold
+  const calibrationTests = await tx.nozzleCalibrationTest.findMany({
+    where: { shiftReportId: shiftId },
+    orderBy: { testedAt: 'asc' },
+  });
+
+  // 1. Process sales
+  let totalRevenue = new Decimal(0);
+  const saleUpdates: ShiftSettlement['saleUpdates'] = [];
+  const segmentUpdates: ShiftSettlement['segmentUpdates'] = [];
+  // Track volume sold per tank for stock calculation
+  const volumeByTank: Record<string, Decimal> = {};
+  // Dispensed volume, price segments and calibration tests per nozzle, for the attendant breakdown
+  const closingByNozzle: Record<
+    string,
+    { volumeSold: Decimal; segments: PriceSegment[]; tests: CalibrationTest[] }
+  > = {};
+
+  for (const saleInput of sales) {
+    const existingSale = existingSales.find((s) => s.nozzleId === saleInput.nozzleId);
+    if (!existingSale) {
+      throw {
+        code: 'BIZ_NOZZLE_NOT_IN_SHIFT',
+        message: `Nozzle ${saleInput.nozzleId} not found in this shift`,
+        statusCode: 400,
+      };
+    }
+
+    const closingIndex = new Decimal(saleInput.closingIndex);
+
+    // Calculate dispensed volume (handles rollover and meter replacements)
+    const meterVolume = meterOffset(existingSale, meterReplacements, closingIndex);
+
+    // Price segments: the snapshot price from the opening index, then each recorded price change
+    const segments = saleSegments(existingSale, priceSnapshot, meterReplacements);
+
+    // Calibration tests are not sold: their volume comes off the segment running at the time
+    const tests = calibrationTests.filter((t) => t.nozzleId === existingSale.nozzleId);
+    const testVolumeBySegment = segments.map(() => new Decimal(0));
+    for (const test of tests) {
+      const i = segmentAt(segments, test.testedAt);
+      testVolumeBySegment[i] = testVolumeBySegment[i]!.plus(test.dispensedVolume.toString());
+    }
+    const testVolume = testVolumeBySegment.reduce((sum, v) => sum.plus(v), new Decimal(0));
+    const volumeSold = meterVolume.minus(testVolume);
+
+    // Calculate revenue
+    const revenue = segmentedRevenue(new Decimal(0), meterVolume, segments).minus(
+      segments.reduce((sum, s, i) => sum.plus(calculateRevenue(testVolumeBySegment[i]!, s.unitPrice)), new Decimal(0)),
+    );
+    totalRevenue = totalRevenue.plus(revenue);
+    closingByNozzle[existingSale.nozzleId] = { volumeSold: meterVolume, segments, tests };
+
+    existingSale.segments.forEach((segment, i) => {
+      const start = segments[i]!;
+      const end = segments[i + 1];
+      const segmentVolume = (end?.startOffset ?? meterVolume).minus(start.startOffset).minus(testVolumeBySegment[i]!);
+      segmentUpdates.push({
+        segmentId: segment.id,
+        data: {
+          startIndex: new Prisma.Decimal(start.startIndex.toFixed(4)),
+          endIndex: new Prisma.Decimal((end?.startIndex ?? closingIndex).toFixed(4)),
+          unitPrice: new Prisma.Decimal(segments[i]!.unitPrice.toFixed(4)),
+          volumeSold: new Prisma.Decimal(segmentVolume.toFixed(4)),
+          revenue: new Prisma.Decimal(calculateRevenue(segmentVolume, segments[i]!.unitPrice).toFixed(4)),
+        },
+      });
+    });
+
+    saleUpdates.push({
+      saleId: existingSale.id,
+      nozzleId: existingSale.nozzleId,
+      data: {
+        closingIndex: new Prisma.Decimal(closingIndex.toFixed(4)),
+        volumeSold: new Prisma.Decimal(volumeSold.toFixed(4)),
+        testVolume: new Prisma.Decimal(testVolume.toFixed(4)),
+        revenue: new Prisma.Decimal(revenue.toFixed(4)),
+      },
+    });
+
+    // Accumulate volume by tank: test volume poured back into the tank never left it
+    const tankId = existingSale.nozzle.pump.tankId;
+    const returnedVolume = tests
+      .filter((t) => t.returnedToTank)
+      .reduce((sum, t) => sum.plus(t.dispensedVolume.toString()), new Decimal(0));
+    volumeByTank[tankId] = (volumeByTank[tankId] || new Decimal(0)).plus(meterVolume.minus(returnedVolume));
+  }
+
+  // 1b. Shop products: sold at the snapshot price, counted against opening stock + receipts
+  const existingProductSales = await tx.shiftProductSale.findMany({ where: { shiftReportId: shiftId } });
+  let shopRevenue = new Decimal(0);
+  const productUpdates: ShiftSettlement['productUpdates'] = [];
+
+  for (const productInput of input.products ?? []) {
+    const existingProductSale = existingProductSales.find((p) => p.productId === productInput.productId);
+    if (!existingProductSale) {
+      throw {
+        code: 'BIZ_PRODUCT_NOT_IN_SHIFT',
+        message: `Product ${productInput.productId} is not stocked in this shift`,
+        statusCode: 400,
+      };
+    }
+
+    const quantitySold = new Decimal(productInput.quantitySold);
+    const countedStock = new Decimal(productInput.countedStock);
+    const revenue = calculateRevenue(quantitySold, new Decimal(existingProductSale.unitPrice.toString()));
+    const theoreticalStock = calculateTheoreticalStock(
+      new Decimal(existingProductSale.openingStock.toString()),
+      new Decimal(existingProductSale.receipts.toString()),
+      quantitySold,
+    );
+    shopRevenue = shopRevenue.plus(revenue);
+
+    productUpdates.push({
+      productSaleId: existingProductSale.id,
+      productId: existingProductSale.productId,
+      countedStock,
+      data: {
+        quantitySold: new Prisma.Decimal(quantitySold.toFixed(4)),
+        countedStock: new Prisma.Decimal(countedStock.toFixed(4)),
+        revenue: new Prisma.Decimal(revenue.toFixed(4)),
+        stockVariance: new Prisma.Decimal(calculateStockVariance(countedStock, theoreticalStock).toFixed(4)),
+      },
+    });
+  }
+  totalRevenue = totalRevenue.plus(shopRevenue);
+
+  // 1c. Gas cylinders: cash recorded with each transaction, counts against the shift's movements
+  const cylinderCounts = await tx.shiftCylinderCount.findMany({ where: { shiftReportId: shiftId } });
+  const cylinderRevenue = cylinderCounts.reduce<Decimal>((sum, c) => sum.plus(c.revenue.toString()), new Decimal(0));
+  const cylinderUpdates: ShiftSettlement['cylinderUpdates'] = [];
+  let totalCylinderVariance = 0;
+
+  for (const cylinderInput of input.cylinders ?? []) {
+    const count = cylinderCounts.find((c) => c.cylinderTypeId === cylinderInput.cylinderTypeId);
+    if (!count) {
+      throw {
+        code: 'BIZ_CYLINDER_NOT_IN_SHIFT',
+        message: `Cylinder type ${cylinderInput.cylinderTypeId} is not stocked in this shift`,
+        statusCode: 400,
+      };
+    }
+
+    const theoreticalFull = count.openingFull + count.fullReceived - count.fullOut;
+    const theoreticalEmpty = count.openingEmpty - count.emptyReturned + count.emptyIn;
+    const fullVariance = cylinderInput.countedFull - theoreticalFull;
+    const emptyVariance = cylinderInput.countedEmpty - theoreticalEmpty;
+    totalCylinderVariance += Math.abs(fullVariance) + Math.abs(emptyVariance);
+
+    cylinderUpdates.push({
+      countId: count.id,
+      cylinderTypeId: count.cylinderTypeId,
+      countedFull: cylinderInput.countedFull,
+      countedEmpty: cylinderInput.countedEmpty,
+      data: {
+        countedFull: cylinderInput.countedFull,
+        countedEmpty: cylinderInput.countedEmpty,
+        fullVariance,
+        emptyVariance,
+      },
+    });
+  }
+  totalRevenue = totalRevenue.plus(cylinderRevenue);
+
+  // 2. Cash reconciliation
+  const creditSales = await tx.creditSale.findMany({
+    where: { shiftReportId: shiftId },
+    select: { nozzleId: true, amount: true, createdAt: true },
+  });
+  const creditSalesAmount = creditSales.reduce((sum, c) => sum.plus(c.amount.toString()), new Decimal(0));
+  const coupons = await tx.fuelCoupon.aggregate({ where: { shiftReportId: shiftId }, _sum: { faceValue: true } });
+  const couponsAmount = new Decimal((coupons._sum.faceValue ?? 0).toString());
+  const cashCounted = new Decimal(cash.counted);
+  const cardAmount = new Decimal(cash.card);
+  const tenders = (cash.tenders ?? []).map((t) => ({ method: t.method, amount: new Decimal(t.amount) }));
+  const expensesAmount = new Decimal(cash.expenses);
+
+  const theoreticalCash = calculateTheoreticalCash(
+    totalRevenue,
+    [cardAmount, ...tenders.map((t) => t.amount), creditSalesAmount, couponsAmount],
+    expensesAmount,
+  );
+  const cashVariance = calculateCashVariance(cashCounted, theoreticalCash);
+
+  // 2b. Per-attendant breakdown: each assignment sells from its start index up to the
+  // handover index, or the nozzle's closing index for the attendant still on it.
+  // The first assignment of a nozzle starts at the opening, whatever meter is fitted since.
+  // Expenses are paid at shift level, so an attendant owes their revenue less their card
+  // payments, the credit sales served at the nozzles they held, and their share, by revenue,
+  // of the other tenders (mobile money...), of the coupons redeemed and of the credit sales
+  // entered without a nozzle.
+  const [assignments, declarations] = await Promise.all([
+    tx.shiftAssignment.findMany({ where: { shiftReportId: shiftId }, orderBy: { startedAt: 'asc' } }),
+    tx.shiftAttendant.findMany({ where: { shiftReportId: shiftId } }),
+  ]);
+
+  const assignmentUpdates: ShiftSettlement['assignmentUpdates'] = [];
+  const byAttendant = new Map<string, { volumeSold: Decimal; revenue: Decimal }>();
+  const startedNozzles = new Set<string>();
+
+  for (const assignment of assignments) {
+    const existingSale = existingSales.find((s) => s.nozzleId === assignment.nozzleId);
+    if (!existingSale) continue;
+
+    const nozzle = closingByNozzle[assignment.nozzleId] ?? {
+      volumeSold: meterOffset(
+        existingSale,
+        meterReplacements,
+        new Decimal((existingSale.closingIndex ?? existingSale.openingIndex).toString()),
+      ),
+      segments: saleSegments(existingSale, priceSnapshot, meterReplacements),
+      tests: calibrationTests.filter((t) => t.nozzleId === assignment.nozzleId),
+    };
+    const from = startedNozzles.has(assignment.nozzleId)
+      ? meterOffset(existingSale, meterReplacements, new Decimal(assignment.startIndex.toString()), assignment.startedAt)
+      : new Decimal(0);
+    const to = assignment.endIndex
+      ? meterOffset(existingSale, meterReplacements, new Decimal(assignment.endIndex.toString()), assignment.endedAt ?? undefined)
+      : nozzle.volumeSold;
+    startedNozzles.add(assignment.nozzleId);
+
+    // Tests run while the attendant held the nozzle were not sold by them
+    const tests = nozzle.tests.filter(
+      (t) => t.testedAt >= assignment.startedAt && (!assignment.endedAt || t.testedAt < assignment.endedAt),
+    );
+    const testVolume = tests.reduce((sum, t) => sum.plus(t.dispensedVolume.toString()), new Decimal(0));
+    const testRevenue = tests.reduce((sum, t) => {
+      const unitPrice = nozzle.segments[segmentAt(nozzle.segments, t.testedAt)]!.unitPrice;
+      return sum.plus(calculateRevenue(new Decimal(t.dispensedVolume.toString()), unitPrice));
+    }, new Decimal(0));
+
+    const volumeSold = to.minus(from).minus(testVolume);
+    const revenue = segmentedRevenue(from, to, nozzle.segments).minus(testRevenue);
+
+    assignmentUpdates.push({
+      assignmentId: assignment.id,
+      data: {
+        volumeSold: new Prisma.Decimal(volumeSold.toFixed(4)),
+        revenue: new Prisma.Decimal(revenue.toFixed(4)),
+      },
+    });
+
+    const totals = byAttendant.get(assignment.attendantId) ?? { volumeSold: new Decimal(0), revenue: new Decimal(0) };
+    byAttendant.set(assignment.attendantId, {
+      volumeSold: totals.volumeSold.plus(volumeSold),
+      revenue: totals.revenue.plus(revenue),
+    });
+  }
+
+  const attendantIds = [...new Set([...byAttendant.keys(), ...declarations.map((d) => d.attendantId)])];
+  const attendantTotals = attendantIds.map(
+    (attendantId) => byAttendant.get(attendantId) ?? { volumeSold: new Decimal(0), revenue: new Decimal(0) },
+  );
+  // Revenue made on nozzles nobody was assigned to, and at the shop, keeps its own share
+  const attributedRevenue = attendantTotals.reduce((sum, t) => sum.plus(t.revenue), new Decimal(0));
+  const unattributedRevenue = Decimal.max(totalRevenue.minus(attributedRevenue), 0);
+  const creditByAttendant = new Map<string, Decimal>();
+  let unattributedCredit = new Decimal(0);
+  for (const sale of creditSales) {
+    const holder = assignments.find(
+      (a) =>
+        a.nozzleId === sale.nozzleId &&
+        a.startedAt <= sale.createdAt &&
+        (!a.endedAt || sale.createdAt < a.endedAt),
+    );
+    if (holder) {
+      const credit = creditByAttendant.get(holder.attendantId) ?? new Decimal(0);
+      creditByAttendant.set(holder.attendantId, credit.plus(sale.amount.toString()));
+    } else {
+      unattributedCredit = unattributedCredit.plus(sale.amount.toString());
+    }
+  }
+  const pooledAmount = tenders.reduce((sum, t) => sum.plus(t.amount), unattributedCredit.plus(couponsAmount));
+  const pooledShares = allocateProRata(pooledAmount, [
+    ...attendantTotals.map((t) => t.revenue),
+    unattributedRevenue,
+  ]);
+
+  const attendants: AttendantSettlement[] = attendantIds.map((attendantId, i) => {
+    const totals = attendantTotals[i]!;
+    const declaration = declarations.find((d) => d.attendantId === attendantId);
+    const cashDeclared = new Decimal((declaration?.cashDeclared ?? 0).toString());
+    const attendantCard = new Decimal((declaration?.cardAmount ?? 0).toString());
+    const attendantCredit = creditByAttendant.get(attendantId) ?? new Decimal(0);
+    const attendantTheoretical = calculateTheoreticalCash(
+      totals.revenue,
+      [attendantCard, attendantCredit, pooledShares[i]!],
+      0,
+    );
+
+    return {
+      attendantId,
+      volumeSold: totals.volumeSold,
+      revenue: totals.revenue,
+      cashDeclared,
+      cardAmount: attendantCard,
+      creditSalesAmount: attendantCredit,
+      tendersAmount: pooledShares[i]!,
+      theoreticalCash: attendantTheoretical,
+      cashVariance: calculateCashVariance(cashDeclared, attendantTheoretical),
+    };
+  });
+
+  // 3. Process tank dips & stock variance
+  let totalStockVariance = new Decimal(0);
+  const dipUpdates: ShiftSettlement['dipUpdates'] = [];
+  const physicalByTank: Record<string, Decimal> = {};
+
+  const calibrationCharts = await loadCalibrationCharts(
+    tx,
+    tankDips.filter((d) => d.dipHeight !== undefined).map((d) => d.tankId),
+  );
+
+  for (const dipInput of tankDips) {
+    const existingDip = existingDips.find((d) => d.tankId === dipInput.tankId);
+    if (!existingDip) {
+      throw {
+        code: 'BIZ_TANK_NOT_IN_SHIFT',
+        message: `Tank ${dipInput.tankId} not found in this shift`,
+        statusCode: 400,
+      };
+    }
+
+    const openingLevel = new Decimal(existingDip.openingLevel.toString());
+    // Deliveries and net fuel transfers are the tank's movements other than sales
+    const deliveries = new Decimal(existingDip.deliveries.toString()).plus(existingDip.transfers.toString());
+    const salesFromTank = volumeByTank[dipInput.tankId] || new Decimal(0);
+    const dipHeight = dipInput.dipHeight !== undefined ? new Decimal(dipInput.dipHeight) : null;
+    const physicalLevel = dipHeight
+      ? resolveDipVolume(calibrationCharts, dipInput.tankId, dipHeight)
+      : new Decimal(dipInput.physicalLevel!);
+    physicalByTank[dipInput.tankId] = physicalLevel;
+
+    let theoreticalStock = calculateTheoreticalStock(openingLevel, deliveries, salesFromTank);
+    let stockVar = calculateStockVariance(physicalLevel, theoreticalStock);
+
+    // Temperature known → reconcile at 15 °C (opening at its own temperature, movements at closing)
+    const density: number | null = dipInput.density ?? (existingDip.density ? Number(existingDip.density) : null);
+    let correctedClosingLevel: Decimal | null = null;
+    if (dipInput.temperature !== undefined) {
+      const fuelType = existingDip.tank.fuelType;
+      const closingVcf = calculateVolumeCorrectionFactor(fuelType, dipInput.temperature, density);
+      const openingVcf = existingDip.openingTemperature
+        ? calculateVolumeCorrectionFactor(fuelType, Number(existingDip.openingTemperature), density)
+        : closingVcf;
+
+      theoreticalStock = calculateTheoreticalStock(
+        openingLevel.times(openingVcf),
+        deliveries.times(closingVcf),
+        salesFromTank.times(closingVcf),
+      );
+      correctedClosingLevel = physicalLevel.times(closingVcf);
+      stockVar = calculateStockVariance(correctedClosingLevel, theoreticalStock);
+    }
+
+    totalStockVariance = totalStockVariance.plus(stockVar.abs());
+
+    dipUpdates.push({
+      dipId: existingDip.id,
+      tankId: existingDip.tankId,
+      data: {
+        closingLevel: new Prisma.Decimal(physicalLevel.toFixed(4)),
+        closingHeight: dipHeight ? new Prisma.Decimal(dipHeight.toFixed(4)) : null,
+        closingTemperature: dipInput.temperature ?? null,
+        density,
+        correctedClosingLevel: correctedClosingLevel
+          ? new Prisma.Decimal(correctedClosingLevel.toFixed(4))
+          : null,
+        theoreticalStock: new Prisma.Decimal(theoreticalStock.toFixed(4)),
+        stockVariance: new Prisma.Decimal(stockVar.toFixed(4)),
+      },
+    });
+  }
+
+  return {
+    totalRevenue,
+    shopRevenue,
+    cylinderRevenue,
+    creditSalesAmount,
+    couponsAmount,
+    cashCounted,
+    cardAmount,
+    tenders,
+    expensesAmount,
+    theoreticalCash,
+    cashVariance,
+    totalStockVariance,
+    saleUpdates,
+    segmentUpdates,
+    dipUpdates,
+    productUpdates,
+    cylinderUpdates,
+    totalCylinderVariance,
+    physicalByTank,
+    assignmentUpdates,
+    attendants,
+  };
+}
+
+/**
+ * Write the per-attendant breakdown of a settlement (assignment sales and attendant variances).
+ */
+export async function applyAttendantSettlement(
+  tx: Prisma.TransactionClient,
+  shiftId: string,
+  settlement: ShiftSettlement,
+) {
+  for (const au of settlement.assignmentUpdates) {
+    await tx.shiftAssignment.update({ where: { id: au.assignmentId }, data: au.data });
+  }
+
+  for (const a of settlement.attendants) {
+    const figures = {
+      volumeSold: new Prisma.Decimal(a.volumeSold.toFixed(4)),
+      revenue: new Prisma.Decimal(a.revenue.toFixed(4)),
+      theoreticalCash: new Prisma.Decimal(a.theoreticalCash.toFixed(4)),
+      cashVariance: new Prisma.Decimal(a.cashVariance.toFixed(4)),
+    };
+    await tx.shiftAttendant.upsert({
+      where: { shiftReportId_attendantId: { shiftReportId: shiftId, attendantId: a.attendantId } },
+      create: { shiftReportId: shiftId, attendantId: a.attendantId, ...figures },
+      update: figures,
+    });
+  }
+}
+
+/**
+ * Replace the non-cash tenders stored for a shift with those of a settlement.
+ */
+export async function applyShiftPayments(
+  tx: Prisma.TransactionClient,
+  shiftId: string,
+  settlement: ShiftSettlement,
+) {
+  await tx.shiftPayment.deleteMany({ where: { shiftReportId: shiftId } });
+  const payments = settlement.tenders.filter((t) => t.amount.gt(0));
+  if (payments.length > 0) {
+    await tx.shiftPayment.createMany({
+      data: payments.map((t) => ({
+        shiftReportId: shiftId,
+        method: t.method,
+        amount: new Prisma.Decimal(t.amount.toFixed(4)),
+      })),
+    });
+  }
+}
+
+/**
+ * Rebuild the settlement input of an already-closed shift from its stored readings.
+ */
+export async function loadClosedShiftInput(
+  tx: Prisma.TransactionClient,
+  shiftId: string,
+): Promise<SettlementInput> {
+  const shift = await tx.shiftReport.findUniqueOrThrow({
+    where: { id: shiftId },
+    include: { sales: true, tankDips: true, payments: true, productSales: true, cylinderCounts: true },
+  });
+
+  return {
+    sales: shift.sales.map((s) => ({
+      nozzleId: s.nozzleId,
+      closingIndex: Number(s.closingIndex ?? s.openingIndex),
+    })),
+    tankDips: shift.tankDips.map((d) => ({
+      tankId: d.tankId,
+      ...(d.closingHeight !== null
+        ? { dipHeight: Number(d.closingHeight) }
+        : { physicalLevel: Number(d.closingLevel ?? d.openingLevel) }),
+      ...(d.closingTemperature !== null && { temperature: Number(d.closingTemperature) }),
+      ...(d.density !== null && { density: Number(d.density) }),
+    })),
+    cash: {
+      counted: Number(shift.cashCounted),
+      card: Number(shift.cardAmount),
+      expenses: Number(shift.expensesAmount),
+      tenders: shift.payments.map((p) => ({ method: p.method, amount: Number(p.amount) })),
+    },
+    products: shift.productSales
+      .filter((p) => p.quantitySold !== null)
+      .map((p) => ({
+        productId: p.productId,
+        quantitySold: Number(p.quantitySold),
+        countedStock: Number(p.countedStock),
+      })),
+    cylinders: shift.cylinderCounts
+      .filter((c) => c.countedFull !== null)
+      .map((c) => ({
+        cylinderTypeId: c.cylinderTypeId,
+        countedFull: c.countedFull!,
+        countedEmpty: c.countedEmpty!,
+      })),
+  };
+}
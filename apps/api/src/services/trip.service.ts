@@ -0,0 +1,389 @@
+import { FuelType, Prisma } from '@prisma/client';
+import Decimal from 'decimal.js';
+import prisma from '../lib/prisma';
+import type { PlanTripInput, SuggestTripAllocationInput, DispatchTripInput } from '@alcom/shared';
+import { allocateTripCompartments } from '@alcom/shared/src/calculations';
+import { findPeriodLock, periodLockedError } from './period.service';
+import { markPurchaseOrderReceived } from './purchase-order.service';
+import { resolveTransport } from './carrier.service';
+
+type Db = Prisma.TransactionClient;
+type DbClient = Prisma.TransactionClient | typeof prisma;
+
+// A request sits on one trip at a time until the trip is cancelled
+const ACTIVE_TRIP_STATUSES = ['PLANNED', 'DISPATCHED'] as const;
+
+// Requests are planned once validated; the truck only leaves the depot with ordered fuel
+const PLANNABLE_REQUEST_STATUSES = ['VALIDATED', 'ORDERED'];
+
+export const tripRelations = {
+  truck: {
+    select: {
+      id: true,
+      plateNumber: true,
+      carrier: { select: { id: true, name: true } },
+      compartments: { orderBy: { position: 'asc' as const } },
+    },
+  },
+  driver: { select: { id: true, fullName: true, phone: true } },
+  plannedBy: { select: { id: true, fullName: true } },
+  allocations: {
+    include: {
+      station: { select: { id: true, code: true, name: true } },
+      truckCompartment: { select: { id: true, position: true, capacity: true } },
+      replenishmentRequest: { select: { id: true, status: true, requestedVolume: true, purchaseOrderId: true } },
+    },
+    orderBy: [{ dropSequence: 'asc' as const }, { truckCompartment: { position: 'asc' as const } }],
+  },
+  deliveries: {
+    select: { id: true, stationId: true, blNumber: true, status: true, completedAt: true },
+  },
+};
+
+function toDecimal(value: Decimal): Prisma.Decimal {
+  return new Prisma.Decimal(value.toFixed(4));
+}
+
+/**
+ * Check a load plan against the truck, its driver and the requests. Returns the driver
+ * and the allocation rows, with the station drop order taken from the first allocation
+ * of each station.
+ * Throws business errors ({ code, message, details?, statusCode }).
+ */
+async function resolveAllocations(tx: Db, input: PlanTripInput, tripId?: string) {
+  const plannedDate = new Date(`${input.plannedDate}T00:00:00.000Z`);
+  const transport = await resolveTransport(tx, input, plannedDate);
+
+  const truck = await tx.truck.findUniqueOrThrow({
+    where: { id: input.truckId },
+    include: { compartments: true },
+  });
+
+  const booked = await tx.deliveryTrip.findFirst({
+    where: {
+      truckId: truck.id,
+      plannedDate,
+      status: { in: [...ACTIVE_TRIP_STATUSES] },
+      ...(tripId && { id: { not: tripId } }),
+    },
+  });
+  if (booked) {
+    throw {
+      code: 'BIZ_TRUCK_BOOKED',
+      message: `Truck ${truck.plateNumber} is already on trip ${booked.tripNumber} that day`,
+      statusCode: 409,
+    };
+  }
+
+  const compartments = new Map(truck.compartments.map((c) => [c.id, c]));
+  for (const a of input.allocations) {
+    const compartment = compartments.get(a.truckCompartmentId);
+    if (!compartment) {
+      throw {
+        code: 'BIZ_TRIP_COMPARTMENT_MISMATCH',
+        message: 'Compartment does not belong to the truck',
+        details: { truckCompartmentId: a.truckCompartmentId },
+        statusCode: 400,
+      };
+    }
+    if (new Decimal(a.volume).gt(compartment.capacity.toString())) {
+      throw {
+        code: 'BIZ_TRIP_COMPARTMENT_OVERFLOW',
+        message: `Compartment ${compartment.position} holds ${Number(compartment.capacity)} L`,
+        details: { truckCompartmentId: a.truckCompartmentId, capacity: Number(compartment.capacity) },
+        statusCode: 400,
+      };
+    }
+  }
+
+  const requestIds = [...new Set(input.allocations.map((a) => a.replenishmentRequestId))];
+  const requests = await tx.replenishmentRequest.findMany({
+    where: { id: { in: requestIds } },
+    include: {
+      tripAllocations: {
+        where: {
+          trip: { status: { in: [...ACTIVE_TRIP_STATUSES] }, ...(tripId && { id: { not: tripId } }) },
+        },
+        select: { trip: { select: { tripNumber: true } } },
+      },
+    },
+  });
+  if (requests.length !== requestIds.length) {
+    throw { code: 'NOT_FOUND', message: 'Replenishment request not found', statusCode: 404 };
+  }
+
+  const notPlannable = requests.filter(
+    (r) => !PLANNABLE_REQUEST_STATUSES.includes(r.status) || r.tripAllocations.length > 0,
+  );
+  if (notPlannable.length > 0) {
+    throw {
+      code: 'BIZ_REQUEST_NOT_PLANNABLE',
+      message: 'Only validated or ordered requests that are not on another trip can be loaded',
+      details: { requestIds: notPlannable.map((r) => r.id) },
+      statusCode: 409,
+    };
+  }
+
+  const loaded = new Map<string, Decimal>();
+  for (const a of input.allocations) {
+    loaded.set(a.replenishmentRequestId, (loaded.get(a.replenishmentRequestId) ?? new Decimal(0)).plus(a.volume));
+  }
+  const overloaded = requests.filter((r) => loaded.get(r.id)!.gt(r.requestedVolume.toString()));
+  if (overloaded.length > 0) {
+    throw {
+      code: 'BIZ_TRIP_VOLUME_EXCEEDS_REQUEST',
+      message: 'More fuel is loaded than requested',
+      details: { requestIds: overloaded.map((r) => r.id) },
+      statusCode: 400,
+    };
+  }
+
+  const byId = new Map(requests.map((r) => [r.id, r]));
+  const dropOrder: string[] = [];
+  for (const a of input.allocations) {
+    const stationId = byId.get(a.replenishmentRequestId)!.stationId;
+    if (!dropOrder.includes(stationId)) dropOrder.push(stationId);
+  }
+
+  const allocations = input.allocations.map((a) => {
+    const request = byId.get(a.replenishmentRequestId)!;
+    return {
+      truckCompartmentId: a.truckCompartmentId,
+      replenishmentRequestId: request.id,
+      stationId: request.stationId,
+      fuelType: request.fuelType,
+      volume: toDecimal(new Decimal(a.volume)),
+      dropSequence: dropOrder.indexOf(request.stationId) + 1,
+    };
+  });
+  return { driverId: transport.driverId, driverName: transport.driverName, allocations };
+}
+
+async function findTrip(db: DbClient, id: string) {
+  const trip = await db.deliveryTrip.findUnique({ where: { id } });
+  if (!trip) {
+    throw { code: 'NOT_FOUND', message: 'Trip not found', statusCode: 404 };
+  }
+  return trip;
+}
+
+/**
+ * Suggested load plan for a truck and a set of requests (see allocateTripCompartments).
+ * Volume that does not fit is returned per request.
+ */
+export async function suggestTripAllocation(db: DbClient, input: SuggestTripAllocationInput) {
+  const truck = await db.truck.findUnique({
+    where: { id: input.truckId },
+    include: { compartments: { orderBy: { position: 'asc' } } },
+  });
+  if (!truck) {
+    throw { code: 'NOT_FOUND', message: 'Truck not found', statusCode: 404 };
+  }
+  const requests = await db.replenishmentRequest.findMany({
+    where: { id: { in: input.replenishmentRequestIds } },
+    select: { id: true, requestedVolume: true },
+  });
+
+  const plan = allocateTripCompartments(
+    truck.compartments.map((c) => ({ id: c.id, capacity: Number(c.capacity) })),
+    requests.map((r) => ({ id: r.id, volume: Number(r.requestedVolume) })),
+  );
+  return {
+    allocations: plan.allocations.map((a) => ({
+      truckCompartmentId: a.compartmentId,
+      replenishmentRequestId: a.requestId,
+      volume: a.volume.toNumber(),
+    })),
+    unallocated: plan.unallocated.map((u) => ({ replenishmentRequestId: u.requestId, volume: u.volume.toNumber() })),
+  };
+}
+
+/**
+ * Plan a truck trip loading replenishment requests of one or more stations.
+ * Throws business errors ({ code, message, details?, statusCode }).
+ */
+export async function planTrip(tx: Db, input: PlanTripInput, userId: string) {
+  const { driverId, driverName, allocations } = await resolveAllocations(tx, input);
+
+  const day = input.plannedDate.replace(/-/g, '');
+  const plannedThatDay = await tx.deliveryTrip.count({ where: { tripNumber: { startsWith: `VOY-${day}-` } } });
+  const tripNumber = `VOY-${day}-${String(plannedThatDay + 1).padStart(2, '0')}`;
+
+  return tx.deliveryTrip.create({
+    data: {
+      tripNumber,
+      truckId: input.truckId,
+      driverId,
+      driverName,
+      plannedDate: new Date(`${input.plannedDate}T00:00:00.000Z`),
+      notes: input.notes,
+      plannedById: userId,
+      allocations: { create: allocations },
+    },
+    include: tripRelations,
+  });
+}
+
+/** Change the truck, driver, date or load plan of a trip that has not left yet. */
+export async function replanTrip(tx: Db, id: string, input: PlanTripInput) {
+  const trip = await findTrip(tx, id);
+  if (trip.status !== 'PLANNED') {
+    throw { code: 'INVALID_STATUS', message: `Cannot replan a trip with status ${trip.status}`, statusCode: 400 };
+  }
+  const { driverId, driverName, allocations } = await resolveAllocations(tx, input, id);
+
+  await tx.tripAllocation.deleteMany({ where: { tripId: id } });
+  return tx.deliveryTrip.update({
+    where: { id },
+    data: {
+      truckId: input.truckId,
+      driverId,
+      driverName,
+      plannedDate: new Date(`${input.plannedDate}T00:00:00.000Z`),
+      notes: input.notes,
+      allocations: { create: allocations },
+    },
+    include: tripRelations,
+  });
+}
+
+/**
+ * The truck left the depot: one delivery is created per station drop with the BL issued
+ * on loading, its compartments pre-filled from the load plan. Each compartment goes to
+ * the station tank of its fuel type with the most ullage. A drop carrying a single
+ * request (or a single purchase order) is linked to it like a manual delivery. The truck
+ * and driver documents must still be valid on departure.
+ */
+export async function dispatchTrip(tx: Db, id: string, input: DispatchTripInput) {
+  const trip = await tx.deliveryTrip.findUnique({
+    where: { id },
+    include: { allocations: { include: { replenishmentRequest: true } } },
+  });
+  if (!trip) {
+    throw { code: 'NOT_FOUND', message: 'Trip not found', statusCode: 404 };
+  }
+  if (trip.status !== 'PLANNED') {
+    throw { code: 'INVALID_STATUS', message: `Cannot dispatch a trip with status ${trip.status}`, statusCode: 400 };
+  }
+
+  const stationIds = [...new Set(trip.allocations.map((a) => a.stationId))];
+  const drops = new Map(input.drops.map((d) => [d.stationId, d.blNumber]));
+  if (drops.size !== input.drops.length || stationIds.length !== drops.size || stationIds.some((s) => !drops.has(s))) {
+    throw {
+      code: 'BIZ_TRIP_DROPS_MISMATCH',
+      message: 'A BL number is required for each station of the trip, and only for them',
+      details: { stationIds },
+      statusCode: 400,
+    };
+  }
+
+  const notOrdered = trip.allocations.filter((a) => a.replenishmentRequest.status !== 'ORDERED');
+  if (notOrdered.length > 0) {
+    throw {
+      code: 'BIZ_TRIP_REQUEST_NOT_ORDERED',
+      message: 'All requests on the truck must be ordered from a supplier before dispatch',
+      details: { requestIds: [...new Set(notOrdered.map((a) => a.replenishmentRequestId))] },
+      statusCode: 409,
+    };
+  }
+
+  const now = new Date();
+  const transport = await resolveTransport(
+    tx,
+    { truckId: trip.truckId, driverId: trip.driverId ?? undefined, driverName: trip.driverName },
+    now,
+  );
+  for (const stationId of stationIds) {
+    const lock = await findPeriodLock(tx, stationId, now);
+    if (lock) throw periodLockedError(lock);
+
+    const allocations = trip.allocations.filter((a) => a.stationId === stationId);
+    const tanks = await tx.tank.findMany({
+      where: { stationId, deletedAt: null, fuelType: { in: [...new Set(allocations.map((a) => a.fuelType))] } },
+    });
+    const tankFor = (fuelType: FuelType) =>
+      tanks
+        .filter((t) => t.fuelType === fuelType)
+        .sort((a, b) => Number(b.capacity) - Number(b.currentLevel) - (Number(a.capacity) - Number(a.currentLevel)))[0];
+    const missing = allocations.filter((a) => !tankFor(a.fuelType));
+    if (missing.length > 0) {
+      throw {
+        code: 'BIZ_TRIP_NO_TANK',
+        message: 'The station has no tank for a fuel type on the truck',
+        details: { stationId, fuelTypes: [...new Set(missing.map((a) => a.fuelType))] },
+        statusCode: 400,
+      };
+    }
+
+    const requestIds = [...new Set(allocations.map((a) => a.replenishmentRequestId))];
+    const orderIds = [...new Set(allocations.map((a) => a.replenishmentRequest.purchaseOrderId))];
+    const blTotalVolume = allocations.reduce<Decimal>((sum, a) => sum.plus(a.volume.toString()), new Decimal(0));
+
+    await tx.fuelDelivery.create({
+      data: {
+        stationId,
+        tripId: id,
+        replenishmentRequestId: requestIds.length === 1 ? requestIds[0] : null,
+        purchaseOrderId: orderIds.length === 1 ? orderIds[0] : null,
+        blNumber: drops.get(stationId)!,
+        blTotalVolume: toDecimal(blTotalVolume),
+        ...transport,
+        status: 'IN_PROGRESS',
+        compartments: {
+          create: allocations.map((a) => ({
+            tankId: tankFor(a.fuelType)!.id,
+            fuelType: a.fuelType,
+            blVolume: a.volume,
+          })),
+        },
+      },
+    });
+  }
+
+  return tx.deliveryTrip.update({
+    where: { id },
+    data: { status: 'DISPATCHED', dispatchedAt: now },
+    include: tripRelations,
+  });
+}
+
+/** Drop a trip that has not left the depot; its requests can be planned again. */
+export async function cancelTrip(tx: Db, id: string, reason: string) {
+  const trip = await findTrip(tx, id);
+  if (trip.status !== 'PLANNED') {
+    throw { code: 'INVALID_STATUS', message: `Cannot cancel a trip with status ${trip.status}`, statusCode: 400 };
+  }
+  return tx.deliveryTrip.update({
+    where: { id },
+    data: { status: 'CANCELLED', cancelledAt: new Date(), cancelReason: reason },
+    include: tripRelations,
+  });
+}
+
+/**
+ * A station drop was received: the requests unloaded there are fulfilled, with their
+ * purchase orders, and the trip completes with its last drop.
+ */
+export async function completeTripDrop(tx: Db, tripId: string, stationId: string) {
+  const allocations = await tx.tripAllocation.findMany({
+    where: { tripId, stationId },
+    select: { replenishmentRequestId: true, replenishmentRequest: { select: { purchaseOrderId: true } } },
+  });
+
+  const orderIds = new Set(allocations.map((a) => a.replenishmentRequest.purchaseOrderId).filter((o) => o !== null));
+  for (const orderId of orderIds) {
+    await markPurchaseOrderReceived(tx, orderId);
+  }
+  await tx.replenishmentRequest.updateMany({
+    where: { id: { in: allocations.map((a) => a.replenishmentRequestId) }, status: 'ORDERED' },
+    data: { status: 'COMPLETED' },
+  });
+
+  const pending = await tx.fuelDelivery.count({ where: { tripId, status: 'IN_PROGRESS' } });
+  if (pending === 0) {
+    await tx.deliveryTrip.updateMany({
+      where: { id: tripId, status: 'DISPATCHED' },
+      data: { status: 'COMPLETED', completedAt: new Date() },
+    });
+  }
+}
@@ -0,0 +1,171 @@
+import { Prisma } from '@prisma/client';
+import Decimal from 'decimal.js';
+import { WET_STOCK_LOSS_THRESHOLD_PERCENT } from '@alcom/shared';
+import { calculateWetStockTrend } from '@alcom/shared/src/calculations';
+import prisma from '../lib/prisma';
+import { CLOSED_SHIFT_STATUSES } from './period.service';
+
+type DbClient = Prisma.TransactionClient | typeof prisma;
+
+export interface WetStockEntry {
+  shiftReportId: string;
+  shiftDate: Date;
+  shiftType: string;
+  openingStock: number;
+  deliveries: number;
+  transfers: number;
+  sales: number;
+  closingStock: number;
+  variance: number;
+  cumulativeVariance: number;
+}
+
+export interface TankReconciliation {
+  tankId: string;
+  stationId: string;
+  stationCode: string;
+  stationName: string;
+  fuelType: string;
+  shiftCount: number;
+  openingStock: number;
+  deliveries: number;
+  transfers: number;
+  sales: number;
+  closingStock: number;
+  cumulativeVariance: number;
+  variancePercent: number;
+  trendPerShift: number;
+  lossThresholdPercent: number;
+  leakSuspected: boolean;
+  entries: WetStockEntry[];
+}
+
+export interface WetStockFilter {
+  stationIds?: string[];
+  tankId?: string;
+  from: Date;
+  to: Date;
+}
+
+/**
+ * Cumulative tank loss that flags a suspected leak, as a fraction of the volume sold
+ * (station setting `wetStock.lossThresholdPercent`).
+ */
+export function getLossThresholdPercent(settings: unknown): number {
+  const percent = (settings as { wetStock?: { lossThresholdPercent?: number } } | null)?.wetStock
+    ?.lossThresholdPercent;
+  return percent && percent > 0 ? percent : WET_STOCK_LOSS_THRESHOLD_PERCENT;
+}
+
+/**
+ * Wet-stock ledger per tank over the closed shifts of a period: opening stock, deliveries,
+ * net transfers, book sales, closing stock and the cumulative dip variance, with a
+ * statistical check of the loss trend. Book sales are the opening stock plus movements
+ * less the theoretical closing stock; variances are at 15 °C where the closing
+ * temperature was recorded.
+ */
+export async function getTankReconciliation(
+  db: DbClient,
+  filter: WetStockFilter,
+): Promise<TankReconciliation[]> {
+  const dips = await db.shiftTankDip.findMany({
+    where: {
+      stockVariance: { not: null },
+      ...(filter.tankId && { tankId: filter.tankId }),
+      shiftReport: {
+        status: { in: CLOSED_SHIFT_STATUSES },
+        shiftDate: { gte: filter.from, lte: filter.to },
+        ...(filter.stationIds && { stationId: { in: filter.stationIds } }),
+      },
+    },
+    select: {
+      tankId: true,
+      openingLevel: true,
+      closingLevel: true,
+      correctedClosingLevel: true,
+      deliveries: true,
+      transfers: true,
+      theoreticalStock: true,
+      stockVariance: true,
+      shiftReport: { select: { id: true, shiftDate: true, shiftType: true } },
+      tank: {
+        select: {
+          fuelType: true,
+          station: { select: { id: true, code: true, name: true, settings: true } },
+        },
+      },
+    },
+    orderBy: [{ shiftReport: { shiftDate: 'asc' } }, { shiftReport: { createdAt: 'asc' } }],
+  });
+
+  const byTank = new Map<string, typeof dips>();
+  for (const dip of dips) {
+    const tankDips = byTank.get(dip.tankId) ?? [];
+    tankDips.push(dip);
+    byTank.set(dip.tankId, tankDips);
+  }
+
+  const result: TankReconciliation[] = [];
+  for (const [tankId, tankDips] of byTank) {
+    const { station, fuelType } = tankDips[0]!.tank;
+    const lossThresholdPercent = getLossThresholdPercent(station.settings);
+
+    let deliveries = new Decimal(0);
+    let transfers = new Decimal(0);
+    let sales = new Decimal(0);
+    let cumulative = new Decimal(0);
+    const entries: WetStockEntry[] = tankDips.map((dip) => {
+      const opening = new Decimal(dip.openingLevel.toString());
+      const delivered = new Decimal(dip.deliveries.toString());
+      const transferred = new Decimal(dip.transfers.toString());
+      const sold = opening.plus(delivered).plus(transferred).minus(dip.theoreticalStock!.toString());
+      const variance = new Decimal(dip.stockVariance!.toString());
+      deliveries = deliveries.plus(delivered);
+      transfers = transfers.plus(transferred);
+      sales = sales.plus(sold);
+      cumulative = cumulative.plus(variance);
+
+      return {
+        shiftReportId: dip.shiftReport.id,
+        shiftDate: dip.shiftReport.shiftDate,
+        shiftType: dip.shiftReport.shiftType,
+        openingStock: opening.toNumber(),
+        deliveries: delivered.toNumber(),
+        transfers: transferred.toNumber(),
+        sales: sold.toNumber(),
+        closingStock: Number(dip.correctedClosingLevel ?? dip.closingLevel ?? 0),
+        variance: variance.toNumber(),
+        cumulativeVariance: cumulative.toNumber(),
+      };
+    });
+
+    const trend = calculateWetStockTrend(
+      entries.map((e) => e.variance),
+      sales,
+      lossThresholdPercent,
+    );
+
+    result.push({
+      tankId,
+      stationId: station.id,
+      stationCode: station.code,
+      stationName: station.name,
+      fuelType,
+      shiftCount: entries.length,
+      openingStock: entries[0]!.openingStock,
+      deliveries: deliveries.toNumber(),
+      transfers: transfers.toNumber(),
+      sales: sales.toNumber(),
+      closingStock: entries[entries.length - 1]!.closingStock,
+      cumulativeVariance: trend.cumulativeVariance.toNumber(),
+      variancePercent: trend.variancePercent.toDecimalPlaces(4).toNumber(),
+      trendPerShift: trend.slope.toDecimalPlaces(4).toNumber(),
+      lossThresholdPercent,
+      leakSuspected: trend.isLeakSuspected,
+      entries,
+    });
+  }
+
+  // Largest losses first
+  return result.sort((a, b) => a.variancePercent - b.variancePercent);
+}
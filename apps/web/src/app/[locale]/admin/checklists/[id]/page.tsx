@@ -9,6 +9,7 @@ import { ArrowLeft, Check, X, AlertCircle, Camera, ExternalLink } from 'lucide-r
 import { StatusBadge } from '@/components/shared/status-badge';
 import Link from 'next/link';
 import { toast } from 'sonner';
+import { useShiftPatterns, shiftTypeLabel } from '@/lib/shift-patterns';
 
 interface ChecklistDetail {
   id: string;
@@ -16,7 +17,7 @@ interface ChecklistDetail {
   templateId: string;
   templateVersion: number;
   shiftDate: string;
-  shiftType: 'MORNING' | 'EVENING';
+  shiftType: string;
   computedScore: number;
   status: 'DRAFT' | 'PENDING_VALIDATION' | 'VALIDATED' | 'REJECTED';
   items: Array<{
@@ -72,6 +73,7 @@ export default function ChecklistDetailPage() {
   });
 
   const checklist = data as unknown as ChecklistDetail;
+  const shiftPatterns = useShiftPatterns(checklist?.stationId);
 
   const validateMutation = useMutation({
     mutationFn: (payload: { action: 'approve' | 'reject'; comment?: string }) =>
@@ -142,7 +144,7 @@ export default function ChecklistDetailPage() {
           <h1 className="text-2xl font-bold">{t('detail.checklistDetails')}</h1>
           <p className="text-sm text-muted-foreground">
             {checklist.station.name} • {new Date(checklist.shiftDate).toLocaleDateString(locale)} •{' '}
-            {checklist.shiftType === 'MORNING' ? t('morning') : t('evening')}
+            {shiftTypeLabel(checklist.shiftType, t, shiftPatterns)}
           </p>
         </div>
         <StatusBadge status={statusInfo.status} label={t(statusInfo.key)} />
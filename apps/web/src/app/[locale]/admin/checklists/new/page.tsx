@@ -8,6 +8,7 @@ import { useTranslations, useLocale } from 'next-intl';
 import { ArrowLeft, ArrowRight, Check, X, Camera, AlertCircle, CheckCircle2 } from 'lucide-react';
 import Link from 'next/link';
 import { toast } from 'sonner';
+import { useShiftPatterns } from '@/lib/shift-patterns';
 
 interface ChecklistTemplate {
   id: string;
@@ -43,7 +44,7 @@ export default function NewChecklistPage() {
   const [selectedTemplateId, setSelectedTemplateId] = useState<string>('');
   const [selectedStationId, setSelectedStationId] = useState<string>('');
   const [shiftDate, setShiftDate] = useState(new Date().toISOString().split('T')[0]);
-  const [shiftType, setShiftType] = useState<'MORNING' | 'EVENING'>('MORNING');
+  const [shiftType, setShiftType] = useState('MORNING');
   const [currentCategoryIndex, setCurrentCategoryIndex] = useState(0);
   const [responses, setResponses] = useState<Record<string, ItemResponse>>({});
 
@@ -59,6 +60,14 @@ export default function NewChecklistPage() {
     queryFn: () => api.get<{ data: Station[] }>('/stations?limit=100'),
   });
 
+  // Shift types offered are the selected station's shift patterns
+  const shiftPatterns = useShiftPatterns(selectedStationId);
+  useEffect(() => {
+    if (shiftPatterns.length > 0 && !shiftPatterns.some((p) => p.code === shiftType)) {
+      setShiftType(shiftPatterns[0]!.code);
+    }
+  }, [shiftPatterns, shiftType]);
+
   const templates = (templatesData as unknown as { data: ChecklistTemplate[] })?.data || [];
   const stations = (stationsData as unknown as { data: Station[] })?.data || [];
   const selectedTemplate = templates.find((t) => t.id === selectedTemplateId);
@@ -233,11 +242,20 @@ export default function NewChecklistPage() {
                 <span className="text-sm font-medium">{t('shiftType')}</span>
                 <select
                   value={shiftType}
-                  onChange={(e) => setShiftType(e.target.value as 'MORNING' | 'EVENING')}
+                  onChange={(e) => setShiftType(e.target.value)}
                   className="mt-1 w-full rounded-md border bg-background px-3 py-2.5 text-sm focus:outline-none focus:ring-2 focus:ring-primary"
                 >
-                  <option value="MORNING">{t('morning')}</option>
-                  <option value="EVENING">{t('evening')}</option>
+                  {shiftPatterns.length === 0 && (
+                    <>
+                      <option value="MORNING">{t('morning')}</option>
+                      <option value="EVENING">{t('evening')}</option>
+                    </>
+                  )}
+                  {shiftPatterns.map((p) => (
+                    <option key={p.code} value={p.code}>
+                      {p.name}
+                    </option>
+                  ))}
                 </select>
               </label>
             </div>
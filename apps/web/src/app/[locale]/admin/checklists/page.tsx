@@ -8,6 +8,7 @@ import Link from 'next/link';
 import { useTranslations, useLocale } from 'next-intl';
 import { Plus, ClipboardCheck, Search, Settings } from 'lucide-react';
 import { useState } from 'react';
+import { shiftTypeLabel } from '@/lib/shift-patterns';
 
 interface ChecklistSubmission {
   id: string;
@@ -15,7 +16,7 @@ interface ChecklistSubmission {
   templateId: string;
   templateVersion: number;
   shiftDate: string;
-  shiftType: 'MORNING' | 'EVENING';
+  shiftType: string;
   computedScore: number;
   status: 'DRAFT' | 'PENDING_VALIDATION' | 'VALIDATED' | 'REJECTED';
   createdAt: string;
@@ -84,7 +85,7 @@ export default function ChecklistsPage() {
         <div>
           <p>{new Date(c.shiftDate).toLocaleDateString(locale)}</p>
           <p className="text-xs text-muted-foreground">
-            {c.shiftType === 'MORNING' ? t('morning') : t('evening')}
+            {shiftTypeLabel(c.shiftType, t)}
           </p>
         </div>
       ),
@@ -217,7 +218,7 @@ export default function ChecklistsPage() {
               </div>
               <p className="mb-1 font-semibold">{c.station.name}</p>
               <p className="mb-3 text-sm text-muted-foreground">
-                {new Date(c.shiftDate).toLocaleDateString(locale)} • {c.shiftType === 'MORNING' ? t('morning') : t('evening')}
+                {new Date(c.shiftDate).toLocaleDateString(locale)} • {shiftTypeLabel(c.shiftType, t)}
               </p>
               <div className="flex items-center justify-between">
                 <span className={`inline-flex items-center rounded-full px-2.5 py-0.5 text-sm font-medium ${getScoreColor(c.computedScore)}`}>
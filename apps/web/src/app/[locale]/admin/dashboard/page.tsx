@@ -20,6 +20,9 @@ import {
   Receipt,
   Mail,
   Download,
+  Landmark,
+  Wallet,
+  ShoppingBag,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import {
@@ -37,9 +40,36 @@ import {
 } from 'recharts';
 
 // ─── Types ───
+interface UndepositedCash {
+  stationId: string;
+  stationName: string;
+  amount: number;
+  shiftCount: number;
+  daysOutstanding: number;
+  maxUndepositedDays: number;
+  overdue: boolean;
+}
+
+interface TodayShift {
+  code: string;
+  name: string;
+  startTime: string;
+  endTime: string;
+  crossesMidnight: boolean;
+  shiftId: string | null;
+  status: 'OPEN' | 'CLOSED' | 'LOCKED' | null;
+}
+
+interface PaymentTotal {
+  method: string;
+  name: string;
+  amount: number;
+}
+
 interface ManagerDashboard {
   type: 'manager';
   todayRevenue: number;
+  todayShopRevenue: number;
   yesterdayRevenue: number;
   revenueChangePercent: number;
   openShifts: number;
@@ -49,11 +79,16 @@ interface ManagerDashboard {
   tankLevels: { tankId: string; fuelType: string; level: number; capacity: number; percentage: number }[];
   pendingExpenses: number;
   openIncidents: number;
+  undepositedCash: UndepositedCash | null;
+  lowStockProducts: number;
+  todayShifts: TodayShift[];
+  paymentBreakdown: PaymentTotal[];
 }
 
 interface ExecutiveDashboard {
   type: 'executive';
   totalRevenue: number;
+  shopRevenue: number;
   revenueTarget: number;
   revenueVsTargetPercent: number;
   totalVariance: number;
@@ -66,6 +101,9 @@ interface ExecutiveDashboard {
   overdueMails: number;
   revenueByStation: { stationId: string; name: string; revenue: number }[];
   revenueTrend: { date: string; revenue: number }[];
+  undepositedCash: number;
+  undepositedByStation: UndepositedCash[];
+  paymentBreakdown: PaymentTotal[];
 }
 
 type DashboardData = ManagerDashboard | ExecutiveDashboard;
@@ -87,6 +125,36 @@ function formatShortDate(dateStr: string): string {
   }
 }
 
+// ─── Payment breakdown ───
+function PaymentBreakdownCard({ title, payments }: { title: string; payments: PaymentTotal[] }) {
+  const total = payments.reduce((sum, p) => sum + p.amount, 0);
+  if (total === 0) return null;
+
+  return (
+    <div className="rounded-xl border bg-card p-4 shadow-sm">
+      <h3 className="mb-3 flex items-center gap-2 text-sm font-medium text-muted-foreground">
+        <Wallet className="h-4 w-4" /> {title}
+      </h3>
+      <div className="space-y-2">
+        {payments.map((p) => (
+          <div key={p.method} className="text-sm">
+            <div className="flex justify-between">
+              <span>{p.name}</span>
+              <span className="font-medium">
+                {formatCurrency(p.amount)}
+                <span className="ml-2 text-xs text-muted-foreground">{Math.round((p.amount / total) * 100)} %</span>
+              </span>
+            </div>
+            <div className="mt-1 h-1.5 rounded-full bg-muted">
+              <div className="h-1.5 rounded-full bg-primary" style={{ width: `${(p.amount / total) * 100}%` }} />
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
 // ─── Skeleton ───
 function CardSkeleton() {
   return (
@@ -234,6 +302,73 @@ function ManagerView({ data, navigate }: { data: ManagerDashboard; navigate: (pa
         </button>
       </div>
 
+      {/* Undeposited cash */}
+      {data.undepositedCash && data.undepositedCash.amount > 0 && (
+        <button
+          onClick={() => navigate('/finance/deposits')}
+          className={cn(
+            'flex w-full items-center justify-between rounded-xl border p-4 text-left text-sm shadow-sm hover:ring-2 hover:ring-primary/30',
+            data.undepositedCash.overdue ? 'border-red-200 bg-red-50 text-red-800' : 'bg-card',
+          )}
+        >
+          <span className="flex items-center gap-2 font-medium">
+            <Landmark className="h-4 w-4" />
+            Espèces non déposées : {formatCurrency(data.undepositedCash.amount)}
+          </span>
+          <span>
+            {data.undepositedCash.shiftCount} poste(s) · {data.undepositedCash.daysOutstanding} j
+            {data.undepositedCash.overdue && ` (limite ${data.undepositedCash.maxUndepositedDays} j)`}
+          </span>
+        </button>
+      )}
+
+      {/* Shop products */}
+      {(data.todayShopRevenue > 0 || data.lowStockProducts > 0) && (
+        <button
+          onClick={() => navigate('/supply/products')}
+          className={cn(
+            'flex w-full items-center justify-between rounded-xl border p-4 text-left text-sm shadow-sm hover:ring-2 hover:ring-primary/30',
+            data.lowStockProducts > 0 ? 'border-orange-200 bg-orange-50 text-orange-800' : 'bg-card',
+          )}
+        >
+          <span className="flex items-center gap-2 font-medium">
+            <ShoppingBag className="h-4 w-4" />
+            Boutique aujourd&apos;hui : {formatCurrency(data.todayShopRevenue)}
+          </span>
+          {data.lowStockProducts > 0 && <span>{data.lowStockProducts} produit(s) sous le seuil</span>}
+        </button>
+      )}
+
+      {/* Today's shifts, per the station's shift patterns */}
+      {data.todayShifts.length > 0 && (
+        <div className="rounded-xl border bg-card p-4 shadow-sm">
+          <h3 className="mb-3 flex items-center gap-2 text-sm font-medium text-muted-foreground">
+            <CalendarClock className="h-4 w-4" /> Quarts du jour
+          </h3>
+          <div className="flex flex-wrap gap-3">
+            {data.todayShifts.map((shift) => (
+              <button
+                key={shift.code}
+                onClick={() => navigate(shift.shiftId ? `/shifts/${shift.shiftId}` : '/shifts/open')}
+                className={cn(
+                  'rounded-lg border px-3 py-2 text-left text-sm hover:bg-muted/30',
+                  shift.status === 'OPEN' && 'border-green-300 bg-green-50',
+                )}
+              >
+                <p className="font-medium">{shift.name}</p>
+                <p className="text-xs text-muted-foreground">
+                  {shift.startTime} – {shift.endTime}
+                  {shift.crossesMidnight && ' (+1)'} ·{' '}
+                  {shift.status === 'OPEN' ? 'Ouvert' : shift.status ? 'Clôturé' : 'Non ouvert'}
+                </p>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <PaymentBreakdownCard title="Encaissements du jour par moyen de paiement" payments={data.paymentBreakdown} />
+
       {/* Charts Row */}
       <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
         {/* Tank Levels */}
@@ -355,6 +490,10 @@ function ExecutiveView({
             title="Recette du mois"
             value={formatCurrency(data.totalRevenue)}
             icon={DollarSign}
+            trend={{
+              value: 0,
+              label: `dont boutique ${formatCurrency(data.shopRevenue)}`,
+            }}
             className="hover:ring-2 hover:ring-primary/30 transition-shadow cursor-pointer"
           />
         </button>
@@ -467,6 +606,47 @@ function ExecutiveView({
         </div>
       </div>
 
+      <PaymentBreakdownCard title="Encaissements du mois par moyen de paiement" payments={data.paymentBreakdown} />
+
+      {/* Undeposited cash by station */}
+      {data.undepositedByStation.length > 0 && (
+        <div className="rounded-xl border bg-card p-6 shadow-sm">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-sm font-medium text-muted-foreground flex items-center gap-2">
+              <Landmark className="h-4 w-4" /> Espèces non déposées
+            </h3>
+            <button
+              onClick={() => navigate('/finance/deposits')}
+              className="text-sm font-bold hover:underline"
+            >
+              {formatCurrency(data.undepositedCash)}
+            </button>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="border-b bg-muted/50">
+                <tr>
+                  <th className="px-4 py-3 text-left font-medium text-muted-foreground">Station</th>
+                  <th className="px-4 py-3 text-right font-medium text-muted-foreground">Montant</th>
+                  <th className="px-4 py-3 text-right font-medium text-muted-foreground">Ancienneté</th>
+                </tr>
+              </thead>
+              <tbody>
+                {data.undepositedByStation.map((st) => (
+                  <tr key={st.stationId} className="border-b last:border-0 hover:bg-muted/30">
+                    <td className="px-4 py-3 font-medium">{st.stationName}</td>
+                    <td className="px-4 py-3 text-right">{formatCurrency(st.amount)}</td>
+                    <td className={cn('px-4 py-3 text-right', st.overdue && 'font-medium text-red-600')}>
+                      {st.daysOutstanding} j{st.overdue && ` (limite ${st.maxUndepositedDays} j)`}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
       {/* Station Ranking Table */}
       <div className="rounded-xl border bg-card p-6 shadow-sm">
         <div className="flex items-center justify-between mb-4">
@@ -0,0 +1,421 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api, ApiError } from '@/lib/api-client';
+import { StatusBadge } from '@/components/shared/status-badge';
+import { handleQueryError } from '@/lib/use-mutation-toast';
+import { useTranslations } from 'next-intl';
+import { toast } from 'sonner';
+import { GitBranch, Plus, Trash2, Pencil, Send } from 'lucide-react';
+import { useAuthStore } from '@/stores/auth-store';
+
+type EntityType = 'INVOICE' | 'EXPENSE' | 'PRICE';
+
+interface PolicyRule {
+  name: string;
+  minAmount?: number;
+  maxAmount?: number;
+  stationIds?: string[];
+  categories?: string[];
+  mode: 'SEQUENTIAL' | 'PARALLEL';
+  steps: { roles: string[] }[];
+}
+
+interface PolicyVersion {
+  id: string;
+  entityType: EntityType;
+  version: number;
+  rules: PolicyRule[];
+  notes: string | null;
+  isActive: boolean;
+  createdAt: string;
+  publishedBy: { id: string; fullName: string } | null;
+  _count: { invoices: number; expenses: number; prices: number };
+}
+
+interface Station {
+  id: string;
+  name: string;
+  code: string;
+}
+
+const ENTITY_TYPES: EntityType[] = ['INVOICE', 'EXPENSE', 'PRICE'];
+
+const APPROVER_ROLES = ['LINE_MANAGER', 'FINANCE_DIR', 'CFO', 'CEO', 'STATION_MANAGER', 'LOGISTICS', 'DCO', 'SUPER_ADMIN'];
+
+// Category conditions match expense categories, supplier categories or fuel types
+const CATEGORIES: Record<EntityType, string[]> = {
+  INVOICE: ['FUEL_SUPPLY', 'MAINTENANCE', 'UTILITIES', 'EQUIPMENT', 'OTHER'],
+  EXPENSE: ['MAINTENANCE', 'UTILITIES', 'SUPPLIES', 'TRANSPORT', 'PERSONNEL', 'MISCELLANEOUS'],
+  PRICE: ['ESSENCE', 'GASOIL', 'PETROLE'],
+};
+
+const emptyRule = (): PolicyRule => ({ name: '', mode: 'SEQUENTIAL', steps: [{ roles: [] }] });
+
+const formatAmount = (value: number) => `${value.toLocaleString('fr-FR')} XAF`;
+
+export default function ApprovalPoliciesPage() {
+  const t = useTranslations('Finance');
+  const tErrors = useTranslations('Errors');
+  const queryClient = useQueryClient();
+  const user = useAuthStore((state) => state.user);
+  const canPublish = user?.role === 'SUPER_ADMIN';
+
+  const [entityType, setEntityType] = useState<EntityType>('INVOICE');
+  const [draft, setDraft] = useState<PolicyRule[] | null>(null);
+  const [notes, setNotes] = useState('');
+
+  const { data: stationsData } = useQuery({
+    queryKey: ['stations'],
+    queryFn: () => api.get<{ data: Station[] }>('/stations?limit=100'),
+  });
+  const stations = (stationsData as unknown as { data: Station[] })?.data || [];
+
+  const { data, isLoading, error, refetch } = useQuery({
+    queryKey: ['approval-policies', entityType],
+    queryFn: () => api.get<PolicyVersion[]>(`/approval-policies/${entityType}`),
+  });
+
+  useEffect(() => {
+    if (error) {
+      handleQueryError(error, {
+        errorMessage: tErrors('generic'),
+        showRetry: true,
+        onRetry: () => refetch(),
+      });
+    }
+  }, [error, refetch, tErrors]);
+
+  const versions: PolicyVersion[] = Array.isArray(data) ? data : [];
+  const active = versions.find((v) => v.isActive) ?? null;
+
+  const publishMutation = useMutation({
+    mutationFn: () => api.post(`/approval-policies/${entityType}`, { rules: draft, ...(notes && { notes }) }),
+    onSuccess: () => {
+      toast.success(t('approvals.publishSuccess'));
+      setDraft(null);
+      setNotes('');
+      queryClient.invalidateQueries({ queryKey: ['approval-policies', entityType] });
+    },
+    onError: (err: ApiError) => toast.error(err.message),
+  });
+
+  const switchEntityType = (type: EntityType) => {
+    setEntityType(type);
+    setDraft(null);
+    setNotes('');
+  };
+
+  const updateRule = (index: number, patch: Partial<PolicyRule>) =>
+    setDraft((rules) => rules!.map((r, i) => (i === index ? { ...r, ...patch } : r)));
+
+  const toggleStepRole = (ruleIndex: number, stepIndex: number, role: string) => {
+    const rule = draft![ruleIndex]!;
+    updateRule(ruleIndex, {
+      steps: rule.steps.map((s, i) =>
+        i === stepIndex
+          ? { roles: s.roles.includes(role) ? s.roles.filter((r) => r !== role) : [...s.roles, role] }
+          : s,
+      ),
+    });
+  };
+
+  const parseAmount = (value: string) => (value === '' ? undefined : Number(value));
+
+  const describeConditions = (rule: PolicyRule) => {
+    const parts: string[] = [];
+    if (rule.minAmount !== undefined) parts.push(`≥ ${formatAmount(rule.minAmount)}`);
+    if (rule.maxAmount !== undefined) parts.push(`< ${formatAmount(rule.maxAmount)}`);
+    if (rule.stationIds) {
+      parts.push(rule.stationIds.map((id) => stations.find((s) => s.id === id)?.code ?? id).join(', '));
+    }
+    if (rule.categories) parts.push(rule.categories.join(', '));
+    return parts.length > 0 ? parts.join(' · ') : t('approvals.allItems');
+  };
+
+  const describeSteps = (rule: PolicyRule) =>
+    rule.steps.map((s) => s.roles.join(' / ')).join(rule.mode === 'PARALLEL' ? ' + ' : ' → ');
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="flex items-center gap-2 text-2xl font-bold">
+          <GitBranch className="h-6 w-6" />
+          {t('approvals.pageTitle')}
+        </h1>
+        <p className="text-muted-foreground">{t('approvals.subtitle')}</p>
+      </div>
+
+      {/* Entity type tabs */}
+      <div className="flex gap-2 border-b">
+        {ENTITY_TYPES.map((type) => (
+          <button
+            key={type}
+            onClick={() => switchEntityType(type)}
+            className={`-mb-px border-b-2 px-4 py-2 text-sm font-medium ${
+              entityType === type ? 'border-primary text-primary' : 'border-transparent text-muted-foreground'
+            }`}
+          >
+            {t(`approvals.entity.${type}`)}
+          </button>
+        ))}
+      </div>
+
+      {/* Policy in force */}
+      <div className="rounded-lg border bg-white p-4">
+        <div className="mb-4 flex items-center justify-between">
+          <h2 className="font-semibold">
+            {active ? t('approvals.currentVersion', { version: active.version }) : t('approvals.noPolicy')}
+          </h2>
+          {canPublish && !draft && (
+            <button
+              onClick={() => setDraft(active ? active.rules : [emptyRule()])}
+              className="flex items-center gap-2 rounded-lg border px-3 py-1.5 text-sm hover:bg-gray-50"
+            >
+              <Pencil className="h-4 w-4" />
+              {t('approvals.newVersion')}
+            </button>
+          )}
+        </div>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">{t('common.loading')}</p>
+        ) : active ? (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b text-left text-muted-foreground">
+                <th className="py-2">#</th>
+                <th className="py-2">{t('approvals.rule')}</th>
+                <th className="py-2">{t('approvals.conditions')}</th>
+                <th className="py-2">{t('approvals.steps')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {active.rules.map((rule, index) => (
+                <tr key={index} className="border-b last:border-0">
+                  <td className="py-2 text-muted-foreground">{index + 1}</td>
+                  <td className="py-2 font-medium">{rule.name}</td>
+                  <td className="py-2">{describeConditions(rule)}</td>
+                  <td className="py-2 font-mono text-xs">{describeSteps(rule)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : null}
+        <p className="mt-3 text-xs text-muted-foreground">{t('approvals.firstMatchHint')}</p>
+      </div>
+
+      {/* Rule editor */}
+      {draft && (
+        <div className="space-y-4 rounded-lg border border-primary/30 bg-white p-4">
+          <h2 className="font-semibold">{t('approvals.editorTitle')}</h2>
+          {draft.map((rule, ruleIndex) => (
+            <div key={ruleIndex} className="space-y-3 rounded-lg border p-3">
+              <div className="flex flex-wrap items-end gap-3">
+                <div className="flex-1">
+                  <label className="mb-1 block text-xs text-muted-foreground">{t('approvals.rule')}</label>
+                  <input
+                    value={rule.name}
+                    onChange={(e) => updateRule(ruleIndex, { name: e.target.value })}
+                    className="w-full rounded-lg border bg-background px-3 py-1.5 text-sm"
+                  />
+                </div>
+                <div>
+                  <label className="mb-1 block text-xs text-muted-foreground">{t('approvals.minAmount')}</label>
+                  <input
+                    type="number"
+                    min={0}
+                    value={rule.minAmount ?? ''}
+                    onChange={(e) => updateRule(ruleIndex, { minAmount: parseAmount(e.target.value) })}
+                    className="w-36 rounded-lg border bg-background px-3 py-1.5 text-sm"
+                  />
+                </div>
+                <div>
+                  <label className="mb-1 block text-xs text-muted-foreground">{t('approvals.maxAmount')}</label>
+                  <input
+                    type="number"
+                    min={0}
+                    value={rule.maxAmount ?? ''}
+                    onChange={(e) => updateRule(ruleIndex, { maxAmount: parseAmount(e.target.value) })}
+                    className="w-36 rounded-lg border bg-background px-3 py-1.5 text-sm"
+                  />
+                </div>
+                <div>
+                  <label className="mb-1 block text-xs text-muted-foreground">{t('approvals.mode')}</label>
+                  <select
+                    value={rule.mode}
+                    onChange={(e) => updateRule(ruleIndex, { mode: e.target.value as PolicyRule['mode'] })}
+                    className="rounded-lg border bg-background px-3 py-1.5 text-sm"
+                  >
+                    <option value="SEQUENTIAL">{t('approvals.sequential')}</option>
+                    <option value="PARALLEL">{t('approvals.parallel')}</option>
+                  </select>
+                </div>
+                <button
+                  onClick={() => setDraft(draft.filter((_, i) => i !== ruleIndex))}
+                  disabled={draft.length === 1}
+                  className="rounded-lg border p-2 text-red-600 hover:bg-red-50 disabled:opacity-50"
+                  title={t('approvals.removeRule')}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+
+              <div className="flex flex-wrap gap-3">
+                <div>
+                  <label className="mb-1 block text-xs text-muted-foreground">{t('approvals.categories')}</label>
+                  <select
+                    multiple
+                    value={rule.categories ?? []}
+                    onChange={(e) => {
+                      const selected = Array.from(e.target.selectedOptions, (o) => o.value);
+                      updateRule(ruleIndex, { categories: selected.length > 0 ? selected : undefined });
+                    }}
+                    className="h-24 rounded-lg border bg-background px-2 py-1 text-sm"
+                  >
+                    {CATEGORIES[entityType].map((c) => (
+                      <option key={c} value={c}>
+                        {c}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="mb-1 block text-xs text-muted-foreground">{t('approvals.stations')}</label>
+                  <select
+                    multiple
+                    value={rule.stationIds ?? []}
+                    onChange={(e) => {
+                      const selected = Array.from(e.target.selectedOptions, (o) => o.value);
+                      updateRule(ruleIndex, { stationIds: selected.length > 0 ? selected : undefined });
+                    }}
+                    className="h-24 rounded-lg border bg-background px-2 py-1 text-sm"
+                  >
+                    {stations.map((s) => (
+                      <option key={s.id} value={s.id}>
+                        {s.code} — {s.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                {rule.steps.map((step, stepIndex) => (
+                  <div key={stepIndex} className="flex flex-wrap items-center gap-2">
+                    <span className="w-16 text-xs text-muted-foreground">
+                      {t('approvals.step', { number: stepIndex + 1 })}
+                    </span>
+                    {APPROVER_ROLES.map((role) => (
+                      <button
+                        key={role}
+                        onClick={() => toggleStepRole(ruleIndex, stepIndex, role)}
+                        className={`rounded border px-2 py-0.5 text-xs ${
+                          step.roles.includes(role) ? 'border-primary bg-primary/10 text-primary' : 'text-muted-foreground'
+                        }`}
+                      >
+                        {role}
+                      </button>
+                    ))}
+                    <button
+                      onClick={() => updateRule(ruleIndex, { steps: rule.steps.filter((_, i) => i !== stepIndex) })}
+                      disabled={rule.steps.length === 1}
+                      className="p-1 text-red-600 disabled:opacity-50"
+                      title={t('approvals.removeStep')}
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </button>
+                  </div>
+                ))}
+                <button
+                  onClick={() => updateRule(ruleIndex, { steps: [...rule.steps, { roles: [] }] })}
+                  disabled={rule.steps.length >= 6}
+                  className="flex items-center gap-1 text-xs text-primary disabled:opacity-50"
+                >
+                  <Plus className="h-3 w-3" />
+                  {t('approvals.addStep')}
+                </button>
+              </div>
+            </div>
+          ))}
+
+          <button
+            onClick={() => setDraft([...draft.slice(0, -1), emptyRule(), draft[draft.length - 1]!])}
+            disabled={draft.length >= 20}
+            className="flex items-center gap-1 text-sm text-primary disabled:opacity-50"
+          >
+            <Plus className="h-4 w-4" />
+            {t('approvals.addRule')}
+          </button>
+
+          <div>
+            <label className="mb-1 block text-sm font-medium">{t('approvals.notes')}</label>
+            <textarea
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              rows={2}
+              className="w-full rounded border p-2 text-sm"
+            />
+          </div>
+
+          <div className="flex gap-2">
+            <button
+              onClick={() => {
+                if (window.confirm(t('approvals.confirmPublish'))) publishMutation.mutate();
+              }}
+              disabled={publishMutation.isPending}
+              className="flex items-center gap-2 rounded-lg bg-primary px-4 py-2 text-sm font-medium text-primary-foreground disabled:opacity-50"
+            >
+              <Send className="h-4 w-4" />
+              {t('approvals.publish')}
+            </button>
+            <button onClick={() => setDraft(null)} className="rounded-lg border px-4 py-2 text-sm">
+              {t('common.cancel')}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Version history */}
+      <div className="rounded-lg border bg-white p-4">
+        <h2 className="mb-4 font-semibold">{t('approvals.history')}</h2>
+        {versions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{t('approvals.noPolicy')}</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b text-left text-muted-foreground">
+                <th className="py-2">{t('approvals.version')}</th>
+                <th className="py-2">{t('approvals.publishedBy')}</th>
+                <th className="py-2">{t('approvals.notes')}</th>
+                <th className="py-2 text-right">{t('approvals.routedItems')}</th>
+                <th className="py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {versions.map((v) => (
+                <tr key={v.id} className="border-b last:border-0">
+                  <td className="py-2 font-medium">v{v.version}</td>
+                  <td className="py-2">
+                    {v.publishedBy?.fullName ?? t('approvals.system')}
+                    <span className="ml-2 text-xs text-muted-foreground">
+                      {new Date(v.createdAt).toLocaleDateString('fr-FR')}
+                    </span>
+                  </td>
+                  <td className="py-2 text-muted-foreground">{v.notes || '—'}</td>
+                  <td className="py-2 text-right font-mono">
+                    {v._count.invoices + v._count.expenses + v._count.prices}
+                  </td>
+                  <td className="py-2 text-right">
+                    {v.isActive && <StatusBadge status="success" label={t('approvals.inForce')} />}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
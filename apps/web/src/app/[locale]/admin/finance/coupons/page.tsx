@@ -0,0 +1,401 @@
+'use client';
+
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api, ApiError } from '@/lib/api-client';
+import { DataTable } from '@/components/shared/data-table';
+import { StatusBadge } from '@/components/shared/status-badge';
+import { KPICard } from '@/components/shared/kpi-card';
+import { useTranslations } from 'next-intl';
+import { toast } from 'sonner';
+import { Plus, ChevronLeft, ChevronRight, Ticket, Wallet, CheckCircle, AlertTriangle } from 'lucide-react';
+import { useAuthStore } from '@/stores/auth-store';
+
+interface CouponBatch {
+  id: string;
+  batchNumber: string;
+  faceValue: string;
+  quantity: number;
+  firstSerial: string;
+  lastSerial: string;
+  expiresAt: string;
+  soldAt: string | null;
+  paymentMethod: string | null;
+  paymentRef: string | null;
+  customer: { id: string; name: string } | null;
+  redeemedCount: number;
+}
+
+interface LiabilityRow {
+  batchId: string;
+  batchNumber: string;
+  customer: { id: string; name: string } | null;
+  outstandingCount: number;
+  outstandingValue: number;
+  expiredCount: number;
+  expiredValue: number;
+}
+
+interface CouponLiability {
+  batches: LiabilityRow[];
+  totals: { soldValue: number; redeemedValue: number; outstandingValue: number; expiredValue: number };
+}
+
+const ACCOUNT_ROLES = ['SUPER_ADMIN', 'CEO', 'CFO', 'FINANCE_DIR'];
+const PAYMENT_METHODS = ['CASH', 'BANK_TRANSFER', 'CHEQUE', 'MOBILE_MONEY'];
+
+const emptyBatch = { batchNumber: '', serialPrefix: '', startNumber: '1', quantity: '', faceValue: '', expiresAt: '' };
+const emptySale = { customerId: '', paymentMethod: 'BANK_TRANSFER', paymentRef: '' };
+
+function formatAmount(value: number | string) {
+  return `${Number(value).toLocaleString('fr-FR')} FCFA`;
+}
+
+export default function CouponsPage() {
+  const t = useTranslations('Finance');
+  const queryClient = useQueryClient();
+  const user = useAuthStore((state) => state.user);
+  const canManage = !!user && ACCOUNT_ROLES.includes(user.role);
+
+  const [page, setPage] = useState(1);
+  const [showForm, setShowForm] = useState(false);
+  const [batchForm, setBatchForm] = useState(emptyBatch);
+  const [sellingId, setSellingId] = useState<string | null>(null);
+  const [saleForm, setSaleForm] = useState(emptySale);
+  const limit = 20;
+
+  const { data: batchesData, isLoading } = useQuery({
+    queryKey: ['coupons', page],
+    queryFn: () => api.get<{ data: CouponBatch[] }>(`/coupons?page=${page}&limit=${limit}`),
+  });
+  const batches: CouponBatch[] = (batchesData as any)?.data || [];
+  const meta = (batchesData as any)?.meta || { total: 0, page: 1, totalPages: 0 };
+
+  const { data: liabilityData } = useQuery({
+    queryKey: ['coupons', 'liability'],
+    queryFn: () => api.get<CouponLiability>('/coupons/liability'),
+  });
+  const liability = liabilityData as CouponLiability | undefined;
+
+  const { data: customersData } = useQuery({
+    queryKey: ['customers', 'active'],
+    queryFn: () => api.get<{ data: { id: string; name: string }[] }>('/customers?isActive=true&limit=100'),
+    enabled: canManage,
+  });
+  const customers: { id: string; name: string }[] = (customersData as any)?.data || [];
+
+  const issueMutation = useMutation({
+    mutationFn: () =>
+      api.post('/coupons', {
+        batchNumber: batchForm.batchNumber,
+        serialPrefix: batchForm.serialPrefix,
+        startNumber: Number(batchForm.startNumber),
+        quantity: Number(batchForm.quantity),
+        faceValue: Number(batchForm.faceValue),
+        expiresAt: batchForm.expiresAt,
+      }),
+    onSuccess: () => {
+      toast.success(t('coupons.issueSuccess'));
+      setBatchForm(emptyBatch);
+      setShowForm(false);
+      queryClient.invalidateQueries({ queryKey: ['coupons'] });
+    },
+    onError: (err: ApiError) => toast.error(err.message),
+  });
+
+  const sellMutation = useMutation({
+    mutationFn: (batchId: string) =>
+      api.post(`/coupons/${batchId}/sell`, {
+        customerId: saleForm.customerId,
+        paymentMethod: saleForm.paymentMethod,
+        ...(saleForm.paymentRef && { paymentRef: saleForm.paymentRef }),
+      }),
+    onSuccess: () => {
+      toast.success(t('coupons.sellSuccess'));
+      setSellingId(null);
+      setSaleForm(emptySale);
+      queryClient.invalidateQueries({ queryKey: ['coupons'] });
+    },
+    onError: (err: ApiError) => toast.error(err.message),
+  });
+
+  const columns = [
+    {
+      key: 'batchNumber',
+      header: t('coupons.batch'),
+      render: (item: CouponBatch) => (
+        <div>
+          <p className="font-medium">{item.batchNumber}</p>
+          <p className="font-mono text-xs text-muted-foreground">
+            {item.firstSerial} → {item.lastSerial}
+          </p>
+        </div>
+      ),
+    },
+    {
+      key: 'value',
+      header: t('coupons.faceValue'),
+      render: (item: CouponBatch) => (
+        <span className="font-mono">
+          {item.quantity} × {formatAmount(item.faceValue)}
+        </span>
+      ),
+    },
+    {
+      key: 'expiresAt',
+      header: t('coupons.expiresAt'),
+      render: (item: CouponBatch) => new Date(item.expiresAt).toLocaleDateString(),
+    },
+    {
+      key: 'customer',
+      header: t('coupons.customer'),
+      render: (item: CouponBatch) => item.customer?.name || '—',
+    },
+    {
+      key: 'redeemed',
+      header: t('coupons.redeemed'),
+      render: (item: CouponBatch) => `${item.redeemedCount} / ${item.quantity}`,
+    },
+    {
+      key: 'status',
+      header: t('coupons.status'),
+      render: (item: CouponBatch) =>
+        item.soldAt ? (
+          <StatusBadge status="success" label={t('coupons.sold')} />
+        ) : canManage ? (
+          <button
+            onClick={() => {
+              setSellingId(item.id);
+              setSaleForm(emptySale);
+            }}
+            className="text-sm font-medium text-primary hover:underline"
+          >
+            {t('coupons.sell')}
+          </button>
+        ) : (
+          <StatusBadge status="neutral" label={t('coupons.inStock')} />
+        ),
+    },
+  ];
+
+  const sellingBatch = batches.find((b) => b.id === sellingId);
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold">{t('coupons.title')}</h1>
+          <p className="text-muted-foreground">{t('coupons.subtitle')}</p>
+        </div>
+        {canManage && (
+          <button
+            onClick={() => setShowForm(!showForm)}
+            className="flex items-center gap-2 rounded-lg bg-primary px-4 py-2 text-sm font-medium text-primary-foreground hover:bg-primary/90"
+          >
+            <Plus className="h-4 w-4" />
+            {t('coupons.newBatch')}
+          </button>
+        )}
+      </div>
+
+      {/* Liability */}
+      {liability && (
+        <div className="grid grid-cols-1 gap-4 md:grid-cols-4">
+          <KPICard title={t('coupons.soldValue')} value={formatAmount(liability.totals.soldValue)} icon={Ticket} />
+          <KPICard title={t('coupons.redeemedValue')} value={formatAmount(liability.totals.redeemedValue)} icon={CheckCircle} />
+          <KPICard title={t('coupons.outstanding')} value={formatAmount(liability.totals.outstandingValue)} icon={Wallet} />
+          <KPICard title={t('coupons.expired')} value={formatAmount(liability.totals.expiredValue)} icon={AlertTriangle} />
+        </div>
+      )}
+
+      {/* Issue a batch */}
+      {showForm && canManage && (
+        <div className="grid grid-cols-1 gap-4 rounded-lg border bg-white p-4 md:grid-cols-4">
+          <div>
+            <label className="mb-1 block text-sm font-medium">{t('coupons.batchNumber')}</label>
+            <input
+              value={batchForm.batchNumber}
+              onChange={(e) => setBatchForm({ ...batchForm, batchNumber: e.target.value })}
+              className="w-full rounded-lg border bg-background px-3 py-2 text-sm"
+            />
+          </div>
+          <div>
+            <label className="mb-1 block text-sm font-medium">{t('coupons.serialPrefix')}</label>
+            <input
+              maxLength={6}
+              value={batchForm.serialPrefix}
+              onChange={(e) => setBatchForm({ ...batchForm, serialPrefix: e.target.value.toUpperCase() })}
+              className="w-full rounded-lg border bg-background px-3 py-2 font-mono text-sm"
+            />
+          </div>
+          {(['startNumber', 'quantity', 'faceValue'] as const).map((field) => (
+            <div key={field}>
+              <label className="mb-1 block text-sm font-medium">{t(`coupons.${field}`)}</label>
+              <input
+                type="number"
+                min={1}
+                value={batchForm[field]}
+                onChange={(e) => setBatchForm({ ...batchForm, [field]: e.target.value })}
+                className="w-full rounded-lg border bg-background px-3 py-2 text-sm"
+              />
+            </div>
+          ))}
+          <div>
+            <label className="mb-1 block text-sm font-medium">{t('coupons.expiresAt')}</label>
+            <input
+              type="date"
+              value={batchForm.expiresAt}
+              onChange={(e) => setBatchForm({ ...batchForm, expiresAt: e.target.value })}
+              className="w-full rounded-lg border bg-background px-3 py-2 text-sm"
+            />
+          </div>
+          <div className="flex items-end md:col-span-2">
+            <button
+              onClick={() => issueMutation.mutate()}
+              disabled={
+                !batchForm.batchNumber ||
+                !batchForm.serialPrefix ||
+                !(Number(batchForm.quantity) > 0) ||
+                !(Number(batchForm.faceValue) > 0) ||
+                !batchForm.expiresAt ||
+                issueMutation.isPending
+              }
+              className="w-full rounded-lg bg-primary px-4 py-2 text-sm font-medium text-primary-foreground hover:bg-primary/90 disabled:opacity-50"
+            >
+              {t('coupons.issue')}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Sell a batch */}
+      {sellingBatch && (
+        <div className="grid grid-cols-1 gap-4 rounded-lg border bg-white p-4 md:grid-cols-4">
+          <p className="md:col-span-4 text-sm">
+            {t('coupons.sellBatch', {
+              batch: sellingBatch.batchNumber,
+              amount: formatAmount(Number(sellingBatch.faceValue) * sellingBatch.quantity),
+            })}
+          </p>
+          <select
+            value={saleForm.customerId}
+            onChange={(e) => setSaleForm({ ...saleForm, customerId: e.target.value })}
+            className="rounded-lg border bg-background px-3 py-2 text-sm"
+          >
+            <option value="">{t('coupons.selectCustomer')}</option>
+            {customers.map((c) => (
+              <option key={c.id} value={c.id}>
+                {c.name}
+              </option>
+            ))}
+          </select>
+          <select
+            value={saleForm.paymentMethod}
+            onChange={(e) => setSaleForm({ ...saleForm, paymentMethod: e.target.value })}
+            className="rounded-lg border bg-background px-3 py-2 text-sm"
+          >
+            {PAYMENT_METHODS.map((method) => (
+              <option key={method} value={method}>
+                {t(`customers.methods.${method}`)}
+              </option>
+            ))}
+          </select>
+          <input
+            placeholder={t('customers.reference')}
+            value={saleForm.paymentRef}
+            onChange={(e) => setSaleForm({ ...saleForm, paymentRef: e.target.value })}
+            className="rounded-lg border bg-background px-3 py-2 text-sm"
+          />
+          <div className="flex gap-2">
+            <button
+              onClick={() => sellMutation.mutate(sellingBatch.id)}
+              disabled={!saleForm.customerId || sellMutation.isPending}
+              className="flex-1 rounded-lg bg-primary px-4 py-2 text-sm font-medium text-primary-foreground hover:bg-primary/90 disabled:opacity-50"
+            >
+              {t('coupons.confirmSale')}
+            </button>
+            <button
+              onClick={() => setSellingId(null)}
+              className="rounded-lg border px-4 py-2 text-sm font-medium hover:bg-muted"
+            >
+              {t('customers.cancel')}
+            </button>
+          </div>
+        </div>
+      )}
+
+      <DataTable
+        columns={columns}
+        data={batches}
+        keyExtractor={(item) => item.id}
+        emptyMessage={t('coupons.noBatches')}
+        isLoading={isLoading}
+      />
+
+      {/* Pagination */}
+      {meta.totalPages > 1 && (
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-muted-foreground">
+            {t('common.showingResults', {
+              from: (page - 1) * limit + 1,
+              to: Math.min(page * limit, meta.total),
+              total: meta.total,
+            })}
+          </p>
+          <div className="flex gap-2">
+            <button
+              onClick={() => setPage(page - 1)}
+              disabled={page === 1}
+              className="flex items-center gap-1 rounded-lg border px-3 py-2 text-sm disabled:opacity-50"
+            >
+              <ChevronLeft className="h-4 w-4" />
+              {t('common.previous')}
+            </button>
+            <button
+              onClick={() => setPage(page + 1)}
+              disabled={page >= meta.totalPages}
+              className="flex items-center gap-1 rounded-lg border px-3 py-2 text-sm disabled:opacity-50"
+            >
+              {t('common.next')}
+              <ChevronRight className="h-4 w-4" />
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Outstanding liability per batch */}
+      {liability && liability.batches.some((b) => b.outstandingCount > 0 || b.expiredCount > 0) && (
+        <div className="rounded-lg border bg-white p-4">
+          <h2 className="mb-3 font-semibold">{t('coupons.liabilityTitle')}</h2>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b text-left">
+                <th className="py-2">{t('coupons.batch')}</th>
+                <th className="py-2">{t('coupons.customer')}</th>
+                <th className="py-2 text-right">{t('coupons.outstanding')}</th>
+                <th className="py-2 text-right">{t('coupons.expired')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {liability.batches
+                .filter((b) => b.outstandingCount > 0 || b.expiredCount > 0)
+                .map((b) => (
+                  <tr key={b.batchId} className="border-b">
+                    <td className="py-2">{b.batchNumber}</td>
+                    <td className="py-2">{b.customer?.name || '—'}</td>
+                    <td className="py-2 text-right font-mono">
+                      {b.outstandingCount} · {formatAmount(b.outstandingValue)}
+                    </td>
+                    <td className="py-2 text-right font-mono">
+                      {b.expiredCount} · {formatAmount(b.expiredValue)}
+                    </td>
+                  </tr>
+                ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
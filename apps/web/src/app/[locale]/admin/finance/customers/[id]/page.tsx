@@ -0,0 +1,562 @@
+'use client';
+
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api, ApiError } from '@/lib/api-client';
+import { DataTable } from '@/components/shared/data-table';
+import { StatusBadge } from '@/components/shared/status-badge';
+import { CsvDownloadButton } from '@/components/shared/csv-download-button';
+import { useParams } from 'next/navigation';
+import { useTranslations, useLocale } from 'next-intl';
+import Link from 'next/link';
+import { toast } from 'sonner';
+import { ArrowLeft, Building2, Edit, FileText, Loader2, Plus, Save, Truck, User, X } from 'lucide-react';
+import { useAuthStore } from '@/stores/auth-store';
+
+interface CreditVehicle {
+  id: string;
+  plateNumber: string;
+  description: string | null;
+  isActive: boolean;
+}
+
+interface CreditDriver {
+  id: string;
+  fullName: string;
+  idNumber: string | null;
+  isActive: boolean;
+}
+
+interface CustomerPayment {
+  id: string;
+  amount: string;
+  method: string;
+  reference: string | null;
+  paidAt: string;
+  receivedBy: { id: string; fullName: string };
+}
+
+interface CreditCustomerDetail {
+  id: string;
+  name: string;
+  taxId: string | null;
+  contactName: string | null;
+  email: string | null;
+  phone: string | null;
+  address: string | null;
+  creditLimit: string;
+  balance: string;
+  paymentTermsDays: number;
+  isActive: boolean;
+  vehicles: CreditVehicle[];
+  drivers: CreditDriver[];
+  payments: CustomerPayment[];
+  aging: { current: number; days31to60: number; days61to90: number; over90: number; total: number };
+}
+
+const ACCOUNT_ROLES = ['SUPER_ADMIN', 'CEO', 'CFO', 'FINANCE_DIR'];
+const REPORT_ROLES = [...ACCOUNT_ROLES, 'DCO'];
+const PAYMENT_METHODS = ['CASH', 'BANK_TRANSFER', 'CHEQUE', 'MOBILE_MONEY'];
+const AGING_BUCKETS = ['current', 'days31to60', 'days61to90', 'over90'] as const;
+
+function formatAmount(value: number | string) {
+  return `${Number(value).toLocaleString('fr-FR')} FCFA`;
+}
+
+export default function CustomerDetailPage() {
+  const t = useTranslations('Finance');
+  const locale = useLocale();
+  const params = useParams();
+  const queryClient = useQueryClient();
+  const user = useAuthStore((state) => state.user);
+  const customerId = params.id as string;
+  const canManage = !!user && ACCOUNT_ROLES.includes(user.role);
+  const canReport = !!user && REPORT_ROLES.includes(user.role);
+
+  const [isEditing, setIsEditing] = useState(false);
+  const [editForm, setEditForm] = useState({ creditLimit: '', paymentTermsDays: '', phone: '', email: '', address: '', isActive: true });
+  const [vehicleForm, setVehicleForm] = useState({ plateNumber: '', description: '' });
+  const [driverForm, setDriverForm] = useState({ fullName: '', idNumber: '' });
+  const [paymentForm, setPaymentForm] = useState({
+    amount: '',
+    method: 'BANK_TRANSFER',
+    reference: '',
+    paidAt: new Date().toISOString().slice(0, 10),
+  });
+  const [month, setMonth] = useState(new Date().toISOString().slice(0, 7));
+
+  const { data: customer, isLoading, error } = useQuery({
+    queryKey: ['customers', customerId],
+    queryFn: () => api.get<CreditCustomerDetail>(`/customers/${customerId}`),
+  });
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ['customers'] });
+
+  const updateMutation = useMutation({
+    mutationFn: () =>
+      api.put(`/customers/${customerId}`, {
+        creditLimit: Number(editForm.creditLimit),
+        paymentTermsDays: Number(editForm.paymentTermsDays),
+        phone: editForm.phone || undefined,
+        email: editForm.email || undefined,
+        address: editForm.address || undefined,
+        isActive: editForm.isActive,
+      }),
+    onSuccess: () => {
+      toast.success(t('customers.updateSuccess'));
+      setIsEditing(false);
+      refresh();
+    },
+    onError: (err: ApiError) => toast.error(err.message),
+  });
+
+  const addVehicleMutation = useMutation({
+    mutationFn: () =>
+      api.post(`/customers/${customerId}/vehicles`, {
+        plateNumber: vehicleForm.plateNumber,
+        ...(vehicleForm.description && { description: vehicleForm.description }),
+      }),
+    onSuccess: () => {
+      setVehicleForm({ plateNumber: '', description: '' });
+      refresh();
+    },
+    onError: (err: ApiError) => toast.error(err.message),
+  });
+
+  const toggleVehicleMutation = useMutation({
+    mutationFn: (vehicle: CreditVehicle) =>
+      api.put(`/customers/${customerId}/vehicles/${vehicle.id}`, { isActive: !vehicle.isActive }),
+    onSuccess: refresh,
+    onError: (err: ApiError) => toast.error(err.message),
+  });
+
+  const addDriverMutation = useMutation({
+    mutationFn: () =>
+      api.post(`/customers/${customerId}/drivers`, {
+        fullName: driverForm.fullName,
+        ...(driverForm.idNumber && { idNumber: driverForm.idNumber }),
+      }),
+    onSuccess: () => {
+      setDriverForm({ fullName: '', idNumber: '' });
+      refresh();
+    },
+    onError: (err: ApiError) => toast.error(err.message),
+  });
+
+  const toggleDriverMutation = useMutation({
+    mutationFn: (driver: CreditDriver) =>
+      api.put(`/customers/${customerId}/drivers/${driver.id}`, { isActive: !driver.isActive }),
+    onSuccess: refresh,
+    onError: (err: ApiError) => toast.error(err.message),
+  });
+
+  const paymentMutation = useMutation({
+    mutationFn: () =>
+      api.post(`/customers/${customerId}/payments`, {
+        amount: Number(paymentForm.amount),
+        method: paymentForm.method,
+        paidAt: paymentForm.paidAt,
+        ...(paymentForm.reference && { reference: paymentForm.reference }),
+      }),
+    onSuccess: () => {
+      toast.success(t('customers.paymentSuccess'));
+      setPaymentForm({ ...paymentForm, amount: '', reference: '' });
+      refresh();
+    },
+    onError: (err: ApiError) => toast.error(err.message),
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex h-64 items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (error || !customer) {
+    return (
+      <div className="flex h-64 flex-col items-center justify-center gap-4">
+        <p className="text-muted-foreground">{t('customers.notFound')}</p>
+        <Link href={`/${locale}/admin/finance/customers`} className="text-primary hover:underline">
+          {t('common.backToList')}
+        </Link>
+      </div>
+    );
+  }
+
+  const account = customer as CreditCustomerDetail;
+  const available = Math.max(Number(account.creditLimit) - Number(account.balance), 0);
+
+  const handleEdit = () => {
+    setEditForm({
+      creditLimit: String(Number(account.creditLimit)),
+      paymentTermsDays: String(account.paymentTermsDays),
+      phone: account.phone || '',
+      email: account.email || '',
+      address: account.address || '',
+      isActive: account.isActive,
+    });
+    setIsEditing(true);
+  };
+
+  const paymentColumns = [
+    {
+      key: 'paidAt',
+      header: t('customers.paidAt'),
+      render: (item: CustomerPayment) => new Date(item.paidAt).toLocaleDateString(),
+    },
+    {
+      key: 'amount',
+      header: t('customers.amount'),
+      render: (item: CustomerPayment) => <span className="font-mono">{formatAmount(item.amount)}</span>,
+    },
+    {
+      key: 'method',
+      header: t('customers.method'),
+      render: (item: CustomerPayment) => t(`customers.methods.${item.method}`),
+    },
+    {
+      key: 'reference',
+      header: t('customers.reference'),
+      render: (item: CustomerPayment) => item.reference || '—',
+    },
+    {
+      key: 'receivedBy',
+      header: t('customers.receivedBy'),
+      render: (item: CustomerPayment) => item.receivedBy.fullName,
+    },
+  ];
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-4">
+          <Link
+            href={`/${locale}/admin/finance/customers`}
+            className="rounded-lg p-2 hover:bg-muted"
+          >
+            <ArrowLeft className="h-5 w-5" />
+          </Link>
+          <div>
+            <div className="flex items-center gap-2">
+              <Building2 className="h-6 w-6 text-muted-foreground" />
+              <h1 className="text-2xl font-bold">{account.name}</h1>
+              <StatusBadge
+                status={account.isActive ? 'success' : 'neutral'}
+                label={account.isActive ? t('customers.active') : t('customers.inactive')}
+              />
+            </div>
+            <p className="text-muted-foreground">
+              {[account.taxId, account.contactName, account.phone, account.email].filter(Boolean).join(' · ')}
+            </p>
+          </div>
+        </div>
+        {canManage && !isEditing && (
+          <button
+            onClick={handleEdit}
+            className="flex items-center gap-2 rounded-lg border px-4 py-2 text-sm font-medium hover:bg-muted"
+          >
+            <Edit className="h-4 w-4" />
+            {t('customers.edit')}
+          </button>
+        )}
+      </div>
+
+      {/* Account */}
+      {isEditing ? (
+        <div className="grid grid-cols-1 gap-4 rounded-lg border bg-white p-4 md:grid-cols-3">
+          <div>
+            <label className="mb-1 block text-sm font-medium">{t('customers.creditLimit')}</label>
+            <input
+              type="number"
+              min={0}
+              value={editForm.creditLimit}
+              onChange={(e) => setEditForm({ ...editForm, creditLimit: e.target.value })}
+              className="w-full rounded-lg border bg-background px-3 py-2 text-sm"
+            />
+          </div>
+          <div>
+            <label className="mb-1 block text-sm font-medium">{t('customers.paymentTerms')}</label>
+            <input
+              type="number"
+              min={1}
+              value={editForm.paymentTermsDays}
+              onChange={(e) => setEditForm({ ...editForm, paymentTermsDays: e.target.value })}
+              className="w-full rounded-lg border bg-background px-3 py-2 text-sm"
+            />
+          </div>
+          {(['phone', 'email', 'address'] as const).map((field) => (
+            <div key={field}>
+              <label className="mb-1 block text-sm font-medium">{t(`customers.${field}`)}</label>
+              <input
+                value={editForm[field]}
+                onChange={(e) => setEditForm({ ...editForm, [field]: e.target.value })}
+                className="w-full rounded-lg border bg-background px-3 py-2 text-sm"
+              />
+            </div>
+          ))}
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={editForm.isActive}
+              onChange={(e) => setEditForm({ ...editForm, isActive: e.target.checked })}
+            />
+            {t('customers.active')}
+          </label>
+          <div className="flex gap-2 md:col-span-3">
+            <button
+              onClick={() => updateMutation.mutate()}
+              disabled={updateMutation.isPending}
+              className="flex items-center gap-2 rounded-lg bg-primary px-4 py-2 text-sm font-medium text-primary-foreground hover:bg-primary/90 disabled:opacity-50"
+            >
+              <Save className="h-4 w-4" />
+              {t('customers.save')}
+            </button>
+            <button
+              onClick={() => setIsEditing(false)}
+              className="flex items-center gap-2 rounded-lg border px-4 py-2 text-sm font-medium hover:bg-muted"
+            >
+              <X className="h-4 w-4" />
+              {t('customers.cancel')}
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 gap-4 md:grid-cols-4">
+          <div className="rounded-lg border bg-white p-4">
+            <p className="text-sm text-muted-foreground">{t('customers.creditLimit')}</p>
+            <p className="mt-1 font-mono text-xl font-bold">{formatAmount(account.creditLimit)}</p>
+          </div>
+          <div className="rounded-lg border bg-white p-4">
+            <p className="text-sm text-muted-foreground">{t('customers.balance')}</p>
+            <p className="mt-1 font-mono text-xl font-bold">{formatAmount(account.balance)}</p>
+          </div>
+          <div className="rounded-lg border bg-white p-4">
+            <p className="text-sm text-muted-foreground">{t('customers.available')}</p>
+            <p className={`mt-1 font-mono text-xl font-bold ${available === 0 ? 'text-red-600' : 'text-green-600'}`}>
+              {formatAmount(available)}
+            </p>
+          </div>
+          <div className="rounded-lg border bg-white p-4">
+            <p className="text-sm text-muted-foreground">{t('customers.paymentTerms')}</p>
+            <p className="mt-1 text-xl font-bold">{t('customers.days', { count: account.paymentTermsDays })}</p>
+          </div>
+        </div>
+      )}
+
+      {/* Aging */}
+      <div className="rounded-lg border bg-white p-4">
+        <h2 className="mb-3 font-semibold">{t('customers.agingTitle')}</h2>
+        <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
+          {AGING_BUCKETS.map((bucket) => (
+            <div key={bucket}>
+              <p className="text-sm text-muted-foreground">{t(`customers.aging.${bucket}`)}</p>
+              <p className={`font-mono font-semibold ${bucket === 'over90' && account.aging[bucket] > 0 ? 'text-red-600' : ''}`}>
+                {formatAmount(account.aging[bucket])}
+              </p>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+        {/* Vehicles */}
+        <div className="rounded-lg border bg-white p-4">
+          <h2 className="mb-3 flex items-center gap-2 font-semibold">
+            <Truck className="h-4 w-4" />
+            {t('customers.vehicles')}
+          </h2>
+          <ul className="divide-y">
+            {account.vehicles.map((vehicle) => (
+              <li key={vehicle.id} className="flex items-center justify-between py-2 text-sm">
+                <div>
+                  <span className="font-mono font-medium">{vehicle.plateNumber}</span>
+                  {vehicle.description && <span className="ml-2 text-muted-foreground">{vehicle.description}</span>}
+                </div>
+                {canManage ? (
+                  <button
+                    onClick={() => toggleVehicleMutation.mutate(vehicle)}
+                    disabled={toggleVehicleMutation.isPending}
+                    className="text-xs text-primary hover:underline disabled:opacity-50"
+                  >
+                    {vehicle.isActive ? t('customers.revoke') : t('customers.authorise')}
+                  </button>
+                ) : (
+                  <StatusBadge
+                    status={vehicle.isActive ? 'success' : 'neutral'}
+                    label={vehicle.isActive ? t('customers.active') : t('customers.inactive')}
+                  />
+                )}
+              </li>
+            ))}
+            {account.vehicles.length === 0 && (
+              <li className="py-2 text-sm text-muted-foreground">{t('customers.noVehicles')}</li>
+            )}
+          </ul>
+          {canManage && (
+            <div className="mt-3 flex gap-2">
+              <input
+                placeholder={t('customers.plateNumber')}
+                value={vehicleForm.plateNumber}
+                onChange={(e) => setVehicleForm({ ...vehicleForm, plateNumber: e.target.value })}
+                className="w-32 rounded-lg border bg-background px-3 py-2 text-sm"
+              />
+              <input
+                placeholder={t('customers.description')}
+                value={vehicleForm.description}
+                onChange={(e) => setVehicleForm({ ...vehicleForm, description: e.target.value })}
+                className="flex-1 rounded-lg border bg-background px-3 py-2 text-sm"
+              />
+              <button
+                onClick={() => addVehicleMutation.mutate()}
+                disabled={!vehicleForm.plateNumber.trim() || addVehicleMutation.isPending}
+                className="rounded-lg bg-primary px-3 py-2 text-primary-foreground disabled:opacity-50"
+              >
+                <Plus className="h-4 w-4" />
+              </button>
+            </div>
+          )}
+        </div>
+
+        {/* Drivers */}
+        <div className="rounded-lg border bg-white p-4">
+          <h2 className="mb-3 flex items-center gap-2 font-semibold">
+            <User className="h-4 w-4" />
+            {t('customers.drivers')}
+          </h2>
+          <ul className="divide-y">
+            {account.drivers.map((driver) => (
+              <li key={driver.id} className="flex items-center justify-between py-2 text-sm">
+                <div>
+                  <span className="font-medium">{driver.fullName}</span>
+                  {driver.idNumber && <span className="ml-2 font-mono text-muted-foreground">{driver.idNumber}</span>}
+                </div>
+                {canManage ? (
+                  <button
+                    onClick={() => toggleDriverMutation.mutate(driver)}
+                    disabled={toggleDriverMutation.isPending}
+                    className="text-xs text-primary hover:underline disabled:opacity-50"
+                  >
+                    {driver.isActive ? t('customers.revoke') : t('customers.authorise')}
+                  </button>
+                ) : (
+                  <StatusBadge
+                    status={driver.isActive ? 'success' : 'neutral'}
+                    label={driver.isActive ? t('customers.active') : t('customers.inactive')}
+                  />
+                )}
+              </li>
+            ))}
+            {account.drivers.length === 0 && (
+              <li className="py-2 text-sm text-muted-foreground">{t('customers.noDrivers')}</li>
+            )}
+          </ul>
+          {canManage && (
+            <div className="mt-3 flex gap-2">
+              <input
+                placeholder={t('customers.driverName')}
+                value={driverForm.fullName}
+                onChange={(e) => setDriverForm({ ...driverForm, fullName: e.target.value })}
+                className="flex-1 rounded-lg border bg-background px-3 py-2 text-sm"
+              />
+              <input
+                placeholder={t('customers.idNumber')}
+                value={driverForm.idNumber}
+                onChange={(e) => setDriverForm({ ...driverForm, idNumber: e.target.value })}
+                className="w-36 rounded-lg border bg-background px-3 py-2 text-sm"
+              />
+              <button
+                onClick={() => addDriverMutation.mutate()}
+                disabled={driverForm.fullName.trim().length < 2 || addDriverMutation.isPending}
+                className="rounded-lg bg-primary px-3 py-2 text-primary-foreground disabled:opacity-50"
+              >
+                <Plus className="h-4 w-4" />
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Payments */}
+      <div className="space-y-3">
+        <h2 className="font-semibold">{t('customers.payments')}</h2>
+        {canManage && (
+          <div className="grid grid-cols-1 gap-3 rounded-lg border bg-white p-4 md:grid-cols-5">
+            <input
+              type="number"
+              min={0}
+              placeholder={t('customers.amount')}
+              value={paymentForm.amount}
+              onChange={(e) => setPaymentForm({ ...paymentForm, amount: e.target.value })}
+              className="rounded-lg border bg-background px-3 py-2 text-sm"
+            />
+            <select
+              value={paymentForm.method}
+              onChange={(e) => setPaymentForm({ ...paymentForm, method: e.target.value })}
+              className="rounded-lg border bg-background px-3 py-2 text-sm"
+            >
+              {PAYMENT_METHODS.map((method) => (
+                <option key={method} value={method}>
+                  {t(`customers.methods.${method}`)}
+                </option>
+              ))}
+            </select>
+            <input
+              placeholder={t('customers.reference')}
+              value={paymentForm.reference}
+              onChange={(e) => setPaymentForm({ ...paymentForm, reference: e.target.value })}
+              className="rounded-lg border bg-background px-3 py-2 text-sm"
+            />
+            <input
+              type="date"
+              value={paymentForm.paidAt}
+              onChange={(e) => setPaymentForm({ ...paymentForm, paidAt: e.target.value })}
+              className="rounded-lg border bg-background px-3 py-2 text-sm"
+            />
+            <button
+              onClick={() => paymentMutation.mutate()}
+              disabled={!(Number(paymentForm.amount) > 0) || paymentMutation.isPending}
+              className="rounded-lg bg-primary px-4 py-2 text-sm font-medium text-primary-foreground hover:bg-primary/90 disabled:opacity-50"
+            >
+              {t('customers.recordPayment')}
+            </button>
+          </div>
+        )}
+        <DataTable
+          columns={paymentColumns}
+          data={account.payments}
+          keyExtractor={(item) => item.id}
+          emptyMessage={t('customers.noPayments')}
+        />
+      </div>
+
+      {/* Statement */}
+      {canReport && (
+        <div className="flex flex-wrap items-end gap-3 rounded-lg border bg-white p-4">
+          <div>
+            <label className="mb-1 block text-sm font-medium">{t('customers.statementMonth')}</label>
+            <input
+              type="month"
+              value={month}
+              onChange={(e) => setMonth(e.target.value)}
+              className="rounded-lg border bg-background px-3 py-2 text-sm"
+            />
+          </div>
+          <Link
+            href={`/${locale}/admin/finance/customers/${customerId}/statement?month=${month}`}
+            className="flex items-center gap-2 rounded-lg border px-4 py-2 text-sm font-medium hover:bg-muted"
+          >
+            <FileText className="h-4 w-4" />
+            {t('customers.viewStatement')}
+          </Link>
+          <CsvDownloadButton
+            endpoint={`/exports/customers/${customerId}/statement?month=${month}`}
+            filename={`statement-${month}.csv`}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,202 @@
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import { api } from '@/lib/api-client';
+import { useParams, useSearchParams } from 'next/navigation';
+import { useTranslations, useLocale } from 'next-intl';
+import Link from 'next/link';
+import { ArrowLeft, Loader2, Printer } from 'lucide-react';
+
+interface StatementEntry {
+  date: string;
+  type: 'CREDIT_SALE' | 'PAYMENT';
+  reference: string;
+  description: string;
+  debit: number;
+  credit: number;
+  balance: number;
+}
+
+interface CustomerStatement {
+  customer: {
+    id: string;
+    name: string;
+    taxId: string | null;
+    address: string | null;
+    creditLimit: number;
+    paymentTermsDays: number;
+  };
+  month: string;
+  periodStart: string;
+  periodEnd: string;
+  openingBalance: number;
+  totalDebit: number;
+  totalCredit: number;
+  closingBalance: number;
+  entries: StatementEntry[];
+}
+
+function formatAmount(value: number) {
+  return value.toLocaleString('fr-FR');
+}
+
+/**
+ * Monthly customer statement laid out for printing; the browser print dialog saves it as PDF.
+ * The print styles drop the admin navigation and print the statement alone on A4 pages.
+ */
+export default function CustomerStatementPage() {
+  const t = useTranslations('Finance');
+  const locale = useLocale();
+  const params = useParams();
+  const searchParams = useSearchParams();
+  const customerId = params.id as string;
+  const month = searchParams.get('month') || new Date().toISOString().slice(0, 7);
+
+  const { data: statement, isLoading, error } = useQuery({
+    queryKey: ['customers', customerId, 'statement', month],
+    queryFn: () => api.get<CustomerStatement>(`/customers/${customerId}/statement?month=${month}`),
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex h-64 items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (error || !statement) {
+    return (
+      <div className="flex h-64 flex-col items-center justify-center gap-4">
+        <p className="text-muted-foreground">{t('customers.notFound')}</p>
+        <Link href={`/${locale}/admin/finance/customers`} className="text-primary hover:underline">
+          {t('common.backToList')}
+        </Link>
+      </div>
+    );
+  }
+
+  const s = statement as CustomerStatement;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between print:hidden">
+        <Link
+          href={`/${locale}/admin/finance/customers/${customerId}`}
+          className="flex items-center gap-2 text-sm text-muted-foreground hover:text-foreground"
+        >
+          <ArrowLeft className="h-4 w-4" />
+          {s.customer.name}
+        </Link>
+        <button
+          onClick={() => window.print()}
+          className="flex items-center gap-2 rounded-lg bg-primary px-4 py-2 text-sm font-medium text-primary-foreground hover:bg-primary/90"
+        >
+          <Printer className="h-4 w-4" />
+          {t('customers.print')}
+        </button>
+      </div>
+
+      <div className="statement rounded-lg border bg-white p-8 print:border-0 print:p-0">
+        <div className="flex items-start justify-between border-b pb-4">
+          <div>
+            <h1 className="text-2xl font-bold">{t('customers.statementTitle')}</h1>
+            <p className="text-muted-foreground">
+              {t('customers.statementPeriod', {
+                start: new Date(s.periodStart).toLocaleDateString(),
+                end: new Date(s.periodEnd).toLocaleDateString(),
+              })}
+            </p>
+          </div>
+          <div className="text-right">
+            <p className="font-semibold">{s.customer.name}</p>
+            {s.customer.taxId && <p className="font-mono text-sm">{s.customer.taxId}</p>}
+            {s.customer.address && <p className="text-sm text-muted-foreground">{s.customer.address}</p>}
+            <p className="text-sm text-muted-foreground">
+              {t('customers.creditLimit')}: {formatAmount(s.customer.creditLimit)} FCFA ·{' '}
+              {t('customers.days', { count: s.customer.paymentTermsDays })}
+            </p>
+          </div>
+        </div>
+
+        <table className="mt-4 w-full text-sm">
+          <thead>
+            <tr className="border-b text-left">
+              <th className="py-2">{t('customers.date')}</th>
+              <th className="py-2">{t('customers.reference')}</th>
+              <th className="py-2">{t('customers.description')}</th>
+              <th className="py-2 text-right">{t('customers.debit')}</th>
+              <th className="py-2 text-right">{t('customers.credit')}</th>
+              <th className="py-2 text-right">{t('customers.balance')}</th>
+            </tr>
+          </thead>
+          <tbody>
+            <tr className="border-b">
+              <td className="py-2" colSpan={5}>
+                {t('customers.openingBalance')}
+              </td>
+              <td className="py-2 text-right font-mono">{formatAmount(s.openingBalance)}</td>
+            </tr>
+            {s.entries.map((entry, i) => (
+              <tr key={i} className="border-b">
+                <td className="py-2">{new Date(entry.date).toLocaleDateString()}</td>
+                <td className="py-2 font-mono">{entry.reference || '—'}</td>
+                <td className="py-2">
+                  {entry.type === 'PAYMENT' ? t(`customers.methods.${entry.description}`) : entry.description}
+                </td>
+                <td className="py-2 text-right font-mono">{entry.debit ? formatAmount(entry.debit) : ''}</td>
+                <td className="py-2 text-right font-mono">{entry.credit ? formatAmount(entry.credit) : ''}</td>
+                <td className="py-2 text-right font-mono">{formatAmount(entry.balance)}</td>
+              </tr>
+            ))}
+          </tbody>
+          <tfoot>
+            <tr className="font-semibold">
+              <td className="py-2" colSpan={3}>
+                {t('customers.closingBalance')}
+              </td>
+              <td className="py-2 text-right font-mono">{formatAmount(s.totalDebit)}</td>
+              <td className="py-2 text-right font-mono">{formatAmount(s.totalCredit)}</td>
+              <td className="py-2 text-right font-mono">{formatAmount(s.closingBalance)} FCFA</td>
+            </tr>
+          </tfoot>
+        </table>
+
+        <p className="mt-6 hidden text-xs text-muted-foreground print:block">
+          {t('customers.statementIssued', { date: new Date().toLocaleDateString() })}
+        </p>
+      </div>
+
+      {/* Print Styles */}
+      <style jsx global>{`
+        @media print {
+          @page {
+            size: A4;
+            margin: 15mm;
+          }
+          aside,
+          header {
+            display: none !important;
+          }
+          .h-screen,
+          main {
+            height: auto !important;
+            overflow: visible !important;
+          }
+          main > div {
+            padding: 0 !important;
+          }
+          .statement thead {
+            display: table-header-group;
+          }
+          .statement tfoot {
+            display: table-row-group;
+          }
+          .statement tr {
+            page-break-inside: avoid;
+          }
+        }
+      `}</style>
+    </div>
+  );
+}
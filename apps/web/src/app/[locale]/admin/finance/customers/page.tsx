@@ -0,0 +1,289 @@
+'use client';
+
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api, ApiError } from '@/lib/api-client';
+import { DataTable } from '@/components/shared/data-table';
+import { StatusBadge } from '@/components/shared/status-badge';
+import { KPICard } from '@/components/shared/kpi-card';
+import { useRouter } from 'next/navigation';
+import { useTranslations, useLocale } from 'next-intl';
+import { toast } from 'sonner';
+import { Plus, Search, ChevronLeft, ChevronRight, Building2, Clock, AlertTriangle, Wallet } from 'lucide-react';
+import { useAuthStore } from '@/stores/auth-store';
+
+interface CreditCustomer {
+  id: string;
+  name: string;
+  taxId: string | null;
+  creditLimit: string;
+  balance: string;
+  paymentTermsDays: number;
+  isActive: boolean;
+  _count: { vehicles: number; drivers: number };
+}
+
+interface AgingBuckets {
+  current: number;
+  days31to60: number;
+  days61to90: number;
+  over90: number;
+  total: number;
+}
+
+const ACCOUNT_ROLES = ['SUPER_ADMIN', 'CEO', 'CFO', 'FINANCE_DIR'];
+const REPORT_ROLES = [...ACCOUNT_ROLES, 'DCO'];
+
+const emptyForm = { name: '', taxId: '', contactName: '', phone: '', email: '', creditLimit: '', paymentTermsDays: '30' };
+
+export default function CustomersPage() {
+  const t = useTranslations('Finance');
+  const locale = useLocale();
+  const router = useRouter();
+  const queryClient = useQueryClient();
+  const user = useAuthStore((state) => state.user);
+  const canManage = !!user && ACCOUNT_ROLES.includes(user.role);
+  const canSeeAging = !!user && REPORT_ROLES.includes(user.role);
+
+  const [page, setPage] = useState(1);
+  const [search, setSearch] = useState('');
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+  const limit = 20;
+
+  const queryParams = new URLSearchParams({
+    page: String(page),
+    limit: String(limit),
+    ...(search && { search }),
+  });
+
+  const { data: customersData, isLoading } = useQuery({
+    queryKey: ['customers', page, search],
+    queryFn: () => api.get<{ data: CreditCustomer[] }>(`/customers?${queryParams}`),
+  });
+  const customers: CreditCustomer[] = (customersData as any)?.data || [];
+  const meta = (customersData as any)?.meta || { total: 0, page: 1, totalPages: 0 };
+
+  const { data: agingData } = useQuery({
+    queryKey: ['customers', 'aging'],
+    queryFn: () => api.get<{ totals: AgingBuckets }>('/customers/aging'),
+    enabled: canSeeAging,
+  });
+  const aging = (agingData as any)?.totals as AgingBuckets | undefined;
+
+  const createMutation = useMutation({
+    mutationFn: () =>
+      api.post('/customers', {
+        name: form.name,
+        creditLimit: Number(form.creditLimit),
+        paymentTermsDays: Number(form.paymentTermsDays),
+        ...(form.taxId && { taxId: form.taxId }),
+        ...(form.contactName && { contactName: form.contactName }),
+        ...(form.phone && { phone: form.phone }),
+        ...(form.email && { email: form.email }),
+      }),
+    onSuccess: () => {
+      toast.success(t('customers.createSuccess'));
+      setForm(emptyForm);
+      setShowForm(false);
+      queryClient.invalidateQueries({ queryKey: ['customers'] });
+    },
+    onError: (err: ApiError) => toast.error(err.message),
+  });
+
+  const columns = [
+    {
+      key: 'name',
+      header: t('customers.name'),
+      render: (item: CreditCustomer) => (
+        <div className="flex items-center gap-2">
+          <Building2 className="h-4 w-4 text-muted-foreground" />
+          <div>
+            <p className="font-medium">{item.name}</p>
+            {item.taxId && <p className="font-mono text-xs text-muted-foreground">{item.taxId}</p>}
+          </div>
+        </div>
+      ),
+    },
+    {
+      key: 'vehicles',
+      header: t('customers.vehicles'),
+      render: (item: CreditCustomer) => <span>{item._count.vehicles}</span>,
+    },
+    {
+      key: 'creditLimit',
+      header: t('customers.creditLimit'),
+      render: (item: CreditCustomer) => (
+        <span className="font-mono">{Number(item.creditLimit).toLocaleString('fr-FR')} FCFA</span>
+      ),
+    },
+    {
+      key: 'balance',
+      header: t('customers.balance'),
+      render: (item: CreditCustomer) => {
+        const balance = Number(item.balance);
+        const limit = Number(item.creditLimit);
+        return (
+          <span className={`font-mono ${limit > 0 && balance >= limit * 0.9 ? 'font-bold text-red-600' : ''}`}>
+            {balance.toLocaleString('fr-FR')} FCFA
+          </span>
+        );
+      },
+    },
+    {
+      key: 'terms',
+      header: t('customers.paymentTerms'),
+      render: (item: CreditCustomer) => t('customers.days', { count: item.paymentTermsDays }),
+    },
+    {
+      key: 'status',
+      header: t('customers.status'),
+      render: (item: CreditCustomer) => (
+        <StatusBadge
+          status={item.isActive ? 'success' : 'neutral'}
+          label={item.isActive ? t('customers.active') : t('customers.inactive')}
+        />
+      ),
+    },
+  ];
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold">{t('customers.title')}</h1>
+          <p className="text-muted-foreground">{t('customers.subtitle')}</p>
+        </div>
+        {canManage && (
+          <button
+            onClick={() => setShowForm(!showForm)}
+            className="flex items-center gap-2 rounded-lg bg-primary px-4 py-2 text-sm font-medium text-primary-foreground hover:bg-primary/90"
+          >
+            <Plus className="h-4 w-4" />
+            {t('customers.newCustomer')}
+          </button>
+        )}
+      </div>
+
+      {/* Aging */}
+      {aging && (
+        <div className="grid grid-cols-1 gap-4 md:grid-cols-4">
+          <KPICard title={t('customers.totalOutstanding')} value={`${aging.total.toLocaleString('fr-FR')} FCFA`} icon={Wallet} />
+          <KPICard title={t('customers.aging.current')} value={`${aging.current.toLocaleString('fr-FR')} FCFA`} icon={Clock} />
+          <KPICard
+            title={t('customers.aging.days31to60') + ' / ' + t('customers.aging.days61to90')}
+            value={`${(aging.days31to60 + aging.days61to90).toLocaleString('fr-FR')} FCFA`}
+            icon={Clock}
+          />
+          <KPICard
+            title={t('customers.aging.over90')}
+            value={`${aging.over90.toLocaleString('fr-FR')} FCFA`}
+            icon={AlertTriangle}
+            className={aging.over90 > 0 ? 'border-red-200' : undefined}
+          />
+        </div>
+      )}
+
+      {/* New customer */}
+      {showForm && canManage && (
+        <div className="grid grid-cols-1 gap-4 rounded-lg border bg-white p-4 md:grid-cols-4">
+          {(['name', 'taxId', 'contactName', 'phone', 'email'] as const).map((field) => (
+            <div key={field}>
+              <label className="mb-1 block text-sm font-medium">{t(`customers.${field}`)}</label>
+              <input
+                value={form[field]}
+                onChange={(e) => setForm({ ...form, [field]: e.target.value })}
+                className="w-full rounded-lg border bg-background px-3 py-2 text-sm"
+              />
+            </div>
+          ))}
+          <div>
+            <label className="mb-1 block text-sm font-medium">{t('customers.creditLimit')}</label>
+            <input
+              type="number"
+              min={0}
+              value={form.creditLimit}
+              onChange={(e) => setForm({ ...form, creditLimit: e.target.value })}
+              className="w-full rounded-lg border bg-background px-3 py-2 text-sm"
+            />
+          </div>
+          <div>
+            <label className="mb-1 block text-sm font-medium">{t('customers.paymentTerms')}</label>
+            <input
+              type="number"
+              min={1}
+              value={form.paymentTermsDays}
+              onChange={(e) => setForm({ ...form, paymentTermsDays: e.target.value })}
+              className="w-full rounded-lg border bg-background px-3 py-2 text-sm"
+            />
+          </div>
+          <div className="flex items-end">
+            <button
+              onClick={() => createMutation.mutate()}
+              disabled={form.name.trim().length < 2 || form.creditLimit === '' || createMutation.isPending}
+              className="w-full rounded-lg bg-primary px-4 py-2 text-sm font-medium text-primary-foreground hover:bg-primary/90 disabled:opacity-50"
+            >
+              {t('customers.create')}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Search */}
+      <div className="relative max-w-md">
+        <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+        <input
+          type="text"
+          placeholder={t('customers.searchPlaceholder')}
+          value={search}
+          onChange={(e) => {
+            setSearch(e.target.value);
+            setPage(1);
+          }}
+          className="w-full rounded-lg border bg-background px-10 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+        />
+      </div>
+
+      <DataTable
+        columns={columns}
+        data={customers}
+        keyExtractor={(item) => item.id}
+        onRowClick={(item) => router.push(`/${locale}/admin/finance/customers/${item.id}`)}
+        emptyMessage={t('customers.noCustomers')}
+        isLoading={isLoading}
+      />
+
+      {/* Pagination */}
+      {meta.totalPages > 1 && (
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-muted-foreground">
+            {t('common.showingResults', {
+              from: (page - 1) * limit + 1,
+              to: Math.min(page * limit, meta.total),
+              total: meta.total,
+            })}
+          </p>
+          <div className="flex gap-2">
+            <button
+              onClick={() => setPage(page - 1)}
+              disabled={page === 1}
+              className="flex items-center gap-1 rounded-lg border px-3 py-2 text-sm disabled:opacity-50"
+            >
+              <ChevronLeft className="h-4 w-4" />
+              {t('common.previous')}
+            </button>
+            <button
+              onClick={() => setPage(page + 1)}
+              disabled={page >= meta.totalPages}
+              className="flex items-center gap-1 rounded-lg border px-3 py-2 text-sm disabled:opacity-50"
+            >
+              {t('common.next')}
+              <ChevronRight className="h-4 w-4" />
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
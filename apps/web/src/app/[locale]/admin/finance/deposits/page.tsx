@@ -0,0 +1,405 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api, ApiError } from '@/lib/api-client';
+import { DataTable } from '@/components/shared/data-table';
+import { StatusBadge } from '@/components/shared/status-badge';
+import { handleQueryError } from '@/lib/use-mutation-toast';
+import { useTranslations, useFormatter } from 'next-intl';
+import { toast } from 'sonner';
+import { Landmark, Building2, Upload, FileText, Loader2, X, AlertTriangle } from 'lucide-react';
+import { useAuthStore } from '@/stores/auth-store';
+
+interface UndepositedBalance {
+  stationId: string;
+  stationCode: string;
+  stationName: string;
+  amount: number;
+  shiftCount: number;
+  oldestShiftDate: string | null;
+  daysOutstanding: number;
+  maxUndepositedDays: number;
+  overdue: boolean;
+}
+
+interface UndepositedShift {
+  shiftReportId: string;
+  stationId: string;
+  shiftDate: string;
+  shiftType: string;
+  cashCounted: number;
+  deposited: number;
+  outstanding: number;
+}
+
+interface BankDeposit {
+  id: string;
+  bankName: string;
+  slipNumber: string;
+  amount: string;
+  depositDate: string;
+  proofUrl: string;
+  station: { id: string; code: string; name: string };
+  depositedBy: { id: string; fullName: string };
+  shifts: { id: string; amount: string; shiftReport: { id: string; shiftDate: string; shiftType: string } }[];
+}
+
+const DEPOSIT_ROLES = ['STATION_MANAGER', 'FINANCE_DIR', 'CFO', 'SUPER_ADMIN'];
+
+export default function DepositsPage() {
+  const t = useTranslations('Finance');
+  const tErrors = useTranslations('Errors');
+  const format = useFormatter();
+  const queryClient = useQueryClient();
+  const user = useAuthStore((state) => state.user);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [stationId, setStationId] = useState('');
+  const [bankName, setBankName] = useState('');
+  const [slipNumber, setSlipNumber] = useState('');
+  const [depositDate, setDepositDate] = useState(new Date().toISOString().slice(0, 10));
+  const [proof, setProof] = useState<{ name: string; url: string } | null>(null);
+  const [isUploading, setIsUploading] = useState(false);
+  const [allocations, setAllocations] = useState<Record<string, string>>({});
+
+  const { data: undepositedData, error, refetch } = useQuery({
+    queryKey: ['cash', 'undeposited'],
+    queryFn: () => api.get<{ balances: UndepositedBalance[]; shifts: UndepositedShift[] }>('/cash/undeposited'),
+  });
+
+  const { data: depositsData, isLoading } = useQuery({
+    queryKey: ['cash', 'deposits'],
+    queryFn: () => api.get<BankDeposit[]>('/cash/deposits?limit=50'),
+  });
+
+  useEffect(() => {
+    if (error) {
+      handleQueryError(error, {
+        errorMessage: tErrors('generic'),
+        showRetry: true,
+        onRetry: () => refetch(),
+      });
+    }
+  }, [error, refetch, tErrors]);
+
+  const balances = undepositedData?.balances || [];
+  const outstandingShifts = (undepositedData?.shifts || []).filter((s) => s.stationId === stationId);
+  const deposits: BankDeposit[] = Array.isArray(depositsData) ? depositsData : [];
+
+  const matched = Object.entries(allocations).filter(([, v]) => Number(v) > 0);
+  const total = matched.reduce((sum, [, v]) => sum + Number(v), 0);
+
+  const resetForm = () => {
+    setBankName('');
+    setSlipNumber('');
+    setProof(null);
+    setAllocations({});
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const depositMutation = useMutation({
+    mutationFn: () =>
+      api.post('/cash/deposits', {
+        stationId,
+        bankName,
+        slipNumber,
+        depositDate,
+        amount: total,
+        proofUrl: proof?.url,
+        shifts: matched.map(([shiftReportId, v]) => ({ shiftReportId, amount: Number(v) })),
+      }),
+    onSuccess: () => {
+      toast.success(t('deposits.createSuccess'));
+      resetForm();
+      queryClient.invalidateQueries({ queryKey: ['cash'] });
+    },
+    onError: (err: ApiError) => toast.error(err.message),
+  });
+
+  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setIsUploading(true);
+    try {
+      const formDataUpload = new FormData();
+      formDataUpload.append('file', file);
+
+      const token = localStorage.getItem('access_token');
+      const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL || 'http://localhost:4000'}/files/upload?module=deposits`, {
+        method: 'POST',
+        headers: token ? { Authorization: `Bearer ${token}` } : {},
+        body: formDataUpload,
+      });
+
+      const json = await response.json();
+      if (!response.ok) {
+        throw new Error(json.error?.message || 'Upload failed');
+      }
+      setProof({ name: file.name, url: json.data.fileUrl });
+    } catch (err) {
+      toast.error(t('deposits.uploadFailed'));
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const formatDay = (iso: string) => new Date(iso).toLocaleDateString('fr-FR', { timeZone: 'UTC' });
+  const canDeposit = !!user && DEPOSIT_ROLES.includes(user.role);
+
+  const balanceColumns = [
+    {
+      key: 'station',
+      header: t('deposits.station'),
+      render: (item: UndepositedBalance) => (
+        <div className="flex items-center gap-2">
+          <Building2 className="h-4 w-4 text-muted-foreground" />
+          <span className="font-medium">{item.stationName}</span>
+        </div>
+      ),
+    },
+    {
+      key: 'amount',
+      header: t('deposits.undeposited'),
+      render: (item: UndepositedBalance) => (
+        <span className="font-mono">{format.number(item.amount)} FCFA</span>
+      ),
+    },
+    {
+      key: 'shiftCount',
+      header: t('deposits.shifts'),
+      render: (item: UndepositedBalance) => <span>{item.shiftCount}</span>,
+    },
+    {
+      key: 'age',
+      header: t('deposits.oldest'),
+      render: (item: UndepositedBalance) =>
+        item.overdue ? (
+          <StatusBadge
+            status="danger"
+            label={t('deposits.daysOverdue', { days: item.daysOutstanding, max: item.maxUndepositedDays })}
+          />
+        ) : item.oldestShiftDate ? (
+          <span>{t('deposits.days', { days: item.daysOutstanding })}</span>
+        ) : (
+          <span>-</span>
+        ),
+    },
+  ];
+
+  const depositColumns = [
+    {
+      key: 'depositDate',
+      header: t('deposits.date'),
+      render: (item: BankDeposit) => <span>{formatDay(item.depositDate)}</span>,
+    },
+    {
+      key: 'station',
+      header: t('deposits.station'),
+      render: (item: BankDeposit) => <span>{item.station?.name}</span>,
+    },
+    {
+      key: 'slip',
+      header: t('deposits.slip'),
+      render: (item: BankDeposit) => (
+        <a href={item.proofUrl} target="_blank" rel="noreferrer" className="text-blue-600 hover:underline">
+          {item.bankName} — {item.slipNumber}
+        </a>
+      ),
+    },
+    {
+      key: 'amount',
+      header: t('deposits.amount'),
+      render: (item: BankDeposit) => <span className="font-mono">{format.number(Number(item.amount))} FCFA</span>,
+    },
+    {
+      key: 'shifts',
+      header: t('deposits.shifts'),
+      render: (item: BankDeposit) => (
+        <span className="text-xs text-muted-foreground">
+          {item.shifts.map((s) => `${formatDay(s.shiftReport.shiftDate)} ${s.shiftReport.shiftType}`).join(', ')}
+        </span>
+      ),
+    },
+    {
+      key: 'depositedBy',
+      header: t('deposits.depositedBy'),
+      render: (item: BankDeposit) => <span>{item.depositedBy?.fullName || '-'}</span>,
+    },
+  ];
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold">{t('deposits.pageTitle')}</h1>
+        <p className="text-muted-foreground">{t('deposits.subtitle')}</p>
+      </div>
+
+      {/* Undeposited cash per station */}
+      <DataTable
+        columns={balanceColumns}
+        data={balances}
+        keyExtractor={(item) => item.stationId}
+        emptyMessage={t('deposits.noStations')}
+      />
+
+      {/* Deposit form */}
+      {canDeposit && (
+        <div className="space-y-4 rounded-lg border bg-white p-4">
+          <h2 className="flex items-center gap-2 font-semibold">
+            <Landmark className="h-5 w-5" />
+            {t('deposits.newDeposit')}
+          </h2>
+          <div className="flex flex-wrap items-end gap-4">
+            <div>
+              <label className="mb-1 block text-sm font-medium">{t('deposits.station')}</label>
+              <select
+                value={stationId}
+                onChange={(e) => {
+                  setStationId(e.target.value);
+                  setAllocations({});
+                }}
+                className="rounded-lg border bg-background px-3 py-2 text-sm"
+              >
+                <option value="">{t('deposits.selectStation')}</option>
+                {balances.map((b) => (
+                  <option key={b.stationId} value={b.stationId}>
+                    {b.stationCode} — {b.stationName}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="mb-1 block text-sm font-medium">{t('deposits.bank')}</label>
+              <input
+                value={bankName}
+                onChange={(e) => setBankName(e.target.value)}
+                className="rounded-lg border bg-background px-3 py-2 text-sm"
+              />
+            </div>
+            <div>
+              <label className="mb-1 block text-sm font-medium">{t('deposits.slip')}</label>
+              <input
+                value={slipNumber}
+                onChange={(e) => setSlipNumber(e.target.value)}
+                className="rounded-lg border bg-background px-3 py-2 text-sm"
+              />
+            </div>
+            <div>
+              <label className="mb-1 block text-sm font-medium">{t('deposits.date')}</label>
+              <input
+                type="date"
+                value={depositDate}
+                onChange={(e) => setDepositDate(e.target.value)}
+                className="rounded-lg border bg-background px-3 py-2 text-sm"
+              />
+            </div>
+            <div>
+              {proof ? (
+                <div className="flex items-center gap-2 rounded-lg border border-green-200 bg-green-50 px-3 py-2 text-sm">
+                  <FileText className="h-4 w-4 text-green-600" />
+                  <span>{proof.name}</span>
+                  <button type="button" onClick={() => setProof(null)}>
+                    <X className="h-4 w-4" />
+                  </button>
+                </div>
+              ) : (
+                <button
+                  type="button"
+                  onClick={() => fileInputRef.current?.click()}
+                  className="flex items-center gap-2 rounded-lg border px-3 py-2 text-sm hover:bg-gray-50"
+                >
+                  {isUploading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Upload className="h-4 w-4" />}
+                  {t('deposits.uploadSlip')}
+                </button>
+              )}
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".pdf,.jpg,.jpeg,.png"
+                onChange={handleFileUpload}
+                className="hidden"
+              />
+            </div>
+          </div>
+
+          {/* Shifts to match */}
+          {stationId && (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b">
+                  <th className="py-2 text-left">{t('deposits.shift')}</th>
+                  <th className="py-2 text-right">{t('deposits.cashCounted')}</th>
+                  <th className="py-2 text-right">{t('deposits.alreadyDeposited')}</th>
+                  <th className="py-2 text-right">{t('deposits.matchedAmount')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {outstandingShifts.length === 0 && (
+                  <tr>
+                    <td colSpan={4} className="py-4 text-center text-muted-foreground">
+                      {t('deposits.nothingToDeposit')}
+                    </td>
+                  </tr>
+                )}
+                {outstandingShifts.map((s) => (
+                  <tr key={s.shiftReportId} className="border-b">
+                    <td className="py-2">
+                      {formatDay(s.shiftDate)} — {s.shiftType}
+                    </td>
+                    <td className="py-2 text-right font-mono">{format.number(s.cashCounted)}</td>
+                    <td className="py-2 text-right font-mono">{format.number(s.deposited)}</td>
+                    <td className="py-2 text-right">
+                      <input
+                        type="number"
+                        min={0}
+                        max={s.outstanding}
+                        placeholder={String(s.outstanding)}
+                        value={allocations[s.shiftReportId] ?? ''}
+                        onChange={(e) => setAllocations((v) => ({ ...v, [s.shiftReportId]: e.target.value }))}
+                        className="w-32 rounded border px-2 py-1 text-right"
+                      />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+              <tfoot>
+                <tr className="font-bold">
+                  <td colSpan={3} className="py-2">
+                    {t('deposits.total')}
+                  </td>
+                  <td className="py-2 text-right font-mono">{format.number(total)} FCFA</td>
+                </tr>
+              </tfoot>
+            </table>
+          )}
+
+          <button
+            onClick={() => depositMutation.mutate()}
+            disabled={!stationId || !bankName || !slipNumber || !proof || matched.length === 0 || depositMutation.isPending}
+            className="rounded-lg bg-primary px-4 py-2 text-sm font-medium text-primary-foreground hover:bg-primary/90 disabled:opacity-50"
+          >
+            {t('deposits.record')}
+          </button>
+        </div>
+      )}
+
+      {balances.some((b) => b.overdue) && (
+        <div className="flex items-center gap-2 rounded-lg border border-red-200 bg-red-50 p-3 text-sm text-red-700">
+          <AlertTriangle className="h-4 w-4" />
+          {t('deposits.overdueWarning')}
+        </div>
+      )}
+
+      <DataTable
+        columns={depositColumns}
+        data={deposits}
+        keyExtractor={(item) => item.id}
+        emptyMessage={t('deposits.noDeposits')}
+        isLoading={isLoading}
+      />
+    </div>
+  );
+}
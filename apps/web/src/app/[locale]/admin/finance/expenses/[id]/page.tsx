@@ -32,6 +32,11 @@ interface ApprovalStep {
   };
 }
 
+interface ApprovalState {
+  rule: { name: string; mode: 'SEQUENTIAL' | 'PARALLEL' };
+  steps: { index: number; roles: string[]; status: 'APPROVED' | 'SKIPPED' | 'PENDING' }[];
+}
+
 interface Expense {
   id: string;
   title: string;
@@ -58,6 +63,7 @@ interface Expense {
   canDisburse: boolean;
   hasLineManagerApproval: boolean;
   approvedRoles: string[];
+  approval: ApprovalState;
   nextApproverRoles: string[];
 }
 
@@ -79,8 +85,6 @@ const CATEGORY_MAP: Record<string, { labelKey: string; emoji: string }> = {
   MISCELLANEOUS: { labelKey: 'categoryMiscellaneous', emoji: '📋' },
 };
 
-const EXPENSE_THRESHOLD_CFO = 5_000_000;
-
 export default function ExpenseDetailPage() {
   const t = useTranslations('Finance');
   const locale = useLocale();
@@ -178,7 +182,8 @@ export default function ExpenseDetailPage() {
 
   const statusInfo = STATUS_MAP[expense.status] || { status: 'neutral', labelKey: expense.status.toLowerCase() };
   const categoryInfo = CATEGORY_MAP[expense.category] || { labelKey: 'categoryMiscellaneous', emoji: '📋' };
-  const isHighValue = expense.amount >= EXPENSE_THRESHOLD_CFO;
+  const policySteps = expense.approval.steps.filter((s) => s.status !== 'SKIPPED');
+  const isAwaitingApproval = ['SUBMITTED', 'PENDING_MANAGER', 'PENDING_FINANCE'].includes(expense.status);
 
   return (
     <div className="space-y-6">
@@ -204,16 +209,18 @@ export default function ExpenseDetailPage() {
         </div>
       </div>
 
-      {/* High Value Warning */}
-      {isHighValue && (
+      {/* Multi-level approval notice (beyond the line manager and one finance approver) */}
+      {policySteps.length > 2 && isAwaitingApproval && (
         <div className="flex items-start gap-3 rounded-lg border border-amber-200 bg-amber-50 p-4 dark:border-amber-900 dark:bg-amber-950">
           <AlertTriangle className="h-5 w-5 text-amber-600" />
           <div>
             <h3 className="font-medium text-amber-800 dark:text-amber-200">
-              {t('expenses.highValueExpense')}
+              {expense.approval.rule.name}
             </h3>
             <p className="mt-1 text-sm text-amber-700 dark:text-amber-300">
-              {t('expenses.requiresCfoAndCeoApproval')}
+              {t(expense.approval.rule.mode === 'PARALLEL' ? 'approvals.parallelSteps' : 'approvals.sequentialSteps', {
+                count: policySteps.length,
+              })}
             </p>
           </div>
         </div>
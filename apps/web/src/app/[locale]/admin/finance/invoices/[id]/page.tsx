@@ -22,12 +22,14 @@ import {
   CheckCircle2,
   XCircle,
   AlertCircle,
+  ClipboardList,
 } from 'lucide-react';
 import { useAuthStore } from '@/stores/auth-store';
 
 interface ApprovalStep {
   id: string;
   role: string;
+  stepIndex: number | null;
   action: 'APPROVE' | 'REJECT';
   comment: string | null;
   actedAt: string;
@@ -37,6 +39,35 @@ interface ApprovalStep {
   };
 }
 
+interface PolicyStep {
+  index: number;
+  roles: string[];
+  status: 'APPROVED' | 'SKIPPED' | 'PENDING';
+  approvedRole: string | null;
+}
+
+interface ApprovalState {
+  policy: { id: string; version: number };
+  rule: { name: string; mode: 'SEQUENTIAL' | 'PARALLEL' };
+  steps: PolicyStep[];
+  openSteps: number[];
+  complete: boolean;
+}
+
+interface MatchLine {
+  fuelType: string;
+  orderedVolume: number;
+  orderedPrice: number;
+  receivedVolume: number;
+  invoicedQuantity: number;
+  invoicedPrice: number;
+  quantityVariance: number;
+  priceVariance: number;
+  amountVariance: number;
+  quantityMatched: boolean;
+  priceMatched: boolean;
+}
+
 interface Invoice {
   id: string;
   invoiceNumber: string;
@@ -63,11 +94,16 @@ interface Invoice {
     fullName: string;
   } | null;
   approvals: ApprovalStep[];
+  approval: ApprovalState;
   requiredApprovers: string[];
   existingApprovals: string[];
   canApprove: boolean;
   canReject: boolean;
   canPay: boolean;
+  purchaseOrder: { id: string; poNumber: string; status: string } | null;
+  matchStatus: 'MATCHED' | 'MISMATCH' | null;
+  threeWayMatch: { matched: boolean; lines: MatchLine[] } | null;
+  canOverrideMatch: boolean;
 }
 
 const STATUS_MAP: Record<string, { status: 'success' | 'warning' | 'danger' | 'info' | 'neutral'; label: string }> = {
@@ -85,8 +121,6 @@ const ROLE_LABELS: Record<string, string> = {
   SUPER_ADMIN: 'Super Admin',
 };
 
-const INVOICE_THRESHOLD_CFO = 5_000_000;
-
 export default function InvoiceDetailPage() {
   const t = useTranslations('Finance');
   const locale = useLocale();
@@ -100,6 +134,7 @@ export default function InvoiceDetailPage() {
   const [showRejectModal, setShowRejectModal] = useState(false);
   const [showPayModal, setShowPayModal] = useState(false);
   const [approveComment, setApproveComment] = useState('');
+  const [overrideReason, setOverrideReason] = useState('');
   const [rejectReason, setRejectReason] = useState('');
   const [paymentProofUrl, setPaymentProofUrl] = useState('');
 
@@ -111,11 +146,13 @@ export default function InvoiceDetailPage() {
 
   // Approve mutation
   const approveMutation = useMutation({
-    mutationFn: (comment: string) => api.put(`/invoices/${invoiceId}/approve`, { comment }),
+    mutationFn: (comment: string) =>
+      api.put(`/invoices/${invoiceId}/approve`, { comment, ...(overrideReason && { overrideReason }) }),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['invoices', invoiceId] });
       setShowApproveModal(false);
       setApproveComment('');
+      setOverrideReason('');
     },
   });
 
@@ -160,7 +197,8 @@ export default function InvoiceDetailPage() {
 
   const inv = invoice as Invoice;
   const statusInfo = STATUS_MAP[inv.status] || { status: 'neutral', label: inv.status };
-  const isHighValue = inv.amount >= INVOICE_THRESHOLD_CFO;
+  const policySteps = inv.approval.steps.filter((s) => s.status !== 'SKIPPED');
+  const isMismatch = !!inv.threeWayMatch && !inv.threeWayMatch.matched;
 
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('fr-CM', {
@@ -170,10 +208,13 @@ export default function InvoiceDetailPage() {
     }).format(amount);
   };
 
-  // Build approval timeline steps
-  const timelineSteps = inv.requiredApprovers.map((role) => {
-    const approval = inv.approvals.find((a) => a.role === role && a.action === 'APPROVE');
-    const rejection = inv.approvals.find((a) => a.role === role && a.action === 'REJECT');
+  // Build approval timeline steps from the policy rule routing the invoice
+  const timelineSteps = policySteps.map((step) => {
+    const role = step.roles.map((r) => ROLE_LABELS[r] || r).join(' / ');
+    const actedOn = (a: ApprovalStep) =>
+      a.stepIndex === step.index || (a.stepIndex === null && a.role === step.approvedRole);
+    const approval = inv.approvals.find((a) => actedOn(a) && a.action === 'APPROVE');
+    const rejection = inv.approvals.find((a) => a.stepIndex === step.index && a.action === 'REJECT');
     
     if (rejection) {
       return {
@@ -225,13 +266,17 @@ export default function InvoiceDetailPage() {
         <StatusBadge status={statusInfo.status} label={statusInfo.label} />
       </div>
 
-      {/* High Value Warning */}
-      {isHighValue && inv.status === 'PENDING_APPROVAL' && (
+      {/* Multi-level approval notice */}
+      {policySteps.length > 1 && inv.status === 'PENDING_APPROVAL' && (
         <div className="flex items-center gap-3 rounded-lg border border-amber-200 bg-amber-50 p-4">
           <AlertCircle className="h-5 w-5 text-amber-600" />
           <div>
-            <p className="font-medium text-amber-800">{t('invoices.highValueInvoice')}</p>
-            <p className="text-sm text-amber-700">{t('invoices.requiresCfoAndCeoApproval')}</p>
+            <p className="font-medium text-amber-800">{inv.approval.rule.name}</p>
+            <p className="text-sm text-amber-700">
+              {t(inv.approval.rule.mode === 'PARALLEL' ? 'approvals.parallelSteps' : 'approvals.sequentialSteps', {
+                count: policySteps.length,
+              })}
+            </p>
           </div>
         </div>
       )}
@@ -305,6 +350,60 @@ export default function InvoiceDetailPage() {
             </div>
           </div>
 
+          {/* Three-way match: ordered / received / invoiced */}
+          {inv.purchaseOrder && inv.threeWayMatch && (
+            <div className="rounded-lg border bg-card p-6 space-y-4">
+              <div className="flex items-center justify-between">
+                <h2 className="flex items-center gap-2 font-semibold">
+                  <ClipboardList className="h-5 w-5" />
+                  {t('invoices.threeWayMatch')}
+                </h2>
+                <StatusBadge
+                  status={inv.threeWayMatch.matched ? 'success' : 'danger'}
+                  label={inv.threeWayMatch.matched ? t('invoices.matched') : t('invoices.mismatch')}
+                />
+              </div>
+              <Link
+                href={`/${locale}/admin/supply/purchase-orders/${inv.purchaseOrder.id}`}
+                className="font-mono text-sm text-primary hover:underline"
+              >
+                {inv.purchaseOrder.poNumber}
+              </Link>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-muted-foreground">
+                    <th className="py-2">{t('invoices.fuelType')}</th>
+                    <th className="py-2 text-right">{t('invoices.ordered')}</th>
+                    <th className="py-2 text-right">{t('invoices.received')}</th>
+                    <th className="py-2 text-right">{t('invoices.invoiced')}</th>
+                    <th className="py-2 text-right">{t('invoices.orderedPrice')}</th>
+                    <th className="py-2 text-right">{t('invoices.invoicedPrice')}</th>
+                    <th className="py-2 text-right">{t('invoices.amountVariance')}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {inv.threeWayMatch.lines.map((line) => (
+                    <tr key={line.fuelType} className="border-b last:border-0">
+                      <td className="py-2">{line.fuelType}</td>
+                      <td className="py-2 text-right font-mono">{line.orderedVolume.toLocaleString('fr-FR')} L</td>
+                      <td className="py-2 text-right font-mono">{line.receivedVolume.toLocaleString('fr-FR')} L</td>
+                      <td className={`py-2 text-right font-mono ${line.quantityMatched ? '' : 'text-red-600'}`}>
+                        {line.invoicedQuantity.toLocaleString('fr-FR')} L
+                      </td>
+                      <td className="py-2 text-right font-mono">{line.orderedPrice.toLocaleString('fr-FR')}</td>
+                      <td className={`py-2 text-right font-mono ${line.priceMatched ? '' : 'text-red-600'}`}>
+                        {line.invoicedPrice.toLocaleString('fr-FR')}
+                      </td>
+                      <td className={`py-2 text-right font-mono ${line.amountVariance === 0 ? '' : 'text-red-600'}`}>
+                        {formatCurrency(line.amountVariance)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
           {/* Rejection Reason */}
           {inv.status === 'REJECTED' && inv.rejectionReason && (
             <div className="rounded-lg border border-red-200 bg-red-50 p-4">
@@ -356,7 +455,7 @@ export default function InvoiceDetailPage() {
             <h2 className="font-semibold mb-4">{t('invoices.approvalTimeline')}</h2>
             <div className="space-y-4">
               {timelineSteps.map((step, index) => (
-                <div key={step.role} className="flex gap-3">
+                <div key={`${index}-${step.role}`} className="flex gap-3">
                   <div className="flex flex-col items-center">
                     <div
                       className={`flex h-8 w-8 items-center justify-center rounded-full ${
@@ -382,7 +481,7 @@ export default function InvoiceDetailPage() {
                     )}
                   </div>
                   <div className="flex-1 pb-4">
-                    <p className="font-medium">{ROLE_LABELS[step.role] || step.role}</p>
+                    <p className="font-medium">{step.role}</p>
                     {step.status === 'pending' ? (
                       <p className="text-sm text-muted-foreground">{t('invoices.pendingApproval')}</p>
                     ) : (
@@ -419,6 +518,25 @@ export default function InvoiceDetailPage() {
                 placeholder={t('invoices.commentPlaceholder')}
               />
             </div>
+            {isMismatch && (
+              <div className="rounded-lg border border-red-200 bg-red-50 p-3 space-y-2">
+                <p className="text-sm text-red-700">
+                  {inv.canOverrideMatch ? t('invoices.mismatchOverrideHint') : t('invoices.mismatchBlocked')}
+                </p>
+                {inv.canOverrideMatch && (
+                  <textarea
+                    value={overrideReason}
+                    onChange={(e) => setOverrideReason(e.target.value)}
+                    rows={2}
+                    className="w-full rounded-lg border px-3 py-2 text-sm"
+                    placeholder={t('invoices.overrideReasonPlaceholder')}
+                  />
+                )}
+              </div>
+            )}
+            {approveMutation.error && (
+              <p className="text-sm text-red-600">{(approveMutation.error as ApiError).message}</p>
+            )}
             <div className="flex justify-end gap-2">
               <button
                 onClick={() => setShowApproveModal(false)}
@@ -428,7 +546,7 @@ export default function InvoiceDetailPage() {
               </button>
               <button
                 onClick={() => approveMutation.mutate(approveComment)}
-                disabled={approveMutation.isPending}
+                disabled={approveMutation.isPending || (isMismatch && (!inv.canOverrideMatch || overrideReason.length < 10))}
                 className="flex items-center gap-2 rounded-lg bg-green-600 px-4 py-2 text-sm text-white hover:bg-green-700 disabled:opacity-50"
               >
                 {approveMutation.isPending && <Loader2 className="h-4 w-4 animate-spin" />}
@@ -14,6 +14,20 @@ interface Supplier {
   taxId: string;
 }
 
+interface PurchaseOrder {
+  id: string;
+  poNumber: string;
+  status: 'ISSUED' | 'RECEIVED' | 'CANCELLED';
+  station: { code: string };
+  lines: { fuelType: string; volume: string; unitPrice: string }[];
+}
+
+interface InvoiceLine {
+  fuelType: string;
+  quantity: string;
+  unitPrice: string;
+}
+
 interface UploadResponse {
   id: string;
   fileUrl: string;
@@ -26,6 +40,7 @@ interface FormData {
   amount: string;
   dueDate: string;
   fileUrl: string;
+  purchaseOrderId: string;
 }
 
 export default function NewInvoicePage() {
@@ -44,7 +59,9 @@ export default function NewInvoicePage() {
     amount: '',
     dueDate: '',
     fileUrl: '',
+    purchaseOrderId: '',
   });
+  const [lines, setLines] = useState<InvoiceLine[]>([]);
   const [errors, setErrors] = useState<Partial<FormData>>({});
   const [uploadedFile, setUploadedFile] = useState<{ name: string; url: string } | null>(null);
   const [isUploading, setIsUploading] = useState(false);
@@ -57,9 +74,28 @@ export default function NewInvoicePage() {
 
   const suppliers = Array.isArray(suppliersData) ? suppliersData : [];
 
+  // Purchase orders of the supplier, for the three-way match
+  const { data: ordersData } = useQuery({
+    queryKey: ['purchase-orders', 'supplier', formData.supplierId],
+    queryFn: () => api.get<PurchaseOrder[]>(`/purchase-orders?supplierId=${formData.supplierId}&limit=100`),
+    enabled: !!formData.supplierId,
+  });
+  const purchaseOrders = ((ordersData as any)?.data || []).filter(
+    (po: PurchaseOrder) => po.status !== 'CANCELLED',
+  ) as PurchaseOrder[];
+
+  const linesTotal = lines.reduce((sum, l) => sum + (Number(l.quantity) || 0) * (Number(l.unitPrice) || 0), 0);
+
   const createInvoice = useMutation({
-    mutationFn: (data: { supplierId: string; invoiceNumber: string; amount: number; dueDate: string; fileUrl: string }) =>
-      api.post('/invoices', data),
+    mutationFn: (data: {
+      supplierId: string;
+      invoiceNumber: string;
+      amount: number;
+      dueDate: string;
+      fileUrl: string;
+      purchaseOrderId?: string;
+      lines?: { fuelType: string; quantity: number; unitPrice: number }[];
+    }) => api.post('/invoices', data),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['invoices'] });
       router.push(`/${locale}/admin/finance/invoices`);
@@ -67,6 +103,8 @@ export default function NewInvoicePage() {
     onError: (error: ApiError) => {
       if (error.code === 'SUPPLIER_NOT_FOUND') {
         setErrors({ supplierId: t('invoices.errors.supplierNotFound') });
+      } else if (error.code === 'BIZ_PO_SUPPLIER_MISMATCH' || error.code === 'INVALID_STATUS') {
+        setErrors({ purchaseOrderId: error.message });
       }
     },
   });
@@ -84,6 +122,9 @@ export default function NewInvoicePage() {
     if (!formData.amount || isNaN(amount) || amount <= 0) {
       newErrors.amount = t('invoices.errors.amountRequired');
     }
+    if (formData.purchaseOrderId && lines.some((l) => !(Number(l.quantity) > 0) || !(Number(l.unitPrice) > 0))) {
+      newErrors.purchaseOrderId = t('invoices.errors.linesRequired');
+    }
     if (!formData.dueDate) {
       newErrors.dueDate = t('invoices.errors.dueDateRequired');
     }
@@ -104,18 +145,49 @@ export default function NewInvoicePage() {
         amount: parseFloat(formData.amount),
         dueDate: formData.dueDate,
         fileUrl: formData.fileUrl,
+        ...(formData.purchaseOrderId && {
+          purchaseOrderId: formData.purchaseOrderId,
+          lines: lines.map((l) => ({ fuelType: l.fuelType, quantity: Number(l.quantity), unitPrice: Number(l.unitPrice) })),
+        }),
       });
     }
   };
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
-    setFormData((prev) => ({ ...prev, [name]: value }));
+    setFormData((prev) => ({ ...prev, [name]: value, ...(name === 'supplierId' && { purchaseOrderId: '' }) }));
+    if (name === 'supplierId') setLines([]);
     if (errors[name as keyof FormData]) {
       setErrors((prev) => ({ ...prev, [name]: undefined }));
     }
   };
 
+  // Billed lines start from the order; the supplier's figures are typed over them
+  const handlePurchaseOrderChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const order = purchaseOrders.find((po) => po.id === e.target.value);
+    const orderLines = (order?.lines || []).map((l) => ({
+      fuelType: l.fuelType,
+      quantity: String(Number(l.volume)),
+      unitPrice: String(Number(l.unitPrice)),
+    }));
+    setLines(orderLines);
+    setFormData((prev) => ({
+      ...prev,
+      purchaseOrderId: e.target.value,
+      ...(order && { amount: String(orderLines.reduce((sum, l) => sum + Number(l.quantity) * Number(l.unitPrice), 0)) }),
+    }));
+    setErrors((prev) => ({ ...prev, purchaseOrderId: undefined }));
+  };
+
+  const updateLine = (index: number, field: 'quantity' | 'unitPrice', value: string) => {
+    const next = lines.map((l, i) => (i === index ? { ...l, [field]: value } : l));
+    setLines(next);
+    setFormData((prev) => ({
+      ...prev,
+      amount: String(next.reduce((sum, l) => sum + (Number(l.quantity) || 0) * (Number(l.unitPrice) || 0), 0)),
+    }));
+  };
+
   const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
@@ -244,6 +316,7 @@ export default function NewInvoicePage() {
                 onChange={handleChange}
                 min="0"
                 step="1"
+                readOnly={lines.length > 0}
                 className={`w-full rounded-lg border px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary ${
                   errors.amount ? 'border-red-500' : ''
                 }`}
@@ -255,6 +328,66 @@ export default function NewInvoicePage() {
             </div>
           </div>
 
+          {purchaseOrders.length > 0 && (
+            <div>
+              <label className="block text-sm font-medium mb-1">
+                {t('invoices.purchaseOrder')}
+              </label>
+              <select
+                name="purchaseOrderId"
+                value={formData.purchaseOrderId}
+                onChange={handlePurchaseOrderChange}
+                className={`w-full rounded-lg border px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary ${
+                  errors.purchaseOrderId ? 'border-red-500' : ''
+                }`}
+              >
+                <option value="">{t('invoices.noPurchaseOrder')}</option>
+                {purchaseOrders.map((po) => (
+                  <option key={po.id} value={po.id}>
+                    {po.poNumber} ({po.station.code})
+                  </option>
+                ))}
+              </select>
+              {errors.purchaseOrderId && (
+                <p className="mt-1 text-xs text-red-500">{errors.purchaseOrderId}</p>
+              )}
+            </div>
+          )}
+
+          {lines.length > 0 && (
+            <div className="space-y-2">
+              <p className="text-sm font-medium">{t('invoices.lines')}</p>
+              {lines.map((line, index) => (
+                <div key={line.fuelType} className="grid grid-cols-3 items-center gap-3">
+                  <span className="text-sm">{line.fuelType}</span>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={line.quantity}
+                    onChange={(e) => updateLine(index, 'quantity', e.target.value)}
+                    className="rounded-lg border px-3 py-2 text-sm"
+                    aria-label={t('invoices.lineQuantity')}
+                    placeholder={t('invoices.lineQuantity')}
+                  />
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={line.unitPrice}
+                    onChange={(e) => updateLine(index, 'unitPrice', e.target.value)}
+                    className="rounded-lg border px-3 py-2 text-sm"
+                    aria-label={t('invoices.lineUnitPrice')}
+                    placeholder={t('invoices.lineUnitPrice')}
+                  />
+                </div>
+              ))}
+              <p className="text-xs text-muted-foreground">
+                {t('invoices.linesTotal', { total: linesTotal.toLocaleString('fr-FR') })}
+              </p>
+            </div>
+          )}
+
           <div>
             <label className="block text-sm font-medium mb-1">
               {t('invoices.dueDate')} *
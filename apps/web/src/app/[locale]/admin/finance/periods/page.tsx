@@ -0,0 +1,314 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api, ApiError } from '@/lib/api-client';
+import { DataTable } from '@/components/shared/data-table';
+import { StatusBadge } from '@/components/shared/status-badge';
+import { handleQueryError } from '@/lib/use-mutation-toast';
+import { useTranslations } from 'next-intl';
+import { toast } from 'sonner';
+import { Lock, Unlock, Building2, Calendar, Check, X } from 'lucide-react';
+import { useAuthStore } from '@/stores/auth-store';
+
+interface Station {
+  id: string;
+  name: string;
+  code: string;
+}
+
+interface ReopenRequest {
+  id: string;
+  justification: string;
+  status: 'PENDING' | 'APPROVED' | 'REJECTED';
+  reviewComment: string | null;
+  requestedBy: { id: string; fullName: string };
+  reviewedBy: { id: string; fullName: string } | null;
+  createdAt: string;
+}
+
+interface PeriodClose {
+  id: string;
+  periodStart: string;
+  periodEnd: string;
+  lockedShiftCount: number;
+  reopenedAt: string | null;
+  createdAt: string;
+  station: Station;
+  closedBy: { id: string; fullName: string };
+  reopenRequests: ReopenRequest[];
+}
+
+const CLOSE_ROLES = ['FINANCE_DIR', 'CFO', 'SUPER_ADMIN'];
+const REQUEST_ROLES = ['STATION_MANAGER', 'FINANCE_DIR', 'CFO', 'CEO', 'SUPER_ADMIN'];
+
+export default function PeriodsPage() {
+  const t = useTranslations('Finance');
+  const tErrors = useTranslations('Errors');
+  const queryClient = useQueryClient();
+  const user = useAuthStore((state) => state.user);
+
+  const [stationId, setStationId] = useState('');
+  const [periodType, setPeriodType] = useState<'DAY' | 'MONTH'>('DAY');
+  const [date, setDate] = useState(new Date().toISOString().slice(0, 10));
+  const [reopenFor, setReopenFor] = useState<string | null>(null);
+  const [justification, setJustification] = useState('');
+
+  const { data: stationsData } = useQuery({
+    queryKey: ['stations'],
+    queryFn: () => api.get<{ data: Station[] }>('/stations?limit=100'),
+  });
+  const stations = (stationsData as unknown as { data: Station[] })?.data || [];
+
+  const { data: periodsData, isLoading, error, refetch } = useQuery({
+    queryKey: ['periods'],
+    queryFn: () => api.get<PeriodClose[]>('/periods'),
+  });
+
+  useEffect(() => {
+    if (error) {
+      handleQueryError(error, {
+        errorMessage: tErrors('generic'),
+        showRetry: true,
+        onRetry: () => refetch(),
+      });
+    }
+  }, [error, refetch, tErrors]);
+
+  const periods: PeriodClose[] = Array.isArray(periodsData) ? periodsData : [];
+
+  const onMutationError = (err: ApiError) => toast.error(err.message);
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ['periods'] });
+
+  const closeMutation = useMutation({
+    mutationFn: () => api.post('/periods/close', { stationId, periodType, date }),
+    onSuccess: () => {
+      toast.success(t('periods.closeSuccess'));
+      invalidate();
+    },
+    onError: onMutationError,
+  });
+
+  const requestMutation = useMutation({
+    mutationFn: (id: string) => api.post(`/periods/${id}/reopen-requests`, { justification }),
+    onSuccess: () => {
+      toast.success(t('periods.requestSuccess'));
+      setReopenFor(null);
+      setJustification('');
+      invalidate();
+    },
+    onError: onMutationError,
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: ({ requestId, action, reason }: { requestId: string; action: 'approve' | 'reject'; reason?: string }) =>
+      api.put(`/periods/reopen-requests/${requestId}/${action}`, action === 'reject' ? { reason } : {}),
+    onSuccess: (_data, { action }) => {
+      toast.success(t(action === 'approve' ? 'periods.approveSuccess' : 'periods.rejectSuccess'));
+      invalidate();
+    },
+    onError: onMutationError,
+  });
+
+  const handleClose = () => {
+    if (!stationId || !date) return;
+    if (window.confirm(t('periods.confirmClose'))) closeMutation.mutate();
+  };
+
+  const handleReject = (requestId: string) => {
+    const reason = window.prompt(t('periods.reason'));
+    if (reason) reviewMutation.mutate({ requestId, action: 'reject', reason });
+  };
+
+  const formatDay = (iso: string) => new Date(iso).toLocaleDateString('fr-FR', { timeZone: 'UTC' });
+
+  const columns = [
+    {
+      key: 'station',
+      header: t('periods.station'),
+      render: (item: PeriodClose) => (
+        <div className="flex items-center gap-2">
+          <Building2 className="h-4 w-4 text-muted-foreground" />
+          <span className="font-medium">{item.station?.name}</span>
+        </div>
+      ),
+    },
+    {
+      key: 'period',
+      header: t('periods.period'),
+      render: (item: PeriodClose) => (
+        <div className="flex items-center gap-2">
+          <Calendar className="h-4 w-4 text-muted-foreground" />
+          <span>
+            {formatDay(item.periodStart)}
+            {item.periodEnd !== item.periodStart && ` → ${formatDay(item.periodEnd)}`}
+          </span>
+        </div>
+      ),
+    },
+    {
+      key: 'lockedShiftCount',
+      header: t('periods.lockedShifts'),
+      render: (item: PeriodClose) => <span className="font-mono">{item.lockedShiftCount}</span>,
+    },
+    {
+      key: 'closedBy',
+      header: t('periods.closedBy'),
+      render: (item: PeriodClose) => <span>{item.closedBy?.fullName || '-'}</span>,
+    },
+    {
+      key: 'status',
+      header: t('periods.status'),
+      render: (item: PeriodClose) => {
+        const pending = item.reopenRequests.find((r) => r.status === 'PENDING');
+        if (item.reopenedAt) return <StatusBadge status="neutral" label={t('periods.reopened')} />;
+        if (pending) {
+          return (
+            <div className="space-y-1">
+              <StatusBadge status="warning" label={t('periods.reopenPending')} />
+              <p className="max-w-xs text-xs text-muted-foreground">
+                {pending.requestedBy.fullName}: {pending.justification}
+              </p>
+            </div>
+          );
+        }
+        return <StatusBadge status="info" label={t('periods.locked')} />;
+      },
+    },
+    {
+      key: 'actions',
+      header: '',
+      render: (item: PeriodClose) => {
+        if (item.reopenedAt) return null;
+        const pending = item.reopenRequests.find((r) => r.status === 'PENDING');
+
+        if (pending && user?.role === 'CFO' && pending.requestedBy.id !== user.userId) {
+          return (
+            <div className="flex gap-2">
+              <button
+                onClick={() => reviewMutation.mutate({ requestId: pending.id, action: 'approve' })}
+                className="flex items-center gap-1 rounded border border-green-300 px-2 py-1 text-xs text-green-700 hover:bg-green-50"
+              >
+                <Check className="h-3 w-3" />
+                {t('periods.approve')}
+              </button>
+              <button
+                onClick={() => handleReject(pending.id)}
+                className="flex items-center gap-1 rounded border border-red-300 px-2 py-1 text-xs text-red-700 hover:bg-red-50"
+              >
+                <X className="h-3 w-3" />
+                {t('periods.reject')}
+              </button>
+            </div>
+          );
+        }
+
+        if (!pending && user && REQUEST_ROLES.includes(user.role)) {
+          return (
+            <button
+              onClick={() => setReopenFor(item.id)}
+              className="flex items-center gap-1 rounded border px-2 py-1 text-xs hover:bg-gray-50"
+            >
+              <Unlock className="h-3 w-3" />
+              {t('periods.requestReopen')}
+            </button>
+          );
+        }
+        return null;
+      },
+    },
+  ];
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold">{t('periods.pageTitle')}</h1>
+        <p className="text-muted-foreground">{t('periods.subtitle')}</p>
+      </div>
+
+      {/* Close form */}
+      {user && CLOSE_ROLES.includes(user.role) && (
+        <div className="flex flex-wrap items-end gap-4 rounded-lg border bg-white p-4">
+          <div>
+            <label className="mb-1 block text-sm font-medium">{t('periods.station')}</label>
+            <select
+              value={stationId}
+              onChange={(e) => setStationId(e.target.value)}
+              className="rounded-lg border bg-background px-3 py-2 text-sm"
+            >
+              <option value="">{t('periods.selectStation')}</option>
+              {stations.map((s) => (
+                <option key={s.id} value={s.id}>
+                  {s.code} — {s.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="mb-1 block text-sm font-medium">{t('periods.periodType')}</label>
+            <select
+              value={periodType}
+              onChange={(e) => setPeriodType(e.target.value as 'DAY' | 'MONTH')}
+              className="rounded-lg border bg-background px-3 py-2 text-sm"
+            >
+              <option value="DAY">{t('periods.day')}</option>
+              <option value="MONTH">{t('periods.month')}</option>
+            </select>
+          </div>
+          <div>
+            <label className="mb-1 block text-sm font-medium">{t('periods.date')}</label>
+            <input
+              type="date"
+              value={date}
+              onChange={(e) => setDate(e.target.value)}
+              className="rounded-lg border bg-background px-3 py-2 text-sm"
+            />
+          </div>
+          <button
+            onClick={handleClose}
+            disabled={!stationId || closeMutation.isPending}
+            className="flex items-center gap-2 rounded-lg bg-primary px-4 py-2 text-sm font-medium text-primary-foreground hover:bg-primary/90 disabled:opacity-50"
+          >
+            <Lock className="h-4 w-4" />
+            {t('periods.closePeriod')}
+          </button>
+        </div>
+      )}
+
+      {/* Reopen request */}
+      {reopenFor && (
+        <div className="space-y-2 rounded-lg border border-yellow-300 bg-yellow-50 p-4">
+          <label className="block text-sm font-medium">{t('periods.justification')}</label>
+          <textarea
+            value={justification}
+            onChange={(e) => setJustification(e.target.value)}
+            placeholder={t('periods.justificationPlaceholder')}
+            rows={3}
+            className="w-full rounded border p-2 text-sm"
+          />
+          <div className="flex gap-2">
+            <button
+              onClick={() => requestMutation.mutate(reopenFor)}
+              disabled={justification.trim().length < 10 || requestMutation.isPending}
+              className="rounded-lg bg-primary px-4 py-2 text-sm font-medium text-primary-foreground disabled:opacity-50"
+            >
+              {t('periods.submitRequest')}
+            </button>
+            <button onClick={() => setReopenFor(null)} className="rounded-lg border px-4 py-2 text-sm">
+              {t('common.cancel')}
+            </button>
+          </div>
+        </div>
+      )}
+
+      <DataTable
+        columns={columns}
+        data={periods}
+        keyExtractor={(item) => item.id}
+        emptyMessage={t('periods.noPeriods')}
+        isLoading={isLoading}
+      />
+    </div>
+  );
+}
@@ -7,6 +7,7 @@ import { useState } from 'react';
 import { useTranslations, useLocale } from 'next-intl';
 import { ArrowLeft, AlertTriangle, User, Check, RotateCcw, ExternalLink, Camera, ClipboardCheck } from 'lucide-react';
 import { StatusBadge } from '@/components/shared/status-badge';
+import { shiftTypeLabel } from '@/lib/shift-patterns';
 import Link from 'next/link';
 import { toast } from 'sonner';
 
@@ -235,9 +236,7 @@ export default function IncidentDetailPage() {
               <p className="font-medium">{incident.checklistSubmission.template.name}</p>
               <p className="text-sm text-muted-foreground">
                 {new Date(incident.checklistSubmission.shiftDate).toLocaleDateString(locale)} •{' '}
-                {incident.checklistSubmission.shiftType === 'MORNING'
-                  ? tChecklists('morning')
-                  : tChecklists('evening')}
+                {shiftTypeLabel(incident.checklistSubmission.shiftType, tChecklists)}
               </p>
             </div>
             <ExternalLink className="ml-auto h-4 w-4 text-muted-foreground" />
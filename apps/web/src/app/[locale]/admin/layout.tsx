@@ -5,7 +5,7 @@ import { useLocale } from 'next-intl';
 import Link from 'next/link';
 import { usePathname } from 'next/navigation';
 import { cn } from '@/lib/utils';
-import { Users, LogOut, LayoutDashboard, Fuel, CalendarClock, DollarSign, Truck, Package, Bell, Mail, Receipt, ClipboardCheck, AlertTriangle, HelpCircle } from 'lucide-react';
+import { Users, LogOut, LayoutDashboard, Fuel, CalendarClock, DollarSign, Truck, Package, Bell, Mail, Receipt, ClipboardCheck, AlertTriangle, HelpCircle, Lock, Landmark, ArrowRightLeft, ShoppingBag, Cylinder, Contact, Ticket, ClipboardList, FileWarning, Route, Container, GitBranch } from 'lucide-react';
 import { useAuthStore } from '@/stores/auth-store';
 import { NotificationBell } from '@/components/notifications/notification-bell';
 import { LanguageSwitcher } from '@/components/layout/language-switcher';
@@ -25,11 +25,23 @@ export default function AdminLayout({ children }: { children: React.ReactNode })
     { href: '/admin/prices', labelKey: 'prices', icon: DollarSign },
     { href: '/admin/finance/invoices', labelKey: 'invoices', icon: Receipt },
     { href: '/admin/finance/expenses', labelKey: 'expenses', icon: DollarSign },
+    { href: '/admin/finance/deposits', labelKey: 'deposits', icon: Landmark },
+    { href: '/admin/finance/customers', labelKey: 'customers', icon: Contact },
+    { href: '/admin/finance/coupons', labelKey: 'coupons', icon: Ticket },
+    { href: '/admin/finance/periods', labelKey: 'periods', icon: Lock },
+    { href: '/admin/finance/approval-policies', labelKey: 'approvalPolicies', icon: GitBranch },
     { href: '/admin/checklists', labelKey: 'checklists', icon: ClipboardCheck },
     { href: '/admin/incidents', labelKey: 'incidents', icon: AlertTriangle },
     { href: '/admin/mails', labelKey: 'mails', icon: Mail },
     { href: '/admin/supply/replenishment', labelKey: 'replenishment', icon: Package },
+    { href: '/admin/supply/purchase-orders', labelKey: 'purchaseOrders', icon: ClipboardList },
     { href: '/admin/supply/deliveries', labelKey: 'deliveries', icon: Truck },
+    { href: '/admin/supply/disputes', labelKey: 'disputes', icon: FileWarning },
+    { href: '/admin/supply/trips', labelKey: 'trips', icon: Route },
+    { href: '/admin/supply/trucks', labelKey: 'trucks', icon: Container },
+    { href: '/admin/supply/transfers', labelKey: 'transfers', icon: ArrowRightLeft },
+    { href: '/admin/supply/products', labelKey: 'products', icon: ShoppingBag },
+    { href: '/admin/supply/cylinders', labelKey: 'cylinders', icon: Cylinder },
     { href: '/admin/notifications', labelKey: 'notifications', icon: Bell },
     { href: '/admin/help', labelKey: 'help', icon: HelpCircle },
   ];
@@ -16,6 +16,7 @@ import {
   Legend,
   ResponsiveContainer,
 } from 'recharts';
+import { usePriceZones } from '@/lib/price-zones';
 
 interface PriceHistoryItem {
   id: string;
@@ -31,13 +32,17 @@ export default function PriceHistoryPage() {
 
   const [months, setMonths] = useState(12);
   const [selectedFuelType, setSelectedFuelType] = useState<string>('');
+  const [selectedZone, setSelectedZone] = useState<string>('');
 
-  // Fetch price history
+  const zones = usePriceZones();
+
+  // Fetch price history (national prices unless a zone is selected)
   const { data, isLoading } = useQuery({
-    queryKey: ['prices', 'history', months, selectedFuelType],
+    queryKey: ['prices', 'history', months, selectedFuelType, selectedZone],
     queryFn: () => {
       const params = new URLSearchParams({ months: String(months) });
       if (selectedFuelType) params.append('fuelType', selectedFuelType);
+      if (selectedZone) params.append('priceZoneId', selectedZone);
       return api.get<{ data: PriceHistoryItem[] }>(`/prices/history?${params}`);
     },
   });
@@ -87,6 +92,18 @@ export default function PriceHistoryPage() {
           <option value="GASOIL">{t('gasoil')}</option>
           <option value="PETROLE">{t('petrole')}</option>
         </select>
+        <select
+          value={selectedZone}
+          onChange={(e) => setSelectedZone(e.target.value)}
+          className="rounded-md border bg-background px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+        >
+          <option value="">{t('scopeNational')}</option>
+          {zones.map((z) => (
+            <option key={z.id} value={z.id}>
+              {z.name}
+            </option>
+          ))}
+        </select>
       </div>
 
       {/* Stats Cards */}
@@ -8,6 +8,15 @@ import { useTranslations, useLocale } from 'next-intl';
 import Link from 'next/link';
 import { ArrowLeft, Fuel, Calendar, DollarSign } from 'lucide-react';
 import { toast } from 'sonner';
+import { usePriceZones } from '@/lib/price-zones';
+
+interface Station {
+  id: string;
+  code: string;
+  name: string;
+}
+
+type PriceScopeType = 'NATIONAL' | 'ZONE' | 'STATION';
 
 interface ActivePricesResponse {
   ESSENCE: { price: number } | null;
@@ -24,16 +33,35 @@ export default function NewPricePage() {
   const [price, setPrice] = useState<string>('');
   const [effectiveDate, setEffectiveDate] = useState<string>('');
   const [effectiveTime, setEffectiveTime] = useState<string>('06:00');
+  const [scopeType, setScopeType] = useState<PriceScopeType>('NATIONAL');
+  const [priceZoneId, setPriceZoneId] = useState<string>('');
+  const [stationId, setStationId] = useState<string>('');
+
+  const zones = usePriceZones();
+  const { data: stationsData } = useQuery({
+    queryKey: ['stations'],
+    queryFn: () => api.get<{ data: Station[] }>('/stations?limit=100'),
+  });
+  const stations = (stationsData as unknown as { data: Station[] })?.data || [];
 
-  // Fetch current prices for comparison
+  // Fetch current prices for comparison (the station's applicable prices when scoped to one)
+  const comparedStationId = scopeType === 'STATION' ? stationId : '';
   const { data: activePrices } = useQuery({
-    queryKey: ['prices', 'active'],
-    queryFn: () => api.get<ActivePricesResponse>('/prices/active'),
+    queryKey: ['prices', 'active', comparedStationId],
+    queryFn: () =>
+      api.get<ActivePricesResponse>(
+        `/prices/active${comparedStationId ? `?stationId=${comparedStationId}` : ''}`,
+      ),
   });
 
   const createMutation = useMutation({
-    mutationFn: (data: { fuelType: string; price: number; effectiveDate: string }) =>
-      api.post('/prices', data),
+    mutationFn: (data: {
+      fuelType: string;
+      price: number;
+      effectiveDate: string;
+      priceZoneId?: string;
+      stationId?: string;
+    }) => api.post('/prices', data),
     onSuccess: () => {
       router.push(`/${locale}/admin/prices`);
     },
@@ -62,6 +90,11 @@ export default function NewPricePage() {
       return;
     }
 
+    if ((scopeType === 'ZONE' && !priceZoneId) || (scopeType === 'STATION' && !stationId)) {
+      toast.error(t('invalidScope'));
+      return;
+    }
+
     // Combine date and time
     const dateTime = new Date(`${effectiveDate}T${effectiveTime}:00`);
     if (dateTime <= new Date()) {
@@ -73,6 +106,8 @@ export default function NewPricePage() {
       fuelType,
       price: priceNum,
       effectiveDate: dateTime.toISOString(),
+      ...(scopeType === 'ZONE' && { priceZoneId }),
+      ...(scopeType === 'STATION' && { stationId }),
     });
   };
 
@@ -108,7 +143,54 @@ export default function NewPricePage() {
 
       {/* Form */}
       <form onSubmit={handleSubmit} className="space-y-6">
-
+        {/* Scope */}
+        <div>
+          <label className="mb-2 block text-sm font-medium">{t('scope')}</label>
+          <div className="grid grid-cols-3 gap-3">
+            {(['NATIONAL', 'ZONE', 'STATION'] as const).map((type) => (
+              <button
+                key={type}
+                type="button"
+                onClick={() => setScopeType(type)}
+                className={`rounded-lg border-2 p-3 text-sm font-medium transition-colors ${scopeType === type
+                  ? 'border-primary bg-primary/5 text-primary'
+                  : 'border-gray-200 hover:border-gray-300'
+                  }`}
+              >
+                {type === 'NATIONAL' ? t('scopeNational') : type === 'ZONE' ? t('scopeZone') : t('scopeStation')}
+              </button>
+            ))}
+          </div>
+          {scopeType === 'ZONE' && (
+            <select
+              value={priceZoneId}
+              onChange={(e) => setPriceZoneId(e.target.value)}
+              className="mt-3 w-full rounded-md border bg-background px-3 py-2.5 text-base focus:outline-none focus:ring-2 focus:ring-primary"
+            >
+              <option value="">{t('selectZone')}</option>
+              {zones.map((z) => (
+                <option key={z.id} value={z.id}>
+                  {z.name} ({t('zoneStationCount', { count: z.stationCount })})
+                </option>
+              ))}
+            </select>
+          )}
+          {scopeType === 'STATION' && (
+            <select
+              value={stationId}
+              onChange={(e) => setStationId(e.target.value)}
+              className="mt-3 w-full rounded-md border bg-background px-3 py-2.5 text-base focus:outline-none focus:ring-2 focus:ring-primary"
+            >
+              <option value="">{t('selectStation')}</option>
+              {stations.map((s) => (
+                <option key={s.id} value={s.id}>
+                  {s.code} — {s.name}
+                </option>
+              ))}
+            </select>
+          )}
+          <p className="mt-2 text-xs text-muted-foreground">{t('scopeHint')}</p>
+        </div>
 
         {/* Fuel Type */}
         <div>
@@ -2,12 +2,13 @@
 
 import { useState } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { api } from '@/lib/api-client';
+import { api, ApiError } from '@/lib/api-client';
 import { DataTable } from '@/components/shared/data-table';
 import { StatusBadge } from '@/components/shared/status-badge';
 import { Modal } from '@/components/shared/Modal';
 import Link from 'next/link';
 import { useTranslations, useLocale } from 'next-intl';
+import { toast } from 'sonner';
 import {
   Plus,
   Check,
@@ -16,6 +17,7 @@ import {
   History,
 } from 'lucide-react';
 import { useAuthStore } from '@/stores/auth-store';
+import { priceScopeLabel, usePriceZones } from '@/lib/price-zones';
 
 interface FuelPrice {
   id: string;
@@ -31,6 +33,8 @@ interface FuelPrice {
   createdAt: string;
   createdBy: { id: string; fullName: string };
   approvedBy: { id: string; fullName: string } | null;
+  priceZone: { id: string; code: string; name: string } | null;
+  station: { id: string; code: string; name: string } | null;
 }
 
 interface PriceListResponse {
@@ -44,6 +48,7 @@ interface ActivePricesResponse {
   PETROLE: FuelPrice | null;
 }
 
+// Approvers of the default price policy; the API enforces the policy version of each price
 const APPROVER_ROLES = ['SUPER_ADMIN', 'CEO', 'CFO'];
 
 export default function PricesPage() {
@@ -55,6 +60,7 @@ export default function PricesPage() {
   const [page, setPage] = useState(1);
   const [filterFuelType, setFilterFuelType] = useState<string>('');
   const [filterStatus, setFilterStatus] = useState<string>('');
+  const [filterZone, setFilterZone] = useState<string>('');
   const [showRejectModal, setShowRejectModal] = useState<string | null>(null);
   const [showApproveModal, setShowApproveModal] = useState<string | null>(null);
   const [rejectReason, setRejectReason] = useState('');
@@ -68,11 +74,14 @@ export default function PricesPage() {
     limit: String(limit),
     ...(filterFuelType && { fuelType: filterFuelType }),
     ...(filterStatus && { status: filterStatus }),
+    ...(filterZone && { priceZoneId: filterZone }),
   });
 
+  const zones = usePriceZones();
+
   // Fetch prices list
   const { data: pricesData, isLoading } = useQuery({
-    queryKey: ['prices', page, filterFuelType, filterStatus],
+    queryKey: ['prices', page, filterFuelType, filterStatus, filterZone],
     queryFn: () => api.get<PriceListResponse>(`/prices?${queryParams}`),
   });
 
@@ -87,11 +96,14 @@ export default function PricesPage() {
 
   // Approve mutation
   const approveMutation = useMutation({
-    mutationFn: (id: string) => api.put(`/prices/${id}/approve`, {}),
-    onSuccess: () => {
+    mutationFn: (id: string) => api.put<FuelPrice>(`/prices/${id}/approve`, {}),
+    onSuccess: (price) => {
+      // Further steps of the approval policy may remain
+      if (price.status === 'PENDING') toast.info(t('approvalRecorded'));
       queryClient.invalidateQueries({ queryKey: ['prices'] });
       setShowApproveModal(null);
     },
+    onError: (err: ApiError) => toast.error(err.message),
   });
 
   // Reject mutation
@@ -162,6 +174,11 @@ export default function PricesPage() {
         );
       },
     },
+    {
+      key: 'scope',
+      header: t('scope'),
+      render: (p: FuelPrice) => priceScopeLabel(p, t('scopeNational')),
+    },
     {
       key: 'price',
       header: t('price'),
@@ -331,6 +348,21 @@ export default function PricesPage() {
           <option value="APPROVED">{t('statusApproved')}</option>
           <option value="REJECTED">{t('statusRejected')}</option>
         </select>
+        <select
+          value={filterZone}
+          onChange={(e) => {
+            setFilterZone(e.target.value);
+            setPage(1);
+          }}
+          className="rounded-md border bg-background px-3 py-2.5 text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+        >
+          <option value="">{t('allZones')}</option>
+          {zones.map((z) => (
+            <option key={z.id} value={z.id}>
+              {z.name}
+            </option>
+          ))}
+        </select>
       </div>
 
       {/* Desktop: DataTable */}
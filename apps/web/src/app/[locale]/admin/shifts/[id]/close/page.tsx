@@ -9,32 +9,135 @@ import { closeShiftSchema, type CloseShiftInput } from '@alcom/shared/src/schema
 import { useTranslations, useFormatter } from 'next-intl';
 import { useEffect, useState, useMemo } from 'react';
 import { cn } from '@/lib/utils';
+import { useShiftPatterns, shiftTypeLabel } from '@/lib/shift-patterns';
+import { usePaymentMethods } from '@/lib/payment-methods';
 import Decimal from 'decimal.js';
 import {
-  calculateVolumeSold,
-  calculateRevenue,
+  calculateVolumeAcrossReplacements,
+  calculateSegmentedRevenue,
   calculateTheoreticalCash,
   calculateCashVariance,
   calculateTheoreticalStock,
   calculateStockVariance,
+  convertDipHeightToVolume,
+  calculateVolumeCorrectionFactor,
+  type CalibrationPoint,
 } from '@alcom/shared/src/calculations';
-import { AlertTriangle, CheckCircle, ChevronLeft, ChevronRight, Gauge, Banknote, Fuel } from 'lucide-react';
+import { AlertTriangle, CheckCircle, ChevronLeft, ChevronRight, Gauge, Banknote, Fuel, Radio, ShoppingBag, Cylinder, Ticket } from 'lucide-react';
 
 interface SaleField {
   nozzleId: string;
   closingIndex: number;
   _openingIndex: number;
   _unitPrice: number;
+  // Price segments when the price changed during the shift (the first one at _unitPrice)
+  _segments: { startIndex: number; unitPrice: number; readAt: string | null }[];
+  // Rollover value of the meter read at the opening, and meters replaced since
+  _rolloverValue: number;
+  _replacements: { oldFinalIndex: number; newStartIndex: number; rolloverValue: number; replacedAt: string }[];
+  // Calibration tests run on the nozzle: dispensed, not sold
+  _tests: { dispensedVolume: number; returnedToTank: boolean; testedAt: string }[];
   _label: string;
   _fuelType: string;
 }
 
 interface DipField {
   tankId: string;
-  physicalLevel: number;
+  physicalLevel?: number;
+  dipHeight?: number;
+  temperature?: number;
   _openingLevel: number;
+  _movements: number;
+  _openingTemperature: number | null;
+  _density: number | null;
+  _fuelType: string;
   _label: string;
   _capacity: number;
+  _chart: CalibrationPoint[];
+}
+
+interface ProductField {
+  productId: string;
+  quantitySold: number;
+  countedStock: number;
+  _openingStock: number;
+  _receipts: number;
+  _unitPrice: number;
+  _label: string;
+  _unit: string;
+}
+
+interface CylinderField {
+  cylinderTypeId: string;
+  countedFull: number;
+  countedEmpty: number;
+  _theoreticalFull: number;
+  _theoreticalEmpty: number;
+  _label: string;
+}
+
+// Result of POST /coupons/check for the serials found in the cash envelope
+interface CouponCheck {
+  valid: { serialNumber: string; faceValue: number; batchNumber: string }[];
+  unknown: string[];
+  notSold: string[];
+  alreadyRedeemed: string[];
+  expired: string[];
+  total: number;
+}
+
+/**
+ * Physical level in litres. Calibrated tanks are dipped in cm and converted
+ * with the tank's chart; returns null when the height is off-chart.
+ */
+function dipVolume(dip: DipField): number | null {
+  if (dip._chart.length < 2) return dip.physicalLevel || 0;
+  if (dip.dipHeight === undefined || Number.isNaN(dip.dipHeight)) return null;
+  try {
+    return convertDipHeightToVolume(dip._chart, dip.dipHeight).toNumber();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Litres dispensed from the opening index up to a reading taken at `readAt` (the closing
+ * reading when omitted), across the meters replaced during the shift.
+ */
+function meterOffset(sale: SaleField, index: number, readAt?: string | null): Decimal {
+  return calculateVolumeAcrossReplacements(
+    sale._openingIndex,
+    index,
+    sale._replacements.filter((r) => !readAt || r.replacedAt <= readAt),
+    sale._rolloverValue,
+  );
+}
+
+/**
+ * Litres sold by a nozzle: dispensed up to its closing index, less calibration tests.
+ */
+function saleVolume(sale: SaleField): Decimal {
+  return sale._tests.reduce(
+    (volume, test) => volume.minus(test.dispensedVolume),
+    meterOffset(sale, sale.closingIndex),
+  );
+}
+
+/**
+ * Revenue of a sale up to its closing index, each price segment at its own price.
+ * Calibration tests come off at the price running when they were made.
+ */
+function saleRevenue(sale: SaleField): Decimal {
+  const segments = sale._segments.map((segment, i) => ({
+    startIndex: i === 0 ? 0 : meterOffset(sale, segment.startIndex, segment.readAt),
+    unitPrice: segment.unitPrice,
+  }));
+  const testRevenue = sale._tests.reduce((sum, test) => {
+    const segment = sale._segments.filter((s) => !s.readAt || s.readAt <= test.testedAt).pop();
+    return sum.plus(new Decimal(test.dispensedVolume).times(segment?.unitPrice ?? sale._unitPrice));
+  }, new Decimal(0));
+  // Offsets run from 0 at the opening index, so there is no rollover left to handle
+  return calculateSegmentedRevenue(0, 0, meterOffset(sale, sale.closingIndex), segments).minus(testRevenue);
 }
 
 export default function CloseShiftPage({ params }: { params: { id: string } }) {
@@ -44,6 +147,8 @@ export default function CloseShiftPage({ params }: { params: { id: string } }) {
   const queryClient = useQueryClient();
   const [step, setStep] = useState(0);
   const [submitError, setSubmitError] = useState<string | null>(null);
+  const [couponText, setCouponText] = useState('');
+  const [couponCheck, setCouponCheck] = useState<CouponCheck | null>(null);
 
   // Fetch shift details
   const { data: shiftData, isLoading } = useQuery({
@@ -52,6 +157,17 @@ export default function CloseShiftPage({ params }: { params: { id: string } }) {
   });
 
   const shift = shiftData?.data || shiftData;
+  const shiftPatterns = useShiftPatterns(shift?.stationId);
+  const paymentMethods = usePaymentMethods(shift?.stationId);
+
+  // Nearest automatic tank gauge reading per tank (null when the tank has no ATG)
+  const { data: atgData } = useQuery({
+    queryKey: ['shift', id, 'atg-readings'],
+    queryFn: () => api.get<any>(`/shifts/${id}/atg-readings`),
+    enabled: shift?.status === 'OPEN',
+  });
+  const atgReadings: Record<string, any> = atgData?.data || atgData || {};
+  const hasAtgReadings = Object.values(atgReadings).some((r) => r);
 
   const {
     register,
@@ -66,7 +182,10 @@ export default function CloseShiftPage({ params }: { params: { id: string } }) {
     defaultValues: {
       sales: [],
       tankDips: [],
-      cash: { counted: 0, card: 0, expenses: 0 },
+      cash: { counted: 0, card: 0, expenses: 0, tenders: [] },
+      products: [],
+      cylinders: [],
+      coupons: [],
       justification: undefined,
     },
   });
@@ -76,41 +195,163 @@ export default function CloseShiftPage({ params }: { params: { id: string } }) {
     if (shift && shift.status === 'OPEN') {
       const priceSnapshot = shift.appliedPriceSnapshot || {};
 
-      const initialSales: SaleField[] = (shift.sales || []).map((s: any) => ({
-        nozzleId: s.nozzleId,
-        closingIndex: Number(s.openingIndex),
-        _openingIndex: Number(s.openingIndex),
-        _unitPrice: Number(s.unitPrice) || priceSnapshot[s.nozzle?.pump?.tank?.fuelType] || 0,
-        _label: `P${s.nozzle?.pump?.code || '?'} — Bec ${s.nozzle?.side || '?'}`,
-        _fuelType: s.nozzle?.pump?.tank?.fuelType || 'ESSENCE',
-      }));
+      const initialSales: SaleField[] = (shift.sales || []).map((s: any) => {
+        const unitPrice = Number(s.unitPrice) || priceSnapshot[s.nozzle?.pump?.tank?.fuelType] || 0;
+        const replacements = (shift.meterReplacements || []).filter(
+          (r: any) => r.midShift && r.nozzleId === s.nozzleId,
+        );
+        return {
+          nozzleId: s.nozzleId,
+          closingIndex: Number(s.openingIndex),
+          _openingIndex: Number(s.openingIndex),
+          _unitPrice: unitPrice,
+          _segments: [
+            { startIndex: Number(s.openingIndex), unitPrice, readAt: null },
+            ...(s.segments || []).slice(1).map((seg: any) => ({
+              startIndex: Number(seg.startIndex),
+              unitPrice: Number(seg.unitPrice),
+              readAt: seg.createdAt,
+            })),
+          ],
+          _rolloverValue: Number(replacements[0]?.oldRolloverValue ?? s.nozzle?.rolloverValue),
+          _replacements: replacements.map((r: any) => ({
+            oldFinalIndex: Number(r.oldFinalIndex),
+            newStartIndex: Number(r.newStartIndex),
+            rolloverValue: Number(r.rolloverValue),
+            replacedAt: r.replacedAt,
+          })),
+          _tests: (shift.calibrationTests || [])
+            .filter((test: any) => test.nozzleId === s.nozzleId)
+            .map((test: any) => ({
+              dispensedVolume: Number(test.dispensedVolume),
+              returnedToTank: test.returnedToTank,
+              testedAt: test.testedAt,
+            })),
+          _label: `P${s.nozzle?.pump?.code || '?'} — Bec ${s.nozzle?.side || '?'}`,
+          _fuelType: s.nozzle?.pump?.tank?.fuelType || 'ESSENCE',
+        };
+      });
       setValue('sales', initialSales as any);
 
-      const initialDips: DipField[] = (shift.tankDips || []).map((td: any) => ({
-        tankId: td.tankId,
-        physicalLevel: Number(td.openingLevel),
-        _openingLevel: Number(td.openingLevel),
-        _label: `${td.tank?.fuelType || '?'} (${td.tank?.id?.substring(0, 6) || ''})`,
-        _capacity: Number(td.tank?.capacity) || 0,
-      }));
+      const initialDips: DipField[] = (shift.tankDips || []).map((td: any) => {
+        const chart: CalibrationPoint[] = (td.tank?.calibrationPoints || []).map((p: any) => ({
+          height: Number(p.height),
+          volume: Number(p.volume),
+        }));
+        const calibrated = chart.length >= 2;
+        return {
+          tankId: td.tankId,
+          physicalLevel: calibrated ? undefined : Number(td.openingLevel),
+          dipHeight: calibrated && td.openingHeight != null ? Number(td.openingHeight) : undefined,
+          temperature: undefined,
+          _openingLevel: Number(td.openingLevel),
+          _movements: Number(td.deliveries ?? 0) + Number(td.transfers ?? 0),
+          _openingTemperature: td.openingTemperature != null ? Number(td.openingTemperature) : null,
+          _density: td.density != null ? Number(td.density) : null,
+          _fuelType: td.tank?.fuelType || 'ESSENCE',
+          _label: `${td.tank?.fuelType || '?'} (${td.tank?.id?.substring(0, 6) || ''})`,
+          _capacity: Number(td.tank?.capacity) || 0,
+          _chart: chart,
+        };
+      });
       setValue('tankDips', initialDips as any);
+
+      // Shop stock counted at closing defaults to what should be on the shelf before sales
+      const initialProducts: ProductField[] = (shift.productSales || []).map((p: any) => ({
+        productId: p.productId,
+        quantitySold: 0,
+        countedStock: Number(p.openingStock) + Number(p.receipts),
+        _openingStock: Number(p.openingStock),
+        _receipts: Number(p.receipts),
+        _unitPrice: Number(p.unitPrice),
+        _label: `${p.product?.name || '?'} (${p.product?.sku || ''})`,
+        _unit: p.product?.unit || '',
+      }));
+      setValue('products', initialProducts as any);
+
+      // Gas bottles expected from the opening counts and the shift's deliveries and transactions
+      const initialCylinders: CylinderField[] = (shift.cylinderCounts || []).map((c: any) => {
+        const theoreticalFull = c.openingFull + c.fullReceived - c.fullOut;
+        const theoreticalEmpty = c.openingEmpty - c.emptyReturned + c.emptyIn;
+        return {
+          cylinderTypeId: c.cylinderTypeId,
+          countedFull: theoreticalFull,
+          countedEmpty: theoreticalEmpty,
+          _theoreticalFull: theoreticalFull,
+          _theoreticalEmpty: theoreticalEmpty,
+          _label: `${c.cylinderType?.brand || '?'} ${Number(c.cylinderType?.sizeKg || 0)} kg`,
+        };
+      });
+      setValue('cylinders', initialCylinders as any);
     }
   }, [shift, setValue]);
 
+  // One tender line per payment method accepted by the station
+  const paymentMethodCodes = paymentMethods.map((m) => m.code).join(',');
+  useEffect(() => {
+    setValue(
+      'cash.tenders',
+      paymentMethodCodes ? paymentMethodCodes.split(',').map((method) => ({ method, amount: 0 })) : [],
+    );
+  }, [paymentMethodCodes, setValue]);
+
   const { fields: salesFields } = useFieldArray({ control, name: 'sales' });
   const { fields: dipsFields } = useFieldArray({ control, name: 'tankDips' });
+  const { fields: productFields } = useFieldArray({ control, name: 'products' });
+  const { fields: cylinderFields } = useFieldArray({ control, name: 'cylinders' });
 
   const salesValues = watch('sales') as SaleField[];
   const dipsValues = watch('tankDips') as DipField[];
+  const productValues = (watch('products') || []) as ProductField[];
+  const cylinderValues = (watch('cylinders') || []) as CylinderField[];
+
+  const prefillFromAtg = () => {
+    (dipsValues || []).forEach((dip, index) => {
+      const reading = atgReadings[dip.tankId];
+      if (!reading) return;
+      if (dip._chart.length >= 2) {
+        if (reading.height != null) {
+          setValue(`tankDips.${index}.dipHeight`, Number(reading.height), { shouldDirty: true });
+        }
+      } else {
+        setValue(`tankDips.${index}.physicalLevel`, Number(reading.volume), { shouldDirty: true });
+      }
+      if (reading.temperature != null) {
+        setValue(`tankDips.${index}.temperature`, Number(reading.temperature), { shouldDirty: true });
+      }
+    });
+  };
   const cashValues = watch('cash');
 
   // Live calculations
   const calculations = useMemo(() => {
-    if (!salesValues?.length) return { totalRevenue: 0, saleDetails: [] };
+    // Shop sales at the price snapshot taken when the shift opened; stock counted against opening + receipts
+    const productDetails = productValues.map((p) => {
+      const sold = new Decimal(p.quantitySold || 0);
+      return {
+        productId: p.productId,
+        label: p._label,
+        unit: p._unit,
+        quantity: sold.toNumber(),
+        revenue: sold.times(p._unitPrice).toNumber(),
+        variance: calculateStockVariance(
+          new Decimal(p.countedStock || 0),
+          calculateTheoreticalStock(p._openingStock, p._receipts, sold),
+        ).toNumber(),
+      };
+    });
+    const shopRevenue = productDetails.reduce((sum, d) => sum + d.revenue, 0);
+    // Gas bottles are cashed as their transactions are recorded during the shift
+    const cylinderRevenue = (shift?.cylinderCounts || []).reduce((sum: number, c: any) => sum + Number(c.revenue), 0);
+    const otherRevenue = shopRevenue + cylinderRevenue;
+
+    if (!salesValues?.length) {
+      return { totalRevenue: otherRevenue, shopRevenue, cylinderRevenue, saleDetails: [], productDetails };
+    }
 
     const saleDetails = salesValues.map((s) => {
-      const volume = calculateVolumeSold(s._openingIndex, s.closingIndex);
-      const revenue = calculateRevenue(volume, s._unitPrice);
+      const volume = saleVolume(s);
+      const revenue = saleRevenue(s);
       return {
         nozzleId: s.nozzleId,
         label: s._label,
@@ -120,24 +361,35 @@ export default function CloseShiftPage({ params }: { params: { id: string } }) {
       };
     });
 
-    const totalRevenue = saleDetails.reduce((sum, d) => sum + d.revenue, 0);
-    return { totalRevenue, saleDetails };
-  }, [salesValues]);
+    const totalRevenue = saleDetails.reduce((sum, d) => sum + d.revenue, otherRevenue);
+    return { totalRevenue, shopRevenue, cylinderRevenue, saleDetails, productDetails };
+  }, [salesValues, productValues, shift?.cylinderCounts]);
 
   const cashCalcs = useMemo(() => {
     const totalRevenue = new Decimal(calculations.totalRevenue);
     const card = new Decimal(cashValues?.card || 0);
+    const tenders = (cashValues?.tenders || []).map((tender) => new Decimal(tender.amount || 0));
     const expenses = new Decimal(cashValues?.expenses || 0);
     const counted = new Decimal(cashValues?.counted || 0);
+    // Fuel served on account is billed to the customer, not paid into the till
+    const creditSales = (shift?.creditSales || []).reduce(
+      (sum: Decimal, c: any) => sum.plus(new Decimal(c.amount)),
+      new Decimal(0),
+    );
+
+    // Prepaid coupons were paid for when the batch was sold
+    const coupons = new Decimal(couponCheck?.total || 0);
 
-    const theoretical = calculateTheoreticalCash(totalRevenue, card, expenses);
+    const theoretical = calculateTheoreticalCash(totalRevenue, [card, ...tenders, creditSales, coupons], expenses);
     const variance = calculateCashVariance(counted, theoretical);
 
     return {
+      creditSalesAmount: creditSales.toNumber(),
+      couponsAmount: coupons.toNumber(),
       theoreticalCash: theoretical.toNumber(),
       cashVariance: variance.toNumber(),
     };
-  }, [calculations.totalRevenue, cashValues]);
+  }, [calculations.totalRevenue, cashValues, shift?.creditSales, couponCheck]);
 
   // Calculate stock variance for all tanks
   const stockCalcs = useMemo(() => {
@@ -154,7 +406,10 @@ export default function CloseShiftPage({ params }: { params: { id: string } }) {
       const tankId = matchingSaleField?.nozzle?.pump?.tankId;
 
       if (tankId) {
-        const volume = calculateVolumeSold(sale._openingIndex, sale.closingIndex);
+        // Test volume poured back into the tank never left it
+        const volume = sale._tests
+          .filter((test) => test.returnedToTank)
+          .reduce((v, test) => v.minus(test.dispensedVolume), meterOffset(sale, sale.closingIndex));
         volumeByTank[tankId] = (volumeByTank[tankId] || new Decimal(0)).plus(volume);
       }
     });
@@ -162,14 +417,28 @@ export default function CloseShiftPage({ params }: { params: { id: string } }) {
     // Calculate variance for each tank
     const tankVariances = dipsValues.map((dip) => {
       const openingLevel = new Decimal(dip._openingLevel || 0);
-      const physicalLevel = new Decimal(dip.physicalLevel || 0);
+      const physicalLevel = new Decimal(dipVolume(dip) ?? 0);
       const salesVolume = volumeByTank[dip.tankId] || new Decimal(0);
 
-      // Deliveries would come from shift data, default to 0 for now
-      const deliveries = new Decimal(0);
+      // Deliveries and net fuel transfers recorded on the shift
+      const deliveries = new Decimal(dip._movements || 0);
+
+      let theoreticalStock = calculateTheoreticalStock(openingLevel, deliveries, salesVolume);
+      let stockVariance = calculateStockVariance(physicalLevel, theoreticalStock);
 
-      const theoreticalStock = calculateTheoreticalStock(openingLevel, deliveries, salesVolume);
-      const stockVariance = calculateStockVariance(physicalLevel, theoreticalStock);
+      // Same 15 °C reconciliation as the API when a temperature is entered
+      if (dip.temperature !== undefined && !Number.isNaN(dip.temperature)) {
+        const closingVcf = calculateVolumeCorrectionFactor(dip._fuelType, dip.temperature, dip._density);
+        const openingVcf = dip._openingTemperature !== null
+          ? calculateVolumeCorrectionFactor(dip._fuelType, dip._openingTemperature, dip._density)
+          : closingVcf;
+        theoreticalStock = calculateTheoreticalStock(
+          openingLevel.times(openingVcf),
+          deliveries.times(closingVcf),
+          salesVolume.times(closingVcf),
+        );
+        stockVariance = calculateStockVariance(physicalLevel.times(closingVcf), theoreticalStock);
+      }
 
       return {
         tankId: dip.tankId,
@@ -188,7 +457,23 @@ export default function CloseShiftPage({ params }: { params: { id: string } }) {
     return { totalStockVariance, tankVariances };
   }, [dipsValues, salesValues, shift?.sales]);
 
-  const hasVariance = cashCalcs.cashVariance !== 0 || stockCalcs.totalStockVariance !== 0;
+  // Gas bottle counts against what the shift's movements leave on site
+  const cylinderCalcs = useMemo(() => {
+    const cylinderVariances = cylinderValues.map((c) => ({
+      cylinderTypeId: c.cylinderTypeId,
+      label: c._label,
+      fullVariance: (c.countedFull || 0) - c._theoreticalFull,
+      emptyVariance: (c.countedEmpty || 0) - c._theoreticalEmpty,
+    }));
+    const totalCylinderVariance = cylinderVariances.reduce(
+      (sum, cv) => sum + Math.abs(cv.fullVariance) + Math.abs(cv.emptyVariance),
+      0,
+    );
+    return { cylinderVariances, totalCylinderVariance };
+  }, [cylinderValues]);
+
+  const hasVariance =
+    cashCalcs.cashVariance !== 0 || stockCalcs.totalStockVariance !== 0 || cylinderCalcs.totalCylinderVariance !== 0;
 
   const mutation = useMutation({
     mutationFn: (data: CloseShiftInput) =>
@@ -204,16 +489,38 @@ export default function CloseShiftPage({ params }: { params: { id: string } }) {
     },
   });
 
+  // Only the serials the API accepts are redeemed; the others stay out of the cash count
+  const couponMutation = useMutation({
+    mutationFn: (serials: string[]) =>
+      api.post<CouponCheck>('/coupons/check', { shiftReportId: id, serials }),
+    onSuccess: (data: any) => {
+      const check: CouponCheck = data?.data || data;
+      setCouponCheck(check);
+      setValue('coupons', check.valid.map((c) => c.serialNumber));
+    },
+    onError: (err: any) => {
+      setSubmitError(err.message || 'Erreur lors de la vérification des coupons');
+    },
+  });
+
+  const checkCoupons = () => {
+    const serials = Array.from(
+      new Set(couponText.split(/[\s,;]+/).map((v) => v.trim().toUpperCase()).filter(Boolean)),
+    );
+    if (serials.length === 0) return;
+    couponMutation.mutate(serials);
+  };
+
   const nextStep = async () => {
     // Validate current step
     if (step === 0) {
       const valid = await trigger('sales');
       if (!valid) return;
     } else if (step === 1) {
-      const valid = await trigger('tankDips');
+      const valid = await trigger(['tankDips', 'cylinders']);
       if (!valid) return;
     } else if (step === 2) {
-      const valid = await trigger('cash');
+      const valid = await trigger(['cash', 'products']);
       if (!valid) return;
     }
     setStep((s) => Math.min(s + 1, STEPS.length - 1));
@@ -255,11 +562,28 @@ export default function CloseShiftPage({ params }: { params: { id: string } }) {
         <div>
           <h1 className="text-2xl font-bold">{t('closeShift')}</h1>
           <p className="text-sm text-gray-500">
-            {shift.station?.name} — {shift.shiftDate} — {shift.shiftType}
+            {shift.station?.name} — {shift.shiftDate} — {shiftTypeLabel(shift.shiftType, t, shiftPatterns)}
           </p>
         </div>
       </div>
 
+      {/* Price changed during the shift: readings must be recorded before closing */}
+      {(shift.priceChanges || []).some((c: any) => !c.recordedAt) && (
+        <div className="flex items-start gap-2 rounded border border-amber-200 bg-amber-50 p-4 text-sm text-amber-800">
+          <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0" />
+          <div>
+            <p>{t('priceChanges.pendingHint')}</p>
+            <button
+              type="button"
+              onClick={() => router.push(`/admin/shifts/${id}`)}
+              className="mt-1 font-medium underline"
+            >
+              {t('priceChanges.recordOnShift')}
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Step indicators */}
       <div className="flex items-center gap-2">
         {STEPS.map((label, i) => (
@@ -303,10 +627,10 @@ export default function CloseShiftPage({ params }: { params: { id: string } }) {
               {salesFields.map((field, index) => {
                 const val = salesValues?.[index] as SaleField | undefined;
                 const volume = val
-                  ? calculateVolumeSold(val._openingIndex, val.closingIndex).toNumber()
+                  ? saleVolume(val).toNumber()
                   : 0;
                 const revenue = val
-                  ? calculateRevenue(volume, val._unitPrice).toNumber()
+                  ? saleRevenue(val).toNumber()
                   : 0;
 
                 return (
@@ -321,6 +645,14 @@ export default function CloseShiftPage({ params }: { params: { id: string } }) {
                       Index début: <strong>{val?._openingIndex?.toFixed(2)}</strong> | Prix:{' '}
                       <strong>{val?._unitPrice?.toLocaleString('fr-FR')} FCFA/L</strong>
                     </div>
+                    {val?._replacements.map((r) => (
+                      <p key={r.replacedAt} className="mb-2 text-xs text-amber-700">
+                        {t('meterReplacements.closeHint', {
+                          oldIndex: r.oldFinalIndex.toFixed(2),
+                          newIndex: r.newStartIndex.toFixed(2),
+                        })}
+                      </p>
+                    ))}
                     <label className="mb-1 block text-sm">Index Fin</label>
                     <input
                       type="number"
@@ -367,12 +699,24 @@ export default function CloseShiftPage({ params }: { params: { id: string } }) {
             <div className="mb-4 flex items-center gap-2">
               <Fuel className="h-5 w-5 text-blue-600" />
               <h3 className="text-lg font-medium">{t('tankDipping')}</h3>
+              {hasAtgReadings && (
+                <button
+                  type="button"
+                  onClick={prefillFromAtg}
+                  className="ml-auto flex items-center gap-1 rounded border border-blue-300 px-3 py-1 text-sm text-blue-700 hover:bg-blue-50"
+                >
+                  <Radio className="h-4 w-4" />
+                  {t('atgPrefill')}
+                </button>
+              )}
             </div>
             <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
               {dipsFields.map((field, index) => {
                 const val = dipsValues?.[index] as DipField | undefined;
+                const calibrated = (val?._chart.length ?? 0) >= 2;
+                const volume = val ? dipVolume(val) : null;
                 const fillPercent = val && val._capacity > 0
-                  ? Math.round((val.physicalLevel / val._capacity) * 100)
+                  ? Math.round(((volume ?? 0) / val._capacity) * 100)
                   : 0;
 
                 return (
@@ -380,15 +724,56 @@ export default function CloseShiftPage({ params }: { params: { id: string } }) {
                     <span className="text-sm font-bold">{val?._label}</span>
                     <div className="mb-2 text-xs text-gray-500">
                       Ouverture: <strong>{val?._openingLevel?.toFixed(0)} L</strong> |
+                      {val && val._movements !== 0 && (
+                        <>
+                          {' '}{t('tankMovements')}: <strong>{val._movements > 0 ? '+' : ''}{val._movements.toFixed(0)} L</strong> |
+                        </>
+                      )}
                       Capacité: <strong>{val?._capacity?.toLocaleString('fr-FR')} L</strong>
                     </div>
-                    <label className="mb-1 block text-sm">Jauge Physique (L)</label>
+                    {val && atgReadings[val.tankId] && (
+                      <div className="mb-2 text-xs text-blue-700">
+                        ATG: <strong>{Number(atgReadings[val.tankId].volume).toFixed(0)} L</strong>
+                        {' '}à {new Date(atgReadings[val.tankId].readAt).toLocaleTimeString('fr-FR', { hour: '2-digit', minute: '2-digit' })}
+                      </div>
+                    )}
+                    {calibrated ? (
+                      <>
+                        <label className="mb-1 block text-sm">Hauteur jaugée (cm)</label>
+                        <input
+                          type="number"
+                          step="0.1"
+                          inputMode="decimal"
+                          {...register(`tankDips.${index}.dipHeight`, { valueAsNumber: true })}
+                          className="w-full rounded border p-2 text-lg"
+                        />
+                        <p className={cn('mt-1 text-sm', volume === null ? 'text-red-600' : 'text-gray-600')}>
+                          {volume === null
+                            ? 'Hauteur hors barème de la cuve'
+                            : <>Volume: <strong>{volume.toFixed(0)} L</strong></>}
+                        </p>
+                      </>
+                    ) : (
+                      <>
+                        <label className="mb-1 block text-sm">Jauge Physique (L)</label>
+                        <input
+                          type="number"
+                          step="1"
+                          inputMode="numeric"
+                          {...register(`tankDips.${index}.physicalLevel`, { valueAsNumber: true })}
+                          className="w-full rounded border p-2 text-lg"
+                        />
+                      </>
+                    )}
+                    <label className="mb-1 mt-3 block text-sm">Température (°C, optionnel)</label>
                     <input
                       type="number"
-                      step="1"
-                      inputMode="numeric"
-                      {...register(`tankDips.${index}.physicalLevel`, { valueAsNumber: true })}
-                      className="w-full rounded border p-2 text-lg"
+                      step="0.1"
+                      inputMode="decimal"
+                      {...register(`tankDips.${index}.temperature`, {
+                        setValueAs: (v) => (v === '' || v === null ? undefined : Number(v)),
+                      })}
+                      className="w-full rounded border p-2"
                     />
                     <input type="hidden" {...register(`tankDips.${index}.tankId`)} />
                     {/* Tank fill bar */}
@@ -415,6 +800,62 @@ export default function CloseShiftPage({ params }: { params: { id: string } }) {
                 );
               })}
             </div>
+
+            {cylinderFields.length > 0 && (
+              <div className="mt-6 rounded border p-4">
+                <div className="mb-3 flex items-center gap-2">
+                  <Cylinder className="h-4 w-4 text-blue-600" />
+                  <p className="text-sm font-medium">{t('gasCylinders')}</p>
+                </div>
+                <div className="space-y-3">
+                  {cylinderFields.map((field, index) => {
+                    const val = cylinderValues[index];
+                    const detail = cylinderCalcs.cylinderVariances[index];
+                    return (
+                      <div key={field.id} className="grid grid-cols-1 items-end gap-3 md:grid-cols-4">
+                        <div className="text-sm">
+                          <p className="font-medium">{val?._label}</p>
+                          <p className="text-xs text-gray-500">
+                            {t('expectedFull')}: <strong>{val?._theoreticalFull}</strong> | {t('expectedEmpty')}:{' '}
+                            <strong>{val?._theoreticalEmpty}</strong>
+                          </p>
+                        </div>
+                        <div>
+                          <label className="mb-1 block text-xs text-gray-500">{t('countedFull')}</label>
+                          <input
+                            type="number"
+                            step="1"
+                            inputMode="numeric"
+                            {...register(`cylinders.${index}.countedFull`, { valueAsNumber: true })}
+                            className="w-full rounded border p-2"
+                          />
+                        </div>
+                        <div>
+                          <label className="mb-1 block text-xs text-gray-500">{t('countedEmpty')}</label>
+                          <input
+                            type="number"
+                            step="1"
+                            inputMode="numeric"
+                            {...register(`cylinders.${index}.countedEmpty`, { valueAsNumber: true })}
+                            className="w-full rounded border p-2"
+                          />
+                          <input type="hidden" {...register(`cylinders.${index}.cylinderTypeId`)} />
+                        </div>
+                        <div className="text-right text-xs">
+                          {detail && (detail.fullVariance !== 0 || detail.emptyVariance !== 0) ? (
+                            <p className="text-red-600">
+                              {t('cylinderVarianceDetail', { full: detail.fullVariance, empty: detail.emptyVariance })}
+                            </p>
+                          ) : (
+                            <p className="text-green-600">OK</p>
+                          )}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
           </div>
         )}
 
@@ -426,11 +867,82 @@ export default function CloseShiftPage({ params }: { params: { id: string } }) {
               <h3 className="text-lg font-medium">{t('cashDeposits')}</h3>
             </div>
 
+            {productFields.length > 0 && (
+              <div className="mb-6 rounded border p-4">
+                <div className="mb-3 flex items-center gap-2">
+                  <ShoppingBag className="h-4 w-4 text-blue-600" />
+                  <p className="text-sm font-medium">{t('shopSales')}</p>
+                </div>
+                <div className="space-y-3">
+                  {productFields.map((field, index) => {
+                    const val = productValues[index];
+                    const detail = calculations.productDetails[index];
+                    return (
+                      <div key={field.id} className="grid grid-cols-1 items-end gap-3 md:grid-cols-4">
+                        <div className="text-sm">
+                          <p className="font-medium">{val?._label}</p>
+                          <p className="text-xs text-gray-500">
+                            {t('openingStock')}: <strong>{val?._openingStock}</strong>
+                            {val && val._receipts > 0 && <> | {t('productReceipts')}: <strong>+{val._receipts}</strong></>}
+                            {' '}| {val?._unitPrice.toLocaleString('fr-FR')} FCFA
+                          </p>
+                        </div>
+                        <div>
+                          <label className="mb-1 block text-xs text-gray-500">{t('quantitySold')}</label>
+                          <input
+                            type="number"
+                            step="1"
+                            inputMode="numeric"
+                            {...register(`products.${index}.quantitySold`, { valueAsNumber: true })}
+                            className="w-full rounded border p-2"
+                          />
+                        </div>
+                        <div>
+                          <label className="mb-1 block text-xs text-gray-500">{t('countedStock')}</label>
+                          <input
+                            type="number"
+                            step="1"
+                            inputMode="numeric"
+                            {...register(`products.${index}.countedStock`, { valueAsNumber: true })}
+                            className="w-full rounded border p-2"
+                          />
+                          <input type="hidden" {...register(`products.${index}.productId`)} />
+                        </div>
+                        <div className="text-right text-sm">
+                          <p className="font-medium">{(detail?.revenue ?? 0).toLocaleString('fr-FR')} FCFA</p>
+                          {detail && detail.variance !== 0 && (
+                            <p className={cn('text-xs', detail.variance < 0 ? 'text-red-600' : 'text-blue-600')}>
+                              {t('shopStockVariance')}: {detail.variance > 0 ? '+' : ''}{detail.variance} {val?._unit}
+                            </p>
+                          )}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+
             <div className="mb-6 rounded bg-gray-50 p-4">
               <p className="text-sm text-gray-500">{t('totalRevenue')}</p>
               <p className="text-2xl font-bold">
                 {calculations.totalRevenue.toLocaleString('fr-FR')} FCFA
               </p>
+              {calculations.shopRevenue > 0 && (
+                <p className="text-xs text-gray-500">
+                  {t('ofWhichShop', { amount: calculations.shopRevenue.toLocaleString('fr-FR') })}
+                </p>
+              )}
+              {calculations.cylinderRevenue !== 0 && (
+                <p className="text-xs text-gray-500">
+                  {t('ofWhichCylinders', { amount: calculations.cylinderRevenue.toLocaleString('fr-FR') })}
+                </p>
+              )}
+              {cashCalcs.creditSalesAmount > 0 && (
+                <p className="text-xs text-gray-500">
+                  {t('ofWhichOnAccount', { amount: cashCalcs.creditSalesAmount.toLocaleString('fr-FR') })}
+                </p>
+              )}
             </div>
 
             <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
@@ -463,6 +975,72 @@ export default function CloseShiftPage({ params }: { params: { id: string } }) {
               </div>
             </div>
 
+            {paymentMethods.length > 0 && (
+              <div className="mt-4">
+                <p className="mb-2 text-sm font-medium text-gray-700">{t('otherPaymentMethods')}</p>
+                <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+                  {paymentMethods.map((m, index) => (
+                    <div key={m.code}>
+                      <label className="mb-1 block text-sm font-medium">{m.name}</label>
+                      <input
+                        type="number"
+                        inputMode="numeric"
+                        {...register(`cash.tenders.${index}.amount`, { valueAsNumber: true })}
+                        className="w-full rounded border p-2 text-lg"
+                      />
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* Prepaid coupons */}
+            <div className="mt-6 rounded border p-4">
+              <p className="mb-1 flex items-center gap-2 text-sm font-medium text-gray-700">
+                <Ticket className="h-4 w-4" />
+                {t('coupons.title')}
+              </p>
+              <p className="mb-2 text-xs text-gray-500">{t('coupons.hint')}</p>
+              <textarea
+                rows={3}
+                value={couponText}
+                onChange={(e) => {
+                  setCouponText(e.target.value);
+                  setCouponCheck(null);
+                  setValue('coupons', []);
+                }}
+                placeholder={t('coupons.placeholder')}
+                className="w-full rounded border p-2 font-mono text-sm"
+              />
+              <div className="mt-2 flex items-center justify-between">
+                <button
+                  type="button"
+                  onClick={checkCoupons}
+                  disabled={!couponText.trim() || couponMutation.isPending}
+                  className="rounded border px-3 py-1 text-sm hover:bg-gray-50 disabled:opacity-50"
+                >
+                  {t('coupons.check')}
+                </button>
+                {couponCheck && (
+                  <p className="text-sm">
+                    {t('coupons.accepted', {
+                      count: couponCheck.valid.length,
+                      amount: couponCheck.total.toLocaleString('fr-FR'),
+                    })}
+                  </p>
+                )}
+              </div>
+              {couponCheck &&
+                (['unknown', 'notSold', 'alreadyRedeemed', 'expired'] as const).map(
+                  (reason) =>
+                    couponCheck[reason].length > 0 && (
+                      <p key={reason} className="mt-1 text-xs text-red-600">
+                        {t(`coupons.rejected.${reason}`)}: {couponCheck[reason].join(', ')}
+                      </p>
+                    ),
+                )}
+            </div>
+
             {/* Live variance display */}
             <div className="mt-6 grid grid-cols-2 gap-4 rounded border p-4">
               <div>
@@ -517,6 +1095,28 @@ export default function CloseShiftPage({ params }: { params: { id: string } }) {
                       </td>
                     </tr>
                   ))}
+                  {calculations.productDetails
+                    .filter((d) => d.quantity > 0)
+                    .map((d) => (
+                      <tr key={d.productId} className="border-b">
+                        <td className="py-2">{d.label}</td>
+                        <td className="py-2">{t('shop')}</td>
+                        <td className="py-2 text-right">{d.quantity} {d.unit}</td>
+                        <td className="py-2 text-right font-medium">
+                          {d.revenue.toLocaleString('fr-FR')}
+                        </td>
+                      </tr>
+                    ))}
+                  {calculations.cylinderRevenue !== 0 && (
+                    <tr className="border-b">
+                      <td className="py-2">{t('gasCylinders')}</td>
+                      <td className="py-2">GPL</td>
+                      <td className="py-2 text-right">-</td>
+                      <td className="py-2 text-right font-medium">
+                        {calculations.cylinderRevenue.toLocaleString('fr-FR')}
+                      </td>
+                    </tr>
+                  )}
                 </tbody>
                 <tfoot>
                   <tr className="font-bold">
@@ -541,6 +1141,26 @@ export default function CloseShiftPage({ params }: { params: { id: string } }) {
                   <p className="text-xs text-gray-500">{t('card')}</p>
                   <p className="font-bold">{(cashValues?.card || 0).toLocaleString('fr-FR')}</p>
                 </div>
+                {paymentMethods.map((m, index) => (
+                  <div key={m.code}>
+                    <p className="text-xs text-gray-500">{m.name}</p>
+                    <p className="font-bold">
+                      {(cashValues?.tenders?.[index]?.amount || 0).toLocaleString('fr-FR')}
+                    </p>
+                  </div>
+                ))}
+                {cashCalcs.creditSalesAmount > 0 && (
+                  <div>
+                    <p className="text-xs text-gray-500">{t('creditSales.title')}</p>
+                    <p className="font-bold">{cashCalcs.creditSalesAmount.toLocaleString('fr-FR')}</p>
+                  </div>
+                )}
+                {cashCalcs.couponsAmount > 0 && (
+                  <div>
+                    <p className="text-xs text-gray-500">{t('coupons.title')}</p>
+                    <p className="font-bold">{cashCalcs.couponsAmount.toLocaleString('fr-FR')}</p>
+                  </div>
+                )}
                 <div>
                   <p className="text-xs text-gray-500">{t('expenses')}</p>
                   <p className="font-bold">{(cashValues?.expenses || 0).toLocaleString('fr-FR')}</p>
@@ -604,6 +1224,19 @@ export default function CloseShiftPage({ params }: { params: { id: string } }) {
                     {stockCalcs.totalStockVariance.toFixed(2)} L
                   </p>
                 </div>
+                {cylinderCalcs.cylinderVariances.map((cv) => (
+                  <div key={cv.cylinderTypeId} className="flex items-center justify-between border-b pb-2">
+                    <p className="text-sm font-medium">{cv.label}</p>
+                    <p
+                      className={cn(
+                        'text-sm font-bold',
+                        cv.fullVariance === 0 && cv.emptyVariance === 0 ? 'text-green-600' : 'text-red-600',
+                      )}
+                    >
+                      {t('cylinderVarianceDetail', { full: cv.fullVariance, empty: cv.emptyVariance })}
+                    </p>
+                  </div>
+                ))}
               </div>
             </div>
 
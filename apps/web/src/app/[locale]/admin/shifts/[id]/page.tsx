@@ -1,23 +1,180 @@
 'use client';
 
-import { useQuery } from '@tanstack/react-query';
-import { api } from '@/lib/api-client';
+import { Fragment, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api, ApiError } from '@/lib/api-client';
 import { useRouter } from 'next/navigation';
 import { useTranslations, useFormatter } from 'next-intl';
 import { StatusBadge } from '@/components/shared/status-badge';
 import { KPICard } from '@/components/shared/kpi-card';
 import { cn } from '@/lib/utils';
+import { useAuthStore } from '@/stores/auth-store';
+import { useShiftPatterns, shiftTypeLabel } from '@/lib/shift-patterns';
+import { usePaymentMethods, paymentMethodLabel } from '@/lib/payment-methods';
+import { toast } from 'sonner';
 import {
   ArrowLeft,
   Banknote,
   CalendarDays,
+  Check,
+  CreditCard,
+  Cylinder,
   Fuel,
   Gauge,
+  Landmark,
   Lock,
+  PencilLine,
+  ShoppingBag,
   TrendingDown,
   TrendingUp,
+  Users,
+  X,
 } from 'lucide-react';
 
+type BeforeAfter = { before: number | null; after: number | null };
+
+interface ShiftPriceChange {
+  id: string;
+  fuelType: string;
+  unitPrice: string;
+  effectiveAt: string;
+  recordedAt: string | null;
+  recordedBy: { id: string; fullName: string } | null;
+}
+
+interface ShiftMeterReplacement {
+  id: string;
+  nozzleId: string;
+  midShift: boolean;
+  oldFinalIndex: string;
+  newStartIndex: string;
+  reason: string;
+  replacedAt: string;
+  recordedBy: { id: string; fullName: string } | null;
+}
+
+interface ShiftCalibrationTest {
+  id: string;
+  nozzleId: string;
+  dispensedVolume: string;
+  errorPercent: string;
+  passed: boolean;
+  returnedToTank: boolean;
+  testedBy: { id: string; fullName: string } | null;
+}
+
+interface ShiftCorrection {
+  id: string;
+  status: 'PENDING' | 'APPROVED' | 'REJECTED';
+  reason: string;
+  reviewComment: string | null;
+  createdAt: string;
+  requestedBy: { id: string; fullName: string };
+  reviewedBy: { id: string; fullName: string } | null;
+  diff: {
+    sales: { nozzleId: string; closingIndex: BeforeAfter; volumeSold: BeforeAfter; revenue: BeforeAfter }[];
+    tankDips: { tankId: string; closingLevel: BeforeAfter; stockVariance: BeforeAfter }[];
+    tenders?: { method: string; amount: BeforeAfter }[];
+    totals: Record<string, BeforeAfter>;
+  };
+}
+
+const CORRECTION_ROLES = ['STATION_MANAGER', 'CFO', 'CEO', 'SUPER_ADMIN'];
+
+interface CashHandover {
+  id: string;
+  type: 'SAFE_DROP' | 'CLOSING_ENVELOPE';
+  amount: string;
+  envelopeNumber: string | null;
+  createdAt: string;
+  handedBy: { id: string; fullName: string };
+  receivedBy: { id: string; fullName: string } | null;
+}
+
+const HANDOVER_ROLES = ['CHEF_PISTE', 'STATION_MANAGER', 'SUPER_ADMIN'];
+
+interface ShiftAssignment {
+  id: string;
+  nozzleId: string;
+  startIndex: string;
+  endIndex: string | null;
+  volumeSold: string | null;
+  revenue: string | null;
+  attendant: { id: string; fullName: string };
+  nozzle: { id: string; side: string; pump: { code: string } };
+}
+
+interface ShiftAttendant {
+  id: string;
+  cashDeclared: string;
+  cardAmount: string;
+  declaredAt: string | null;
+  volumeSold: string;
+  revenue: string;
+  theoreticalCash: string;
+  cashVariance: string;
+  attendant: { id: string; fullName: string };
+}
+
+const ATTENDANT_ROLES = ['CHEF_PISTE', 'STATION_MANAGER', 'SUPER_ADMIN'];
+const CYLINDER_ROLES = ['CHEF_PISTE', 'STATION_MANAGER', 'SUPER_ADMIN'];
+const CYLINDER_TRANSACTION_TYPES = ['SALE', 'EXCHANGE', 'DEPOSIT_REFUND'] as const;
+
+interface ShiftCylinderCount {
+  id: string;
+  cylinderTypeId: string;
+  openingFull: number;
+  openingEmpty: number;
+  fullReceived: number;
+  emptyReturned: number;
+  fullOut: number;
+  emptyIn: number;
+  revenue: string;
+  countedFull: number | null;
+  countedEmpty: number | null;
+  fullVariance: number | null;
+  emptyVariance: number | null;
+  cylinderType: { id: string; brand: string; sizeKg: string };
+}
+
+interface ShiftCylinderTransaction {
+  id: string;
+  type: (typeof CYLINDER_TRANSACTION_TYPES)[number];
+  quantity: number;
+  amount: string;
+  createdAt: string;
+  cylinderType: { id: string; brand: string; sizeKg: string };
+  recordedBy: { id: string; fullName: string };
+}
+
+const CREDIT_SALE_ROLES = ['CHEF_PISTE', 'STATION_MANAGER', 'SUPER_ADMIN'];
+const FUEL_TYPES = ['ESSENCE', 'GASOIL', 'PETROLE'] as const;
+
+interface ShiftCreditSale {
+  id: string;
+  voucherNumber: string;
+  fuelType: string;
+  volume: string;
+  unitPrice: string;
+  amount: string;
+  createdAt: string;
+  customer: { id: string; name: string };
+  vehicle: { id: string; plateNumber: string };
+  driver: { id: string; fullName: string } | null;
+  nozzle: { id: string; side: string; pump: { code: string } } | null;
+  recordedBy: { id: string; fullName: string };
+}
+
+interface CreditCustomerAccount {
+  id: string;
+  name: string;
+  creditLimit: string;
+  balance: string;
+  vehicles: { id: string; plateNumber: string; isActive: boolean }[];
+  drivers: { id: string; fullName: string; isActive: boolean }[];
+}
+const RECEIVE_ROLES = ['STATION_MANAGER', 'SUPER_ADMIN'];
+
 export default function ShiftDetailsPage({ params }: { params: { id: string } }) {
   const { id } = params;
   const t = useTranslations('Shifts');
@@ -36,6 +193,275 @@ export default function ShiftDetailsPage({ params }: { params: { id: string } })
   });
 
   const shift = shiftData?.data || shiftData;
+  const shiftPatterns = useShiftPatterns(shift?.stationId);
+  const paymentMethods = usePaymentMethods(shift?.stationId);
+  const shiftPayments: { method: string; amount: string }[] = shift?.payments || [];
+
+  const queryClient = useQueryClient();
+  const user = useAuthStore((state) => state.user);
+  const canCorrect = !!user && CORRECTION_ROLES.includes(user.role);
+  const [showCorrectionForm, setShowCorrectionForm] = useState(false);
+  const [closingIndexes, setClosingIndexes] = useState<Record<string, string>>({});
+  const [closingLevels, setClosingLevels] = useState<Record<string, string>>({});
+  const [cashFields, setCashFields] = useState<Record<string, string>>({});
+  const [tenderFields, setTenderFields] = useState<Record<string, string>>({});
+  const [correctionReason, setCorrectionReason] = useState('');
+  const [correctionJustification, setCorrectionJustification] = useState('');
+
+  const { data: correctionsData } = useQuery({
+    queryKey: ['shift', id, 'corrections'],
+    queryFn: () => api.get<ShiftCorrection[]>(`/shifts/${id}/corrections`),
+  });
+  const corrections: ShiftCorrection[] = Array.isArray(correctionsData) ? correctionsData : [];
+  const hasPendingCorrection = corrections.some((c) => c.status === 'PENDING');
+
+  const invalidateShift = () => queryClient.invalidateQueries({ queryKey: ['shift', id] });
+  const onMutationError = (err: ApiError) => toast.error(err.message);
+
+  const proposeMutation = useMutation({
+    mutationFn: () => {
+      const changed = (values: Record<string, string>) =>
+        Object.entries(values).filter(([, v]) => v !== '');
+      const cash: Record<string, unknown> = Object.fromEntries(changed(cashFields).map(([k, v]) => [k, Number(v)]));
+      // Tenders are corrected as a whole list: untouched methods keep their closed amount
+      if (changed(tenderFields).length > 0) {
+        cash.tenders = paymentMethods.map((m) => ({
+          method: m.code,
+          amount: Number(tenderFields[m.code] || shiftPayments.find((p) => p.method === m.code)?.amount || 0),
+        }));
+      }
+      return api.post(`/shifts/${id}/corrections`, {
+        sales: changed(closingIndexes).map(([nozzleId, v]) => ({ nozzleId, closingIndex: Number(v) })),
+        tankDips: changed(closingLevels).map(([tankId, v]) => ({ tankId, physicalLevel: Number(v) })),
+        ...(Object.keys(cash).length > 0 && { cash }),
+        ...(correctionJustification && { justification: correctionJustification }),
+        reason: correctionReason,
+      });
+    },
+    onSuccess: () => {
+      toast.success(t('corrections.proposeSuccess'));
+      setShowCorrectionForm(false);
+      setClosingIndexes({});
+      setClosingLevels({});
+      setCashFields({});
+      setTenderFields({});
+      setCorrectionReason('');
+      setCorrectionJustification('');
+      invalidateShift();
+    },
+    onError: onMutationError,
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: ({ correctionId, action, reason }: { correctionId: string; action: 'approve' | 'reject'; reason?: string }) =>
+      api.put(`/shifts/corrections/${correctionId}/${action}`, action === 'reject' ? { reason } : {}),
+    onSuccess: (_data, { action }) => {
+      toast.success(t(action === 'approve' ? 'corrections.approveSuccess' : 'corrections.rejectSuccess'));
+      invalidateShift();
+    },
+    onError: onMutationError,
+  });
+
+  const handleRejectCorrection = (correctionId: string) => {
+    const reason = window.prompt(t('corrections.rejectReason'));
+    if (reason) reviewMutation.mutate({ correctionId, action: 'reject', reason });
+  };
+
+  const [handoverAmount, setHandoverAmount] = useState('');
+  const [envelopeNumber, setEnvelopeNumber] = useState('');
+
+  const { data: handoversData } = useQuery({
+    queryKey: ['shift', id, 'handovers'],
+    queryFn: () => api.get<CashHandover[]>(`/cash/shifts/${id}/handovers`),
+  });
+  const handovers: CashHandover[] = Array.isArray(handoversData) ? handoversData : [];
+
+  const handoverMutation = useMutation({
+    mutationFn: (type: CashHandover['type']) =>
+      api.post(`/cash/shifts/${id}/handovers`, {
+        type,
+        amount: Number(handoverAmount),
+        ...(envelopeNumber && { envelopeNumber }),
+      }),
+    onSuccess: () => {
+      toast.success(t('handovers.createSuccess'));
+      setHandoverAmount('');
+      setEnvelopeNumber('');
+      invalidateShift();
+    },
+    onError: onMutationError,
+  });
+
+  const receiveMutation = useMutation({
+    mutationFn: (handoverId: string) => api.put(`/cash/handovers/${handoverId}/receive`, {}),
+    onSuccess: () => {
+      toast.success(t('handovers.receiveSuccess'));
+      invalidateShift();
+    },
+    onError: onMutationError,
+  });
+
+  const canManageAttendants = !!user && ATTENDANT_ROLES.includes(user.role) && shift?.status === 'OPEN';
+  const [assignNozzleId, setAssignNozzleId] = useState('');
+  const [assignAttendantId, setAssignAttendantId] = useState('');
+  const [handoverNozzleId, setHandoverNozzleId] = useState('');
+  const [handoverAttendantId, setHandoverAttendantId] = useState('');
+  const [handoverIndex, setHandoverIndex] = useState('');
+  const [cashAttendantId, setCashAttendantId] = useState('');
+  const [attendantCash, setAttendantCash] = useState('');
+  const [attendantCard, setAttendantCard] = useState('');
+
+  const { data: agentsData } = useQuery({
+    queryKey: ['station-agents', shift?.stationId],
+    queryFn: () => api.get<{ id: string; fullName: string; role: string }[]>(`/stations/${shift.stationId}/agents`),
+    enabled: canManageAttendants,
+  });
+  const pompistes = (Array.isArray(agentsData) ? agentsData : []).filter((a) => a.role === 'POMPISTE');
+
+  const assignMutation = useMutation({
+    mutationFn: () =>
+      api.post(`/shifts/${id}/assignments`, { attendantId: assignAttendantId, nozzleIds: [assignNozzleId] }),
+    onSuccess: () => {
+      toast.success(t('attendants.assignSuccess'));
+      setAssignNozzleId('');
+      invalidateShift();
+    },
+    onError: onMutationError,
+  });
+
+  const attendantHandoverMutation = useMutation({
+    mutationFn: () =>
+      api.post(`/shifts/${id}/assignments/handover`, {
+        nozzleId: handoverNozzleId,
+        toAttendantId: handoverAttendantId,
+        meterIndex: Number(handoverIndex),
+      }),
+    onSuccess: () => {
+      toast.success(t('attendants.handoverSuccess'));
+      setHandoverNozzleId('');
+      setHandoverAttendantId('');
+      setHandoverIndex('');
+      invalidateShift();
+    },
+    onError: onMutationError,
+  });
+
+  const canRecordCylinders = !!user && CYLINDER_ROLES.includes(user.role) && shift?.status === 'OPEN';
+  const [cylinderTypeId, setCylinderTypeId] = useState('');
+  const [cylinderTxType, setCylinderTxType] = useState<ShiftCylinderTransaction['type']>('EXCHANGE');
+  const [cylinderQuantity, setCylinderQuantity] = useState('1');
+
+  const { data: cylinderTypesData } = useQuery({
+    queryKey: ['cylinder-types'],
+    queryFn: () => api.get<{ id: string; brand: string; sizeKg: string; isActive: boolean }[]>('/cylinders/types'),
+    enabled: canRecordCylinders,
+  });
+  const cylinderTypes = (Array.isArray(cylinderTypesData) ? cylinderTypesData : []).filter((c) => c.isActive);
+
+  const cylinderTransactionMutation = useMutation({
+    mutationFn: () =>
+      api.post('/cylinders/transactions', {
+        stationId: shift.stationId,
+        cylinderTypeId,
+        type: cylinderTxType,
+        quantity: Number(cylinderQuantity),
+      }),
+    onSuccess: () => {
+      toast.success(t('cylinders.recordSuccess'));
+      setCylinderQuantity('1');
+      invalidateShift();
+    },
+    onError: onMutationError,
+  });
+
+  const canRecordCreditSales = !!user && CREDIT_SALE_ROLES.includes(user.role) && shift?.status === 'OPEN';
+  const [creditSale, setCreditSale] = useState({
+    customerId: '',
+    vehicleId: '',
+    driverId: '',
+    voucherNumber: '',
+    fuelType: 'GASOIL',
+    nozzleId: '',
+    volume: '',
+  });
+
+  const { data: creditCustomersData } = useQuery({
+    queryKey: ['customers', 'active'],
+    queryFn: () => api.get<{ data: { id: string; name: string }[] }>('/customers?isActive=true&limit=100'),
+    enabled: canRecordCreditSales,
+  });
+  const creditCustomers: { id: string; name: string }[] = (creditCustomersData as any)?.data || [];
+
+  const { data: creditAccount } = useQuery({
+    queryKey: ['customers', creditSale.customerId],
+    queryFn: () => api.get<CreditCustomerAccount>(`/customers/${creditSale.customerId}`),
+    enabled: canRecordCreditSales && !!creditSale.customerId,
+  });
+
+  const creditSaleMutation = useMutation({
+    mutationFn: () =>
+      api.post('/customers/credit-sales', {
+        stationId: shift.stationId,
+        customerId: creditSale.customerId,
+        vehicleId: creditSale.vehicleId,
+        ...(creditSale.driverId && { driverId: creditSale.driverId }),
+        voucherNumber: creditSale.voucherNumber,
+        fuelType: creditSale.fuelType,
+        ...(creditSale.nozzleId && { nozzleId: creditSale.nozzleId }),
+        volume: Number(creditSale.volume),
+      }),
+    onSuccess: () => {
+      toast.success(t('creditSales.recordSuccess'));
+      setCreditSale((c) => ({ ...c, voucherNumber: '', volume: '' }));
+      queryClient.invalidateQueries({ queryKey: ['customers', creditSale.customerId] });
+      invalidateShift();
+    },
+    onError: onMutationError,
+  });
+
+  const cancelCreditSaleMutation = useMutation({
+    mutationFn: (creditSaleId: string) => api.delete(`/customers/credit-sales/${creditSaleId}`),
+    onSuccess: () => {
+      toast.success(t('creditSales.cancelSuccess'));
+      invalidateShift();
+    },
+    onError: onMutationError,
+  });
+
+  const [priceChangeReadings, setPriceChangeReadings] = useState<Record<string, string>>({});
+
+  const recordPriceChangeMutation = useMutation({
+    mutationFn: ({ changeId, nozzleIds }: { changeId: string; nozzleIds: string[] }) =>
+      api.put(`/shifts/${id}/price-changes/${changeId}`, {
+        readings: nozzleIds.map((nozzleId) => ({ nozzleId, meterIndex: Number(priceChangeReadings[nozzleId]) })),
+      }),
+    onSuccess: () => {
+      toast.success(t('priceChanges.recordSuccess'));
+      setPriceChangeReadings({});
+      invalidateShift();
+    },
+    onError: onMutationError,
+  });
+
+  const declareCashMutation = useMutation({
+    mutationFn: () =>
+      api.put(`/shifts/${id}/attendants/cash`, {
+        attendantId: cashAttendantId,
+        counted: Number(attendantCash),
+        card: Number(attendantCard || 0),
+      }),
+    onSuccess: () => {
+      toast.success(t('attendants.cashSuccess'));
+      setCashAttendantId('');
+      setAttendantCash('');
+      setAttendantCard('');
+      invalidateShift();
+    },
+    onError: onMutationError,
+  });
+
+  const formatChange = ({ before, after }: BeforeAfter) =>
+    `${before != null ? format.number(before) : '-'} → ${after != null ? format.number(after) : '-'}`;
 
   if (isLoading) {
     return (
@@ -54,6 +480,14 @@ export default function ShiftDetailsPage({ params }: { params: { id: string } })
   const cashVar = Number(shift.cashVariance || 0);
   const stockVar = Number(shift.stockVariance || 0);
   const priceSnapshot = shift.appliedPriceSnapshot || {};
+  const priceChanges: ShiftPriceChange[] = shift.priceChanges || [];
+  const meterReplacements: ShiftMeterReplacement[] = shift.meterReplacements || [];
+  const calibrationTests: ShiftCalibrationTest[] = shift.calibrationTests || [];
+  const fuelTypeByTank: Record<string, string> = Object.fromEntries(
+    (shift.tankDips || []).map((d: any) => [d.tank?.id, d.tank?.fuelType]),
+  );
+  const salesOfFuelType = (fuelType: string) =>
+    (shift.sales || []).filter((s: any) => fuelTypeByTank[s.nozzle?.pump?.tankId] === fuelType);
 
   return (
     <div className="space-y-6">
@@ -71,7 +505,7 @@ export default function ShiftDetailsPage({ params }: { params: { id: string } })
           </h1>
           <div className="mt-1 flex flex-wrap items-center gap-3">
             <span className="text-gray-500">
-              {shift.shiftType === 'MORNING' ? `🌅 ${t('morning')}` : `🌙 ${t('evening')}`}
+              {shiftTypeLabel(shift.shiftType, t, shiftPatterns)}
             </span>
             <StatusBadge status={sm.status} label={sm.label} />
             {shift.station && (
@@ -80,6 +514,16 @@ export default function ShiftDetailsPage({ params }: { params: { id: string } })
           </div>
         </div>
 
+        {shift.status === 'CLOSED' && canCorrect && !hasPendingCorrection && (
+          <button
+            onClick={() => setShowCorrectionForm((v) => !v)}
+            className="flex items-center gap-2 rounded border px-4 py-2 hover:bg-gray-50"
+          >
+            <PencilLine className="h-4 w-4" />
+            {t('corrections.propose')}
+          </button>
+        )}
+
         {shift.status === 'OPEN' && (
           <button
             onClick={() => router.push(`/admin/shifts/${shift.id}/close`)}
@@ -137,6 +581,84 @@ export default function ShiftDetailsPage({ params }: { params: { id: string } })
         </div>
       )}
 
+      {/* Price changes during the shift */}
+      {priceChanges.length > 0 && (
+        <div className="rounded-lg bg-white p-6 shadow">
+          <div className="mb-4 flex items-center gap-2">
+            <TrendingUp className="h-5 w-5 text-blue-600" />
+            <h2 className="text-lg font-bold">{t('priceChanges.title')}</h2>
+          </div>
+          <div className="space-y-4">
+            {priceChanges.map((change) => (
+              <div key={change.id} className="rounded border p-4">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <p className="text-sm">
+                    <strong>{change.fuelType}:</strong> {format.number(Number(change.unitPrice))} FCFA/L{' '}
+                    <span className="text-gray-500">
+                      {t('priceChanges.effectiveAt', {
+                        date: format.dateTime(new Date(change.effectiveAt), { dateStyle: 'short', timeStyle: 'short' }),
+                      })}
+                    </span>
+                  </p>
+                  {change.recordedAt ? (
+                    <StatusBadge
+                      status="success"
+                      label={t('priceChanges.recordedBy', { name: change.recordedBy?.fullName || '-' })}
+                    />
+                  ) : (
+                    <StatusBadge status="warning" label={t('priceChanges.pending')} />
+                  )}
+                </div>
+                {!change.recordedAt && (
+                  <p className="mt-2 text-sm text-amber-700">{t('priceChanges.pendingHint')}</p>
+                )}
+                {!change.recordedAt && canManageAttendants && (
+                  <form
+                    className="mt-3 space-y-2"
+                    onSubmit={(e) => {
+                      e.preventDefault();
+                      recordPriceChangeMutation.mutate({
+                        changeId: change.id,
+                        nozzleIds: salesOfFuelType(change.fuelType).map((s: any) => s.nozzleId),
+                      });
+                    }}
+                  >
+                    <div className="grid grid-cols-1 gap-2 sm:grid-cols-2">
+                      {salesOfFuelType(change.fuelType).map((sale: any) => (
+                        <label key={sale.id} className="flex items-center gap-2 text-sm">
+                          <span className="w-20 shrink-0">
+                            P{sale.nozzle?.pump?.code || '?'} — {sale.nozzle?.side || '?'}
+                          </span>
+                          <input
+                            type="number"
+                            step="0.01"
+                            min={0}
+                            required
+                            value={priceChangeReadings[sale.nozzleId] ?? ''}
+                            onChange={(e) =>
+                              setPriceChangeReadings({ ...priceChangeReadings, [sale.nozzleId]: e.target.value })
+                            }
+                            placeholder={t('attendants.meterIndex')}
+                            className="w-full rounded border px-2 py-1.5"
+                          />
+                        </label>
+                      ))}
+                    </div>
+                    <button
+                      type="submit"
+                      disabled={recordPriceChangeMutation.isPending}
+                      className="rounded bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+                    >
+                      {t('priceChanges.record')}
+                    </button>
+                  </form>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
         {/* Sales */}
         <div className="rounded-lg bg-white p-6 shadow">
@@ -157,29 +679,82 @@ export default function ShiftDetailsPage({ params }: { params: { id: string } })
               </thead>
               <tbody>
                 {(shift.sales || []).map((sale: any) => (
-                  <tr key={sale.id} className="border-b">
-                    <td className="py-2">
-                      P{sale.nozzle?.pump?.code || '?'} — {sale.nozzle?.side || '?'}
-                    </td>
-                    <td className="py-2 text-right">
-                      {Number(sale.openingIndex).toFixed(2)}
-                    </td>
-                    <td className="py-2 text-right">
-                      {sale.closingIndex != null
-                        ? Number(sale.closingIndex).toFixed(2)
-                        : '-'}
-                    </td>
-                    <td className="py-2 text-right">
-                      {sale.volumeSold != null
-                        ? Number(sale.volumeSold).toFixed(2)
-                        : '-'}
-                    </td>
-                    <td className="py-2 text-right font-medium">
-                      {sale.revenue != null
-                        ? `${format.number(Number(sale.revenue))} FCFA`
-                        : '-'}
-                    </td>
-                  </tr>
+                  <Fragment key={sale.id}>
+                    <tr className="border-b">
+                      <td className="py-2">
+                        P{sale.nozzle?.pump?.code || '?'} — {sale.nozzle?.side || '?'}
+                      </td>
+                      <td className="py-2 text-right">
+                        {Number(sale.openingIndex).toFixed(2)}
+                      </td>
+                      <td className="py-2 text-right">
+                        {sale.closingIndex != null
+                          ? Number(sale.closingIndex).toFixed(2)
+                          : '-'}
+                      </td>
+                      <td className="py-2 text-right">
+                        {sale.volumeSold != null
+                          ? Number(sale.volumeSold).toFixed(2)
+                          : '-'}
+                      </td>
+                      <td className="py-2 text-right font-medium">
+                        {sale.revenue != null
+                          ? `${format.number(Number(sale.revenue))} FCFA`
+                          : '-'}
+                      </td>
+                    </tr>
+                    {/* Revenue per price segment when the price changed during the shift */}
+                    {(sale.segments || []).map((segment: any) => (
+                      <tr key={segment.id} className="border-b text-xs text-gray-500">
+                        <td className="py-1 pl-4">
+                          {t('priceChanges.segment', { price: format.number(Number(segment.unitPrice)) })}
+                        </td>
+                        <td className="py-1 text-right">{Number(segment.startIndex).toFixed(2)}</td>
+                        <td className="py-1 text-right">
+                          {segment.endIndex != null ? Number(segment.endIndex).toFixed(2) : '-'}
+                        </td>
+                        <td className="py-1 text-right">
+                          {segment.volumeSold != null ? Number(segment.volumeSold).toFixed(2) : '-'}
+                        </td>
+                        <td className="py-1 text-right">
+                          {segment.revenue != null ? `${format.number(Number(segment.revenue))} FCFA` : '-'}
+                        </td>
+                      </tr>
+                    ))}
+                    {/* Meter replaced during the shift, or before it opened on the new meter */}
+                    {meterReplacements
+                      .filter((replacement) => replacement.nozzleId === sale.nozzleId)
+                      .map((replacement) => (
+                        <tr key={replacement.id} className="border-b text-xs text-amber-700">
+                          <td className="py-1 pl-4" colSpan={5}>
+                            {t(replacement.midShift ? 'meterReplacements.midShift' : 'meterReplacements.beforeOpening', {
+                              oldIndex: Number(replacement.oldFinalIndex).toFixed(2),
+                              newIndex: Number(replacement.newStartIndex).toFixed(2),
+                              name: replacement.recordedBy?.fullName || '-',
+                            })}{' '}
+                            — {replacement.reason}
+                          </td>
+                        </tr>
+                      ))}
+                    {/* Calibration tests: dispensed from the nozzle but not sold */}
+                    {calibrationTests
+                      .filter((test) => test.nozzleId === sale.nozzleId)
+                      .map((test) => (
+                        <tr key={test.id} className="border-b text-xs text-gray-500">
+                          <td className="py-1 pl-4" colSpan={3}>
+                            {t(test.returnedToTank ? 'calibrationTests.returned' : 'calibrationTests.notReturned', {
+                              name: test.testedBy?.fullName || '-',
+                            })}{' '}
+                            <span className={test.passed ? 'text-green-700' : 'text-red-600'}>
+                              ({Number(test.errorPercent) > 0 ? '+' : ''}
+                              {Number(test.errorPercent).toFixed(2)} %)
+                            </span>
+                          </td>
+                          <td className="py-1 text-right">-{Number(test.dispensedVolume).toFixed(2)}</td>
+                          <td className="py-1 text-right">-</td>
+                        </tr>
+                      ))}
+                  </Fragment>
                 ))}
               </tbody>
               {isClosed && (
@@ -263,6 +838,343 @@ export default function ShiftDetailsPage({ params }: { params: { id: string } })
             </table>
           </div>
 
+          {/* Shop products */}
+          {(shift.productSales || []).length > 0 && (
+            <div className="rounded-lg bg-white p-6 shadow">
+              <div className="mb-4 flex items-center gap-2">
+                <ShoppingBag className="h-5 w-5 text-blue-600" />
+                <h2 className="text-lg font-bold">{t('shopSales')}</h2>
+              </div>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b">
+                    <th className="py-2 text-left">{t('product')}</th>
+                    <th className="py-2 text-right">{t('openingStock')}</th>
+                    {isClosed && (
+                      <>
+                        <th className="py-2 text-right">{t('quantitySold')}</th>
+                        <th className="py-2 text-right">{t('countedStock')}</th>
+                        <th className="py-2 text-right">{t('amount')}</th>
+                      </>
+                    )}
+                  </tr>
+                </thead>
+                <tbody>
+                  {shift.productSales.map((p: any) => {
+                    const sv = Number(p.stockVariance || 0);
+                    return (
+                      <tr key={p.id} className="border-b">
+                        <td className="py-2">{p.product?.name || '-'}</td>
+                        <td className="py-2 text-right">
+                          {Number(p.openingStock)}
+                          {Number(p.receipts) > 0 && <span className="text-gray-500"> +{Number(p.receipts)}</span>}
+                        </td>
+                        {isClosed && (
+                          <>
+                            <td className="py-2 text-right">{p.quantitySold != null ? Number(p.quantitySold) : '-'}</td>
+                            <td className="py-2 text-right">
+                              {p.countedStock != null ? Number(p.countedStock) : '-'}
+                              {sv !== 0 && (
+                                <span className={cn('ml-1 text-xs', sv > 0 ? 'text-blue-600' : 'text-red-600')}>
+                                  ({sv > 0 ? '+' : ''}{sv})
+                                </span>
+                              )}
+                            </td>
+                            <td className="py-2 text-right font-medium">{format.number(Number(p.revenue || 0))}</td>
+                          </>
+                        )}
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {/* Gas cylinders */}
+          {((shift.cylinderCounts || []).length > 0 || canRecordCylinders) && (
+            <div className="rounded-lg bg-white p-6 shadow">
+              <div className="mb-4 flex items-center gap-2">
+                <Cylinder className="h-5 w-5 text-blue-600" />
+                <h2 className="text-lg font-bold">{t('gasCylinders')}</h2>
+              </div>
+              {(shift.cylinderCounts || []).length > 0 && (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b">
+                      <th className="py-2 text-left">{t('cylinders.type')}</th>
+                      <th className="py-2 text-right">{t('cylinders.opening')}</th>
+                      <th className="py-2 text-right">{t('cylinders.supplier')}</th>
+                      <th className="py-2 text-right">{t('cylinders.customers')}</th>
+                      {isClosed && <th className="py-2 text-right">{t('cylinders.counted')}</th>}
+                      <th className="py-2 text-right">{t('amount')}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {(shift.cylinderCounts as ShiftCylinderCount[]).map((c) => {
+                      const hasVariance = !!c.fullVariance || !!c.emptyVariance;
+                      return (
+                        <tr key={c.id} className="border-b">
+                          <td className="py-2">
+                            {c.cylinderType.brand} {Number(c.cylinderType.sizeKg)} kg
+                          </td>
+                          <td className="py-2 text-right">
+                            {c.openingFull} / {c.openingEmpty}
+                          </td>
+                          <td className="py-2 text-right">
+                            +{c.fullReceived} / -{c.emptyReturned}
+                          </td>
+                          <td className="py-2 text-right">
+                            -{c.fullOut} / +{c.emptyIn}
+                          </td>
+                          {isClosed && (
+                            <td className="py-2 text-right">
+                              {c.countedFull != null ? `${c.countedFull} / ${c.countedEmpty}` : '-'}
+                              {hasVariance && (
+                                <span className="ml-1 text-xs text-red-600">
+                                  ({t('cylinderVarianceDetail', { full: c.fullVariance ?? 0, empty: c.emptyVariance ?? 0 })})
+                                </span>
+                              )}
+                            </td>
+                          )}
+                          <td className="py-2 text-right font-medium">{format.number(Number(c.revenue))}</td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              )}
+              <p className="mt-1 text-xs text-gray-500">{t('cylinders.fullEmptyHint')}</p>
+
+              {(shift.cylinderTransactions || []).length > 0 && (
+                <div className="mt-4 space-y-1 text-sm">
+                  {(shift.cylinderTransactions as ShiftCylinderTransaction[]).map((tx) => (
+                    <div key={tx.id} className="flex justify-between border-b py-1">
+                      <span>
+                        {format.dateTime(new Date(tx.createdAt), { hour: '2-digit', minute: '2-digit' })} —{' '}
+                        {t(`cylinders.types.${tx.type}`)} {tx.quantity} × {tx.cylinderType.brand}{' '}
+                        {Number(tx.cylinderType.sizeKg)} kg
+                        <span className="text-gray-500"> ({tx.recordedBy.fullName})</span>
+                      </span>
+                      <span className={cn('font-medium', Number(tx.amount) < 0 && 'text-red-600')}>
+                        {format.number(Number(tx.amount))} FCFA
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {canRecordCylinders && (
+                <div className="mt-4 flex flex-wrap items-center gap-2 text-sm">
+                  <select
+                    value={cylinderTxType}
+                    onChange={(e) => setCylinderTxType(e.target.value as ShiftCylinderTransaction['type'])}
+                    className="rounded border px-2 py-1"
+                  >
+                    {CYLINDER_TRANSACTION_TYPES.map((type) => (
+                      <option key={type} value={type}>
+                        {t(`cylinders.types.${type}`)}
+                      </option>
+                    ))}
+                  </select>
+                  <select
+                    value={cylinderTypeId}
+                    onChange={(e) => setCylinderTypeId(e.target.value)}
+                    className="rounded border px-2 py-1"
+                  >
+                    <option value="">{t('cylinders.type')}</option>
+                    {cylinderTypes.map((c) => (
+                      <option key={c.id} value={c.id}>
+                        {c.brand} {Number(c.sizeKg)} kg
+                      </option>
+                    ))}
+                  </select>
+                  <input
+                    type="number"
+                    min={1}
+                    step={1}
+                    value={cylinderQuantity}
+                    onChange={(e) => setCylinderQuantity(e.target.value)}
+                    className="w-20 rounded border px-2 py-1"
+                  />
+                  <button
+                    onClick={() => cylinderTransactionMutation.mutate()}
+                    disabled={!cylinderTypeId || !(Number(cylinderQuantity) > 0) || cylinderTransactionMutation.isPending}
+                    className="rounded bg-blue-600 px-3 py-1 text-white hover:bg-blue-700 disabled:opacity-50"
+                  >
+                    {t('cylinders.record')}
+                  </button>
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Credit sales */}
+          {((shift.creditSales || []).length > 0 || canRecordCreditSales) && (
+            <div className="rounded-lg bg-white p-6 shadow">
+              <div className="mb-4 flex items-center gap-2">
+                <CreditCard className="h-5 w-5 text-blue-600" />
+                <h2 className="text-lg font-bold">{t('creditSales.title')}</h2>
+              </div>
+
+              {(shift.creditSales || []).length > 0 && (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b text-gray-500">
+                      <th className="py-2 text-left">{t('creditSales.voucher')}</th>
+                      <th className="py-2 text-left">{t('creditSales.customer')}</th>
+                      <th className="py-2 text-left">{t('creditSales.vehicle')}</th>
+                      <th className="py-2 text-left">{t('creditSales.nozzle')}</th>
+                      <th className="py-2 text-right">{t('creditSales.volume')}</th>
+                      <th className="py-2 text-right">{t('amount')}</th>
+                      {canRecordCreditSales && <th className="py-2" />}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {(shift.creditSales as ShiftCreditSale[]).map((c) => (
+                      <tr key={c.id} className="border-b">
+                        <td className="py-2 font-mono">{c.voucherNumber}</td>
+                        <td className="py-2">{c.customer.name}</td>
+                        <td className="py-2">
+                          {c.vehicle.plateNumber}
+                          {c.driver && <span className="text-gray-500"> ({c.driver.fullName})</span>}
+                        </td>
+                        <td className="py-2">{c.nozzle ? `P${c.nozzle.pump.code} — ${c.nozzle.side}` : '-'}</td>
+                        <td className="py-2 text-right">
+                          {format.number(Number(c.volume))} L {c.fuelType}
+                        </td>
+                        <td className="py-2 text-right font-medium">{format.number(Number(c.amount))} FCFA</td>
+                        {canRecordCreditSales && (
+                          <td className="py-2 text-right">
+                            <button
+                              onClick={() => cancelCreditSaleMutation.mutate(c.id)}
+                              disabled={cancelCreditSaleMutation.isPending}
+                              className="text-red-600 hover:text-red-800 disabled:opacity-50"
+                              title={t('creditSales.cancel')}
+                            >
+                              <X className="h-4 w-4" />
+                            </button>
+                          </td>
+                        )}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+              <p className="mt-1 text-xs text-gray-500">{t('creditSales.hint')}</p>
+
+              {canRecordCreditSales && (
+                <div className="mt-4 space-y-2 text-sm">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <select
+                      value={creditSale.customerId}
+                      onChange={(e) =>
+                        setCreditSale({ ...creditSale, customerId: e.target.value, vehicleId: '', driverId: '' })
+                      }
+                      className="rounded border px-2 py-1"
+                    >
+                      <option value="">{t('creditSales.customer')}</option>
+                      {creditCustomers.map((c) => (
+                        <option key={c.id} value={c.id}>
+                          {c.name}
+                        </option>
+                      ))}
+                    </select>
+                    <select
+                      value={creditSale.vehicleId}
+                      onChange={(e) => setCreditSale({ ...creditSale, vehicleId: e.target.value })}
+                      disabled={!creditAccount}
+                      className="rounded border px-2 py-1"
+                    >
+                      <option value="">{t('creditSales.vehicle')}</option>
+                      {(creditAccount?.vehicles || [])
+                        .filter((v) => v.isActive)
+                        .map((v) => (
+                          <option key={v.id} value={v.id}>
+                            {v.plateNumber}
+                          </option>
+                        ))}
+                    </select>
+                    <select
+                      value={creditSale.driverId}
+                      onChange={(e) => setCreditSale({ ...creditSale, driverId: e.target.value })}
+                      disabled={!creditAccount}
+                      className="rounded border px-2 py-1"
+                    >
+                      <option value="">{t('creditSales.driver')}</option>
+                      {(creditAccount?.drivers || [])
+                        .filter((d) => d.isActive)
+                        .map((d) => (
+                          <option key={d.id} value={d.id}>
+                            {d.fullName}
+                          </option>
+                        ))}
+                    </select>
+                  </div>
+                  <div className="flex flex-wrap items-center gap-2">
+                    <input
+                      value={creditSale.voucherNumber}
+                      onChange={(e) => setCreditSale({ ...creditSale, voucherNumber: e.target.value })}
+                      placeholder={t('creditSales.voucher')}
+                      className="w-32 rounded border px-2 py-1"
+                    />
+                    <select
+                      value={creditSale.fuelType}
+                      onChange={(e) => setCreditSale({ ...creditSale, fuelType: e.target.value, nozzleId: '' })}
+                      className="rounded border px-2 py-1"
+                    >
+                      {FUEL_TYPES.map((f) => (
+                        <option key={f} value={f}>
+                          {f}
+                        </option>
+                      ))}
+                    </select>
+                    <select
+                      value={creditSale.nozzleId}
+                      onChange={(e) => setCreditSale({ ...creditSale, nozzleId: e.target.value })}
+                      className="rounded border px-2 py-1"
+                    >
+                      <option value="">{t('creditSales.nozzle')}</option>
+                      {salesOfFuelType(creditSale.fuelType).map((sale: any) => (
+                        <option key={sale.nozzleId} value={sale.nozzleId}>
+                          P{sale.nozzle?.pump?.code} — {sale.nozzle?.side}
+                        </option>
+                      ))}
+                    </select>
+                    <input
+                      type="number"
+                      min={0}
+                      step="0.01"
+                      value={creditSale.volume}
+                      onChange={(e) => setCreditSale({ ...creditSale, volume: e.target.value })}
+                      placeholder={t('creditSales.volume')}
+                      className="w-24 rounded border px-2 py-1"
+                    />
+                    <button
+                      onClick={() => creditSaleMutation.mutate()}
+                      disabled={
+                        !creditSale.vehicleId ||
+                        !creditSale.voucherNumber ||
+                        !(Number(creditSale.volume) > 0) ||
+                        creditSaleMutation.isPending
+                      }
+                      className="rounded bg-blue-600 px-3 py-1 text-white hover:bg-blue-700 disabled:opacity-50"
+                    >
+                      {t('creditSales.record')}
+                    </button>
+                    {creditAccount && (
+                      <span className="text-xs text-gray-500">
+                        {t('creditSales.available', {
+                          amount: format.number(Number(creditAccount.creditLimit) - Number(creditAccount.balance)),
+                        })}
+                      </span>
+                    )}
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+
           {/* Cash Reconciliation */}
           {isClosed && (
             <div className="rounded-lg bg-white p-6 shadow">
@@ -283,6 +1195,30 @@ export default function ShiftDetailsPage({ params }: { params: { id: string } })
                     {format.number(Number(shift.cardAmount || 0))} FCFA
                   </p>
                 </div>
+                {shiftPayments.map((p) => (
+                  <div key={p.method}>
+                    <p className="text-xs text-gray-500">{paymentMethodLabel(p.method, paymentMethods)}</p>
+                    <p className="text-lg font-bold">{format.number(Number(p.amount))} FCFA</p>
+                  </div>
+                ))}
+                {Number(shift.creditSalesAmount) > 0 && (
+                  <div>
+                    <p className="text-xs text-gray-500">{t('creditSales.title')}</p>
+                    <p className="text-lg font-bold">{format.number(Number(shift.creditSalesAmount))} FCFA</p>
+                  </div>
+                )}
+                {Number(shift.couponsAmount) > 0 && (
+                  <div>
+                    <p className="text-xs text-gray-500">{t('coupons.title')}</p>
+                    <p className="text-lg font-bold">{format.number(Number(shift.couponsAmount))} FCFA</p>
+                    <p
+                      className="text-xs text-gray-500"
+                      title={(shift.redeemedCoupons || []).map((c: any) => c.serialNumber).join(', ')}
+                    >
+                      {t('coupons.redeemedCount', { count: (shift.redeemedCoupons || []).length })}
+                    </p>
+                  </div>
+                )}
                 <div>
                   <p className="text-xs text-gray-500">{t('expenses')}</p>
                   <p className="text-lg font-bold">
@@ -319,6 +1255,535 @@ export default function ShiftDetailsPage({ params }: { params: { id: string } })
         </div>
       </div>
 
+      {/* Attendants */}
+      {(() => {
+        const assignments: ShiftAssignment[] = shift.assignments || [];
+        const attendants: ShiftAttendant[] = shift.attendants || [];
+        if (assignments.length === 0 && !canManageAttendants) return null;
+
+        const nozzleLabel = (n: ShiftAssignment['nozzle']) => `P${n.pump.code} — ${n.side}`;
+        const activeAssignments = assignments.filter((a) => a.endIndex == null);
+        const unassignedSales = (shift.sales || []).filter(
+          (sale: any) => !assignments.some((a) => a.nozzleId === sale.nozzleId),
+        );
+        const assignedAttendants = Array.from(
+          new Map(assignments.map((a) => [a.attendant.id, a.attendant])).values(),
+        );
+
+        return (
+          <div className="rounded-lg bg-white p-6 shadow">
+            <div className="mb-4 flex items-center gap-2">
+              <Users className="h-5 w-5 text-blue-600" />
+              <h2 className="text-lg font-bold">{t('attendants.title')}</h2>
+            </div>
+
+            {isClosed && attendants.length > 0 && (
+              <div className="mb-6 overflow-x-auto">
+                <h3 className="mb-2 text-sm font-semibold">{t('attendants.breakdown')}</h3>
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b">
+                      <th className="py-2 text-left">{t('attendants.attendant')}</th>
+                      <th className="py-2 text-right">{t('volume')}</th>
+                      <th className="py-2 text-right">{t('amount')}</th>
+                      <th className="py-2 text-right">{t('attendants.cardAmount')}</th>
+                      <th className="py-2 text-right">{t('attendants.cashDeclared')}</th>
+                      <th className="py-2 text-right">{t('attendants.variance')}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {attendants.map((a) => {
+                      const variance = Number(a.cashVariance);
+                      return (
+                        <tr key={a.id} className="border-b">
+                          <td className="py-2">{a.attendant.fullName}</td>
+                          <td className="py-2 text-right">{Number(a.volumeSold).toFixed(2)}</td>
+                          <td className="py-2 text-right">{format.number(Number(a.revenue))} FCFA</td>
+                          <td className="py-2 text-right">{format.number(Number(a.cardAmount))} FCFA</td>
+                          <td className="py-2 text-right">
+                            {a.declaredAt ? `${format.number(Number(a.cashDeclared))} FCFA` : '-'}
+                          </td>
+                          <td
+                            className={cn(
+                              'py-2 text-right font-medium',
+                              variance < 0 ? 'text-red-600' : variance > 0 ? 'text-amber-600' : 'text-green-600',
+                            )}
+                          >
+                            {format.number(variance)} FCFA
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            {assignments.length === 0 ? (
+              <p className="mb-4 text-sm text-gray-500">{t('attendants.none')}</p>
+            ) : (
+              <div className="mb-4 overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b">
+                      <th className="py-2 text-left">{t('pumpNozzle')}</th>
+                      <th className="py-2 text-left">{t('attendants.attendant')}</th>
+                      <th className="py-2 text-right">{t('startIndex')}</th>
+                      <th className="py-2 text-right">{t('endIndex')}</th>
+                      <th className="py-2 text-right">{t('volume')}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {assignments.map((a) => (
+                      <tr key={a.id} className="border-b">
+                        <td className="py-2">{nozzleLabel(a.nozzle)}</td>
+                        <td className="py-2">{a.attendant.fullName}</td>
+                        <td className="py-2 text-right">{Number(a.startIndex).toFixed(2)}</td>
+                        <td className="py-2 text-right">
+                          {a.endIndex != null ? Number(a.endIndex).toFixed(2) : isClosed ? t('attendants.toClose') : '-'}
+                        </td>
+                        <td className="py-2 text-right">
+                          {a.volumeSold != null ? Number(a.volumeSold).toFixed(2) : '-'}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            {canManageAttendants && (
+              <div className="space-y-3 text-sm">
+                {unassignedSales.length > 0 && (
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="w-32 font-medium">{t('attendants.assign')}</span>
+                    <select
+                      value={assignNozzleId}
+                      onChange={(e) => setAssignNozzleId(e.target.value)}
+                      className="rounded border px-2 py-1"
+                    >
+                      <option value="">{t('pumpNozzle')}</option>
+                      {unassignedSales.map((sale: any) => (
+                        <option key={sale.nozzleId} value={sale.nozzleId}>
+                          P{sale.nozzle?.pump?.code} — {sale.nozzle?.side}
+                        </option>
+                      ))}
+                    </select>
+                    <select
+                      value={assignAttendantId}
+                      onChange={(e) => setAssignAttendantId(e.target.value)}
+                      className="rounded border px-2 py-1"
+                    >
+                      <option value="">{t('attendants.attendant')}</option>
+                      {pompistes.map((p) => (
+                        <option key={p.id} value={p.id}>
+                          {p.fullName}
+                        </option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={() => assignMutation.mutate()}
+                      disabled={!assignNozzleId || !assignAttendantId || assignMutation.isPending}
+                      className="rounded bg-blue-600 px-3 py-1 text-white hover:bg-blue-700 disabled:opacity-50"
+                    >
+                      {t('attendants.assign')}
+                    </button>
+                  </div>
+                )}
+
+                {activeAssignments.length > 0 && (
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="w-32 font-medium">{t('attendants.handover')}</span>
+                    <select
+                      value={handoverNozzleId}
+                      onChange={(e) => setHandoverNozzleId(e.target.value)}
+                      className="rounded border px-2 py-1"
+                    >
+                      <option value="">{t('pumpNozzle')}</option>
+                      {activeAssignments.map((a) => (
+                        <option key={a.id} value={a.nozzleId}>
+                          {nozzleLabel(a.nozzle)} ({a.attendant.fullName})
+                        </option>
+                      ))}
+                    </select>
+                    <select
+                      value={handoverAttendantId}
+                      onChange={(e) => setHandoverAttendantId(e.target.value)}
+                      className="rounded border px-2 py-1"
+                    >
+                      <option value="">{t('attendants.attendant')}</option>
+                      {pompistes.map((p) => (
+                        <option key={p.id} value={p.id}>
+                          {p.fullName}
+                        </option>
+                      ))}
+                    </select>
+                    <input
+                      type="number"
+                      min={0}
+                      step="0.01"
+                      placeholder={t('attendants.meterIndex')}
+                      value={handoverIndex}
+                      onChange={(e) => setHandoverIndex(e.target.value)}
+                      className="w-36 rounded border px-2 py-1 text-right"
+                    />
+                    <button
+                      onClick={() => attendantHandoverMutation.mutate()}
+                      disabled={
+                        !handoverNozzleId ||
+                        !handoverAttendantId ||
+                        handoverIndex === '' ||
+                        attendantHandoverMutation.isPending
+                      }
+                      className="rounded bg-blue-600 px-3 py-1 text-white hover:bg-blue-700 disabled:opacity-50"
+                    >
+                      {t('attendants.handover')}
+                    </button>
+                  </div>
+                )}
+
+                {assignedAttendants.length > 0 && (
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="w-32 font-medium">{t('attendants.declareCash')}</span>
+                    <select
+                      value={cashAttendantId}
+                      onChange={(e) => setCashAttendantId(e.target.value)}
+                      className="rounded border px-2 py-1"
+                    >
+                      <option value="">{t('attendants.attendant')}</option>
+                      {assignedAttendants.map((a) => (
+                        <option key={a.id} value={a.id}>
+                          {a.fullName}
+                        </option>
+                      ))}
+                    </select>
+                    <input
+                      type="number"
+                      min={0}
+                      placeholder={t('attendants.cashDeclared')}
+                      value={attendantCash}
+                      onChange={(e) => setAttendantCash(e.target.value)}
+                      className="w-36 rounded border px-2 py-1 text-right"
+                    />
+                    <input
+                      type="number"
+                      min={0}
+                      placeholder={t('attendants.cardAmount')}
+                      value={attendantCard}
+                      onChange={(e) => setAttendantCard(e.target.value)}
+                      className="w-36 rounded border px-2 py-1 text-right"
+                    />
+                    <button
+                      onClick={() => declareCashMutation.mutate()}
+                      disabled={!cashAttendantId || attendantCash === '' || declareCashMutation.isPending}
+                      className="rounded bg-blue-600 px-3 py-1 text-white hover:bg-blue-700 disabled:opacity-50"
+                    >
+                      {t('attendants.record')}
+                    </button>
+                  </div>
+                )}
+
+                {attendants.some((a) => a.declaredAt) && (
+                  <p className="text-xs text-gray-500">
+                    {t('attendants.declared')}:{' '}
+                    {attendants
+                      .filter((a) => a.declaredAt)
+                      .map((a) => `${a.attendant.fullName} ${format.number(Number(a.cashDeclared))} FCFA`)
+                      .join(' · ')}
+                  </p>
+                )}
+              </div>
+            )}
+          </div>
+        );
+      })()}
+
+      {/* Correction form */}
+      {showCorrectionForm && shift.status === 'CLOSED' && (
+        <div className="space-y-4 rounded-lg border border-amber-300 bg-amber-50 p-6">
+          <div>
+            <h2 className="text-lg font-bold">{t('corrections.title')}</h2>
+            <p className="text-sm text-gray-600">{t('corrections.formHint')}</p>
+          </div>
+          <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+            <div className="space-y-2">
+              <p className="text-sm font-medium">{t('endIndex')}</p>
+              {(shift.sales || []).map((sale: any) => (
+                <label key={sale.id} className="flex items-center justify-between gap-2 text-sm">
+                  <span>P{sale.nozzle?.pump?.code || '?'} — {sale.nozzle?.side || '?'}</span>
+                  <input
+                    type="number"
+                    step="0.01"
+                    placeholder={Number(sale.closingIndex).toFixed(2)}
+                    value={closingIndexes[sale.nozzleId] ?? ''}
+                    onChange={(e) => setClosingIndexes((v) => ({ ...v, [sale.nozzleId]: e.target.value }))}
+                    className="w-32 rounded border px-2 py-1 text-right"
+                  />
+                </label>
+              ))}
+            </div>
+            <div className="space-y-2">
+              <p className="text-sm font-medium">{t('closingLevel')}</p>
+              {(shift.tankDips || []).map((dip: any) => (
+                <label key={dip.id} className="flex items-center justify-between gap-2 text-sm">
+                  <span>{dip.tank?.fuelType || '-'}</span>
+                  <input
+                    type="number"
+                    step="1"
+                    placeholder={Number(dip.closingLevel).toFixed(0)}
+                    value={closingLevels[dip.tankId] ?? ''}
+                    onChange={(e) => setClosingLevels((v) => ({ ...v, [dip.tankId]: e.target.value }))}
+                    className="w-32 rounded border px-2 py-1 text-right"
+                  />
+                </label>
+              ))}
+            </div>
+            <div className="space-y-2">
+              <p className="text-sm font-medium">{t('cashReconciliation')}</p>
+              {([
+                ['counted', t('actualCash'), shift.cashCounted],
+                ['card', t('cardMobile'), shift.cardAmount],
+                ['expenses', t('expenses'), shift.expensesAmount],
+              ] as const).map(([key, label, current]) => (
+                <label key={key} className="flex items-center justify-between gap-2 text-sm">
+                  <span>{label}</span>
+                  <input
+                    type="number"
+                    step="1"
+                    placeholder={String(Number(current || 0))}
+                    value={cashFields[key] ?? ''}
+                    onChange={(e) => setCashFields((v) => ({ ...v, [key]: e.target.value }))}
+                    className="w-32 rounded border px-2 py-1 text-right"
+                  />
+                </label>
+              ))}
+              {paymentMethods.map((m) => (
+                <label key={m.code} className="flex items-center justify-between gap-2 text-sm">
+                  <span>{m.name}</span>
+                  <input
+                    type="number"
+                    step="1"
+                    placeholder={String(Number(shiftPayments.find((p) => p.method === m.code)?.amount || 0))}
+                    value={tenderFields[m.code] ?? ''}
+                    onChange={(e) => setTenderFields((v) => ({ ...v, [m.code]: e.target.value }))}
+                    className="w-32 rounded border px-2 py-1 text-right"
+                  />
+                </label>
+              ))}
+            </div>
+          </div>
+          <textarea
+            value={correctionJustification}
+            onChange={(e) => setCorrectionJustification(e.target.value)}
+            placeholder={t('justification')}
+            rows={2}
+            className="w-full rounded border p-2 text-sm"
+          />
+          <textarea
+            value={correctionReason}
+            onChange={(e) => setCorrectionReason(e.target.value)}
+            placeholder={t('corrections.reasonPlaceholder')}
+            rows={2}
+            className="w-full rounded border p-2 text-sm"
+          />
+          <div className="flex gap-2">
+            <button
+              onClick={() => proposeMutation.mutate()}
+              disabled={correctionReason.trim().length < 10 || proposeMutation.isPending}
+              className="rounded bg-blue-600 px-4 py-2 text-sm text-white hover:bg-blue-700 disabled:opacity-50"
+            >
+              {t('corrections.submit')}
+            </button>
+            <button onClick={() => setShowCorrectionForm(false)} className="rounded border px-4 py-2 text-sm">
+              {t('cancel')}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Corrections */}
+      {corrections.length > 0 && (
+        <div className="rounded-lg bg-white p-6 shadow">
+          <div className="mb-4 flex items-center gap-2">
+            <PencilLine className="h-5 w-5 text-blue-600" />
+            <h2 className="text-lg font-bold">{t('corrections.history')}</h2>
+          </div>
+          <div className="space-y-4">
+            {corrections.map((c) => (
+              <div key={c.id} className="rounded border p-4 text-sm">
+                <div className="mb-2 flex flex-wrap items-center justify-between gap-2">
+                  <div className="flex items-center gap-2">
+                    <StatusBadge
+                      status={c.status === 'APPROVED' ? 'success' : c.status === 'REJECTED' ? 'neutral' : 'warning'}
+                      label={t(`corrections.status${c.status}`)}
+                    />
+                    <span className="text-gray-500">
+                      {c.requestedBy.fullName} ·{' '}
+                      {format.dateTime(new Date(c.createdAt), { dateStyle: 'short', timeStyle: 'short' })}
+                    </span>
+                  </div>
+                  {c.status === 'PENDING' && canCorrect && c.requestedBy.id !== user?.userId && (
+                    <div className="flex gap-2">
+                      <button
+                        onClick={() => reviewMutation.mutate({ correctionId: c.id, action: 'approve' })}
+                        disabled={reviewMutation.isPending}
+                        className="flex items-center gap-1 rounded border border-green-300 px-2 py-1 text-xs text-green-700 hover:bg-green-50"
+                      >
+                        <Check className="h-3 w-3" />
+                        {t('corrections.approve')}
+                      </button>
+                      <button
+                        onClick={() => handleRejectCorrection(c.id)}
+                        disabled={reviewMutation.isPending}
+                        className="flex items-center gap-1 rounded border border-red-300 px-2 py-1 text-xs text-red-700 hover:bg-red-50"
+                      >
+                        <X className="h-3 w-3" />
+                        {t('corrections.reject')}
+                      </button>
+                    </div>
+                  )}
+                </div>
+                <p className="mb-2">{c.reason}</p>
+                <table className="w-full text-xs">
+                  <tbody>
+                    {c.diff.sales.map((d) => {
+                      const sale = (shift.sales || []).find((s: any) => s.nozzleId === d.nozzleId);
+                      return (
+                        <tr key={d.nozzleId} className="border-b">
+                          <td className="py-1">
+                            P{sale?.nozzle?.pump?.code || '?'} — {sale?.nozzle?.side || '?'} · {t('endIndex')}
+                          </td>
+                          <td className="py-1 text-right font-mono">{formatChange(d.closingIndex)}</td>
+                        </tr>
+                      );
+                    })}
+                    {c.diff.tankDips.map((d) => {
+                      const dip = (shift.tankDips || []).find((x: any) => x.tankId === d.tankId);
+                      return (
+                        <tr key={d.tankId} className="border-b">
+                          <td className="py-1">
+                            {dip?.tank?.fuelType || '-'} · {t('closingLevel')}
+                          </td>
+                          <td className="py-1 text-right font-mono">{formatChange(d.closingLevel)}</td>
+                        </tr>
+                      );
+                    })}
+                    {(c.diff.tenders || []).map((d) => (
+                      <tr key={d.method} className="border-b">
+                        <td className="py-1">{paymentMethodLabel(d.method, paymentMethods)}</td>
+                        <td className="py-1 text-right font-mono">{formatChange(d.amount)}</td>
+                      </tr>
+                    ))}
+                    {Object.entries(c.diff.totals)
+                      .filter(([, v]) => v.before !== v.after)
+                      .map(([key, v]) => (
+                        <tr key={key} className="border-b font-medium">
+                          <td className="py-1">{t(`corrections.totals.${key}`)}</td>
+                          <td className="py-1 text-right font-mono">{formatChange(v)}</td>
+                        </tr>
+                      ))}
+                  </tbody>
+                </table>
+                {c.reviewedBy && (
+                  <p className="mt-2 text-xs text-gray-500">
+                    {c.reviewedBy.fullName}
+                    {c.reviewComment && `: ${c.reviewComment}`}
+                  </p>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Cash handovers */}
+      {(() => {
+        const handoverType: CashHandover['type'] | null =
+          shift.status === 'OPEN'
+            ? 'SAFE_DROP'
+            : handovers.some((h) => h.type === 'CLOSING_ENVELOPE')
+              ? null
+              : 'CLOSING_ENVELOPE';
+        const canHandOver = !!user && HANDOVER_ROLES.includes(user.role) && handoverType !== null;
+
+        if (handovers.length === 0 && !canHandOver) return null;
+        return (
+          <div className="rounded-lg bg-white p-6 shadow">
+            <div className="mb-4 flex items-center gap-2">
+              <Landmark className="h-5 w-5 text-blue-600" />
+              <h2 className="text-lg font-bold">{t('handovers.title')}</h2>
+            </div>
+            {handovers.length === 0 ? (
+              <p className="mb-4 text-sm text-gray-500">{t('handovers.none')}</p>
+            ) : (
+              <table className="mb-4 w-full text-sm">
+                <tbody>
+                  {handovers.map((h) => (
+                    <tr key={h.id} className="border-b">
+                      <td className="py-2">
+                        {t(h.type === 'SAFE_DROP' ? 'handovers.safeDrop' : 'handovers.closingEnvelope')}
+                        {h.envelopeNumber && ` #${h.envelopeNumber}`}
+                      </td>
+                      <td className="py-2 text-gray-500">
+                        {h.handedBy.fullName} ·{' '}
+                        {format.dateTime(new Date(h.createdAt), { timeStyle: 'short' })}
+                      </td>
+                      <td className="py-2 text-right font-medium">{format.number(Number(h.amount))} FCFA</td>
+                      <td className="py-2 text-right">
+                        {h.receivedBy ? (
+                          <span className="text-xs text-green-700">
+                            {t('handovers.received', { name: h.receivedBy.fullName })}
+                          </span>
+                        ) : user && RECEIVE_ROLES.includes(user.role) && h.handedBy.id !== user.userId ? (
+                          <button
+                            onClick={() => receiveMutation.mutate(h.id)}
+                            disabled={receiveMutation.isPending}
+                            className="flex items-center gap-1 rounded border border-green-300 px-2 py-1 text-xs text-green-700 hover:bg-green-50"
+                          >
+                            <Check className="h-3 w-3" />
+                            {t('handovers.receive')}
+                          </button>
+                        ) : (
+                          <span className="text-xs text-amber-700">{t('handovers.pending')}</span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+            {canHandOver && handoverType && (
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <span className="font-medium">
+                  {t(handoverType === 'SAFE_DROP' ? 'handovers.safeDrop' : 'handovers.closingEnvelope')}
+                </span>
+                <input
+                  type="number"
+                  min={0}
+                  placeholder={t('handovers.amount')}
+                  value={handoverAmount}
+                  onChange={(e) => setHandoverAmount(e.target.value)}
+                  className="w-36 rounded border px-2 py-1 text-right"
+                />
+                <input
+                  placeholder={t('handovers.envelopeNumber')}
+                  value={envelopeNumber}
+                  onChange={(e) => setEnvelopeNumber(e.target.value)}
+                  className="w-36 rounded border px-2 py-1"
+                />
+                <button
+                  onClick={() => handoverMutation.mutate(handoverType)}
+                  disabled={!(Number(handoverAmount) > 0) || handoverMutation.isPending}
+                  className="rounded bg-blue-600 px-3 py-1 text-white hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {t('handovers.record')}
+                </button>
+              </div>
+            )}
+          </div>
+        );
+      })()}
+
       {/* Meta info */}
       <div className="rounded bg-gray-50 p-4 text-xs text-gray-500">
         <div className="flex flex-wrap gap-6">
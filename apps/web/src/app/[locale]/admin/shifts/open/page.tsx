@@ -1,5 +1,6 @@
 'use client';
 
+import { useEffect } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { openShiftSchema, type OpenShiftInput } from '@alcom/shared/src/schemas/shift.schema';
@@ -8,6 +9,7 @@ import { useRouter } from 'next/navigation';
 import { toast } from 'sonner';
 import { useTranslations } from 'next-intl';
 import { useAuthStore } from '@/stores/auth-store';
+import { useShiftPatterns, shiftTypeLabel, shiftPatternHours } from '@/lib/shift-patterns';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { AlertTriangle, CheckCircle, Fuel } from 'lucide-react';
 
@@ -44,6 +46,8 @@ export default function OpenShiftPage() {
     register,
     handleSubmit,
     watch,
+    setValue,
+    getValues,
     formState: { errors },
   } = useForm<OpenShiftInput>({
     resolver: zodResolver(openShiftSchema),
@@ -54,6 +58,14 @@ export default function OpenShiftPage() {
     },
   });
 
+  // Shift types offered are the selected station's shift patterns
+  const patterns = useShiftPatterns(watch('stationId'));
+  useEffect(() => {
+    if (patterns.length > 0 && !patterns.some((p) => p.code === getValues('shiftType'))) {
+      setValue('shiftType', patterns[0]!.code);
+    }
+  }, [patterns, getValues, setValue]);
+
   const mutation = useMutation({
     mutationFn: (data: OpenShiftInput) => api.post<any>('/shifts/open', data),
     onSuccess: (result: any) => {
@@ -79,7 +91,7 @@ export default function OpenShiftPage() {
           <h2 className="text-lg font-bold">{t('shiftAlreadyOpen')}</h2>
         </div>
         <p className="mb-4 text-gray-600">
-          {t('shiftAlreadyOpenDesc')} ({shift.shiftType === 'MORNING' ? t('morning') : t('evening')} - {shift.shiftDate}).
+          {t('shiftAlreadyOpenDesc')} ({shiftTypeLabel(shift.shiftType, t, patterns)} - {shift.shiftDate}).
         </p>
         <div className="flex gap-2">
           <button
@@ -140,8 +152,11 @@ export default function OpenShiftPage() {
             <div>
               <label className="mb-1 block text-sm font-medium">{t('shiftType')}</label>
               <select {...register('shiftType')} className="w-full rounded border p-2">
-                <option value="MORNING">🌅 {t('morning')}</option>
-                <option value="EVENING">🌙 {t('evening')}</option>
+                {patterns.map((p) => (
+                  <option key={p.code} value={p.code}>
+                    {p.name} ({shiftPatternHours(p)})
+                  </option>
+                ))}
               </select>
               {errors.shiftType && (
                 <p className="text-sm text-red-500">{errors.shiftType.message}</p>
@@ -12,6 +12,7 @@ import { Plus, Search, Filter } from 'lucide-react';
 import { CsvDownloadButton } from '@/components/shared/csv-download-button';
 import { useState } from 'react';
 import { cn } from '@/lib/utils';
+import { shiftTypeLabel } from '@/lib/shift-patterns';
 
 export default function ShiftsPage() {
   const t = useTranslations('Shifts');
@@ -66,7 +67,7 @@ export default function ShiftsPage() {
       key: 'shiftType',
       header: t('shiftType'),
       render: (s: any) => (
-        <span>{s.shiftType === 'MORNING' ? `🌅 ${t('morning')}` : `🌙 ${t('evening')}`}</span>
+        <span>{shiftTypeLabel(s.shiftType, t)}</span>
       ),
     },
     ...(isGlobalRole
@@ -247,7 +248,7 @@ export default function ShiftsPage() {
                 <StatusBadge status={sm.status} label={sm.label} />
               </div>
               <div className="mt-1 text-sm text-gray-500">
-                {s.shiftType === 'MORNING' ? `🌅 ${t('morning')}` : `🌙 ${t('evening')}`}
+                {shiftTypeLabel(s.shiftType, t)}
                 {s.station && ` • ${s.station.name}`}
               </div>
               {s.status === 'CLOSED' && (
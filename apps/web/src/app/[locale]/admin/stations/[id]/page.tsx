@@ -13,12 +13,17 @@ import {
   type CreateTankInput,
   createPumpSchema,
   type CreatePumpInput,
+  recordMeterReplacementSchema,
+  type RecordMeterReplacementInput,
+  recordCalibrationTestSchema,
+  type RecordCalibrationTestInput,
 } from '@alcom/shared/src/schemas/station.schema';
 import { useTranslations, useLocale } from 'next-intl';
 import { StatusBadge } from '@/components/shared/status-badge';
+import { usePriceZones } from '@/lib/price-zones';
 import {
   Fuel, Gauge, Users, Settings, Plus, Trash2, Edit, ArrowLeft,
-  Droplets, AlertTriangle,
+  Droplets, AlertTriangle, Ruler, RefreshCw, FlaskConical, History,
 } from 'lucide-react';
 import Link from 'next/link';
 
@@ -28,12 +33,15 @@ interface Tank {
   capacity: number;
   currentLevel: number;
   version: number;
+  _count?: { calibrationPoints: number };
 }
 
 interface Nozzle {
   id: string;
   side: string;
   meterIndex: number;
+  meterType: 'ELECTRONIC' | 'MECHANICAL';
+  rolloverValue: number;
 }
 
 interface Pump {
@@ -44,6 +52,19 @@ interface Pump {
   nozzles: Nozzle[];
 }
 
+interface CalibrationTest {
+  id: string;
+  testType: 'INTERNAL' | 'OFFICIAL';
+  dispensedVolume: number;
+  measuredVolume: number;
+  errorPercent: number;
+  passed: boolean;
+  returnedToTank: boolean;
+  testedAt: string;
+  nozzle: { id: string; side: string };
+  testedBy: { id: string; fullName: string };
+}
+
 interface Agent {
   id: string;
   fullName: string;
@@ -57,6 +78,8 @@ interface StationDetail {
   name: string;
   isActive: boolean;
   settings: any;
+  priceZoneId: string | null;
+  priceZone: { id: string; code: string; name: string } | null;
   tanks: Tank[];
   pumps: Pump[];
   users: Agent[];
@@ -116,9 +139,10 @@ export default function StationDetailPage({ params }: { params: { id: string } }
   } = useForm<UpdateStationInput>({
     resolver: zodResolver(updateStationSchema),
     values: station
-      ? { name: station.name, isActive: station.isActive }
+      ? { name: station.name, isActive: station.isActive, priceZoneId: station.priceZoneId }
       : undefined,
   });
+  const zones = usePriceZones();
 
   const updateMutation = useMutation({
     mutationFn: (data: UpdateStationInput) => api.put(`/stations/${id}`, data),
@@ -173,6 +197,93 @@ export default function StationDetailPage({ params }: { params: { id: string } }
     onSuccess: () => queryClient.invalidateQueries({ queryKey: ['station', id] }),
   });
 
+  // ─── Tank calibration (one "height;volume" pair per line) ───
+  const [calibrationTankId, setCalibrationTankId] = useState<string | null>(null);
+  const [calibrationText, setCalibrationText] = useState('');
+
+  const openCalibration = async (tankId: string) => {
+    setCalibrationTankId(tankId);
+    setCalibrationText('');
+    const res = await api.get<any>(`/stations/${id}/tanks/${tankId}/calibration`);
+    const points: { height: number; volume: number }[] = (res as any).data || res || [];
+    setCalibrationText(points.map((p) => `${Number(p.height)};${Number(p.volume)}`).join('\n'));
+  };
+
+  const calibrationMutation = useMutation({
+    mutationFn: ({ tankId, text }: { tankId: string; text: string }) => {
+      const points = text
+        .split(/\r?\n/)
+        .map((line) => line.trim())
+        .filter(Boolean)
+        .map((line) => {
+          const [height, volume] = line.split(/[;,\t]/).map((v) => Number(v.trim()));
+          return { height, volume };
+        });
+      return api.put(`/stations/${id}/tanks/${tankId}/calibration`, { points });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['station', id] });
+      setCalibrationTankId(null);
+    },
+  });
+
+  // ─── Nozzle meter replacement ───
+  const [replacingNozzle, setReplacingNozzle] = useState<Nozzle | null>(null);
+  const meterForm = useForm<RecordMeterReplacementInput>({
+    resolver: zodResolver(recordMeterReplacementSchema),
+  });
+
+  const openMeterReplacement = (nozzle: Nozzle) => {
+    setReplacingNozzle(nozzle);
+    meterForm.reset({
+      oldFinalIndex: Number(nozzle.meterIndex),
+      newStartIndex: 0,
+      meterType: nozzle.meterType,
+      rolloverValue: Number(nozzle.rolloverValue),
+      reason: '',
+    });
+  };
+
+  const meterReplacementMutation = useMutation({
+    mutationFn: ({ nozzleId, data }: { nozzleId: string; data: RecordMeterReplacementInput }) =>
+      api.post(`/nozzles/${nozzleId}/meter-replacements`, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['station', id] });
+      setReplacingNozzle(null);
+    },
+  });
+
+  // ─── Nozzle calibration tests ───
+  const [testingNozzleId, setTestingNozzleId] = useState<string | null>(null);
+  const [historyPumpId, setHistoryPumpId] = useState<string | null>(null);
+  const testForm = useForm<RecordCalibrationTestInput>({
+    resolver: zodResolver(recordCalibrationTestSchema),
+  });
+
+  const openCalibrationTest = (nozzleId: string) => {
+    setTestingNozzleId(nozzleId);
+    testForm.reset({ testType: 'INTERNAL', dispensedVolume: 20, measuredVolume: 20, returnedToTank: true, notes: '' });
+  };
+
+  const calibrationTestMutation = useMutation({
+    mutationFn: ({ nozzleId, data }: { nozzleId: string; data: RecordCalibrationTestInput }) =>
+      api.post(`/nozzles/${nozzleId}/calibration-tests`, data),
+    onSuccess: (_data, { nozzleId }) => {
+      const pump = station?.pumps.find((p) => p.nozzles.some((n) => n.id === nozzleId));
+      if (pump) queryClient.invalidateQueries({ queryKey: ['pump-calibration-tests', pump.id] });
+      setTestingNozzleId(null);
+    },
+  });
+
+  const { data: calibrationTests } = useQuery<CalibrationTest[]>({
+    queryKey: ['pump-calibration-tests', historyPumpId],
+    queryFn: async () => {
+      const res = await api.get<any>(`/pumps/${historyPumpId}/calibration-tests`);
+      return (res as any).data || res;
+    },
+    enabled: !!historyPumpId,
+  });
+
   const deletePumpMutation = useMutation({
     mutationFn: (pumpId: string) => api.delete(`/stations/${id}/pumps/${pumpId}`),
     onSuccess: () => queryClient.invalidateQueries({ queryKey: ['station', id] }),
@@ -237,7 +348,10 @@ export default function StationDetailPage({ params }: { params: { id: string } }
                 label={station.isActive ? t('active') : t('inactive')}
               />
             </div>
-            <p className="font-mono text-sm text-muted-foreground">{station.code}</p>
+            <p className="font-mono text-sm text-muted-foreground">
+              {station.code}
+              {station.priceZone && ` · ${t('priceZone')}: ${station.priceZone.name}`}
+            </p>
           </div>
         </div>
         <div className="flex gap-2">
@@ -283,6 +397,20 @@ export default function StationDetailPage({ params }: { params: { id: string } }
                   className="w-full rounded-md border bg-background px-3 py-2.5 text-base focus:outline-none focus:ring-2 focus:ring-primary"
                 />
               </div>
+              <div>
+                <label className="mb-1 block text-sm font-medium">{t('priceZone')}</label>
+                <select
+                  {...register('priceZoneId', { setValueAs: (v) => v || null })}
+                  className="w-full rounded-md border bg-background px-3 py-2.5 text-base focus:outline-none focus:ring-2 focus:ring-primary"
+                >
+                  <option value="">{t('noPriceZone')}</option>
+                  {zones.map((z) => (
+                    <option key={z.id} value={z.id}>
+                      {z.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
               <div className="flex items-center gap-2 pt-6">
                 <input type="checkbox" {...register('isActive')} id="isActive" className="h-4 w-4" />
                 <label htmlFor="isActive" className="text-sm font-medium">
@@ -412,6 +540,13 @@ export default function StationDetailPage({ params }: { params: { id: string } }
                       {percent < 20 && (
                         <AlertTriangle className="h-4 w-4 text-red-500" />
                       )}
+                      <button
+                        onClick={() => openCalibration(tank.id)}
+                        title={t('calibration')}
+                        className={`rounded p-1 hover:bg-muted ${tank._count?.calibrationPoints ? 'text-primary' : 'text-muted-foreground'}`}
+                      >
+                        <Ruler className="h-4 w-4" />
+                      </button>
                       <button
                         onClick={() => {
                           if (confirm(t('deleteTankConfirm')))
@@ -427,6 +562,46 @@ export default function StationDetailPage({ params }: { params: { id: string } }
                     level={Number(tank.currentLevel)}
                     capacity={Number(tank.capacity)}
                   />
+                  <p className="mt-2 text-xs text-muted-foreground">
+                    {tank._count?.calibrationPoints
+                      ? t('calibrationPoints', { count: tank._count.calibrationPoints })
+                      : t('noCalibration')}
+                  </p>
+                  {calibrationTankId === tank.id && (
+                    <div className="mt-3 space-y-2">
+                      <label className="block text-sm font-medium">{t('calibration')}</label>
+                      <p className="text-xs text-muted-foreground">{t('calibrationHint')}</p>
+                      <textarea
+                        rows={6}
+                        value={calibrationText}
+                        onChange={(e) => setCalibrationText(e.target.value)}
+                        placeholder={'0;0\n50;4200\n100;9800'}
+                        className="w-full rounded-md border bg-background px-3 py-2 font-mono text-sm"
+                      />
+                      <div className="flex justify-end gap-2">
+                        <button
+                          type="button"
+                          onClick={() => setCalibrationTankId(null)}
+                          className="rounded-md border px-3 py-1.5 text-sm hover:bg-muted"
+                        >
+                          {t('cancel')}
+                        </button>
+                        <button
+                          type="button"
+                          disabled={calibrationMutation.isPending}
+                          onClick={() => calibrationMutation.mutate({ tankId: tank.id, text: calibrationText })}
+                          className="rounded-md bg-primary px-3 py-1.5 text-sm text-primary-foreground disabled:opacity-50"
+                        >
+                          {calibrationMutation.isPending ? t('saving') : t('save')}
+                        </button>
+                      </div>
+                      {calibrationMutation.error && (
+                        <p className="text-sm text-destructive">
+                          {(calibrationMutation.error as any)?.message}
+                        </p>
+                      )}
+                    </div>
+                  )}
                 </div>
               );
             })}
@@ -528,19 +703,219 @@ export default function StationDetailPage({ params }: { params: { id: string } }
                 </p>
                 <div className="space-y-1">
                   {pump.nozzles.map((nozzle) => (
-                    <div
-                      key={nozzle.id}
-                      className="flex items-center justify-between rounded bg-muted/30 px-2 py-1 text-sm"
-                    >
-                      <span>
-                        {t('nozzle')} {nozzle.side}
-                      </span>
-                      <span className="font-mono text-muted-foreground">
-                        {Number(nozzle.meterIndex).toFixed(2)}
-                      </span>
+                    <div key={nozzle.id}>
+                      <div className="flex items-center justify-between rounded bg-muted/30 px-2 py-1 text-sm">
+                        <span>
+                          {t('nozzle')} {nozzle.side}
+                          <span className="ml-1 text-xs text-muted-foreground">
+                            {t(`meterTypes.${nozzle.meterType}`)} · {t('rolloverAt', { value: Number(nozzle.rolloverValue).toLocaleString() })}
+                          </span>
+                        </span>
+                        <span className="flex items-center gap-1">
+                          <span className="font-mono text-muted-foreground">
+                            {Number(nozzle.meterIndex).toFixed(2)}
+                          </span>
+                          <button
+                            type="button"
+                            title={t('calibrationTest')}
+                            onClick={() => openCalibrationTest(nozzle.id)}
+                            className="rounded p-1 text-muted-foreground hover:bg-muted hover:text-foreground"
+                          >
+                            <FlaskConical className="h-3.5 w-3.5" />
+                          </button>
+                          <button
+                            type="button"
+                            title={t('replaceMeter')}
+                            onClick={() => openMeterReplacement(nozzle)}
+                            className="rounded p-1 text-muted-foreground hover:bg-muted hover:text-foreground"
+                          >
+                            <RefreshCw className="h-3.5 w-3.5" />
+                          </button>
+                        </span>
+                      </div>
+                      {testingNozzleId === nozzle.id && (
+                        <form
+                          onSubmit={testForm.handleSubmit((data) =>
+                            calibrationTestMutation.mutate({ nozzleId: nozzle.id, data }),
+                          )}
+                          className="mt-2 space-y-2 rounded-lg border bg-muted/20 p-3"
+                        >
+                          <p className="text-xs text-muted-foreground">{t('calibrationTestHint')}</p>
+                          <div className="grid grid-cols-2 gap-2">
+                            <div>
+                              <label className="mb-1 block text-xs font-medium">{t('dispensedVolume')}</label>
+                              <input
+                                type="number"
+                                step="0.001"
+                                {...testForm.register('dispensedVolume', { valueAsNumber: true })}
+                                className="w-full rounded-md border bg-background px-2 py-1.5 text-sm"
+                              />
+                            </div>
+                            <div>
+                              <label className="mb-1 block text-xs font-medium">{t('measuredVolume')}</label>
+                              <input
+                                type="number"
+                                step="0.001"
+                                {...testForm.register('measuredVolume', { valueAsNumber: true })}
+                                className="w-full rounded-md border bg-background px-2 py-1.5 text-sm"
+                              />
+                            </div>
+                            <div>
+                              <label className="mb-1 block text-xs font-medium">{t('testType')}</label>
+                              <select
+                                {...testForm.register('testType')}
+                                className="w-full rounded-md border bg-background px-2 py-1.5 text-sm"
+                              >
+                                <option value="INTERNAL">{t('testTypes.INTERNAL')}</option>
+                                <option value="OFFICIAL">{t('testTypes.OFFICIAL')}</option>
+                              </select>
+                            </div>
+                            <label className="flex items-end gap-2 pb-1.5 text-xs font-medium">
+                              <input type="checkbox" {...testForm.register('returnedToTank')} />
+                              {t('returnedToTank')}
+                            </label>
+                          </div>
+                          <input
+                            {...testForm.register('notes')}
+                            placeholder={t('notes')}
+                            className="w-full rounded-md border bg-background px-2 py-1.5 text-sm"
+                          />
+                          <div className="flex justify-end gap-2">
+                            <button
+                              type="button"
+                              onClick={() => setTestingNozzleId(null)}
+                              className="rounded-md border px-3 py-1.5 text-sm hover:bg-muted"
+                            >
+                              {t('cancel')}
+                            </button>
+                            <button
+                              type="submit"
+                              disabled={calibrationTestMutation.isPending}
+                              className="rounded-md bg-primary px-3 py-1.5 text-sm text-primary-foreground disabled:opacity-50"
+                            >
+                              {calibrationTestMutation.isPending ? t('saving') : t('save')}
+                            </button>
+                          </div>
+                          {calibrationTestMutation.error && (
+                            <p className="text-sm text-destructive">
+                              {(calibrationTestMutation.error as any)?.message}
+                            </p>
+                          )}
+                        </form>
+                      )}
+                      {replacingNozzle?.id === nozzle.id && (
+                        <form
+                          onSubmit={meterForm.handleSubmit((data) =>
+                            meterReplacementMutation.mutate({ nozzleId: nozzle.id, data }),
+                          )}
+                          className="mt-2 space-y-2 rounded-lg border bg-muted/20 p-3"
+                        >
+                          <p className="text-xs text-muted-foreground">{t('replaceMeterHint')}</p>
+                          <div className="grid grid-cols-2 gap-2">
+                            <div>
+                              <label className="mb-1 block text-xs font-medium">{t('oldFinalIndex')}</label>
+                              <input
+                                type="number"
+                                step="0.0001"
+                                {...meterForm.register('oldFinalIndex', { valueAsNumber: true })}
+                                className="w-full rounded-md border bg-background px-2 py-1.5 text-sm"
+                              />
+                            </div>
+                            <div>
+                              <label className="mb-1 block text-xs font-medium">{t('newStartIndex')}</label>
+                              <input
+                                type="number"
+                                step="0.0001"
+                                {...meterForm.register('newStartIndex', { valueAsNumber: true })}
+                                className="w-full rounded-md border bg-background px-2 py-1.5 text-sm"
+                              />
+                            </div>
+                            <div>
+                              <label className="mb-1 block text-xs font-medium">{t('meterType')}</label>
+                              <select
+                                {...meterForm.register('meterType')}
+                                className="w-full rounded-md border bg-background px-2 py-1.5 text-sm"
+                              >
+                                <option value="ELECTRONIC">{t('meterTypes.ELECTRONIC')}</option>
+                                <option value="MECHANICAL">{t('meterTypes.MECHANICAL')}</option>
+                              </select>
+                            </div>
+                            <div>
+                              <label className="mb-1 block text-xs font-medium">{t('rolloverValue')}</label>
+                              <input
+                                type="number"
+                                step="0.0001"
+                                {...meterForm.register('rolloverValue', { valueAsNumber: true })}
+                                className="w-full rounded-md border bg-background px-2 py-1.5 text-sm"
+                              />
+                            </div>
+                          </div>
+                          <div>
+                            <label className="mb-1 block text-xs font-medium">{t('replacementReason')}</label>
+                            <input
+                              {...meterForm.register('reason')}
+                              className="w-full rounded-md border bg-background px-2 py-1.5 text-sm"
+                            />
+                            {meterForm.formState.errors.reason && (
+                              <p className="mt-1 text-xs text-destructive">
+                                {meterForm.formState.errors.reason.message}
+                              </p>
+                            )}
+                          </div>
+                          <div className="flex justify-end gap-2">
+                            <button
+                              type="button"
+                              onClick={() => setReplacingNozzle(null)}
+                              className="rounded-md border px-3 py-1.5 text-sm hover:bg-muted"
+                            >
+                              {t('cancel')}
+                            </button>
+                            <button
+                              type="submit"
+                              disabled={meterReplacementMutation.isPending}
+                              className="rounded-md bg-primary px-3 py-1.5 text-sm text-primary-foreground disabled:opacity-50"
+                            >
+                              {meterReplacementMutation.isPending ? t('saving') : t('replaceMeter')}
+                            </button>
+                          </div>
+                          {meterReplacementMutation.error && (
+                            <p className="text-sm text-destructive">
+                              {(meterReplacementMutation.error as any)?.message}
+                            </p>
+                          )}
+                        </form>
+                      )}
                     </div>
                   ))}
                 </div>
+                <button
+                  type="button"
+                  onClick={() => setHistoryPumpId(historyPumpId === pump.id ? null : pump.id)}
+                  className="mt-2 inline-flex items-center gap-1 text-xs text-primary hover:underline"
+                >
+                  <History className="h-3.5 w-3.5" />
+                  {t('calibrationHistory')}
+                </button>
+                {historyPumpId === pump.id && (
+                  <div className="mt-2 space-y-1">
+                    {!calibrationTests?.length ? (
+                      <p className="text-xs text-muted-foreground">{t('noCalibrationTests')}</p>
+                    ) : (
+                      calibrationTests.map((test) => (
+                        <div key={test.id} className="flex items-center justify-between gap-2 text-xs">
+                          <span>
+                            {new Date(test.testedAt).toLocaleDateString(locale)} · {t('nozzle')} {test.nozzle.side} ·{' '}
+                            {Number(test.dispensedVolume).toFixed(2)} / {Number(test.measuredVolume).toFixed(2)} L
+                          </span>
+                          <StatusBadge
+                            status={test.passed ? 'success' : 'danger'}
+                            label={`${Number(test.errorPercent) > 0 ? '+' : ''}${Number(test.errorPercent).toFixed(2)} %`}
+                          />
+                        </div>
+                      ))
+                    )}
+                  </div>
+                )}
               </div>
             ))}
           </div>
@@ -3,9 +3,10 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { api } from '@/lib/api-client';
 import { useRouter } from 'next/navigation';
-import { useForm } from 'react-hook-form';
+import { useForm, useFieldArray } from 'react-hook-form';
 import { useTranslations } from 'next-intl';
-import { ArrowLeft, Settings, Save } from 'lucide-react';
+import { ArrowLeft, Settings, Save, Plus, Trash2 } from 'lucide-react';
+import type { PaymentMethod, ShiftPattern } from '@alcom/shared/src/schemas/shift.schema';
 
 interface StationSettings {
   id: string;
@@ -20,6 +21,14 @@ interface StationSettings {
       morning: string;
       evening: string;
     };
+    cashDeposit: {
+      maxUndepositedDays: number;
+    };
+    wetStock: {
+      lossThresholdPercent: number;
+    };
+    shiftPatterns: ShiftPattern[];
+    paymentMethods: PaymentMethod[];
   };
 }
 
@@ -32,6 +41,14 @@ interface SettingsFormData {
     morning: string;
     evening: string;
   };
+  cashDeposit: {
+    maxUndepositedDays: number;
+  };
+  wetStock: {
+    lossThresholdPercent: number;
+  };
+  shiftPatterns: ShiftPattern[];
+  paymentMethods: PaymentMethod[];
 }
 
 export default function StationSettingsPage({ params }: { params: { id: string } }) {
@@ -50,15 +67,32 @@ export default function StationSettingsPage({ params }: { params: { id: string }
 
   const {
     register,
+    control,
     handleSubmit,
     formState: { isSubmitting, isDirty },
   } = useForm<SettingsFormData>({
     values: station?.settings,
   });
+  const { fields: shiftFields, append: appendShift, remove: removeShift } = useFieldArray({
+    control,
+    name: 'shiftPatterns',
+  });
+  const { fields: paymentFields, append: appendPayment, remove: removePayment } = useFieldArray({
+    control,
+    name: 'paymentMethods',
+  });
 
   const mutation = useMutation({
     mutationFn: (data: SettingsFormData) =>
-      api.put(`/stations/${id}/settings`, data),
+      api.put(`/stations/${id}/settings`, {
+        ...data,
+        shiftPatterns: data.shiftPatterns.map((p) => ({
+          ...p,
+          code: p.code.trim().toUpperCase(),
+          crossesMidnight: p.endTime <= p.startTime,
+        })),
+        paymentMethods: data.paymentMethods.map((m) => ({ ...m, code: m.code.trim().toUpperCase() })),
+      }),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['station-settings', id] });
       queryClient.invalidateQueries({ queryKey: ['station', id] });
@@ -134,29 +168,144 @@ export default function StationSettingsPage({ params }: { params: { id: string }
           </div>
         </div>
 
-        {/* Opening Hours */}
+        {/* Shift Patterns */}
+        <div className="rounded-xl border bg-card p-6 shadow-sm">
+          <h2 className="mb-1 text-lg font-semibold">{t('shiftPatterns')}</h2>
+          <p className="mb-4 text-sm text-muted-foreground">{t('shiftPatternsHint')}</p>
+          <div className="space-y-3">
+            <div className="hidden grid-cols-[1fr_2fr_1fr_1fr_auto] gap-3 text-xs font-medium text-muted-foreground sm:grid">
+              <span>{t('shiftCode')}</span>
+              <span>{t('shiftName')}</span>
+              <span>{t('shiftStart')}</span>
+              <span>{t('shiftEnd')}</span>
+              <span className="w-9" />
+            </div>
+            {shiftFields.map((field, index) => (
+              <div key={field.id} className="grid grid-cols-2 gap-3 sm:grid-cols-[1fr_2fr_1fr_1fr_auto]">
+                <input
+                  {...register(`shiftPatterns.${index}.code`, { required: true })}
+                  placeholder="NIGHT"
+                  className="rounded-md border bg-background px-3 py-2.5 text-base uppercase focus:outline-none focus:ring-2 focus:ring-primary"
+                />
+                <input
+                  {...register(`shiftPatterns.${index}.name`, { required: true })}
+                  className="rounded-md border bg-background px-3 py-2.5 text-base focus:outline-none focus:ring-2 focus:ring-primary"
+                />
+                <input
+                  type="time"
+                  {...register(`shiftPatterns.${index}.startTime`, { required: true })}
+                  className="rounded-md border bg-background px-3 py-2.5 text-base focus:outline-none focus:ring-2 focus:ring-primary"
+                />
+                <input
+                  type="time"
+                  {...register(`shiftPatterns.${index}.endTime`, { required: true })}
+                  className="rounded-md border bg-background px-3 py-2.5 text-base focus:outline-none focus:ring-2 focus:ring-primary"
+                />
+                <button
+                  type="button"
+                  onClick={() => removeShift(index)}
+                  disabled={shiftFields.length <= 1}
+                  className="rounded-md p-2 text-muted-foreground hover:bg-muted hover:text-destructive disabled:opacity-30"
+                >
+                  <Trash2 className="h-5 w-5" />
+                </button>
+              </div>
+            ))}
+            <button
+              type="button"
+              onClick={() =>
+                appendShift({ code: '', name: '', startTime: '22:00', endTime: '06:00', crossesMidnight: true })
+              }
+              className="inline-flex items-center gap-1 text-sm font-medium text-primary hover:underline"
+            >
+              <Plus className="h-4 w-4" />
+              {t('addShiftPattern')}
+            </button>
+            <p className="text-xs text-muted-foreground">{t('crossesMidnightHint')}</p>
+          </div>
+        </div>
+
+        {/* Payment Methods */}
         <div className="rounded-xl border bg-card p-6 shadow-sm">
-          <h2 className="mb-4 text-lg font-semibold">{t('openingHours')}</h2>
+          <h2 className="mb-1 text-lg font-semibold">{t('paymentMethods')}</h2>
+          <p className="mb-4 text-sm text-muted-foreground">{t('paymentMethodsHint')}</p>
+          <div className="space-y-3">
+            <div className="hidden grid-cols-[1fr_2fr_auto] gap-3 text-xs font-medium text-muted-foreground sm:grid">
+              <span>{t('paymentMethodCode')}</span>
+              <span>{t('paymentMethodName')}</span>
+              <span className="w-9" />
+            </div>
+            {paymentFields.map((field, index) => (
+              <div key={field.id} className="grid grid-cols-[1fr_2fr_auto] gap-3">
+                <input
+                  {...register(`paymentMethods.${index}.code`, { required: true })}
+                  placeholder="MTN_MOMO"
+                  className="rounded-md border bg-background px-3 py-2.5 text-base uppercase focus:outline-none focus:ring-2 focus:ring-primary"
+                />
+                <input
+                  {...register(`paymentMethods.${index}.name`, { required: true })}
+                  className="rounded-md border bg-background px-3 py-2.5 text-base focus:outline-none focus:ring-2 focus:ring-primary"
+                />
+                <button
+                  type="button"
+                  onClick={() => removePayment(index)}
+                  className="rounded-md p-2 text-muted-foreground hover:bg-muted hover:text-destructive"
+                >
+                  <Trash2 className="h-5 w-5" />
+                </button>
+              </div>
+            ))}
+            <button
+              type="button"
+              onClick={() => appendPayment({ code: '', name: '' })}
+              className="inline-flex items-center gap-1 text-sm font-medium text-primary hover:underline"
+            >
+              <Plus className="h-4 w-4" />
+              {t('addPaymentMethod')}
+            </button>
+          </div>
+        </div>
+
+        {/* Cash Deposit */}
+        <div className="rounded-xl border bg-card p-6 shadow-sm">
+          <h2 className="mb-4 text-lg font-semibold">{t('cashDeposit')}</h2>
           <div className="grid gap-4 sm:grid-cols-2">
             <div>
               <label className="mb-1 block text-sm font-medium">
-                {t('morningShift')}
+                {t('maxUndepositedDays')}
               </label>
               <input
-                type="time"
-                {...register('openingHours.morning')}
+                type="number"
+                min={1}
+                {...register('cashDeposit.maxUndepositedDays', { valueAsNumber: true })}
                 className="w-full rounded-md border bg-background px-3 py-2.5 text-base focus:outline-none focus:ring-2 focus:ring-primary"
               />
+              <p className="mt-1 text-xs text-muted-foreground">
+                {t('maxUndepositedDaysHint')}
+              </p>
             </div>
+          </div>
+        </div>
+
+        {/* Wet Stock */}
+        <div className="rounded-xl border bg-card p-6 shadow-sm">
+          <h2 className="mb-4 text-lg font-semibold">{t('wetStock')}</h2>
+          <div className="grid gap-4 sm:grid-cols-2">
             <div>
               <label className="mb-1 block text-sm font-medium">
-                {t('eveningShift')}
+                {t('lossThresholdPercent')}
               </label>
               <input
-                type="time"
-                {...register('openingHours.evening')}
+                type="number"
+                min={0.0001}
+                max={1}
+                step={0.0001}
+                {...register('wetStock.lossThresholdPercent', { valueAsNumber: true })}
                 className="w-full rounded-md border bg-background px-3 py-2.5 text-base focus:outline-none focus:ring-2 focus:ring-primary"
               />
+              <p className="mt-1 text-xs text-muted-foreground">
+                {t('lossThresholdPercentHint')}
+              </p>
             </div>
           </div>
         </div>
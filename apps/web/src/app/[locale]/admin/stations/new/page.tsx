@@ -38,6 +38,7 @@ export default function NewStationWizardPage() {
       settings: {
         tolerance: { cashVariance: 5000, stockVariance: 50 },
         openingHours: { morning: '06:00', evening: '18:00' },
+        cashDeposit: { maxUndepositedDays: 2 },
       },
       tanks: [],
       pumps: [],
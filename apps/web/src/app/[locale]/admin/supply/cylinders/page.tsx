@@ -0,0 +1,463 @@
+'use client';
+
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api, ApiError } from '@/lib/api-client';
+import { DataTable } from '@/components/shared/data-table';
+import { StatusBadge } from '@/components/shared/status-badge';
+import { useTranslations } from 'next-intl';
+import { toast } from 'sonner';
+import { Cylinder, Plus, Truck } from 'lucide-react';
+import { useAuthStore } from '@/stores/auth-store';
+
+interface CylinderType {
+  id: string;
+  brand: string;
+  sizeKg: string;
+  gasPrice: string;
+  depositPrice: string;
+  isActive: boolean;
+}
+
+interface CylinderStock {
+  id: string;
+  fullCount: number;
+  emptyCount: number;
+  cylinderType: CylinderType;
+  station: { id: string; code: string; name: string };
+}
+
+interface CylinderDelivery {
+  id: string;
+  fullReceived: number;
+  emptyReturned: number;
+  reference: string | null;
+  receivedAt: string;
+  cylinderType: { id: string; brand: string; sizeKg: string };
+  supplier: { id: string; name: string };
+  station: { id: string; code: string; name: string };
+  receivedBy: { id: string; fullName: string };
+}
+
+interface Station {
+  id: string;
+  code: string;
+  name: string;
+}
+
+const CATALOG_ROLES = ['SUPER_ADMIN', 'CEO', 'LOGISTICS', 'DCO'];
+
+const DELIVERY_ROLES = ['SUPER_ADMIN', 'LOGISTICS', 'DCO', 'STATION_MANAGER', 'CHEF_PISTE'];
+
+const STATION_ROLES = ['STATION_MANAGER', 'CHEF_PISTE'];
+
+const cylinderLabel = (c: { brand: string; sizeKg: string }) => `${c.brand} ${Number(c.sizeKg)} kg`;
+
+export default function CylindersPage() {
+  const t = useTranslations('Supply');
+  const queryClient = useQueryClient();
+  const user = useAuthStore((state) => state.user);
+  const canManageCatalog = !!user && CATALOG_ROLES.includes(user.role);
+  const canReceive = !!user && DELIVERY_ROLES.includes(user.role);
+  const isStationUser = !!user && STATION_ROLES.includes(user.role);
+
+  const [cylinderType, setCylinderType] = useState({ brand: '', sizeKg: '', gasPrice: '', depositPrice: '' });
+  const [delivery, setDelivery] = useState({
+    stationId: '',
+    cylinderTypeId: '',
+    supplierId: '',
+    fullReceived: '',
+    emptyReturned: '',
+    reference: '',
+  });
+
+  const { data: typesData } = useQuery({
+    queryKey: ['cylinder-types'],
+    queryFn: () => api.get<CylinderType[]>('/cylinders/types'),
+  });
+  const types: CylinderType[] = Array.isArray(typesData) ? typesData : [];
+
+  const { data: stockData, isLoading: stockLoading } = useQuery({
+    queryKey: ['cylinder-stock'],
+    queryFn: () => api.get<CylinderStock[]>('/cylinders/stock'),
+  });
+  const stocks: CylinderStock[] = Array.isArray(stockData) ? stockData : [];
+
+  const { data: deliveriesData, isLoading: deliveriesLoading } = useQuery({
+    queryKey: ['cylinder-deliveries'],
+    queryFn: () => api.get<{ data: CylinderDelivery[] }>('/cylinders/deliveries?limit=20'),
+  });
+  const deliveries: CylinderDelivery[] = (deliveriesData as any)?.data || [];
+
+  const { data: stationsData } = useQuery({
+    queryKey: ['stations'],
+    queryFn: () => api.get<{ data: Station[] }>('/stations?limit=100'),
+    enabled: canReceive && !isStationUser,
+  });
+  const stations: Station[] = (stationsData as any)?.data || [];
+
+  const { data: suppliersData } = useQuery({
+    queryKey: ['suppliers', 'active'],
+    queryFn: () => api.get<{ data: { id: string; name: string }[] }>('/suppliers?isActive=true&limit=100'),
+    enabled: canReceive,
+  });
+  const suppliers: { id: string; name: string }[] = (suppliersData as any)?.data || [];
+
+  const onMutationError = (err: ApiError) => toast.error(err.message);
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['cylinder-types'] });
+    queryClient.invalidateQueries({ queryKey: ['cylinder-stock'] });
+    queryClient.invalidateQueries({ queryKey: ['cylinder-deliveries'] });
+  };
+
+  const createTypeMutation = useMutation({
+    mutationFn: () =>
+      api.post('/cylinders/types', {
+        brand: cylinderType.brand,
+        sizeKg: Number(cylinderType.sizeKg),
+        gasPrice: Number(cylinderType.gasPrice),
+        depositPrice: Number(cylinderType.depositPrice),
+      }),
+    onSuccess: () => {
+      toast.success(t('cylinders.createSuccess'));
+      setCylinderType({ brand: '', sizeKg: '', gasPrice: '', depositPrice: '' });
+      invalidate();
+    },
+    onError: onMutationError,
+  });
+
+  const updateTypeMutation = useMutation({
+    mutationFn: ({ id, data }: { id: string; data: Partial<Record<'gasPrice' | 'depositPrice', number>> & { isActive?: boolean } }) =>
+      api.put(`/cylinders/types/${id}`, data),
+    onSuccess: () => {
+      toast.success(t('cylinders.updateSuccess'));
+      invalidate();
+    },
+    onError: onMutationError,
+  });
+
+  const deliveryMutation = useMutation({
+    mutationFn: () =>
+      api.post('/cylinders/deliveries', {
+        stationId: isStationUser ? user?.stationId : delivery.stationId,
+        cylinderTypeId: delivery.cylinderTypeId,
+        supplierId: delivery.supplierId,
+        fullReceived: Number(delivery.fullReceived || 0),
+        emptyReturned: Number(delivery.emptyReturned || 0),
+        ...(delivery.reference && { reference: delivery.reference }),
+      }),
+    onSuccess: () => {
+      toast.success(t('cylinders.deliverySuccess'));
+      setDelivery((d) => ({ ...d, cylinderTypeId: '', fullReceived: '', emptyReturned: '', reference: '' }));
+      invalidate();
+    },
+    onError: onMutationError,
+  });
+
+  const handlePriceChange = (item: CylinderType, field: 'gasPrice' | 'depositPrice') => {
+    const value = window.prompt(t(`cylinders.${field}`), String(Number(item[field])));
+    if (value !== null && Number(value) >= 0) updateTypeMutation.mutate({ id: item.id, data: { [field]: Number(value) } });
+  };
+
+  const stockColumns = [
+    {
+      key: 'station',
+      header: t('common.station'),
+      render: (item: CylinderStock) => <span className="font-medium">{item.station.code}</span>,
+    },
+    {
+      key: 'type',
+      header: t('cylinders.type'),
+      render: (item: CylinderStock) => <span>{cylinderLabel(item.cylinderType)}</span>,
+    },
+    {
+      key: 'full',
+      header: t('cylinders.full'),
+      render: (item: CylinderStock) => <span className="font-mono">{item.fullCount}</span>,
+    },
+    {
+      key: 'empty',
+      header: t('cylinders.empty'),
+      render: (item: CylinderStock) => <span className="font-mono">{item.emptyCount}</span>,
+    },
+  ];
+
+  const deliveryColumns = [
+    {
+      key: 'receivedAt',
+      header: t('common.date'),
+      render: (item: CylinderDelivery) => <span>{new Date(item.receivedAt).toLocaleDateString('fr-FR')}</span>,
+    },
+    {
+      key: 'station',
+      header: t('common.station'),
+      render: (item: CylinderDelivery) => <span className="font-medium">{item.station.code}</span>,
+    },
+    {
+      key: 'type',
+      header: t('cylinders.type'),
+      render: (item: CylinderDelivery) => <span>{cylinderLabel(item.cylinderType)}</span>,
+    },
+    {
+      key: 'movement',
+      header: t('cylinders.fullReceived') + ' / ' + t('cylinders.emptyReturned'),
+      render: (item: CylinderDelivery) => (
+        <span className="font-mono">
+          +{item.fullReceived} / -{item.emptyReturned}
+        </span>
+      ),
+    },
+    {
+      key: 'supplier',
+      header: t('cylinders.supplier'),
+      render: (item: CylinderDelivery) => (
+        <div className="text-xs">
+          <p>{item.supplier.name}</p>
+          {item.reference && <p className="text-muted-foreground">{item.reference}</p>}
+        </div>
+      ),
+    },
+  ];
+
+  const typeColumns = [
+    {
+      key: 'type',
+      header: t('cylinders.type'),
+      render: (item: CylinderType) => <span className="font-medium">{cylinderLabel(item)}</span>,
+    },
+    ...(['gasPrice', 'depositPrice'] as const).map((field) => ({
+      key: field,
+      header: t(`cylinders.${field}`),
+      render: (item: CylinderType) =>
+        canManageCatalog ? (
+          <button onClick={() => handlePriceChange(item, field)} className="font-mono underline decoration-dotted">
+            {Number(item[field]).toLocaleString('fr-FR')} FCFA
+          </button>
+        ) : (
+          <span className="font-mono">{Number(item[field]).toLocaleString('fr-FR')} FCFA</span>
+        ),
+    })),
+    {
+      key: 'status',
+      header: t('common.status'),
+      render: (item: CylinderType) =>
+        canManageCatalog ? (
+          <button onClick={() => updateTypeMutation.mutate({ id: item.id, data: { isActive: !item.isActive } })}>
+            <StatusBadge
+              status={item.isActive ? 'success' : 'neutral'}
+              label={item.isActive ? t('cylinders.active') : t('cylinders.inactive')}
+            />
+          </button>
+        ) : (
+          <StatusBadge
+            status={item.isActive ? 'success' : 'neutral'}
+            label={item.isActive ? t('cylinders.active') : t('cylinders.inactive')}
+          />
+        ),
+    },
+  ];
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="flex items-center gap-2 text-2xl font-bold">
+          <Cylinder className="h-6 w-6" />
+          {t('cylinders.title')}
+        </h1>
+        <p className="text-muted-foreground">{t('cylinders.subtitle')}</p>
+      </div>
+
+      {/* Supplier delivery */}
+      {canReceive && (
+        <div className="flex flex-wrap items-end gap-4 rounded-lg border bg-white p-4">
+          {!isStationUser && (
+            <div>
+              <label className="mb-1 block text-sm font-medium">{t('common.station')}</label>
+              <select
+                value={delivery.stationId}
+                onChange={(e) => setDelivery({ ...delivery, stationId: e.target.value })}
+                className="rounded-lg border bg-background px-3 py-2 text-sm"
+              >
+                <option value="">{t('cylinders.selectStation')}</option>
+                {stations.map((s) => (
+                  <option key={s.id} value={s.id}>
+                    {s.code} — {s.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+          <div>
+            <label className="mb-1 block text-sm font-medium">{t('cylinders.type')}</label>
+            <select
+              value={delivery.cylinderTypeId}
+              onChange={(e) => setDelivery({ ...delivery, cylinderTypeId: e.target.value })}
+              className="rounded-lg border bg-background px-3 py-2 text-sm"
+            >
+              <option value="">{t('cylinders.selectType')}</option>
+              {types
+                .filter((c) => c.isActive)
+                .map((c) => (
+                  <option key={c.id} value={c.id}>
+                    {cylinderLabel(c)}
+                  </option>
+                ))}
+            </select>
+          </div>
+          <div>
+            <label className="mb-1 block text-sm font-medium">{t('cylinders.supplier')}</label>
+            <select
+              value={delivery.supplierId}
+              onChange={(e) => setDelivery({ ...delivery, supplierId: e.target.value })}
+              className="rounded-lg border bg-background px-3 py-2 text-sm"
+            >
+              <option value="">{t('cylinders.selectSupplier')}</option>
+              {suppliers.map((s) => (
+                <option key={s.id} value={s.id}>
+                  {s.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="mb-1 block text-sm font-medium">{t('cylinders.fullReceived')}</label>
+            <input
+              type="number"
+              min={0}
+              step={1}
+              value={delivery.fullReceived}
+              onChange={(e) => setDelivery({ ...delivery, fullReceived: e.target.value })}
+              className="w-24 rounded-lg border bg-background px-3 py-2 text-sm"
+            />
+          </div>
+          <div>
+            <label className="mb-1 block text-sm font-medium">{t('cylinders.emptyReturned')}</label>
+            <input
+              type="number"
+              min={0}
+              step={1}
+              value={delivery.emptyReturned}
+              onChange={(e) => setDelivery({ ...delivery, emptyReturned: e.target.value })}
+              className="w-24 rounded-lg border bg-background px-3 py-2 text-sm"
+            />
+          </div>
+          <div>
+            <label className="mb-1 block text-sm font-medium">{t('cylinders.reference')}</label>
+            <input
+              value={delivery.reference}
+              onChange={(e) => setDelivery({ ...delivery, reference: e.target.value })}
+              className="w-32 rounded-lg border bg-background px-3 py-2 text-sm"
+            />
+          </div>
+          <button
+            onClick={() => deliveryMutation.mutate()}
+            disabled={
+              (!isStationUser && !delivery.stationId) ||
+              !delivery.cylinderTypeId ||
+              !delivery.supplierId ||
+              !(Number(delivery.fullReceived || 0) > 0 || Number(delivery.emptyReturned || 0) > 0) ||
+              deliveryMutation.isPending
+            }
+            className="flex items-center gap-2 rounded-lg bg-primary px-4 py-2 text-sm font-medium text-primary-foreground hover:bg-primary/90 disabled:opacity-50"
+          >
+            <Truck className="h-4 w-4" />
+            {t('cylinders.receive')}
+          </button>
+        </div>
+      )}
+
+      {/* Station stock */}
+      <div className="space-y-2">
+        <h2 className="text-lg font-semibold">{t('cylinders.stock')}</h2>
+        <DataTable
+          columns={stockColumns}
+          data={stocks}
+          keyExtractor={(item) => item.id}
+          emptyMessage={t('cylinders.noStock')}
+          isLoading={stockLoading}
+        />
+      </div>
+
+      {/* Deliveries */}
+      <div className="space-y-2">
+        <h2 className="text-lg font-semibold">{t('cylinders.deliveries')}</h2>
+        <DataTable
+          columns={deliveryColumns}
+          data={deliveries}
+          keyExtractor={(item) => item.id}
+          emptyMessage={t('cylinders.noDeliveries')}
+          isLoading={deliveriesLoading}
+        />
+      </div>
+
+      {/* Bottle sizes and prices */}
+      <div className="space-y-2">
+        <h2 className="text-lg font-semibold">{t('cylinders.catalog')}</h2>
+        {canManageCatalog && (
+          <div className="flex flex-wrap items-end gap-4 rounded-lg border bg-white p-4">
+            <div className="min-w-[160px] flex-1">
+              <label className="mb-1 block text-sm font-medium">{t('cylinders.brand')}</label>
+              <input
+                value={cylinderType.brand}
+                onChange={(e) => setCylinderType({ ...cylinderType, brand: e.target.value })}
+                className="w-full rounded-lg border bg-background px-3 py-2 text-sm"
+              />
+            </div>
+            <div>
+              <label className="mb-1 block text-sm font-medium">{t('cylinders.sizeKg')}</label>
+              <input
+                type="number"
+                min={0}
+                step="0.5"
+                value={cylinderType.sizeKg}
+                onChange={(e) => setCylinderType({ ...cylinderType, sizeKg: e.target.value })}
+                className="w-24 rounded-lg border bg-background px-3 py-2 text-sm"
+              />
+            </div>
+            <div>
+              <label className="mb-1 block text-sm font-medium">{t('cylinders.gasPrice')}</label>
+              <input
+                type="number"
+                min={0}
+                value={cylinderType.gasPrice}
+                onChange={(e) => setCylinderType({ ...cylinderType, gasPrice: e.target.value })}
+                className="w-28 rounded-lg border bg-background px-3 py-2 text-sm"
+              />
+            </div>
+            <div>
+              <label className="mb-1 block text-sm font-medium">{t('cylinders.depositPrice')}</label>
+              <input
+                type="number"
+                min={0}
+                value={cylinderType.depositPrice}
+                onChange={(e) => setCylinderType({ ...cylinderType, depositPrice: e.target.value })}
+                className="w-28 rounded-lg border bg-background px-3 py-2 text-sm"
+              />
+            </div>
+            <button
+              onClick={() => createTypeMutation.mutate()}
+              disabled={
+                cylinderType.brand.trim().length < 2 ||
+                !(Number(cylinderType.sizeKg) > 0) ||
+                cylinderType.gasPrice === '' ||
+                cylinderType.depositPrice === '' ||
+                createTypeMutation.isPending
+              }
+              className="flex items-center gap-2 rounded-lg bg-primary px-4 py-2 text-sm font-medium text-primary-foreground hover:bg-primary/90 disabled:opacity-50"
+            >
+              <Plus className="h-4 w-4" />
+              {t('cylinders.add')}
+            </button>
+          </div>
+        )}
+        <DataTable
+          columns={typeColumns}
+          data={types}
+          keyExtractor={(item) => item.id}
+          emptyMessage={t('cylinders.noTypes')}
+        />
+      </div>
+    </div>
+  );
+}
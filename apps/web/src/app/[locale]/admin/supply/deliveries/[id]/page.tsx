@@ -20,6 +20,7 @@ import {
   Fuel,
   ChevronDown,
   ChevronUp,
+  Route,
 } from 'lucide-react';
 
 interface Delivery {
@@ -28,6 +29,8 @@ interface Delivery {
   blTotalVolume: number | null;
   truckPlate: string;
   driverName: string;
+  truck: { id: string; carrier: { id: string; name: string } } | null;
+  driver: { id: string; phone: string | null } | null;
   status: 'PENDING' | 'IN_PROGRESS' | 'COMPLETED' | 'REJECTED';
   startedAt: string | null;
   completedAt: string | null;
@@ -42,6 +45,15 @@ interface Delivery {
     status: string;
     requestedVolume: number;
   };
+  trip?: {
+    id: string;
+    tripNumber: string;
+  } | null;
+  dispute?: {
+    id: string;
+    status: string;
+    claimAmount: number | null;
+  } | null;
   compartments: {
     id: string;
     compartmentNumber: number;
@@ -50,6 +62,12 @@ interface Delivery {
     receivedVolume: number | null;
     openingDip: number | null;
     closingDip: number | null;
+    openingDipHeight: number | null;
+    closingDipHeight: number | null;
+    physicalReceived: number | null;
+    observedTemperature: number | null;
+    correctionFactor: number | null;
+    correctedReceived: number | null;
     tank: {
       id: string;
       fuelType: string;
@@ -83,7 +101,7 @@ export default function DeliveryDetailPage() {
   
   const [success, setSuccess] = useState<string | null>(null);
   const [showDipForm, setShowDipForm] = useState(false);
-  const [dipReadings, setDipReadings] = useState<Record<string, { openingDip: string; closingDip: string }>>({});
+  const [dipReadings, setDipReadings] = useState<Record<string, { openingDip: string; closingDip: string; temperature: string }>>({});
   const [expandedCompartment, setExpandedCompartment] = useState<string | null>(null);
 
   // Fetch delivery
@@ -105,8 +123,8 @@ export default function DeliveryDetailPage() {
 
   // Complete delivery mutation
   const completeMutation = useMutation({
-    mutationFn: (closingDips: Record<string, number>) => 
-      api.post(`/deliveries/${deliveryId}/complete`, { closingDips }),
+    mutationFn: (compartments: { compartmentId: string; closingDip: number; temperature?: number }[]) =>
+      api.put(`/deliveries/${deliveryId}/complete`, { compartments }),
     onSuccess: () => {
       setSuccess('Livraison terminée avec succès');
       setShowDipForm(false);
@@ -122,11 +140,12 @@ export default function DeliveryDetailPage() {
     
     try {
       // Initialize dip readings for all compartments
-      const initialDips: Record<string, { openingDip: string; closingDip: string }> = {};
+      const initialDips: Record<string, { openingDip: string; closingDip: string; temperature: string }> = {};
       delivery.compartments.forEach(comp => {
         initialDips[comp.id] = {
           openingDip: comp.tank.currentLevel.toString(),
           closingDip: '',
+          temperature: '',
         };
       });
       setDipReadings(initialDips);
@@ -151,12 +170,17 @@ export default function DeliveryDetailPage() {
       }
     }
     
-    const closingDips: Record<string, number> = {};
-    delivery.compartments.forEach(comp => {
-      closingDips[comp.id] = parseFloat(dipReadings[comp.id].closingDip);
+    // Temperature is optional: when given, variance is computed at 15 °C
+    const compartments = delivery.compartments.map(comp => {
+      const reading = dipReadings[comp.id];
+      return {
+        compartmentId: comp.id,
+        closingDip: parseFloat(reading?.closingDip || ''),
+        ...(reading?.temperature ? { temperature: parseFloat(reading.temperature) } : {}),
+      };
     });
     
-    await completeMutation.mutateAsync(closingDips);
+    await completeMutation.mutateAsync(compartments);
   };
 
   // Calculate variance
@@ -194,7 +218,7 @@ export default function DeliveryDetailPage() {
   }
 
   const totalBL = delivery.compartments.reduce((sum, c) => sum + c.blVolume, 0);
-  const totalReceived = delivery.compartments.reduce((sum, c) => sum + (c.receivedVolume || 0), 0);
+  const totalReceived = delivery.compartments.reduce((sum, c) => sum + (Number(c.correctedReceived ?? c.physicalReceived ?? c.receivedVolume) || 0), 0);
   const totalVariance = delivery.status === 'COMPLETED' ? totalReceived - totalBL : null;
   const totalVariancePercent = delivery.status === 'COMPLETED' && totalBL > 0 
     ? ((totalReceived - totalBL) / totalBL) * 100 
@@ -224,6 +248,26 @@ export default function DeliveryDetailPage() {
           </div>
         </div>
 
+        {delivery.dispute && (
+          <Link
+            href={`/${locale}/admin/supply/disputes/${delivery.dispute.id}`}
+            className="inline-flex items-center gap-2 rounded-md border border-red-200 bg-red-50 px-4 py-2.5 text-sm font-medium text-red-800 hover:bg-red-100"
+          >
+            <AlertTriangle className="h-4 w-4" />
+            Voir le litige
+          </Link>
+        )}
+
+        {delivery.trip && (
+          <Link
+            href={`/${locale}/admin/supply/trips/${delivery.trip.id}`}
+            className="inline-flex items-center gap-2 rounded-md border px-4 py-2.5 text-sm font-medium hover:bg-muted"
+          >
+            <Route className="h-4 w-4" />
+            Tournée {delivery.trip.tripNumber}
+          </Link>
+        )}
+
         {/* Action Buttons */}
         <div className="flex items-center gap-2">
           {delivery.status === 'PENDING' && (
@@ -259,6 +303,7 @@ export default function DeliveryDetailPage() {
             Camion
           </div>
           <div className="mt-1 font-mono font-semibold">{delivery.truckPlate}</div>
+          {delivery.truck && <div className="text-xs text-muted-foreground">{delivery.truck.carrier.name}</div>}
         </div>
         <div className="rounded-lg border bg-card p-4">
           <div className="flex items-center gap-2 text-sm text-muted-foreground">
@@ -266,6 +311,7 @@ export default function DeliveryDetailPage() {
             Chauffeur
           </div>
           <div className="mt-1 font-semibold">{delivery.driverName}</div>
+          {delivery.driver?.phone && <div className="text-xs text-muted-foreground">{delivery.driver.phone}</div>}
         </div>
         <div className="rounded-lg border bg-card p-4">
           <div className="flex items-center gap-2 text-sm text-muted-foreground">
@@ -339,8 +385,11 @@ export default function DeliveryDetailPage() {
         
         <div className="space-y-4">
           {delivery.compartments.map((comp) => {
-            const variance = calculateVariance(comp.blVolume, comp.receivedVolume);
-            const variancePercent = calculateVariancePercent(comp.blVolume, comp.receivedVolume);
+            // Variance is judged on the 15 °C volume when a temperature was recorded
+            const received = comp.correctedReceived ?? comp.physicalReceived ?? comp.receivedVolume;
+            const receivedVolume = received !== null ? Number(received) : null;
+            const variance = calculateVariance(comp.blVolume, receivedVolume);
+            const variancePercent = calculateVariancePercent(comp.blVolume, receivedVolume);
             const isExpanded = expandedCompartment === comp.id;
             
             return (
@@ -368,7 +417,7 @@ export default function DeliveryDetailPage() {
                             ? 'text-green-600' 
                             : 'text-yellow-600'
                         }`}>
-                          Reçu: {comp.receivedVolume?.toLocaleString()} L 
+                          Reçu: {receivedVolume?.toLocaleString()} L 
                           ({variance >= 0 ? '+' : ''}{variance.toLocaleString()} L / {variancePercent?.toFixed(2)}%)
                         </div>
                       )}
@@ -389,21 +438,54 @@ export default function DeliveryDetailPage() {
                         <div className="font-mono font-semibold">
                           {comp.openingDip !== null ? `${comp.openingDip.toLocaleString()} L` : '-'}
                         </div>
+                        {comp.openingDipHeight !== null && (
+                          <div className="text-xs text-muted-foreground">{comp.openingDipHeight} cm</div>
+                        )}
                       </div>
                       <div>
                         <div className="text-sm text-muted-foreground">Jaugeage final</div>
                         <div className="font-mono font-semibold">
                           {comp.closingDip !== null ? `${comp.closingDip.toLocaleString()} L` : '-'}
                         </div>
+                        {comp.closingDipHeight !== null && (
+                          <div className="text-xs text-muted-foreground">{comp.closingDipHeight} cm</div>
+                        )}
                       </div>
                     </div>
                     
+                    {delivery.status === 'COMPLETED' && comp.physicalReceived !== null && (
+                      <div className="grid gap-4 sm:grid-cols-3">
+                        <div>
+                          <div className="text-sm text-muted-foreground">Reçu (ambiant)</div>
+                          <div className="font-mono font-semibold">
+                            {Number(comp.physicalReceived).toLocaleString()} L
+                          </div>
+                        </div>
+                        <div>
+                          <div className="text-sm text-muted-foreground">Reçu à 15 °C</div>
+                          <div className="font-mono font-semibold">
+                            {comp.correctedReceived !== null
+                              ? `${Number(comp.correctedReceived).toLocaleString()} L`
+                              : '-'}
+                          </div>
+                        </div>
+                        <div>
+                          <div className="text-sm text-muted-foreground">Température / VCF</div>
+                          <div className="font-mono font-semibold">
+                            {comp.observedTemperature !== null
+                              ? `${Number(comp.observedTemperature)} °C / ${Number(comp.correctionFactor).toFixed(5)}`
+                              : '-'}
+                          </div>
+                        </div>
+                      </div>
+                    )}
+
                     {delivery.status === 'COMPLETED' && (
                       <div className="grid gap-4 sm:grid-cols-3">
                         <div>
                           <div className="text-sm text-muted-foreground">Volume reçu</div>
                           <div className="font-mono font-semibold text-green-600">
-                            {comp.receivedVolume?.toLocaleString()} L
+                            {receivedVolume?.toLocaleString()} L
                           </div>
                         </div>
                         <div>
@@ -452,6 +534,20 @@ export default function DeliveryDetailPage() {
                               className="w-full rounded-md border bg-background px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary mt-1"
                             />
                           </div>
+                          <div className="w-32">
+                            <label className="text-sm text-muted-foreground">Température (°C)</label>
+                            <input
+                              type="number"
+                              step="0.1"
+                              value={dipReadings[comp.id]?.temperature || ''}
+                              onChange={(e) => setDipReadings(prev => ({
+                                ...prev,
+                                [comp.id]: { openingDip: '', closingDip: '', ...prev[comp.id], temperature: e.target.value }
+                              }))}
+                              placeholder="Ex: 28"
+                              className="w-full rounded-md border bg-background px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary mt-1"
+                            />
+                          </div>
                           {dipReadings[comp.id]?.closingDip && (
                             <div className="text-sm text-muted-foreground pb-2">
                               = {(parseFloat(dipReadings[comp.id].closingDip) - (comp.openingDip || comp.tank.currentLevel)).toLocaleString()} L reçu
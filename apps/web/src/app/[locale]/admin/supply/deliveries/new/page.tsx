@@ -28,12 +28,27 @@ interface Compartment {
   blVolume: number;
 }
 
+interface RegisteredTruck {
+  id: string;
+  plateNumber: string;
+  calibrationExpiresAt: string | null;
+  carrier: { id: string; name: string };
+}
+
+interface RegisteredDriver {
+  id: string;
+  fullName: string;
+  licenceExpiresAt: string;
+  carrier: { id: string; name: string };
+}
+
 interface ReplenishmentRequest {
   id: string;
   urgency: string;
   fuelType: string;
   requestedVolume: number;
   status: string;
+  purchaseOrderId: string | null;
   station: {
     id: string;
     code: string;
@@ -42,6 +57,13 @@ interface ReplenishmentRequest {
   createdAt: string;
 }
 
+interface PurchaseOrder {
+  id: string;
+  poNumber: string;
+  supplier: { name: string };
+  station: { id: string; code: string };
+}
+
 export default function NewDeliveryPage() {
   const router = useRouter();
   const searchParams = useSearchParams();
@@ -60,10 +82,13 @@ export default function NewDeliveryPage() {
   // Form data
   const [blNumber, setBlNumber] = useState('');
   const [blTotalVolume, setBlTotalVolume] = useState('');
+  const [truckId, setTruckId] = useState('');
+  const [driverId, setDriverId] = useState('');
   const [truckPlate, setTruckPlate] = useState('');
   const [driverName, setDriverName] = useState('');
   const [stationId, setStationId] = useState(searchParams.get('stationId') || '');
   const [replenishmentRequestId, setReplenishmentRequestId] = useState(searchParams.get('requestId') || '');
+  const [purchaseOrderId, setPurchaseOrderId] = useState(searchParams.get('purchaseOrderId') || '');
   const [compartments, setCompartments] = useState<Compartment[]>([]);
 
   // Sync stationId with replenishment request when it's set (especially from URL)
@@ -83,6 +108,13 @@ export default function NewDeliveryPage() {
   });
   const orderedRequests = Array.isArray(requestsData) ? requestsData : (requestsData as any)?.data || [];
 
+  // Fetch purchase orders awaiting delivery
+  const { data: ordersData } = useQuery({
+    queryKey: ['purchase-orders-issued'],
+    queryFn: () => api.get<PurchaseOrder[]>('/purchase-orders?status=ISSUED&limit=100'),
+  });
+  const issuedOrders: PurchaseOrder[] = (ordersData as any)?.data || [];
+
   // Fetch stations
   const { data: stationsData } = useQuery({
     queryKey: ['stations'],
@@ -90,6 +122,28 @@ export default function NewDeliveryPage() {
   });
   const stations = Array.isArray(stationsData) ? stationsData : (stationsData as any)?.data || [];
 
+  // Fetch the transporters' registered trucks and drivers
+  const { data: trucksData } = useQuery({
+    queryKey: ['trucks', 'active'],
+    queryFn: () => api.get<RegisteredTruck[]>('/trucks?isActive=true'),
+  });
+  const registeredTrucks: RegisteredTruck[] = (trucksData as any) || [];
+
+  const { data: driversData } = useQuery({
+    queryKey: ['drivers', 'active'],
+    queryFn: () => api.get<RegisteredDriver[]>('/drivers?isActive=true'),
+  });
+  const selectedTruck = registeredTrucks.find((tr) => tr.id === truckId);
+  // A registered truck is driven by a driver of the same transporter
+  const registeredDrivers: RegisteredDriver[] = ((driversData as any) || []).filter(
+    (d: RegisteredDriver) => !selectedTruck || d.carrier.id === selectedTruck.carrier.id
+  );
+  const selectedDriver = registeredDrivers.find((d) => d.id === driverId);
+  const today = new Date().toISOString().split('T')[0]!;
+  const isExpired = (date: string | null) => !!date && date.split('T')[0]! < today;
+  const displayedPlate = selectedTruck?.plateNumber ?? truckPlate;
+  const displayedDriver = selectedDriver?.fullName ?? driverName;
+
   // Fetch tanks for selected station
   const { data: tanksData } = useQuery({
     queryKey: ['tanks', stationId],
@@ -104,9 +158,12 @@ export default function NewDeliveryPage() {
       stationId: string;
       blNumber: string;
       blTotalVolume?: number;
-      truckPlate: string;
-      driverName: string;
+      truckId?: string;
+      driverId?: string;
+      truckPlate?: string;
+      driverName?: string;
       replenishmentRequestId?: string;
+      purchaseOrderId?: string;
     }) => api.post('/deliveries', data),
     onError: (err: ApiError) => toast.error(err.message),
   });
@@ -122,7 +179,7 @@ export default function NewDeliveryPage() {
     
     // Validate current step
     if (step === 0) {
-      if (!blNumber || !truckPlate || !driverName) {
+      if (!blNumber || !displayedPlate || !displayedDriver) {
         toast.error(t('deliveries.errors.fillRequiredFields'));
         return;
       }
@@ -206,9 +263,10 @@ export default function NewDeliveryPage() {
         stationId,
         blNumber,
         blTotalVolume: blTotalVolume ? parseFloat(blTotalVolume) : undefined,
-        truckPlate,
-        driverName,
+        ...(selectedTruck ? { truckId: selectedTruck.id } : { truckPlate }),
+        ...(selectedDriver ? { driverId: selectedDriver.id } : { driverName }),
         replenishmentRequestId: replenishmentRequestId || undefined,
+        purchaseOrderId: purchaseOrderId || undefined,
       }) as { id: string };
 
       // Add compartments
@@ -292,6 +350,7 @@ export default function NewDeliveryPage() {
                       const selectedRequest = orderedRequests.find((r: ReplenishmentRequest) => r.id === requestId);
                       if (selectedRequest) {
                         setStationId(selectedRequest.station.id);
+                        if (selectedRequest.purchaseOrderId) setPurchaseOrderId(selectedRequest.purchaseOrderId);
                       }
                     }
                   }}
@@ -310,6 +369,36 @@ export default function NewDeliveryPage() {
                 </p>
               </div>
 
+              {/* Purchase Order Dropdown */}
+              <div className="space-y-2">
+                <label className="text-sm font-medium">
+                  {t('deliveries.form.purchaseOrderLabel')}
+                </label>
+                <select
+                  value={purchaseOrderId}
+                  onChange={(e) => {
+                    const orderId = e.target.value;
+                    setPurchaseOrderId(orderId);
+                    const selectedOrder = issuedOrders.find((o) => o.id === orderId);
+                    if (selectedOrder && !replenishmentRequestId) {
+                      setStationId(selectedOrder.station.id);
+                    }
+                  }}
+                  className="w-full rounded-md border bg-background px-3 py-2.5 text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+                  aria-label={t('deliveries.form.purchaseOrderLabel')}
+                >
+                  <option value="">{t('deliveries.form.noPurchaseOrder')}</option>
+                  {issuedOrders.map((o) => (
+                    <option key={o.id} value={o.id}>
+                      {o.poNumber} - {o.station.code} - {o.supplier.name}
+                    </option>
+                  ))}
+                </select>
+                <p className="text-xs text-muted-foreground">
+                  {t('deliveries.form.purchaseOrderHelp')}
+                </p>
+              </div>
+
               <div className="space-y-2">
                 <label className="text-sm font-medium">
                   {t('deliveries.form.blNumberLabel')} <span className="text-destructive">*</span>
@@ -340,26 +429,59 @@ export default function NewDeliveryPage() {
                 <label className="text-sm font-medium">
                   {t('deliveries.form.truckPlateLabel')} <span className="text-destructive">*</span>
                 </label>
-                <input
-                  type="text"
-                  value={truckPlate}
-                  onChange={(e) => setTruckPlate(e.target.value)}
-                  placeholder={t('deliveries.form.truckPlatePlaceholder')}
+                <select
+                  value={truckId}
+                  onChange={(e) => {
+                    setTruckId(e.target.value);
+                    setDriverId('');
+                  }}
                   className="w-full rounded-md border bg-background px-3 py-2.5 text-sm focus:outline-none focus:ring-2 focus:ring-primary"
-                />
+                >
+                  <option value="">{t('deliveries.form.unregisteredTruck')}</option>
+                  {registeredTrucks.map((truck) => (
+                    <option key={truck.id} value={truck.id} disabled={isExpired(truck.calibrationExpiresAt)}>
+                      {truck.plateNumber} — {truck.carrier.name}
+                      {isExpired(truck.calibrationExpiresAt) ? ` (${t('deliveries.form.calibrationExpired')})` : ''}
+                    </option>
+                  ))}
+                </select>
+                {!truckId && (
+                  <input
+                    type="text"
+                    value={truckPlate}
+                    onChange={(e) => setTruckPlate(e.target.value)}
+                    placeholder={t('deliveries.form.truckPlatePlaceholder')}
+                    className="w-full rounded-md border bg-background px-3 py-2.5 text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+                  />
+                )}
               </div>
 
               <div className="space-y-2">
                 <label className="text-sm font-medium">
                   {t('deliveries.form.driverNameLabel')} <span className="text-destructive">*</span>
                 </label>
-                <input
-                  type="text"
-                  value={driverName}
-                  onChange={(e) => setDriverName(e.target.value)}
-                  placeholder={t('deliveries.form.driverNamePlaceholder')}
+                <select
+                  value={driverId}
+                  onChange={(e) => setDriverId(e.target.value)}
                   className="w-full rounded-md border bg-background px-3 py-2.5 text-sm focus:outline-none focus:ring-2 focus:ring-primary"
-                />
+                >
+                  <option value="">{t('deliveries.form.unregisteredDriver')}</option>
+                  {registeredDrivers.map((driver) => (
+                    <option key={driver.id} value={driver.id} disabled={isExpired(driver.licenceExpiresAt)}>
+                      {driver.fullName} — {driver.carrier.name}
+                      {isExpired(driver.licenceExpiresAt) ? ` (${t('deliveries.form.licenceExpired')})` : ''}
+                    </option>
+                  ))}
+                </select>
+                {!driverId && (
+                  <input
+                    type="text"
+                    value={driverName}
+                    onChange={(e) => setDriverName(e.target.value)}
+                    placeholder={t('deliveries.form.driverNamePlaceholder')}
+                    className="w-full rounded-md border bg-background px-3 py-2.5 text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+                  />
+                )}
               </div>
             </div>
           </div>
@@ -571,11 +693,14 @@ export default function NewDeliveryPage() {
               </div>
               <div className="space-y-2">
                 <div className="text-sm text-muted-foreground">{t('deliveries.truck')}</div>
-                <div className="font-medium">{truckPlate}</div>
+                <div className="font-medium">
+                  {displayedPlate}
+                  {selectedTruck && <span className="ml-1 text-sm text-muted-foreground">({selectedTruck.carrier.name})</span>}
+                </div>
               </div>
               <div className="space-y-2">
                 <div className="text-sm text-muted-foreground">{t('deliveries.driverName')}</div>
-                <div className="font-medium">{driverName}</div>
+                <div className="font-medium">{displayedDriver}</div>
               </div>
               <div className="space-y-2">
                 <div className="text-sm text-muted-foreground">{t('common.station')}</div>
@@ -26,7 +26,7 @@ interface Delivery {
   blNumber: string;
   truckPlate: string;
   driverName: string;
-  status: 'IN_PROGRESS' | 'VALIDATED' | 'DISPUTED';
+  status: 'IN_PROGRESS' | 'VALIDATED' | 'DISPUTED' | 'RESOLVED';
   globalVariance: number | null;
   totalBlVolume: number;
   createdAt: string;
@@ -43,6 +43,7 @@ const statusColors: Record<string, 'neutral' | 'warning' | 'info' | 'success' |
   IN_PROGRESS: 'warning',
   VALIDATED: 'success',
   DISPUTED: 'danger',
+  RESOLVED: 'neutral',
 };
 
 export default function DeliveriesPage() {
@@ -57,6 +58,7 @@ export default function DeliveriesPage() {
     IN_PROGRESS: t('deliveries.statusInProgress'),
     VALIDATED: t('deliveries.statusValidated'),
     DISPUTED: t('deliveries.statusDisputed'),
+    RESOLVED: t('deliveries.statusResolved'),
   };
 
   const queryParams = new URLSearchParams({
@@ -197,6 +199,7 @@ export default function DeliveriesPage() {
           <option value="IN_PROGRESS">{t('deliveries.statusInProgress')}</option>
           <option value="VALIDATED">{t('deliveries.statusValidated')}</option>
           <option value="DISPUTED">{t('deliveries.statusDisputed')}</option>
+          <option value="RESOLVED">{t('deliveries.statusResolved')}</option>
         </select>
       </div>
 
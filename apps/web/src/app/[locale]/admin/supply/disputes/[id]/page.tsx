@@ -0,0 +1,525 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api, ApiError } from '@/lib/api-client';
+import { StatusBadge } from '@/components/shared/status-badge';
+import { useParams } from 'next/navigation';
+import { useLocale, useTranslations } from 'next-intl';
+import Link from 'next/link';
+import { toast } from 'sonner';
+import { ArrowLeft, CheckCircle, FileText, FileWarning, Loader2, MessageSquare, Paperclip, Send } from 'lucide-react';
+import { useAuthStore } from '@/stores/auth-store';
+
+interface ClaimLine {
+  fuelType: string;
+  shortageVolume: number;
+  unitPrice: number | null;
+  amount: number | null;
+}
+
+interface DisputeDetail {
+  id: string;
+  status: 'OPEN' | 'INVESTIGATING' | 'CLAIMED' | 'CREDITED' | 'REJECTED' | 'WRITTEN_OFF';
+  shortageVolume: string;
+  claimAmount: string | null;
+  claimedAt: string | null;
+  creditNoteNumber: string | null;
+  creditedAmount: string | null;
+  resolutionNote: string | null;
+  resolvedAt: string | null;
+  createdAt: string;
+  delivery: {
+    id: string;
+    blNumber: string;
+    truckPlate: string;
+    driverName: string;
+    completedAt: string | null;
+    purchaseOrder: { id: string; poNumber: string } | null;
+  };
+  station: { id: string; code: string; name: string };
+  supplier: { id: string; name: string } | null;
+  claimedBy: { fullName: string } | null;
+  resolvedBy: { fullName: string } | null;
+  compartments: {
+    id: string;
+    fuelType: string;
+    blVolume: string;
+    physicalReceived: string | null;
+    correctedReceived: string | null;
+    variance: string | null;
+    status: 'VALIDATED' | 'DISPUTED' | null;
+  }[];
+  claimLines: ClaimLine[];
+  notes: { id: string; content: string; createdAt: string; author: { fullName: string } }[];
+  evidence: { id: string; fileUrl: string; fileName: string; createdAt: string; uploadedBy: { fullName: string } }[];
+}
+
+interface Supplier {
+  id: string;
+  name: string;
+}
+
+const statusColors: Record<string, 'neutral' | 'warning' | 'info' | 'success' | 'danger'> = {
+  OPEN: 'danger',
+  INVESTIGATING: 'warning',
+  CLAIMED: 'info',
+  CREDITED: 'success',
+  REJECTED: 'neutral',
+  WRITTEN_OFF: 'neutral',
+};
+
+const CLOSED_STATUSES = ['CREDITED', 'REJECTED', 'WRITTEN_OFF'];
+const INVESTIGATE_ROLES = ['LOGISTICS', 'DCO', 'SUPER_ADMIN', 'STATION_MANAGER'];
+const CLAIM_ROLES = ['LOGISTICS', 'SUPER_ADMIN'];
+const WRITE_OFF_ROLES = ['CFO', 'FINANCE_DIR', 'SUPER_ADMIN'];
+
+const API_BASE = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:4000';
+
+export default function DeliveryDisputeDetailPage() {
+  const t = useTranslations('Supply');
+  const locale = useLocale();
+  const params = useParams();
+  const id = params.id as string;
+  const queryClient = useQueryClient();
+  const user = useAuthStore((state) => state.user);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [note, setNote] = useState('');
+  const [isUploading, setIsUploading] = useState(false);
+  const [supplierId, setSupplierId] = useState('');
+  const [prices, setPrices] = useState<Record<string, string>>({});
+  const [outcome, setOutcome] = useState<'CREDITED' | 'REJECTED' | 'WRITTEN_OFF' | ''>('');
+  const [creditNoteNumber, setCreditNoteNumber] = useState('');
+  const [creditedAmount, setCreditedAmount] = useState('');
+  const [resolutionNote, setResolutionNote] = useState('');
+
+  const { data: dispute, isLoading, error } = useQuery({
+    queryKey: ['delivery-dispute', id],
+    queryFn: () => api.get<DisputeDetail>(`/delivery-disputes/${id}`),
+  });
+
+  const role = user?.role ?? '';
+  const isOpen = !!dispute && !CLOSED_STATUSES.includes(dispute.status);
+  const canInvestigate = isOpen && INVESTIGATE_ROLES.includes(role);
+  const canClaim = !!dispute && ['OPEN', 'INVESTIGATING'].includes(dispute.status) && CLAIM_ROLES.includes(role);
+  const outcomes = [
+    ...(dispute?.status === 'CLAIMED' && CLAIM_ROLES.includes(role) ? (['CREDITED', 'REJECTED'] as const) : []),
+    ...(isOpen && WRITE_OFF_ROLES.includes(role) ? (['WRITTEN_OFF'] as const) : []),
+  ];
+
+  const { data: suppliersData } = useQuery({
+    queryKey: ['suppliers', 'fuel'],
+    queryFn: () => api.get<Supplier[]>('/suppliers?isActive=true&category=FUEL_SUPPLY&limit=100'),
+    enabled: canClaim && !dispute?.supplier,
+  });
+  const suppliers: Supplier[] = (suppliersData as any)?.data || [];
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['delivery-dispute', id] });
+    queryClient.invalidateQueries({ queryKey: ['delivery-disputes'] });
+  };
+
+  const noteMutation = useMutation({
+    mutationFn: () => api.post(`/delivery-disputes/${id}/notes`, { content: note }),
+    onSuccess: () => {
+      setNote('');
+      refresh();
+    },
+    onError: (err: ApiError) => toast.error(err.message),
+  });
+
+  const evidenceMutation = useMutation({
+    mutationFn: (file: { fileUrl: string; fileName: string }) => api.post(`/delivery-disputes/${id}/evidence`, file),
+    onSuccess: () => refresh(),
+    onError: (err: ApiError) => toast.error(err.message),
+  });
+
+  const claimMutation = useMutation({
+    mutationFn: () =>
+      api.put(`/delivery-disputes/${id}/claim`, {
+        ...(supplierId && { supplierId }),
+        prices: Object.entries(prices)
+          .filter(([, value]) => Number(value) > 0)
+          .map(([fuelType, value]) => ({ fuelType, unitPrice: Number(value) })),
+      }),
+    onSuccess: () => {
+      toast.success(t('disputes.claimSuccess'));
+      refresh();
+    },
+    onError: (err: ApiError) => toast.error(err.message),
+  });
+
+  const resolveMutation = useMutation({
+    mutationFn: () =>
+      api.put(`/delivery-disputes/${id}/resolve`, {
+        outcome,
+        resolutionNote,
+        ...(outcome === 'CREDITED' && { creditNoteNumber, creditedAmount: Number(creditedAmount) }),
+      }),
+    onSuccess: () => {
+      toast.success(t('disputes.resolveSuccess'));
+      refresh();
+    },
+    onError: (err: ApiError) => toast.error(err.message),
+  });
+
+  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setIsUploading(true);
+    try {
+      const formDataUpload = new FormData();
+      formDataUpload.append('file', file);
+
+      const token = localStorage.getItem('access_token');
+      const response = await fetch(`${API_BASE}/files/upload?module=disputes`, {
+        method: 'POST',
+        headers: token ? { Authorization: `Bearer ${token}` } : {},
+        body: formDataUpload,
+      });
+      const json = await response.json();
+      if (!response.ok) {
+        throw new Error(json.error?.message || 'Upload failed');
+      }
+      evidenceMutation.mutate({ fileUrl: json.data.fileUrl, fileName: file.name });
+    } catch {
+      toast.error(t('disputes.uploadFailed'));
+    } finally {
+      setIsUploading(false);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex h-64 items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (error || !dispute) {
+    return (
+      <div className="flex h-64 flex-col items-center justify-center gap-4">
+        <p className="text-muted-foreground">{t('disputes.notFound')}</p>
+        <Link href={`/${locale}/admin/supply/disputes`} className="text-primary hover:underline">
+          {t('common.backToList')}
+        </Link>
+      </div>
+    );
+  }
+
+  const missingPrices = dispute.claimLines.filter((l) => l.unitPrice === null).map((l) => l.fuelType);
+  const claimReady =
+    dispute.claimLines.length > 0 &&
+    (!!dispute.supplier || !!supplierId) &&
+    missingPrices.every((f) => Number(prices[f]) > 0);
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center gap-4">
+        <Link href={`/${locale}/admin/supply/disputes`} className="rounded-lg p-2 hover:bg-muted">
+          <ArrowLeft className="h-5 w-5" />
+        </Link>
+        <div>
+          <div className="flex items-center gap-2">
+            <FileWarning className="h-6 w-6 text-muted-foreground" />
+            <h1 className="text-2xl font-bold">
+              {t('disputes.detailTitle', { blNumber: dispute.delivery.blNumber })}
+            </h1>
+            <StatusBadge status={statusColors[dispute.status] || 'neutral'} label={t(`disputes.statuses.${dispute.status}`)} />
+          </div>
+          <p className="text-muted-foreground">
+            {dispute.station.code} — {dispute.station.name} · {dispute.delivery.truckPlate} · {dispute.delivery.driverName}
+            {dispute.supplier && ` · ${dispute.supplier.name}`}
+            {dispute.delivery.purchaseOrder && (
+              <>
+                {' · '}
+                <Link
+                  href={`/${locale}/admin/supply/purchase-orders/${dispute.delivery.purchaseOrder.id}`}
+                  className="font-mono text-primary hover:underline"
+                >
+                  {dispute.delivery.purchaseOrder.poNumber}
+                </Link>
+              </>
+            )}
+          </p>
+        </div>
+      </div>
+
+      {/* Compartments */}
+      <div className="rounded-lg border bg-white p-4">
+        <h2 className="mb-3 font-semibold">{t('disputes.compartments')}</h2>
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b text-left text-muted-foreground">
+              <th className="py-2">{t('common.fuelType')}</th>
+              <th className="py-2 text-right">{t('disputes.blVolume')}</th>
+              <th className="py-2 text-right">{t('disputes.received')}</th>
+              <th className="py-2 text-right">{t('disputes.variance')}</th>
+              <th className="py-2 text-right">{t('common.status')}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {dispute.compartments.map((c) => (
+              <tr key={c.id} className="border-b last:border-0">
+                <td className="py-2">{t(`fuelTypes.${c.fuelType}`)}</td>
+                <td className="py-2 text-right font-mono">{Number(c.blVolume).toLocaleString('fr-FR')} L</td>
+                <td className="py-2 text-right font-mono">
+                  {Number(c.correctedReceived ?? c.physicalReceived ?? 0).toLocaleString('fr-FR')} L
+                </td>
+                <td className={`py-2 text-right font-mono ${c.status === 'DISPUTED' ? 'text-red-600' : ''}`}>
+                  {Number(c.variance ?? 0).toLocaleString('fr-FR')} L
+                </td>
+                <td className="py-2 text-right">
+                  <StatusBadge
+                    status={c.status === 'DISPUTED' ? 'danger' : 'success'}
+                    label={c.status === 'DISPUTED' ? t('disputes.outOfTolerance') : t('disputes.withinTolerance')}
+                  />
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        {/* Claim */}
+        <div className="space-y-4 rounded-lg border bg-white p-4">
+          <h2 className="font-semibold">{t('disputes.claim')}</h2>
+          {dispute.claimLines.length === 0 ? (
+            <p className="text-sm text-muted-foreground">{t('disputes.noShortage')}</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-left text-muted-foreground">
+                  <th className="py-2">{t('common.fuelType')}</th>
+                  <th className="py-2 text-right">{t('disputes.shortage')}</th>
+                  <th className="py-2 text-right">{t('disputes.unitPrice')}</th>
+                  <th className="py-2 text-right">{t('disputes.amount')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {dispute.claimLines.map((line) => (
+                  <tr key={line.fuelType} className="border-b last:border-0">
+                    <td className="py-2">{t(`fuelTypes.${line.fuelType}`)}</td>
+                    <td className="py-2 text-right font-mono">{line.shortageVolume.toLocaleString('fr-FR')} L</td>
+                    <td className="py-2 text-right">
+                      {line.unitPrice !== null ? (
+                        <span className="font-mono">{line.unitPrice.toLocaleString('fr-FR')}</span>
+                      ) : canClaim ? (
+                        <input
+                          type="number"
+                          min={0}
+                          step="0.01"
+                          value={prices[line.fuelType] ?? ''}
+                          onChange={(e) => setPrices((p) => ({ ...p, [line.fuelType]: e.target.value }))}
+                          className="w-28 rounded-lg border bg-background px-2 py-1 text-right text-sm"
+                        />
+                      ) : (
+                        '—'
+                      )}
+                    </td>
+                    <td className="py-2 text-right font-mono">
+                      {line.amount !== null
+                        ? `${line.amount.toLocaleString('fr-FR')} XAF`
+                        : prices[line.fuelType]
+                          ? `${(line.shortageVolume * Number(prices[line.fuelType])).toLocaleString('fr-FR')} XAF`
+                          : '—'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          {dispute.claimAmount && (
+            <p className="text-sm">
+              {t('disputes.claimSent', {
+                amount: Number(dispute.claimAmount).toLocaleString('fr-FR'),
+                date: new Date(dispute.claimedAt!).toLocaleDateString('fr-FR'),
+                name: dispute.claimedBy?.fullName ?? '',
+              })}
+            </p>
+          )}
+
+          {canClaim && dispute.claimLines.length > 0 && (
+            <div className="flex flex-wrap items-end gap-3">
+              {!dispute.supplier && (
+                <select
+                  value={supplierId}
+                  onChange={(e) => setSupplierId(e.target.value)}
+                  className="rounded-lg border bg-background px-3 py-2 text-sm"
+                >
+                  <option value="">{t('disputes.selectSupplier')}</option>
+                  {suppliers.map((s) => (
+                    <option key={s.id} value={s.id}>
+                      {s.name}
+                    </option>
+                  ))}
+                </select>
+              )}
+              <button
+                onClick={() => claimMutation.mutate()}
+                disabled={!claimReady || claimMutation.isPending}
+                className="flex items-center gap-2 rounded-lg bg-primary px-4 py-2 text-sm font-medium text-primary-foreground hover:bg-primary/90 disabled:opacity-50"
+              >
+                <Send className="h-4 w-4" />
+                {t('disputes.sendClaim')}
+              </button>
+            </div>
+          )}
+
+          {/* Outcome */}
+          {!isOpen && (
+            <div className="rounded-lg border border-green-200 bg-green-50 p-3 text-sm">
+              <p className="flex items-center gap-2 font-medium">
+                <CheckCircle className="h-4 w-4" />
+                {t(`disputes.statuses.${dispute.status}`)}
+                {dispute.creditNoteNumber &&
+                  ` — ${dispute.creditNoteNumber} (${Number(dispute.creditedAmount).toLocaleString('fr-FR')} XAF)`}
+              </p>
+              <p className="mt-1">{dispute.resolutionNote}</p>
+              <p className="mt-1 text-xs text-muted-foreground">
+                {dispute.resolvedBy?.fullName}, {new Date(dispute.resolvedAt!).toLocaleDateString('fr-FR')}
+              </p>
+            </div>
+          )}
+
+          {outcomes.length > 0 && (
+            <div className="space-y-2 border-t pt-4">
+              <h3 className="text-sm font-medium">{t('disputes.resolve')}</h3>
+              <select
+                value={outcome}
+                onChange={(e) => setOutcome(e.target.value as typeof outcome)}
+                className="rounded-lg border bg-background px-3 py-2 text-sm"
+              >
+                <option value="">{t('disputes.selectOutcome')}</option>
+                {outcomes.map((o) => (
+                  <option key={o} value={o}>
+                    {t(`disputes.statuses.${o}`)}
+                  </option>
+                ))}
+              </select>
+              {outcome === 'CREDITED' && (
+                <div className="flex gap-2">
+                  <input
+                    value={creditNoteNumber}
+                    onChange={(e) => setCreditNoteNumber(e.target.value)}
+                    placeholder={t('disputes.creditNoteNumber')}
+                    className="rounded-lg border bg-background px-3 py-2 text-sm"
+                  />
+                  <input
+                    type="number"
+                    min={0}
+                    value={creditedAmount}
+                    onChange={(e) => setCreditedAmount(e.target.value)}
+                    placeholder={t('disputes.creditedAmount')}
+                    className="w-40 rounded-lg border bg-background px-3 py-2 text-sm"
+                  />
+                </div>
+              )}
+              <textarea
+                value={resolutionNote}
+                onChange={(e) => setResolutionNote(e.target.value)}
+                rows={2}
+                placeholder={t('disputes.resolutionNotePlaceholder')}
+                className="w-full rounded-lg border px-3 py-2 text-sm"
+              />
+              <button
+                onClick={() => resolveMutation.mutate()}
+                disabled={
+                  !outcome ||
+                  resolutionNote.length < 10 ||
+                  (outcome === 'CREDITED' && (!creditNoteNumber || !(Number(creditedAmount) > 0))) ||
+                  resolveMutation.isPending
+                }
+                className="rounded-lg bg-green-600 px-4 py-2 text-sm font-medium text-white hover:bg-green-700 disabled:opacity-50"
+              >
+                {t('disputes.closeDispute')}
+              </button>
+            </div>
+          )}
+        </div>
+
+        {/* Investigation */}
+        <div className="space-y-4 rounded-lg border bg-white p-4">
+          <h2 className="flex items-center gap-2 font-semibold">
+            <MessageSquare className="h-4 w-4" />
+            {t('disputes.investigation')}
+          </h2>
+
+          {dispute.notes.length === 0 && dispute.evidence.length === 0 && (
+            <p className="text-sm text-muted-foreground">{t('disputes.noNotes')}</p>
+          )}
+          <ul className="space-y-3 text-sm">
+            {dispute.notes.map((n) => (
+              <li key={n.id}>
+                <p>{n.content}</p>
+                <p className="text-xs text-muted-foreground">
+                  {n.author.fullName}, {new Date(n.createdAt).toLocaleString('fr-FR')}
+                </p>
+              </li>
+            ))}
+          </ul>
+
+          {dispute.evidence.length > 0 && (
+            <div>
+              <h3 className="mb-2 text-sm font-medium">{t('disputes.evidence')}</h3>
+              <ul className="space-y-1 text-sm">
+                {dispute.evidence.map((e) => (
+                  <li key={e.id} className="flex items-center gap-2">
+                    <FileText className="h-4 w-4 text-muted-foreground" />
+                    <a href={`${API_BASE}${e.fileUrl}`} target="_blank" rel="noopener noreferrer" className="text-primary hover:underline">
+                      {e.fileName}
+                    </a>
+                    <span className="text-xs text-muted-foreground">{e.uploadedBy.fullName}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {canInvestigate && (
+            <div className="space-y-2 border-t pt-4">
+              <textarea
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                rows={3}
+                placeholder={t('disputes.notePlaceholder')}
+                className="w-full rounded-lg border px-3 py-2 text-sm"
+              />
+              <div className="flex gap-2">
+                <button
+                  onClick={() => noteMutation.mutate()}
+                  disabled={note.trim().length < 3 || noteMutation.isPending}
+                  className="rounded-lg bg-primary px-4 py-2 text-sm font-medium text-primary-foreground hover:bg-primary/90 disabled:opacity-50"
+                >
+                  {t('disputes.addNote')}
+                </button>
+                <button
+                  onClick={() => fileInputRef.current?.click()}
+                  disabled={isUploading || evidenceMutation.isPending}
+                  className="flex items-center gap-2 rounded-lg border px-4 py-2 text-sm hover:bg-muted disabled:opacity-50"
+                >
+                  {isUploading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Paperclip className="h-4 w-4" />}
+                  {t('disputes.attachFile')}
+                </button>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept=".pdf,.jpg,.jpeg,.png"
+                  onChange={handleFileUpload}
+                  className="hidden"
+                />
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
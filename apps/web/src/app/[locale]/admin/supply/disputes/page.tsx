@@ -0,0 +1,274 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useQuery } from '@tanstack/react-query';
+import { api } from '@/lib/api-client';
+import { DataTable } from '@/components/shared/data-table';
+import { StatusBadge } from '@/components/shared/status-badge';
+import { KPICard } from '@/components/shared/kpi-card';
+import { useLocale, useTranslations } from 'next-intl';
+import { AlertTriangle, CheckCircle, FileWarning, Send, XCircle } from 'lucide-react';
+import { useAuthStore } from '@/stores/auth-store';
+
+interface DeliveryDispute {
+  id: string;
+  status: string;
+  shortageVolume: string;
+  claimAmount: string | null;
+  creditedAmount: string | null;
+  createdAt: string;
+  delivery: { id: string; blNumber: string; truckPlate: string; completedAt: string | null };
+  station: { id: string; code: string; name: string };
+  supplier: { id: string; name: string } | null;
+}
+
+interface SupplierClaimsRow {
+  supplier: { id: string; name: string } | null;
+  disputes: number;
+  shortageVolume: number;
+  claimedAmount: number;
+  creditedAmount: number;
+  rejectedAmount: number;
+  writtenOffVolume: number;
+  pendingAmount: number;
+  openCount: number;
+  recoveryRate: number | null;
+}
+
+interface SupplierClaimsReport {
+  suppliers: SupplierClaimsRow[];
+  totals: Omit<SupplierClaimsRow, 'supplier' | 'recoveryRate'>;
+}
+
+const disputeStatusColors: Record<string, 'neutral' | 'warning' | 'info' | 'success' | 'danger'> = {
+  OPEN: 'danger',
+  INVESTIGATING: 'warning',
+  CLAIMED: 'info',
+  CREDITED: 'success',
+  REJECTED: 'neutral',
+  WRITTEN_OFF: 'neutral',
+};
+
+const REPORT_ROLES = ['LOGISTICS', 'DCO', 'SUPER_ADMIN', 'CFO', 'CEO', 'FINANCE_DIR'];
+
+const formatAmount = (value: number) => `${Math.round(value).toLocaleString('fr-FR')} XAF`;
+
+export default function DeliveryDisputesPage() {
+  const t = useTranslations('Supply');
+  const locale = useLocale();
+  const user = useAuthStore((state) => state.user);
+  const canViewReport = !!user && REPORT_ROLES.includes(user.role);
+
+  const [page, setPage] = useState(1);
+  const [filterStatus, setFilterStatus] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const limit = 20;
+
+  const queryParams = new URLSearchParams({
+    page: String(page),
+    limit: String(limit),
+    ...(filterStatus && { status: filterStatus }),
+  });
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['delivery-disputes', page, filterStatus],
+    queryFn: () => api.get<DeliveryDispute[]>(`/delivery-disputes?${queryParams}`),
+  });
+  const disputes: DeliveryDispute[] = (data as any)?.data || [];
+  const meta = (data as any)?.meta || { total: 0, page: 1, totalPages: 0 };
+
+  const reportParams = new URLSearchParams({ ...(from && { from }), ...(to && { to }) });
+  const { data: reportData } = useQuery({
+    queryKey: ['delivery-disputes', 'report', from, to],
+    queryFn: () => api.get<SupplierClaimsReport>(`/delivery-disputes/report?${reportParams}`),
+    enabled: canViewReport,
+  });
+  const report = reportData as SupplierClaimsReport | undefined;
+
+  const columns = [
+    {
+      key: 'delivery',
+      header: t('disputes.blNumber'),
+      render: (item: DeliveryDispute) => (
+        <Link href={`/${locale}/admin/supply/disputes/${item.id}`} className="font-mono font-medium text-primary hover:underline">
+          {item.delivery.blNumber}
+        </Link>
+      ),
+    },
+    {
+      key: 'station',
+      header: t('common.station'),
+      render: (item: DeliveryDispute) => <span className="font-medium">{item.station.code}</span>,
+    },
+    {
+      key: 'supplier',
+      header: t('disputes.supplier'),
+      render: (item: DeliveryDispute) => <span>{item.supplier?.name ?? '—'}</span>,
+    },
+    {
+      key: 'shortageVolume',
+      header: t('disputes.shortage'),
+      render: (item: DeliveryDispute) => (
+        <span className="font-mono">{Number(item.shortageVolume).toLocaleString('fr-FR')} L</span>
+      ),
+    },
+    {
+      key: 'claimAmount',
+      header: t('disputes.claimAmount'),
+      render: (item: DeliveryDispute) => (
+        <span className="font-mono">{item.claimAmount ? formatAmount(Number(item.claimAmount)) : '—'}</span>
+      ),
+    },
+    {
+      key: 'createdAt',
+      header: t('common.date'),
+      render: (item: DeliveryDispute) => (
+        <span className="text-sm">{new Date(item.createdAt).toLocaleDateString('fr-FR')}</span>
+      ),
+    },
+    {
+      key: 'status',
+      header: t('common.status'),
+      render: (item: DeliveryDispute) => (
+        <StatusBadge status={disputeStatusColors[item.status] || 'neutral'} label={t(`disputes.statuses.${item.status}`)} />
+      ),
+    },
+  ];
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="flex items-center gap-2 text-2xl font-bold">
+          <FileWarning className="h-6 w-6" />
+          {t('disputes.title')}
+        </h1>
+        <p className="text-muted-foreground">{t('disputes.subtitle')}</p>
+      </div>
+
+      {/* Supplier claims report */}
+      {canViewReport && report && (
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-end gap-4">
+            <h2 className="font-semibold">{t('disputes.reportTitle')}</h2>
+            <div>
+              <label className="mb-1 block text-xs text-muted-foreground">{t('disputes.from')}</label>
+              <input
+                type="date"
+                value={from}
+                onChange={(e) => setFrom(e.target.value)}
+                className="rounded-lg border bg-background px-3 py-1.5 text-sm"
+              />
+            </div>
+            <div>
+              <label className="mb-1 block text-xs text-muted-foreground">{t('disputes.to')}</label>
+              <input
+                type="date"
+                value={to}
+                onChange={(e) => setTo(e.target.value)}
+                className="rounded-lg border bg-background px-3 py-1.5 text-sm"
+              />
+            </div>
+          </div>
+
+          <div className="grid gap-4 md:grid-cols-4">
+            <KPICard title={t('disputes.claimed')} value={formatAmount(report.totals.claimedAmount)} icon={Send} />
+            <KPICard title={t('disputes.credited')} value={formatAmount(report.totals.creditedAmount)} icon={CheckCircle} />
+            <KPICard title={t('disputes.pending')} value={formatAmount(report.totals.pendingAmount)} icon={AlertTriangle} />
+            <KPICard title={t('disputes.rejected')} value={formatAmount(report.totals.rejectedAmount)} icon={XCircle} />
+          </div>
+
+          {report.suppliers.length > 0 && (
+            <div className="rounded-lg border bg-white p-4">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-muted-foreground">
+                    <th className="py-2">{t('disputes.supplier')}</th>
+                    <th className="py-2 text-right">{t('disputes.count')}</th>
+                    <th className="py-2 text-right">{t('disputes.shortage')}</th>
+                    <th className="py-2 text-right">{t('disputes.claimed')}</th>
+                    <th className="py-2 text-right">{t('disputes.credited')}</th>
+                    <th className="py-2 text-right">{t('disputes.rejected')}</th>
+                    <th className="py-2 text-right">{t('disputes.writtenOff')}</th>
+                    <th className="py-2 text-right">{t('disputes.recoveryRate')}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.suppliers.map((row) => (
+                    <tr key={row.supplier?.id ?? 'none'} className="border-b last:border-0">
+                      <td className="py-2">{row.supplier?.name ?? t('disputes.noSupplier')}</td>
+                      <td className="py-2 text-right">
+                        {row.disputes}
+                        {row.openCount > 0 && (
+                          <span className="ml-1 text-xs text-muted-foreground">({t('disputes.openCount', { count: row.openCount })})</span>
+                        )}
+                      </td>
+                      <td className="py-2 text-right font-mono">{row.shortageVolume.toLocaleString('fr-FR')} L</td>
+                      <td className="py-2 text-right font-mono">{formatAmount(row.claimedAmount)}</td>
+                      <td className="py-2 text-right font-mono">{formatAmount(row.creditedAmount)}</td>
+                      <td className="py-2 text-right font-mono">{formatAmount(row.rejectedAmount)}</td>
+                      <td className="py-2 text-right font-mono">{row.writtenOffVolume.toLocaleString('fr-FR')} L</td>
+                      <td className="py-2 text-right font-mono">
+                        {row.recoveryRate === null ? '—' : `${Math.round(row.recoveryRate * 100)} %`}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Filter */}
+      <select
+        value={filterStatus}
+        onChange={(e) => {
+          setFilterStatus(e.target.value);
+          setPage(1);
+        }}
+        className="rounded-lg border bg-background px-3 py-2 text-sm"
+      >
+        <option value="">{t('disputes.allStatuses')}</option>
+        {Object.keys(disputeStatusColors).map((status) => (
+          <option key={status} value={status}>
+            {t(`disputes.statuses.${status}`)}
+          </option>
+        ))}
+      </select>
+
+      <DataTable
+        columns={columns}
+        data={disputes}
+        keyExtractor={(item) => item.id}
+        emptyMessage={t('disputes.noDisputes')}
+        isLoading={isLoading}
+      />
+
+      {/* Pagination */}
+      {meta.totalPages > 1 && (
+        <div className="flex items-center justify-center gap-2">
+          <button
+            onClick={() => setPage(p => Math.max(1, p - 1))}
+            disabled={page === 1}
+            className="rounded-md border px-3 py-1.5 text-sm disabled:opacity-50"
+          >
+            {t('common.previous')}
+          </button>
+          <span className="text-sm text-muted-foreground">
+            {t('common.pageOf', { page, totalPages: meta.totalPages })}
+          </span>
+          <button
+            onClick={() => setPage(p => Math.min(meta.totalPages, p + 1))}
+            disabled={page === meta.totalPages}
+            className="rounded-md border px-3 py-1.5 text-sm disabled:opacity-50"
+          >
+            {t('common.next')}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,520 @@
+'use client';
+
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api, ApiError } from '@/lib/api-client';
+import { DataTable } from '@/components/shared/data-table';
+import { StatusBadge } from '@/components/shared/status-badge';
+import { useTranslations } from 'next-intl';
+import { toast } from 'sonner';
+import { PackagePlus, Plus, ShoppingBag } from 'lucide-react';
+import { useAuthStore } from '@/stores/auth-store';
+
+interface Product {
+  id: string;
+  sku: string;
+  name: string;
+  category: 'LUBRICANT' | 'LPG_ACCESSORY' | 'SHOP';
+  unit: string;
+  unitPrice: string;
+  isActive: boolean;
+}
+
+interface ProductStock {
+  id: string;
+  quantity: string;
+  reorderLevel: string;
+  isLowStock: boolean;
+  product: Product;
+  station: { id: string; code: string; name: string };
+}
+
+interface ProductReceipt {
+  id: string;
+  quantity: string;
+  unitCost: string;
+  reference: string | null;
+  receivedAt: string;
+  product: { id: string; sku: string; name: string; unit: string };
+  supplier: { id: string; name: string };
+  station: { id: string; code: string; name: string };
+  receivedBy: { id: string; fullName: string };
+}
+
+interface Station {
+  id: string;
+  code: string;
+  name: string;
+}
+
+const CATEGORIES = ['LUBRICANT', 'LPG_ACCESSORY', 'SHOP'] as const;
+
+const CATALOG_ROLES = ['SUPER_ADMIN', 'CEO', 'LOGISTICS', 'DCO'];
+
+const RECEIPT_ROLES = ['SUPER_ADMIN', 'LOGISTICS', 'DCO', 'STATION_MANAGER', 'CHEF_PISTE'];
+
+const STATION_ROLES = ['STATION_MANAGER', 'CHEF_PISTE'];
+
+export default function ProductsPage() {
+  const t = useTranslations('Supply');
+  const queryClient = useQueryClient();
+  const user = useAuthStore((state) => state.user);
+  const canManageCatalog = !!user && CATALOG_ROLES.includes(user.role);
+  const canReceive = !!user && RECEIPT_ROLES.includes(user.role);
+  const isStationUser = !!user && STATION_ROLES.includes(user.role);
+
+  const [lowStockOnly, setLowStockOnly] = useState(false);
+  const [product, setProduct] = useState({ sku: '', name: '', category: 'LUBRICANT', unit: '', unitPrice: '' });
+  const [receipt, setReceipt] = useState({
+    stationId: '',
+    productId: '',
+    supplierId: '',
+    quantity: '',
+    unitCost: '',
+    reference: '',
+  });
+
+  const { data: productsData } = useQuery({
+    queryKey: ['products'],
+    queryFn: () => api.get<{ data: Product[] }>('/products?limit=100'),
+  });
+  const products: Product[] = (productsData as any)?.data || [];
+
+  const { data: stockData, isLoading: stockLoading } = useQuery({
+    queryKey: ['product-stock', lowStockOnly],
+    queryFn: () => api.get<ProductStock[]>(`/products/stock${lowStockOnly ? '?lowStock=true' : ''}`),
+  });
+  const stocks: ProductStock[] = Array.isArray(stockData) ? stockData : [];
+
+  const { data: receiptsData, isLoading: receiptsLoading } = useQuery({
+    queryKey: ['product-receipts'],
+    queryFn: () => api.get<{ data: ProductReceipt[] }>('/products/receipts?limit=20'),
+  });
+  const receipts: ProductReceipt[] = (receiptsData as any)?.data || [];
+
+  const { data: stationsData } = useQuery({
+    queryKey: ['stations'],
+    queryFn: () => api.get<{ data: Station[] }>('/stations?limit=100'),
+    enabled: canReceive && !isStationUser,
+  });
+  const stations: Station[] = (stationsData as any)?.data || [];
+
+  const { data: suppliersData } = useQuery({
+    queryKey: ['suppliers', 'active'],
+    queryFn: () => api.get<{ data: { id: string; name: string }[] }>('/suppliers?isActive=true&limit=100'),
+    enabled: canReceive,
+  });
+  const suppliers: { id: string; name: string }[] = (suppliersData as any)?.data || [];
+
+  const onMutationError = (err: ApiError) => toast.error(err.message);
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['products'] });
+    queryClient.invalidateQueries({ queryKey: ['product-stock'] });
+    queryClient.invalidateQueries({ queryKey: ['product-receipts'] });
+  };
+
+  const createProductMutation = useMutation({
+    mutationFn: () =>
+      api.post('/products', {
+        sku: product.sku,
+        name: product.name,
+        category: product.category,
+        unitPrice: Number(product.unitPrice),
+        ...(product.unit && { unit: product.unit }),
+      }),
+    onSuccess: () => {
+      toast.success(t('products.createSuccess'));
+      setProduct({ sku: '', name: '', category: 'LUBRICANT', unit: '', unitPrice: '' });
+      invalidate();
+    },
+    onError: onMutationError,
+  });
+
+  const updatePriceMutation = useMutation({
+    mutationFn: ({ id, unitPrice }: { id: string; unitPrice: number }) => api.put(`/products/${id}`, { unitPrice }),
+    onSuccess: () => {
+      toast.success(t('products.priceUpdated'));
+      invalidate();
+    },
+    onError: onMutationError,
+  });
+
+  const reorderLevelMutation = useMutation({
+    mutationFn: ({ id, reorderLevel }: { id: string; reorderLevel: number }) =>
+      api.put(`/products/stock/${id}`, { reorderLevel }),
+    onSuccess: () => {
+      toast.success(t('products.reorderLevelUpdated'));
+      invalidate();
+    },
+    onError: onMutationError,
+  });
+
+  const receiptMutation = useMutation({
+    mutationFn: () =>
+      api.post('/products/receipts', {
+        stationId: isStationUser ? user?.stationId : receipt.stationId,
+        productId: receipt.productId,
+        supplierId: receipt.supplierId,
+        quantity: Number(receipt.quantity),
+        unitCost: Number(receipt.unitCost),
+        ...(receipt.reference && { reference: receipt.reference }),
+      }),
+    onSuccess: () => {
+      toast.success(t('products.receiptSuccess'));
+      setReceipt((r) => ({ ...r, productId: '', quantity: '', unitCost: '', reference: '' }));
+      invalidate();
+    },
+    onError: onMutationError,
+  });
+
+  const handlePriceChange = (item: Product) => {
+    const value = window.prompt(t('products.newPrice'), String(Number(item.unitPrice)));
+    if (value !== null && Number(value) >= 0) updatePriceMutation.mutate({ id: item.id, unitPrice: Number(value) });
+  };
+
+  const handleReorderLevel = (item: ProductStock) => {
+    const value = window.prompt(t('products.reorderLevel'), String(Number(item.reorderLevel)));
+    if (value !== null && Number(value) >= 0) reorderLevelMutation.mutate({ id: item.id, reorderLevel: Number(value) });
+  };
+
+  const stockColumns = [
+    {
+      key: 'station',
+      header: t('common.station'),
+      render: (item: ProductStock) => <span className="font-medium">{item.station.code}</span>,
+    },
+    {
+      key: 'product',
+      header: t('products.product'),
+      render: (item: ProductStock) => (
+        <div>
+          <p className="font-medium">{item.product.name}</p>
+          <p className="font-mono text-xs text-muted-foreground">{item.product.sku}</p>
+        </div>
+      ),
+    },
+    {
+      key: 'quantity',
+      header: t('products.quantity'),
+      render: (item: ProductStock) => (
+        <span className="font-mono">
+          {Number(item.quantity)} {item.product.unit}
+        </span>
+      ),
+    },
+    {
+      key: 'reorderLevel',
+      header: t('products.reorderLevel'),
+      render: (item: ProductStock) =>
+        canReceive ? (
+          <button onClick={() => handleReorderLevel(item)} className="font-mono underline decoration-dotted">
+            {Number(item.reorderLevel)}
+          </button>
+        ) : (
+          <span className="font-mono">{Number(item.reorderLevel)}</span>
+        ),
+    },
+    {
+      key: 'status',
+      header: t('common.status'),
+      render: (item: ProductStock) =>
+        item.isLowStock ? (
+          <StatusBadge status="danger" label={t('products.lowStock')} />
+        ) : (
+          <StatusBadge status="success" label={t('products.inStock')} />
+        ),
+    },
+  ];
+
+  const catalogColumns = [
+    {
+      key: 'sku',
+      header: t('products.sku'),
+      render: (item: Product) => <span className="font-mono text-sm">{item.sku}</span>,
+    },
+    {
+      key: 'name',
+      header: t('products.name'),
+      render: (item: Product) => <span className="font-medium">{item.name}</span>,
+    },
+    {
+      key: 'category',
+      header: t('products.category'),
+      render: (item: Product) => <span>{t(`products.categories.${item.category}`)}</span>,
+    },
+    {
+      key: 'unitPrice',
+      header: t('products.unitPrice'),
+      render: (item: Product) =>
+        canManageCatalog ? (
+          <button onClick={() => handlePriceChange(item)} className="font-mono underline decoration-dotted">
+            {Number(item.unitPrice).toLocaleString('fr-FR')} FCFA
+          </button>
+        ) : (
+          <span className="font-mono">{Number(item.unitPrice).toLocaleString('fr-FR')} FCFA</span>
+        ),
+    },
+  ];
+
+  const receiptColumns = [
+    {
+      key: 'receivedAt',
+      header: t('common.date'),
+      render: (item: ProductReceipt) => <span>{new Date(item.receivedAt).toLocaleDateString('fr-FR')}</span>,
+    },
+    {
+      key: 'station',
+      header: t('common.station'),
+      render: (item: ProductReceipt) => <span className="font-medium">{item.station.code}</span>,
+    },
+    {
+      key: 'product',
+      header: t('products.product'),
+      render: (item: ProductReceipt) => <span>{item.product.name}</span>,
+    },
+    {
+      key: 'quantity',
+      header: t('products.quantity'),
+      render: (item: ProductReceipt) => (
+        <span className="font-mono">
+          {Number(item.quantity)} {item.product.unit}
+        </span>
+      ),
+    },
+    {
+      key: 'supplier',
+      header: t('products.supplier'),
+      render: (item: ProductReceipt) => (
+        <div className="text-xs">
+          <p>{item.supplier.name}</p>
+          {item.reference && <p className="text-muted-foreground">{item.reference}</p>}
+        </div>
+      ),
+    },
+    {
+      key: 'unitCost',
+      header: t('products.unitCost'),
+      render: (item: ProductReceipt) => (
+        <span className="font-mono">{Number(item.unitCost).toLocaleString('fr-FR')} FCFA</span>
+      ),
+    },
+  ];
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="flex items-center gap-2 text-2xl font-bold">
+          <ShoppingBag className="h-6 w-6" />
+          {t('products.title')}
+        </h1>
+        <p className="text-muted-foreground">{t('products.subtitle')}</p>
+      </div>
+
+      {/* Stock receipt */}
+      {canReceive && (
+        <div className="flex flex-wrap items-end gap-4 rounded-lg border bg-white p-4">
+          {!isStationUser && (
+            <div>
+              <label className="mb-1 block text-sm font-medium">{t('common.station')}</label>
+              <select
+                value={receipt.stationId}
+                onChange={(e) => setReceipt({ ...receipt, stationId: e.target.value })}
+                className="rounded-lg border bg-background px-3 py-2 text-sm"
+              >
+                <option value="">{t('products.selectStation')}</option>
+                {stations.map((s) => (
+                  <option key={s.id} value={s.id}>
+                    {s.code} — {s.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+          <div>
+            <label className="mb-1 block text-sm font-medium">{t('products.product')}</label>
+            <select
+              value={receipt.productId}
+              onChange={(e) => setReceipt({ ...receipt, productId: e.target.value })}
+              className="rounded-lg border bg-background px-3 py-2 text-sm"
+            >
+              <option value="">{t('products.selectProduct')}</option>
+              {products
+                .filter((p) => p.isActive)
+                .map((p) => (
+                  <option key={p.id} value={p.id}>
+                    {p.name} ({p.sku})
+                  </option>
+                ))}
+            </select>
+          </div>
+          <div>
+            <label className="mb-1 block text-sm font-medium">{t('products.supplier')}</label>
+            <select
+              value={receipt.supplierId}
+              onChange={(e) => setReceipt({ ...receipt, supplierId: e.target.value })}
+              className="rounded-lg border bg-background px-3 py-2 text-sm"
+            >
+              <option value="">{t('products.selectSupplier')}</option>
+              {suppliers.map((s) => (
+                <option key={s.id} value={s.id}>
+                  {s.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="mb-1 block text-sm font-medium">{t('products.quantity')}</label>
+            <input
+              type="number"
+              min={0}
+              value={receipt.quantity}
+              onChange={(e) => setReceipt({ ...receipt, quantity: e.target.value })}
+              className="w-24 rounded-lg border bg-background px-3 py-2 text-sm"
+            />
+          </div>
+          <div>
+            <label className="mb-1 block text-sm font-medium">{t('products.unitCost')}</label>
+            <input
+              type="number"
+              min={0}
+              value={receipt.unitCost}
+              onChange={(e) => setReceipt({ ...receipt, unitCost: e.target.value })}
+              className="w-28 rounded-lg border bg-background px-3 py-2 text-sm"
+            />
+          </div>
+          <div>
+            <label className="mb-1 block text-sm font-medium">{t('products.reference')}</label>
+            <input
+              value={receipt.reference}
+              onChange={(e) => setReceipt({ ...receipt, reference: e.target.value })}
+              className="w-32 rounded-lg border bg-background px-3 py-2 text-sm"
+            />
+          </div>
+          <button
+            onClick={() => receiptMutation.mutate()}
+            disabled={
+              (!isStationUser && !receipt.stationId) ||
+              !receipt.productId ||
+              !receipt.supplierId ||
+              !(Number(receipt.quantity) > 0) ||
+              receipt.unitCost === '' ||
+              receiptMutation.isPending
+            }
+            className="flex items-center gap-2 rounded-lg bg-primary px-4 py-2 text-sm font-medium text-primary-foreground hover:bg-primary/90 disabled:opacity-50"
+          >
+            <PackagePlus className="h-4 w-4" />
+            {t('products.receive')}
+          </button>
+        </div>
+      )}
+
+      {/* Station stock */}
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-semibold">{t('products.stock')}</h2>
+          <label className="flex items-center gap-2 text-sm">
+            <input type="checkbox" checked={lowStockOnly} onChange={(e) => setLowStockOnly(e.target.checked)} />
+            {t('products.lowStockOnly')}
+          </label>
+        </div>
+        <DataTable
+          columns={stockColumns}
+          data={stocks}
+          keyExtractor={(item) => item.id}
+          emptyMessage={t('products.noStock')}
+          isLoading={stockLoading}
+        />
+      </div>
+
+      {/* Receipts */}
+      <div className="space-y-2">
+        <h2 className="text-lg font-semibold">{t('products.receipts')}</h2>
+        <DataTable
+          columns={receiptColumns}
+          data={receipts}
+          keyExtractor={(item) => item.id}
+          emptyMessage={t('products.noReceipts')}
+          isLoading={receiptsLoading}
+        />
+      </div>
+
+      {/* Catalog */}
+      <div className="space-y-2">
+        <h2 className="text-lg font-semibold">{t('products.catalog')}</h2>
+        {canManageCatalog && (
+          <div className="flex flex-wrap items-end gap-4 rounded-lg border bg-white p-4">
+            <div>
+              <label className="mb-1 block text-sm font-medium">{t('products.sku')}</label>
+              <input
+                value={product.sku}
+                onChange={(e) => setProduct({ ...product, sku: e.target.value })}
+                className="w-32 rounded-lg border bg-background px-3 py-2 text-sm"
+              />
+            </div>
+            <div className="min-w-[200px] flex-1">
+              <label className="mb-1 block text-sm font-medium">{t('products.name')}</label>
+              <input
+                value={product.name}
+                onChange={(e) => setProduct({ ...product, name: e.target.value })}
+                className="w-full rounded-lg border bg-background px-3 py-2 text-sm"
+              />
+            </div>
+            <div>
+              <label className="mb-1 block text-sm font-medium">{t('products.category')}</label>
+              <select
+                value={product.category}
+                onChange={(e) => setProduct({ ...product, category: e.target.value })}
+                className="rounded-lg border bg-background px-3 py-2 text-sm"
+              >
+                {CATEGORIES.map((c) => (
+                  <option key={c} value={c}>
+                    {t(`products.categories.${c}`)}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="mb-1 block text-sm font-medium">{t('products.unit')}</label>
+              <input
+                value={product.unit}
+                onChange={(e) => setProduct({ ...product, unit: e.target.value })}
+                placeholder={t('products.unitPlaceholder')}
+                className="w-24 rounded-lg border bg-background px-3 py-2 text-sm"
+              />
+            </div>
+            <div>
+              <label className="mb-1 block text-sm font-medium">{t('products.unitPrice')}</label>
+              <input
+                type="number"
+                min={0}
+                value={product.unitPrice}
+                onChange={(e) => setProduct({ ...product, unitPrice: e.target.value })}
+                className="w-28 rounded-lg border bg-background px-3 py-2 text-sm"
+              />
+            </div>
+            <button
+              onClick={() => createProductMutation.mutate()}
+              disabled={
+                !product.sku ||
+                product.name.trim().length < 2 ||
+                product.unitPrice === '' ||
+                createProductMutation.isPending
+              }
+              className="flex items-center gap-2 rounded-lg bg-primary px-4 py-2 text-sm font-medium text-primary-foreground hover:bg-primary/90 disabled:opacity-50"
+            >
+              <Plus className="h-4 w-4" />
+              {t('products.add')}
+            </button>
+          </div>
+        )}
+        <DataTable
+          columns={catalogColumns}
+          data={products}
+          keyExtractor={(item) => item.id}
+          emptyMessage={t('products.noProducts')}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,266 @@
+'use client';
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api, ApiError } from '@/lib/api-client';
+import { StatusBadge } from '@/components/shared/status-badge';
+import { useParams } from 'next/navigation';
+import { useLocale, useTranslations } from 'next-intl';
+import Link from 'next/link';
+import { toast } from 'sonner';
+import { ArrowLeft, ClipboardList, Loader2, Receipt, Truck, XCircle } from 'lucide-react';
+import { useAuthStore } from '@/stores/auth-store';
+
+interface PurchaseOrderLine {
+  id: string;
+  fuelType: string;
+  volume: string;
+  unitPrice: string;
+  amount: string;
+  receivedVolume: number;
+}
+
+interface PurchaseOrderDetail {
+  id: string;
+  poNumber: string;
+  status: 'ISSUED' | 'RECEIVED' | 'CANCELLED';
+  expectedDate: string | null;
+  notes: string | null;
+  totalAmount: string;
+  createdAt: string;
+  supplier: { id: string; name: string };
+  station: { id: string; code: string; name: string };
+  issuedBy: { id: string; fullName: string };
+  lines: PurchaseOrderLine[];
+  requests: {
+    id: string;
+    fuelType: string;
+    requestedVolume: string;
+    status: string;
+    requestedBy: { fullName: string };
+  }[];
+  deliveries: {
+    id: string;
+    blNumber: string;
+    truckPlate: string;
+    status: string;
+    completedAt: string | null;
+  }[];
+  invoices: {
+    id: string;
+    invoiceNumber: string;
+    amount: string;
+    status: string;
+    matchStatus: 'MATCHED' | 'MISMATCH' | null;
+  }[];
+}
+
+const statusColors: Record<string, 'neutral' | 'warning' | 'info' | 'success' | 'danger'> = {
+  ISSUED: 'info',
+  RECEIVED: 'success',
+  CANCELLED: 'neutral',
+};
+
+const ISSUE_ROLES = ['LOGISTICS', 'SUPER_ADMIN'];
+
+export default function PurchaseOrderDetailPage() {
+  const t = useTranslations('Supply');
+  const locale = useLocale();
+  const params = useParams();
+  const id = params.id as string;
+  const queryClient = useQueryClient();
+  const user = useAuthStore((state) => state.user);
+
+  const { data: order, isLoading, error } = useQuery({
+    queryKey: ['purchase-order', id],
+    queryFn: () => api.get<PurchaseOrderDetail>(`/purchase-orders/${id}`),
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: (reason: string) => api.put(`/purchase-orders/${id}/cancel`, { reason }),
+    onSuccess: () => {
+      toast.success(t('purchaseOrders.cancelSuccess'));
+      queryClient.invalidateQueries({ queryKey: ['purchase-order', id] });
+      queryClient.invalidateQueries({ queryKey: ['purchase-orders'] });
+    },
+    onError: (err: ApiError) => toast.error(err.message),
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex h-64 items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (error || !order) {
+    return (
+      <div className="flex h-64 flex-col items-center justify-center gap-4">
+        <p className="text-muted-foreground">{t('purchaseOrders.notFound')}</p>
+        <Link href={`/${locale}/admin/supply/purchase-orders`} className="text-primary hover:underline">
+          {t('common.backToList')}
+        </Link>
+      </div>
+    );
+  }
+
+  const canCancel =
+    order.status === 'ISSUED' && order.deliveries.length === 0 && !!user && ISSUE_ROLES.includes(user.role);
+
+  const handleCancel = () => {
+    const reason = window.prompt(t('purchaseOrders.cancelReason'));
+    if (reason) cancelMutation.mutate(reason);
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-4">
+          <Link href={`/${locale}/admin/supply/purchase-orders`} className="rounded-lg p-2 hover:bg-muted">
+            <ArrowLeft className="h-5 w-5" />
+          </Link>
+          <div>
+            <div className="flex items-center gap-2">
+              <ClipboardList className="h-6 w-6 text-muted-foreground" />
+              <h1 className="font-mono text-2xl font-bold">{order.poNumber}</h1>
+              <StatusBadge status={statusColors[order.status] || 'neutral'} label={t(`purchaseOrders.statuses.${order.status}`)} />
+            </div>
+            <p className="text-muted-foreground">
+              {order.supplier.name} · {order.station.code} — {order.station.name} · {order.issuedBy.fullName},{' '}
+              {new Date(order.createdAt).toLocaleDateString('fr-FR')}
+            </p>
+          </div>
+        </div>
+        {canCancel && (
+          <button
+            onClick={handleCancel}
+            disabled={cancelMutation.isPending}
+            className="flex items-center gap-2 rounded-lg border border-red-300 px-4 py-2 text-sm font-medium text-red-700 hover:bg-red-50 disabled:opacity-50"
+          >
+            <XCircle className="h-4 w-4" />
+            {t('purchaseOrders.cancel')}
+          </button>
+        )}
+      </div>
+
+      {/* Lines: ordered vs received */}
+      <div className="rounded-lg border bg-white p-4">
+        <h2 className="mb-3 font-semibold">{t('purchaseOrders.lines')}</h2>
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b text-left text-muted-foreground">
+              <th className="py-2">{t('common.fuelType')}</th>
+              <th className="py-2 text-right">{t('purchaseOrders.orderedVolume')}</th>
+              <th className="py-2 text-right">{t('purchaseOrders.receivedVolume')}</th>
+              <th className="py-2 text-right">{t('purchaseOrders.unitPrice')}</th>
+              <th className="py-2 text-right">{t('purchaseOrders.amount')}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {order.lines.map((line) => (
+              <tr key={line.id} className="border-b last:border-0">
+                <td className="py-2">{t(`fuelTypes.${line.fuelType}`)}</td>
+                <td className="py-2 text-right font-mono">{Number(line.volume).toLocaleString('fr-FR')} L</td>
+                <td className="py-2 text-right font-mono">{line.receivedVolume.toLocaleString('fr-FR')} L</td>
+                <td className="py-2 text-right font-mono">{Number(line.unitPrice).toLocaleString('fr-FR')}</td>
+                <td className="py-2 text-right font-mono">{Number(line.amount).toLocaleString('fr-FR')} XAF</td>
+              </tr>
+            ))}
+          </tbody>
+          <tfoot>
+            <tr className="font-semibold">
+              <td className="py-2" colSpan={4}>{t('purchaseOrders.totalAmount')}</td>
+              <td className="py-2 text-right font-mono">{Number(order.totalAmount).toLocaleString('fr-FR')} XAF</td>
+            </tr>
+          </tfoot>
+        </table>
+        {(order.expectedDate || order.notes) && (
+          <p className="mt-3 text-sm text-muted-foreground">
+            {order.expectedDate && `${t('purchaseOrders.expectedDate')} : ${new Date(order.expectedDate).toLocaleDateString('fr-FR')}`}
+            {order.expectedDate && order.notes && ' · '}
+            {order.notes}
+          </p>
+        )}
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-3">
+        {/* Requests */}
+        <div className="rounded-lg border bg-white p-4">
+          <h2 className="mb-3 font-semibold">{t('purchaseOrders.requests')}</h2>
+          {order.requests.length === 0 ? (
+            <p className="text-sm text-muted-foreground">—</p>
+          ) : (
+            <ul className="space-y-2 text-sm">
+              {order.requests.map((r) => (
+                <li key={r.id}>
+                  <Link href={`/${locale}/admin/supply/replenishment/${r.id}`} className="text-primary hover:underline">
+                    {t(`fuelTypes.${r.fuelType}`)} — {Number(r.requestedVolume).toLocaleString('fr-FR')} L
+                  </Link>
+                  <span className="ml-2 text-xs text-muted-foreground">{r.requestedBy.fullName}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {/* Deliveries */}
+        <div className="rounded-lg border bg-white p-4">
+          <h2 className="mb-3 flex items-center gap-2 font-semibold">
+            <Truck className="h-4 w-4" />
+            {t('purchaseOrders.deliveries')}
+          </h2>
+          {order.deliveries.length === 0 ? (
+            <p className="text-sm text-muted-foreground">{t('purchaseOrders.noDeliveries')}</p>
+          ) : (
+            <ul className="space-y-2 text-sm">
+              {order.deliveries.map((d) => (
+                <li key={d.id} className="flex items-center justify-between">
+                  <Link href={`/${locale}/admin/supply/deliveries/${d.id}`} className="text-primary hover:underline">
+                    {d.blNumber} · {d.truckPlate}
+                  </Link>
+                  <span className="text-xs text-muted-foreground">{d.status}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+          {order.status === 'ISSUED' && (
+            <Link
+              href={`/${locale}/admin/supply/deliveries/new?stationId=${order.station.id}&purchaseOrderId=${order.id}`}
+              className="mt-3 inline-block text-sm text-primary hover:underline"
+            >
+              {t('purchaseOrders.recordDelivery')}
+            </Link>
+          )}
+        </div>
+
+        {/* Invoices */}
+        <div className="rounded-lg border bg-white p-4">
+          <h2 className="mb-3 flex items-center gap-2 font-semibold">
+            <Receipt className="h-4 w-4" />
+            {t('purchaseOrders.invoices')}
+          </h2>
+          {order.invoices.length === 0 ? (
+            <p className="text-sm text-muted-foreground">{t('purchaseOrders.noInvoices')}</p>
+          ) : (
+            <ul className="space-y-2 text-sm">
+              {order.invoices.map((inv) => (
+                <li key={inv.id} className="flex items-center justify-between">
+                  <Link href={`/${locale}/admin/finance/invoices/${inv.id}`} className="text-primary hover:underline">
+                    #{inv.invoiceNumber} · {Number(inv.amount).toLocaleString('fr-FR')} XAF
+                  </Link>
+                  {inv.matchStatus && (
+                    <StatusBadge
+                      status={inv.matchStatus === 'MATCHED' ? 'success' : 'danger'}
+                      label={t(`purchaseOrders.matchStatuses.${inv.matchStatus}`)}
+                    />
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
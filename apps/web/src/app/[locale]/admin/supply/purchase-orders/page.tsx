@@ -0,0 +1,329 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api, ApiError } from '@/lib/api-client';
+import { DataTable } from '@/components/shared/data-table';
+import { StatusBadge } from '@/components/shared/status-badge';
+import { useLocale, useTranslations } from 'next-intl';
+import { toast } from 'sonner';
+import { ClipboardList, Send } from 'lucide-react';
+import { useAuthStore } from '@/stores/auth-store';
+
+interface Supplier {
+  id: string;
+  name: string;
+}
+
+interface ReplenishmentRequest {
+  id: string;
+  fuelType: string;
+  requestedVolume: string;
+  stationId: string;
+  station: { name: string; code: string };
+  createdAt: string;
+}
+
+interface PurchaseOrder {
+  id: string;
+  poNumber: string;
+  status: 'ISSUED' | 'RECEIVED' | 'CANCELLED';
+  expectedDate: string | null;
+  totalAmount: string;
+  createdAt: string;
+  supplier: Supplier;
+  station: { id: string; code: string; name: string };
+  lines: { fuelType: string; volume: string; unitPrice: string }[];
+  _count: { requests: number; deliveries: number; invoices: number };
+}
+
+const statusColors: Record<string, 'neutral' | 'warning' | 'info' | 'success' | 'danger'> = {
+  ISSUED: 'info',
+  RECEIVED: 'success',
+  CANCELLED: 'neutral',
+};
+
+const ISSUE_ROLES = ['LOGISTICS', 'SUPER_ADMIN'];
+
+export default function PurchaseOrdersPage() {
+  const t = useTranslations('Supply');
+  const locale = useLocale();
+  const queryClient = useQueryClient();
+  const user = useAuthStore((state) => state.user);
+  const canIssue = !!user && ISSUE_ROLES.includes(user.role);
+
+  const [page, setPage] = useState(1);
+  const [filterStatus, setFilterStatus] = useState('');
+  const [supplierId, setSupplierId] = useState('');
+  const [selected, setSelected] = useState<string[]>([]);
+  const [prices, setPrices] = useState<Record<string, string>>({});
+  const [expectedDate, setExpectedDate] = useState('');
+  const limit = 20;
+
+  const { data: suppliersData } = useQuery({
+    queryKey: ['suppliers', 'fuel'],
+    queryFn: () => api.get<Supplier[]>('/suppliers?isActive=true&category=FUEL_SUPPLY&limit=100'),
+    enabled: canIssue,
+  });
+  const suppliers: Supplier[] = (suppliersData as any)?.data || [];
+
+  const { data: requestsData } = useQuery({
+    queryKey: ['replenishment-requests-validated'],
+    queryFn: () => api.get<ReplenishmentRequest[]>('/deliveries/requests?status=VALIDATED&limit=100'),
+    enabled: canIssue,
+  });
+  const validatedRequests: ReplenishmentRequest[] = (requestsData as any)?.data || [];
+
+  const queryParams = new URLSearchParams({
+    page: String(page),
+    limit: String(limit),
+    ...(filterStatus && { status: filterStatus }),
+  });
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['purchase-orders', page, filterStatus],
+    queryFn: () => api.get<PurchaseOrder[]>(`/purchase-orders?${queryParams}`),
+  });
+  const orders: PurchaseOrder[] = (data as any)?.data || [];
+  const meta = (data as any)?.meta || { total: 0, page: 1, totalPages: 0 };
+
+  // A purchase order is delivered to a single station
+  const selectedRequests = validatedRequests.filter((r) => selected.includes(r.id));
+  const selectedStationId = selectedRequests[0]?.stationId;
+  const selectedFuelTypes = [...new Set(selectedRequests.map((r) => r.fuelType))];
+  const volumeOf = (fuelType: string) =>
+    selectedRequests.filter((r) => r.fuelType === fuelType).reduce((sum, r) => sum + Number(r.requestedVolume), 0);
+  const total = selectedFuelTypes.reduce((sum, f) => sum + volumeOf(f) * (Number(prices[f]) || 0), 0);
+
+  const toggle = (id: string) =>
+    setSelected((ids) => (ids.includes(id) ? ids.filter((x) => x !== id) : [...ids, id]));
+
+  const createMutation = useMutation({
+    mutationFn: () =>
+      api.post('/purchase-orders', {
+        supplierId,
+        replenishmentRequestIds: selected,
+        prices: selectedFuelTypes.map((fuelType) => ({ fuelType, unitPrice: Number(prices[fuelType]) })),
+        ...(expectedDate && { expectedDate }),
+      }),
+    onSuccess: () => {
+      toast.success(t('purchaseOrders.issueSuccess'));
+      setSelected([]);
+      setPrices({});
+      setExpectedDate('');
+      queryClient.invalidateQueries({ queryKey: ['purchase-orders'] });
+      queryClient.invalidateQueries({ queryKey: ['replenishment-requests-validated'] });
+    },
+    onError: (err: ApiError) => toast.error(err.message),
+  });
+
+  const columns = [
+    {
+      key: 'poNumber',
+      header: t('purchaseOrders.poNumber'),
+      render: (item: PurchaseOrder) => (
+        <Link href={`/${locale}/admin/supply/purchase-orders/${item.id}`} className="font-mono font-medium text-primary hover:underline">
+          {item.poNumber}
+        </Link>
+      ),
+    },
+    {
+      key: 'supplier',
+      header: t('purchaseOrders.supplier'),
+      render: (item: PurchaseOrder) => <span>{item.supplier.name}</span>,
+    },
+    {
+      key: 'station',
+      header: t('common.station'),
+      render: (item: PurchaseOrder) => <span className="font-medium">{item.station.code}</span>,
+    },
+    {
+      key: 'lines',
+      header: t('common.volume'),
+      render: (item: PurchaseOrder) => (
+        <div className="text-xs">
+          {item.lines.map((l) => (
+            <div key={l.fuelType}>
+              {t(`fuelTypes.${l.fuelType}`)} : <span className="font-mono">{Number(l.volume).toLocaleString('fr-FR')} L</span>
+            </div>
+          ))}
+        </div>
+      ),
+    },
+    {
+      key: 'totalAmount',
+      header: t('purchaseOrders.totalAmount'),
+      render: (item: PurchaseOrder) => (
+        <span className="font-mono">{Number(item.totalAmount).toLocaleString('fr-FR')} XAF</span>
+      ),
+    },
+    {
+      key: 'expectedDate',
+      header: t('purchaseOrders.expectedDate'),
+      render: (item: PurchaseOrder) => (
+        <span className="text-sm">{item.expectedDate ? new Date(item.expectedDate).toLocaleDateString('fr-FR') : '—'}</span>
+      ),
+    },
+    {
+      key: 'status',
+      header: t('common.status'),
+      render: (item: PurchaseOrder) => (
+        <StatusBadge status={statusColors[item.status] || 'neutral'} label={t(`purchaseOrders.statuses.${item.status}`)} />
+      ),
+    },
+  ];
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="flex items-center gap-2 text-2xl font-bold">
+          <ClipboardList className="h-6 w-6" />
+          {t('purchaseOrders.title')}
+        </h1>
+        <p className="text-muted-foreground">{t('purchaseOrders.subtitle')}</p>
+      </div>
+
+      {/* Issue form */}
+      {canIssue && (
+        <div className="space-y-4 rounded-lg border bg-white p-4">
+          <h2 className="font-semibold">{t('purchaseOrders.issueTitle')}</h2>
+          {validatedRequests.length === 0 ? (
+            <p className="text-sm text-muted-foreground">{t('purchaseOrders.noValidatedRequests')}</p>
+          ) : (
+            <div className="space-y-2">
+              {validatedRequests.map((r) => {
+                const otherStation = !!selectedStationId && r.stationId !== selectedStationId;
+                return (
+                  <label
+                    key={r.id}
+                    className={`flex items-center gap-3 rounded border px-3 py-2 text-sm ${otherStation ? 'opacity-50' : ''}`}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={selected.includes(r.id)}
+                      disabled={otherStation}
+                      onChange={() => toggle(r.id)}
+                    />
+                    <span className="font-medium">{r.station.code}</span>
+                    <span>{t(`fuelTypes.${r.fuelType}`)}</span>
+                    <span className="font-mono">{Number(r.requestedVolume).toLocaleString('fr-FR')} L</span>
+                    <span className="text-xs text-muted-foreground">{new Date(r.createdAt).toLocaleDateString('fr-FR')}</span>
+                  </label>
+                );
+              })}
+            </div>
+          )}
+
+          <div className="flex flex-wrap items-end gap-4">
+            <div>
+              <label className="mb-1 block text-sm font-medium">{t('purchaseOrders.supplier')}</label>
+              <select
+                value={supplierId}
+                onChange={(e) => setSupplierId(e.target.value)}
+                className="rounded-lg border bg-background px-3 py-2 text-sm"
+              >
+                <option value="">{t('purchaseOrders.selectSupplier')}</option>
+                {suppliers.map((s) => (
+                  <option key={s.id} value={s.id}>
+                    {s.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            {selectedFuelTypes.map((fuelType) => (
+              <div key={fuelType}>
+                <label className="mb-1 block text-sm font-medium">
+                  {t('purchaseOrders.unitPriceFor', { fuelType: t(`fuelTypes.${fuelType}`), volume: volumeOf(fuelType).toLocaleString('fr-FR') })}
+                </label>
+                <input
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={prices[fuelType] ?? ''}
+                  onChange={(e) => setPrices((p) => ({ ...p, [fuelType]: e.target.value }))}
+                  className="w-40 rounded-lg border bg-background px-3 py-2 text-sm"
+                />
+              </div>
+            ))}
+            <div>
+              <label className="mb-1 block text-sm font-medium">{t('purchaseOrders.expectedDate')}</label>
+              <input
+                type="date"
+                value={expectedDate}
+                onChange={(e) => setExpectedDate(e.target.value)}
+                className="rounded-lg border bg-background px-3 py-2 text-sm"
+              />
+            </div>
+            <div className="text-sm">
+              <span className="text-muted-foreground">{t('purchaseOrders.totalAmount')} : </span>
+              <span className="font-mono font-semibold">{total.toLocaleString('fr-FR')} XAF</span>
+            </div>
+            <button
+              onClick={() => createMutation.mutate()}
+              disabled={
+                !supplierId ||
+                selected.length === 0 ||
+                selectedFuelTypes.some((f) => !(Number(prices[f]) > 0)) ||
+                createMutation.isPending
+              }
+              className="flex items-center gap-2 rounded-lg bg-primary px-4 py-2 text-sm font-medium text-primary-foreground hover:bg-primary/90 disabled:opacity-50"
+            >
+              <Send className="h-4 w-4" />
+              {t('purchaseOrders.issue')}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Filter */}
+      <select
+        value={filterStatus}
+        onChange={(e) => {
+          setFilterStatus(e.target.value);
+          setPage(1);
+        }}
+        className="rounded-lg border bg-background px-3 py-2 text-sm"
+      >
+        <option value="">{t('purchaseOrders.allStatuses')}</option>
+        {Object.keys(statusColors).map((status) => (
+          <option key={status} value={status}>
+            {t(`purchaseOrders.statuses.${status}`)}
+          </option>
+        ))}
+      </select>
+
+      <DataTable
+        columns={columns}
+        data={orders}
+        keyExtractor={(item) => item.id}
+        emptyMessage={t('purchaseOrders.noOrders')}
+        isLoading={isLoading}
+      />
+
+      {/* Pagination */}
+      {meta.totalPages > 1 && (
+        <div className="flex items-center justify-center gap-2">
+          <button
+            onClick={() => setPage(p => Math.max(1, p - 1))}
+            disabled={page === 1}
+            className="rounded-md border px-3 py-1.5 text-sm disabled:opacity-50"
+          >
+            {t('common.previous')}
+          </button>
+          <span className="text-sm text-muted-foreground">
+            {t('common.pageOf', { page, totalPages: meta.totalPages })}
+          </span>
+          <button
+            onClick={() => setPage(p => Math.min(meta.totalPages, p + 1))}
+            disabled={page === meta.totalPages}
+            className="rounded-md border px-3 py-1.5 text-sm disabled:opacity-50"
+          >
+            {t('common.next')}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
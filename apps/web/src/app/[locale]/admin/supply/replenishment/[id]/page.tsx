@@ -19,7 +19,8 @@ import {
   Truck,
   Package,
   Clock,
-  ArrowRight
+  ArrowRight,
+  ClipboardList
 } from 'lucide-react';
 import { StatusBadge } from '@/components/shared/status-badge';
 import { useState } from 'react';
@@ -45,6 +46,19 @@ interface ReplenishmentRequest {
     status: string;
     createdAt: string;
   }>;
+  purchaseOrder?: {
+    id: string;
+    poNumber: string;
+    status: 'ISSUED' | 'RECEIVED' | 'CANCELLED';
+    expectedDate: string | null;
+    supplier: { id: string; name: string };
+    lines: Array<{ fuelType: string; unitPrice: string; amount: string }>;
+  } | null;
+}
+
+interface Supplier {
+  id: string;
+  name: string;
 }
 
 const statusColors: Record<string, 'neutral' | 'warning' | 'info' | 'success' | 'error'> = {
@@ -79,6 +93,18 @@ export default function ReplenishmentDetailPage() {
 
   const request = data as ReplenishmentRequest | undefined;
 
+  // Purchase order form (VALIDATED → ORDERED)
+  const [supplierId, setSupplierId] = useState('');
+  const [unitPrice, setUnitPrice] = useState('');
+  const [expectedDate, setExpectedDate] = useState('');
+
+  const { data: suppliersData } = useQuery({
+    queryKey: ['suppliers', 'fuel'],
+    queryFn: () => api.get<Supplier[]>('/suppliers?isActive=true&category=FUEL_SUPPLY&limit=100'),
+    enabled: request?.status === 'VALIDATED',
+  });
+  const suppliers: Supplier[] = (suppliersData as any)?.data || [];
+
   // Mutations for status transitions
   const submitMutation = useMutation({
     mutationFn: () => api.put(`/deliveries/requests/${id}/submit`, {}),
@@ -97,8 +123,14 @@ export default function ReplenishmentDetailPage() {
   });
 
   const orderMutation = useMutation({
-    mutationFn: () => api.put(`/deliveries/requests/${id}/order`, {}),
+    mutationFn: () =>
+      api.put(`/deliveries/requests/${id}/order`, {
+        supplierId,
+        unitPrice: Number(unitPrice),
+        ...(expectedDate && { expectedDate }),
+      }),
     onSuccess: () => {
+      toast.success('Bon de commande émis');
       queryClient.invalidateQueries({ queryKey: ['replenishment', id] });
       },
     onError: (err: ApiError) => toast.error(err.message),
@@ -329,6 +361,28 @@ export default function ReplenishmentDetailPage() {
         )}
       </div>
 
+      {/* Purchase Order */}
+      {request.purchaseOrder && (
+        <div className="rounded-lg border bg-card p-6 space-y-2">
+          <h2 className="font-semibold flex items-center gap-2">
+            <ClipboardList className="h-5 w-5" />
+            Bon de commande
+          </h2>
+          <Link
+            href={`/${locale}/admin/supply/purchase-orders/${request.purchaseOrder.id}`}
+            className="flex items-center justify-between p-3 rounded-md border hover:bg-muted"
+          >
+            <div>
+              <span className="font-mono font-medium">{request.purchaseOrder.poNumber}</span>
+              <span className="text-sm text-muted-foreground ml-2">{request.purchaseOrder.supplier.name}</span>
+            </div>
+            <span className="font-mono text-sm">
+              {Number(request.purchaseOrder.lines.find((l) => l.fuelType === request.fuelType)?.unitPrice ?? 0).toLocaleString('fr-FR')} XAF/L
+            </span>
+          </Link>
+        </div>
+      )}
+
       {/* Linked Deliveries */}
       {request.deliveries && request.deliveries.length > 0 && (
         <div className="rounded-lg border bg-card p-6 space-y-4">
@@ -398,14 +452,55 @@ export default function ReplenishmentDetailPage() {
         )}
 
         {request.status === 'VALIDATED' && (
-          <button
-            onClick={() => orderMutation.mutate()}
-            disabled={orderMutation.isPending}
-            className="inline-flex items-center gap-2 rounded-md bg-blue-600 px-4 py-2.5 text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50"
-          >
-            <Truck className="h-4 w-4" />
-            {orderMutation.isPending ? 'Commande...' : 'Marquer comme commandé'}
-          </button>
+          <div className="flex w-full flex-wrap items-end gap-3">
+            <div className="space-y-1">
+              <label className="text-sm font-medium">Fournisseur</label>
+              <select
+                value={supplierId}
+                onChange={(e) => setSupplierId(e.target.value)}
+                className="block rounded-md border bg-background px-3 py-2 text-sm"
+              >
+                <option value="">Sélectionner un fournisseur</option>
+                {suppliers.map((s) => (
+                  <option key={s.id} value={s.id}>{s.name}</option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-1">
+              <label className="text-sm font-medium">Prix unitaire (XAF/L)</label>
+              <input
+                type="number"
+                min={0}
+                step="0.01"
+                value={unitPrice}
+                onChange={(e) => setUnitPrice(e.target.value)}
+                className="block w-40 rounded-md border bg-background px-3 py-2 text-sm"
+              />
+            </div>
+            <div className="space-y-1">
+              <label className="text-sm font-medium">Livraison prévue</label>
+              <input
+                type="date"
+                value={expectedDate}
+                onChange={(e) => setExpectedDate(e.target.value)}
+                className="block rounded-md border bg-background px-3 py-2 text-sm"
+              />
+            </div>
+            <button
+              onClick={() => orderMutation.mutate()}
+              disabled={!supplierId || !(Number(unitPrice) > 0) || orderMutation.isPending}
+              className="inline-flex items-center gap-2 rounded-md bg-blue-600 px-4 py-2.5 text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+            >
+              <Truck className="h-4 w-4" />
+              {orderMutation.isPending ? 'Commande...' : 'Émettre le bon de commande'}
+            </button>
+            <Link
+              href={`/${locale}/admin/supply/purchase-orders`}
+              className="text-sm text-primary hover:underline"
+            >
+              Regrouper avec d&apos;autres demandes
+            </Link>
+          </div>
         )}
 
         {request.status === 'ORDERED' && (
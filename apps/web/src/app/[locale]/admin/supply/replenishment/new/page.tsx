@@ -5,7 +5,7 @@ import { useRouter } from 'next/navigation';
 import { useQuery, useMutation } from '@tanstack/react-query';
 import { api, ApiError } from '@/lib/api-client';
 import { useLocale, useTranslations } from 'next-intl';
-import { ArrowLeft, AlertTriangle, Fuel, Info } from 'lucide-react';
+import { ArrowLeft, AlertTriangle, Fuel, Info, TrendingUp } from 'lucide-react';
 import Link from 'next/link';
 import { toast } from 'sonner';
 
@@ -25,6 +25,19 @@ interface UllageInfo {
   percentFull: number;
 }
 
+interface TankForecast {
+  tankId: string;
+  basis: 'FORECAST' | 'LOW_LEVEL';
+  historyDays: number;
+  averageDailyVolume: number;
+  trendPerDay: number;
+  daysOfCover: number | null;
+  orderDate: string | null;
+  isOrderDue: boolean;
+  recommendedVolume: number;
+  settings: { leadTimeDays: number; truckCompartmentVolume: number };
+}
+
 export default function NewReplenishmentPage() {
   const router = useRouter();
   const locale = useLocale();
@@ -50,6 +63,14 @@ export default function NewReplenishmentPage() {
   });
   const ullage = ullageData as UllageInfo | undefined;
 
+  // Demand forecast of the tank: days of cover and recommended order
+  const { data: forecastData } = useQuery({
+    queryKey: ['replenishment-forecast', stationId, fuelType],
+    queryFn: () => api.get<TankForecast[]>(`/deliveries/forecast?stationId=${stationId}&fuelType=${fuelType}`),
+    enabled: !!stationId && !!fuelType,
+  });
+  const forecast = (forecastData as TankForecast[] | undefined)?.[0];
+
   // Create mutation
   const createMutation = useMutation({
     mutationFn: (data: { stationId: string; fuelType: string; requestedVolume: number }) =>
@@ -225,6 +246,70 @@ export default function NewReplenishmentPage() {
           </div>
         )}
 
+        {/* Demand Forecast */}
+        {stationId && forecast && (
+          <div className="rounded-lg border bg-card p-4 space-y-3">
+            <div className="flex items-center gap-2">
+              <TrendingUp className="h-5 w-5 text-blue-500" />
+              <span className="font-medium">{t('replenishment.forecast.title')}</span>
+            </div>
+            {forecast.basis === 'FORECAST' ? (
+              <div className="grid grid-cols-2 gap-4 text-sm">
+                <div>
+                  <div className="text-muted-foreground">{t('replenishment.forecast.averageDailyVolume')}</div>
+                  <div className="font-mono font-medium">
+                    {forecast.averageDailyVolume.toLocaleString()} L
+                    <span className="ml-2 text-xs text-muted-foreground">
+                      {t('replenishment.forecast.trend', { trend: `${forecast.trendPerDay >= 0 ? '+' : ''}${forecast.trendPerDay}` })}
+                    </span>
+                  </div>
+                </div>
+                <div>
+                  <div className="text-muted-foreground">{t('replenishment.forecast.daysOfCover')}</div>
+                  <div className={`font-mono font-medium ${forecast.isOrderDue ? 'text-red-600' : ''}`}>
+                    {forecast.daysOfCover === null
+                      ? t('replenishment.forecast.beyondHorizon')
+                      : t('replenishment.forecast.days', { days: forecast.daysOfCover })}
+                  </div>
+                </div>
+                <div>
+                  <div className="text-muted-foreground">{t('replenishment.forecast.orderDate')}</div>
+                  <div className="font-mono font-medium">
+                    {forecast.isOrderDue
+                      ? t('replenishment.forecast.orderNow')
+                      : forecast.orderDate
+                        ? new Date(forecast.orderDate).toLocaleDateString('fr-FR')
+                        : '—'}
+                  </div>
+                </div>
+                <div>
+                  <div className="text-muted-foreground">{t('replenishment.forecast.recommendedVolume')}</div>
+                  <div className="font-mono font-medium">{forecast.recommendedVolume.toLocaleString()} L</div>
+                </div>
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                {t('replenishment.forecast.notEnoughHistory', { days: forecast.historyDays })}
+              </p>
+            )}
+            <p className="text-xs text-muted-foreground">
+              {t('replenishment.forecast.assumptions', {
+                leadTime: forecast.settings.leadTimeDays,
+                compartment: forecast.settings.truckCompartmentVolume.toLocaleString(),
+              })}
+            </p>
+            {forecast.recommendedVolume > 0 && (
+              <button
+                type="button"
+                onClick={() => setRequestedVolume(String(forecast.recommendedVolume))}
+                className="rounded-md border px-2 py-1 text-xs hover:bg-muted"
+              >
+                {t('replenishment.forecast.useRecommended', { volume: forecast.recommendedVolume.toLocaleString() })}
+              </button>
+            )}
+          </div>
+        )}
+
         {/* Volume */}
         <div className="space-y-2">
           <label htmlFor="volume" className="text-sm font-medium">
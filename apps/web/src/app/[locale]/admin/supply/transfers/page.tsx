@@ -0,0 +1,451 @@
+'use client';
+
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api, ApiError } from '@/lib/api-client';
+import { DataTable } from '@/components/shared/data-table';
+import { StatusBadge } from '@/components/shared/status-badge';
+import { useTranslations } from 'next-intl';
+import { toast } from 'sonner';
+import { ArrowRight, ArrowRightLeft, Check, X, Truck, PackageCheck } from 'lucide-react';
+import { useAuthStore } from '@/stores/auth-store';
+
+interface Tank {
+  id: string;
+  fuelType: string;
+  capacity: string;
+  currentLevel: string;
+  station: { id: string; code: string; name: string };
+}
+
+interface FuelTransfer {
+  id: string;
+  fuelType: string;
+  requestedVolume: string;
+  reason: string;
+  truckPlate: string | null;
+  status: 'PENDING_APPROVAL' | 'APPROVED' | 'IN_TRANSIT' | 'COMPLETED' | 'REJECTED';
+  volumeOut: string | null;
+  volumeIn: string | null;
+  transitVariance: string | null;
+  rejectionReason: string | null;
+  createdAt: string;
+  sourceTank: { id: string; fuelType: string };
+  destinationTank: { id: string; fuelType: string };
+  sourceStation: { id: string; code: string; name: string };
+  destinationStation: { id: string; code: string; name: string };
+  requestedBy: { id: string; fullName: string };
+}
+
+interface TransferListResponse {
+  data: FuelTransfer[];
+  meta: { total: number; page: number; limit: number; totalPages: number };
+}
+
+const statusColors: Record<string, 'neutral' | 'warning' | 'info' | 'success' | 'danger'> = {
+  PENDING_APPROVAL: 'warning',
+  APPROVED: 'info',
+  IN_TRANSIT: 'info',
+  COMPLETED: 'success',
+  REJECTED: 'danger',
+};
+
+const REVIEW_ROLES = ['LOGISTICS', 'DCO', 'SUPER_ADMIN'];
+
+export default function TransfersPage() {
+  const t = useTranslations('Supply');
+  const queryClient = useQueryClient();
+  const user = useAuthStore((state) => state.user);
+
+  const [page, setPage] = useState(1);
+  const [filterStatus, setFilterStatus] = useState('');
+  const [sourceTankId, setSourceTankId] = useState('');
+  const [destinationTankId, setDestinationTankId] = useState('');
+  const [requestedVolume, setRequestedVolume] = useState('');
+  const [reason, setReason] = useState('');
+  const [truckPlate, setTruckPlate] = useState('');
+  const [dipsFor, setDipsFor] = useState<{ id: string; side: 'dispatch' | 'receive' } | null>(null);
+  const [openingDip, setOpeningDip] = useState('');
+  const [closingDip, setClosingDip] = useState('');
+  const limit = 20;
+
+  const { data: tanksData } = useQuery({
+    queryKey: ['tanks'],
+    queryFn: () => api.get<Tank[]>('/tanks'),
+  });
+  const tanks: Tank[] = Array.isArray(tanksData) ? tanksData : (tanksData as any)?.data || [];
+  const sourceTank = tanks.find((tank) => tank.id === sourceTankId);
+
+  const queryParams = new URLSearchParams({
+    page: String(page),
+    limit: String(limit),
+    ...(filterStatus && { status: filterStatus }),
+  });
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['transfers', page, filterStatus],
+    queryFn: () => api.get<TransferListResponse>(`/transfers?${queryParams}`),
+  });
+
+  const transfers: FuelTransfer[] = (data as any)?.data || [];
+  const meta = (data as any)?.meta || { total: 0, page: 1, totalPages: 0 };
+
+  const onMutationError = (err: ApiError) => toast.error(err.message);
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['transfers'] });
+    queryClient.invalidateQueries({ queryKey: ['tanks'] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: () =>
+      api.post('/transfers', {
+        sourceTankId,
+        destinationTankId,
+        requestedVolume: Number(requestedVolume),
+        reason,
+        ...(truckPlate && { truckPlate }),
+      }),
+    onSuccess: () => {
+      toast.success(t('transfers.requestSuccess'));
+      setRequestedVolume('');
+      setReason('');
+      setTruckPlate('');
+      invalidate();
+    },
+    onError: onMutationError,
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: ({ id, action, reason }: { id: string; action: 'approve' | 'reject'; reason?: string }) =>
+      api.put(`/transfers/${id}/${action}`, action === 'reject' ? { reason } : {}),
+    onSuccess: (_data, { action }) => {
+      toast.success(t(action === 'approve' ? 'transfers.approveSuccess' : 'transfers.rejectSuccess'));
+      invalidate();
+    },
+    onError: onMutationError,
+  });
+
+  const dipsMutation = useMutation({
+    mutationFn: ({ id, side }: { id: string; side: 'dispatch' | 'receive' }) =>
+      api.put(`/transfers/${id}/${side}`, { openingDip: Number(openingDip), closingDip: Number(closingDip) }),
+    onSuccess: (_data, { side }) => {
+      toast.success(t(side === 'dispatch' ? 'transfers.dispatchSuccess' : 'transfers.receiveSuccess'));
+      setDipsFor(null);
+      setOpeningDip('');
+      setClosingDip('');
+      invalidate();
+    },
+    onError: onMutationError,
+  });
+
+  const handleReject = (id: string) => {
+    const rejection = window.prompt(t('transfers.rejectionReason'));
+    if (rejection) reviewMutation.mutate({ id, action: 'reject', reason: rejection });
+  };
+
+  const tankLabel = (tank: Tank) =>
+    `${tank.station.code} — ${t(`fuelTypes.${tank.fuelType}`)} (${Number(tank.currentLevel).toFixed(0)} / ${Number(tank.capacity).toFixed(0)} L)`;
+
+  const canStationAct = (stationId: string) =>
+    !!user && (user.role !== 'STATION_MANAGER' || user.stationId === stationId);
+
+  const columns = [
+    {
+      key: 'route',
+      header: t('transfers.route'),
+      render: (item: FuelTransfer) => (
+        <div className="flex items-center gap-2">
+          <span className="font-medium">{item.sourceStation.code}</span>
+          <ArrowRight className="h-4 w-4 text-muted-foreground" />
+          <span className="font-medium">{item.destinationStation.code}</span>
+          {item.truckPlate && (
+            <span className="flex items-center gap-1 text-xs text-muted-foreground">
+              <Truck className="h-3 w-3" />
+              {item.truckPlate}
+            </span>
+          )}
+        </div>
+      ),
+    },
+    {
+      key: 'fuelType',
+      header: t('common.fuelType'),
+      render: (item: FuelTransfer) => <span>{t(`fuelTypes.${item.fuelType}`)}</span>,
+    },
+    {
+      key: 'volume',
+      header: t('common.volume'),
+      render: (item: FuelTransfer) => (
+        <div className="text-sm">
+          <div className="font-mono">{Number(item.requestedVolume).toLocaleString('fr-FR')} L</div>
+          {item.volumeOut && (
+            <div className="text-xs text-muted-foreground">
+              {t('transfers.volumeOut')}: {Number(item.volumeOut).toFixed(0)} L
+              {item.volumeIn && ` · ${t('transfers.volumeIn')}: ${Number(item.volumeIn).toFixed(0)} L`}
+            </div>
+          )}
+          {item.transitVariance && Number(item.transitVariance) !== 0 && (
+            <div className={Number(item.transitVariance) < 0 ? 'text-xs text-red-600' : 'text-xs text-green-600'}>
+              {t('transfers.transitVariance')}: {Number(item.transitVariance).toFixed(2)} L
+            </div>
+          )}
+        </div>
+      ),
+    },
+    {
+      key: 'reason',
+      header: t('transfers.reason'),
+      render: (item: FuelTransfer) => (
+        <div className="max-w-xs text-xs">
+          <p>{item.reason}</p>
+          <p className="text-muted-foreground">{item.requestedBy.fullName}</p>
+          {item.rejectionReason && <p className="text-red-600">{item.rejectionReason}</p>}
+        </div>
+      ),
+    },
+    {
+      key: 'status',
+      header: t('common.status'),
+      render: (item: FuelTransfer) => (
+        <StatusBadge status={statusColors[item.status] || 'neutral'} label={t(`transfers.statuses.${item.status}`)} />
+      ),
+    },
+    {
+      key: 'actions',
+      header: '',
+      render: (item: FuelTransfer) => {
+        if (
+          item.status === 'PENDING_APPROVAL' &&
+          user &&
+          REVIEW_ROLES.includes(user.role) &&
+          item.requestedBy.id !== user.userId
+        ) {
+          return (
+            <div className="flex gap-2">
+              <button
+                onClick={() => reviewMutation.mutate({ id: item.id, action: 'approve' })}
+                className="flex items-center gap-1 rounded border border-green-300 px-2 py-1 text-xs text-green-700 hover:bg-green-50"
+              >
+                <Check className="h-3 w-3" />
+                {t('transfers.approve')}
+              </button>
+              <button
+                onClick={() => handleReject(item.id)}
+                className="flex items-center gap-1 rounded border border-red-300 px-2 py-1 text-xs text-red-700 hover:bg-red-50"
+              >
+                <X className="h-3 w-3" />
+                {t('transfers.reject')}
+              </button>
+            </div>
+          );
+        }
+        if (item.status === 'APPROVED' && canStationAct(item.sourceStation.id)) {
+          return (
+            <button
+              onClick={() => setDipsFor({ id: item.id, side: 'dispatch' })}
+              className="flex items-center gap-1 rounded border px-2 py-1 text-xs hover:bg-gray-50"
+            >
+              <Truck className="h-3 w-3" />
+              {t('transfers.dispatch')}
+            </button>
+          );
+        }
+        if (item.status === 'IN_TRANSIT' && canStationAct(item.destinationStation.id)) {
+          return (
+            <button
+              onClick={() => setDipsFor({ id: item.id, side: 'receive' })}
+              className="flex items-center gap-1 rounded border px-2 py-1 text-xs hover:bg-gray-50"
+            >
+              <PackageCheck className="h-3 w-3" />
+              {t('transfers.receive')}
+            </button>
+          );
+        }
+        return null;
+      },
+    },
+  ];
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="flex items-center gap-2 text-2xl font-bold">
+          <ArrowRightLeft className="h-6 w-6" />
+          {t('transfers.title')}
+        </h1>
+        <p className="text-muted-foreground">{t('transfers.subtitle')}</p>
+      </div>
+
+      {/* Request form */}
+      <div className="flex flex-wrap items-end gap-4 rounded-lg border bg-white p-4">
+        <div>
+          <label className="mb-1 block text-sm font-medium">{t('transfers.sourceTank')}</label>
+          <select
+            value={sourceTankId}
+            onChange={(e) => {
+              setSourceTankId(e.target.value);
+              setDestinationTankId('');
+            }}
+            className="rounded-lg border bg-background px-3 py-2 text-sm"
+          >
+            <option value="">{t('transfers.selectTank')}</option>
+            {tanks.map((tank) => (
+              <option key={tank.id} value={tank.id}>
+                {tankLabel(tank)}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="mb-1 block text-sm font-medium">{t('transfers.destinationTank')}</label>
+          <select
+            value={destinationTankId}
+            onChange={(e) => setDestinationTankId(e.target.value)}
+            disabled={!sourceTank}
+            className="rounded-lg border bg-background px-3 py-2 text-sm disabled:opacity-50"
+          >
+            <option value="">{t('transfers.selectTank')}</option>
+            {tanks
+              .filter((tank) => tank.id !== sourceTankId && tank.fuelType === sourceTank?.fuelType)
+              .map((tank) => (
+                <option key={tank.id} value={tank.id}>
+                  {tankLabel(tank)}
+                </option>
+              ))}
+          </select>
+        </div>
+        <div>
+          <label className="mb-1 block text-sm font-medium">{t('transfers.requestedVolume')}</label>
+          <input
+            type="number"
+            min={0}
+            value={requestedVolume}
+            onChange={(e) => setRequestedVolume(e.target.value)}
+            className="w-32 rounded-lg border bg-background px-3 py-2 text-sm"
+          />
+        </div>
+        <div>
+          <label className="mb-1 block text-sm font-medium">{t('deliveries.truckPlate')}</label>
+          <input
+            value={truckPlate}
+            onChange={(e) => setTruckPlate(e.target.value)}
+            className="w-32 rounded-lg border bg-background px-3 py-2 text-sm"
+          />
+        </div>
+        <div className="min-w-[200px] flex-1">
+          <label className="mb-1 block text-sm font-medium">{t('transfers.reason')}</label>
+          <input
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder={t('transfers.reasonPlaceholder')}
+            className="w-full rounded-lg border bg-background px-3 py-2 text-sm"
+          />
+        </div>
+        <button
+          onClick={() => createMutation.mutate()}
+          disabled={
+            !sourceTankId ||
+            !destinationTankId ||
+            !(Number(requestedVolume) > 0) ||
+            reason.trim().length < 5 ||
+            createMutation.isPending
+          }
+          className="flex items-center gap-2 rounded-lg bg-primary px-4 py-2 text-sm font-medium text-primary-foreground hover:bg-primary/90 disabled:opacity-50"
+        >
+          <ArrowRightLeft className="h-4 w-4" />
+          {t('transfers.request')}
+        </button>
+      </div>
+
+      {/* Dips */}
+      {dipsFor && (
+        <div className="space-y-2 rounded-lg border border-blue-200 bg-blue-50 p-4">
+          <p className="text-sm font-medium">
+            {t(dipsFor.side === 'dispatch' ? 'transfers.dispatchDips' : 'transfers.receiveDips')}
+          </p>
+          <div className="flex flex-wrap items-end gap-4">
+            <div>
+              <label className="mb-1 block text-sm">{t('transfers.openingDip')}</label>
+              <input
+                type="number"
+                min={0}
+                value={openingDip}
+                onChange={(e) => setOpeningDip(e.target.value)}
+                className="w-36 rounded border bg-background px-3 py-2 text-sm"
+              />
+            </div>
+            <div>
+              <label className="mb-1 block text-sm">{t('transfers.closingDip')}</label>
+              <input
+                type="number"
+                min={0}
+                value={closingDip}
+                onChange={(e) => setClosingDip(e.target.value)}
+                className="w-36 rounded border bg-background px-3 py-2 text-sm"
+              />
+            </div>
+            <button
+              onClick={() => dipsMutation.mutate(dipsFor)}
+              disabled={openingDip === '' || closingDip === '' || dipsMutation.isPending}
+              className="rounded-lg bg-primary px-4 py-2 text-sm font-medium text-primary-foreground disabled:opacity-50"
+            >
+              {t(dipsFor.side === 'dispatch' ? 'transfers.dispatch' : 'transfers.receive')}
+            </button>
+            <button onClick={() => setDipsFor(null)} className="rounded-lg border px-4 py-2 text-sm">
+              {t('common.cancel')}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Filter */}
+      <select
+        value={filterStatus}
+        onChange={(e) => {
+          setFilterStatus(e.target.value);
+          setPage(1);
+        }}
+        className="rounded-lg border bg-background px-3 py-2 text-sm"
+      >
+        <option value="">{t('transfers.allStatuses')}</option>
+        {Object.keys(statusColors).map((status) => (
+          <option key={status} value={status}>
+            {t(`transfers.statuses.${status}`)}
+          </option>
+        ))}
+      </select>
+
+      <DataTable
+        columns={columns}
+        data={transfers}
+        keyExtractor={(item) => item.id}
+        emptyMessage={t('transfers.noTransfers')}
+        isLoading={isLoading}
+      />
+
+      {/* Pagination */}
+      {meta.totalPages > 1 && (
+        <div className="flex items-center justify-center gap-2">
+          <button
+            onClick={() => setPage(p => Math.max(1, p - 1))}
+            disabled={page === 1}
+            className="rounded-md border px-3 py-1.5 text-sm disabled:opacity-50"
+          >
+            {t('common.previous')}
+          </button>
+          <span className="text-sm text-muted-foreground">
+            {t('common.pageOf', { page, totalPages: meta.totalPages })}
+          </span>
+          <button
+            onClick={() => setPage(p => Math.min(meta.totalPages, p + 1))}
+            disabled={page === meta.totalPages}
+            className="rounded-md border px-3 py-1.5 text-sm disabled:opacity-50"
+          >
+            {t('common.next')}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
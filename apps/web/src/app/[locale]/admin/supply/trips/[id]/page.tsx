@@ -0,0 +1,260 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api, ApiError } from '@/lib/api-client';
+import { StatusBadge } from '@/components/shared/status-badge';
+import { useLocale, useTranslations } from 'next-intl';
+import { toast } from 'sonner';
+import { ArrowLeft, Route, Send, XCircle } from 'lucide-react';
+import { useAuthStore } from '@/stores/auth-store';
+
+type TripStatus = 'PLANNED' | 'DISPATCHED' | 'COMPLETED' | 'CANCELLED';
+
+interface Allocation {
+  id: string;
+  stationId: string;
+  fuelType: string;
+  volume: string;
+  dropSequence: number;
+  station: { id: string; code: string; name: string };
+  truckCompartment: { id: string; position: number; capacity: string };
+  replenishmentRequest: { id: string; status: string; requestedVolume: string };
+}
+
+interface Trip {
+  id: string;
+  tripNumber: string;
+  status: TripStatus;
+  plannedDate: string;
+  driverName: string;
+  notes: string | null;
+  dispatchedAt: string | null;
+  completedAt: string | null;
+  cancelledAt: string | null;
+  cancelReason: string | null;
+  truck: { plateNumber: string; carrier: { name: string } };
+  plannedBy: { fullName: string };
+  allocations: Allocation[];
+  deliveries: { id: string; stationId: string; blNumber: string; status: string; completedAt: string | null }[];
+}
+
+const statusColors: Record<TripStatus, 'neutral' | 'warning' | 'info' | 'success' | 'danger'> = {
+  PLANNED: 'warning',
+  DISPATCHED: 'info',
+  COMPLETED: 'success',
+  CANCELLED: 'neutral',
+};
+
+const PLAN_ROLES = ['LOGISTICS', 'SUPER_ADMIN'];
+
+export default function TripDetailPage() {
+  const t = useTranslations('Supply');
+  const locale = useLocale();
+  const params = useParams();
+  const id = params.id as string;
+  const queryClient = useQueryClient();
+  const user = useAuthStore((state) => state.user);
+  const canPlan = !!user && PLAN_ROLES.includes(user.role);
+
+  const [blNumbers, setBlNumbers] = useState<Record<string, string>>({});
+  const [cancelReason, setCancelReason] = useState('');
+  const [showCancel, setShowCancel] = useState(false);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['trips', id],
+    queryFn: () => api.get<Trip>(`/trips/${id}`),
+  });
+  const trip = data as Trip | undefined;
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['trips'] });
+    queryClient.invalidateQueries({ queryKey: ['deliveries'] });
+  };
+
+  const dispatchMutation = useMutation({
+    mutationFn: (drops: { stationId: string; blNumber: string }[]) => api.put(`/trips/${id}/dispatch`, { drops }),
+    onSuccess: () => {
+      toast.success(t('trips.dispatchSuccess'));
+      invalidate();
+    },
+    onError: (err: ApiError) => toast.error(err.message),
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: () => api.put(`/trips/${id}/cancel`, { reason: cancelReason }),
+    onSuccess: () => {
+      toast.success(t('trips.cancelSuccess'));
+      setShowCancel(false);
+      invalidate();
+    },
+    onError: (err: ApiError) => toast.error(err.message),
+  });
+
+  if (isLoading || !trip) {
+    return <p className="text-sm text-muted-foreground">{t('common.loading')}</p>;
+  }
+
+  // Station drops in delivery order
+  const drops: { station: Allocation['station']; allocations: Allocation[] }[] = [];
+  for (const a of [...trip.allocations].sort((x, y) => x.dropSequence - y.dropSequence)) {
+    const drop = drops.find((d) => d.station.id === a.stationId);
+    if (drop) drop.allocations.push(a);
+    else drops.push({ station: a.station, allocations: [a] });
+  }
+  const totalVolume = trip.allocations.reduce((sum, a) => sum + Number(a.volume), 0);
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <Link
+          href={`/${locale}/admin/supply/trips`}
+          className="mb-2 inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground"
+        >
+          <ArrowLeft className="h-4 w-4" />
+          {t('common.backToList')}
+        </Link>
+        <div className="flex items-center gap-3">
+          <h1 className="flex items-center gap-2 text-2xl font-bold">
+            <Route className="h-6 w-6" />
+            <span className="font-mono">{trip.tripNumber}</span>
+          </h1>
+          <StatusBadge status={statusColors[trip.status]} label={t(`trips.statuses.${trip.status}`)} />
+        </div>
+      </div>
+
+      {/* Summary */}
+      <div className="grid gap-4 rounded-lg border bg-white p-4 text-sm md:grid-cols-4">
+        <div>
+          <div className="text-muted-foreground">{t('trips.truck')}</div>
+          <div className="font-mono font-medium">{trip.truck.plateNumber}</div>
+          <div className="text-xs text-muted-foreground">{trip.truck.carrier.name}</div>
+        </div>
+        <div>
+          <div className="text-muted-foreground">{t('trips.driver')}</div>
+          <div className="font-medium">{trip.driverName}</div>
+        </div>
+        <div>
+          <div className="text-muted-foreground">{t('trips.plannedDate')}</div>
+          <div className="font-medium">{new Date(trip.plannedDate).toLocaleDateString('fr-FR')}</div>
+          <div className="text-xs text-muted-foreground">{t('trips.plannedBy', { name: trip.plannedBy.fullName })}</div>
+        </div>
+        <div>
+          <div className="text-muted-foreground">{t('common.volume')}</div>
+          <div className="font-mono font-medium">{totalVolume.toLocaleString('fr-FR')} L</div>
+        </div>
+        {trip.notes && <div className="md:col-span-4 text-muted-foreground">{trip.notes}</div>}
+        {trip.cancelReason && (
+          <div className="md:col-span-4 text-red-700">{t('trips.cancelledBecause', { reason: trip.cancelReason })}</div>
+        )}
+      </div>
+
+      {/* Drops */}
+      {drops.map((drop, i) => {
+        const delivery = trip.deliveries.find((d) => d.stationId === drop.station.id);
+        return (
+          <div key={drop.station.id} className="space-y-3 rounded-lg border bg-white p-4">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <h2 className="font-semibold">
+                {t('trips.drop', { sequence: i + 1 })} — {drop.station.code} {drop.station.name}
+              </h2>
+              {delivery && (
+                <Link
+                  href={`/${locale}/admin/supply/deliveries/${delivery.id}`}
+                  className="text-sm text-primary hover:underline"
+                >
+                  {t('trips.viewDelivery', { blNumber: delivery.blNumber })}
+                </Link>
+              )}
+              {trip.status === 'PLANNED' && canPlan && (
+                <input
+                  placeholder={t('trips.blNumber')}
+                  value={blNumbers[drop.station.id] ?? ''}
+                  onChange={(e) => setBlNumbers((bl) => ({ ...bl, [drop.station.id]: e.target.value }))}
+                  className="rounded-lg border bg-background px-3 py-1.5 text-sm font-mono"
+                />
+              )}
+            </div>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-left text-muted-foreground">
+                  <th className="py-2">{t('trips.compartment')}</th>
+                  <th className="py-2">{t('common.fuelType')}</th>
+                  <th className="py-2">{t('common.volume')}</th>
+                  <th className="py-2">{t('trips.request')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {drop.allocations.map((a) => (
+                  <tr key={a.id} className="border-b">
+                    <td className="py-2 font-mono">
+                      {a.truckCompartment.position} ({Number(a.truckCompartment.capacity).toLocaleString('fr-FR')} L)
+                    </td>
+                    <td className="py-2">{t(`fuelTypes.${a.fuelType}`)}</td>
+                    <td className="py-2 font-mono">{Number(a.volume).toLocaleString('fr-FR')} L</td>
+                    <td className="py-2 text-xs">
+                      <Link
+                        href={`/${locale}/admin/supply/replenishment/${a.replenishmentRequest.id}`}
+                        className="text-primary hover:underline"
+                      >
+                        {Number(a.replenishmentRequest.requestedVolume).toLocaleString('fr-FR')} L
+                      </Link>{' '}
+                      · {t(`trips.requestStatuses.${a.replenishmentRequest.status}`)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        );
+      })}
+
+      {/* Actions */}
+      {trip.status === 'PLANNED' && canPlan && (
+        <div className="space-y-3 rounded-lg border bg-white p-4">
+          <p className="text-sm text-muted-foreground">{t('trips.dispatchHint')}</p>
+          <div className="flex flex-wrap gap-3">
+            <button
+              onClick={() =>
+                dispatchMutation.mutate(drops.map((d) => ({ stationId: d.station.id, blNumber: blNumbers[d.station.id]!.trim() })))
+              }
+              disabled={drops.some((d) => !blNumbers[d.station.id]?.trim()) || dispatchMutation.isPending}
+              className="flex items-center gap-2 rounded-lg bg-primary px-4 py-2 text-sm font-medium text-primary-foreground hover:bg-primary/90 disabled:opacity-50"
+            >
+              <Send className="h-4 w-4" />
+              {t('trips.dispatch')}
+            </button>
+            <button
+              onClick={() => setShowCancel((v) => !v)}
+              className="flex items-center gap-2 rounded-lg border border-red-300 px-4 py-2 text-sm font-medium text-red-700 hover:bg-red-50"
+            >
+              <XCircle className="h-4 w-4" />
+              {t('trips.cancel')}
+            </button>
+          </div>
+          {showCancel && (
+            <div className="flex flex-wrap items-end gap-3">
+              <textarea
+                value={cancelReason}
+                onChange={(e) => setCancelReason(e.target.value)}
+                placeholder={t('trips.cancelReason')}
+                rows={2}
+                className="min-w-80 flex-1 rounded-lg border bg-background px-3 py-2 text-sm"
+              />
+              <button
+                onClick={() => cancelMutation.mutate()}
+                disabled={cancelReason.trim().length < 10 || cancelMutation.isPending}
+                className="rounded-lg bg-red-600 px-4 py-2 text-sm font-medium text-white hover:bg-red-700 disabled:opacity-50"
+              >
+                {t('trips.confirmCancel')}
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,330 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api, ApiError } from '@/lib/api-client';
+import { useLocale, useTranslations } from 'next-intl';
+import { toast } from 'sonner';
+import { ArrowLeft, Route, Wand2 } from 'lucide-react';
+
+interface Truck {
+  id: string;
+  plateNumber: string;
+  carrier: { id: string; name: string };
+  compartments: { id: string; position: number; capacity: string }[];
+}
+
+interface Driver {
+  id: string;
+  fullName: string;
+  carrier: { id: string };
+}
+
+interface ReplenishmentRequest {
+  id: string;
+  fuelType: string;
+  requestedVolume: string;
+  status: string;
+  station: { name: string; code: string };
+  createdAt: string;
+}
+
+interface Suggestion {
+  allocations: { truckCompartmentId: string; replenishmentRequestId: string; volume: number }[];
+  unallocated: { replenishmentRequestId: string; volume: number }[];
+}
+
+type Load = { requestId: string; volume: string };
+
+export default function NewTripPage() {
+  const t = useTranslations('Supply');
+  const locale = useLocale();
+  const router = useRouter();
+  const queryClient = useQueryClient();
+
+  const [truckId, setTruckId] = useState('');
+  const [driverId, setDriverId] = useState('');
+  const [driverName, setDriverName] = useState('');
+  const [plannedDate, setPlannedDate] = useState(new Date().toISOString().split('T')[0]!);
+  const [notes, setNotes] = useState('');
+  const [selected, setSelected] = useState<string[]>([]);
+  const [loads, setLoads] = useState<Record<string, Load>>({});
+  const [unallocated, setUnallocated] = useState<Suggestion['unallocated']>([]);
+
+  const { data: trucksData } = useQuery({
+    queryKey: ['trucks', 'active'],
+    queryFn: () => api.get<Truck[]>('/trucks?isActive=true'),
+  });
+  const trucks: Truck[] = (trucksData as any) || [];
+  const truck = trucks.find((tr) => tr.id === truckId);
+
+  const { data: driversData } = useQuery({
+    queryKey: ['drivers', 'active'],
+    queryFn: () => api.get<Driver[]>('/drivers?isActive=true'),
+  });
+  const drivers: Driver[] = ((driversData as any) || []).filter((d: Driver) => d.carrier.id === truck?.carrier.id);
+
+  // Requests are planned once validated; they must be ordered before the truck leaves
+  const { data: validatedData } = useQuery({
+    queryKey: ['replenishment-requests-validated'],
+    queryFn: () => api.get<ReplenishmentRequest[]>('/deliveries/requests?status=VALIDATED&limit=100'),
+  });
+  const { data: orderedData } = useQuery({
+    queryKey: ['replenishment-requests-ordered'],
+    queryFn: () => api.get<ReplenishmentRequest[]>('/deliveries/requests?status=ORDERED&limit=100'),
+  });
+  const requests: ReplenishmentRequest[] = [
+    ...((orderedData as any)?.data || []),
+    ...((validatedData as any)?.data || []),
+  ];
+  const requestById = (id: string) => requests.find((r) => r.id === id);
+
+  const loadedVolume = (requestId: string) =>
+    Object.values(loads)
+      .filter((l) => l.requestId === requestId)
+      .reduce((sum, l) => sum + (Number(l.volume) || 0), 0);
+  const allocations = Object.entries(loads)
+    .filter(([, l]) => l.requestId && Number(l.volume) > 0)
+    .map(([truckCompartmentId, l]) => ({
+      truckCompartmentId,
+      replenishmentRequestId: l.requestId,
+      volume: Number(l.volume),
+    }));
+
+  const toggle = (id: string) =>
+    setSelected((ids) => (ids.includes(id) ? ids.filter((x) => x !== id) : [...ids, id]));
+
+  const setLoad = (compartmentId: string, load: Partial<Load>) =>
+    setLoads((ls) => ({ ...ls, [compartmentId]: { requestId: '', volume: '', ...ls[compartmentId], ...load } }));
+
+  const suggestMutation = useMutation({
+    mutationFn: () => api.post<Suggestion>('/trips/suggest', { truckId, replenishmentRequestIds: selected }),
+    onSuccess: (suggestion) => {
+      const plan = suggestion as Suggestion;
+      setLoads(
+        Object.fromEntries(
+          plan.allocations.map((a) => [a.truckCompartmentId, { requestId: a.replenishmentRequestId, volume: String(a.volume) }]),
+        ),
+      );
+      setUnallocated(plan.unallocated);
+    },
+    onError: (err: ApiError) => toast.error(err.message),
+  });
+
+  const planMutation = useMutation({
+    mutationFn: () =>
+      api.post<{ id: string }>('/trips', {
+        truckId,
+        ...(driverId ? { driverId } : { driverName }),
+        plannedDate,
+        ...(notes && { notes }),
+        allocations,
+      }),
+    onSuccess: (trip) => {
+      toast.success(t('trips.planSuccess'));
+      queryClient.invalidateQueries({ queryKey: ['trips'] });
+      router.push(`/${locale}/admin/supply/trips/${(trip as { id: string }).id}`);
+    },
+    onError: (err: ApiError) => toast.error(err.message),
+  });
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <Link
+          href={`/${locale}/admin/supply/trips`}
+          className="mb-2 inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground"
+        >
+          <ArrowLeft className="h-4 w-4" />
+          {t('common.backToList')}
+        </Link>
+        <h1 className="flex items-center gap-2 text-2xl font-bold">
+          <Route className="h-6 w-6" />
+          {t('trips.newTitle')}
+        </h1>
+        <p className="text-muted-foreground">{t('trips.newSubtitle')}</p>
+      </div>
+
+      {/* Truck & driver */}
+      <div className="flex flex-wrap items-end gap-4 rounded-lg border bg-white p-4">
+        <div>
+          <label className="mb-1 block text-sm font-medium">{t('trips.truck')}</label>
+          <select
+            value={truckId}
+            onChange={(e) => {
+              setTruckId(e.target.value);
+              setDriverId('');
+              setLoads({});
+              setUnallocated([]);
+            }}
+            className="rounded-lg border bg-background px-3 py-2 text-sm"
+          >
+            <option value="">{t('trips.selectTruck')}</option>
+            {trucks.map((tr) => (
+              <option key={tr.id} value={tr.id}>
+                {tr.plateNumber} — {tr.carrier.name} ({tr.compartments.reduce((sum, c) => sum + Number(c.capacity), 0).toLocaleString('fr-FR')} L)
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="mb-1 block text-sm font-medium">{t('trips.driver')}</label>
+          <div className="flex gap-2">
+            <select
+              value={driverId}
+              onChange={(e) => setDriverId(e.target.value)}
+              className="rounded-lg border bg-background px-3 py-2 text-sm"
+            >
+              <option value="">{t('trips.unregisteredDriver')}</option>
+              {drivers.map((d) => (
+                <option key={d.id} value={d.id}>
+                  {d.fullName}
+                </option>
+              ))}
+            </select>
+            {!driverId && (
+              <input
+                value={driverName}
+                onChange={(e) => setDriverName(e.target.value)}
+                className="rounded-lg border bg-background px-3 py-2 text-sm"
+              />
+            )}
+          </div>
+        </div>
+        <div>
+          <label className="mb-1 block text-sm font-medium">{t('trips.plannedDate')}</label>
+          <input
+            type="date"
+            value={plannedDate}
+            onChange={(e) => setPlannedDate(e.target.value)}
+            className="rounded-lg border bg-background px-3 py-2 text-sm"
+          />
+        </div>
+        <div className="min-w-64 flex-1">
+          <label className="mb-1 block text-sm font-medium">{t('trips.notes')}</label>
+          <input
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            className="w-full rounded-lg border bg-background px-3 py-2 text-sm"
+          />
+        </div>
+      </div>
+
+      {/* Requests */}
+      <div className="space-y-3 rounded-lg border bg-white p-4">
+        <div className="flex items-center justify-between">
+          <h2 className="font-semibold">{t('trips.requests')}</h2>
+          <button
+            onClick={() => suggestMutation.mutate()}
+            disabled={!truckId || selected.length === 0 || suggestMutation.isPending}
+            className="flex items-center gap-2 rounded-lg border px-3 py-1.5 text-sm hover:bg-muted disabled:opacity-50"
+          >
+            <Wand2 className="h-4 w-4" />
+            {t('trips.suggest')}
+          </button>
+        </div>
+        {requests.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{t('trips.noRequests')}</p>
+        ) : (
+          <div className="space-y-2">
+            {requests.map((r) => (
+              <label key={r.id} className="flex items-center gap-3 rounded border px-3 py-2 text-sm">
+                <input type="checkbox" checked={selected.includes(r.id)} onChange={() => toggle(r.id)} />
+                <span className="font-medium">{r.station.code}</span>
+                <span>{t(`fuelTypes.${r.fuelType}`)}</span>
+                <span className="font-mono">{Number(r.requestedVolume).toLocaleString('fr-FR')} L</span>
+                <span className="text-xs text-muted-foreground">{t(`trips.requestStatuses.${r.status}`)}</span>
+                {selected.includes(r.id) && (
+                  <span className="ml-auto font-mono text-xs">
+                    {t('trips.loaded', { volume: loadedVolume(r.id).toLocaleString('fr-FR') })}
+                  </span>
+                )}
+              </label>
+            ))}
+          </div>
+        )}
+        {unallocated.length > 0 && (
+          <div className="rounded border border-yellow-300 bg-yellow-50 p-3 text-sm text-yellow-800">
+            {unallocated.map((u) => (
+              <div key={u.replenishmentRequestId}>
+                {t('trips.unallocated', {
+                  station: requestById(u.replenishmentRequestId)?.station.code ?? '',
+                  volume: u.volume.toLocaleString('fr-FR'),
+                })}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Compartments */}
+      {truck && (
+        <div className="space-y-3 rounded-lg border bg-white p-4">
+          <h2 className="font-semibold">{t('trips.loadPlan')}</h2>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b text-left text-muted-foreground">
+                <th className="py-2">{t('trips.compartment')}</th>
+                <th className="py-2">{t('trucks.capacity')}</th>
+                <th className="py-2">{t('trips.request')}</th>
+                <th className="py-2">{t('common.volume')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {truck.compartments.map((c) => {
+                const load = loads[c.id];
+                const over = Number(load?.volume) > Number(c.capacity);
+                return (
+                  <tr key={c.id} className="border-b">
+                    <td className="py-2 font-mono">{c.position}</td>
+                    <td className="py-2 font-mono">{Number(c.capacity).toLocaleString('fr-FR')} L</td>
+                    <td className="py-2">
+                      <select
+                        value={load?.requestId ?? ''}
+                        onChange={(e) => setLoad(c.id, { requestId: e.target.value })}
+                        className="rounded-lg border bg-background px-2 py-1 text-sm"
+                      >
+                        <option value="">{t('trips.empty')}</option>
+                        {requests
+                          .filter((r) => selected.includes(r.id))
+                          .map((r) => (
+                            <option key={r.id} value={r.id}>
+                              {r.station.code} — {t(`fuelTypes.${r.fuelType}`)}
+                            </option>
+                          ))}
+                      </select>
+                    </td>
+                    <td className="py-2">
+                      <input
+                        type="number"
+                        min={0}
+                        max={Number(c.capacity)}
+                        value={load?.volume ?? ''}
+                        onChange={(e) => setLoad(c.id, { volume: e.target.value })}
+                        className={`w-32 rounded-lg border bg-background px-2 py-1 text-sm ${over ? 'border-red-500' : ''}`}
+                      />
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+
+          <div className="flex justify-end">
+            <button
+              onClick={() => planMutation.mutate()}
+              disabled={(!driverId && !driverName) || !plannedDate || allocations.length === 0 || planMutation.isPending}
+              className="flex items-center gap-2 rounded-lg bg-primary px-4 py-2 text-sm font-medium text-primary-foreground hover:bg-primary/90 disabled:opacity-50"
+            >
+              <Route className="h-4 w-4" />
+              {t('trips.plan')}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
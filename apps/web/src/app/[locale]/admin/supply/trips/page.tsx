@@ -0,0 +1,124 @@
+'use client';
+
+import Link from 'next/link';
+import { useQuery } from '@tanstack/react-query';
+import { api } from '@/lib/api-client';
+import { StatusBadge } from '@/components/shared/status-badge';
+import { useLocale, useTranslations } from 'next-intl';
+import { Route, Plus } from 'lucide-react';
+import { useAuthStore } from '@/stores/auth-store';
+
+type TripStatus = 'PLANNED' | 'DISPATCHED' | 'COMPLETED' | 'CANCELLED';
+
+interface Trip {
+  id: string;
+  tripNumber: string;
+  status: TripStatus;
+  plannedDate: string;
+  driverName: string;
+  truck: { plateNumber: string; carrier: { name: string } };
+  allocations: { stationId: string; volume: string; dropSequence: number; station: { code: string } }[];
+  deliveries: { id: string; stationId: string; status: string }[];
+}
+
+const statusColors: Record<TripStatus, 'neutral' | 'warning' | 'info' | 'success' | 'danger'> = {
+  PLANNED: 'warning',
+  DISPATCHED: 'info',
+  COMPLETED: 'success',
+  CANCELLED: 'neutral',
+};
+
+const PLAN_ROLES = ['LOGISTICS', 'SUPER_ADMIN'];
+
+export default function TripsPage() {
+  const t = useTranslations('Supply');
+  const locale = useLocale();
+  const user = useAuthStore((state) => state.user);
+  const canPlan = !!user && PLAN_ROLES.includes(user.role);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['trips', 'board'],
+    queryFn: () => api.get<Record<TripStatus, Trip[]>>('/trips/board'),
+  });
+  const board = data as Record<TripStatus, Trip[]> | undefined;
+
+  const stopsOf = (trip: Trip) => {
+    const codes: string[] = [];
+    for (const a of [...trip.allocations].sort((x, y) => x.dropSequence - y.dropSequence)) {
+      if (!codes.includes(a.station.code)) codes.push(a.station.code);
+    }
+    return codes;
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="flex items-center gap-2 text-2xl font-bold">
+            <Route className="h-6 w-6" />
+            {t('trips.title')}
+          </h1>
+          <p className="text-muted-foreground">{t('trips.subtitle')}</p>
+        </div>
+        {canPlan && (
+          <Link
+            href={`/${locale}/admin/supply/trips/new`}
+            className="flex items-center gap-2 rounded-lg bg-primary px-4 py-2 text-sm font-medium text-primary-foreground hover:bg-primary/90"
+          >
+            <Plus className="h-4 w-4" />
+            {t('trips.plan')}
+          </Link>
+        )}
+      </div>
+
+      {/* Status board */}
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">{t('common.loading')}</p>
+      ) : (
+        <div className="grid gap-4 md:grid-cols-2 xl:grid-cols-4">
+          {(Object.keys(statusColors) as TripStatus[]).map((status) => {
+            const trips = board?.[status] ?? [];
+            return (
+              <div key={status} className="space-y-3 rounded-lg border bg-muted/30 p-3">
+                <div className="flex items-center justify-between">
+                  <StatusBadge status={statusColors[status]} label={t(`trips.statuses.${status}`)} />
+                  <span className="text-xs text-muted-foreground">{trips.length}</span>
+                </div>
+                {trips.length === 0 && <p className="text-xs text-muted-foreground">{t('trips.noTrips')}</p>}
+                {trips.map((trip) => {
+                  const volume = trip.allocations.reduce((sum, a) => sum + Number(a.volume), 0);
+                  const received = trip.deliveries.filter((d) => d.status !== 'IN_PROGRESS').length;
+                  return (
+                    <Link
+                      key={trip.id}
+                      href={`/${locale}/admin/supply/trips/${trip.id}`}
+                      className="block space-y-1 rounded-lg border bg-white p-3 text-sm hover:border-primary"
+                    >
+                      <div className="flex items-center justify-between">
+                        <span className="font-mono font-medium">{trip.tripNumber}</span>
+                        <span className="text-xs text-muted-foreground">
+                          {new Date(trip.plannedDate).toLocaleDateString('fr-FR')}
+                        </span>
+                      </div>
+                      <div className="text-xs">
+                        <span className="font-mono">{trip.truck.plateNumber}</span> · {trip.truck.carrier.name} · {trip.driverName}
+                      </div>
+                      <div className="text-xs text-muted-foreground">{stopsOf(trip).join(' → ')}</div>
+                      <div className="flex items-center justify-between text-xs">
+                        <span className="font-mono">{volume.toLocaleString('fr-FR')} L</span>
+                        {status === 'DISPATCHED' && (
+                          <span>{t('trips.dropsReceived', { received, total: trip.deliveries.length })}</span>
+                        )}
+                      </div>
+                    </Link>
+                  );
+                })}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
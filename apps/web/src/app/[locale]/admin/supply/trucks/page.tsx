@@ -0,0 +1,571 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api, ApiError } from '@/lib/api-client';
+import { DataTable } from '@/components/shared/data-table';
+import { StatusBadge } from '@/components/shared/status-badge';
+import { useLocale, useTranslations } from 'next-intl';
+import { toast } from 'sonner';
+import { Truck as TruckIcon, Plus, X, BarChart3, AlertTriangle } from 'lucide-react';
+import { useAuthStore } from '@/stores/auth-store';
+
+interface Carrier {
+  id: string;
+  name: string;
+  phone: string | null;
+  email: string | null;
+  isActive: boolean;
+  trucks: { id: string; plateNumber: string; isActive: boolean }[];
+  drivers: { id: string; fullName: string; isActive: boolean }[];
+}
+
+interface Truck {
+  id: string;
+  plateNumber: string;
+  calibrationCertificateNumber: string | null;
+  calibrationExpiresAt: string | null;
+  isActive: boolean;
+  carrier: { id: string; name: string };
+  compartments: { id: string; position: number; capacity: string }[];
+}
+
+interface Driver {
+  id: string;
+  fullName: string;
+  phone: string | null;
+  licenceNumber: string;
+  licenceExpiresAt: string;
+  isActive: boolean;
+  carrier: { id: string; name: string };
+}
+
+interface ExpiringDocuments {
+  trucks: { id: string; plateNumber: string; calibrationExpiresAt: string; carrier: { name: string } }[];
+  drivers: { id: string; fullName: string; licenceExpiresAt: string; carrier: { name: string } }[];
+}
+
+const MANAGE_ROLES = ['LOGISTICS', 'SUPER_ADMIN'];
+
+// Same window as the document expiry alerts
+const EXPIRY_WARNING_DAYS = 30;
+
+export default function TrucksPage() {
+  const t = useTranslations('Supply');
+  const locale = useLocale();
+  const queryClient = useQueryClient();
+  const user = useAuthStore((state) => state.user);
+  const canManage = !!user && MANAGE_ROLES.includes(user.role);
+
+  const [carrierName, setCarrierName] = useState('');
+  const [carrierPhone, setCarrierPhone] = useState('');
+  const [carrierId, setCarrierId] = useState('');
+  const [plateNumber, setPlateNumber] = useState('');
+  const [capacities, setCapacities] = useState<string[]>(['5000']);
+  const [certificateNumber, setCertificateNumber] = useState('');
+  const [certificateExpiry, setCertificateExpiry] = useState('');
+  const [driverCarrierId, setDriverCarrierId] = useState('');
+  const [driverName, setDriverName] = useState('');
+  const [driverPhone, setDriverPhone] = useState('');
+  const [licenceNumber, setLicenceNumber] = useState('');
+  const [licenceExpiry, setLicenceExpiry] = useState('');
+
+  const { data: carriersData } = useQuery({
+    queryKey: ['carriers'],
+    queryFn: () => api.get<Carrier[]>('/carriers'),
+  });
+  const carriers: Carrier[] = (carriersData as any) || [];
+
+  const { data: trucksData, isLoading } = useQuery({
+    queryKey: ['trucks'],
+    queryFn: () => api.get<Truck[]>('/trucks'),
+  });
+  const trucks: Truck[] = (trucksData as any) || [];
+
+  const { data: driversData, isLoading: driversLoading } = useQuery({
+    queryKey: ['drivers'],
+    queryFn: () => api.get<Driver[]>('/drivers'),
+  });
+  const drivers: Driver[] = (driversData as any) || [];
+
+  const { data: expiringData } = useQuery({
+    queryKey: ['expiring-documents'],
+    queryFn: () => api.get<ExpiringDocuments>('/carriers/expiring-documents'),
+  });
+  const expiring = expiringData as ExpiringDocuments | undefined;
+  const expiringCount = (expiring?.trucks.length ?? 0) + (expiring?.drivers.length ?? 0);
+
+  const expiryBadge = (date: string | null) => {
+    if (!date) return <span className="text-xs text-muted-foreground">—</span>;
+    const days = Math.floor((new Date(date).getTime() - Date.now()) / 86_400_000);
+    const label = new Date(date).toLocaleDateString('fr-FR');
+    if (days < 0) return <StatusBadge status="danger" label={t('trucks.expiredOn', { date: label })} />;
+    if (days <= EXPIRY_WARNING_DAYS) return <StatusBadge status="warning" label={t('trucks.expiresOn', { date: label })} />;
+    return <span className="text-sm">{label}</span>;
+  };
+
+  const createCarrierMutation = useMutation({
+    mutationFn: () => api.post('/carriers', { name: carrierName, ...(carrierPhone && { phone: carrierPhone }) }),
+    onSuccess: () => {
+      toast.success(t('trucks.carrierCreated'));
+      setCarrierName('');
+      setCarrierPhone('');
+      queryClient.invalidateQueries({ queryKey: ['carriers'] });
+    },
+    onError: (err: ApiError) => toast.error(err.message),
+  });
+
+  const createTruckMutation = useMutation({
+    mutationFn: () =>
+      api.post('/trucks', {
+        carrierId,
+        plateNumber,
+        ...(certificateNumber && { calibrationCertificateNumber: certificateNumber }),
+        ...(certificateExpiry && { calibrationExpiresAt: certificateExpiry }),
+        compartments: capacities.map((c) => ({ capacity: Number(c) })),
+      }),
+    onSuccess: () => {
+      toast.success(t('trucks.truckCreated'));
+      setPlateNumber('');
+      setCapacities(['5000']);
+      setCertificateNumber('');
+      setCertificateExpiry('');
+      queryClient.invalidateQueries({ queryKey: ['trucks'] });
+      queryClient.invalidateQueries({ queryKey: ['expiring-documents'] });
+      queryClient.invalidateQueries({ queryKey: ['carriers'] });
+    },
+    onError: (err: ApiError) => toast.error(err.message),
+  });
+
+  const createDriverMutation = useMutation({
+    mutationFn: () =>
+      api.post('/drivers', {
+        carrierId: driverCarrierId,
+        fullName: driverName,
+        ...(driverPhone && { phone: driverPhone }),
+        licenceNumber,
+        licenceExpiresAt: licenceExpiry,
+      }),
+    onSuccess: () => {
+      toast.success(t('trucks.driverCreated'));
+      setDriverName('');
+      setDriverPhone('');
+      setLicenceNumber('');
+      setLicenceExpiry('');
+      queryClient.invalidateQueries({ queryKey: ['drivers'] });
+      queryClient.invalidateQueries({ queryKey: ['expiring-documents'] });
+      queryClient.invalidateQueries({ queryKey: ['carriers'] });
+    },
+    onError: (err: ApiError) => toast.error(err.message),
+  });
+
+  const toggleDriverMutation = useMutation({
+    mutationFn: (driver: Driver) => api.patch(`/drivers/${driver.id}`, { isActive: !driver.isActive }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['drivers'] }),
+    onError: (err: ApiError) => toast.error(err.message),
+  });
+
+  const toggleTruckMutation = useMutation({
+    mutationFn: (truck: Truck) => api.patch(`/trucks/${truck.id}`, { isActive: !truck.isActive }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['trucks'] }),
+    onError: (err: ApiError) => toast.error(err.message),
+  });
+
+  const columns = [
+    {
+      key: 'plateNumber',
+      header: t('trucks.plateNumber'),
+      render: (item: Truck) => <span className="font-mono font-medium">{item.plateNumber}</span>,
+    },
+    {
+      key: 'carrier',
+      header: t('trucks.carrier'),
+      render: (item: Truck) => <span>{item.carrier.name}</span>,
+    },
+    {
+      key: 'compartments',
+      header: t('trucks.compartments'),
+      render: (item: Truck) => (
+        <span className="font-mono text-xs">
+          {item.compartments.map((c) => Number(c.capacity).toLocaleString('fr-FR')).join(' / ')} L
+        </span>
+      ),
+    },
+    {
+      key: 'capacity',
+      header: t('trucks.capacity'),
+      render: (item: Truck) => (
+        <span className="font-mono">
+          {item.compartments.reduce((sum, c) => sum + Number(c.capacity), 0).toLocaleString('fr-FR')} L
+        </span>
+      ),
+    },
+    {
+      key: 'calibration',
+      header: t('trucks.calibrationCertificate'),
+      render: (item: Truck) => (
+        <div className="space-y-1">
+          {item.calibrationCertificateNumber && (
+            <div className="font-mono text-xs">{item.calibrationCertificateNumber}</div>
+          )}
+          {expiryBadge(item.calibrationExpiresAt)}
+        </div>
+      ),
+    },
+    {
+      key: 'status',
+      header: t('common.status'),
+      render: (item: Truck) => (
+        <StatusBadge
+          status={item.isActive ? 'success' : 'neutral'}
+          label={item.isActive ? t('trucks.active') : t('trucks.inactive')}
+        />
+      ),
+    },
+    ...(canManage
+      ? [
+          {
+            key: 'actions',
+            header: '',
+            render: (item: Truck) => (
+              <button
+                onClick={() => toggleTruckMutation.mutate(item)}
+                disabled={toggleTruckMutation.isPending}
+                className="text-sm text-primary hover:underline disabled:opacity-50"
+              >
+                {item.isActive ? t('trucks.deactivate') : t('trucks.activate')}
+              </button>
+            ),
+          },
+        ]
+      : []),
+  ];
+
+  const driverColumns = [
+    {
+      key: 'fullName',
+      header: t('trucks.driverName'),
+      render: (item: Driver) => (
+        <div>
+          <div className="font-medium">{item.fullName}</div>
+          {item.phone && <div className="text-xs text-muted-foreground">{item.phone}</div>}
+        </div>
+      ),
+    },
+    {
+      key: 'carrier',
+      header: t('trucks.carrier'),
+      render: (item: Driver) => <span>{item.carrier.name}</span>,
+    },
+    {
+      key: 'licence',
+      header: t('trucks.licence'),
+      render: (item: Driver) => (
+        <div className="space-y-1">
+          <div className="font-mono text-xs">{item.licenceNumber}</div>
+          {expiryBadge(item.licenceExpiresAt)}
+        </div>
+      ),
+    },
+    {
+      key: 'status',
+      header: t('common.status'),
+      render: (item: Driver) => (
+        <StatusBadge
+          status={item.isActive ? 'success' : 'neutral'}
+          label={item.isActive ? t('trucks.active') : t('trucks.inactive')}
+        />
+      ),
+    },
+    ...(canManage
+      ? [
+          {
+            key: 'actions',
+            header: '',
+            render: (item: Driver) => (
+              <button
+                onClick={() => toggleDriverMutation.mutate(item)}
+                disabled={toggleDriverMutation.isPending}
+                className="text-sm text-primary hover:underline disabled:opacity-50"
+              >
+                {item.isActive ? t('trucks.deactivate') : t('trucks.activate')}
+              </button>
+            ),
+          },
+        ]
+      : []),
+  ];
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="flex items-center gap-2 text-2xl font-bold">
+            <TruckIcon className="h-6 w-6" />
+            {t('trucks.title')}
+          </h1>
+          <p className="text-muted-foreground">{t('trucks.subtitle')}</p>
+        </div>
+        <Link
+          href={`/${locale}/admin/supply/trucks/scorecard`}
+          className="flex items-center gap-2 rounded-lg border px-4 py-2 text-sm font-medium hover:bg-muted"
+        >
+          <BarChart3 className="h-4 w-4" />
+          {t('trucks.scorecard.title')}
+        </Link>
+      </div>
+
+      {/* Documents to renew */}
+      {expiring && expiringCount > 0 && (
+        <div className="rounded-lg border border-amber-200 bg-amber-50 p-4">
+          <h2 className="mb-2 flex items-center gap-2 font-semibold text-amber-800">
+            <AlertTriangle className="h-4 w-4" />
+            {t('trucks.expiringDocuments', { count: expiringCount })}
+          </h2>
+          <ul className="space-y-1 text-sm text-amber-900">
+            {expiring.trucks.map((truck) => (
+              <li key={truck.id} className="flex items-center gap-2">
+                <span className="font-mono">{truck.plateNumber}</span>
+                <span className="text-amber-700">({truck.carrier.name})</span>
+                <span>· {t('trucks.calibrationCertificate')}</span>
+                {expiryBadge(truck.calibrationExpiresAt)}
+              </li>
+            ))}
+            {expiring.drivers.map((driver) => (
+              <li key={driver.id} className="flex items-center gap-2">
+                <span className="font-medium">{driver.fullName}</span>
+                <span className="text-amber-700">({driver.carrier.name})</span>
+                <span>· {t('trucks.licence')}</span>
+                {expiryBadge(driver.licenceExpiresAt)}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {canManage && (
+        <div className="grid gap-4 lg:grid-cols-2">
+          {/* Carrier form */}
+          <div className="space-y-3 rounded-lg border bg-white p-4">
+            <h2 className="font-semibold">{t('trucks.newCarrier')}</h2>
+            <div className="flex flex-wrap items-end gap-3">
+              <div>
+                <label className="mb-1 block text-sm font-medium">{t('trucks.carrierName')}</label>
+                <input
+                  value={carrierName}
+                  onChange={(e) => setCarrierName(e.target.value)}
+                  className="rounded-lg border bg-background px-3 py-2 text-sm"
+                />
+              </div>
+              <div>
+                <label className="mb-1 block text-sm font-medium">{t('trucks.phone')}</label>
+                <input
+                  value={carrierPhone}
+                  onChange={(e) => setCarrierPhone(e.target.value)}
+                  className="rounded-lg border bg-background px-3 py-2 text-sm"
+                />
+              </div>
+              <button
+                onClick={() => createCarrierMutation.mutate()}
+                disabled={!carrierName || createCarrierMutation.isPending}
+                className="flex items-center gap-2 rounded-lg bg-primary px-4 py-2 text-sm font-medium text-primary-foreground hover:bg-primary/90 disabled:opacity-50"
+              >
+                <Plus className="h-4 w-4" />
+                {t('trucks.addCarrier')}
+              </button>
+            </div>
+            <ul className="divide-y text-sm">
+              {carriers.map((c) => (
+                <li key={c.id} className="flex items-center justify-between py-2">
+                  <span className={c.isActive ? 'font-medium' : 'text-muted-foreground line-through'}>{c.name}</span>
+                  <span className="text-xs text-muted-foreground">
+                    {c.phone ?? '—'} · {t('trucks.truckCount', { count: c.trucks.length })} ·{' '}
+                    {t('trucks.driverCount', { count: c.drivers.length })}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          {/* Truck form */}
+          <div className="space-y-3 rounded-lg border bg-white p-4">
+            <h2 className="font-semibold">{t('trucks.newTruck')}</h2>
+            <div className="flex flex-wrap items-end gap-3">
+              <div>
+                <label className="mb-1 block text-sm font-medium">{t('trucks.carrier')}</label>
+                <select
+                  value={carrierId}
+                  onChange={(e) => setCarrierId(e.target.value)}
+                  className="rounded-lg border bg-background px-3 py-2 text-sm"
+                >
+                  <option value="">{t('trucks.selectCarrier')}</option>
+                  {carriers
+                    .filter((c) => c.isActive)
+                    .map((c) => (
+                      <option key={c.id} value={c.id}>
+                        {c.name}
+                      </option>
+                    ))}
+                </select>
+              </div>
+              <div>
+                <label className="mb-1 block text-sm font-medium">{t('trucks.plateNumber')}</label>
+                <input
+                  value={plateNumber}
+                  onChange={(e) => setPlateNumber(e.target.value.toUpperCase())}
+                  className="rounded-lg border bg-background px-3 py-2 text-sm font-mono"
+                />
+              </div>
+              <div>
+                <label className="mb-1 block text-sm font-medium">{t('trucks.certificateNumber')}</label>
+                <input
+                  value={certificateNumber}
+                  onChange={(e) => setCertificateNumber(e.target.value)}
+                  className="rounded-lg border bg-background px-3 py-2 text-sm font-mono"
+                />
+              </div>
+              <div>
+                <label className="mb-1 block text-sm font-medium">{t('trucks.certificateExpiry')}</label>
+                <input
+                  type="date"
+                  value={certificateExpiry}
+                  onChange={(e) => setCertificateExpiry(e.target.value)}
+                  className="rounded-lg border bg-background px-3 py-2 text-sm"
+                />
+              </div>
+            </div>
+            <div>
+              <label className="mb-1 block text-sm font-medium">{t('trucks.compartmentCapacities')}</label>
+              <div className="flex flex-wrap items-center gap-2">
+                {capacities.map((capacity, i) => (
+                  <div key={i} className="flex items-center gap-1">
+                    <span className="text-xs text-muted-foreground">{i + 1}</span>
+                    <input
+                      type="number"
+                      min={1}
+                      value={capacity}
+                      onChange={(e) => setCapacities((cs) => cs.map((c, j) => (j === i ? e.target.value : c)))}
+                      className="w-24 rounded-lg border bg-background px-2 py-1 text-sm"
+                    />
+                    {capacities.length > 1 && (
+                      <button
+                        onClick={() => setCapacities((cs) => cs.filter((_, j) => j !== i))}
+                        className="text-muted-foreground hover:text-red-600"
+                      >
+                        <X className="h-3 w-3" />
+                      </button>
+                    )}
+                  </div>
+                ))}
+                {capacities.length < 8 && (
+                  <button
+                    onClick={() => setCapacities((cs) => [...cs, '5000'])}
+                    className="rounded border px-2 py-1 text-xs hover:bg-muted"
+                  >
+                    + {t('trucks.addCompartment')}
+                  </button>
+                )}
+              </div>
+            </div>
+            <button
+              onClick={() => createTruckMutation.mutate()}
+              disabled={
+                !carrierId ||
+                !plateNumber ||
+                capacities.some((c) => !(Number(c) > 0)) ||
+                createTruckMutation.isPending
+              }
+              className="flex items-center gap-2 rounded-lg bg-primary px-4 py-2 text-sm font-medium text-primary-foreground hover:bg-primary/90 disabled:opacity-50"
+            >
+              <Plus className="h-4 w-4" />
+              {t('trucks.addTruck')}
+            </button>
+          </div>
+        </div>
+      )}
+
+      <DataTable
+        columns={columns}
+        data={trucks}
+        keyExtractor={(item) => item.id}
+        emptyMessage={t('trucks.noTrucks')}
+        isLoading={isLoading}
+      />
+
+      {/* Drivers */}
+      <h2 className="text-lg font-semibold">{t('trucks.drivers')}</h2>
+      {canManage && (
+        <div className="flex flex-wrap items-end gap-3 rounded-lg border bg-white p-4">
+          <div>
+            <label className="mb-1 block text-sm font-medium">{t('trucks.carrier')}</label>
+            <select
+              value={driverCarrierId}
+              onChange={(e) => setDriverCarrierId(e.target.value)}
+              className="rounded-lg border bg-background px-3 py-2 text-sm"
+            >
+              <option value="">{t('trucks.selectCarrier')}</option>
+              {carriers
+                .filter((c) => c.isActive)
+                .map((c) => (
+                  <option key={c.id} value={c.id}>
+                    {c.name}
+                  </option>
+                ))}
+            </select>
+          </div>
+          <div>
+            <label className="mb-1 block text-sm font-medium">{t('trucks.driverName')}</label>
+            <input
+              value={driverName}
+              onChange={(e) => setDriverName(e.target.value)}
+              className="rounded-lg border bg-background px-3 py-2 text-sm"
+            />
+          </div>
+          <div>
+            <label className="mb-1 block text-sm font-medium">{t('trucks.phone')}</label>
+            <input
+              value={driverPhone}
+              onChange={(e) => setDriverPhone(e.target.value)}
+              className="rounded-lg border bg-background px-3 py-2 text-sm"
+            />
+          </div>
+          <div>
+            <label className="mb-1 block text-sm font-medium">{t('trucks.licenceNumber')}</label>
+            <input
+              value={licenceNumber}
+              onChange={(e) => setLicenceNumber(e.target.value)}
+              className="rounded-lg border bg-background px-3 py-2 text-sm font-mono"
+            />
+          </div>
+          <div>
+            <label className="mb-1 block text-sm font-medium">{t('trucks.licenceExpiry')}</label>
+            <input
+              type="date"
+              value={licenceExpiry}
+              onChange={(e) => setLicenceExpiry(e.target.value)}
+              className="rounded-lg border bg-background px-3 py-2 text-sm"
+            />
+          </div>
+          <button
+            onClick={() => createDriverMutation.mutate()}
+            disabled={!driverCarrierId || !driverName || !licenceNumber || !licenceExpiry || createDriverMutation.isPending}
+            className="flex items-center gap-2 rounded-lg bg-primary px-4 py-2 text-sm font-medium text-primary-foreground hover:bg-primary/90 disabled:opacity-50"
+          >
+            <Plus className="h-4 w-4" />
+            {t('trucks.addDriver')}
+          </button>
+        </div>
+      )}
+
+      <DataTable
+        columns={driverColumns}
+        data={drivers}
+        keyExtractor={(item) => item.id}
+        emptyMessage={t('trucks.noDrivers')}
+        isLoading={driversLoading}
+      />
+    </div>
+  );
+}
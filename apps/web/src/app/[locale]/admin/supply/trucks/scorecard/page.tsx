@@ -0,0 +1,149 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useQuery } from '@tanstack/react-query';
+import { api } from '@/lib/api-client';
+import { StatusBadge } from '@/components/shared/status-badge';
+import { useLocale, useTranslations } from 'next-intl';
+import { ArrowLeft, BarChart3 } from 'lucide-react';
+
+interface CarrierScorecard {
+  carrier: { id: string; name: string; isActive: boolean };
+  deliveries: number;
+  blVolume: number;
+  averageVariancePercent: number | null;
+  shortageVolume: number;
+  disputes: number;
+  disputeRate: number | null;
+  scheduledDeliveries: number;
+  onTimeDeliveries: number;
+  onTimeRate: number | null;
+}
+
+const formatPercent = (value: number | null, decimals = 1) =>
+  value === null ? '—' : `${value.toLocaleString('fr-FR', { maximumFractionDigits: decimals })} %`;
+
+// Transit losses up to half a percent are usual on a tanker delivery
+const varianceColor = (value: number | null): 'neutral' | 'warning' | 'success' | 'danger' => {
+  if (value === null) return 'neutral';
+  if (value >= -0.5) return 'success';
+  if (value >= -1) return 'warning';
+  return 'danger';
+};
+
+export default function CarrierScorecardPage() {
+  const t = useTranslations('Supply');
+  const locale = useLocale();
+
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+
+  const params = new URLSearchParams({ ...(from && { from }), ...(to && { to }) });
+  const { data, isLoading } = useQuery({
+    queryKey: ['carriers', 'scorecard', from, to],
+    queryFn: () => api.get<CarrierScorecard[]>(`/carriers/scorecard?${params}`),
+  });
+  const scorecards: CarrierScorecard[] = (data as any) || [];
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <Link
+          href={`/${locale}/admin/supply/trucks`}
+          className="mb-2 flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground"
+        >
+          <ArrowLeft className="h-4 w-4" />
+          {t('common.backToList')}
+        </Link>
+        <h1 className="flex items-center gap-2 text-2xl font-bold">
+          <BarChart3 className="h-6 w-6" />
+          {t('trucks.scorecard.title')}
+        </h1>
+        <p className="text-muted-foreground">{t('trucks.scorecard.subtitle')}</p>
+      </div>
+
+      {/* Period */}
+      <div className="flex flex-wrap items-end gap-4">
+        <div>
+          <label className="mb-1 block text-xs text-muted-foreground">{t('trucks.scorecard.from')}</label>
+          <input
+            type="date"
+            value={from}
+            onChange={(e) => setFrom(e.target.value)}
+            className="rounded-lg border bg-background px-3 py-1.5 text-sm"
+          />
+        </div>
+        <div>
+          <label className="mb-1 block text-xs text-muted-foreground">{t('trucks.scorecard.to')}</label>
+          <input
+            type="date"
+            value={to}
+            onChange={(e) => setTo(e.target.value)}
+            className="rounded-lg border bg-background px-3 py-1.5 text-sm"
+          />
+        </div>
+      </div>
+
+      <div className="rounded-lg border bg-white p-4">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">{t('common.loading')}</p>
+        ) : scorecards.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{t('trucks.scorecard.empty')}</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b text-left text-muted-foreground">
+                <th className="py-2">{t('trucks.carrier')}</th>
+                <th className="py-2 text-right">{t('trucks.scorecard.deliveries')}</th>
+                <th className="py-2 text-right">{t('common.volume')}</th>
+                <th className="py-2 text-right">{t('trucks.scorecard.averageVariance')}</th>
+                <th className="py-2 text-right">{t('trucks.scorecard.shortage')}</th>
+                <th className="py-2 text-right">{t('trucks.scorecard.disputes')}</th>
+                <th className="py-2 text-right">{t('trucks.scorecard.onTime')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {scorecards.map((row) => (
+                <tr key={row.carrier.id} className="border-b last:border-0">
+                  <td className="py-2">
+                    <span className="font-medium">{row.carrier.name}</span>
+                    {!row.carrier.isActive && (
+                      <span className="ml-2 text-xs text-muted-foreground">({t('trucks.inactive')})</span>
+                    )}
+                  </td>
+                  <td className="py-2 text-right">{row.deliveries}</td>
+                  <td className="py-2 text-right font-mono">{row.blVolume.toLocaleString('fr-FR')} L</td>
+                  <td className="py-2 text-right">
+                    {row.averageVariancePercent === null ? (
+                      '—'
+                    ) : (
+                      <StatusBadge
+                        status={varianceColor(row.averageVariancePercent)}
+                        label={formatPercent(row.averageVariancePercent, 3)}
+                      />
+                    )}
+                  </td>
+                  <td className="py-2 text-right font-mono">{row.shortageVolume.toLocaleString('fr-FR')} L</td>
+                  <td className="py-2 text-right">
+                    {row.disputes}
+                    <span className="ml-1 text-xs text-muted-foreground">({formatPercent(row.disputeRate)})</span>
+                  </td>
+                  <td className="py-2 text-right">
+                    {formatPercent(row.onTimeRate)}
+                    {row.scheduledDeliveries > 0 && (
+                      <span className="ml-1 text-xs text-muted-foreground">
+                        ({row.onTimeDeliveries}/{row.scheduledDeliveries})
+                      </span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
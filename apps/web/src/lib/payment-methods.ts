@@ -0,0 +1,28 @@
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import type { PaymentMethod } from '@alcom/shared/src/schemas/shift.schema';
+import { api } from './api-client';
+
+/**
+ * Non-cash payment methods accepted by a station besides cards (settings.paymentMethods).
+ */
+export function usePaymentMethods(stationId?: string | null) {
+  const { data } = useQuery({
+    queryKey: ['station-settings', stationId],
+    queryFn: async () => {
+      const res = await api.get<any>(`/stations/${stationId}/settings`);
+      return (res as any).data || res;
+    },
+    enabled: !!stationId,
+  });
+  const methods: PaymentMethod[] = data?.settings?.paymentMethods || [];
+  return methods;
+}
+
+/**
+ * Label of a payment method: the station's name for it, otherwise the code itself.
+ */
+export function paymentMethodLabel(method: string, methods: PaymentMethod[] = []): string {
+  return methods.find((m) => m.code === method)?.name ?? method;
+}
@@ -0,0 +1,37 @@
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import { api } from './api-client';
+
+export interface PriceZone {
+  id: string;
+  code: string;
+  name: string;
+  stationCount: number;
+  stations: { id: string; code: string; name: string }[];
+}
+
+interface PriceScoped {
+  priceZone?: { code: string; name: string } | null;
+  station?: { code: string; name: string } | null;
+}
+
+/**
+ * Price zones with their stations.
+ */
+export function usePriceZones() {
+  const { data } = useQuery({
+    queryKey: ['price-zones'],
+    queryFn: () => api.get<PriceZone[]>('/price-zones'),
+  });
+  return data || [];
+}
+
+/**
+ * Label of a price's scope: its station, its zone, or the national price.
+ */
+export function priceScopeLabel(price: PriceScoped, nationalLabel: string): string {
+  if (price.station) return `${price.station.code} — ${price.station.name}`;
+  if (price.priceZone) return price.priceZone.name;
+  return nationalLabel;
+}
@@ -0,0 +1,44 @@
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import type { ShiftPattern } from '@alcom/shared/src/schemas/shift.schema';
+import { api } from './api-client';
+
+/**
+ * Shift patterns defined for a station (settings.shiftPatterns).
+ */
+export function useShiftPatterns(stationId?: string | null) {
+  const { data } = useQuery({
+    queryKey: ['station-settings', stationId],
+    queryFn: async () => {
+      const res = await api.get<any>(`/stations/${stationId}/settings`);
+      return (res as any).data || res;
+    },
+    enabled: !!stationId,
+  });
+  const patterns: ShiftPattern[] = data?.settings?.shiftPatterns || [];
+  return patterns;
+}
+
+/**
+ * Label of a shift type: the station's pattern name when known, otherwise the
+ * translated default (MORNING / EVENING) or the code itself.
+ */
+export function shiftTypeLabel(
+  shiftType: string,
+  t: (key: 'morning' | 'evening') => string,
+  patterns: ShiftPattern[] = [],
+): string {
+  const pattern = patterns.find((p) => p.code === shiftType);
+  if (pattern) return pattern.name;
+  if (shiftType === 'MORNING') return t('morning');
+  if (shiftType === 'EVENING') return t('evening');
+  return shiftType;
+}
+
+/**
+ * "06:00 – 14:00", with the next-day end marked for shifts crossing midnight.
+ */
+export function shiftPatternHours(pattern: ShiftPattern): string {
+  return `${pattern.startTime} – ${pattern.endTime}${pattern.crossesMidnight ? ' (+1)' : ''}`;
+}
@@ -2,14 +2,31 @@ import { describe, it, expect } from 'vitest';
 import Decimal from 'decimal.js';
 import {
   calculateVolumeSold,
+  calculateVolumeAcrossReplacements,
   calculateRevenue,
+  calculateSegmentedRevenue,
   calculateTheoreticalCash,
   calculateCashVariance,
+  allocateProRata,
   calculateTheoreticalStock,
   calculateStockVariance,
   calculateDeliveryVariance,
+  calculateCalibrationError,
+  calculateWetStockTrend,
+  calculateVolumeCorrectionFactor,
+  correctVolumeTo15C,
   calculateUllage,
+  convertDipHeightToVolume,
   calculateChecklistScore,
+  selectApprovalRule,
+  evaluateApprovalProgress,
+  calculateReceivableAging,
+  calculateThreeWayMatch,
+  calculateDisputeClaim,
+  forecastDailyDemand,
+  calculateReplenishmentPlan,
+  allocateTripCompartments,
+  calculateCarrierScorecard,
 } from '../calculations';
 
 // ─── calculateVolumeSold ───
@@ -54,6 +71,37 @@ describe('calculateVolumeSold', () => {
     const result = calculateVolumeSold(0, 0);
     expect(result.toNumber()).toBe(0);
   });
+
+  it('should roll over at the meter rollover value', () => {
+    // 7-digit mechanical totalizer without decimals
+    const result = calculateVolumeSold(9999990, 15, 9999999);
+    expect(result.toNumber()).toBe(24);
+  });
+});
+
+// ─── calculateVolumeAcrossReplacements ───
+describe('calculateVolumeAcrossReplacements', () => {
+  it('should match calculateVolumeSold without replacement', () => {
+    const result = calculateVolumeAcrossReplacements(1000, 1500, []);
+    expect(result.toNumber()).toBe(500);
+  });
+
+  it('should add the old meter up to its final index and the new one from its start', () => {
+    const result = calculateVolumeAcrossReplacements(1000, 150, [
+      { oldFinalIndex: 1200, newStartIndex: 0, rolloverValue: 999999.9999 },
+    ]);
+    expect(result.toNumber()).toBe(350);
+  });
+
+  it('should apply each meter its own rollover value', () => {
+    const result = calculateVolumeAcrossReplacements(
+      999990,
+      9999995,
+      [{ oldFinalIndex: 5, newStartIndex: 9999990, rolloverValue: 9999999 }],
+      999999.9999,
+    );
+    expect(result.toNumber()).toBeCloseTo(14.9999 + 5, 4);
+  });
 });
 
 // ─── calculateRevenue ───
@@ -90,6 +138,35 @@ describe('calculateRevenue', () => {
   });
 });
 
+// ─── calculateSegmentedRevenue ───
+describe('calculateSegmentedRevenue', () => {
+  const segments = [
+    { startIndex: 1000, unitPrice: 730 },
+    { startIndex: 1200, unitPrice: 750 },
+  ];
+
+  it('should bill each index range at its own price', () => {
+    // 200L at 730 + 100L at 750
+    const result = calculateSegmentedRevenue(1000, 1000, 1300, segments);
+    expect(result.toNumber()).toBe(221000);
+  });
+
+  it('should only bill the overlap of a partial range', () => {
+    // Attendant on the nozzle from 1150 to 1250: 50L at 730 + 50L at 750
+    const result = calculateSegmentedRevenue(1000, 1150, 1250, segments);
+    expect(result.toNumber()).toBe(74000);
+  });
+
+  it('should handle a price change after a meter rollover', () => {
+    const result = calculateSegmentedRevenue(999900, 999900, 100, [
+      { startIndex: 999900, unitPrice: 730 },
+      { startIndex: 50, unitPrice: 750 },
+    ]);
+    // 149.9999L at 730 + 50L at 750
+    expect(result.toNumber()).toBeCloseTo(146999.927, 3);
+  });
+});
+
 // ─── calculateTheoreticalCash ───
 describe('calculateTheoreticalCash', () => {
   it('should calculate theoretical cash (all cash, no card/expenses)', () => {
@@ -121,6 +198,16 @@ describe('calculateTheoreticalCash', () => {
     const result = calculateTheoreticalCash(100000, 80000, 50000);
     expect(result.toNumber()).toBe(-30000);
   });
+
+  it('should subtract every non-cash tender', () => {
+    const result = calculateTheoreticalCash(1000000, [200000, 150000, new Decimal('50000')], 50000);
+    expect(result.toNumber()).toBe(550000);
+  });
+
+  it('should treat an empty tender list as all cash', () => {
+    const result = calculateTheoreticalCash(1000000, [], 0);
+    expect(result.toNumber()).toBe(1000000);
+  });
 });
 
 // ─── calculateCashVariance ───
@@ -151,6 +238,29 @@ describe('calculateCashVariance', () => {
   });
 });
 
+// ─── allocateProRata ───
+describe('allocateProRata', () => {
+  it('should split in proportion to the weights', () => {
+    const result = allocateProRata(30000, [300000, 100000]);
+    expect(result.map((r) => r.toNumber())).toEqual([22500, 7500]);
+  });
+
+  it('should give the rounding remainder to the last share', () => {
+    const result = allocateProRata(100, [1, 1, 1]);
+    expect(result.map((r) => r.toNumber())).toEqual([33.3333, 33.3333, 33.3334]);
+    expect(result.reduce((sum, r) => sum.plus(r), new Decimal(0)).toNumber()).toBe(100);
+  });
+
+  it('should split evenly without any positive weight', () => {
+    const result = allocateProRata(5000, [0, 0]);
+    expect(result.map((r) => r.toNumber())).toEqual([2500, 2500]);
+  });
+
+  it('should return no share without weights', () => {
+    expect(allocateProRata(5000, [])).toEqual([]);
+  });
+});
+
 // ─── calculateTheoreticalStock ───
 describe('calculateTheoreticalStock', () => {
   it('should calculate basic theoretical stock', () => {
@@ -242,6 +352,100 @@ describe('calculateDeliveryVariance', () => {
   });
 });
 
+// ─── calculateCalibrationError ───
+describe('calculateCalibrationError', () => {
+  it('should be within tolerance for an accurate pump', () => {
+    const result = calculateCalibrationError(20, 20);
+    expect(result.errorPercent.toNumber()).toBe(0);
+    expect(result.isWithinTolerance).toBe(true);
+  });
+
+  it('should be positive when the pump indicates more than delivered', () => {
+    const result = calculateCalibrationError(20.05, 20);
+    expect(result.errorPercent.toNumber()).toBeCloseTo(0.25, 4);
+    expect(result.isWithinTolerance).toBe(true);
+  });
+
+  it('should fail beyond the tolerance', () => {
+    const result = calculateCalibrationError(19.8, 20);
+    expect(result.errorPercent.toNumber()).toBeCloseTo(-1, 4);
+    expect(result.isWithinTolerance).toBe(false);
+  });
+});
+
+// ─── calculateWetStockTrend ───
+describe('calculateWetStockTrend', () => {
+  it('should not flag random variances that cancel out', () => {
+    const result = calculateWetStockTrend([-20, 15, -10, 20, -5, 0], 60000);
+    expect(result.cumulativeVariance.toNumber()).toBe(0);
+    expect(result.variancePercent.toNumber()).toBe(0);
+    expect(result.isLeakSuspected).toBe(false);
+  });
+
+  it('should flag a steady loss above the threshold', () => {
+    const result = calculateWetStockTrend([-80, -75, -90, -85, -70, -80], 60000);
+    expect(result.cumulativeVariance.toNumber()).toBe(-480);
+    expect(result.variancePercent.toNumber()).toBeCloseTo(-0.8, 4);
+    expect(result.slope.toNumber()).toBeLessThan(0);
+    expect(result.isLeakSuspected).toBe(true);
+  });
+
+  it('should not flag a loss within the threshold', () => {
+    const result = calculateWetStockTrend([-40, -45, -50, -40, -45, -50], 60000);
+    expect(result.variancePercent.toNumber()).toBeCloseTo(-0.45, 4);
+    expect(result.isLeakSuspected).toBe(false);
+  });
+
+  it('should need enough shifts to flag a trend', () => {
+    const result = calculateWetStockTrend([-300, -300], 10000);
+    expect(result.slope.toNumber()).toBe(-300);
+    expect(result.isLeakSuspected).toBe(false);
+  });
+
+  it('should handle no throughput', () => {
+    const result = calculateWetStockTrend([], 0);
+    expect(result.variancePercent.toNumber()).toBe(0);
+    expect(result.slope.toNumber()).toBe(0);
+  });
+});
+
+// ─── calculateVolumeCorrectionFactor ───
+describe('calculateVolumeCorrectionFactor', () => {
+  it('should return 1 at the 15 °C reference temperature', () => {
+    expect(calculateVolumeCorrectionFactor('ESSENCE', 15).toNumber()).toBe(1);
+  });
+
+  it('should shrink volume above 15 °C (gasoline, 745 kg/m³, 30 °C)', () => {
+    expect(calculateVolumeCorrectionFactor('ESSENCE', 30).toNumber()).toBe(0.98171);
+  });
+
+  it('should expand volume below 15 °C', () => {
+    expect(calculateVolumeCorrectionFactor('GASOIL', 10, 850).toNumber()).toBe(1.00415);
+  });
+
+  it('should correct diesel less than gasoline at the same temperature', () => {
+    const gasoline = calculateVolumeCorrectionFactor('ESSENCE', 35);
+    const diesel = calculateVolumeCorrectionFactor('GASOIL', 35);
+    expect(diesel.greaterThan(gasoline)).toBe(true);
+  });
+
+  it('should throw for an unknown fuel type', () => {
+    expect(() => calculateVolumeCorrectionFactor('LPG', 30)).toThrow(RangeError);
+  });
+});
+
+// ─── correctVolumeTo15C ───
+describe('correctVolumeTo15C', () => {
+  it('should apply the VCF to an ambient volume', () => {
+    // 10000 L × 0.98171
+    expect(correctVolumeTo15C(10000, 'ESSENCE', 30).toNumber()).toBe(9817.1);
+  });
+
+  it('should leave volume unchanged at 15 °C', () => {
+    expect(correctVolumeTo15C(10000, 'GASOIL', 15).toNumber()).toBe(10000);
+  });
+});
+
 // ─── calculateUllage ───
 describe('calculateUllage', () => {
   it('should calculate available space in tank', () => {
@@ -260,6 +464,343 @@ describe('calculateUllage', () => {
   });
 });
 
+// ─── convertDipHeightToVolume ───
+describe('convertDipHeightToVolume', () => {
+  const chart = [
+    { height: 0, volume: 0 },
+    { height: 100, volume: 8000 },
+    { height: 200, volume: 20000 },
+  ];
+
+  it('should return exact volume on a chart point', () => {
+    expect(convertDipHeightToVolume(chart, 100).toNumber()).toBe(8000);
+  });
+
+  it('should interpolate linearly between points', () => {
+    // 150cm → halfway between 8000 and 20000
+    expect(convertDipHeightToVolume(chart, 150).toNumber()).toBe(14000);
+  });
+
+  it('should accept an unsorted chart', () => {
+    const unsorted = [chart[2]!, chart[0]!, chart[1]!];
+    expect(convertDipHeightToVolume(unsorted, 50).toNumber()).toBe(4000);
+  });
+
+  it('should handle decimal heights', () => {
+    expect(convertDipHeightToVolume(chart, 12.5).toNumber()).toBe(1000);
+  });
+
+  it('should throw when height is outside the chart', () => {
+    expect(() => convertDipHeightToVolume(chart, 200.1)).toThrow(RangeError);
+    expect(() => convertDipHeightToVolume(chart, -1)).toThrow(RangeError);
+  });
+
+  it('should throw when chart has fewer than 2 points', () => {
+    expect(() => convertDipHeightToVolume([{ height: 0, volume: 0 }], 0)).toThrow(RangeError);
+  });
+});
+
+// ─── calculateReceivableAging ───
+describe('calculateReceivableAging', () => {
+  const asOf = new Date('2026-06-30T12:00:00Z');
+  const charges = [
+    { date: new Date('2026-03-01T10:00:00Z'), amount: 100000 },
+    { date: new Date('2026-04-20T10:00:00Z'), amount: 50000 },
+    { date: new Date('2026-05-15T10:00:00Z'), amount: 30000 },
+    { date: new Date('2026-06-25T10:00:00Z'), amount: 20000 },
+  ];
+
+  it('should bucket unpaid charges by age', () => {
+    const result = calculateReceivableAging(charges, 0, asOf);
+    expect(result.over90.toNumber()).toBe(100000);
+    expect(result.days61to90.toNumber()).toBe(50000);
+    expect(result.days31to60.toNumber()).toBe(30000);
+    expect(result.current.toNumber()).toBe(20000);
+    expect(result.total.toNumber()).toBe(200000);
+  });
+
+  it('should settle the oldest charges first', () => {
+    const result = calculateReceivableAging(charges, 120000, asOf);
+    expect(result.over90.toNumber()).toBe(0);
+    expect(result.days61to90.toNumber()).toBe(30000);
+    expect(result.days31to60.toNumber()).toBe(30000);
+    expect(result.current.toNumber()).toBe(20000);
+    expect(result.total.toNumber()).toBe(80000);
+  });
+
+  it('should be empty when everything is paid', () => {
+    const result = calculateReceivableAging(charges, 250000, asOf);
+    expect(result.total.toNumber()).toBe(0);
+  });
+});
+
+// ─── calculateThreeWayMatch ───
+describe('calculateThreeWayMatch', () => {
+  const line = {
+    fuelType: 'GASOIL',
+    orderedVolume: 20000,
+    orderedPrice: 650,
+    receivedVolume: 19950,
+  };
+
+  it('should match an invoice of the received volume at the ordered price', () => {
+    const result = calculateThreeWayMatch([{ ...line, invoicedQuantity: 20000, invoicedPrice: 650 }]);
+    expect(result.matched).toBe(true);
+    expect(result.lines[0]!.quantityVariance.toNumber()).toBe(50);
+    expect(result.lines[0]!.amountVariance.toNumber()).toBe(32500);
+  });
+
+  it('should flag a quantity billed beyond the tolerance on received volume', () => {
+    const result = calculateThreeWayMatch([{ ...line, invoicedQuantity: 20100, invoicedPrice: 650 }]);
+    expect(result.matched).toBe(false);
+    expect(result.lines[0]!.quantityMatched).toBe(false);
+    expect(result.lines[0]!.priceMatched).toBe(true);
+  });
+
+  it('should flag a price different from the purchase order', () => {
+    const result = calculateThreeWayMatch([{ ...line, invoicedQuantity: 19950, invoicedPrice: 655 }]);
+    expect(result.matched).toBe(false);
+    expect(result.lines[0]!.priceVariance.toNumber()).toBe(5);
+  });
+
+  it('should flag a fuel type billed but never received', () => {
+    const result = calculateThreeWayMatch([
+      { ...line, invoicedQuantity: 19950, invoicedPrice: 650 },
+      { fuelType: 'ESSENCE', orderedVolume: 0, orderedPrice: 0, receivedVolume: 0, invoicedQuantity: 1000, invoicedPrice: 700 },
+    ]);
+    expect(result.matched).toBe(false);
+    expect(result.lines[1]!.quantityMatched).toBe(false);
+  });
+});
+
+// ─── calculateDisputeClaim ───
+describe('calculateDisputeClaim', () => {
+  it('should value the shortage of each fuel type at its purchase price', () => {
+    const result = calculateDisputeClaim(
+      [
+        { fuelType: 'GASOIL', variance: -150 },
+        { fuelType: 'GASOIL', variance: -50 },
+        { fuelType: 'ESSENCE', variance: -100 },
+      ],
+      { GASOIL: 600, ESSENCE: 650 },
+    );
+    expect(result.shortageVolume.toNumber()).toBe(300);
+    expect(result.claimAmount.toNumber()).toBe(200 * 600 + 100 * 650);
+    expect(result.lines).toHaveLength(2);
+  });
+
+  it('should not net over-deliveries against shortages', () => {
+    const result = calculateDisputeClaim(
+      [
+        { fuelType: 'GASOIL', variance: -200 },
+        { fuelType: 'GASOIL', variance: 120 },
+      ],
+      { GASOIL: 600 },
+    );
+    expect(result.shortageVolume.toNumber()).toBe(200);
+    expect(result.claimAmount.toNumber()).toBe(120000);
+  });
+
+  it('should claim nothing on an over-delivery', () => {
+    const result = calculateDisputeClaim([{ fuelType: 'GASOIL', variance: 300 }], { GASOIL: 600 });
+    expect(result.lines).toHaveLength(0);
+    expect(result.claimAmount.toNumber()).toBe(0);
+  });
+});
+
+// ─── forecastDailyDemand ───
+describe('forecastDailyDemand', () => {
+  // Four weeks from Monday 2026-09-07: 1000 L a day, 2000 L on Saturdays
+  const weeklyHistory = Array.from({ length: 28 }, (_, i) => {
+    const date = new Date(Date.UTC(2026, 8, 7 + i));
+    return { date: date.toISOString().split('T')[0]!, volume: date.getUTCDay() === 6 ? 2000 : 1000 };
+  });
+
+  it('should apply the weekday seasonality to a flat demand', () => {
+    const result = forecastDailyDemand(weeklyHistory, '2026-10-05', 7);
+    expect(result.trendPerDay.toNumber()).toBeCloseTo(0, 6);
+    expect(result.weekdayFactors[6]!.toNumber()).toBeCloseTo(1.75, 6);
+    expect(result.daily[0]!.date).toBe('2026-10-05');
+    expect(result.daily[0]!.volume.toNumber()).toBeCloseTo(1000, 4);
+    expect(result.daily[5]!.volume.toNumber()).toBeCloseTo(2000, 4);
+  });
+
+  it('should carry a growing demand forward', () => {
+    const history = weeklyHistory.map((h, i) => ({ date: h.date, volume: 1000 + 20 * i }));
+    const result = forecastDailyDemand(history, '2026-10-05', 7);
+    expect(result.trendPerDay.toNumber()).toBeGreaterThan(0);
+    const forecastAverage = result.daily.reduce((sum, d) => sum + d.volume.toNumber(), 0) / 7;
+    expect(forecastAverage).toBeGreaterThan(result.averageDailyVolume.toNumber());
+  });
+
+  it('should forecast nothing without history', () => {
+    const result = forecastDailyDemand([], '2026-10-05', 3);
+    expect(result.daily).toHaveLength(3);
+    expect(result.daily.every((d) => d.volume.isZero())).toBe(true);
+  });
+});
+
+// ─── calculateReplenishmentPlan ───
+describe('calculateReplenishmentPlan', () => {
+  const plan = {
+    capacity: 20000,
+    dailyDemand: Array(30).fill(1000),
+    leadTimeDays: 2,
+    safetyStockDays: 1,
+    compartmentVolume: 5000,
+    truckCapacity: 30000,
+  };
+
+  it('should order ahead of the lead time and safety stock', () => {
+    const result = calculateReplenishmentPlan({ ...plan, currentLevel: 10000 });
+    expect(result.daysOfCover!.toNumber()).toBe(10);
+    expect(result.orderInDays).toBe(7);
+    // 1000 L left on delivery: 19000 L of ullage, three compartments
+    expect(result.recommendedVolume.toNumber()).toBe(15000);
+  });
+
+  it('should order today when the cover is shorter than the lead time', () => {
+    const result = calculateReplenishmentPlan({ ...plan, currentLevel: 2500 });
+    expect(result.daysOfCover!.toNumber()).toBe(2.5);
+    expect(result.orderInDays).toBe(0);
+  });
+
+  it('should stay within one truck', () => {
+    const result = calculateReplenishmentPlan({ ...plan, capacity: 60000, currentLevel: 3000 });
+    expect(result.recommendedVolume.toNumber()).toBe(30000);
+  });
+
+  it('should not plan an order when the stock outlasts the horizon', () => {
+    const result = calculateReplenishmentPlan({ ...plan, currentLevel: 10000, dailyDemand: Array(30).fill(0) });
+    expect(result.daysOfCover).toBeNull();
+    expect(result.orderInDays).toBeNull();
+  });
+});
+
+// ─── allocateTripCompartments ───
+describe('allocateTripCompartments', () => {
+  const compartments = [
+    { id: 'C1', capacity: 5000 },
+    { id: 'C2', capacity: 5000 },
+    { id: 'C3', capacity: 8000 },
+    { id: 'C4', capacity: 10000 },
+  ];
+
+  it('should load the largest request first, best fit', () => {
+    const result = allocateTripCompartments(compartments, [
+      { id: 'B', volume: 5000 },
+      { id: 'A', volume: 13000 },
+    ]);
+    expect(result.unallocated).toHaveLength(0);
+    expect(result.allocations.map((a) => [a.requestId, a.compartmentId, a.volume.toNumber()])).toEqual([
+      ['A', 'C4', 10000],
+      ['A', 'C1', 3000],
+      ['B', 'C2', 5000],
+    ]);
+  });
+
+  it('should return what does not fit on the truck', () => {
+    const result = allocateTripCompartments([{ id: 'C1', capacity: 5000 }], [
+      { id: 'A', volume: 6000 },
+      { id: 'B', volume: 1000 },
+    ]);
+    expect(result.allocations).toHaveLength(1);
+    expect(result.unallocated.map((u) => [u.requestId, u.volume.toNumber()])).toEqual([
+      ['A', 1000],
+      ['B', 1000],
+    ]);
+  });
+});
+
+// ─── calculateCarrierScorecard ───
+describe('calculateCarrierScorecard', () => {
+  it('should weight the variance by volume and rate punctuality on scheduled deliveries', () => {
+    const result = calculateCarrierScorecard([
+      { blVolume: 30000, variance: -150, disputed: true, expectedDate: '2026-10-10', receivedDate: '2026-10-10' },
+      { blVolume: 10000, variance: 50, disputed: false, expectedDate: '2026-10-12', receivedDate: '2026-10-13' },
+      { blVolume: 10000, variance: 0, disputed: false, expectedDate: null, receivedDate: '2026-10-14' },
+    ]);
+    expect(result.deliveries).toBe(3);
+    expect(result.blVolume.toNumber()).toBe(50000);
+    expect(result.averageVariancePercent!.toNumber()).toBe(-0.2);
+    expect(result.shortageVolume.toNumber()).toBe(150);
+    expect(result.disputes).toBe(1);
+    expect(result.scheduledDeliveries).toBe(2);
+    expect(result.onTimeDeliveries).toBe(1);
+    expect(result.onTimeRate!.toNumber()).toBe(50);
+  });
+
+  it('should leave rates empty without deliveries', () => {
+    const result = calculateCarrierScorecard([]);
+    expect(result.averageVariancePercent).toBeNull();
+    expect(result.disputeRate).toBeNull();
+    expect(result.onTimeRate).toBeNull();
+  });
+});
+
+// ─── selectApprovalRule ───
+describe('selectApprovalRule', () => {
+  const rules = [
+    { name: 'station', stationIds: ['s1'], categories: ['MAINTENANCE'] },
+    { name: 'high', minAmount: 5_000_000 },
+    { name: 'mid', minAmount: 500_000, maxAmount: 5_000_000 },
+    { name: 'default' },
+  ];
+
+  it('should pick the first rule whose conditions all match', () => {
+    expect(selectApprovalRule(rules, { amount: 100, stationId: 's1', category: 'MAINTENANCE' })!.name).toBe('station');
+    expect(selectApprovalRule(rules, { amount: 100, stationId: 's1', category: 'UTILITIES' })!.name).toBe('default');
+  });
+
+  it('should treat the upper amount bound as exclusive', () => {
+    expect(selectApprovalRule(rules, { amount: 5_000_000 })!.name).toBe('high');
+    expect(selectApprovalRule(rules, { amount: 4_999_999 })!.name).toBe('mid');
+    expect(selectApprovalRule(rules, { amount: 499_999 })!.name).toBe('default');
+  });
+
+  it('should return null when no rule applies', () => {
+    expect(selectApprovalRule([{ minAmount: 1000 }], { amount: 10 })).toBeNull();
+  });
+});
+
+// ─── evaluateApprovalProgress ───
+describe('evaluateApprovalProgress', () => {
+  const chain = { mode: 'SEQUENTIAL' as const, steps: [{ roles: ['LINE_MANAGER'] }, { roles: ['CFO'] }, { roles: ['CEO'] }] };
+
+  it('should open sequential steps one at a time', () => {
+    const result = evaluateApprovalProgress(chain, [{ role: 'LINE_MANAGER', stepIndex: 0 }]);
+    expect(result.openSteps).toEqual([1]);
+    expect(result.complete).toBe(false);
+  });
+
+  it('should open every pending step of a parallel rule', () => {
+    const result = evaluateApprovalProgress({ ...chain, mode: 'PARALLEL' }, [{ role: 'CEO', stepIndex: 2 }]);
+    expect(result.openSteps).toEqual([0, 1]);
+  });
+
+  it('should skip steps of roles that do not apply', () => {
+    const result = evaluateApprovalProgress(chain, [], ['LINE_MANAGER']);
+    expect(result.steps[0]!.status).toBe('SKIPPED');
+    expect(result.openSteps).toEqual([1]);
+  });
+
+  it('should not skip every step of a rule', () => {
+    const result = evaluateApprovalProgress({ mode: 'SEQUENTIAL', steps: [{ roles: ['LINE_MANAGER'] }] }, [], ['LINE_MANAGER']);
+    expect(result.openSteps).toEqual([0]);
+    expect(result.complete).toBe(false);
+  });
+
+  it('should match older approvals to steps by role', () => {
+    const result = evaluateApprovalProgress(chain, [
+      { role: 'LINE_MANAGER', stepIndex: null },
+      { role: 'CFO', stepIndex: null },
+      { role: 'SUPER_ADMIN', stepIndex: null },
+    ]);
+    expect(result.steps.map((s) => s.approvedRole)).toEqual(['LINE_MANAGER', 'CFO', 'SUPER_ADMIN']);
+    expect(result.complete).toBe(true);
+  });
+});
+
 // ─── calculateChecklistScore ───
 describe('calculateChecklistScore', () => {
   it('should calculate 100% when all conforme', () => {
@@ -7,11 +7,12 @@ const METER_ROLLOVER_THRESHOLD = new Decimal('999999.9999');
 
 /**
  * Calculate volume sold from meter readings.
- * Handles meter rollover (when closing < opening).
+ * Handles meter rollover (when closing < opening) at the meter's rollover value.
  */
 export function calculateVolumeSold(
   openingIndex: Decimal | number,
   closingIndex: Decimal | number,
+  rolloverValue: Decimal | number = METER_ROLLOVER_THRESHOLD,
 ): Decimal {
   const opening = new Decimal(openingIndex);
   const closing = new Decimal(closingIndex);
@@ -21,7 +22,32 @@ export function calculateVolumeSold(
   }
 
   // Meter rollover
-  return METER_ROLLOVER_THRESHOLD.minus(opening).plus(closing);
+  return new Decimal(rolloverValue).minus(opening).plus(closing);
+}
+
+/**
+ * Calculate volume sold between two readings of a nozzle whose meter was replaced in
+ * between: what each replaced meter counted up to its final index, plus what the meter
+ * fitted last counted from its starting index. `replacements` are in chronological order;
+ * `rolloverValue` is the one of the meter read at the opening.
+ */
+export function calculateVolumeAcrossReplacements(
+  openingIndex: Decimal | number,
+  closingIndex: Decimal | number,
+  replacements: { oldFinalIndex: Decimal | number; newStartIndex: Decimal | number; rolloverValue: Decimal | number }[],
+  rolloverValue: Decimal | number = METER_ROLLOVER_THRESHOLD,
+): Decimal {
+  let volume = new Decimal(0);
+  let start = new Decimal(openingIndex);
+  let rollover = new Decimal(rolloverValue);
+
+  for (const replacement of replacements) {
+    volume = volume.plus(calculateVolumeSold(start, replacement.oldFinalIndex, rollover));
+    start = new Decimal(replacement.newStartIndex);
+    rollover = new Decimal(replacement.rolloverValue);
+  }
+
+  return volume.plus(calculateVolumeSold(start, closingIndex, rollover));
 }
 
 /**
@@ -34,16 +60,43 @@ export function calculateRevenue(
   return new Decimal(volume).times(new Decimal(unitPrice));
 }
 
+/**
+ * Calculate revenue of the litres sold between two meter readings of a nozzle whose
+ * price changed during the shift. `segments` are ordered by index, the first one starting
+ * at `openingIndex`; each runs at its unit price until the next one starts.
+ * Handles meter rollover (indexes are measured from the opening index).
+ */
+export function calculateSegmentedRevenue(
+  openingIndex: Decimal | number,
+  fromIndex: Decimal | number,
+  toIndex: Decimal | number,
+  segments: { startIndex: Decimal | number; unitPrice: Decimal | number }[],
+  rolloverValue: Decimal | number = METER_ROLLOVER_THRESHOLD,
+): Decimal {
+  const from = calculateVolumeSold(openingIndex, fromIndex, rolloverValue);
+  const to = calculateVolumeSold(openingIndex, toIndex, rolloverValue);
+  const starts = segments.map((s) => calculateVolumeSold(openingIndex, s.startIndex, rolloverValue));
+
+  return segments.reduce((revenue, segment, i) => {
+    const start = Decimal.max(starts[i]!, from);
+    const end = i + 1 < segments.length ? Decimal.min(starts[i + 1]!, to) : to;
+    return end.greaterThan(start) ? revenue.plus(calculateRevenue(end.minus(start), segment.unitPrice)) : revenue;
+  }, new Decimal(0));
+}
+
 /**
  * Calculate theoretical cash (what should be in the register).
- * TheoreticalCash = TotalRevenue - CardPayments - Expenses
+ * TheoreticalCash = TotalRevenue - NonCashTenders - Expenses
+ * Non-cash tenders are card payments plus any mobile money, credit sale or coupon amounts.
  */
 export function calculateTheoreticalCash(
   totalRevenue: Decimal | number,
-  cardPayments: Decimal | number,
+  nonCashTenders: Decimal | number | Array<Decimal | number>,
   expenses: Decimal | number,
 ): Decimal {
-  return new Decimal(totalRevenue).minus(new Decimal(cardPayments)).minus(new Decimal(expenses));
+  const tenders = Array.isArray(nonCashTenders) ? nonCashTenders : [nonCashTenders];
+  const nonCash = tenders.reduce<Decimal>((sum, amount) => sum.plus(new Decimal(amount)), new Decimal(0));
+  return new Decimal(totalRevenue).minus(nonCash).minus(new Decimal(expenses));
 }
 
 /**
@@ -57,6 +110,28 @@ export function calculateCashVariance(
   return new Decimal(actualCash).minus(new Decimal(theoreticalCash));
 }
 
+/**
+ * Split an amount in proportion to weights (e.g. a shift's mobile money across its attendants
+ * by revenue). Shares are rounded to 4 decimals and the last one takes the remainder, so they
+ * always add up to the amount. Without any positive weight the amount is split evenly.
+ */
+export function allocateProRata(amount: Decimal | number, weights: Array<Decimal | number>): Decimal[] {
+  if (weights.length === 0) return [];
+  const total = new Decimal(amount);
+  const positive = weights.map((w) => Decimal.max(new Decimal(w), 0));
+  const totalWeight = positive.reduce<Decimal>((sum, w) => sum.plus(w), new Decimal(0));
+  const base = totalWeight.gt(0) ? positive : positive.map(() => new Decimal(1));
+  const baseTotal = totalWeight.gt(0) ? totalWeight : new Decimal(base.length);
+
+  let allocated = new Decimal(0);
+  return base.map((weight, i) => {
+    if (i === base.length - 1) return total.minus(allocated);
+    const share = total.times(weight).dividedBy(baseTotal).toDecimalPlaces(4);
+    allocated = allocated.plus(share);
+    return share;
+  });
+}
+
 /**
  * Calculate theoretical stock level.
  * Theoretical = Opening + Deliveries - Sales
@@ -100,6 +175,115 @@ export function calculateDeliveryVariance(
   };
 }
 
+/**
+ * Calculate the error of a pump calibration test, in % of the volume measured in the
+ * test can: positive when the pump indicates more than it delivered.
+ * Returns { errorPercent, isWithinTolerance }
+ */
+export function calculateCalibrationError(
+  dispensedVolume: Decimal | number,
+  measuredVolume: Decimal | number,
+  tolerancePercent: number = 0.005,
+): { errorPercent: Decimal; isWithinTolerance: boolean } {
+  const dispensed = new Decimal(dispensedVolume);
+  const measured = new Decimal(measuredVolume);
+  const errorPercent = dispensed.minus(measured).dividedBy(measured).times(100);
+
+  return {
+    errorPercent,
+    isWithinTolerance: errorPercent.abs().lessThanOrEqualTo(tolerancePercent * 100),
+  };
+}
+
+/**
+ * Statistical inventory reconciliation of a tank over consecutive shifts.
+ * Fits a least-squares line to the cumulative stock variance (litres per shift) and
+ * expresses it in % of the volume sold. A leak is suspected when the cumulative variance
+ * trends down and the loss exceeds the threshold (fraction of throughput).
+ * Returns { cumulativeVariance, variancePercent, slope, isLeakSuspected }
+ */
+export function calculateWetStockTrend(
+  variances: Array<Decimal | number>,
+  throughput: Decimal | number,
+  lossThresholdPercent: number = 0.005,
+  minShifts: number = 5,
+): { cumulativeVariance: Decimal; variancePercent: Decimal; slope: Decimal; isLeakSuspected: boolean } {
+  const sold = new Decimal(throughput);
+  const cumulative: Decimal[] = [];
+  variances.reduce<Decimal>((sum, v) => {
+    const next = sum.plus(new Decimal(v));
+    cumulative.push(next);
+    return next;
+  }, new Decimal(0));
+
+  const n = cumulative.length;
+  const cumulativeVariance = n > 0 ? cumulative[n - 1]! : new Decimal(0);
+  const variancePercent = sold.gt(0) ? cumulativeVariance.dividedBy(sold).times(100) : new Decimal(0);
+
+  let slope = new Decimal(0);
+  if (n >= 2) {
+    const meanX = new Decimal(n - 1).dividedBy(2);
+    const meanY = cumulative.reduce((sum, y) => sum.plus(y), new Decimal(0)).dividedBy(n);
+    let num = new Decimal(0);
+    let den = new Decimal(0);
+    cumulative.forEach((y, x) => {
+      const dx = new Decimal(x).minus(meanX);
+      num = num.plus(dx.times(y.minus(meanY)));
+      den = den.plus(dx.times(dx));
+    });
+    slope = num.dividedBy(den);
+  }
+
+  return {
+    cumulativeVariance,
+    variancePercent,
+    slope,
+    isLeakSuspected:
+      n >= minShifts && slope.lt(0) && variancePercent.negated().greaterThan(lossThresholdPercent * 100),
+  };
+}
+
+// ASTM D1250 Table 54B coefficients per product group, with a typical 15 °C density (kg/m³)
+const VCF_COEFFICIENTS: Record<string, { k0: number; k1: number; defaultDensity: number }> = {
+  ESSENCE: { k0: 346.4228, k1: 0.4388, defaultDensity: 745 },
+  PETROLE: { k0: 594.5418, k1: 0, defaultDensity: 800 },
+  GASOIL: { k0: 186.9696, k1: 0.4862, defaultDensity: 840 },
+};
+
+/**
+ * Calculate the volume correction factor (VCF) to 15 °C, Table 54B style.
+ * VCF = exp(-α·ΔT·(1 + 0.8·α·ΔT)), α = K0/ρ² + K1/ρ. Rounded to 5 decimals.
+ */
+export function calculateVolumeCorrectionFactor(
+  fuelType: string,
+  temperature: Decimal | number,
+  density15?: Decimal | number | null,
+): Decimal {
+  const coeff = VCF_COEFFICIENTS[fuelType];
+  if (!coeff) {
+    throw new RangeError(`No volume correction coefficients for fuel type ${fuelType}`);
+  }
+
+  const rho = new Decimal(density15 ?? coeff.defaultDensity);
+  const alpha = new Decimal(coeff.k0).dividedBy(rho.pow(2)).plus(new Decimal(coeff.k1).dividedBy(rho));
+  const deltaT = new Decimal(temperature).minus(15);
+  const exponent = alpha.times(deltaT).times(alpha.times(deltaT).times(0.8).plus(1)).negated();
+
+  return Decimal.exp(exponent).toDecimalPlaces(5);
+}
+
+/**
+ * Convert an ambient volume to its standard volume at 15 °C.
+ */
+export function correctVolumeTo15C(
+  volume: Decimal | number,
+  fuelType: string,
+  temperature: Decimal | number,
+  density15?: Decimal | number | null,
+): Decimal {
+  return new Decimal(volume).times(calculateVolumeCorrectionFactor(fuelType, temperature, density15));
+}
+
 /**
  * Calculate ullage (available space) in a tank.
  */
@@ -110,6 +294,516 @@ export function calculateUllage(
   return new Decimal(capacity).minus(new Decimal(currentLevel));
 }
 
+export interface CalibrationPoint {
+  height: Decimal | number;
+  volume: Decimal | number;
+}
+
+/**
+ * Convert a dipstick height (cm) into a volume (L) using a tank's
+ * calibration (strapping) chart. Linear interpolation between points.
+ * Throws a RangeError if the chart is unusable or the height is off-chart.
+ */
+export function convertDipHeightToVolume(
+  chart: CalibrationPoint[],
+  height: Decimal | number,
+): Decimal {
+  if (chart.length < 2) {
+    throw new RangeError('Calibration chart requires at least 2 points');
+  }
+
+  const points = chart
+    .map((p) => ({ height: new Decimal(p.height), volume: new Decimal(p.volume) }))
+    .sort((a, b) => a.height.comparedTo(b.height));
+  const h = new Decimal(height);
+
+  const first = points[0]!;
+  const last = points[points.length - 1]!;
+  if (h.lessThan(first.height) || h.greaterThan(last.height)) {
+    throw new RangeError(
+      `Height ${h.toString()} is outside calibration range [${first.height.toString()}, ${last.height.toString()}]`,
+    );
+  }
+
+  for (let i = 1; i < points.length; i++) {
+    const lower = points[i - 1]!;
+    const upper = points[i]!;
+    if (h.lessThanOrEqualTo(upper.height)) {
+      const span = upper.height.minus(lower.height);
+      if (span.isZero()) return upper.volume;
+      const ratio = h.minus(lower.height).dividedBy(span);
+      return lower.volume.plus(upper.volume.minus(lower.volume).times(ratio));
+    }
+  }
+
+  return last.volume;
+}
+
+export interface ReceivableCharge {
+  date: Date;
+  amount: Decimal | number;
+}
+
+export interface ReceivableAging {
+  current: Decimal;
+  days31to60: Decimal;
+  days61to90: Decimal;
+  over90: Decimal;
+  total: Decimal;
+}
+
+/**
+ * Age a customer's outstanding balance by the date of the charges still unpaid.
+ * Payments settle the oldest charges first; the remainder of each charge falls in the
+ * bucket of its age in days at `asOf` (0–30, 31–60, 61–90, over 90).
+ */
+export function calculateReceivableAging(
+  charges: ReceivableCharge[],
+  totalPaid: Decimal | number,
+  asOf: Date,
+): ReceivableAging {
+  const aging: ReceivableAging = {
+    current: new Decimal(0),
+    days31to60: new Decimal(0),
+    days61to90: new Decimal(0),
+    over90: new Decimal(0),
+    total: new Decimal(0),
+  };
+
+  let paid = new Decimal(totalPaid);
+  const sorted = [...charges].sort((a, b) => a.date.getTime() - b.date.getTime());
+  for (const charge of sorted) {
+    const amount = new Decimal(charge.amount);
+    const settled = Decimal.min(amount, Decimal.max(paid, 0));
+    paid = paid.minus(settled);
+    const outstanding = amount.minus(settled);
+    if (outstanding.lessThanOrEqualTo(0)) continue;
+
+    const ageDays = Math.floor((asOf.getTime() - charge.date.getTime()) / 86_400_000);
+    if (ageDays <= 30) aging.current = aging.current.plus(outstanding);
+    else if (ageDays <= 60) aging.days31to60 = aging.days31to60.plus(outstanding);
+    else if (ageDays <= 90) aging.days61to90 = aging.days61to90.plus(outstanding);
+    else aging.over90 = aging.over90.plus(outstanding);
+    aging.total = aging.total.plus(outstanding);
+  }
+
+  return aging;
+}
+
+export interface ThreeWayMatchInput {
+  fuelType: string;
+  orderedVolume: Decimal | number;
+  orderedPrice: Decimal | number;
+  receivedVolume: Decimal | number;
+  invoicedQuantity: Decimal | number;
+  invoicedPrice: Decimal | number;
+}
+
+export interface ThreeWayMatchLine {
+  fuelType: string;
+  orderedVolume: Decimal;
+  orderedPrice: Decimal;
+  receivedVolume: Decimal;
+  invoicedQuantity: Decimal;
+  invoicedPrice: Decimal;
+  quantityVariance: Decimal;
+  priceVariance: Decimal;
+  amountVariance: Decimal;
+  quantityMatched: boolean;
+  priceMatched: boolean;
+}
+
+/**
+ * Three-way match of a supplier invoice, per fuel type: the quantity billed must be the
+ * volume physically received (within the delivery tolerance) and the unit price the one
+ * of the purchase order. Variances are invoice minus reference; the amount variance is
+ * what is billed above the received volume at the ordered price.
+ * Returns { lines, matched }
+ */
+export function calculateThreeWayMatch(
+  lines: ThreeWayMatchInput[],
+  tolerancePercent: number = 0.005,
+): { lines: ThreeWayMatchLine[]; matched: boolean } {
+  const result = lines.map((line) => {
+    const orderedVolume = new Decimal(line.orderedVolume);
+    const orderedPrice = new Decimal(line.orderedPrice);
+    const receivedVolume = new Decimal(line.receivedVolume);
+    const invoicedQuantity = new Decimal(line.invoicedQuantity);
+    const invoicedPrice = new Decimal(line.invoicedPrice);
+    const quantityVariance = invoicedQuantity.minus(receivedVolume);
+    const priceVariance = invoicedPrice.minus(orderedPrice);
+
+    return {
+      fuelType: line.fuelType,
+      orderedVolume,
+      orderedPrice,
+      receivedVolume,
+      invoicedQuantity,
+      invoicedPrice,
+      quantityVariance,
+      priceVariance,
+      amountVariance: invoicedQuantity.times(invoicedPrice).minus(receivedVolume.times(orderedPrice)),
+      quantityMatched: quantityVariance.abs().lessThanOrEqualTo(receivedVolume.times(tolerancePercent)),
+      priceMatched: priceVariance.isZero(),
+    };
+  });
+
+  return {
+    lines: result,
+    matched: result.every((l) => l.quantityMatched && l.priceMatched),
+  };
+}
+
+export interface DisputeClaimLine {
+  fuelType: string;
+  shortageVolume: Decimal;
+  unitPrice: Decimal;
+  amount: Decimal;
+}
+
+/**
+ * Claim for a disputed delivery: the shortage of each compartment (BL volume not
+ * received, i.e. a negative variance) valued at the purchase price of its fuel type.
+ * Over-deliveries are not netted against shortages.
+ * Returns { lines, shortageVolume, claimAmount }
+ */
+export function calculateDisputeClaim(
+  compartments: { fuelType: string; variance: Decimal | number }[],
+  prices: Record<string, Decimal | number>,
+): { lines: DisputeClaimLine[]; shortageVolume: Decimal; claimAmount: Decimal } {
+  const shortages = new Map<string, Decimal>();
+  for (const c of compartments) {
+    const variance = new Decimal(c.variance);
+    if (variance.isNegative()) {
+      shortages.set(c.fuelType, (shortages.get(c.fuelType) ?? new Decimal(0)).plus(variance.abs()));
+    }
+  }
+
+  const lines = [...shortages.entries()].map(([fuelType, shortageVolume]) => {
+    const unitPrice = new Decimal(prices[fuelType] ?? 0);
+    return { fuelType, shortageVolume, unitPrice, amount: shortageVolume.times(unitPrice) };
+  });
+
+  return {
+    lines,
+    shortageVolume: lines.reduce<Decimal>((sum, l) => sum.plus(l.shortageVolume), new Decimal(0)),
+    claimAmount: lines.reduce<Decimal>((sum, l) => sum.plus(l.amount), new Decimal(0)),
+  };
+}
+
+const DAY_MS = 86_400_000;
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00.000Z`) - Date.parse(`${from}T00:00:00.000Z`)) / DAY_MS);
+}
+
+function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00.000Z`) + days * DAY_MS).toISOString().split('T')[0]!;
+}
+
+export interface DailyDemand {
+  date: string;
+  volume: Decimal;
+}
+
+/**
+ * Daily demand forecast of a tank from its sales history (one entry per day with closed
+ * shifts, ISO dates). Each weekday carries a seasonality factor (its average over the
+ * overall average); level and trend come from a least-squares line fitted to the
+ * deseasonalised history, so gaps in the history do not bend the trend.
+ * Returns { averageDailyVolume, trendPerDay, weekdayFactors (Sunday first), daily }
+ */
+export function forecastDailyDemand(
+  history: { date: string; volume: Decimal | number }[],
+  from: string,
+  days: number,
+): { averageDailyVolume: Decimal; trendPerDay: Decimal; weekdayFactors: Decimal[]; daily: DailyDemand[] } {
+  const points = [...history]
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .map((h) => ({ date: h.date, volume: new Decimal(h.volume), weekday: new Date(`${h.date}T00:00:00.000Z`).getUTCDay() }));
+  const n = points.length;
+  const averageDailyVolume =
+    n > 0 ? points.reduce<Decimal>((sum, p) => sum.plus(p.volume), new Decimal(0)).dividedBy(n) : new Decimal(0);
+
+  const weekdayFactors = [0, 1, 2, 3, 4, 5, 6].map((weekday) => {
+    const sameDay = points.filter((p) => p.weekday === weekday);
+    if (sameDay.length === 0 || averageDailyVolume.isZero()) return new Decimal(1);
+    return sameDay
+      .reduce<Decimal>((sum, p) => sum.plus(p.volume), new Decimal(0))
+      .dividedBy(sameDay.length)
+      .dividedBy(averageDailyVolume);
+  });
+
+  // Days the station does not sell (factor 0) carry no information on the level
+  const deseasonalised = points
+    .filter((p) => !weekdayFactors[p.weekday]!.isZero())
+    .map((p) => ({ x: daysBetween(points[0]!.date, p.date), y: p.volume.dividedBy(weekdayFactors[p.weekday]!) }));
+
+  let trendPerDay = new Decimal(0);
+  let intercept = averageDailyVolume;
+  if (deseasonalised.length > 0) {
+    const m = deseasonalised.length;
+    const meanX = deseasonalised.reduce<Decimal>((sum, p) => sum.plus(p.x), new Decimal(0)).dividedBy(m);
+    const meanY = deseasonalised.reduce<Decimal>((sum, p) => sum.plus(p.y), new Decimal(0)).dividedBy(m);
+    let num = new Decimal(0);
+    let den = new Decimal(0);
+    for (const p of deseasonalised) {
+      const dx = new Decimal(p.x).minus(meanX);
+      num = num.plus(dx.times(p.y.minus(meanY)));
+      den = den.plus(dx.times(dx));
+    }
+    if (!den.isZero()) trendPerDay = num.dividedBy(den);
+    intercept = meanY.minus(trendPerDay.times(meanX));
+  }
+
+  const daily: DailyDemand[] = [];
+  for (let i = 0; i < days; i++) {
+    const date = addDays(from, i);
+    const level = n > 0 ? intercept.plus(trendPerDay.times(daysBetween(points[0]!.date, date))) : new Decimal(0);
+    const weekday = new Date(`${date}T00:00:00.000Z`).getUTCDay();
+    daily.push({ date, volume: Decimal.max(level, 0).times(weekdayFactors[weekday]!) });
+  }
+
+  return { averageDailyVolume, trendPerDay, weekdayFactors, daily };
+}
+
+/**
+ * Replenishment plan of a tank from its daily demand forecast (starting today).
+ * Days of cover run until the forecast sales use up the current stock (null beyond the
+ * forecast horizon). The order is due when the cover left no longer spans the lead time
+ * plus the safety stock days. The recommended volume fills the ullage projected on the
+ * delivery day in whole truck compartments, within one truck.
+ * Returns { daysOfCover, orderInDays, recommendedVolume }
+ */
+export function calculateReplenishmentPlan(input: {
+  currentLevel: Decimal | number;
+  capacity: Decimal | number;
+  dailyDemand: Array<Decimal | number>;
+  leadTimeDays: number;
+  safetyStockDays: number;
+  compartmentVolume: number;
+  truckCapacity: number;
+}): { daysOfCover: Decimal | null; orderInDays: number | null; recommendedVolume: Decimal } {
+  const demand = input.dailyDemand.map((d) => new Decimal(d));
+  const capacity = new Decimal(input.capacity);
+  const stock = Decimal.max(new Decimal(input.currentLevel), 0);
+
+  let daysOfCover: Decimal | null = null;
+  let remaining = stock;
+  for (let i = 0; i < demand.length; i++) {
+    if (demand[i]!.gte(remaining)) {
+      daysOfCover = new Decimal(i).plus(demand[i]!.isZero() ? 0 : remaining.dividedBy(demand[i]!));
+      break;
+    }
+    remaining = remaining.minus(demand[i]!);
+  }
+
+  const orderInDays =
+    daysOfCover === null
+      ? null
+      : Math.max(0, Math.floor(daysOfCover.minus(input.leadTimeDays + input.safetyStockDays).toNumber()));
+
+  const deliveryDay = (orderInDays ?? 0) + input.leadTimeDays;
+  const soldBeforeDelivery = demand
+    .slice(0, deliveryDay)
+    .reduce<Decimal>((sum, d) => sum.plus(d), new Decimal(0));
+  const projectedUllage = capacity.minus(Decimal.max(stock.minus(soldBeforeDelivery), 0));
+  const compartments = projectedUllage.dividedBy(input.compartmentVolume).floor();
+  const recommendedVolume = Decimal.min(compartments.times(input.compartmentVolume), input.truckCapacity);
+
+  return { daysOfCover, orderInDays, recommendedVolume: Decimal.max(recommendedVolume, 0) };
+}
+
+export interface CompartmentAllocation {
+  compartmentId: string;
+  requestId: string;
+  volume: Decimal;
+}
+
+/**
+ * Load plan of a truck: each request is poured into the free compartments, largest request
+ * first. It takes the smallest compartment holding what is left of it, else the largest
+ * free one and carries on; a compartment carries a single request. Volume that does not
+ * fit on the truck is returned as unallocated.
+ * Returns { allocations, unallocated }
+ */
+export function allocateTripCompartments(
+  compartments: { id: string; capacity: Decimal | number }[],
+  requests: { id: string; volume: Decimal | number }[],
+): { allocations: CompartmentAllocation[]; unallocated: { requestId: string; volume: Decimal }[] } {
+  const free = compartments
+    .map((c) => ({ id: c.id, capacity: new Decimal(c.capacity) }))
+    .sort((a, b) => a.capacity.comparedTo(b.capacity));
+  const allocations: CompartmentAllocation[] = [];
+  const unallocated: { requestId: string; volume: Decimal }[] = [];
+
+  const byVolume = requests
+    .map((r) => ({ id: r.id, volume: new Decimal(r.volume) }))
+    .sort((a, b) => b.volume.comparedTo(a.volume));
+
+  for (const request of byVolume) {
+    let remaining = request.volume;
+    while (remaining.gt(0) && free.length > 0) {
+      const fitIndex = free.findIndex((c) => c.capacity.gte(remaining));
+      const index = fitIndex >= 0 ? fitIndex : free.length - 1;
+      const [compartment] = free.splice(index, 1);
+      const volume = Decimal.min(remaining, compartment!.capacity);
+      allocations.push({ compartmentId: compartment!.id, requestId: request.id, volume });
+      remaining = remaining.minus(volume);
+    }
+    if (remaining.gt(0)) unallocated.push({ requestId: request.id, volume: remaining });
+  }
+
+  return { allocations, unallocated };
+}
+
+export interface CarrierDeliveryRecord {
+  blVolume: Decimal | number;
+  // Volume received minus BL volume (negative when short)
+  variance: Decimal | number;
+  disputed: boolean;
+  // YYYY-MM-DD; null when the delivery had no planned date
+  expectedDate: string | null;
+  receivedDate: string;
+}
+
+/**
+ * Delivery performance of a transporter over its completed deliveries. The variance is
+ * weighted by volume (total variance / total BL volume); the on-time rate only counts
+ * deliveries with an expected date, received on or before it.
+ * Returns { deliveries, blVolume, averageVariancePercent, shortageVolume, disputes, disputeRate, scheduledDeliveries, onTimeDeliveries, onTimeRate }
+ */
+export function calculateCarrierScorecard(records: CarrierDeliveryRecord[]): {
+  deliveries: number;
+  blVolume: Decimal;
+  averageVariancePercent: Decimal | null;
+  shortageVolume: Decimal;
+  disputes: number;
+  disputeRate: Decimal | null;
+  scheduledDeliveries: number;
+  onTimeDeliveries: number;
+  onTimeRate: Decimal | null;
+} {
+  let blVolume = new Decimal(0);
+  let variance = new Decimal(0);
+  let shortageVolume = new Decimal(0);
+  let disputes = 0;
+  let scheduledDeliveries = 0;
+  let onTimeDeliveries = 0;
+
+  for (const record of records) {
+    const recordVariance = new Decimal(record.variance);
+    blVolume = blVolume.plus(record.blVolume);
+    variance = variance.plus(recordVariance);
+    if (recordVariance.lt(0)) shortageVolume = shortageVolume.minus(recordVariance);
+    if (record.disputed) disputes++;
+    if (record.expectedDate) {
+      scheduledDeliveries++;
+      // ISO dates compare as strings
+      if (record.receivedDate <= record.expectedDate) onTimeDeliveries++;
+    }
+  }
+
+  return {
+    deliveries: records.length,
+    blVolume,
+    averageVariancePercent: blVolume.isZero() ? null : variance.dividedBy(blVolume).times(100),
+    shortageVolume,
+    disputes,
+    disputeRate: records.length === 0 ? null : new Decimal(disputes).dividedBy(records.length).times(100),
+    scheduledDeliveries,
+    onTimeDeliveries,
+    onTimeRate:
+      scheduledDeliveries === 0 ? null : new Decimal(onTimeDeliveries).dividedBy(scheduledDeliveries).times(100),
+  };
+}
+
+export interface ApprovalRuleConditions {
+  minAmount?: number;
+  maxAmount?: number;
+  stationIds?: string[];
+  categories?: string[];
+}
+
+/**
+ * First rule of an approval policy applying to an item: amount within
+ * [minAmount, maxAmount), station and category among those listed when set.
+ * Returns null when no rule applies.
+ */
+export function selectApprovalRule<R extends ApprovalRuleConditions>(
+  rules: R[],
+  item: { amount: number; stationId?: string | null; category?: string | null },
+): R | null {
+  return (
+    rules.find(
+      (r) =>
+        (r.minAmount === undefined || item.amount >= r.minAmount) &&
+        (r.maxAmount === undefined || item.amount < r.maxAmount) &&
+        (!r.stationIds || (!!item.stationId && r.stationIds.includes(item.stationId))) &&
+        (!r.categories || (!!item.category && r.categories.includes(item.category))),
+    ) ?? null
+  );
+}
+
+export interface RecordedApproval {
+  role: string;
+  // Policy step the approval was given for; null for approvals recorded before policies
+  stepIndex: number | null;
+}
+
+/**
+ * Progress of an item through the steps of its approval rule. Steps are approved one
+ * after the other (SEQUENTIAL) or in any order (PARALLEL); a step is done once one of
+ * its roles has approved. SUPER_ADMIN may stand in for any role. Steps whose roles
+ * are all in `skipRoles` (e.g. LINE_MANAGER for a requester without one) are skipped,
+ * unless that would leave no step to approve.
+ * Returns { steps, openSteps, complete }
+ */
+export function evaluateApprovalProgress(
+  rule: { mode: 'SEQUENTIAL' | 'PARALLEL'; steps: { roles: string[] }[] },
+  approvals: RecordedApproval[],
+  skipRoles: string[] = [],
+): {
+  steps: { index: number; roles: string[]; status: 'APPROVED' | 'SKIPPED' | 'PENDING'; approvedRole: string | null }[];
+  openSteps: number[];
+  complete: boolean;
+} {
+  const skippable = (roles: string[]) => roles.every((r) => skipRoles.includes(r));
+  const canSkip = !rule.steps.every((step) => skippable(step.roles));
+  const steps = rule.steps.map((step, index) => ({
+    index,
+    roles: step.roles,
+    status: (canSkip && skippable(step.roles) ? 'SKIPPED' : 'PENDING') as
+      | 'APPROVED'
+      | 'SKIPPED'
+      | 'PENDING',
+    approvedRole: null as string | null,
+  }));
+
+  const approve = (index: number, role: string) => {
+    steps[index]!.status = 'APPROVED';
+    steps[index]!.approvedRole = role;
+  };
+
+  for (const approval of approvals.filter((a) => a.stepIndex !== null)) {
+    if (steps[approval.stepIndex!]?.status === 'PENDING') approve(approval.stepIndex!, approval.role);
+  }
+  // Older approvals take the first pending step their role could approve
+  for (const approval of approvals.filter((a) => a.stepIndex === null)) {
+    const step = steps.find(
+      (s) => s.status === 'PENDING' && (s.roles.includes(approval.role) || approval.role === 'SUPER_ADMIN'),
+    );
+    if (step) approve(step.index, approval.role);
+  }
+
+  const pending = steps.filter((s) => s.status === 'PENDING').map((s) => s.index);
+  return {
+    steps,
+    openSteps: rule.mode === 'SEQUENTIAL' ? pending.slice(0, 1) : pending,
+    complete: pending.length === 0,
+  };
+}
+
 /**
  * Calculate checklist score as percentage.
  */
@@ -32,7 +32,21 @@ export const NozzleSide = {
 } as const;
 export type NozzleSide = (typeof NozzleSide)[keyof typeof NozzleSide];
 
+export const MeterType = {
+  ELECTRONIC: 'ELECTRONIC',
+  MECHANICAL: 'MECHANICAL',
+} as const;
+export type MeterType = (typeof MeterType)[keyof typeof MeterType];
+
+// Calibration test run by the station with its own test measure, or by weights & measures inspectors
+export const CalibrationTestType = {
+  INTERNAL: 'INTERNAL',
+  OFFICIAL: 'OFFICIAL',
+} as const;
+export type CalibrationTestType = (typeof CalibrationTestType)[keyof typeof CalibrationTestType];
+
 // ─── Shift Enums ───
+// Codes of the default shift patterns; stations may define others in settings.shiftPatterns
 export const ShiftType = {
   MORNING: 'MORNING',
   EVENING: 'EVENING',
@@ -46,6 +60,26 @@ export const ShiftStatus = {
 } as const;
 export type ShiftStatus = (typeof ShiftStatus)[keyof typeof ShiftStatus];
 
+export const PeriodReopenStatus = {
+  PENDING: 'PENDING',
+  APPROVED: 'APPROVED',
+  REJECTED: 'REJECTED',
+} as const;
+export type PeriodReopenStatus = (typeof PeriodReopenStatus)[keyof typeof PeriodReopenStatus];
+
+export const ShiftCorrectionStatus = {
+  PENDING: 'PENDING',
+  APPROVED: 'APPROVED',
+  REJECTED: 'REJECTED',
+} as const;
+export type ShiftCorrectionStatus = (typeof ShiftCorrectionStatus)[keyof typeof ShiftCorrectionStatus];
+
+export const CashHandoverType = {
+  SAFE_DROP: 'SAFE_DROP',
+  CLOSING_ENVELOPE: 'CLOSING_ENVELOPE',
+} as const;
+export type CashHandoverType = (typeof CashHandoverType)[keyof typeof CashHandoverType];
+
 // ─── Financial Enums ───
 export const InvoiceStatus = {
   DRAFT: 'DRAFT',
@@ -94,9 +128,16 @@ export type ApprovalAction = (typeof ApprovalAction)[keyof typeof ApprovalAction
 export const ApprovalEntityType = {
   INVOICE: 'INVOICE',
   EXPENSE: 'EXPENSE',
+  PRICE: 'PRICE',
 } as const;
 export type ApprovalEntityType = (typeof ApprovalEntityType)[keyof typeof ApprovalEntityType];
 
+export const ApprovalStepMode = {
+  SEQUENTIAL: 'SEQUENTIAL',
+  PARALLEL: 'PARALLEL',
+} as const;
+export type ApprovalStepMode = (typeof ApprovalStepMode)[keyof typeof ApprovalStepMode];
+
 // ─── Supply Chain Enums ───
 export const ReplenishmentStatus = {
   DRAFT: 'DRAFT',
@@ -111,15 +152,91 @@ export const DeliveryStatus = {
   IN_PROGRESS: 'IN_PROGRESS',
   VALIDATED: 'VALIDATED',
   DISPUTED: 'DISPUTED',
+  RESOLVED: 'RESOLVED',
 } as const;
 export type DeliveryStatus = (typeof DeliveryStatus)[keyof typeof DeliveryStatus];
 
+export const PurchaseOrderStatus = {
+  ISSUED: 'ISSUED',
+  RECEIVED: 'RECEIVED',
+  CANCELLED: 'CANCELLED',
+} as const;
+export type PurchaseOrderStatus = (typeof PurchaseOrderStatus)[keyof typeof PurchaseOrderStatus];
+
+export const InvoiceMatchStatus = {
+  MATCHED: 'MATCHED',
+  MISMATCH: 'MISMATCH',
+} as const;
+export type InvoiceMatchStatus = (typeof InvoiceMatchStatus)[keyof typeof InvoiceMatchStatus];
+
+// Case opened on a disputed delivery; CREDITED, REJECTED and WRITTEN_OFF close it
+export const DeliveryDisputeStatus = {
+  OPEN: 'OPEN',
+  INVESTIGATING: 'INVESTIGATING',
+  CLAIMED: 'CLAIMED',
+  CREDITED: 'CREDITED',
+  REJECTED: 'REJECTED',
+  WRITTEN_OFF: 'WRITTEN_OFF',
+} as const;
+export type DeliveryDisputeStatus = (typeof DeliveryDisputeStatus)[keyof typeof DeliveryDisputeStatus];
+
+// Truck trip; dispatching pre-creates one delivery per station drop
+export const TripStatus = {
+  PLANNED: 'PLANNED',
+  DISPATCHED: 'DISPATCHED',
+  COMPLETED: 'COMPLETED',
+  CANCELLED: 'CANCELLED',
+} as const;
+export type TripStatus = (typeof TripStatus)[keyof typeof TripStatus];
+
 export const CompartmentStatus = {
   VALIDATED: 'VALIDATED',
   DISPUTED: 'DISPUTED',
 } as const;
 export type CompartmentStatus = (typeof CompartmentStatus)[keyof typeof CompartmentStatus];
 
+export const FuelTransferStatus = {
+  PENDING_APPROVAL: 'PENDING_APPROVAL',
+  APPROVED: 'APPROVED',
+  IN_TRANSIT: 'IN_TRANSIT',
+  COMPLETED: 'COMPLETED',
+  REJECTED: 'REJECTED',
+} as const;
+export type FuelTransferStatus = (typeof FuelTransferStatus)[keyof typeof FuelTransferStatus];
+
+// Non-fuel items sold at the station shop
+export const ProductCategory = {
+  LUBRICANT: 'LUBRICANT',
+  LPG_ACCESSORY: 'LPG_ACCESSORY',
+  SHOP: 'SHOP',
+} as const;
+export type ProductCategory = (typeof ProductCategory)[keyof typeof ProductCategory];
+
+// Gas bottle movement with a customer: a SALE hands out a full bottle against the gas and
+// its deposit, an EXCHANGE swaps an empty for a full, a DEPOSIT_REFUND takes an empty back
+export const CylinderTransactionType = {
+  SALE: 'SALE',
+  EXCHANGE: 'EXCHANGE',
+  DEPOSIT_REFUND: 'DEPOSIT_REFUND',
+} as const;
+export type CylinderTransactionType = (typeof CylinderTransactionType)[keyof typeof CylinderTransactionType];
+
+// How a credit customer settled their account
+export const CustomerPaymentMethod = {
+  CASH: 'CASH',
+  BANK_TRANSFER: 'BANK_TRANSFER',
+  CHEQUE: 'CHEQUE',
+  MOBILE_MONEY: 'MOBILE_MONEY',
+} as const;
+export type CustomerPaymentMethod = (typeof CustomerPaymentMethod)[keyof typeof CustomerPaymentMethod];
+
+export const FuelCouponStatus = {
+  IN_STOCK: 'IN_STOCK',
+  SOLD: 'SOLD',
+  REDEEMED: 'REDEEMED',
+} as const;
+export type FuelCouponStatus = (typeof FuelCouponStatus)[keyof typeof FuelCouponStatus];
+
 // ─── Checklist & Incident Enums ───
 export const ChecklistItemStatus = {
   CONFORME: 'CONFORME',
@@ -13,6 +13,12 @@ export * from './schemas/expense.schema';
 export * from './schemas/supply.schema';
 export * from './schemas/checklist.schema';
 export * from './schemas/mail.schema';
+export * from './schemas/atg.schema';
+export * from './schemas/period.schema';
+export * from './schemas/cash.schema';
+export * from './schemas/credit.schema';
+export * from './schemas/coupon.schema';
+export * from './schemas/approval.schema';
 
 // ─── Utilities ───
 export * from './formatters';
@@ -24,9 +30,30 @@ export const DEFAULT_PAGE_SIZE = 20;
 export const MAX_PAGE_SIZE = 100;
 export const MAX_FILE_SIZE_MB = 10;
 export const ALLOWED_FILE_TYPES = ['application/pdf', 'image/jpeg', 'image/png'];
-export const INVOICE_THRESHOLD_CFO = 5_000_000;
-export const EXPENSE_THRESHOLD_FINANCE = 500_000;
-export const EXPENSE_THRESHOLD_CFO = 5_000_000;
 export const DELIVERY_TOLERANCE_PERCENT = 0.005;
+// Legal maximum permissible error of a fuel dispenser (±0.5%)
+export const CALIBRATION_TOLERANCE_PERCENT = 0.005;
 export const TANK_LOW_LEVEL_PERCENT = 0.20;
+export const CASH_DEPOSIT_MAX_DAYS = 2;
+// Cumulative tank loss (fraction of volume sold) that flags a suspected leak
+export const WET_STOCK_LOSS_THRESHOLD_PERCENT = 0.005;
+export const WET_STOCK_ANALYSIS_DAYS = 30;
+// Demand forecasting for auto-replenishment (station setting `replenishment` overrides)
+export const FORECAST_HISTORY_DAYS = 56;
+export const FORECAST_MIN_HISTORY_DAYS = 14;
+export const FORECAST_HORIZON_DAYS = 30;
+export const REPLENISHMENT_LEAD_TIME_DAYS = 2;
+export const REPLENISHMENT_SAFETY_STOCK_DAYS = 1;
+export const TRUCK_COMPARTMENT_VOLUME = 5000;
+export const TRUCK_CAPACITY = 30000;
+// Truck calibration certificates and driver licences are flagged this many days before expiry
+export const DOCUMENT_EXPIRY_ALERT_DAYS = 30;
+export const DEFAULT_SHIFT_PATTERNS = [
+  { code: 'MORNING', name: 'Matin', startTime: '06:00', endTime: '18:00', crossesMidnight: false },
+  { code: 'EVENING', name: 'Soir', startTime: '18:00', endTime: '06:00', crossesMidnight: true },
+];
+export const DEFAULT_PAYMENT_METHODS = [
+  { code: 'MTN_MOMO', name: 'MTN Mobile Money' },
+  { code: 'ORANGE_MONEY', name: 'Orange Money' },
+];
 export const METER_ROLLOVER_THRESHOLD = 999999.9999;
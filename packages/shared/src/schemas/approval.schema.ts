@@ -0,0 +1,52 @@
+import { z } from 'zod';
+
+const approvalEntityTypeEnum = z.enum(['INVOICE', 'EXPENSE', 'PRICE']);
+const approvalStepModeEnum = z.enum(['SEQUENTIAL', 'PARALLEL']);
+
+// LINE_MANAGER resolves to the requester's line manager (or their delegate)
+const approverRoleEnum = z.enum([
+  'LINE_MANAGER', 'SUPER_ADMIN', 'CEO', 'CFO', 'FINANCE_DIR', 'STATION_MANAGER', 'LOGISTICS', 'DCO',
+]);
+
+// ─── Policy ───
+export const approvalPolicyStepSchema = z.object({
+  roles: z.array(approverRoleEnum).min(1, 'A step needs at least one approver role'),
+});
+export type ApprovalPolicyStep = z.infer<typeof approvalPolicyStepSchema>;
+
+// A rule applies when every condition set on it matches; amounts are in XAF, maxAmount exclusive.
+// Categories are expense categories, supplier categories (invoices) or fuel types (prices).
+export const approvalPolicyRuleSchema = z
+  .object({
+    name: z.string().trim().min(1).max(100),
+    minAmount: z.number().nonnegative().optional(),
+    maxAmount: z.number().positive().optional(),
+    stationIds: z.array(z.string().uuid()).min(1).optional(),
+    categories: z.array(z.string().min(1)).min(1).optional(),
+    mode: approvalStepModeEnum,
+    steps: z.array(approvalPolicyStepSchema).min(1).max(6),
+  })
+  .refine((r) => r.minAmount === undefined || r.maxAmount === undefined || r.minAmount < r.maxAmount, {
+    message: 'minAmount must be lower than maxAmount',
+    path: ['maxAmount'],
+  });
+export type ApprovalPolicyRule = z.infer<typeof approvalPolicyRuleSchema>;
+
+// Rules are tried in order; the last one must match every item so that nothing is left unrouted
+export const publishApprovalPolicySchema = z
+  .object({
+    rules: z.array(approvalPolicyRuleSchema).min(1).max(20),
+    notes: z.string().max(500).optional(),
+  })
+  .refine(
+    (p) => {
+      const last = p.rules[p.rules.length - 1]!;
+      return last.minAmount === undefined && last.maxAmount === undefined && !last.stationIds && !last.categories;
+    },
+    { message: 'The last rule must apply to every item (no conditions)', path: ['rules'] },
+  );
+export type PublishApprovalPolicyInput = z.infer<typeof publishApprovalPolicySchema>;
+
+export const approvalEntityTypeParamSchema = z.object({
+  entityType: approvalEntityTypeEnum,
+});
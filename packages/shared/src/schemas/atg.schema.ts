@@ -0,0 +1,33 @@
+import { z } from 'zod';
+
+// ─── ATG Reading (Veeder-Root inventory style: volume, height, temp, water) ───
+export const atgReadingSchema = z.object({
+  tankId: z.string().uuid(),
+  readAt: z.string().datetime({ offset: true }),
+  volume: z.number().nonnegative('Volume cannot be negative'), // L
+  height: z.number().nonnegative().optional(), // cm
+  temperature: z.number().min(-10).max(60).optional(), // °C
+  waterVolume: z.number().nonnegative().optional(), // L
+  waterHeight: z.number().nonnegative().optional(), // cm
+});
+export type AtgReadingInput = z.infer<typeof atgReadingSchema>;
+
+export const atgReadingBatchSchema = z.object({
+  readings: z.array(atgReadingSchema).min(1, 'At least one reading is required').max(1000),
+});
+export type AtgReadingBatchInput = z.infer<typeof atgReadingBatchSchema>;
+
+// ─── ATG Device ───
+export const createAtgDeviceSchema = z.object({
+  stationId: z.string().uuid(),
+  name: z.string().min(2, 'Name is required'),
+});
+export type CreateAtgDeviceInput = z.infer<typeof createAtgDeviceSchema>;
+
+// ─── Reading History Filters ───
+export const tankReadingFiltersSchema = z.object({
+  from: z.string().datetime({ offset: true }).optional(),
+  to: z.string().datetime({ offset: true }).optional(),
+  limit: z.coerce.number().int().positive().max(1000).default(200),
+});
+export type TankReadingFilters = z.infer<typeof tankReadingFiltersSchema>;
@@ -0,0 +1,48 @@
+import { z } from 'zod';
+
+const cashHandoverTypeEnum = z.enum(['SAFE_DROP', 'CLOSING_ENVELOPE']);
+
+// ─── Cash Handover ───
+// SAFE_DROP: cash moved to the safe during an open shift
+// CLOSING_ENVELOPE: the closing cash envelope handed to the manager
+export const createCashHandoverSchema = z.object({
+  type: cashHandoverTypeEnum,
+  amount: z.number().positive('Amount must be positive'),
+  envelopeNumber: z.string().optional(),
+  notes: z.string().optional(),
+});
+export type CreateCashHandoverInput = z.infer<typeof createCashHandoverSchema>;
+
+// ─── Bank Deposit ───
+export const bankDepositShiftSchema = z.object({
+  shiftReportId: z.string().uuid(),
+  amount: z.number().positive('Amount must be positive'),
+});
+export type BankDepositShiftInput = z.infer<typeof bankDepositShiftSchema>;
+
+export const createBankDepositSchema = z
+  .object({
+    stationId: z.string().uuid(),
+    bankName: z.string().min(1, 'Bank name is required'),
+    slipNumber: z.string().min(1, 'Deposit slip number is required'),
+    amount: z.number().positive('Amount must be positive'),
+    depositDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD'),
+    proofUrl: z.string().min(1, 'Deposit slip file is required'),
+    notes: z.string().optional(),
+    shifts: z.array(bankDepositShiftSchema).min(1, 'At least one shift must be matched'),
+  })
+  .refine(
+    (d) => Math.abs(d.shifts.reduce((sum, s) => sum + s.amount, 0) - d.amount) < 0.01,
+    { message: 'Matched shift amounts must add up to the deposit amount', path: ['shifts'] },
+  );
+export type CreateBankDepositInput = z.infer<typeof createBankDepositSchema>;
+
+// ─── Filters ───
+export const bankDepositFiltersSchema = z.object({
+  page: z.coerce.number().int().positive().default(1),
+  limit: z.coerce.number().int().positive().max(100).default(20),
+  stationId: z.string().uuid().optional(),
+  dateFrom: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  dateTo: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+});
+export type BankDepositFilters = z.infer<typeof bankDepositFiltersSchema>;
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { shiftTypeSchema } from './shift.schema';
 
 const checklistItemStatusEnum = z.enum(['CONFORME', 'NON_CONFORME']);
 const submissionStatusEnum = z.enum(['DRAFT', 'PENDING_VALIDATION', 'VALIDATED', 'REJECTED']);
@@ -34,7 +35,7 @@ export const submitChecklistSchema = z.object({
   stationId: z.string().uuid(),
   templateId: z.string().uuid(),
   shiftDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
-  shiftType: z.enum(['MORNING', 'EVENING']),
+  shiftType: shiftTypeSchema,
   items: z.array(checklistItemInputSchema).min(1, 'At least one item is required'),
 });
 export type SubmitChecklistInput = z.infer<typeof submitChecklistSchema>;
@@ -45,7 +46,7 @@ export const checklistResponseSchema = z.object({
   templateId: z.string().uuid(),
   templateVersion: z.number(),
   shiftDate: z.string(),
-  shiftType: z.enum(['MORNING', 'EVENING']),
+  shiftType: shiftTypeSchema,
   submittedBy: z.string().uuid(),
   validatedBy: z.string().uuid().nullable(),
   items: z.array(z.record(z.unknown())),
@@ -0,0 +1,44 @@
+import { z } from 'zod';
+import { shiftCouponSerialsSchema } from './shift.schema';
+
+const customerPaymentMethodEnum = z.enum(['CASH', 'BANK_TRANSFER', 'CHEQUE', 'MOBILE_MONEY']);
+const dateString = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD');
+
+// ─── Coupon Batch ───
+// Serials run from prefix + startNumber, zero-padded to 6 digits (e.g. CP000101)
+export const createCouponBatchSchema = z.object({
+  batchNumber: z.string().min(1, 'Batch number is required'),
+  serialPrefix: z
+    .string()
+    .regex(/^[A-Za-z0-9]{1,6}$/, 'Prefix must be 1 to 6 letters or digits')
+    .transform((v) => v.toUpperCase()),
+  startNumber: z.number().int().positive(),
+  quantity: z.number().int().positive().max(5000, 'A batch holds at most 5000 coupons'),
+  faceValue: z.number().positive('Face value must be positive'),
+  expiresAt: dateString,
+});
+export type CreateCouponBatchInput = z.infer<typeof createCouponBatchSchema>;
+
+// A batch is sold whole to a customer, paid up front
+export const sellCouponBatchSchema = z.object({
+  customerId: z.string().uuid(),
+  paymentMethod: customerPaymentMethodEnum,
+  paymentRef: z.string().optional(),
+});
+export type SellCouponBatchInput = z.infer<typeof sellCouponBatchSchema>;
+
+// Serials checked against the shift before they are redeemed at close
+export const checkCouponsSchema = z.object({
+  shiftReportId: z.string().uuid(),
+  serials: shiftCouponSerialsSchema,
+});
+export type CheckCouponsInput = z.infer<typeof checkCouponsSchema>;
+
+// ─── Filters ───
+export const couponBatchFiltersSchema = z.object({
+  page: z.coerce.number().int().positive().default(1),
+  limit: z.coerce.number().int().positive().max(100).default(20),
+  sold: z.string().transform((v) => v === 'true').optional(),
+  customerId: z.string().uuid().optional(),
+});
+export type CouponBatchFilters = z.infer<typeof couponBatchFiltersSchema>;
@@ -0,0 +1,89 @@
+import { z } from 'zod';
+
+const fuelTypeEnum = z.enum(['ESSENCE', 'GASOIL', 'PETROLE']);
+const customerPaymentMethodEnum = z.enum(['CASH', 'BANK_TRANSFER', 'CHEQUE', 'MOBILE_MONEY']);
+const dateString = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD');
+
+// ─── Credit Customer ───
+export const createCreditCustomerSchema = z.object({
+  name: z.string().min(2, 'Customer name is required'),
+  taxId: z.string().min(5).optional(),
+  contactName: z.string().optional(),
+  email: z.string().email('Invalid email').optional(),
+  phone: z.string().min(5).optional(),
+  address: z.string().optional(),
+  creditLimit: z.number().nonnegative('Credit limit cannot be negative'),
+  paymentTermsDays: z.number().int().positive().max(180).optional(),
+});
+export type CreateCreditCustomerInput = z.infer<typeof createCreditCustomerSchema>;
+
+export const updateCreditCustomerSchema = createCreditCustomerSchema.partial().extend({
+  isActive: z.boolean().optional(),
+});
+export type UpdateCreditCustomerInput = z.infer<typeof updateCreditCustomerSchema>;
+
+// ─── Authorised Vehicles & Drivers ───
+// Plates are stored without spaces, in capitals, so that "lt 123 ab" and "LT123AB" match
+export const createCreditVehicleSchema = z.object({
+  plateNumber: z
+    .string()
+    .min(2, 'Plate number is required')
+    .transform((v) => v.replace(/\s+/g, '').toUpperCase()),
+  description: z.string().optional(),
+});
+export type CreateCreditVehicleInput = z.infer<typeof createCreditVehicleSchema>;
+
+export const createCreditDriverSchema = z.object({
+  fullName: z.string().min(2, 'Driver name is required'),
+  idNumber: z.string().optional(),
+});
+export type CreateCreditDriverInput = z.infer<typeof createCreditDriverSchema>;
+
+export const updateCreditAuthorisationSchema = z.object({
+  isActive: z.boolean(),
+});
+export type UpdateCreditAuthorisationInput = z.infer<typeof updateCreditAuthorisationSchema>;
+
+// ─── Credit Sale ───
+// Fuel served on account during the station's open shift, billed at the shift price
+export const createCreditSaleSchema = z.object({
+  stationId: z.string().uuid(),
+  customerId: z.string().uuid(),
+  vehicleId: z.string().uuid(),
+  driverId: z.string().uuid().optional(),
+  voucherNumber: z.string().min(1, 'Voucher number is required'),
+  fuelType: fuelTypeEnum,
+  // Nozzle that served the fuel, to deduct the sale from its attendant
+  nozzleId: z.string().uuid().optional(),
+  volume: z.number().positive('Volume must be positive'),
+});
+export type CreateCreditSaleInput = z.infer<typeof createCreditSaleSchema>;
+
+// ─── Customer Payment ───
+export const createCustomerPaymentSchema = z.object({
+  amount: z.number().positive('Amount must be positive'),
+  method: customerPaymentMethodEnum,
+  reference: z.string().optional(),
+  paidAt: dateString,
+});
+export type CreateCustomerPaymentInput = z.infer<typeof createCustomerPaymentSchema>;
+
+// ─── Filters ───
+export const creditCustomerFiltersSchema = z.object({
+  page: z.coerce.number().int().positive().default(1),
+  limit: z.coerce.number().int().positive().max(100).default(20),
+  search: z.string().optional(),
+  isActive: z.string().transform((v) => v === 'true').optional(),
+});
+export type CreditCustomerFilters = z.infer<typeof creditCustomerFiltersSchema>;
+
+export const creditSaleFiltersSchema = z.object({
+  shiftReportId: z.string().uuid(),
+});
+export type CreditSaleFilters = z.infer<typeof creditSaleFiltersSchema>;
+
+// Monthly statement, e.g. ?month=2026-05
+export const customerStatementQuerySchema = z.object({
+  month: z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, 'Month must be YYYY-MM'),
+});
+export type CustomerStatementQuery = z.infer<typeof customerStatementQuerySchema>;
@@ -38,17 +38,42 @@ export const supplierResponseSchema = z.object({
 export type SupplierResponse = z.infer<typeof supplierResponseSchema>;
 
 // ─── Invoice ───
-export const createInvoiceSchema = z.object({
-  supplierId: z.string().uuid(),
-  invoiceNumber: z.string().min(1, 'Invoice number is required'),
-  amount: z.number().positive('Amount must be positive'),
-  dueDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD'),
-  fileUrl: z.string().min(1, 'Invoice file is required'),
+// Fuel invoices against a purchase order bill a quantity and unit price per fuel type,
+// matched on approval against the order and the volumes physically received
+export const invoiceLineSchema = z.object({
+  fuelType: z.enum(['ESSENCE', 'GASOIL', 'PETROLE']),
+  quantity: z.number().positive('Quantity must be positive'),
+  unitPrice: z.number().positive('Unit price must be positive'),
 });
+export type InvoiceLineInput = z.infer<typeof invoiceLineSchema>;
+
+export const createInvoiceSchema = z
+  .object({
+    supplierId: z.string().uuid(),
+    invoiceNumber: z.string().min(1, 'Invoice number is required'),
+    amount: z.number().positive('Amount must be positive'),
+    dueDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD'),
+    fileUrl: z.string().min(1, 'Invoice file is required'),
+    purchaseOrderId: z.string().uuid().optional(),
+    lines: z
+      .array(invoiceLineSchema)
+      .refine((l) => new Set(l.map((x) => x.fuelType)).size === l.length, 'Each fuel type can only be billed once')
+      .optional(),
+  })
+  .refine((d) => !d.purchaseOrderId || (d.lines && d.lines.length > 0), {
+    message: 'Invoice lines are required for an invoice against a purchase order',
+    path: ['lines'],
+  })
+  .refine(
+    (d) => !d.lines || Math.abs(d.lines.reduce((sum, l) => sum + l.quantity * l.unitPrice, 0) - d.amount) <= 1,
+    { message: 'Invoice lines must add up to the invoice amount', path: ['amount'] },
+  );
 export type CreateInvoiceInput = z.infer<typeof createInvoiceSchema>;
 
 export const approveInvoiceSchema = z.object({
   comment: z.string().optional(),
+  // Approves an invoice that fails the three-way match (CFO and above)
+  overrideReason: z.string().min(10, 'Override reason must be at least 10 characters').optional(),
 });
 export type ApproveInvoiceInput = z.infer<typeof approveInvoiceSchema>;
 
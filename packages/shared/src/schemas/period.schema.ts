@@ -0,0 +1,36 @@
+import { z } from 'zod';
+
+const periodTypeEnum = z.enum(['DAY', 'MONTH']);
+const periodReopenStatusEnum = z.enum(['PENDING', 'APPROVED', 'REJECTED']);
+
+// ─── Close Period ───
+// MONTH closes the whole calendar month containing `date`
+export const closePeriodSchema = z.object({
+  stationId: z.string().uuid(),
+  periodType: periodTypeEnum,
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD'),
+});
+export type ClosePeriodInput = z.infer<typeof closePeriodSchema>;
+
+// ─── Reopen Request ───
+export const requestPeriodReopenSchema = z.object({
+  justification: z.string().min(10, 'Justification must be at least 10 characters'),
+});
+export type RequestPeriodReopenInput = z.infer<typeof requestPeriodReopenSchema>;
+
+export const approvePeriodReopenSchema = z.object({
+  comment: z.string().optional(),
+});
+export type ApprovePeriodReopenInput = z.infer<typeof approvePeriodReopenSchema>;
+
+export const rejectPeriodReopenSchema = z.object({
+  reason: z.string().min(10, 'Rejection reason must be at least 10 characters'),
+});
+export type RejectPeriodReopenInput = z.infer<typeof rejectPeriodReopenSchema>;
+
+// ─── Filters ───
+export const periodCloseFiltersSchema = z.object({
+  stationId: z.string().uuid().optional(),
+  reopenStatus: periodReopenStatusEnum.optional(),
+});
+export type PeriodCloseFilters = z.infer<typeof periodCloseFiltersSchema>;
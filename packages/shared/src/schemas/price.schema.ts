@@ -3,12 +3,33 @@ import { z } from 'zod';
 const fuelTypeEnum = z.enum(['ESSENCE', 'GASOIL', 'PETROLE']);
 const priceStatusEnum = z.enum(['PENDING', 'APPROVED', 'REJECTED']);
 
-// ─── Create Price ───
-export const createPriceSchema = z.object({
-  fuelType: fuelTypeEnum,
-  price: z.number().positive('Price must be positive'),
-  effectiveDate: z.string().datetime('Invalid date format'),
+// ─── Price Zones ───
+export const createPriceZoneSchema = z.object({
+  code: z.string().regex(/^[A-Z][A-Z0-9_-]{1,19}$/, 'Zone code must be 2-20 uppercase letters, digits, - or _'),
+  name: z.string().min(2, 'Name is required'),
+});
+export type CreatePriceZoneInput = z.infer<typeof createPriceZoneSchema>;
+
+export const updatePriceZoneSchema = z.object({
+  name: z.string().min(2, 'Name is required'),
 });
+export type UpdatePriceZoneInput = z.infer<typeof updatePriceZoneSchema>;
+
+// ─── Create Price ───
+// Without a zone or station the price is national; a station price overrides its zone's,
+// which overrides the national price.
+export const createPriceSchema = z
+  .object({
+    fuelType: fuelTypeEnum,
+    price: z.number().positive('Price must be positive'),
+    effectiveDate: z.string().datetime('Invalid date format'),
+    priceZoneId: z.string().uuid().optional(),
+    stationId: z.string().uuid().optional(),
+  })
+  .refine((d) => !(d.priceZoneId && d.stationId), {
+    message: 'A price applies to a zone or a station, not both',
+    path: ['stationId'],
+  });
 export type CreatePriceInput = z.infer<typeof createPriceSchema>;
 
 // ─── Approve Price ───
@@ -33,6 +54,9 @@ export const listPricesQuerySchema = z.object({
   isActive: z.enum(['true', 'false']).optional().transform((v) => v === 'true'),
   startDate: z.string().datetime().optional(),
   endDate: z.string().datetime().optional(),
+  // Prices of the zone and of its stations
+  priceZoneId: z.string().uuid().optional(),
+  stationId: z.string().uuid().optional(),
 });
 export type ListPricesQuery = z.infer<typeof listPricesQuerySchema>;
 
@@ -44,6 +68,8 @@ export const priceResponseSchema = z.object({
   effectiveDate: z.string().datetime(),
   status: priceStatusEnum,
   isActive: z.boolean(),
+  priceZoneId: z.string().uuid().nullable(),
+  stationId: z.string().uuid().nullable(),
   createdById: z.string().uuid(),
   approvedById: z.string().uuid().nullable(),
   approvedAt: z.string().datetime().nullable(),
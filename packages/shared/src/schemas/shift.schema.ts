@@ -1,13 +1,68 @@
 import { z } from 'zod';
 
-const shiftTypeEnum = z.enum(['MORNING', 'EVENING']);
 const shiftStatusEnum = z.enum(['OPEN', 'CLOSED', 'LOCKED']);
 
+// ─── Shift Patterns ───
+// A shift type is the code of one of the station's shift patterns (Station.settings.shiftPatterns)
+export const shiftTypeSchema = z
+  .string()
+  .regex(/^[A-Z][A-Z0-9_]{1,19}$/, 'Shift code must be 2-20 uppercase letters, digits or _');
+
+const timeOfDaySchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Format HH:MM required');
+
+export const shiftPatternSchema = z
+  .object({
+    code: shiftTypeSchema,
+    name: z.string().min(1, 'Name is required'),
+    startTime: timeOfDaySchema,
+    endTime: timeOfDaySchema,
+    // Ends the next day (e.g. 22:00 → 06:00); the shift date is the day it starts
+    crossesMidnight: z.boolean(),
+  })
+  .refine((p) => p.crossesMidnight === p.endTime <= p.startTime, {
+    message: 'A shift crosses midnight exactly when it ends at or before its start time',
+    path: ['crossesMidnight'],
+  });
+export type ShiftPattern = z.infer<typeof shiftPatternSchema>;
+
+export const shiftPatternsSchema = z
+  .array(shiftPatternSchema)
+  .min(1, 'At least one shift pattern is required')
+  .refine((patterns) => new Set(patterns.map((p) => p.code)).size === patterns.length, {
+    message: 'Shift codes must be unique',
+  });
+
+// ─── Payment Methods ───
+// Non-cash tenders accepted by a station besides bank cards (Station.settings.paymentMethods):
+// mobile money… Cash and card are always accepted and cannot be redefined. Credit sales and
+// prepaid coupons are deducted from their own records: a tender for them would count them twice.
+export const RESERVED_PAYMENT_METHOD_CODES = ['CASH', 'CARD', 'CREDIT', 'VOUCHER', 'COUPON', 'FLEET_CARD'];
+
+export const paymentMethodCodeSchema = z
+  .string()
+  .regex(/^[A-Z][A-Z0-9_]{1,19}$/, 'Payment method code must be 2-20 uppercase letters, digits or _')
+  .refine(
+    (code) => !RESERVED_PAYMENT_METHOD_CODES.includes(code),
+    'Cash, cards, credit sales and coupons are recorded apart and cannot be payment methods',
+  );
+
+export const paymentMethodSchema = z.object({
+  code: paymentMethodCodeSchema,
+  name: z.string().min(1, 'Name is required'),
+});
+export type PaymentMethod = z.infer<typeof paymentMethodSchema>;
+
+export const paymentMethodsSchema = z
+  .array(paymentMethodSchema)
+  .refine((methods) => new Set(methods.map((m) => m.code)).size === methods.length, {
+    message: 'Payment method codes must be unique',
+  });
+
 // ─── Open Shift ───
 export const openShiftSchema = z.object({
   stationId: z.string().uuid(),
   shiftDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD'),
-  shiftType: shiftTypeEnum,
+  shiftType: shiftTypeSchema,
 });
 export type OpenShiftInput = z.infer<typeof openShiftSchema>;
 
@@ -17,31 +72,153 @@ export const shiftSaleInputSchema = z.object({
   closingIndex: z.number().nonnegative('Closing index cannot be negative'),
 });
 
-export const shiftTankDipInputSchema = z.object({
-  tankId: z.string().uuid(),
-  physicalLevel: z.number().nonnegative('Physical level cannot be negative'),
+export const shiftTankDipInputSchema = z
+  .object({
+    tankId: z.string().uuid(),
+    physicalLevel: z.number().nonnegative('Physical level cannot be negative').optional(),
+    // Dipstick reading in cm, converted with the tank's calibration chart
+    dipHeight: z.number().nonnegative('Dip height cannot be negative').optional(),
+    // Observed product temperature (°C) and density at 15 °C (kg/m³) for 15 °C correction
+    temperature: z.number().min(-10).max(60).optional(),
+    density: z.number().min(600).max(1100).optional(),
+  })
+  .refine((d) => d.physicalLevel !== undefined || d.dipHeight !== undefined, {
+    message: 'Either physical level or dip height is required',
+    path: ['physicalLevel'],
+  });
+
+export const shiftTenderInputSchema = z.object({
+  method: paymentMethodCodeSchema,
+  amount: z.number().nonnegative('Amount cannot be negative'),
 });
 
 export const shiftCashInputSchema = z.object({
   counted: z.number().nonnegative('Cash counted cannot be negative'),
   card: z.number().nonnegative().default(0),
   expenses: z.number().nonnegative().default(0),
+  // Other non-cash tenders, one entry per station payment method
+  tenders: z
+    .array(shiftTenderInputSchema)
+    .default([])
+    .refine((tenders) => new Set(tenders.map((t) => t.method)).size === tenders.length, {
+      message: 'Each payment method can only be entered once',
+    }),
+});
+
+// Shop product sold during the shift and the stock counted at closing
+export const shiftProductInputSchema = z.object({
+  productId: z.string().uuid(),
+  quantitySold: z.number().nonnegative('Quantity sold cannot be negative'),
+  countedStock: z.number().nonnegative('Counted stock cannot be negative'),
 });
+export type ShiftProductInput = z.infer<typeof shiftProductInputSchema>;
+
+// Full and empty gas bottles counted at closing
+export const shiftCylinderInputSchema = z.object({
+  cylinderTypeId: z.string().uuid(),
+  countedFull: z.number().int().nonnegative('Count cannot be negative'),
+  countedEmpty: z.number().int().nonnegative('Count cannot be negative'),
+});
+export type ShiftCylinderInput = z.infer<typeof shiftCylinderInputSchema>;
+
+// Serial numbers of the prepaid fuel coupons found in the cash envelope
+export const shiftCouponSerialsSchema = z
+  .array(z.string().trim().min(1, 'Serial number is required').transform((v) => v.toUpperCase()))
+  .refine((serials) => new Set(serials).size === serials.length, {
+    message: 'Each coupon can only be entered once',
+  });
 
 export const closeShiftSchema = z.object({
   sales: z.array(shiftSaleInputSchema).min(1, 'At least one nozzle reading is required'),
   tankDips: z.array(shiftTankDipInputSchema).min(1, 'At least one tank dip is required'),
   cash: shiftCashInputSchema,
+  products: z
+    .array(shiftProductInputSchema)
+    .refine((p) => new Set(p.map((x) => x.productId)).size === p.length, {
+      message: 'Each product can only be entered once',
+    })
+    .optional(),
+  cylinders: z
+    .array(shiftCylinderInputSchema)
+    .refine((c) => new Set(c.map((x) => x.cylinderTypeId)).size === c.length, {
+      message: 'Each cylinder type can only be counted once',
+    })
+    .optional(),
+  coupons: shiftCouponSerialsSchema.optional(),
   justification: z.string().optional(),
 });
 export type CloseShiftInput = z.infer<typeof closeShiftSchema>;
 
+// ─── Attendants ───
+export const assignAttendantSchema = z.object({
+  attendantId: z.string().uuid(),
+  nozzleIds: z.array(z.string().uuid()).min(1, 'At least one nozzle is required'),
+});
+export type AssignAttendantInput = z.infer<typeof assignAttendantSchema>;
+
+// Mid-shift handover of a nozzle, at the meter index read when the attendants swap
+export const attendantHandoverSchema = z.object({
+  nozzleId: z.string().uuid(),
+  toAttendantId: z.string().uuid(),
+  meterIndex: z.number().nonnegative('Meter index cannot be negative'),
+});
+export type AttendantHandoverInput = z.infer<typeof attendantHandoverSchema>;
+
+export const declareAttendantCashSchema = z.object({
+  attendantId: z.string().uuid(),
+  counted: z.number().nonnegative('Cash counted cannot be negative'),
+  card: z.number().nonnegative().default(0),
+});
+export type DeclareAttendantCashInput = z.infer<typeof declareAttendantCashSchema>;
+
+// Meter readings taken when a new price became effective during the shift
+export const recordPriceChangeSchema = z.object({
+  readings: z
+    .array(
+      z.object({
+        nozzleId: z.string().uuid(),
+        meterIndex: z.number().nonnegative('Meter index cannot be negative'),
+      }),
+    )
+    .min(1, 'At least one meter reading is required')
+    .refine((r) => new Set(r.map((x) => x.nozzleId)).size === r.length, {
+      message: 'Each nozzle can only be read once',
+    }),
+});
+export type RecordPriceChangeInput = z.infer<typeof recordPriceChangeSchema>;
+
+// ─── Shift Correction ───
+// Only the readings being corrected are sent; the rest is taken from the closed shift
+export const proposeShiftCorrectionSchema = z
+  .object({
+    sales: z.array(shiftSaleInputSchema).optional(),
+    tankDips: z.array(shiftTankDipInputSchema).optional(),
+    cash: shiftCashInputSchema.partial().optional(),
+    justification: z.string().optional(),
+    reason: z.string().min(10, 'Reason must be at least 10 characters'),
+  })
+  .refine((d) => (d.sales?.length ?? 0) > 0 || (d.tankDips?.length ?? 0) > 0 || d.cash !== undefined, {
+    message: 'At least one sale, tank dip or cash amount must be corrected',
+    path: ['sales'],
+  });
+export type ProposeShiftCorrectionInput = z.infer<typeof proposeShiftCorrectionSchema>;
+
+export const approveShiftCorrectionSchema = z.object({
+  comment: z.string().optional(),
+});
+export type ApproveShiftCorrectionInput = z.infer<typeof approveShiftCorrectionSchema>;
+
+export const rejectShiftCorrectionSchema = z.object({
+  reason: z.string().min(10, 'Rejection reason must be at least 10 characters'),
+});
+export type RejectShiftCorrectionInput = z.infer<typeof rejectShiftCorrectionSchema>;
+
 // ─── Shift Response ───
 export const shiftResponseSchema = z.object({
   id: z.string().uuid(),
   stationId: z.string().uuid(),
   shiftDate: z.string(),
-  shiftType: shiftTypeEnum,
+  shiftType: shiftTypeSchema,
   status: shiftStatusEnum,
   totalRevenue: z.number(),
   cashVariance: z.number(),
@@ -1,7 +1,9 @@
 import { z } from 'zod';
+import { paymentMethodsSchema, shiftPatternsSchema } from './shift.schema';
 
 const fuelTypeEnum = z.enum(['ESSENCE', 'GASOIL', 'PETROLE']);
 const nozzleSideEnum = z.enum(['A', 'B']);
+const meterTypeEnum = z.enum(['ELECTRONIC', 'MECHANICAL']);
 
 // ─── Tank ───
 export const createTankSchema = z.object({
@@ -18,6 +20,28 @@ export const updateTankSchema = z.object({
 });
 export type UpdateTankInput = z.infer<typeof updateTankSchema>;
 
+// ─── Tank Calibration (strapping chart) ───
+export const calibrationPointSchema = z.object({
+  height: z.number().nonnegative('Height cannot be negative'), // cm
+  volume: z.number().nonnegative('Volume cannot be negative'), // L
+});
+export type CalibrationPointInput = z.infer<typeof calibrationPointSchema>;
+
+export const tankCalibrationSchema = z.object({
+  points: z
+    .array(calibrationPointSchema)
+    .min(2, 'At least two calibration points are required')
+    .refine(
+      (points) => new Set(points.map((p) => p.height)).size === points.length,
+      'Calibration heights must be unique',
+    )
+    .refine((points) => {
+      const sorted = [...points].sort((a, b) => a.height - b.height);
+      return sorted.every((p, i) => i === 0 || p.volume >= sorted[i - 1]!.volume);
+    }, 'Volume must not decrease as height increases'),
+});
+export type TankCalibrationInput = z.infer<typeof tankCalibrationSchema>;
+
 // ─── Pump ───
 export const createPumpSchema = z.object({
   code: z.string().min(1, 'Pump code is required'),
@@ -32,12 +56,15 @@ export const createStationSchema = z.object({
     .min(3, 'Code is required')
     .regex(/^ST-[A-Z]{3}-\d{3}$/, 'Code must follow format ST-XXX-000'),
   name: z.string().min(2, 'Name is required'),
+  priceZoneId: z.string().uuid().optional(),
   settings: z
     .object({
       tolerance: z
         .object({
           cashVariance: z.number().nonnegative().default(5000),
           stockVariance: z.number().nonnegative().default(50),
+          // Gas bottles missing or in excess before the shift is reported (0 by default)
+          cylinderVariance: z.number().int().nonnegative().optional(),
         })
         .default({}),
       openingHours: z
@@ -46,6 +73,18 @@ export const createStationSchema = z.object({
           evening: z.string().default('18:00'),
         })
         .default({}),
+      cashDeposit: z
+        .object({
+          maxUndepositedDays: z.number().int().positive().default(2),
+        })
+        .default({}),
+      wetStock: z
+        .object({
+          lossThresholdPercent: z.number().positive().max(1).optional(),
+        })
+        .optional(),
+      shiftPatterns: shiftPatternsSchema.optional(),
+      paymentMethods: paymentMethodsSchema.optional(),
     })
     .default({}),
   // Optional nested tanks & pumps for wizard-style creation
@@ -56,12 +95,14 @@ export type CreateStationInput = z.infer<typeof createStationSchema>;
 
 export const updateStationSchema = z.object({
   name: z.string().min(2).optional(),
+  priceZoneId: z.string().uuid().nullable().optional(), // null removes the station from its zone
   settings: z
     .object({
       tolerance: z
         .object({
           cashVariance: z.number().nonnegative().optional(),
           stockVariance: z.number().nonnegative().optional(),
+          cylinderVariance: z.number().int().nonnegative().optional(),
         })
         .optional(),
       openingHours: z
@@ -70,6 +111,18 @@ export const updateStationSchema = z.object({
           evening: z.string().optional(),
         })
         .optional(),
+      cashDeposit: z
+        .object({
+          maxUndepositedDays: z.number().int().positive().optional(),
+        })
+        .optional(),
+      wetStock: z
+        .object({
+          lossThresholdPercent: z.number().positive().max(1).optional(),
+        })
+        .optional(),
+      shiftPatterns: shiftPatternsSchema.optional(),
+      paymentMethods: paymentMethodsSchema.optional(),
     })
     .optional(),
   isActive: z.boolean().optional(),
@@ -100,6 +153,7 @@ export const updateStationSettingsSchema = z.object({
     .object({
       cashVariance: z.number().nonnegative().optional(),
       stockVariance: z.number().nonnegative().optional(),
+      cylinderVariance: z.number().int().nonnegative().optional(),
     })
     .optional(),
   openingHours: z
@@ -108,6 +162,8 @@ export const updateStationSettingsSchema = z.object({
       evening: z.string().regex(/^\d{2}:\d{2}$/, 'Format HH:MM required').optional(),
     })
     .optional(),
+  shiftPatterns: shiftPatternsSchema.optional(),
+  paymentMethods: paymentMethodsSchema.optional(),
 });
 export type UpdateStationSettingsInput = z.infer<typeof updateStationSettingsSchema>;
 
@@ -117,5 +173,34 @@ export const nozzleSchema = z.object({
   pumpId: z.string().uuid(),
   side: nozzleSideEnum,
   meterIndex: z.number().nonnegative(),
+  meterType: meterTypeEnum,
+  rolloverValue: z.number().positive(),
 });
 export type NozzleResponse = z.infer<typeof nozzleSchema>;
+
+// Totalizer swapped on a nozzle: final index of the old meter, starting index of the new one
+export const recordMeterReplacementSchema = z
+  .object({
+    oldFinalIndex: z.number().nonnegative(),
+    newStartIndex: z.number().nonnegative(),
+    // Configuration of the new meter; the old one's is kept when omitted
+    meterType: meterTypeEnum.optional(),
+    rolloverValue: z.number().positive().optional(),
+    reason: z.string().min(5, 'Reason must be at least 5 characters'),
+  })
+  .refine((d) => d.rolloverValue === undefined || d.newStartIndex <= d.rolloverValue, {
+    message: 'Starting index exceeds the meter rollover value',
+    path: ['newStartIndex'],
+  });
+export type RecordMeterReplacementInput = z.infer<typeof recordMeterReplacementSchema>;
+
+// Test measure filled from a nozzle: volume shown by the pump vs volume read on the measure
+export const recordCalibrationTestSchema = z.object({
+  testType: z.enum(['INTERNAL', 'OFFICIAL']).optional(), // INTERNAL when omitted
+  dispensedVolume: z.number().positive('Dispensed volume must be positive'),
+  measuredVolume: z.number().positive('Measured volume must be positive'),
+  // Fuel poured back into the tank: neither sold nor lost (the default)
+  returnedToTank: z.boolean().optional(),
+  notes: z.string().optional(),
+});
+export type RecordCalibrationTestInput = z.infer<typeof recordCalibrationTestSchema>;
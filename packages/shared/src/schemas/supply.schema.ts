@@ -4,8 +4,16 @@ const fuelTypeEnum = z.enum(['ESSENCE', 'GASOIL', 'PETROLE']);
 const replenishmentStatusEnum = z.enum([
   'DRAFT', 'PENDING_VALIDATION', 'VALIDATED', 'ORDERED', 'COMPLETED',
 ]);
-const deliveryStatusEnum = z.enum(['IN_PROGRESS', 'VALIDATED', 'DISPUTED']);
+const deliveryStatusEnum = z.enum(['IN_PROGRESS', 'VALIDATED', 'DISPUTED', 'RESOLVED']);
+export const purchaseOrderStatusEnum = z.enum(['ISSUED', 'RECEIVED', 'CANCELLED']);
+export const deliveryDisputeStatusEnum = z.enum(['OPEN', 'INVESTIGATING', 'CLAIMED', 'CREDITED', 'REJECTED', 'WRITTEN_OFF']);
 export const compartmentStatusEnum = z.enum(['VALIDATED', 'DISPUTED']);
+export const tripStatusEnum = z.enum(['PLANNED', 'DISPATCHED', 'COMPLETED', 'CANCELLED']);
+export const fuelTransferStatusEnum = z.enum([
+  'PENDING_APPROVAL', 'APPROVED', 'IN_TRANSIT', 'COMPLETED', 'REJECTED',
+]);
+export const productCategoryEnum = z.enum(['LUBRICANT', 'LPG_ACCESSORY', 'SHOP']);
+export const cylinderTransactionTypeEnum = z.enum(['SALE', 'EXCHANGE', 'DEPOSIT_REFUND']);
 export const supplierCategoryEnum = z.enum([
   'FUEL_SUPPLY', 'MAINTENANCE', 'UTILITIES', 'EQUIPMENT', 'OTHER',
 ]);
@@ -25,6 +33,12 @@ export const updateSupplierSchema = createSupplierSchema.partial();
 export type UpdateSupplierInput = z.infer<typeof updateSupplierSchema>;
 
 // ─── Replenishment Request ───
+export const replenishmentForecastFiltersSchema = z.object({
+  stationId: z.string().uuid().optional(),
+  fuelType: fuelTypeEnum.optional(),
+});
+export type ReplenishmentForecastFilters = z.infer<typeof replenishmentForecastFiltersSchema>;
+
 export const createReplenishmentSchema = z.object({
   stationId: z.string().uuid(),
   fuelType: fuelTypeEnum,
@@ -56,15 +70,65 @@ export const replenishmentResponseSchema = z.object({
 });
 export type ReplenishmentResponse = z.infer<typeof replenishmentResponseSchema>;
 
+// ─── Purchase Order ───
+// Issued to a supplier for validated replenishment requests of one station, priced per fuel type
+export const createPurchaseOrderSchema = z.object({
+  supplierId: z.string().uuid(),
+  replenishmentRequestIds: z
+    .array(z.string().uuid())
+    .min(1, 'At least one replenishment request is required')
+    .refine((ids) => new Set(ids).size === ids.length, 'Each request can only be ordered once'),
+  prices: z
+    .array(
+      z.object({
+        fuelType: fuelTypeEnum,
+        unitPrice: z.number().positive('Unit price must be positive'),
+      }),
+    )
+    .min(1, 'A unit price is required for each fuel type')
+    .refine((p) => new Set(p.map((x) => x.fuelType)).size === p.length, 'Each fuel type can only be priced once'),
+  expectedDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD').optional(),
+  notes: z.string().max(500).optional(),
+});
+export type CreatePurchaseOrderInput = z.infer<typeof createPurchaseOrderSchema>;
+
+// Single-request order placed from the replenishment request itself
+export const orderReplenishmentSchema = z.object({
+  supplierId: z.string().uuid(),
+  unitPrice: z.number().positive('Unit price must be positive'),
+  expectedDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD').optional(),
+});
+export type OrderReplenishmentInput = z.infer<typeof orderReplenishmentSchema>;
+
+export const cancelPurchaseOrderSchema = z.object({
+  reason: z.string().min(10, 'Cancellation reason must be at least 10 characters'),
+});
+export type CancelPurchaseOrderInput = z.infer<typeof cancelPurchaseOrderSchema>;
+
+export const purchaseOrderFiltersSchema = z.object({
+  page: z.coerce.number().int().positive().default(1),
+  limit: z.coerce.number().int().positive().max(100).default(20),
+  status: purchaseOrderStatusEnum.optional(),
+  supplierId: z.string().uuid().optional(),
+  stationId: z.string().uuid().optional(),
+});
+export type PurchaseOrderFilters = z.infer<typeof purchaseOrderFiltersSchema>;
+
 // ─── Fuel Delivery ───
 export const createDeliverySchema = z.object({
   stationId: z.string().uuid(),
   replenishmentRequestId: z.string().uuid().optional(),
+  purchaseOrderId: z.string().uuid().optional(),
   blNumber: z.string().min(1, 'BL number is required'),
   blTotalVolume: z.number().positive('BL total volume must be positive').optional(),
-  truckPlate: z.string().min(1, 'Truck plate is required'),
-  driverName: z.string().min(1, 'Driver name is required'),
-});
+  // A registered truck and driver, or the plate and name of an unregistered haulier
+  truckId: z.string().uuid().optional(),
+  driverId: z.string().uuid().optional(),
+  truckPlate: z.string().min(1, 'Truck plate is required').optional(),
+  driverName: z.string().min(1, 'Driver name is required').optional(),
+})
+  .refine((d) => d.truckId || d.truckPlate, { message: 'Truck is required', path: ['truckPlate'] })
+  .refine((d) => d.driverId || d.driverName, { message: 'Driver is required', path: ['driverName'] });
 export type CreateDeliveryInput = z.infer<typeof createDeliverySchema>;
 
 export const addCompartmentSchema = z.object({
@@ -74,12 +138,35 @@ export const addCompartmentSchema = z.object({
 });
 export type AddCompartmentInput = z.infer<typeof addCompartmentSchema>;
 
+// Dips are given in litres, or as heights (cm) converted with the tank's calibration chart
+export const startDeliverySchema = z.object({
+  compartments: z.array(
+    z.object({
+      compartmentId: z.string().uuid(),
+      openingDip: z.number().nonnegative().optional(),
+      openingDipHeight: z.number().nonnegative().optional(),
+    }).refine((c) => c.openingDip !== undefined || c.openingDipHeight !== undefined, {
+      message: 'Either opening dip or opening dip height is required',
+      path: ['openingDip'],
+    }),
+  ).min(1, 'Opening dips for all compartments are required'),
+});
+export type StartDeliveryInput = z.infer<typeof startDeliverySchema>;
+
 export const recordDipsSchema = z.object({
   compartments: z.array(
     z.object({
       compartmentId: z.string().uuid(),
-      openingDip: z.number().nonnegative(),
-      closingDip: z.number().nonnegative(),
+      openingDip: z.number().nonnegative().optional(),
+      openingDipHeight: z.number().nonnegative().optional(),
+      closingDip: z.number().nonnegative().optional(),
+      closingDipHeight: z.number().nonnegative().optional(),
+      // Observed temperature (°C) and density at 15 °C (kg/m³) for 15 °C correction
+      temperature: z.number().min(-10).max(60).optional(),
+      density: z.number().min(600).max(1100).optional(),
+    }).refine((c) => c.closingDip !== undefined || c.closingDipHeight !== undefined, {
+      message: 'Either closing dip or closing dip height is required',
+      path: ['closingDip'],
     }),
   ).min(1, 'At least one compartment dip is required'),
 });
@@ -97,6 +184,328 @@ export const deliveryResponseSchema = z.object({
 });
 export type DeliveryResponse = z.infer<typeof deliveryResponseSchema>;
 
+// ─── Fuel Transfer ───
+// Product moved from one tank to another, in the same station or trucked between stations
+export const createFuelTransferSchema = z
+  .object({
+    sourceTankId: z.string().uuid(),
+    destinationTankId: z.string().uuid(),
+    requestedVolume: z.number().positive('Volume must be positive'),
+    reason: z.string().min(5, 'Reason is required'),
+    truckPlate: z.string().optional(),
+  })
+  .refine((t) => t.sourceTankId !== t.destinationTankId, {
+    message: 'Source and destination tanks must differ',
+    path: ['destinationTankId'],
+  });
+export type CreateFuelTransferInput = z.infer<typeof createFuelTransferSchema>;
+
+export const rejectFuelTransferSchema = z.object({
+  reason: z.string().min(5, 'Reason is required'),
+});
+
+// Dips before and after the movement, in litres or as heights (cm)
+export const recordTransferDipsSchema = z
+  .object({
+    openingDip: z.number().nonnegative().optional(),
+    openingDipHeight: z.number().nonnegative().optional(),
+    closingDip: z.number().nonnegative().optional(),
+    closingDipHeight: z.number().nonnegative().optional(),
+  })
+  .refine((d) => d.openingDip !== undefined || d.openingDipHeight !== undefined, {
+    message: 'Either opening dip or opening dip height is required',
+    path: ['openingDip'],
+  })
+  .refine((d) => d.closingDip !== undefined || d.closingDipHeight !== undefined, {
+    message: 'Either closing dip or closing dip height is required',
+    path: ['closingDip'],
+  });
+export type RecordTransferDipsInput = z.infer<typeof recordTransferDipsSchema>;
+
+export const fuelTransferFiltersSchema = z.object({
+  page: z.coerce.number().int().positive().default(1),
+  limit: z.coerce.number().int().positive().max(100).default(20),
+  stationId: z.string().uuid().optional(),
+  status: fuelTransferStatusEnum.optional(),
+});
+export type FuelTransferFilters = z.infer<typeof fuelTransferFiltersSchema>;
+
+// ─── Shop Products ───
+export const createProductSchema = z.object({
+  sku: z.string().min(1, 'SKU is required').max(50),
+  name: z.string().min(2, 'Name is required'),
+  category: productCategoryEnum,
+  unit: z.string().min(1).max(20).optional(),
+  unitPrice: z.number().nonnegative('Price cannot be negative'),
+});
+export type CreateProductInput = z.infer<typeof createProductSchema>;
+
+export const updateProductSchema = createProductSchema.partial().extend({
+  isActive: z.boolean().optional(),
+});
+export type UpdateProductInput = z.infer<typeof updateProductSchema>;
+
+export const productListFiltersSchema = z.object({
+  page: z.coerce.number().int().positive().default(1),
+  limit: z.coerce.number().int().positive().max(100).default(50),
+  search: z.string().optional(),
+  category: productCategoryEnum.optional(),
+  isActive: z.enum(['true', 'false']).optional(),
+});
+export type ProductListFilters = z.infer<typeof productListFiltersSchema>;
+
+// Quantity under which the station is alerted to reorder the product
+export const updateProductStockSchema = z.object({
+  reorderLevel: z.number().nonnegative('Reorder level cannot be negative'),
+});
+export type UpdateProductStockInput = z.infer<typeof updateProductStockSchema>;
+
+export const createProductReceiptSchema = z.object({
+  stationId: z.string().uuid(),
+  productId: z.string().uuid(),
+  supplierId: z.string().uuid(),
+  quantity: z.number().positive('Quantity must be positive'),
+  unitCost: z.number().nonnegative('Unit cost cannot be negative'),
+  reference: z.string().optional(),
+});
+export type CreateProductReceiptInput = z.infer<typeof createProductReceiptSchema>;
+
+export const productStockFiltersSchema = z.object({
+  stationId: z.string().uuid().optional(),
+  lowStock: z.enum(['true', 'false']).optional(),
+});
+export type ProductStockFilters = z.infer<typeof productStockFiltersSchema>;
+
+// ─── Gas Cylinders ───
+export const createCylinderTypeSchema = z.object({
+  brand: z.string().min(2, 'Brand is required'),
+  sizeKg: z.number().positive('Size must be positive'),
+  gasPrice: z.number().nonnegative('Price cannot be negative'),
+  depositPrice: z.number().nonnegative('Deposit cannot be negative'),
+});
+export type CreateCylinderTypeInput = z.infer<typeof createCylinderTypeSchema>;
+
+export const updateCylinderTypeSchema = createCylinderTypeSchema.partial().extend({
+  isActive: z.boolean().optional(),
+});
+export type UpdateCylinderTypeInput = z.infer<typeof updateCylinderTypeSchema>;
+
+// Full bottles delivered by the gas supplier and empties handed back on the same truck
+export const createCylinderDeliverySchema = z
+  .object({
+    stationId: z.string().uuid(),
+    cylinderTypeId: z.string().uuid(),
+    supplierId: z.string().uuid(),
+    fullReceived: z.number().int().nonnegative('Count cannot be negative'),
+    emptyReturned: z.number().int().nonnegative('Count cannot be negative'),
+    reference: z.string().optional(),
+  })
+  .refine((d) => d.fullReceived > 0 || d.emptyReturned > 0, {
+    message: 'Enter the full bottles received or the empties returned',
+    path: ['fullReceived'],
+  });
+export type CreateCylinderDeliveryInput = z.infer<typeof createCylinderDeliverySchema>;
+
+export const createCylinderTransactionSchema = z.object({
+  stationId: z.string().uuid(),
+  cylinderTypeId: z.string().uuid(),
+  type: cylinderTransactionTypeEnum,
+  quantity: z.number().int().positive('Quantity must be positive'),
+});
+export type CreateCylinderTransactionInput = z.infer<typeof createCylinderTransactionSchema>;
+
+export const cylinderStockFiltersSchema = z.object({
+  stationId: z.string().uuid().optional(),
+});
+export type CylinderStockFilters = z.infer<typeof cylinderStockFiltersSchema>;
+
+export const cylinderTransactionFiltersSchema = z.object({
+  shiftReportId: z.string().uuid(),
+});
+export type CylinderTransactionFilters = z.infer<typeof cylinderTransactionFiltersSchema>;
+
+// ─── Delivery Dispute ───
+export const addDisputeNoteSchema = z.object({
+  content: z.string().min(3, 'Note must be at least 3 characters').max(2000),
+});
+export type AddDisputeNoteInput = z.infer<typeof addDisputeNoteSchema>;
+
+// File uploaded beforehand through POST /files/upload?module=disputes
+export const addDisputeEvidenceSchema = z.object({
+  fileUrl: z.string().min(1, 'File is required'),
+  fileName: z.string().min(1, 'File name is required'),
+});
+export type AddDisputeEvidenceInput = z.infer<typeof addDisputeEvidenceSchema>;
+
+// Supplier and prices default to the purchase order of the delivery
+export const sendDisputeClaimSchema = z.object({
+  supplierId: z.string().uuid().optional(),
+  prices: z
+    .array(
+      z.object({
+        fuelType: fuelTypeEnum,
+        unitPrice: z.number().positive('Unit price must be positive'),
+      }),
+    )
+    .refine((p) => new Set(p.map((x) => x.fuelType)).size === p.length, 'Each fuel type can only be priced once')
+    .optional(),
+});
+export type SendDisputeClaimInput = z.infer<typeof sendDisputeClaimSchema>;
+
+export const resolveDisputeSchema = z
+  .object({
+    outcome: z.enum(['CREDITED', 'REJECTED', 'WRITTEN_OFF']),
+    creditNoteNumber: z.string().min(1).optional(),
+    creditedAmount: z.number().positive('Credited amount must be positive').optional(),
+    resolutionNote: z.string().min(10, 'Resolution note must be at least 10 characters'),
+  })
+  .refine((d) => d.outcome !== 'CREDITED' || (!!d.creditNoteNumber && d.creditedAmount !== undefined), {
+    message: 'Credit note number and amount are required when the claim is credited',
+    path: ['creditNoteNumber'],
+  });
+export type ResolveDisputeInput = z.infer<typeof resolveDisputeSchema>;
+
+export const disputeFiltersSchema = z.object({
+  page: z.coerce.number().int().positive().default(1),
+  limit: z.coerce.number().int().positive().max(100).default(20),
+  status: deliveryDisputeStatusEnum.optional(),
+  supplierId: z.string().uuid().optional(),
+  stationId: z.string().uuid().optional(),
+});
+export type DisputeFilters = z.infer<typeof disputeFiltersSchema>;
+
+export const disputeClaimsReportSchema = z.object({
+  from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD').optional(),
+  to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD').optional(),
+});
+export type DisputeClaimsReportFilters = z.infer<typeof disputeClaimsReportSchema>;
+
+// ─── Carriers & Trucks ───
+export const createCarrierSchema = z.object({
+  name: z.string().min(1, 'Name is required'),
+  phone: z.string().optional(),
+  email: z.string().email('Invalid email').optional(),
+});
+export type CreateCarrierInput = z.infer<typeof createCarrierSchema>;
+
+export const updateCarrierSchema = createCarrierSchema.partial().extend({
+  isActive: z.boolean().optional(),
+});
+export type UpdateCarrierInput = z.infer<typeof updateCarrierSchema>;
+
+// Compartments front to back; their order gives their position on the truck
+const truckCompartmentsSchema = z
+  .array(z.object({ capacity: z.number().positive('Capacity must be positive') }))
+  .min(1, 'At least one compartment is required')
+  .max(8, 'A truck has at most 8 compartments');
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD');
+
+export const createTruckSchema = z.object({
+  carrierId: z.string().uuid(),
+  plateNumber: z.string().min(1, 'Plate number is required'),
+  calibrationCertificateNumber: z.string().min(1).optional(),
+  calibrationExpiresAt: isoDate.optional(),
+  compartments: truckCompartmentsSchema,
+});
+export type CreateTruckInput = z.infer<typeof createTruckSchema>;
+
+export const updateTruckSchema = z.object({
+  plateNumber: z.string().min(1).optional(),
+  calibrationCertificateNumber: z.string().min(1).optional(),
+  calibrationExpiresAt: isoDate.optional(),
+  isActive: z.boolean().optional(),
+  compartments: truckCompartmentsSchema.optional(),
+});
+export type UpdateTruckInput = z.infer<typeof updateTruckSchema>;
+
+export const truckFiltersSchema = z.object({
+  carrierId: z.string().uuid().optional(),
+  isActive: z.enum(['true', 'false']).optional(),
+});
+export type TruckFilters = z.infer<typeof truckFiltersSchema>;
+
+export const createDriverSchema = z.object({
+  carrierId: z.string().uuid(),
+  fullName: z.string().min(1, 'Name is required'),
+  phone: z.string().optional(),
+  licenceNumber: z.string().min(1, 'Licence number is required'),
+  licenceExpiresAt: isoDate,
+});
+export type CreateDriverInput = z.infer<typeof createDriverSchema>;
+
+export const updateDriverSchema = createDriverSchema.omit({ carrierId: true }).partial().extend({
+  isActive: z.boolean().optional(),
+});
+export type UpdateDriverInput = z.infer<typeof updateDriverSchema>;
+
+export const driverFiltersSchema = truckFiltersSchema;
+export type DriverFilters = z.infer<typeof driverFiltersSchema>;
+
+export const carrierScorecardFiltersSchema = z.object({
+  from: isoDate.optional(),
+  to: isoDate.optional(),
+});
+export type CarrierScorecardFilters = z.infer<typeof carrierScorecardFiltersSchema>;
+
+// ─── Delivery Trips ───
+// Stations are dropped in the order they first appear in the allocations
+export const planTripSchema = z.object({
+  truckId: z.string().uuid(),
+  driverId: z.string().uuid().optional(),
+  // Name of an unregistered driver; taken from the driver when driverId is given
+  driverName: z.string().min(1, 'Driver name is required').optional(),
+  plannedDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD'),
+  notes: z.string().optional(),
+  allocations: z
+    .array(
+      z.object({
+        truckCompartmentId: z.string().uuid(),
+        replenishmentRequestId: z.string().uuid(),
+        volume: z.number().positive('Volume must be positive'),
+      }),
+    )
+    .min(1, 'Allocate at least one compartment')
+    .refine(
+      (a) => new Set(a.map((x) => x.truckCompartmentId)).size === a.length,
+      'A compartment can only be loaded once',
+    ),
+}).refine((t) => t.driverId || t.driverName, { message: 'Driver is required', path: ['driverName'] });
+export type PlanTripInput = z.infer<typeof planTripSchema>;
+
+export const suggestTripAllocationSchema = z.object({
+  truckId: z.string().uuid(),
+  replenishmentRequestIds: z.array(z.string().uuid()).min(1, 'Select at least one request'),
+});
+export type SuggestTripAllocationInput = z.infer<typeof suggestTripAllocationSchema>;
+
+// One BL per station drop, issued by the depot on loading
+export const dispatchTripSchema = z.object({
+  drops: z
+    .array(
+      z.object({
+        stationId: z.string().uuid(),
+        blNumber: z.string().min(1, 'BL number is required'),
+      }),
+    )
+    .min(1),
+});
+export type DispatchTripInput = z.infer<typeof dispatchTripSchema>;
+
+export const cancelTripSchema = z.object({
+  reason: z.string().min(10, 'Reason must be at least 10 characters'),
+});
+export type CancelTripInput = z.infer<typeof cancelTripSchema>;
+
+export const tripFiltersSchema = z.object({
+  page: z.coerce.number().int().positive().default(1),
+  limit: z.coerce.number().int().positive().max(100).default(20),
+  status: tripStatusEnum.optional(),
+  from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD').optional(),
+  to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD').optional(),
+});
+export type TripFilters = z.infer<typeof tripFiltersSchema>;
+
 // ─── List Filters ───
 export const supplyListFiltersSchema = z.object({
   page: z.coerce.number().int().positive().default(1),